@@ -3,14 +3,86 @@
  * OpenProse CLI
  *
  * Usage:
- *   open-prose compile <file.prose>   - Compile and validate a program
- *   open-prose validate <file.prose>  - Validate without compiling
+ *   open-prose compile <file.prose>   - Compile and validate a program, to prose, the JSON IR or TypeScript
+ *   open-prose validate <files>       - Validate without compiling
+ *   open-prose fmt [--check] <files>  - Format programs in place
+ *   open-prose plan <file.prose>      - Preview what a program will run
+ *   open-prose graph <file.prose>     - Export a program's dataflow graph
+ *   open-prose install <files>        - Install the skills programs import
+ *   open-prose run <file.prose>       - Run a program
+ *   open-prose resume <run-id>        - Resume a run from its checkpoint
+ *   open-prose replay <trace.jsonl>   - Re-run a program against a recorded trace
+ *   open-prose lsp                    - Start the language server on stdio
  *   open-prose help                   - Show this help message
  */
 
-import { readFileSync, existsSync } from 'fs';
-import { join } from 'path';
-import { parse, compile, validate } from '../src';
+import { readFileSync, writeFileSync, existsSync } from 'fs';
+import { dirname, join, relative, resolve } from 'path';
+import {
+  compile,
+  compileToIR,
+  compileToTypeScript,
+  COMPILE_TARGETS,
+  CompileTarget,
+  IRError,
+  IR_SCHEMA,
+  validate,
+  linkProgram,
+  applyFixes,
+  formatSource,
+  startLanguageServer,
+  interpret,
+  MockBackend,
+  loadMockFixture,
+  TraceRecorder,
+  TraceError,
+  traceFileWriter,
+  readTraceFile,
+  replay,
+  planProgram,
+  formatPlan,
+  estimateCost,
+  formatCostEstimate,
+  analyzeParallelism,
+  formatParallelism,
+  buildGraph,
+  formatGraph,
+  GRAPH_FORMATS,
+  GraphFormat,
+  Checkpoint,
+  CheckpointError,
+  checkpointFile,
+  loadCheckpoint,
+  createRunId,
+  DEFAULT_CHECKPOINT_DIR,
+  ExecutionError,
+  FixtureError,
+  RunLimits,
+  formatDiagnostic,
+  formatReport,
+  parseErrorToValidationError,
+  findConfigFile,
+  loadConfig,
+  ConfigError,
+  DiagnosticCodes,
+  REPORT_FORMATS,
+  FileReport,
+  LintOptions,
+  LinkResult,
+  ProgramNode,
+  ReportFormat,
+  ValidationError,
+  DirectoryRegistry,
+  SkillCache,
+  SkillError,
+  DEFAULT_SKILL_CACHE_DIR,
+  LOCKFILE_NAME,
+  LockfileError,
+  readLockfile,
+  writeLockfile,
+  skillSources,
+  installSkills,
+} from '../src';
 import { collectAndSendTelemetry } from '../src/telemetry';
 
 // Read version from package.json
@@ -25,23 +97,116 @@ function printUsage(): void {
 
 Usage:
   open-prose compile <file.prose>   Compile and validate a program
-  open-prose validate <file.prose>  Validate syntax only
+    --target <target>               Output: prose (default); ir, a JSON intermediate representation;
+                                    or ts, a TypeScript module that runs the program
+    --schema                        With --target ir, print the IR's JSON Schema instead
+  open-prose validate <file.prose>...  Validate syntax only
+    --fix                           Apply quick fixes in place, then report what remains
+    --format <format>               Output format: text (default), json, sarif or github
+    --config <file>                 Lint config to use instead of the nearest .openproserc
+  open-prose fmt <file.prose>...    Format programs in place
+    --check                         Only report files that need formatting (exit 1 if any)
+  open-prose plan <file.prose>      Show the sessions, agents, models, estimated cost and parallelism of a program
+    --format <format>               Output format: text (default) or json
+  open-prose graph <file.prose>     Show which sessions feed which, as a graph
+    --format <format>               Output format: dot (default), mermaid or json
+  open-prose install <file.prose>...  Install the skills programs import and pin them in prose.lock
+    --frozen-lockfile               Fail instead of changing prose.lock
+    --registry <dir>                Install from a local directory registry instead of GitHub and npm
+    --cache <dir>                   Where to cache skill archives (default: .prose/cache)
+  open-prose run <file.prose>       Run a program and print its output
+    --mock <fixture.json>           Answer sessions and conditions from a fixture
+    --trace <file.jsonl>            Write an execution trace of the run
+    --checkpoints <dir>             Where to checkpoint runs (default: .prose/runs)
+    --max-sessions <n>              Fail the run before it starts more sessions
+    --max-tokens <n>                Fail the run once its sessions use more tokens
+    --max-time <seconds>            Fail the run once it takes longer
+    --max-loop-time <seconds>       Fail any loop that runs longer
+  open-prose resume <run-id>        Resume an interrupted or failed run
+    --mock <fixture.json>           Fixture to use instead of the run's own
+    --trace <file.jsonl>            Write an execution trace of the resumed run
+    --checkpoints <dir>             Where the run was checkpointed (default: .prose/runs)
+    --max-sessions, --max-tokens, --max-time, --max-loop-time
+                                    Limits for the resumed run, as for run
+  open-prose replay <trace.jsonl> [<file.prose>]
+                                    Re-run a program, answering calls from a trace,
+                                    and report where it diverges from the recording
+  open-prose lsp                    Start the language server (JSON-RPC over stdio)
   open-prose help                   Show this help message
 
 Examples:
   open-prose compile program.prose
+  open-prose compile --target ir program.prose > program.ir.json
+  open-prose compile --target ts program.prose > program.ts
   open-prose validate examples/research.prose
+  open-prose validate --fix program.prose
+  open-prose validate --format sarif examples/*.prose > results.sarif
+  open-prose validate --config ci.openproserc program.prose
+  open-prose fmt --check examples/*.prose
+  open-prose plan examples/research.prose
+  open-prose graph examples/research.prose | dot -Tsvg > research.svg
+  open-prose graph --format mermaid examples/research.prose
+  open-prose install examples/*.prose
+  open-prose install --frozen-lockfile examples/*.prose
+  open-prose run --mock fixtures/research.json examples/research.prose
+  open-prose run --mock fixtures/research.json --trace research.jsonl examples/research.prose
+  open-prose run --mock fixtures/research.json --max-sessions 20 --max-time 300 examples/research.prose
+  open-prose resume run-20260103-143052-abc123
+  open-prose replay research.jsonl examples/research.prose
 `);
 }
 
-function formatError(error: { message: string; line?: number; column?: number }): string {
-  if (error.line !== undefined && error.column !== undefined) {
-    return `Error at line ${error.line}, column ${error.column}: ${error.message}`;
+/** Run limit flags, the limit each sets, and its unit in milliseconds or 1 */
+const LIMIT_FLAGS: Record<string, [keyof RunLimits, number]> = {
+  '--max-sessions': ['sessions', 1],
+  '--max-tokens': ['tokens', 1],
+  '--max-time': ['durationMs', 1000],
+  '--max-loop-time': ['loopDurationMs', 1000],
+};
+
+/**
+ * Set a run limit from its flag. Exits on a value that isn't a positive
+ * number.
+ */
+function setLimit(limits: RunLimits, flag: string, value: string | undefined): void {
+  const [limit, unit] = LIMIT_FLAGS[flag];
+  const amount = Number(value);
+  if (value === undefined || !(amount > 0)) {
+    console.error(`Error: ${flag} needs a positive number`);
+    process.exit(1);
   }
-  return `Error: ${error.message}`;
+  limits[limit] = amount * unit;
 }
 
-function compileFile(filePath: string): void {
+/** Loaded lint configs by config file path */
+const lintConfigs = new Map<string, LintOptions>();
+
+/**
+ * The lint options for a file: from the given config file, or from the
+ * nearest config file above it. Exits on a broken config.
+ */
+function lintOptionsFor(filePath: string, configPath?: string): LintOptions {
+  const configFile = configPath ?? findConfigFile(dirname(filePath));
+  if (!configFile) {
+    return {};
+  }
+  let options = lintConfigs.get(configFile);
+  if (!options) {
+    try {
+      options = loadConfig(configFile);
+    } catch (error) {
+      if (error instanceof ConfigError) {
+        console.error(`Error: ${error.message}`);
+        process.exit(1);
+      }
+      throw error;
+    }
+    lintConfigs.set(configFile, options);
+  }
+  return options;
+}
+
+function compileFile(filePath: string, target: CompileTarget): void {
   if (!existsSync(filePath)) {
     console.error(`Error: File not found: ${filePath}`);
     process.exit(1);
@@ -49,91 +214,455 @@ function compileFile(filePath: string): void {
 
   const source = readFileSync(filePath, 'utf-8');
 
-  // Parse
-  const parseResult = parse(source);
+  // Parse and validate the program and the modules it uses
+  const { linked, reports } = checkProgram(filePath, source, lintOptionsFor(filePath));
+  exitOnErrors(reports);
 
-  if (parseResult.errors.length > 0) {
-    console.error('Parse errors:');
-    for (const error of parseResult.errors) {
-      console.error(formatError(error));
+  const warnings = reports.flatMap(report => report.diagnostics.map(warning => ({ file: report.file, warning })));
+  if (warnings.length > 0) {
+    console.error('Warnings:');
+    for (const { file, warning } of warnings) {
+      console.error(file === filePath ? formatDiagnostic(warning) : `${file}: ${formatDiagnostic(warning)}`);
     }
-    process.exit(1);
   }
 
-  // Validate
-  const validationResult = validate(parseResult.program);
+  // Compile
+  const program = linked.modules[0].program;
+  if (target === 'ir' || target === 'ts') {
+    // Both include the agents and blocks the program uses
+    try {
+      console.log(target === 'ir'
+        ? JSON.stringify(compileToIR(linked.program), null, 2)
+        : compileToTypeScript(linked.program, { source: filePath }));
+    } catch (error) {
+      if (error instanceof IRError) {
+        console.error(`Error at line ${error.span.start.line}, column ${error.span.start.column}: ${error.message}`);
+        process.exit(1);
+      }
+      throw error;
+    }
+  } else {
+    const compileResult = compile(program);
+
+    console.log(compileResult.code);
 
-  if (validationResult.errors.length > 0) {
-    console.error('Validation errors:');
-    for (const error of validationResult.errors) {
-      console.error(formatError(error));
+    if (compileResult.strippedComments.length > 0) {
+      console.error(`\n# Stripped ${compileResult.strippedComments.length} comment(s)`);
+    }
+  }
+
+  // Send telemetry (non-blocking)
+  collectAndSendTelemetry(program, VERSION);
+}
+
+/**
+ * Parse and validate a program and the modules it uses, each with what it
+ * gets from its own modules. Modules only get a report when something is
+ * wrong with them.
+ */
+function checkProgram(filePath: string, source: string, lintOptions: LintOptions): { linked: LinkResult; reports: FileReport[] } {
+  const linked = linkProgram(filePath, source);
+  const reports = linked.modules.map((module, index): FileReport => {
+    const file = index === 0 ? filePath : relative(process.cwd(), module.path);
+    if (module.diagnostics.some(d => d.code === DiagnosticCodes.ParseError)) {
+      return { file, diagnostics: module.diagnostics };
+    }
+    const options = index === 0 ? lintOptions : lintOptionsFor(module.path);
+    const result = validate(module.program, module.source, { ...options, definitions: module.definitions });
+    return { file, diagnostics: [...module.diagnostics, ...result.errors, ...result.warnings] };
+  });
+  return { linked, reports: reports.filter((report, index) => index === 0 || report.diagnostics.length > 0) };
+}
+
+/**
+ * Print the errors of a program and its modules, and exit if there are any
+ */
+function exitOnErrors(reports: FileReport[]): void {
+  const failed = reports.filter(report => report.diagnostics.some(d => d.severity === 'error'));
+  for (const report of failed) {
+    const parseErrors = report.diagnostics.some(d => d.code === DiagnosticCodes.ParseError);
+    if (reports.length > 1) {
+      console.error(`${report.file}:`);
     }
+    console.error(parseErrors ? 'Parse errors:' : 'Validation errors:');
+    for (const error of report.diagnostics.filter(d => d.severity === 'error')) {
+      console.error(formatDiagnostic(error));
+    }
+  }
+  if (failed.length > 0) {
     process.exit(1);
   }
+}
 
-  if (validationResult.warnings.length > 0) {
-    console.error('Warnings:');
-    for (const warning of validationResult.warnings) {
-      console.error(`Warning: ${warning.message}`);
+/**
+ * Parse and validate a file and the modules it uses, applying quick fixes
+ * to the file first if asked to
+ */
+function checkFile(filePath: string, fix: boolean, lintOptions: LintOptions): FileReport[] {
+  let source = readFileSync(filePath, 'utf-8');
+
+  // Apply quick fixes, then validate what they leave
+  if (fix) {
+    const [file] = linkProgram(filePath, source).modules;
+    const fixResult = applyFixes(source, { ...lintOptions, definitions: file.definitions });
+    if (fixResult.fixed.length > 0) {
+      source = fixResult.source;
+      writeFileSync(filePath, source);
+      console.error(`Fixed ${fixResult.fixed.length} problem(s) in ${filePath}`);
     }
   }
 
-  // Compile
-  const compileResult = compile(parseResult.program);
+  return checkProgram(filePath, source, lintOptions).reports;
+}
 
-  console.log(compileResult.code);
+function validateFiles(filePaths: string[], fix: boolean, format: ReportFormat, configPath?: string): void {
+  const reports: FileReport[] = [];
+  let failed = false;
 
-  if (compileResult.strippedComments.length > 0) {
-    console.error(`\n# Stripped ${compileResult.strippedComments.length} comment(s)`);
+  for (const filePath of filePaths) {
+    if (!existsSync(filePath)) {
+      console.error(`Error: File not found: ${filePath}`);
+      failed = true;
+      continue;
+    }
+    // A module used by several of the files is reported once
+    for (const report of checkFile(filePath, fix, lintOptionsFor(filePath, configPath))) {
+      if (!reports.some(other => resolve(other.file) === resolve(report.file))) {
+        reports.push(report);
+      }
+    }
   }
 
-  // Send telemetry (non-blocking)
-  collectAndSendTelemetry(parseResult.program, VERSION);
+  for (const report of reports) {
+    if (report.diagnostics.some(d => d.severity === 'error')) {
+      failed = true;
+    }
+  }
+
+  if (format !== 'text') {
+    console.log(formatReport(reports, format, { toolVersion: VERSION }));
+  } else {
+    for (const report of reports) {
+      printTextReport(report, reports.length > 1);
+    }
+  }
+
+  if (failed) {
+    process.exit(1);
+  }
 }
 
-function validateFile(filePath: string): void {
+function printTextReport(report: FileReport, withFileName: boolean): void {
+  const parseErrors = report.diagnostics.filter(d => d.code === DiagnosticCodes.ParseError);
+  const errors = report.diagnostics.filter(d => d.severity === 'error' && d.code !== DiagnosticCodes.ParseError);
+  const warnings = report.diagnostics.filter(d => d.severity !== 'error');
+
+  if (withFileName) {
+    console.error(`${report.file}:`);
+  }
+  const sections: [string, ValidationError[]][] = [
+    ['Parse errors:', parseErrors],
+    ['Validation errors:', errors],
+    ['Warnings:', warnings],
+  ];
+  for (const [heading, diagnostics] of sections) {
+    if (diagnostics.length > 0) {
+      console.error(heading);
+      for (const diagnostic of diagnostics) {
+        console.error(formatDiagnostic(diagnostic));
+      }
+    }
+  }
+
+  if (parseErrors.length === 0 && errors.length === 0) {
+    console.log(withFileName ? `Valid program: ${report.file}` : 'Valid program');
+  }
+}
+
+/**
+ * Parse and validate a program to run. Exits on errors, except those with
+ * the deferred codes, which are returned for the caller to report.
+ */
+function loadRunnable(
+  filePath: string,
+  deferredCodes: string[] = []
+): { program: ProgramNode; source: string; deferred: ValidationError[] } {
   if (!existsSync(filePath)) {
     console.error(`Error: File not found: ${filePath}`);
     process.exit(1);
   }
 
   const source = readFileSync(filePath, 'utf-8');
+  const { linked, reports } = checkProgram(filePath, source, lintOptionsFor(filePath));
+  const isDeferred = (diagnostic: ValidationError) => deferredCodes.includes(diagnostic.code);
+  exitOnErrors(reports.map(report => ({ ...report, diagnostics: report.diagnostics.filter(d => !isDeferred(d)) })));
 
-  // Parse
-  const parseResult = parse(source);
+  return { program: linked.program, source, deferred: reports.flatMap(report => report.diagnostics.filter(isDeferred)) };
+}
 
-  if (parseResult.errors.length > 0) {
-    console.error('Parse errors:');
-    for (const error of parseResult.errors) {
-      console.error(formatError(error));
+/**
+ * Print the execution plan of a program, its estimated cost, priced with
+ * the config's price table, and its parallelism. A worst case over the
+ * config's budget is reported after the plan, and exits 1.
+ */
+function planFile(filePath: string, format: string): void {
+  const { program, deferred } = loadRunnable(filePath, [DiagnosticCodes.BudgetExceeded]);
+  const executionPlan = planProgram(program);
+  const cost = estimateCost(executionPlan, { prices: lintOptionsFor(filePath).config?.prices });
+  const parallelism = analyzeParallelism(program);
+  if (format === 'json') {
+    console.log(JSON.stringify({ ...executionPlan, cost, parallelism }, null, 2));
+  } else {
+    process.stdout.write(formatPlan(executionPlan, filePath) + '\n' + formatCostEstimate(cost) + '\n' + formatParallelism(parallelism));
+  }
+  if (deferred.length > 0) {
+    console.error('Validation errors:');
+    for (const error of deferred) {
+      console.error(formatDiagnostic(error));
     }
     process.exit(1);
   }
+}
 
-  // Validate
-  const validationResult = validate(parseResult.program);
+/**
+ * Print the dataflow graph of a program
+ */
+function graphFile(filePath: string, format: GraphFormat): void {
+  const { program } = loadRunnable(filePath);
+  process.stdout.write(formatGraph(buildGraph(program), format, filePath));
+}
 
-  let hasIssues = false;
+/**
+ * Run a program with the mock backend, checkpointing as it goes, and print
+ * its output. The trace file, if any, is written as the run goes.
+ */
+async function execute(
+  program: ProgramNode,
+  mockPath: string,
+  checkpoint: Checkpoint,
+  tracePath?: string,
+  limits: RunLimits = {}
+): Promise<void> {
+  let backend: MockBackend;
+  try {
+    backend = new MockBackend(loadMockFixture(mockPath));
+  } catch (error) {
+    if (error instanceof FixtureError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
 
-  if (validationResult.errors.length > 0) {
-    console.error('Validation errors:');
-    for (const error of validationResult.errors) {
-      console.error(formatError(error));
+  const runId = checkpoint.state.runId;
+  try {
+    const trace = tracePath
+      ? new TraceRecorder({ runId, program: checkpoint.state.program, write: traceFileWriter(tracePath) })
+      : undefined;
+    const result = await interpret(program, { backend, trace, checkpoint, limits });
+    console.log(typeof result.output === 'string' ? result.output : JSON.stringify(result.output, null, 2));
+  } catch (error) {
+    if (error instanceof ExecutionError) {
+      console.error(`Execution error at line ${error.span.start.line}, column ${error.span.start.column}: ${error.message}`);
+      console.error(`Resume with: open-prose resume ${runId}`);
+      process.exit(1);
     }
-    hasIssues = true;
+    throw error;
   }
+}
 
-  if (validationResult.warnings.length > 0) {
-    console.error('Warnings:');
-    for (const warning of validationResult.warnings) {
-      console.error(`Warning: ${warning.message}`);
+/**
+ * Validate and run a program, printing its output. Only the mock backend
+ * is built in, so a fixture is required.
+ */
+async function runFile(
+  filePath: string,
+  mockPath: string,
+  checkpointDir: string,
+  tracePath?: string,
+  limits?: RunLimits
+): Promise<void> {
+  const { program, source } = loadRunnable(filePath);
+  const runId = createRunId();
+  const checkpoint = Checkpoint.create({
+    runId,
+    program: resolve(filePath),
+    source,
+    file: checkpointFile(checkpointDir, runId),
+    metadata: { mock: resolve(mockPath) },
+  });
+  console.error(`Run ${runId}`);
+  await execute(program, mockPath, checkpoint, tracePath, limits);
+}
+
+/**
+ * Re-run a program against a recorded trace, printing its output, or the
+ * first place it diverges from the recording. The program defaults to the
+ * one the trace recorded.
+ */
+async function replayTrace(tracePath: string, filePath?: string): Promise<void> {
+  let events;
+  try {
+    events = readTraceFile(tracePath);
+  } catch (error) {
+    if (error instanceof TraceError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
     }
+    throw error;
   }
 
-  if (validationResult.errors.length > 0) {
+  const header = events[0];
+  const programPath = filePath ?? (header.type === 'run-start' ? header.program : undefined);
+  if (!programPath) {
+    console.error('Error: The trace does not name its program; pass the .prose file');
+    process.exit(1);
+  }
+
+  const { program } = loadRunnable(programPath);
+  const { divergence, result, error, matched } = await replay(program, events);
+  if (divergence) {
+    console.error(`Divergence at line ${divergence.span.start.line}, column ${divergence.span.start.column}: ${divergence.message}`);
+    process.exit(1);
+  }
+  console.error(`Replayed ${matched} recorded call${matched === 1 ? '' : 's'}`);
+  if (error instanceof ExecutionError) {
+    console.error(`Execution error at line ${error.span.start.line}, column ${error.span.start.column}: ${error.message}`);
+    process.exit(1);
+  }
+  if (error) {
+    throw error;
+  }
+  const output = result?.output ?? null;
+  console.log(typeof output === 'string' ? output : JSON.stringify(output, null, 2));
+}
+
+/**
+ * Resume a run from its checkpoint, with the fixture it was started with
+ * unless another is given
+ */
+async function resumeRun(
+  runId: string,
+  checkpointDir: string,
+  mockPath?: string,
+  tracePath?: string,
+  limits?: RunLimits
+): Promise<void> {
+  let checkpoint: Checkpoint;
+  try {
+    checkpoint = loadCheckpoint(checkpointDir, runId);
+  } catch (error) {
+    if (error instanceof CheckpointError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+  if (checkpoint.state.status === 'completed') {
+    console.error(`Error: Run ${runId} has already completed`);
+    process.exit(1);
+  }
+
+  const { program, source } = loadRunnable(checkpoint.state.program);
+  try {
+    checkpoint.checkSource(source);
+  } catch (error) {
+    if (error instanceof CheckpointError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+
+  const fixture = mockPath ?? checkpoint.state.metadata.mock;
+  if (!fixture) {
+    console.error('Error: A backend is required; pass --mock <fixture.json>');
+    process.exit(1);
+  }
+  await execute(program, fixture, checkpoint, tracePath, limits);
+}
+
+/**
+ * Install the skills programs and their modules import, with the prose.lock
+ * next to each program. A lockfile is only written when its sources change.
+ */
+async function installFiles(filePaths: string[], frozen: boolean, cacheDir: string, registryDir?: string): Promise<void> {
+  const sourcesByLockfile = new Map<string, string[]>();
+  for (const filePath of filePaths) {
+    if (!existsSync(filePath)) {
+      console.error(`Error: File not found: ${filePath}`);
+      process.exit(1);
+    }
+    const { modules } = linkProgram(filePath, readFileSync(filePath, 'utf-8'));
+    const lockfilePath = join(dirname(filePath), LOCKFILE_NAME);
+    const sources = modules.flatMap(module => skillSources(module.program));
+    sourcesByLockfile.set(lockfilePath, [...sourcesByLockfile.get(lockfilePath) ?? [], ...sources]);
+  }
+
+  const registry = registryDir ? new DirectoryRegistry(registryDir) : undefined;
+  const cache = new SkillCache(cacheDir);
+  try {
+    for (const [lockfilePath, sources] of sourcesByLockfile) {
+      const result = await installSkills(sources, readLockfile(lockfilePath), { registry, cache, frozen });
+      if (result.changed) {
+        writeLockfile(lockfilePath, result.lockfile);
+      }
+      for (const skill of result.skills) {
+        console.log(`${skill.status === 'cached' ? '  ' : '+ '}${skill.source} ${skill.version}${skill.status === 'cached' ? '' : ` (${skill.status})`}`);
+      }
+      const count = (status: string) => result.skills.filter(skill => skill.status === status).length;
+      console.log(`${lockfilePath}: ${result.skills.length} skill${result.skills.length === 1 ? '' : 's'}, ${count('added')} added, ${count('fetched')} fetched, ${count('cached')} cached`);
+    }
+  } catch (error) {
+    if (error instanceof SkillError || error instanceof LockfileError) {
+      console.error(`Error: ${error.message}`);
+      process.exit(1);
+    }
+    throw error;
+  }
+}
+
+function formatFiles(filePaths: string[], check: boolean): void {
+  let failed = false;
+  let unformatted = 0;
+
+  for (const filePath of filePaths) {
+    if (!existsSync(filePath)) {
+      console.error(`Error: File not found: ${filePath}`);
+      failed = true;
+      continue;
+    }
+
+    const source = readFileSync(filePath, 'utf-8');
+    const result = formatSource(source);
+
+    if (result.errors.length > 0) {
+      console.error(`${filePath}:`);
+      for (const error of result.errors) {
+        console.error(formatDiagnostic(parseErrorToValidationError(error)));
+      }
+      failed = true;
+      continue;
+    }
+
+    if (!result.changed) {
+      continue;
+    }
+
+    unformatted++;
+    if (check) {
+      console.log(`Needs formatting: ${filePath}`);
+    } else {
+      writeFileSync(filePath, result.code);
+      console.log(`Formatted ${filePath}`);
+    }
+  }
+
+  if (check && unformatted === 0 && !failed) {
+    console.log('All files are formatted');
+  }
+  if (failed || (check && unformatted > 0)) {
     process.exit(1);
-  } else {
-    console.log('Valid program');
   }
 }
 
@@ -141,22 +670,249 @@ function validateFile(filePath: string): void {
 const command = args[0];
 
 switch (command) {
-  case 'compile':
-    if (!args[1]) {
+  case 'compile': {
+    const options = args.slice(1);
+    const files: string[] = [];
+    let target: string | undefined = 'prose';
+    let schema = false;
+    for (let i = 0; i < options.length; i++) {
+      if (options[i] === '--target') {
+        target = options[++i];
+      } else if (options[i] === '--schema') {
+        schema = true;
+      } else {
+        files.push(options[i]);
+      }
+    }
+    if (!COMPILE_TARGETS.includes(target as CompileTarget)) {
+      console.error(`Error: Unknown target: ${target ?? '(missing)'}`);
+      console.error(`Targets: ${COMPILE_TARGETS.join(', ')}`);
+      process.exit(1);
+    }
+    if (schema) {
+      if (target !== 'ir') {
+        console.error('Error: --schema needs --target ir');
+        process.exit(1);
+      }
+      console.log(JSON.stringify(IR_SCHEMA, null, 2));
+      break;
+    }
+    if (files.length !== 1) {
+      console.error('Error: Expected one file path');
+      console.error('Usage: open-prose compile [--target prose|ir|ts] <file.prose>');
+      process.exit(1);
+    }
+    compileFile(files[0], target as CompileTarget);
+    break;
+  }
+
+  case 'validate': {
+    const options = args.slice(1);
+    const files: string[] = [];
+    let fix = false;
+    let format: string | undefined = 'text';
+    let configPath: string | undefined;
+    for (let i = 0; i < options.length; i++) {
+      if (options[i] === '--fix') {
+        fix = true;
+      } else if (options[i] === '--format') {
+        format = options[++i];
+      } else if (options[i] === '--config') {
+        configPath = options[++i];
+        if (!configPath) {
+          console.error('Error: Missing config file path');
+          process.exit(1);
+        }
+      } else {
+        files.push(options[i]);
+      }
+    }
+    if (!REPORT_FORMATS.includes(format as ReportFormat)) {
+      console.error(`Error: Unknown format: ${format ?? '(missing)'}`);
+      console.error(`Formats: ${REPORT_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    if (files.length === 0) {
       console.error('Error: Missing file path');
-      console.error('Usage: open-prose compile <file.prose>');
+      console.error('Usage: open-prose validate [--fix] [--format <format>] [--config <file>] <file.prose>...');
       process.exit(1);
     }
-    compileFile(args[1]);
+    validateFiles(files, fix, format as ReportFormat, configPath);
     break;
+  }
 
-  case 'validate':
-    if (!args[1]) {
+  case 'fmt': {
+    const check = args.includes('--check');
+    const files = args.slice(1).filter(arg => arg !== '--check');
+    if (files.length === 0) {
+      console.error('Error: Missing file path');
+      console.error('Usage: open-prose fmt [--check] <file.prose>...');
+      process.exit(1);
+    }
+    formatFiles(files, check);
+    break;
+  }
+
+  case 'plan': {
+    const options = args.slice(1);
+    const files: string[] = [];
+    let format: string | undefined = 'text';
+    for (let i = 0; i < options.length; i++) {
+      if (options[i] === '--format') {
+        format = options[++i];
+      } else {
+        files.push(options[i]);
+      }
+    }
+    if (format !== 'text' && format !== 'json') {
+      console.error(`Error: Unknown format: ${format ?? '(missing)'}`);
+      console.error('Formats: text, json');
+      process.exit(1);
+    }
+    if (files.length !== 1) {
+      console.error('Error: Expected one file path');
+      console.error('Usage: open-prose plan [--format text|json] <file.prose>');
+      process.exit(1);
+    }
+    planFile(files[0], format);
+    break;
+  }
+
+  case 'graph': {
+    const options = args.slice(1);
+    const files: string[] = [];
+    let format: string | undefined = 'dot';
+    for (let i = 0; i < options.length; i++) {
+      if (options[i] === '--format') {
+        format = options[++i];
+      } else {
+        files.push(options[i]);
+      }
+    }
+    if (!GRAPH_FORMATS.includes(format as GraphFormat)) {
+      console.error(`Error: Unknown format: ${format ?? '(missing)'}`);
+      console.error(`Formats: ${GRAPH_FORMATS.join(', ')}`);
+      process.exit(1);
+    }
+    if (files.length !== 1) {
+      console.error('Error: Expected one file path');
+      console.error('Usage: open-prose graph [--format dot|mermaid|json] <file.prose>');
+      process.exit(1);
+    }
+    graphFile(files[0], format as GraphFormat);
+    break;
+  }
+
+  case 'install': {
+    const options = args.slice(1);
+    const files: string[] = [];
+    let frozen = false;
+    let registryDir: string | undefined;
+    let cacheDir = DEFAULT_SKILL_CACHE_DIR;
+    for (let i = 0; i < options.length; i++) {
+      if (options[i] === '--frozen-lockfile') {
+        frozen = true;
+      } else if (options[i] === '--registry') {
+        registryDir = options[++i];
+      } else if (options[i] === '--cache') {
+        cacheDir = options[++i];
+      } else {
+        files.push(options[i]);
+      }
+    }
+    if (files.length === 0) {
       console.error('Error: Missing file path');
-      console.error('Usage: open-prose validate <file.prose>');
+      console.error('Usage: open-prose install [--frozen-lockfile] [--registry <dir>] [--cache <dir>] <file.prose>...');
       process.exit(1);
     }
-    validateFile(args[1]);
+    installFiles(files, frozen, cacheDir, registryDir).catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+    break;
+  }
+
+  case 'run': {
+    const options = args.slice(1);
+    const files: string[] = [];
+    let mockPath: string | undefined;
+    let tracePath: string | undefined;
+    let checkpointDir = DEFAULT_CHECKPOINT_DIR;
+    const limits: RunLimits = {};
+    for (let i = 0; i < options.length; i++) {
+      if (options[i] === '--mock') {
+        mockPath = options[++i];
+      } else if (options[i] === '--trace') {
+        tracePath = options[++i];
+      } else if (options[i] === '--checkpoints') {
+        checkpointDir = options[++i];
+      } else if (options[i] in LIMIT_FLAGS) {
+        setLimit(limits, options[i], options[++i]);
+      } else {
+        files.push(options[i]);
+      }
+    }
+    if (files.length !== 1 || !mockPath) {
+      console.error(files.length !== 1 ? 'Error: Expected one file path' : 'Error: A backend is required; pass --mock <fixture.json>');
+      console.error('Usage: open-prose run --mock <fixture.json> [--trace <file.jsonl>] <file.prose>');
+      process.exit(1);
+    }
+    runFile(files[0], mockPath, checkpointDir, tracePath, limits).catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+    break;
+  }
+
+  case 'resume': {
+    const options = args.slice(1);
+    const runIds: string[] = [];
+    let mockPath: string | undefined;
+    let tracePath: string | undefined;
+    let checkpointDir = DEFAULT_CHECKPOINT_DIR;
+    const limits: RunLimits = {};
+    for (let i = 0; i < options.length; i++) {
+      if (options[i] === '--mock') {
+        mockPath = options[++i];
+      } else if (options[i] === '--trace') {
+        tracePath = options[++i];
+      } else if (options[i] === '--checkpoints') {
+        checkpointDir = options[++i];
+      } else if (options[i] in LIMIT_FLAGS) {
+        setLimit(limits, options[i], options[++i]);
+      } else {
+        runIds.push(options[i]);
+      }
+    }
+    if (runIds.length !== 1) {
+      console.error('Error: Expected one run ID');
+      console.error('Usage: open-prose resume [--mock <fixture.json>] <run-id>');
+      process.exit(1);
+    }
+    resumeRun(runIds[0], checkpointDir, mockPath, tracePath, limits).catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+    break;
+  }
+
+  case 'replay': {
+    const files = args.slice(1);
+    if (files.length < 1 || files.length > 2) {
+      console.error('Error: Expected a trace file and optionally a program');
+      console.error('Usage: open-prose replay <trace.jsonl> [<file.prose>]');
+      process.exit(1);
+    }
+    replayTrace(files[0], files[1]).catch(error => {
+      console.error(error);
+      process.exit(1);
+    });
+    break;
+  }
+
+  case 'lsp':
+    // stdout carries the protocol stream, so nothing else may be printed
+    startLanguageServer(process.stdin, process.stdout, VERSION);
     break;
 
   case 'help':
@@ -0,0 +1,193 @@
+/**
+ * Unit tests for run limits
+ *
+ * Tests the session, token and time caps the interpreter enforces, catching
+ * BudgetExceededError in a program, and recording it in the trace.
+ */
+
+import { parse } from '../parser';
+import {
+  interpret,
+  InterpreterOptions,
+  ExecutionResult,
+  MockBackend,
+  MockFixture,
+  SessionRequest,
+  SessionResult,
+  RunLimits,
+  RunBudget,
+  BudgetExceededError,
+  TraceRecorder,
+} from '../interpreter';
+import { lines } from './helpers';
+
+/**
+ * A mock backend that reports token usage for each session
+ */
+class MeteredBackend extends MockBackend {
+  constructor(fixture: MockFixture, private readonly usage: { inputTokens: number; outputTokens: number }) {
+    super(fixture);
+  }
+
+  public async runSession(request: SessionRequest): Promise<SessionResult> {
+    return { ...(await super.runSession(request)), usage: this.usage };
+  }
+}
+
+async function run(
+  source: string,
+  limits: RunLimits,
+  options: Partial<InterpreterOptions> = {}
+): Promise<{ result?: ExecutionResult; error?: unknown; backend: MockBackend }> {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  const backend = (options.backend as MockBackend) ?? new MockBackend({ defaultOutput: 'ok' });
+  try {
+    const result = await interpret(parseResult.program, { sleep: async () => {}, ...options, backend, limits });
+    return { result, backend };
+  } catch (error) {
+    return { error, backend };
+  }
+}
+
+describe('Run Limits', () => {
+  it('should stop before starting more sessions than allowed', async () => {
+    const { error, backend } = await run(lines(
+      'session "One"',
+      'session "Two"',
+      'session "Three"',
+    ), { sessions: 2 });
+
+    expect(backend.sessions.map(session => session.prompt)).toEqual(['One', 'Two']);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+    expect(error).toMatchObject({
+      message: 'Budget exceeded: the run may start at most 2 sessions',
+      limit: 'sessions',
+      allowed: 2,
+      used: 2,
+      span: { start: { line: 3 } },
+    });
+  });
+
+  it('should count retries as sessions', async () => {
+    const { error, backend } = await run(lines(
+      'session "Flaky"',
+      '  retry: 5',
+    ), { sessions: 3 }, { backend: new MockBackend({ sessions: [{ prompt: 'Flaky', error: 'timeout' }] }) });
+
+    expect(backend.sessions).toHaveLength(3);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('should count the tokens a backend reports', async () => {
+    const backend = new MeteredBackend({ defaultOutput: 'ok' }, { inputTokens: 300, outputTokens: 200 });
+    const { error } = await run(lines(
+      'session "One"',
+      'session "Two"',
+      'session "Three"',
+    ), { tokens: 800 }, { backend });
+
+    expect(backend.sessions).toHaveLength(2);
+    expect((error as BudgetExceededError).message).toBe('Budget exceeded: the run has used 1,000 of its 800 tokens');
+    expect(error).toMatchObject({ limit: 'tokens', allowed: 800, used: 1000, span: { start: { line: 2 } } });
+  });
+
+  it('should estimate tokens when the backend reports none', async () => {
+    const budget = new RunBudget({ tokens: 10 });
+    expect(budget.addTokens(10)).toBeNull();
+    expect(budget.startSession()).toMatchObject({ limit: 'tokens', used: 10 });
+
+    const { result, error } = await run(lines(
+      'session "Hi"',
+    ), { tokens: 10 }, { backend: new MockBackend({ defaultOutput: 'x'.repeat(100) }) });
+
+    expect(result).toBeUndefined();
+    expect(error).toMatchObject({ limit: 'tokens', allowed: 10 });
+  });
+
+  it('should stop a run that takes too long', async () => {
+    let now = 0;
+    const backend = new MockBackend({ defaultOutput: 'ok' });
+    const runSession = backend.runSession.bind(backend);
+    backend.runSession = async request => {
+      now += 61_000;
+      return runSession(request);
+    };
+
+    const { error } = await run(lines(
+      'session "One"',
+      'session "Two"',
+    ), { durationMs: 60_000 }, { now: () => now, backend });
+
+    expect(backend.sessions).toHaveLength(1);
+    expect(error).toMatchObject({
+      message: 'Budget exceeded: the run has taken 61s, over its limit of 60s',
+      limit: 'durationMs',
+      span: { start: { line: 2 } },
+    });
+  });
+
+  it('should stop a loop that runs too long', async () => {
+    let now = 0;
+    const backend = new MockBackend({ defaultOutput: 'ok' });
+    const runSession = backend.runSession.bind(backend);
+    backend.runSession = async request => {
+      now += 1500;
+      return runSession(request);
+    };
+
+    const { error } = await run(lines(
+      'session "Before"',
+      'repeat 10:',
+      '  session "Work"',
+    ), { loopDurationMs: 4000 }, { now: () => now, backend });
+
+    // The loop's time starts after "Before"; the fourth iteration starts 4.5s in
+    expect(backend.sessions).toHaveLength(4);
+    expect(error).toMatchObject({
+      message: 'Budget exceeded: the loop has run for 4.5s, over its limit of 4s',
+      limit: 'loopDurationMs',
+      span: { start: { line: 2 } },
+    });
+  });
+
+  it('should let try/catch handle the error', async () => {
+    const { result, error, backend } = await run(lines(
+      'let status = "done"',
+      'try:',
+      '  repeat 5:',
+      '    session "Work"',
+      'catch as err:',
+      '  status = err',
+    ), { sessions: 2 });
+
+    expect(error).toBeUndefined();
+    expect(backend.sessions).toHaveLength(2);
+    expect(result?.bindings.status).toBe('Budget exceeded: the run may start at most 2 sessions');
+  });
+
+  it('should keep the budget spent after a catch', async () => {
+    const { error, backend } = await run(lines(
+      'try:',
+      '  session "One"',
+      '  session "Two"',
+      'catch:',
+      '  session "Recover"',
+    ), { sessions: 1 });
+
+    expect(backend.sessions.map(session => session.prompt)).toEqual(['One']);
+    expect(error).toBeInstanceOf(BudgetExceededError);
+  });
+
+  it('should record the overrun in the trace', async () => {
+    const trace = new TraceRecorder({ runId: 'run-1' });
+    await run(lines(
+      'session "One"',
+      'session "Two"',
+    ), { sessions: 1 }, { trace });
+
+    const overrun = trace.events.find(event => event.type === 'budget-exceeded');
+    expect(overrun).toMatchObject({ limit: 'sessions', allowed: 1, used: 1, span: { start: { line: 2 } } });
+    expect(trace.events[trace.events.length - 1]).toMatchObject({ type: 'run-end', status: 'failed' });
+  });
+});
@@ -0,0 +1,169 @@
+/**
+ * Unit tests for checkpoints
+ *
+ * Tests resuming runs: skipping completed statements, answering recorded
+ * calls inside the statement in progress, parallel branches, and saving
+ * and loading checkpoint files.
+ */
+
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parse } from '../parser';
+import {
+  interpret,
+  MockBackend,
+  MockFixture,
+  ExecutionResult,
+  Checkpoint,
+  CheckpointError,
+  checkpointFile,
+  loadCheckpoint,
+  createRunId,
+} from '../interpreter';
+import { lines } from './helpers';
+
+function newCheckpoint(source: string, file?: string): Checkpoint {
+  return Checkpoint.create({ runId: 'run-1', program: 'p.prose', source, file });
+}
+
+async function run(
+  source: string,
+  fixture: MockFixture,
+  checkpoint: Checkpoint
+): Promise<{ result?: ExecutionResult; error?: Error; backend: MockBackend }> {
+  const backend = new MockBackend(fixture);
+  try {
+    const result = await interpret(parse(source).program, { backend, checkpoint, sleep: async () => {} });
+    return { result, backend };
+  } catch (error) {
+    return { error: error as Error, backend };
+  }
+}
+
+describe('Checkpoints', () => {
+  it('should resume after the last completed statement with its variables', async () => {
+    const source = lines(
+      'let topic = session "Pick a topic"',
+      'let draft = session "Draft {topic}"',
+      'session "Publish {draft}"',
+    );
+    const checkpoint = newCheckpoint(source);
+
+    const first = await run(source, {
+      sessions: [{ prompt: 'Pick a topic', output: 'AI' }, { prompt: 'Draft AI', output: 'Text' }],
+    }, checkpoint);
+    expect(first.error?.message).toBe('No fixture response for session "Publish Text"');
+    expect(checkpoint.state).toMatchObject({
+      status: 'failed',
+      completed: 2,
+      bindings: { topic: 'AI', draft: 'Text' },
+      previous: 'Text',
+      position: { start: { line: 2 } },
+    });
+
+    const second = await run(source, { defaultOutput: 'Published' }, checkpoint);
+    expect(second.result?.output).toBe('Published');
+    expect(second.backend.sessions.map(s => [s.prompt, s.previous])).toEqual([['Publish Text', 'Text']]);
+    expect(second.result?.bindings).toEqual({ topic: 'AI', draft: 'Text' });
+    expect(checkpoint.state).toMatchObject({ status: 'completed', completed: 3, output: 'Published' });
+  });
+
+  it('should answer recorded calls inside the statement in progress', async () => {
+    const source = lines(
+      'loop until **the draft is approved** (max: 5) as i:',
+      '  session "Revise draft {i}"',
+    );
+    const checkpoint = newCheckpoint(source);
+
+    const first = await run(source, {
+      sessions: [{ prompt: 'Revise draft 2', error: 'crashed' }],
+      conditions: { 'the draft is approved': false },
+      defaultOutput: 'revised',
+    }, checkpoint);
+    expect(first.error).toBeDefined();
+    expect(checkpoint.state.completed).toBe(0);
+    expect(Object.values(checkpoint.state.loops)).toEqual([3]);
+    expect(Object.keys(checkpoint.state.results)).toHaveLength(5);
+
+    const second = await run(source, {
+      conditions: { 'the draft is approved': true },
+      defaultOutput: 'revised again',
+    }, checkpoint);
+    expect(second.result?.output).toBe('revised again');
+    expect(second.backend.sessions.map(s => s.prompt)).toEqual(['Revise draft 2']);
+    expect(second.backend.conditions).toHaveLength(1);
+    expect(checkpoint.state.results).toEqual({});
+    expect(checkpoint.state.loops).toEqual({});
+  });
+
+  it('should not rerun completed parallel branches', async () => {
+    const source = lines(
+      'parallel ("all", on-fail: "continue"):',
+      '  a = session "Research"',
+      '  b = session "Survey"',
+      '  c = session "Interview"',
+      'session "Combine {a} {b} {c}"',
+    );
+    const checkpoint = newCheckpoint(source);
+
+    await run(source, { sessions: [{ prompt: 'Survey', error: 'timeout' }], defaultOutput: 'x' }, checkpoint);
+    expect(Object.values(checkpoint.state.branches)).toEqual([[0, 2]]);
+
+    const second = await run(source, { defaultOutput: 'y' }, checkpoint);
+    expect(second.backend.sessions.map(s => s.prompt)).toEqual(['Survey', 'Combine x y x']);
+  });
+
+  it('should give block calls and iterations their own recorded outputs', async () => {
+    const source = lines(
+      'block review(topic):',
+      '  session "Review {topic}"',
+      'let reviews = ["a", "b"] | map:',
+      '  do review(item)',
+      'session "Done"',
+      '  context: reviews',
+    );
+    const checkpoint = newCheckpoint(source);
+
+    await run(source, { sessions: [{ prompt: 'Review a', output: 'A' }, { prompt: 'Review b', error: 'down' }] }, checkpoint);
+    const second = await run(source, { defaultOutput: 'B' }, checkpoint);
+
+    expect(second.backend.sessions.map(s => s.prompt)).toEqual(['Review b', 'Done']);
+    expect(second.result?.bindings.reviews).toEqual(['A', 'B']);
+  });
+
+  describe('Checkpoint files', () => {
+    it('should save as the run goes and load again', async () => {
+      const dir = mkdtempSync(join(tmpdir(), 'runs-'));
+      const source = 'session "One"\nsession "Two"\n';
+      const checkpoint = Checkpoint.create({
+        runId: 'run-1',
+        program: 'p.prose',
+        source,
+        file: checkpointFile(dir, 'run-1'),
+        metadata: { mock: 'f.json' },
+      });
+      await run(source, { sessions: [{ prompt: 'One', output: '1' }] }, checkpoint);
+
+      const saved = JSON.parse(readFileSync(join(dir, 'run-1', 'checkpoint.json'), 'utf-8'));
+      expect(saved).toMatchObject({ status: 'failed', completed: 1, previous: '1', metadata: { mock: 'f.json' } });
+
+      const loaded = loadCheckpoint(dir, 'run-1');
+      expect(loaded.state).toEqual(saved);
+      expect(() => loaded.checkSource(source)).not.toThrow();
+      expect(() => loaded.checkSource(source + 'session "Three"\n'))
+        .toThrow('Run run-1: p.prose has changed since the run started');
+    });
+
+    it('should report runs that cannot be loaded', () => {
+      const dir = mkdtempSync(join(tmpdir(), 'runs-'));
+
+      expect(() => loadCheckpoint(dir, 'run-missing')).toThrow(CheckpointError);
+      expect(() => loadCheckpoint(dir, 'run-missing')).toThrow('Run run-missing: No checkpoint found');
+    });
+
+    it('should create sortable run IDs', () => {
+      expect(createRunId(new Date('2026-01-03T14:30:52Z'))).toMatch(/^run-20260103-143052-[0-9a-f]{6}$/);
+    });
+  });
+});
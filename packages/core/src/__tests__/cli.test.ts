@@ -0,0 +1,100 @@
+/**
+ * Unit tests for the CLI
+ *
+ * Runs commands of bin/open-prose.ts in process, capturing what they print
+ * and the code they exit with.
+ */
+
+import { mkdtempSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DiagnosticCodes } from '../validator';
+import { lines } from './helpers';
+
+class Exit extends Error {
+  constructor(public code: number) {
+    super(`exit ${code}`);
+    this.name = 'Exit';
+  }
+}
+
+interface CliResult {
+  stdout: string;
+  stderr: string;
+  code: number;
+}
+
+/**
+ * Run the CLI with arguments, as `open-prose <args>`
+ */
+function cli(...args: string[]): CliResult {
+  const stdout: string[] = [];
+  const stderr: string[] = [];
+  const argv = process.argv;
+  process.argv = ['node', 'open-prose', ...args];
+  jest.spyOn(process.stdout, 'write').mockImplementation(chunk => stdout.push(String(chunk)) > 0);
+  jest.spyOn(console, 'log').mockImplementation((...message) => stdout.push(message.join(' ') + '\n'));
+  jest.spyOn(console, 'error').mockImplementation((...message) => stderr.push(message.join(' ') + '\n'));
+  jest.spyOn(process, 'exit').mockImplementation(code => {
+    throw new Exit(Number(code ?? 0));
+  });
+
+  let code = 0;
+  try {
+    jest.isolateModules(() => {
+      require('../../bin/open-prose');
+    });
+  } catch (error) {
+    if (!(error instanceof Exit)) {
+      throw error;
+    }
+    code = error.code;
+  } finally {
+    process.argv = argv;
+    jest.restoreAllMocks();
+  }
+  return { stdout: stdout.join(''), stderr: stderr.join(''), code };
+}
+
+describe('CLI', () => {
+  let root: string;
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'prose-cli-'));
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('plan', () => {
+    const source = lines(
+      'session "Research the topic"',
+      'session "Write the report"',
+      'session "Review the report"',
+    );
+
+    it('should print the plan of a program', () => {
+      writeFileSync(join(root, 'main.prose'), source);
+
+      const result = cli('plan', join(root, 'main.prose'));
+
+      expect(result.code).toBe(0);
+      expect(result.stdout).toContain('Review the report');
+      expect(result.stderr).toBe('');
+    });
+
+    it('should print the plan before reporting a worst case over budget', () => {
+      writeFileSync(join(root, '.openproserc'), JSON.stringify({ budget: { sessions: 2 } }));
+      writeFileSync(join(root, 'main.prose'), source);
+
+      const result = cli('plan', join(root, 'main.prose'));
+
+      expect(result.code).toBe(1);
+      expect(result.stdout).toContain('Review the report');
+      expect(result.stdout).toContain('Estimated cost');
+      expect(result.stderr).toContain(DiagnosticCodes.BudgetExceeded);
+      expect(result.stderr).toContain('over the budget of 2 sessions');
+    });
+  });
+});
@@ -0,0 +1,183 @@
+/**
+ * Unit tests for OpenProse LSP completion
+ *
+ * Tests keyword, property, model, agent, block and variable suggestions
+ * for different cursor contexts. The cursor is marked with "|".
+ */
+
+import { parse } from '../parser';
+import {
+  getCompletions,
+  CompletionItem,
+  CompletionItemKind,
+  LanguageServer,
+  Message,
+  ResponseMessage,
+} from '../lsp';
+
+function complete(sourceWithCursor: string): CompletionItem[] {
+  const offset = sourceWithCursor.indexOf('|');
+  const source = sourceWithCursor.slice(0, offset) + sourceWithCursor.slice(offset + 1);
+  const before = source.slice(0, offset).split('\n');
+  const position = { line: before.length - 1, character: before[before.length - 1].length };
+  return getCompletions(parse(source).program, source, position);
+}
+
+function labels(sourceWithCursor: string): string[] {
+  return complete(sourceWithCursor).map(item => item.label);
+}
+
+describe('Completion', () => {
+  describe('Keywords', () => {
+    it('should suggest statement keywords at the top level', () => {
+      const result = labels('|');
+
+      expect(result).toEqual(expect.arrayContaining(['session', 'let', 'parallel', 'agent', 'block', 'import']));
+      expect(result).not.toContain('catch');
+    });
+
+    it('should not suggest top-level keywords inside a body', () => {
+      const result = labels('repeat 2:\n  session "a"\n  |');
+
+      expect(result).toContain('session');
+      expect(result).not.toContain('agent');
+      expect(result).not.toContain('block');
+    });
+
+    it('should not suggest import after other statements', () => {
+      expect(labels('session "a"\n|')).not.toContain('import');
+      expect(labels('import "web" from "github:a/b"\n|')).toContain('import');
+    });
+
+    it('should suggest catch and finally after try', () => {
+      const result = labels('try:\n  session "a"\n|');
+
+      expect(result.slice(0, 2)).toEqual(['catch', 'finally']);
+    });
+
+    it('should suggest only finally after catch', () => {
+      const result = labels('try:\n  session "a"\ncatch:\n  session "b"\n|');
+
+      expect(result).toContain('finally');
+      expect(result).not.toContain('catch');
+    });
+
+    it('should suggest elif and else after if', () => {
+      expect(labels('if **ready**:\n  session "a"\n|')).toEqual(expect.arrayContaining(['elif', 'else']));
+    });
+
+    it('should suggest only option inside choice', () => {
+      expect(labels('choice **best approach**:\n  |')).toEqual(['option']);
+    });
+
+    it('should suggest loop conditions', () => {
+      expect(labels('loop |')).toEqual(['until', 'while']);
+    });
+  });
+
+  describe('Properties', () => {
+    it('should suggest agent properties not yet present', () => {
+      const result = labels('agent writer:\n  model: sonnet\n  |');
+
+      expect(result).toEqual(['prompt', 'skills', 'permissions']);
+    });
+
+    it('should suggest session properties', () => {
+      const result = labels('session "Write"\n  |');
+
+      expect(result).toEqual(['model', 'prompt', 'context', 'retry', 'backoff']);
+    });
+
+    it('should suggest session properties for bound sessions', () => {
+      expect(labels('let x = session "Write"\n  retry: 2\n  |')).not.toContain('retry');
+    });
+
+    it('should suggest models', () => {
+      const items = complete('agent writer:\n  model: |');
+
+      expect(items.map(item => item.label)).toEqual(['sonnet', 'opus', 'haiku']);
+      expect(items[0].kind).toBe(CompletionItemKind.EnumMember);
+    });
+  });
+
+  describe('Names', () => {
+    it('should suggest agents after session:', () => {
+      const result = labels('agent writer:\n  model: sonnet\n\nagent critic:\n  model: opus\n\nsession: |');
+
+      expect(result).toEqual(['writer', 'critic']);
+    });
+
+    it('should suggest blocks after do', () => {
+      const items = complete('block review(topic):\n  session "Review {topic}"\n\ndo |');
+
+      expect(items).toEqual([
+        { label: 'review', kind: CompletionItemKind.Function, detail: 'block review(topic)' },
+      ]);
+    });
+
+    it('should suggest variables inside interpolations', () => {
+      const result = labels('let draft = session "a"\nconst notes = session "b"\nsession "Edit {|}"');
+
+      expect(result).toEqual(['draft', 'notes']);
+    });
+
+    it('should not suggest a variable inside its own binding', () => {
+      expect(labels('let draft = session "Use {|}"')).toEqual([]);
+    });
+
+    it('should suggest nothing inside plain strings or comments', () => {
+      expect(labels('let a = session "a"\nsession "Use |"')).toEqual([]);
+      expect(labels('# session |')).toEqual([]);
+    });
+
+    it('should suggest variables in context', () => {
+      const source = 'let a = session "a"\nlet b = session "b"\nsession "c"\n  context: [a, |]';
+
+      expect(labels(source)).toEqual(['a', 'b']);
+    });
+
+    it('should only suggest block parameters inside the block', () => {
+      const source = 'block review(topic):\n  session "Review {|}"\n\nsession "After"';
+
+      expect(labels(source)).toEqual(['topic']);
+      expect(labels('block review(topic):\n  session "Review"\n\nsession "After {|}"')).toEqual([]);
+    });
+
+    it('should suggest loop and catch variables in their bodies', () => {
+      expect(labels('for item, i in items:\n  session "Do {|}"')).toEqual(['item', 'i']);
+      expect(labels('try:\n  session "a"\ncatch as err:\n  session "Handle {|}"')).toEqual(['err']);
+    });
+
+    it('should prefer the innermost shadowing variable', () => {
+      const source = 'let x = session "outer"\nlet y = session "y"\ndo:\n  let x = session "inner"\n  session "Use {|}"';
+      const items = complete(source);
+
+      expect(items.map(item => item.label)).toEqual(['x', 'y']);
+      expect(items[0].detail).toBe('let');
+    });
+  });
+
+  it('should serve completion over the protocol', () => {
+    const sent: Message[] = [];
+    const server = new LanguageServer({ send: message => sent.push(message) });
+    server.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+    const init = (sent[0] as ResponseMessage).result as { capabilities: Record<string, any> };
+    expect(init.capabilities.completionProvider.triggerCharacters).toContain('{');
+
+    const uri = 'file:///test.prose';
+    server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didOpen',
+      params: { textDocument: { uri, languageId: 'openprose', version: 1, text: 'agent w:\n  model: ' } },
+    });
+    server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'textDocument/completion',
+      params: { textDocument: { uri }, position: { line: 1, character: 9 } },
+    });
+
+    const response = sent.find(m => 'id' in m && m.id === 1) as ResponseMessage;
+    expect((response.result as CompletionItem[]).map(item => item.label)).toEqual(['sonnet', 'opus', 'haiku']);
+  });
+});
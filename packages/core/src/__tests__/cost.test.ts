@@ -0,0 +1,142 @@
+/**
+ * Unit tests for cost estimation
+ *
+ * Tests token estimates from prompts and context fan-in, pricing per
+ * model, and budgets that make validation fail.
+ */
+
+import { parse } from '../parser';
+import { validate, parseConfig, DiagnosticCodes } from '../validator';
+import { planProgram, estimateCost, formatCostEstimate, ExecutionPlan } from '../planner';
+import { lines } from './helpers';
+
+function planOf(source: string): ExecutionPlan {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  return planProgram(parseResult.program);
+}
+
+const program = lines(
+  'agent writer:',
+  '  model: opus',
+  '  prompt: "You write short, clear prose."',
+  'let a = session "Research"',
+  'let b = session "Survey"',
+  'session: writer',
+  '  prompt: "Combine"',
+  '  context: [a, b]',
+);
+
+describe('Cost estimation', () => {
+  it('should estimate input tokens from prompts, agent prompts and context', () => {
+    const plan = planOf(program);
+
+    expect(plan.tokens).toEqual([
+      {
+        model: 'default',
+        // "Research", then "Survey" with the previous output
+        input: { min: 104, expected: 504, max: 2004 },
+        output: { min: 200, expected: 1000, max: 4000 },
+      },
+      {
+        model: 'opus',
+        // The agent prompt, "Combine" and both outputs in its context
+        input: { min: 210, expected: 1010, max: 4010 },
+        output: { min: 100, expected: 500, max: 2000 },
+      },
+    ]);
+  });
+
+  it('should count interpolated variables and assumed output sizes', () => {
+    const plan = planProgram(parse(lines(
+      'let topic = "the sea"',
+      'session "Write about {topic}"',
+      '  context: []',
+    )).program, { outputTokens: { min: 10, expected: 20, max: 30 } });
+
+    // "Write about " and "the sea"
+    expect(plan.tokens).toEqual([
+      { model: 'default', input: { min: 5, expected: 5, max: 5 }, output: { min: 10, expected: 20, max: 30 } },
+    ]);
+  });
+
+  it('should expect loops to stop halfway and sessions not to retry', () => {
+    const plan = planOf(lines(
+      'loop until **the work is done** (max: 4):',
+      '  session "Work"',
+      '    retry: 1',
+    ));
+
+    expect(plan.tokens[0].output).toEqual({ min: 0, expected: 1000, max: 16000 });
+  });
+
+  it('should price tokens per model, with default sessions on sonnet', () => {
+    const estimate = estimateCost(planOf(program), { prices: { opus: { input: 10, output: 20 } } });
+
+    expect(estimate.models.map(model => model.model)).toEqual(['default', 'opus']);
+    expect(estimate.models[0].cost.min).toBeCloseTo((104 * 3 + 200 * 15) / 1e6);
+    expect(estimate.models[1].cost.min).toBeCloseTo((210 * 10 + 100 * 20) / 1e6);
+    expect(estimate.models[1].sessions).toEqual({ min: 1, max: 1 });
+    expect(estimate.tokens).toEqual({ min: 614, expected: 3014, max: 12014 });
+    expect(estimate.cost.max).toBeCloseTo((2004 * 3 + 4000 * 15 + 4010 * 10 + 2000 * 20) / 1e6);
+  });
+
+  it('should render unbounded estimates', () => {
+    const text = formatCostEstimate(estimateCost(planOf('loop until **done**:\n  session "Work"\n')));
+
+    expect(text).toContain('Estimated cost (best / expected / worst):');
+    expect(text).toMatch(/total +\$0\.00 \/ \$0\.\d\d \/ unbounded +0 \/ [\d,]+ \/ unbounded tokens/);
+  });
+
+  describe('Budgets', () => {
+    function budgetErrors(source: string, budget: object) {
+      return validate(parse(source).program, source, { config: { budget } }).errors;
+    }
+
+    it('should fail validation when the worst case exceeds the budget', () => {
+      const source = lines(
+        'session "Call the API"',
+        '  retry: 2',
+        'session "Summarize"',
+      );
+
+      expect(budgetErrors(source, { sessions: 4 })).toEqual([]);
+      const errors = budgetErrors(source, { sessions: 3, cost: 1 });
+      expect(errors).toHaveLength(1);
+      expect(errors[0]).toMatchObject({
+        code: DiagnosticCodes.BudgetExceeded,
+        message: 'The worst case uses 4 sessions, over the budget of 3 sessions',
+        span: { start: { line: 1 } },
+      });
+    });
+
+    it('should point at what makes the worst case unbounded', () => {
+      const source = lines(
+        'session "Plan"',
+        'repeat 2:',
+        '  loop until **the answer is good**:',
+        '    session "Improve"',
+      );
+
+      const errors = budgetErrors(source, { cost: 1 });
+      expect(errors.map(error => error.message)).toEqual([
+        'The worst case is unbounded, so it may exceed the budget of $1.00: loop until **the answer is good** at line 3 has no bound',
+      ]);
+      expect(errors[0].span.start.line).toBe(3);
+    });
+
+    it('should read budgets and prices from config files', () => {
+      const config = parseConfig('.openproserc', JSON.stringify({
+        budget: { cost: 2.5, tokens: 500000 },
+        prices: { opus: { input: 15, output: 75 } },
+      }));
+      expect(config.budget).toEqual({ cost: 2.5, tokens: 500000 });
+      expect(config.prices).toEqual({ opus: { input: 15, output: 75 } });
+
+      expect(() => parseConfig('.openproserc', '{"budget": {"dollars": 3}}'))
+        .toThrow('.openproserc: Unknown budget limit "dollars": expected one of cost, tokens, sessions');
+      expect(() => parseConfig('.openproserc', '{"prices": {"opus": 15}}'))
+        .toThrow('Invalid price for model "opus"');
+    });
+  });
+});
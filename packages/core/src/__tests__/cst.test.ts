@@ -0,0 +1,120 @@
+/**
+ * Unit tests for the lossless concrete syntax tree
+ *
+ * Tests exact round-tripping, trivia attachment, token placement and the
+ * lexer's trivia mode.
+ */
+
+import {
+  parse,
+  printCST,
+  getCSTTokens,
+  findCSTNode,
+  tokenize,
+  CSTNode,
+  LetBindingNode,
+} from '../parser';
+import { TokenType } from '../parser/tokens';
+
+function cst(source: string): CSTNode {
+  const result = parse(source, { lossless: true });
+  expect(result.cst).toBeDefined();
+  return result.cst!;
+}
+
+describe('Concrete Syntax Tree', () => {
+  describe('Round-tripping', () => {
+    it.each([
+      ['comments and blank lines', '# Header\n\n\nagent a:   # inline\n    model: opus\n\n# Before\nsession: a\n'],
+      ['CRLF line endings', 'do:\r\n  session "A"\r\n\r\n  session "B"\r\n'],
+      ['tabs and trailing whitespace', 'repeat 2:\t \n\tsession "A"   \n'],
+      ['triple-quoted strings', 'session """\n  Keep\n      this\n"""\n'],
+      ['escapes', 'session "Tab\\there, brace \\{literal\\}"\n'],
+      ['no trailing newline', 'session "A"'],
+      ['trailing comments', 'session "A"\n\n  # dangling\n# end'],
+      ['an empty file', ''],
+    ])('should print %s exactly', (_name, source) => {
+      expect(printCST(cst(source))).toBe(source);
+    });
+
+    it('should round-trip source with parse errors', () => {
+      const source = 'session "Unclosed\nagent :\n  model: $$$\n';
+      const result = parse(source, { lossless: true });
+
+      expect(result.errors.length).toBeGreaterThan(0);
+      expect(printCST(result.cst!)).toBe(source);
+    });
+
+    it('should keep text the parser skipped', () => {
+      const source = 'agent a:\n  model: opus\n\nsession: a\n  "Stray prompt"\n';
+
+      expect(printCST(cst(source))).toBe(source);
+    });
+  });
+
+  describe('Trivia', () => {
+    it('should attach same-line trivia as trailing and the rest as leading', () => {
+      const tokens = getCSTTokens(cst('# Title\n\nsession "A"  # note\n'));
+
+      expect(tokens.map(t => t.kind)).toEqual([TokenType.SESSION, TokenType.STRING, TokenType.EOF]);
+      expect(tokens[0].leadingTrivia.map(t => t.kind)).toEqual(['comment', 'newline', 'newline']);
+      expect(tokens[1].trailingTrivia.map(t => [t.kind, t.text])).toEqual([
+        ['whitespace', '  '],
+        ['comment', '# note'],
+        ['newline', '\n'],
+      ]);
+    });
+
+    it('should give the EOF token the trivia at the end of the file', () => {
+      const root = cst('session "A"\n\n# end\n');
+      const eof = root.children[root.children.length - 1];
+
+      expect(eof.type === 'Token' && eof.kind).toBe(TokenType.EOF);
+      expect(printCST(eof)).toBe('\n# end\n');
+    });
+  });
+
+  describe('Structure', () => {
+    it('should attach tokens to the innermost node containing them', () => {
+      const source = 'let draft = session "Write"\n  model: opus\n';
+      const result = parse(source, { lossless: true });
+      const binding = result.program.statements[0] as LetBindingNode;
+      const session = findCSTNode(result.cst!, binding.value)!;
+
+      expect(session.node.type).toBe('SessionStatement');
+      expect(printCST(session)).toBe('session "Write"\n  model: opus\n');
+      expect(findCSTNode(result.cst!, binding)!.children
+        .filter(child => child.type === 'Token')
+        .map(child => child.type === 'Token' && child.text)).toEqual(['let', '=']);
+    });
+
+    it('should not include comment nodes in the tree', () => {
+      const root = cst('# One\nsession "A"  # Two\n');
+
+      expect(root.children.map(child => child.type === 'Node' ? child.node.type : child.kind))
+        .toEqual(['SessionStatement', TokenType.EOF]);
+    });
+
+    it('should not build a tree unless asked', () => {
+      expect(parse('session "A"\n').cst).toBeUndefined();
+    });
+  });
+
+  describe('Lexer trivia', () => {
+    it('should emit whitespace and full-width newlines with includeTrivia', () => {
+      const { tokens } = tokenize('do:\r\n  session  "A"\n', { includeTrivia: true });
+      const whitespace = tokens.filter(t => t.type === TokenType.WHITESPACE);
+      const newlines = tokens.filter(t => t.type === TokenType.NEWLINE);
+
+      expect(whitespace.map(t => t.value)).toEqual(['  ', '  ']);
+      expect(whitespace.every(t => t.isTrivia)).toBe(true);
+      expect(newlines.map(t => t.span.end.offset - t.span.start.offset)).toEqual([2, 1]);
+    });
+
+    it('should not emit whitespace by default', () => {
+      const { tokens } = tokenize('do:\n  session  "A"\n');
+
+      expect(tokens.some(t => t.type === TokenType.WHITESPACE)).toBe(false);
+    });
+  });
+});
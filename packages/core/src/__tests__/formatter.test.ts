@@ -0,0 +1,437 @@
+/**
+ * Unit tests for the OpenProse formatter
+ *
+ * Tests canonical layout, comment preservation, property ordering, prompt
+ * wrapping, idempotency and LSP document/range formatting.
+ */
+
+import { parse, SessionStatementNode, StringLiteralNode } from '../parser';
+import { formatSource } from '../formatter';
+import {
+  getRangeFormattingEdits,
+  LanguageServer,
+  Message,
+  ResponseMessage,
+  TextEdit,
+} from '../lsp';
+import { lines } from './helpers';
+
+function fmt(source: string, lineWidth?: number): string {
+  const result = formatSource(source, { lineWidth });
+  expect(result.errors).toEqual([]);
+  return result.code;
+}
+
+describe('Formatter', () => {
+  describe('Layout', () => {
+    it('should normalize indentation at every nesting level', () => {
+      const source = lines(
+        'parallel:',
+        '    repeat 2 as i:',
+        '          session "Step {i}"',
+        '    do:',
+        '        session "Other"',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        'parallel:',
+        '  repeat 2 as i:',
+        '    session "Step {i}"',
+        '  do:',
+        '    session "Other"',
+      ));
+    });
+
+    it('should normalize spacing in headers', () => {
+      const source = lines(
+        'parallel("any",count:2,on-fail:"continue"):',
+        '  session "A"',
+        '  session "B"',
+        'block   review( topic ,depth ):',
+        '  session "Review {topic} {depth}"',
+        'let  x=session "Draft"',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        'parallel ("any", count: 2, on-fail: "continue"):',
+        '  session "A"',
+        '  session "B"',
+        'block review(topic, depth):',
+        '  session "Review {topic} {depth}"',
+        'let x = session "Draft"',
+      ));
+    });
+
+    it('should keep at most one blank line between statements', () => {
+      const source = lines('session "A"', '', '', '', 'session "B"', 'session "C"');
+
+      expect(fmt(source)).toBe(lines('session "A"', '', 'session "B"', 'session "C"'));
+    });
+
+    it('should format control flow clauses at the level of their statement', () => {
+      const source = lines(
+        'let result = try:',
+        '    session "Risky"',
+        'catch as err:',
+        '      session "Recover from {err}"',
+        'finally:',
+        '   session "Clean up"',
+        'if **ready**:',
+        '    session "Go"',
+        'elif **almost**:',
+        '    session "Wait"',
+        'else:',
+        '    session "Stop"',
+        'choice **best**:',
+        '    option "Fast":',
+        '        session "Quick"',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        'let result = try:',
+        '  session "Risky"',
+        'catch as err:',
+        '  session "Recover from {err}"',
+        'finally:',
+        '  session "Clean up"',
+        'if **ready**:',
+        '  session "Go"',
+        'elif **almost**:',
+        '  session "Wait"',
+        'else:',
+        '  session "Stop"',
+        'choice **best**:',
+        '  option "Fast":',
+        '    session "Quick"',
+      ));
+    });
+
+    it('should format loops, pipes and sequences', () => {
+      const source = lines(
+        'let items = ["a", "b"]',
+        'loop until **done**   (max: 3) as i:',
+        '      session "Try {i}"',
+        'parallel for item, i in items:',
+        '      session "Do {item}"',
+        'let out = items | filter:',
+        '  session "Keep {item}?"',
+        '  | map:',
+        '        session "Use {item}"',
+        'session "A"->session "B"',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        'let items = ["a", "b"]',
+        'loop until **done** (max: 3) as i:',
+        '  session "Try {i}"',
+        'parallel for item, i in items:',
+        '  session "Do {item}"',
+        'let out = items | filter:',
+        '  session "Keep {item}?"',
+        '  | map:',
+        '    session "Use {item}"',
+        'session "A" -> session "B"',
+      ));
+    });
+  });
+
+  describe('Comments', () => {
+    it('should keep standalone comments at the indentation of what follows', () => {
+      const source = lines(
+        '# Header',
+        '',
+        'do:',
+        '    # Inside the block',
+        '    session "A"',
+        '# Before B',
+        'session "B"',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        '# Header',
+        '',
+        'do:',
+        '  # Inside the block',
+        '  session "A"',
+        '# Before B',
+        'session "B"',
+      ));
+    });
+
+    it('should keep inline comments on their lines', () => {
+      const source = lines(
+        'agent writer:   # the writer',
+        '  model: opus # best model',
+        'session "Draft"    # first pass',
+        'repeat 2:  # twice',
+        '  session "Edit"',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        'agent writer:  # the writer',
+        '  model: opus  # best model',
+        'session "Draft"  # first pass',
+        'repeat 2:  # twice',
+        '  session "Edit"',
+      ));
+    });
+
+    it('should keep comments at the end of a body inside it', () => {
+      const source = lines(
+        'do:',
+        '  session "A"',
+        '  # Still inside',
+        '',
+        '# Outside',
+        'session "B"',
+      );
+
+      expect(fmt(source)).toBe(source);
+    });
+
+    it('should keep comments in an empty body', () => {
+      const source = lines('do:', '  # Nothing yet', '', 'session "After"');
+
+      expect(fmt(source)).toBe(source);
+    });
+
+    it('should preserve every comment of a program', () => {
+      const source = lines(
+        '# One',
+        'agent a:  # Two',
+        '  # Three',
+        '  model: sonnet',
+        'try:  # Four',
+        '  # Five',
+        '  session: a  # Six',
+        '    prompt: "Go"  # Seven',
+        'catch:  # Eight',
+        '  session "Fix"',
+        '# Nine',
+      );
+      const comments = (text: string) => parse(text).program.comments.map(c => c.value);
+
+      expect(comments(fmt(source))).toEqual(comments(source));
+    });
+  });
+
+  describe('Properties', () => {
+    it('should order session and agent properties canonically', () => {
+      const source = lines(
+        'agent writer:',
+        '  permissions:',
+        '    read: ["*.md"]',
+        '  prompt: "You write"',
+        '  model: opus',
+        'session: writer',
+        '  retry: 2',
+        '  context: []',
+        '  prompt: "Write"',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        'agent writer:',
+        '  model: opus',
+        '  prompt: "You write"',
+        '  permissions:',
+        '    read: ["*.md"]',
+        'session: writer',
+        '  prompt: "Write"',
+        '  context: []',
+        '  retry: 2',
+      ));
+    });
+
+    it('should move comments above a property with it', () => {
+      const source = lines(
+        'session "Write"',
+        '  # Retry flaky calls',
+        '  retry: 3',
+        '  # Cheaper model',
+        '  model: haiku',
+      );
+
+      expect(fmt(source)).toBe(lines(
+        'session "Write"',
+        '  # Cheaper model',
+        '  model: haiku',
+        '  # Retry flaky calls',
+        '  retry: 3',
+      ));
+    });
+  });
+
+  describe('Strings', () => {
+    it('should turn one-line triple-quoted strings into double-quoted strings', () => {
+      expect(fmt('session """Say "hi" to {name}"""\n')).toBe('session "Say \\"hi\\" to {name}"\n');
+    });
+
+    it('should keep multi-line triple-quoted strings verbatim', () => {
+      const source = lines('do:', '    session """', '  Keep', '      this', '"""');
+
+      expect(fmt(source)).toBe(lines('do:', '  session """', '  Keep', '      this', '"""'));
+    });
+
+    it('should keep escapes in double-quoted strings', () => {
+      const source = 'session "Tab\\there, brace \\{literal\\}"\n';
+
+      expect(fmt(source)).toBe(source);
+    });
+
+    it('should keep long prompts as they are by default', () => {
+      const source = lines(
+        'session "Write a detailed report about the history of computing, from the abacus to the present day"',
+        'session "Short"',
+        '  prompt: "Summarize the report for an executive audience in plain words, with no jargon at all"',
+      );
+      const prompts = (text: string) => parse(text).program.statements.map(statement => {
+        const session = statement as SessionStatementNode;
+        const property = session.properties.find(p => p.name.name === 'prompt');
+        return ((property?.value ?? session.prompt) as StringLiteralNode).value;
+      });
+
+      expect(fmt(source)).toBe(source);
+      expect(prompts(fmt(source))).toEqual(prompts(source));
+    });
+
+    it('should wrap long prompts into triple-quoted strings', () => {
+      const source = lines(
+        'session "Write a detailed report about the history of computing"',
+        'session "Short"',
+        '  prompt: "Summarize the report for an executive audience in plain words"',
+      );
+
+      expect(fmt(source, 40)).toBe(lines(
+        'session """',
+        'Write a detailed report about the',
+        'history of computing',
+        '"""',
+        'session "Short"',
+        '  prompt: """',
+        '  Summarize the report for an executive',
+        '  audience in plain words',
+        '  """',
+      ));
+    });
+
+    it('should not wrap prompts with escape sequences', () => {
+      const source = 'session "Write a detailed report about the\\nhistory of computing"\n';
+
+      expect(fmt(source, 40)).toBe(source);
+    });
+  });
+
+  it('should be idempotent', () => {
+    const source = lines(
+      '# Program',
+      'import "web" from "github:example/web"',
+      'agent   researcher:',
+      '    skills: ["web"]',
+      '    model: opus   # strong',
+      'block  research(topic):',
+      '    let notes = session: researcher',
+      '        prompt: "Research {topic} in depth, covering history, current state and open problems"',
+      '    # Done',
+      'parallel ("first"):',
+      '    do research("a")',
+      '    do research("b")',
+      'let list = ["x", "y"]',
+      'let out = list | map:',
+      '  session "Use {item}"',
+      '  | filter:',
+      '      session "Keep {item}"',
+    );
+    const once = fmt(source, 60);
+
+    expect(fmt(once, 60)).toBe(once);
+    expect(parse(once).errors).toEqual([]);
+  });
+
+  it('should leave source with parse errors unchanged', () => {
+    const source = 'session "Unclosed\n';
+    const result = formatSource(source);
+
+    expect(result.code).toBe(source);
+    expect(result.changed).toBe(false);
+    expect(result.errors.length).toBeGreaterThan(0);
+  });
+
+  it('should refuse to drop text the parser skipped', () => {
+    const source = 'agent a:\n  model: opus\n\nsession: a\n  "Stray prompt"\n';
+    const result = formatSource(source);
+
+    expect(result.code).toBe(source);
+    expect(result.errors[0].message).toContain('"Stray prompt" is not part of any statement');
+  });
+
+  describe('LSP', () => {
+    const uri = 'file:///test.prose';
+
+    function startServer(text: string): { server: LanguageServer; sent: Message[] } {
+      const sent: Message[] = [];
+      const server = new LanguageServer({ send: message => sent.push(message) });
+      server.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+      server.handleMessage({
+        jsonrpc: '2.0',
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri, languageId: 'openprose', version: 1, text } },
+      });
+      return { server, sent };
+    }
+
+    it('should format the whole document', () => {
+      const { server, sent } = startServer('do:\n    session "A"');
+      const init = (sent[0] as ResponseMessage).result as { capabilities: Record<string, any> };
+      expect(init.capabilities.documentFormattingProvider).toBe(true);
+      expect(init.capabilities.documentRangeFormattingProvider).toBe(true);
+
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'textDocument/formatting',
+        params: { textDocument: { uri }, options: { tabSize: 4, insertSpaces: true } },
+      });
+
+      const response = sent.find(m => 'id' in m && m.id === 1) as ResponseMessage;
+      expect(response.result).toEqual([{
+        range: { start: { line: 0, character: 0 }, end: { line: 1, character: 15 } },
+        newText: 'do:\n  session "A"\n',
+      }]);
+    });
+
+    it('should return no edits for formatted documents', () => {
+      const { server, sent } = startServer('session "A"\n');
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'textDocument/formatting',
+        params: { textDocument: { uri }, options: { tabSize: 2, insertSpaces: true } },
+      });
+
+      const response = sent.find(m => 'id' in m && m.id === 1) as ResponseMessage;
+      expect(response.result).toEqual([]);
+    });
+
+    it('should format only the statements overlapping a range', () => {
+      const text = lines(
+        'do:',
+        '    session "A"',
+        '',
+        '# About B',
+        'repeat 2:',
+        '      session "B"',
+        'parallel("first"):',
+        '    session "C"',
+      );
+      const edits: TextEdit[] = getRangeFormattingEdits(text, {
+        start: { line: 5, character: 0 },
+        end: { line: 5, character: 4 },
+      });
+
+      expect(edits).toEqual([{
+        range: { start: { line: 3, character: 0 }, end: { line: 6, character: 0 } },
+        newText: '# About B\nrepeat 2:\n  session "B"\n',
+      }]);
+    });
+  });
+});
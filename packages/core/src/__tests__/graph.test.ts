@@ -0,0 +1,207 @@
+/**
+ * Unit tests for dataflow graphs
+ *
+ * Tests edges from context references, previous outputs, arrows and pipe
+ * stages, parallel fan-out and fan-in, block groups, and the DOT and
+ * Mermaid renderings.
+ */
+
+import { parse } from '../parser';
+import { buildGraph, formatDot, formatMermaid, formatGraph, DataflowGraph } from '../planner';
+import { lines } from './helpers';
+
+function graphOf(source: string): DataflowGraph {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  return buildGraph(parseResult.program);
+}
+
+/**
+ * Edges as "from -> to (kind variable)", naming nodes by their labels
+ */
+function edgesOf(graph: DataflowGraph): string[] {
+  const label = (id: string) => graph.nodes.find(node => node.id === id)!.label;
+  return graph.edges.map(edge =>
+    `${label(edge.from)} -> ${label(edge.to)} (${edge.kind}${edge.variable ? ` ${edge.variable}` : ''})`);
+}
+
+describe('Dataflow Graph', () => {
+  it('should connect context references and previous outputs', () => {
+    const graph = graphOf(lines(
+      'let a = session "A"',
+      'let b = session "B"',
+      '  context: []',
+      'session "C"',
+      '  context: [a, b]',
+      'session "D"',
+      'session "Use {a}"',
+      '  context: []',
+    ));
+
+    expect(graph.nodes.map(node => node.label)).toEqual([
+      'session "A"',
+      'session "B"',
+      'session "C"',
+      'session "D"',
+      'session "Use {a}"',
+    ]);
+    expect(edgesOf(graph)).toEqual([
+      'session "A" -> session "C" (context a)',
+      'session "B" -> session "C" (context b)',
+      'session "C" -> session "D" (previous)',
+      'session "A" -> session "Use {a}" (context a)',
+    ]);
+  });
+
+  it('should pass the left side of an arrow to the right', () => {
+    const graph = graphOf('session "Draft" -> session "Edit" -> session "Publish"\n');
+
+    expect(edgesOf(graph)).toEqual([
+      'session "Draft" -> session "Edit" (arrow)',
+      'session "Edit" -> session "Publish" (arrow)',
+    ]);
+  });
+
+  it('should fan parallel branches out from a fork and in to a join', () => {
+    const graph = graphOf(lines(
+      'parallel:',
+      '  a = session "A"',
+      '    context: []',
+      '  b = session "B"',
+      '    context: []',
+      'session "Merge"',
+      '  context: { a, b }',
+      'session "After"',
+    ));
+
+    expect(edgesOf(graph)).toEqual([
+      'fork -> session "A" (fan-out)',
+      'fork -> session "B" (fan-out)',
+      'session "A" -> join (fan-in)',
+      'session "B" -> join (fan-in)',
+      'session "A" -> session "Merge" (context a)',
+      'session "B" -> session "Merge" (context b)',
+      'session "Merge" -> session "After" (previous)',
+    ]);
+    expect(graph.groups).toMatchObject([{ id: 'g1', kind: 'parallel', label: 'parallel', parent: null }]);
+    expect(graph.nodes.filter(node => node.group === 'g1').map(node => node.kind)).toEqual(['fork', 'session', 'session', 'join']);
+  });
+
+  it('should follow items through pipe stages', () => {
+    const graph = graphOf(lines(
+      'let ideas = session "List ideas"',
+      'let results = ideas | filter:',
+      '  session "Is it good?"',
+      '    context: item',
+      '| pmap:',
+      '  session "Expand"',
+      '    context: item',
+      'session "Summarize"',
+      '  context: results',
+    ));
+
+    expect(edgesOf(graph)).toEqual([
+      'session "List ideas" -> session "Is it good?" (pipe item)',
+      'session "List ideas" -> session "Expand" (pipe item)',
+      'session "Is it good?" -> session "Expand" (pipe item)',
+      'fork -> session "Expand" (fan-out)',
+      'session "Expand" -> join (fan-in)',
+      'join -> session "Summarize" (context results)',
+    ]);
+    expect(graph.groups.map(group => group.label)).toEqual(['ideas | filter', '... | pmap']);
+  });
+
+  it('should merge what the branches of a conditional bind', () => {
+    const graph = graphOf(lines(
+      'let draft = session "Draft"',
+      'if **the draft is long**:',
+      '  draft = session "Shorten"',
+      '    context: draft',
+      'session "Publish"',
+      '  context: draft',
+    ));
+
+    expect(edgesOf(graph)).toEqual([
+      'session "Draft" -> session "Shorten" (context draft)',
+      'session "Draft" -> session "Publish" (context draft)',
+      'session "Shorten" -> session "Publish" (context draft)',
+    ]);
+    expect(graph.groups.map(group => [group.kind, group.label, group.parent])).toEqual([
+      ['if', 'if', null],
+      ['branch', 'if **the draft is long**', 'g1'],
+    ]);
+  });
+
+  it('should keep loops acyclic and expand block calls', () => {
+    const graph = graphOf(lines(
+      'block review(text):',
+      '  session "Review"',
+      '    context: text',
+      'let draft = session "Draft"',
+      'loop until **the draft is good** (max: 3):',
+      '  do review(draft)',
+      '  draft = session "Revise"',
+    ));
+
+    expect(edgesOf(graph)).toEqual([
+      'session "Draft" -> session "Review" (context text)',
+      'session "Review" -> session "Revise" (previous)',
+    ]);
+    expect(graph.groups.map(group => group.label)).toEqual(['loop until **the draft is good** (max: 3)', 'do review']);
+  });
+
+  describe('Rendering', () => {
+    const source = lines(
+      'let a = session "Say \\"hi\\""',
+      'parallel ("first"):',
+      '  session "B"',
+      '    context: a',
+      '  session "C"',
+    );
+
+    it('should render DOT with clusters for groups', () => {
+      expect(formatDot(graphOf(source), 'hello.prose')).toBe(lines(
+        'digraph "hello.prose" {',
+        '  rankdir=TB;',
+        '  node [shape=box];',
+        '  subgraph cluster_g1 {',
+        '    label="parallel (\\"first\\")";',
+        '    n2 [label="fork", shape=ellipse];',
+        '    n3 [label="session \\"B\\""];',
+        '    n4 [label="session \\"C\\""];',
+        '    n5 [label="join", shape=ellipse];',
+        '  }',
+        '  n1 [label="session \\"Say \\"hi\\"\\""];',
+        '  n1 -> n3 [label="a"];',
+        '  n2 -> n3 [style=dotted];',
+        '  n1 -> n4 [style=dashed];',
+        '  n2 -> n4 [style=dotted];',
+        '  n3 -> n5 [style=dotted];',
+        '  n4 -> n5 [style=dotted];',
+        '}',
+      ));
+    });
+
+    it('should render Mermaid with subgraphs for groups', () => {
+      const text = formatMermaid(graphOf(source));
+
+      expect(text.split('\n').slice(0, 8)).toEqual([
+        'flowchart TD',
+        '  subgraph g1 ["parallel (#quot;first#quot;)"]',
+        '    n2(["fork"])',
+        '    n3["session #quot;B#quot;"]',
+        '    n4["session #quot;C#quot;"]',
+        '    n5(["join"])',
+        '  end',
+        '  n1["session #quot;Say #quot;hi#quot;#quot;"]',
+      ]);
+      expect(text).toContain('  n1 -->|"a"| n3\n');
+      expect(text).toContain('  n1 -.-> n4\n');
+    });
+
+    it('should render JSON', () => {
+      const graph = graphOf(source);
+      expect(JSON.parse(formatGraph(graph, 'json'))).toEqual(JSON.parse(JSON.stringify(graph)));
+    });
+  });
+});
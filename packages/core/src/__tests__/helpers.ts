@@ -0,0 +1,10 @@
+/**
+ * Shared helpers for unit tests
+ */
+
+/**
+ * Join source lines into a program with a trailing newline
+ */
+export function lines(...content: string[]): string {
+  return content.join('\n') + '\n';
+}
@@ -0,0 +1,163 @@
+/**
+ * Unit tests for OpenProse LSP hover
+ *
+ * Tests hover content for agents, blocks, variables, keywords and
+ * parallel join/on-fail modifiers. The cursor is marked with "¦",
+ * since "|" is the pipe operator.
+ */
+
+import { getHover, Hover, LanguageServer, Message, ResponseMessage } from '../lsp';
+
+function hoverAt(sourceWithCursor: string): Hover | null {
+  const offset = sourceWithCursor.indexOf('¦');
+  const source = sourceWithCursor.slice(0, offset) + sourceWithCursor.slice(offset + 1);
+  const before = source.slice(0, offset).split('\n');
+  return getHover(source, { line: before.length - 1, character: before[before.length - 1].length });
+}
+
+function hoverText(sourceWithCursor: string): string {
+  const hover = hoverAt(sourceWithCursor);
+  expect(hover).not.toBeNull();
+  return hover!.contents.value;
+}
+
+describe('Hover', () => {
+  describe('Agents', () => {
+    const agentSource = [
+      'import "web-search" from "github:example/web"',
+      '',
+      'agent researcher:',
+      '  model: opus',
+      '  prompt: "You research topics thoroughly"',
+      '  skills: ["web-search"]',
+      '  permissions:',
+      '    read: ["*.md"]',
+      '    bash: deny',
+      '',
+    ].join('\n');
+
+    it('should show the resolved agent properties at a reference', () => {
+      const text = hoverText(agentSource + 'session: resea¦rcher\n  prompt: "Find sources"');
+
+      expect(text).toContain('agent researcher');
+      expect(text).toContain('**model:** `opus`');
+      expect(text).toContain('"You research topics thoroughly"');
+      expect(text).toContain('["web-search"]');
+      expect(text).toContain('read: ["*.md"], bash: deny');
+    });
+
+    it('should mark unset agent properties', () => {
+      const text = hoverText('agent ¦writer:\n  model: sonnet');
+
+      expect(text).toContain('**prompt:** _not set_');
+    });
+
+    it('should cover the reference with the hover range', () => {
+      const hover = hoverAt('agent writer:\n  model: sonnet\n\nsession: wri¦ter');
+
+      expect(hover!.range).toEqual({
+        start: { line: 3, character: 9 },
+        end: { line: 3, character: 15 },
+      });
+    });
+  });
+
+  describe('Blocks', () => {
+    it('should show block parameters at an invocation', () => {
+      const text = hoverText('block review(topic, depth):\n  session "Review {topic} at {depth}"\n\ndo rev¦iew("a", "b")');
+
+      expect(text).toContain('block review(topic, depth)');
+      expect(text).toContain('Parameters: `topic`, `depth`');
+    });
+
+    it('should describe blocks without parameters', () => {
+      expect(hoverText('block cleanup:\n  session "Clean"\n\ndo clean¦up')).toContain('Takes no parameters.');
+    });
+  });
+
+  describe('Variables', () => {
+    it('should describe let and const bindings with their location', () => {
+      const source = 'session "Start"\nlet draft = session "Draft"\nconst notes = session "Notes"\n';
+
+      expect(hoverText(source + 'session "Edit {dr¦aft}"')).toContain('Mutable variable, bound on line 2.');
+      const constText = hoverText(source + 'session "Read {no¦tes}"');
+      expect(constText).toContain('const notes');
+      expect(constText).toContain('Immutable variable, bound on line 3.');
+    });
+
+    it('should describe block parameters', () => {
+      expect(hoverText('block review(topic):\n  session "Review {to¦pic}"')).toContain('Parameter of block `review`');
+    });
+
+    it('should describe catch and loop variables', () => {
+      expect(hoverText('try:\n  session "a"\ncatch as err:\n  session "Handle {e¦rr}"')).toContain('(error) err');
+      expect(hoverText('repeat 3 as i:\n  session "Step {¦i}"')).toContain('(loop variable) i');
+    });
+
+    it('should describe the implicit pipe item', () => {
+      const text = hoverText('let items = session "List"\nlet out = items | map:\n  session "Use {it¦em}"');
+
+      expect(text).toContain('Implicit item of `map`');
+    });
+  });
+
+  describe('Keywords', () => {
+    it('should document keywords', () => {
+      expect(hoverText('tr¦y:\n  session "a"\ncatch:\n  session "b"')).toContain('catch');
+      expect(hoverText('session "a"\n  ret¦ry: 2')).toContain('retry the session');
+    });
+
+    it('should describe parallel join and on-fail semantics', () => {
+      const source = 'par¦allel ("any", count: 2):\n  session "A"\n  session "B"\n  session "C"';
+      const text = hoverText(source);
+
+      expect(text).toContain('parallel ("any", count: 2)');
+      expect(text).toContain('completes once 2 branches succeed');
+      expect(text).toContain('On failure (`fail-fast`, default): failed branches are skipped');
+      expect(text).toContain('fails only if fewer than 2 branches succeed');
+      expect(text).not.toContain('cancels the other branches');
+    });
+
+    it('should describe failures by join strategy', () => {
+      expect(hoverText('par¦allel:\n  session "A"')).toContain('the first failure cancels the other branches');
+      expect(hoverText('par¦allel ("first"):\n  session "A"')).toContain('a failure of the first branch to finish fails the block');
+      expect(hoverText('par¦allel ("any"):\n  session "A"')).toContain('the block fails only if every branch fails');
+      expect(hoverText('par¦allel ("any", on-fail: "ignore"):\n  session "A"')).toContain('the block yields the successes it has');
+    });
+
+    it('should describe parallel semantics from a modifier', () => {
+      const text = hoverText('parallel (on-fail: "cont¦inue"):\n  session "A"\n  session "B"');
+
+      expect(text).toContain('Waits for all branches');
+      expect(text).toContain('errors are collected');
+    });
+
+    it('should return null for plain text', () => {
+      expect(hoverAt('session "He¦llo"')).toBeNull();
+    });
+  });
+
+  it('should serve hover over the protocol', () => {
+    const sent: Message[] = [];
+    const server = new LanguageServer({ send: message => sent.push(message) });
+    server.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+    const init = (sent[0] as ResponseMessage).result as { capabilities: Record<string, any> };
+    expect(init.capabilities.hoverProvider).toBe(true);
+
+    const uri = 'file:///test.prose';
+    server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didOpen',
+      params: { textDocument: { uri, languageId: 'openprose', version: 1, text: 'session "Hello"' } },
+    });
+    server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'textDocument/hover',
+      params: { textDocument: { uri }, position: { line: 0, character: 2 } },
+    });
+
+    const response = sent.find(m => 'id' in m && m.id === 1) as ResponseMessage;
+    expect((response.result as Hover).contents.value).toContain('Run an AI session');
+  });
+});
@@ -0,0 +1,389 @@
+/**
+ * Unit tests for the reference interpreter
+ *
+ * Tests sequencing and context passing, blocks, loops, parallel join
+ * strategies, error handling, retries, pipes and discretion, against a
+ * scripted backend.
+ */
+
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { parse } from '../parser';
+import {
+  interpret,
+  ExecutionError,
+  ExecutionResult,
+  InterpreterOptions,
+  SessionBackend,
+  SessionRequest,
+  Value,
+} from '../interpreter';
+import { lines } from './helpers';
+
+interface Script {
+  /** Session output by prompt; an Error fails the session */
+  sessions?: (request: SessionRequest) => Value | Error | Promise<Value | Error>;
+  /** Condition results by condition text, consumed in order */
+  conditions?: Record<string, boolean[]>;
+  /** Choice labels by criteria */
+  choices?: Record<string, string>;
+}
+
+class ScriptedBackend implements SessionBackend {
+  public sessions: SessionRequest[] = [];
+  public conditions: string[] = [];
+
+  constructor(private script: Script) {}
+
+  async runSession(request: SessionRequest) {
+    this.sessions.push(request);
+    const output = await (this.script.sessions?.(request) ?? request.prompt);
+    if (output instanceof Error) {
+      throw output;
+    }
+    return { output };
+  }
+
+  async evaluateCondition(request: { condition: string }) {
+    this.conditions.push(request.condition);
+    return this.script.conditions?.[request.condition]?.shift() ?? false;
+  }
+
+  async chooseOption(request: { criteria: string }) {
+    return this.script.choices?.[request.criteria] ?? '';
+  }
+}
+
+async function run(
+  source: string,
+  script: Script = {},
+  options: Partial<InterpreterOptions> = {}
+): Promise<ExecutionResult & { backend: ScriptedBackend; prompts: string[] }> {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  const backend = new ScriptedBackend(script);
+  const result = await interpret(parseResult.program, { backend, sleep: async () => {}, ...options });
+  return { ...result, backend, prompts: backend.sessions.map(s => s.prompt) };
+}
+
+function delay(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+describe('Interpreter', () => {
+  describe('Sessions and context', () => {
+    it('should run sessions in order and pass the predecessor implicitly', async () => {
+      const { backend, output } = await run(lines(
+        'session "Research"',
+        'session "Write"',
+      ), { sessions: r => r.prompt.toUpperCase() });
+
+      expect(backend.sessions.map(s => [s.prompt, s.previous])).toEqual([
+        ['Research', undefined],
+        ['Write', 'RESEARCH'],
+      ]);
+      expect(output).toBe('WRITE');
+    });
+
+    it('should resolve agents, models, prompts and explicit context', async () => {
+      const { backend, bindings } = await run(lines(
+        'agent writer:',
+        '  model: opus',
+        '  prompt: "You write"',
+        '  skills: ["style"]',
+        'let topic = "AI"',
+        'let notes = session "Research {topic}"',
+        'let draft = session: writer',
+        '  model: haiku',
+        '  prompt: "Draft about {topic}"',
+        '  context: [notes, topic]',
+        'session: writer',
+        '  prompt: "Polish"',
+        '  context: []',
+      ));
+
+      const [research, draft, polish] = backend.sessions;
+      expect(research).toMatchObject({ prompt: 'Research AI', agent: null, model: null, context: {} });
+      expect(draft).toMatchObject({
+        prompt: 'Draft about AI',
+        model: 'haiku',
+        context: { notes: 'Research AI', topic: 'AI' },
+        agent: { name: 'writer', model: 'opus', prompt: 'You write', skills: ['style'], permissions: {} },
+      });
+      expect(draft.previous).toBeUndefined();
+      expect(polish).toMatchObject({ model: 'opus', context: {} });
+      expect(polish.previous).toBeUndefined();
+      expect(bindings).toEqual({ topic: 'AI', notes: 'Research AI', draft: 'Draft about AI' });
+    });
+
+    it('should call blocks with arguments in their own scope', async () => {
+      const { prompts, bindings } = await run(lines(
+        'block review(topic):',
+        '  let verdict = session "Review {topic}"',
+        '  session "Summarize {verdict}"',
+        'let summary = do review("security")',
+      ));
+
+      expect(prompts).toEqual(['Review security', 'Summarize Review security']);
+      expect(bindings).toEqual({ summary: 'Summarize Review security' });
+    });
+
+    it('should scope anonymous do block variables like the validator', async () => {
+      const source = readFileSync(
+        join(__dirname, '../../../../test-harness/permutation-tests/118-let-do-block-then-foreach.prose'),
+        'utf-8'
+      );
+      const { prompts, bindings } = await run(source, { sessions: r => r.prompt === 'Prepare items' ? ['a', 'b'] : r.prompt });
+
+      expect(prompts).toEqual(['Prepare items', 'Process a', 'Process b']);
+      expect(bindings).toMatchObject({ items: ['a', 'b'] });
+    });
+
+    it('should keep shadowing do block variables inside the block', async () => {
+      const { prompts, bindings } = await run(lines(
+        'let topic = "AI"',
+        'if **ready**:',
+        '  do:',
+        '    let topic = "ML"',
+        '    let notes = session "Research {topic}"',
+        'session "Use {topic} and {notes}"',
+      ), { conditions: { ready: [true] } });
+
+      expect(prompts).toEqual(['Research ML', 'Use AI and Research ML']);
+      expect(bindings).toEqual({ topic: 'AI', notes: 'Research ML' });
+    });
+
+    it('should pass the left output to the right side of an arrow', async () => {
+      const { backend } = await run('session "Outline" -> session "Expand"\n');
+
+      expect(backend.sessions[1].previous).toBe('Outline');
+    });
+  });
+
+  describe('Loops', () => {
+    it('should repeat with an index and iterate over lists', async () => {
+      const { prompts, bindings } = await run(lines(
+        'repeat 2 as i:',
+        '  session "Attempt {i}"',
+        'let results = for topic, n in ["a", "b"]:',
+        '  session "Cover {topic} ({n})"',
+      ));
+
+      expect(prompts).toEqual(['Attempt 0', 'Attempt 1', 'Cover a (0)', 'Cover b (1)']);
+      expect(bindings.results).toEqual(['Cover a (0)', 'Cover b (1)']);
+    });
+
+    it('should check loop conditions before each iteration', async () => {
+      const { prompts, backend } = await run(lines(
+        'loop until **approved** as i:',
+        '  session "Draft {i}"',
+      ), { conditions: { approved: [false, false, true] } });
+
+      expect(prompts).toEqual(['Draft 0', 'Draft 1']);
+      expect(backend.conditions).toEqual(['approved', 'approved', 'approved']);
+    });
+
+    it('should stop at max and fail at the safety limit', async () => {
+      const { prompts } = await run(lines(
+        'loop while **more** (max: 2):',
+        '  session "Next"',
+      ), { conditions: { more: [true, true, true] } });
+      expect(prompts).toEqual(['Next', 'Next']);
+
+      await expect(run('loop:\n  session "Poll"\n', {}, { loopLimit: 3 }))
+        .rejects.toThrow('Loop did not finish within 3 iterations');
+    });
+
+    it('should fail when iterating over something that is not a list', async () => {
+      await expect(run(lines(
+        'let topics = session "List topics"',
+        'for topic in topics:',
+        '  session "Cover {topic}"',
+      ))).rejects.toThrow('Expected a list to iterate over, got a string');
+    });
+  });
+
+  describe('Parallel', () => {
+    it('should run all branches and bind their results in the enclosing scope', async () => {
+      const { bindings, backend } = await run(lines(
+        'parallel:',
+        '  security = session "Security review"',
+        '  perf = session "Performance review"',
+        'session "Synthesize"',
+        '  context: { security, perf }',
+      ), {
+        sessions: async r => {
+          await delay(r.prompt.startsWith('Security') ? 20 : 0);
+          return r.prompt;
+        },
+      });
+
+      expect(bindings).toEqual({ security: 'Security review', perf: 'Performance review' });
+      expect(backend.sessions[2].context).toEqual(bindings);
+    });
+
+    it('should take the first branch to finish and abort the rest', async () => {
+      const { bindings, prompts } = await run(lines(
+        'let fastest = parallel ("first"):',
+        '  do:',
+        '    session "Slow"',
+        '    session "Slow follow-up"',
+        '  session "Fast"',
+      ), { sessions: async r => { await delay(r.prompt === 'Slow' ? 20 : 0); return r.prompt; } });
+
+      expect(bindings.fastest).toBe('Fast');
+      expect(prompts).not.toContain('Slow follow-up');
+    });
+
+    it('should wait for the required number of successes with "any"', async () => {
+      const { bindings } = await run(lines(
+        'let answers = parallel ("any", count: 2):',
+        '  session "A"',
+        '  session "B"',
+        '  session "C"',
+      ), { sessions: async r => r.prompt === 'A' ? new Error('A is down') : (await delay(r.prompt === 'B' ? 10 : 0), r.prompt) });
+
+      expect(bindings.answers).toEqual(['C', 'B']);
+    });
+
+    it('should apply failure policies', async () => {
+      const script: Script = { sessions: r => r.prompt === 'Bad' ? new Error('broken') : r.prompt };
+
+      await expect(run('parallel:\n  session "Bad"\n  session "Good"\n', script)).rejects.toThrow('broken');
+      await expect(run('parallel (on-fail: "continue"):\n  session "Bad"\n  session "Good"\n', script))
+        .rejects.toThrow('1 of 2 parallel branches failed: broken');
+
+      const { output, prompts } = await run('parallel (on-fail: "ignore"):\n  session "Bad"\n  session "Good"\n', script);
+      expect(output).toEqual([null, 'Good']);
+      expect(prompts).toEqual(['Bad', 'Good']);
+    });
+
+    it('should run parallel for-each and pmap concurrently', async () => {
+      let running = 0;
+      let peak = 0;
+      const sessions = async (r: SessionRequest) => {
+        peak = Math.max(peak, ++running);
+        await delay(5);
+        running--;
+        return r.prompt;
+      };
+
+      const { bindings } = await run(lines(
+        'let a = parallel for x in ["1", "2", "3"]:',
+        '  session "Item {x}"',
+        'let b = ["4", "5"] | pmap:',
+        '  session "Item {item}"',
+      ), { sessions });
+
+      expect(bindings).toEqual({ a: ['Item 1', 'Item 2', 'Item 3'], b: ['Item 4', 'Item 5'] });
+      expect(peak).toBe(3);
+    });
+  });
+
+  describe('Error handling', () => {
+    it('should catch errors, bind them and always run finally', async () => {
+      const { prompts } = await run(lines(
+        'try:',
+        '  session "Risky"',
+        '  session "Never"',
+        'catch as err:',
+        '  session "Handle {err}"',
+        'finally:',
+        '  session "Cleanup"',
+      ), { sessions: r => r.prompt === 'Risky' ? new Error('timeout') : r.prompt });
+
+      expect(prompts).toEqual(['Risky', 'Handle timeout', 'Cleanup']);
+    });
+
+    it('should throw and rethrow with the source span', async () => {
+      const source = lines(
+        'try:',
+        '  throw "Bad input"',
+        'catch:',
+        '  session "Log"',
+        '  throw',
+      );
+
+      const error = await run(source).catch(e => e);
+      expect(error).toBeInstanceOf(ExecutionError);
+      expect(error.message).toBe('Bad input');
+      expect(error.span.start).toMatchObject({ line: 2, column: 3 });
+    });
+
+    it('should retry failed sessions with backoff', async () => {
+      const delays: number[] = [];
+      let failures = 2;
+      const { backend } = await run(lines(
+        'session "Flaky API"',
+        '  retry: 3',
+        '  backoff: "exponential"',
+      ), {
+        sessions: () => failures-- > 0 ? new Error(`failure ${2 - failures}`) : 'ok',
+      }, { backoffDelay: 100, sleep: async ms => { delays.push(ms); } });
+
+      expect(backend.sessions.map(s => [s.attempt, s.previousError])).toEqual([
+        [1, undefined],
+        [2, 'failure 1'],
+        [3, 'failure 2'],
+      ]);
+      expect(delays).toEqual([100, 200]);
+    });
+
+    it('should fail once retries run out', async () => {
+      await expect(run('session "Down"\n  retry: 1\n', { sessions: () => new Error('unavailable') }))
+        .rejects.toThrow('unavailable');
+    });
+  });
+
+  describe('Pipes and discretion', () => {
+    it('should map, filter and reduce', async () => {
+      const { output } = await run(lines(
+        'let files = ["a.md", "b.ts", "c.md"]',
+        'files | filter:',
+        '  session "Is {item} markdown?"',
+        '| map:',
+        '  session "Summarize {item}"',
+        '| reduce(report, summary):',
+        '  session "Merge {summary} into {report}"',
+      ), {
+        sessions: r => r.prompt.startsWith('Is') ? (r.prompt.includes('.md') ? 'yes' : 'no') : r.prompt,
+      });
+
+      expect(output).toBe('Merge Summarize c.md into Summarize a.md');
+    });
+
+    it('should branch on conditions and choices', async () => {
+      const { prompts } = await run(lines(
+        'if **urgent**:',
+        '  session "Page on-call"',
+        'elif **important**:',
+        '  session "File a ticket"',
+        'else:',
+        '  session "Ignore"',
+        'choice **best approach**:',
+        '  option "quick":',
+        '    session "Patch"',
+        '  option "thorough":',
+        '    session "Rewrite"',
+      ), { conditions: { urgent: [false], important: [true] }, choices: { 'best approach': 'thorough' } });
+
+      expect(prompts).toEqual(['File a ticket', 'Rewrite']);
+    });
+
+    it('should reject a choice that is not an option', async () => {
+      await expect(run('choice **pick**:\n  option "a":\n    session "A"\n', { choices: { pick: 'b' } }))
+        .rejects.toThrow('The backend chose "b", which is not an option');
+    });
+  });
+
+  describe('Cancellation', () => {
+    it('should stop a run when its signal aborts', async () => {
+      const controller = new AbortController();
+      const result = run('session "A"\nsession "B"\n', {
+        sessions: r => { controller.abort(); return r.prompt; },
+      }, { signal: controller.signal });
+
+      await expect(result).rejects.toThrow('Execution cancelled');
+    });
+  });
+});
@@ -0,0 +1,418 @@
+/**
+ * Unit tests for the intermediate representation
+ *
+ * Tests compiling programs to the JSON IR: hoisted agents and blocks,
+ * resolved agent references, explicit scopes, desugared arrows and pipes,
+ * errors for undefined references, and that the IR matches its JSON Schema.
+ */
+
+import { readFileSync } from 'fs';
+import { join, resolve } from 'path';
+import { parse } from '../parser';
+import { linkProgram } from '../modules';
+import { compileToIR, IRError, IR_SCHEMA, IR_VERSION, ProseIR, IRNode } from '../compiler';
+import { lines } from './helpers';
+
+function ir(source: string): ProseIR {
+  const { program, errors } = parse(source);
+  expect(errors).toHaveLength(0);
+  return compileToIR(program);
+}
+
+/**
+ * A value with its spans removed, for comparing structure
+ */
+function withoutSpans<T>(value: T): T {
+  return JSON.parse(JSON.stringify(value, (key, field) => key === 'span' ? undefined : field));
+}
+
+type Schema = { [keyword: string]: any };
+
+/**
+ * Check a value against the parts of JSON Schema that IR_SCHEMA uses,
+ * returning the first place it doesn't match, or null
+ */
+function schemaError(value: unknown, schema: Schema, path = '$'): string | null {
+  if (schema.$ref) {
+    return schemaError(value, (IR_SCHEMA.$defs as Schema)[schema.$ref.slice('#/$defs/'.length)], path);
+  }
+  if (schema.anyOf || schema.oneOf) {
+    const matching = (schema.anyOf ?? schema.oneOf).filter((option: Schema) => schemaError(value, option, path) === null);
+    return matching.length === 0 || (schema.oneOf && matching.length > 1) ? `${path} matches ${matching.length} options` : null;
+  }
+  if ('const' in schema && value !== schema.const) {
+    return `${path} should be ${JSON.stringify(schema.const)}`;
+  }
+  if (schema.enum && !schema.enum.includes(value)) {
+    return `${path} should be one of ${schema.enum.join(', ')}`;
+  }
+  const type = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+  if (schema.type && schema.type !== type && !(schema.type === 'integer' && Number.isInteger(value))) {
+    return `${path} should be ${schema.type}`;
+  }
+  if (Array.isArray(value) && schema.items) {
+    for (const [index, item] of value.entries()) {
+      const error = schemaError(item, schema.items, `${path}[${index}]`);
+      if (error) {
+        return error;
+      }
+    }
+  }
+  if (type !== 'object') {
+    return null;
+  }
+  const record = value as { [key: string]: unknown };
+  const missing = (schema.required ?? []).find((key: string) => !(key in record));
+  if (missing) {
+    return `${path} is missing ${missing}`;
+  }
+  for (const [key, field] of Object.entries(record)) {
+    const fieldSchema = schema.properties?.[key] ?? schema.additionalProperties;
+    const error = fieldSchema === false
+      ? `${path} has unexpected ${key}`
+      : fieldSchema && fieldSchema !== true ? schemaError(field, fieldSchema, `${path}.${key}`) : null;
+    if (error) {
+      return error;
+    }
+  }
+  return null;
+}
+
+describe('Intermediate representation', () => {
+  describe('Definitions', () => {
+    it('should hoist agents, blocks and imports out of the body', () => {
+      const result = ir(lines(
+        'import "web-search" from "npm:web-search"',
+        'session "Start"',
+        'agent writer:',
+        '  model: opus',
+        '  prompt: "You write clearly"',
+        '  skills: ["web-search"]',
+        'block polish(text):',
+        '  session "Polish {text}"',
+      ));
+
+      expect(result.version).toBe(IR_VERSION);
+      expect(withoutSpans(result.imports)).toEqual([{ skill: 'web-search', source: 'npm:web-search' }]);
+      expect(withoutSpans(result.agents)).toEqual([
+        { name: 'writer', model: 'opus', prompt: 'You write clearly', skills: ['web-search'], permissions: {} },
+      ]);
+      expect(result.blocks.map(block => [block.name, block.parameters])).toEqual([['polish', ['text']]]);
+      expect(result.body.map(node => node.kind)).toEqual(['session']);
+    });
+
+    it('should resolve a session\'s agent and model', () => {
+      const result = ir(lines(
+        'agent writer:',
+        '  model: opus',
+        'session: writer',
+        '  prompt: "Draft"',
+        'session: writer',
+        '  prompt: "Summarize"',
+        '  model: haiku',
+        '  retry: 2',
+        '  backoff: exponential',
+      ));
+
+      expect(withoutSpans(result.body)).toEqual([
+        { kind: 'session', name: null, agent: 'writer', model: 'opus', prompt: { kind: 'string', value: 'Draft' }, context: null, retry: 0, backoff: 'none', returns: null },
+        { kind: 'session', name: null, agent: 'writer', model: 'haiku', prompt: { kind: 'string', value: 'Summarize' }, context: null, retry: 2, backoff: 'exponential', returns: null },
+      ]);
+    });
+
+    it('should give block calls the output type as JSON Schema', () => {
+      const result = ir(lines(
+        'block count(items) returns number:',
+        '  session "Count"',
+        '    context: items',
+        'let total = do count(["a"])',
+      ));
+
+      expect(result.blocks[0].returns).toEqual({ type: 'number' });
+      expect(withoutSpans(result.body[0])).toMatchObject({
+        kind: 'let',
+        value: { kind: 'call', block: 'count', arguments: [{ kind: 'array', elements: [{ kind: 'string', value: 'a' }] }] },
+      });
+    });
+
+    it('should include the namespaced definitions of modules a program uses', () => {
+      const files: Record<string, string> = {
+        'review.prose': lines('agent critic:', '  model: opus', 'block critique(text):', '  session: critic', '    context: text'),
+      };
+      const { program } = linkProgram('/project/main.prose', lines('use "./review.prose" as review', 'do review.critique("draft")'), {
+        readFile: path => files[path.replace(resolve('/project') + '/', '')],
+      });
+      const result = compileToIR(program);
+
+      expect(result.agents.map(agent => agent.name)).toEqual(['review.critic']);
+      expect(result.blocks.map(block => block.name)).toEqual(['review.critique']);
+      expect(result.blocks[0].body[0]).toMatchObject({ kind: 'session', agent: 'review.critic', model: 'opus' });
+    });
+  });
+
+  describe('Scopes', () => {
+    it('should say which scope declares each variable', () => {
+      const result = ir(lines(
+        'let topic = "caching"',
+        'for item, i in ["a", "b"]:',
+        '  let note = session "Note {item} on {topic}"',
+        'block explain(topic):',
+        '  session "Explain {topic}"',
+      ));
+
+      expect(result.scopes).toEqual([
+        { id: 's0', parent: null, variables: [{ name: 'topic', kind: 'let' }] },
+        { id: 's1', parent: 's0', variables: [{ name: 'item', kind: 'item' }, { name: 'i', kind: 'index' }, { name: 'note', kind: 'let' }] },
+        { id: 's2', parent: 's0', variables: [{ name: 'topic', kind: 'parameter' }] },
+      ]);
+      const loop = result.body[1] as Extract<IRNode, { kind: 'for' }>;
+      expect(withoutSpans(loop.body[0])).toMatchObject({
+        kind: 'let',
+        scope: 's1',
+        value: {
+          prompt: {
+            kind: 'template',
+            parts: [
+              'Note ',
+              { kind: 'variable', name: 'item', scope: 's1', fields: [] },
+              ' on ',
+              { kind: 'variable', name: 'topic', scope: 's0', fields: [] },
+            ],
+          },
+        },
+      });
+      expect(withoutSpans(result.blocks[0].body[0])).toMatchObject({
+        prompt: { parts: ['Explain ', { name: 'topic', scope: 's2' }] },
+      });
+    });
+
+    it('should keep interpolations that are not variables as text', () => {
+      expect(withoutSpans(ir('session "Use {placeholder} as is"\n').body[0])).toMatchObject({
+        prompt: { kind: 'string', value: 'Use {placeholder} as is' },
+      });
+    });
+
+    it('should split the fields of interpolations', () => {
+      const result = ir(lines(
+        'let plan = session "Plan" returns { risk: number }',
+        'session "Assess {plan.risk}"',
+      ));
+
+      expect(withoutSpans(result.body[1])).toMatchObject({
+        prompt: { kind: 'template', parts: ['Assess ', { kind: 'variable', name: 'plan', scope: 's0', fields: ['risk'] }] },
+      });
+    });
+
+    it('should declare parallel branch bindings in the enclosing scope', () => {
+      const result = ir(lines(
+        'parallel:',
+        '  a = session "A"',
+        '  let b = session "B"',
+        'session "Merge"',
+        '  context: [a, b]',
+      ));
+
+      expect(result.scopes).toEqual([{ id: 's0', parent: null, variables: [{ name: 'a', kind: 'let' }, { name: 'b', kind: 'let' }] }]);
+      expect(withoutSpans(result.body[1])).toMatchObject({
+        context: [
+          { name: 'a', value: { kind: 'variable', name: 'a', scope: 's0' } },
+          { name: 'b', value: { kind: 'variable', name: 'b', scope: 's0' } },
+        ],
+      });
+    });
+
+    it('should declare anonymous do block variables where the validator does', () => {
+      const source = readFileSync(
+        join(__dirname, '../../../../test-harness/permutation-tests/020-context-inner-var.prose'),
+        'utf-8'
+      );
+      const result = ir(source);
+
+      expect(result.scopes).toEqual([
+        { id: 's0', parent: null, variables: [{ name: 'inner_data', kind: 'let' }] },
+        { id: 's1', parent: 's0', variables: [] },
+      ]);
+      expect(withoutSpans(result.body[1])).toMatchObject({
+        context: [{ name: 'inner_data', value: { kind: 'variable', name: 'inner_data', scope: 's0' } }],
+      });
+    });
+
+    it('should keep do block variables that shadow an outer one in the block', () => {
+      const result = ir(lines(
+        'let topic = "AI"',
+        'if **ready**:',
+        '  do:',
+        '    let topic = "ML"',
+        '    let notes = session "Research {topic}"',
+        'session "Use {topic} and {notes}"',
+      ));
+
+      expect(result.scopes).toEqual([
+        { id: 's0', parent: null, variables: [{ name: 'topic', kind: 'let' }, { name: 'notes', kind: 'let' }] },
+        { id: 's1', parent: 's0', variables: [] },
+        { id: 's2', parent: 's1', variables: [{ name: 'topic', kind: 'let' }] },
+      ]);
+    });
+
+    it('should split field accesses and resolve assignments to the declaring scope', () => {
+      const result = ir(lines(
+        'let plan = session "Plan" returns { steps: string[] }',
+        'repeat 2:',
+        '  plan = session "Refine"',
+        '    context: plan.steps',
+      ));
+      const repeat = result.body[1] as Extract<IRNode, { kind: 'repeat' }>;
+
+      expect(withoutSpans(repeat.body[0])).toMatchObject({
+        kind: 'assign',
+        name: 'plan',
+        scope: 's0',
+        value: { context: [{ name: 'plan.steps', value: { kind: 'variable', name: 'plan', scope: 's0', fields: ['steps'] } }] },
+      });
+    });
+  });
+
+  describe('Desugaring', () => {
+    it('should turn arrows into sequences', () => {
+      const result = ir('session "A" -> session "B" -> session "C"\n');
+
+      expect(result.body[0].kind).toBe('sequence');
+      expect((result.body[0] as Extract<IRNode, { kind: 'sequence' }>).steps.map(step => withoutSpans(step)))
+        .toMatchObject([{ prompt: { value: 'A' } }, { prompt: { value: 'B' } }, { prompt: { value: 'C' } }]);
+    });
+
+    it('should turn pipes into nested stages', () => {
+      const result = ir(lines(
+        'let items = ["a", "b", "c"]',
+        'let summary = items | filter:',
+        '  session "Keep {item}?"',
+        '  | pmap:',
+        '    session "Expand {item}"',
+        '  | reduce(all, one):',
+        '    session "Merge {all} and {one}"',
+      ));
+      const summary = withoutSpans(result.body[1]) as any;
+
+      expect(summary.value).toMatchObject({
+        kind: 'reduce',
+        accumulator: 'all',
+        item: 'one',
+        collection: {
+          kind: 'for',
+          item: 'item',
+          index: null,
+          parallel: true,
+          onFail: 'fail-fast',
+          collection: { kind: 'filter', item: 'item', collection: { kind: 'variable', name: 'items', scope: 's0' } },
+        },
+      });
+      expect(result.scopes.slice(1).map(scope => scope.variables.map(variable => variable.kind))).toEqual([
+        ['item'],
+        ['item'],
+        ['accumulator', 'item'],
+      ]);
+    });
+
+    it('should name context entries', () => {
+      const result = ir(lines(
+        'let a = "x"',
+        'let b = "y"',
+        'session "One"',
+        '  context: { a, b }',
+        'session "Two"',
+        '  context: [a, "literal"]',
+      ));
+
+      expect(withoutSpans(result.body.slice(2)).map(node => (node as any).context.map((entry: any) => entry.name)))
+        .toEqual([['a', 'b'], ['a', '1']]);
+    });
+  });
+
+  describe('Errors', () => {
+    it('should report references to undefined agents, blocks and variables', () => {
+      expect(() => ir('session: ghost\n  prompt: "Boo"\n')).toThrow(new IRError('Undefined agent: "ghost"', expect.anything()));
+      expect(() => ir('do missing()\n')).toThrow('Undefined block: "missing"');
+      expect(() => ir('session "Go"\n  context: nowhere\n')).toThrow('Undefined variable: "nowhere"');
+    });
+
+    it('should not see do block variables after the loop they escape to', () => {
+      expect(() => ir(lines(
+        'for x in ["a"]:',
+        '  do:',
+        '    let inner = session "Make {x}"',
+        'session "Use"',
+        '  context: inner',
+      ))).toThrow('Undefined variable: "inner"');
+    });
+  });
+
+  describe('Schema', () => {
+    const program = lines(
+      'import "web-search" from "npm:web-search"',
+      'agent researcher:',
+      '  model: sonnet',
+      '  skills: ["web-search"]',
+      '  permissions:',
+      '    network: allow',
+      'block review(draft) returns { ok: boolean, notes: string[] }:',
+      '  session "Review {draft}" returns { ok: boolean, notes: string[] }',
+      'let topic = "caching"',
+      'let draft = session: researcher',
+      '  prompt: "Research {topic}"',
+      'parallel ("any", count: 1, on-fail: "ignore"):',
+      '  a = session "A"',
+      '  b = session "B"',
+      'loop until **the draft is good** (max: 3) as i:',
+      '  draft = session "Improve"',
+      '    context: draft',
+      'repeat 2 as n:',
+      '  session "Pass {n}"',
+      'parallel for item in ["x", "y"]:',
+      '  session "Do {item}"',
+      'let kept = ["x"] | filter:',
+      '  session "Keep?"',
+      '    context: item',
+      '  | map:',
+      '    session "Use {item}"',
+      'try:',
+      '  do review(draft)',
+      'catch as err:',
+      '  throw "Failed: {err}"',
+      'finally:',
+      '  session "Clean up"',
+      'choice **which format fits**:',
+      '  option "post":',
+      '    session "Post"',
+      '  option "thread":',
+      '    do:',
+      '      session "Thread"',
+      'if **it is urgent**:',
+      '  session "Now" -> session "Later"',
+      'elif **it can wait**:',
+      '  throw',
+      'else:',
+      '  let x = 3',
+      '  session "Count"',
+      '    context: { x }',
+    );
+
+    it('should match its JSON Schema', () => {
+      expect(schemaError(ir(program), IR_SCHEMA)).toBeNull();
+    });
+
+    it('should survive a JSON round trip', () => {
+      const result = ir(program);
+      expect(JSON.parse(JSON.stringify(result))).toEqual(result);
+    });
+
+    it('should reject IR that does not match', () => {
+      const unknownKind = ir(program);
+      (unknownKind.body[0] as any).kind = 'mystery';
+      const missingField = ir(program);
+      delete (missingField.scopes[0] as any).parent;
+
+      expect(schemaError(unknownKind, IR_SCHEMA)).toBe('$.body[0] matches 0 options');
+      expect(schemaError(missingField, IR_SCHEMA)).toBe('$.scopes[0] is missing parent');
+    });
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for lint rules
+ *
+ * Tests rule severities and thresholds from a config, disable comments,
+ * custom rules, and finding and loading config files.
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parse } from '../parser';
+import {
+  validate,
+  getRuleName,
+  findConfigFile,
+  loadConfig,
+  parseConfig,
+  ConfigError,
+  DiagnosticCodes,
+  LintOptions,
+  LintRule,
+  ValidationError,
+} from '../validator';
+import { lines } from './helpers';
+
+function check(source: string, options?: LintOptions): ValidationError[] {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  const result = validate(parseResult.program, source, options);
+  return [...result.errors, ...result.warnings];
+}
+
+function codes(source: string, options?: LintOptions): string[] {
+  return check(source, options).map(d => `${d.severity} ${d.code}`);
+}
+
+const unboundedLoop = lines(
+  'loop:',
+  '  session "Poll"',
+);
+
+const deeplyNested = lines(
+  'do:',
+  '  do:',
+  '    do:',
+  '      do:',
+  '        do:',
+  '          do:',
+  '            session "Deep"',
+);
+
+describe('Lint Rules', () => {
+  describe('Rule settings', () => {
+    it('should name rules after their codes', () => {
+      expect(getRuleName(DiagnosticCodes.UnknownProperty)).toBe('unknown-property');
+      expect(getRuleName(DiagnosticCodes.MaxNestingDepth)).toBe('max-nesting-depth');
+      expect(getRuleName('team/no-opus')).toBe('team/no-opus');
+    });
+
+    it('should change severities by rule name or code', () => {
+      expect(codes(unboundedLoop)).toEqual(['warning OP3010']);
+      expect(codes(unboundedLoop, { config: { rules: { 'unbounded-loop': 'error' } } })).toEqual(['error OP3010']);
+      expect(codes(unboundedLoop, { config: { rules: { OP3010: ['info'] } } })).toEqual(['info OP3010']);
+      expect(codes(unboundedLoop, { config: { rules: { 'unbounded-loop': 'off' } } })).toEqual([]);
+    });
+
+    it('should apply thresholds', () => {
+      const source = lines('session "' + 'x'.repeat(60) + '"');
+
+      expect(codes(source)).toEqual([]);
+      expect(codes(source, { config: { rules: { 'long-prompt': ['warning', { max: 50 }] } } })).toEqual([
+        'warning OP5005',
+      ]);
+    });
+
+    it('should check nesting depth only when enabled', () => {
+      expect(codes(deeplyNested)).toEqual([]);
+
+      const [diagnostic] = check(deeplyNested, { config: { rules: { 'max-nesting-depth': 'error' } } });
+      expect(diagnostic.code).toBe(DiagnosticCodes.MaxNestingDepth);
+      expect(diagnostic.severity).toBe('error');
+      expect(diagnostic.span.start.line).toBe(6);
+      expect(diagnostic.message).toBe('Nesting depth 6 exceeds the maximum of 5. Consider extracting a block.');
+
+      expect(codes(deeplyNested, { config: { rules: { 'max-nesting-depth': ['warning', { max: 6 }] } } })).toEqual([]);
+    });
+
+    it('should require max on conditional loops when configured', () => {
+      const source = lines(
+        'loop until **the answer is final**:',
+        '  session "Refine"',
+      );
+
+      expect(codes(source)).toEqual([]);
+      expect(codes(source, { config: { rules: { 'unbounded-loop': ['error', { conditional: true }] } } })).toEqual([
+        'error OP3010',
+      ]);
+    });
+  });
+
+  describe('Disable comments', () => {
+    it('should silence the named rules on the next line', () => {
+      expect(codes('# prose-disable-next-line unbounded-loop\n' + unboundedLoop)).toEqual([]);
+      expect(codes('# prose-disable-next-line OP3010, long-prompt\n' + unboundedLoop)).toEqual([]);
+      expect(codes('# prose-disable-next-line long-prompt\n' + unboundedLoop)).toEqual(['warning OP3010']);
+    });
+
+    it('should silence every rule when none are named', () => {
+      expect(codes('# prose-disable-next-line\n' + unboundedLoop)).toEqual([]);
+      expect(codes('# prose-disable-next-line\n\n' + unboundedLoop)).toEqual(['warning OP3010']);
+    });
+  });
+
+  describe('Custom rules', () => {
+    const noOpus: LintRule = {
+      name: 'team/no-opus',
+      create: context => ({
+        visitProperty(node) {
+          const model = context.options.model ?? 'opus';
+          if (node.name.name === 'model' && node.value.type === 'Identifier' && node.value.name === model) {
+            context.report(`Don't use ${model}`, node.value.span);
+          }
+        },
+      }),
+    };
+    const source = lines(
+      'agent writer:',
+      '  model: opus',
+      '  prompt: "You write"',
+      'session: writer',
+      '  prompt: "Draft"',
+    );
+
+    it('should visit nested nodes and report under the rule name', () => {
+      const [diagnostic] = check(source, { rules: [noOpus] });
+
+      expect(diagnostic).toMatchObject({ code: 'team/no-opus', severity: 'warning', message: "Don't use opus" });
+      expect(diagnostic.span.start).toMatchObject({ line: 2, column: 10 });
+    });
+
+    it('should configure custom rules like built-in ones', () => {
+      expect(codes(source, { rules: [noOpus], config: { rules: { 'team/no-opus': 'error' } } })).toEqual([
+        'error team/no-opus',
+      ]);
+      expect(codes(source, { rules: [noOpus], config: { rules: { 'team/no-opus': ['warning', { model: 'haiku' }] } } }))
+        .toEqual([]);
+      expect(codes(source.replace('  model', '  # prose-disable-next-line team/no-opus\n  model'), { rules: [noOpus] }))
+        .toEqual([]);
+    });
+  });
+
+  describe('Config files', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = mkdtempSync(join(tmpdir(), 'openprose-lint-'));
+    });
+
+    afterEach(() => {
+      rmSync(dir, { recursive: true, force: true });
+    });
+
+    it('should reject malformed configs', () => {
+      expect(() => parseConfig('.openproserc', '{')).toThrow(ConfigError);
+      expect(() => parseConfig('.openproserc', '[]')).toThrow('.openproserc: Config must be a JSON object');
+      expect(() => parseConfig('.openproserc', '{"rules": {"long-prompt": "loud"}}'))
+        .toThrow('Invalid setting for rule "long-prompt"');
+      expect(() => parseConfig('.openproserc', '{"customRules": "./rules.js"}'))
+        .toThrow('"customRules" must be an array of module paths');
+    });
+
+    it('should find the nearest config file', () => {
+      const nested = join(dir, 'flows', 'drafts');
+      mkdirSync(nested, { recursive: true });
+      writeFileSync(join(dir, 'prose.config.json'), '{}');
+
+      expect(findConfigFile(nested)).toBe(join(dir, 'prose.config.json'));
+
+      writeFileSync(join(dir, 'flows', '.openproserc'), '{}');
+      expect(findConfigFile(nested)).toBe(join(dir, 'flows', '.openproserc'));
+    });
+
+    it('should load rules and custom rule modules', () => {
+      writeFileSync(join(dir, 'no-loops.js'), `
+        module.exports = {
+          rules: [{
+            name: 'no-loops',
+            defaultSeverity: 'error',
+            create: context => ({ visitLoopBlock: node => context.report('No loops', node.span) }),
+          }],
+        };
+      `);
+      writeFileSync(join(dir, '.openproserc'), JSON.stringify({
+        rules: { 'unbounded-loop': 'off' },
+        customRules: ['./no-loops.js'],
+      }));
+
+      expect(codes(unboundedLoop, loadConfig(join(dir, '.openproserc')))).toEqual(['error no-loops']);
+    });
+
+    it('should report custom rule modules that fail to load', () => {
+      writeFileSync(join(dir, '.openproserc'), JSON.stringify({ customRules: ['./missing.js'] }));
+
+      expect(() => loadConfig(join(dir, '.openproserc'))).toThrow('Cannot load custom rules "./missing.js"');
+    });
+  });
+});
@@ -0,0 +1,342 @@
+/**
+ * Unit tests for the OpenProse Language Server
+ *
+ * Tests JSON-RPC framing, document sync, diagnostics publishing and
+ * semantic token requests.
+ */
+
+import { PassThrough } from 'stream';
+import {
+  LanguageServer,
+  MessageReader,
+  MessageError,
+  encodeMessage,
+  startLanguageServer,
+  getDiagnostics,
+  DiagnosticSeverity,
+  MessageType,
+  ErrorCodes,
+  positionToOffset,
+  offsetToPosition,
+  applyContentChanges,
+  Message,
+  ResponseMessage,
+  NotificationMessage,
+} from '../lsp';
+
+const URI = 'file:///test.prose';
+
+function createServer(): { server: LanguageServer; sent: Message[]; exitCodes: number[] } {
+  const sent: Message[] = [];
+  const exitCodes: number[] = [];
+  const server = new LanguageServer({
+    send: message => sent.push(message),
+    onExit: code => exitCodes.push(code),
+  });
+  return { server, sent, exitCodes };
+}
+
+function initialize(server: LanguageServer): void {
+  server.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+  server.handleMessage({ jsonrpc: '2.0', method: 'initialized', params: {} });
+}
+
+function openDocument(server: LanguageServer, text: string, version: number = 1): void {
+  server.handleMessage({
+    jsonrpc: '2.0',
+    method: 'textDocument/didOpen',
+    params: { textDocument: { uri: URI, languageId: 'openprose', version, text } },
+  });
+}
+
+function lastDiagnostics(sent: Message[]): NotificationMessage {
+  const notifications = sent.filter(
+    m => 'method' in m && m.method === 'textDocument/publishDiagnostics'
+  ) as NotificationMessage[];
+  return notifications[notifications.length - 1];
+}
+
+describe('Language Server', () => {
+  describe('Lifecycle', () => {
+    it('should advertise capabilities on initialize', () => {
+      const { server, sent } = createServer();
+      server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+      const response = sent[0] as ResponseMessage;
+      expect(response.id).toBe(1);
+      const result = response.result as { capabilities: Record<string, any> };
+      expect(result.capabilities.textDocumentSync).toBeDefined();
+      expect(result.capabilities.semanticTokensProvider.full).toBe(true);
+      expect(result.capabilities.semanticTokensProvider.legend.tokenTypes).toContain('keyword');
+    });
+
+    it('should reject requests before initialize', () => {
+      const { server, sent } = createServer();
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'textDocument/semanticTokens/full',
+        params: { textDocument: { uri: URI } },
+      });
+
+      const response = sent[0] as ResponseMessage;
+      expect(response.error?.code).toBe(ErrorCodes.ServerNotInitialized);
+    });
+
+    it('should respond with MethodNotFound for unknown requests', () => {
+      const { server, sent } = createServer();
+      initialize(server);
+      server.handleMessage({ jsonrpc: '2.0', id: 2, method: 'workspace/unknown' });
+
+      const response = sent[sent.length - 1] as ResponseMessage;
+      expect(response.id).toBe(2);
+      expect(response.error?.code).toBe(ErrorCodes.MethodNotFound);
+    });
+
+    it('should respond with InvalidRequest for messages that are not objects', () => {
+      const { server, sent } = createServer();
+      server.handleMessage(null as unknown as Message);
+      server.handleMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} });
+
+      expect((sent[0] as ResponseMessage).error?.code).toBe(ErrorCodes.InvalidRequest);
+      expect((sent[1] as ResponseMessage).id).toBe(1);
+    });
+
+    it('should exit with code 0 after shutdown', () => {
+      const { server, exitCodes } = createServer();
+      initialize(server);
+      server.handleMessage({ jsonrpc: '2.0', id: 3, method: 'shutdown' });
+      server.handleMessage({ jsonrpc: '2.0', method: 'exit' });
+
+      expect(exitCodes).toEqual([0]);
+    });
+
+    it('should exit with code 1 without shutdown', () => {
+      const { server, exitCodes } = createServer();
+      initialize(server);
+      server.handleMessage({ jsonrpc: '2.0', method: 'exit' });
+
+      expect(exitCodes).toEqual([1]);
+    });
+  });
+
+  describe('Diagnostics', () => {
+    it('should publish no diagnostics for a valid document', () => {
+      const { server, sent } = createServer();
+      initialize(server);
+      openDocument(server, 'session "Hello"');
+
+      const notification = lastDiagnostics(sent);
+      expect(notification.params).toEqual({ uri: URI, version: 1, diagnostics: [] });
+    });
+
+    it('should publish validation errors on open', () => {
+      const { server, sent } = createServer();
+      initialize(server);
+      openDocument(server, 'session: missing');
+
+      const params = lastDiagnostics(sent).params as { diagnostics: any[] };
+      expect(params.diagnostics).toHaveLength(1);
+      expect(params.diagnostics[0].message).toContain('Undefined agent');
+      expect(params.diagnostics[0].severity).toBe(DiagnosticSeverity.Error);
+      expect(params.diagnostics[0].range.start).toEqual({ line: 0, character: 9 });
+    });
+
+    it('should republish diagnostics on change', () => {
+      const { server, sent } = createServer();
+      initialize(server);
+      openDocument(server, 'session: missing');
+
+      server.handleMessage({
+        jsonrpc: '2.0',
+        method: 'textDocument/didChange',
+        params: {
+          textDocument: { uri: URI, version: 2 },
+          contentChanges: [{ text: 'session "Fixed"' }],
+        },
+      });
+
+      const params = lastDiagnostics(sent).params as { version: number; diagnostics: any[] };
+      expect(params.version).toBe(2);
+      expect(params.diagnostics).toHaveLength(0);
+      expect(server.getDocument(URI)?.text).toBe('session "Fixed"');
+    });
+
+    it('should clear diagnostics on close', () => {
+      const { server, sent } = createServer();
+      initialize(server);
+      openDocument(server, 'session: missing');
+      server.handleMessage({
+        jsonrpc: '2.0',
+        method: 'textDocument/didClose',
+        params: { textDocument: { uri: URI } },
+      });
+
+      expect(lastDiagnostics(sent).params).toEqual({ uri: URI, diagnostics: [] });
+      expect(server.getDocument(URI)).toBeUndefined();
+    });
+
+    it('should log errors from notifications instead of throwing', () => {
+      const sent: Message[] = [];
+      const server = new LanguageServer({
+        send: message => sent.push(message),
+        lintOptions: () => {
+          throw new Error('config exploded');
+        },
+      });
+      initialize(server);
+
+      expect(() => openDocument(server, 'session "Hello"')).not.toThrow();
+      expect(sent[sent.length - 1]).toEqual({
+        jsonrpc: '2.0',
+        method: 'window/logMessage',
+        params: { type: MessageType.Error, message: 'Error handling textDocument/didOpen: config exploded' },
+      });
+      expect(server.getDocument(URI)).toBeDefined();
+    });
+
+    it('should report parse errors without running validation', () => {
+      const diagnostics = getDiagnostics('session "unterminated');
+
+      expect(diagnostics.length).toBeGreaterThan(0);
+      expect(diagnostics.every(d => d.severity === DiagnosticSeverity.Error)).toBe(true);
+    });
+
+    it('should report warnings with warning severity', () => {
+      const diagnostics = getDiagnostics('# TODO: later\nsession "Hello"');
+
+      expect(diagnostics).toHaveLength(1);
+      expect(diagnostics[0].severity).toBe(DiagnosticSeverity.Warning);
+    });
+  });
+
+  describe('Semantic tokens', () => {
+    it('should return encoded semantic tokens for an open document', () => {
+      const { server, sent } = createServer();
+      initialize(server);
+      openDocument(server, 'session "Hello"');
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 5,
+        method: 'textDocument/semanticTokens/full',
+        params: { textDocument: { uri: URI } },
+      });
+
+      const response = sent[sent.length - 1] as ResponseMessage;
+      const result = response.result as { data: number[] };
+      expect(result.data.length).toBe(10); // keyword + string, 5 integers each
+    });
+
+    it('should return empty tokens for an unknown document', () => {
+      const { server, sent } = createServer();
+      initialize(server);
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 6,
+        method: 'textDocument/semanticTokens/full',
+        params: { textDocument: { uri: 'file:///missing.prose' } },
+      });
+
+      const response = sent[sent.length - 1] as ResponseMessage;
+      expect(response.result).toEqual({ data: [] });
+    });
+  });
+});
+
+describe('Message framing', () => {
+  it('should decode a framed message', () => {
+    const messages: Message[] = [];
+    const reader = new MessageReader(m => messages.push(m));
+    reader.push(encodeMessage({ jsonrpc: '2.0', id: 1, method: 'initialize' }));
+
+    expect(messages).toEqual([{ jsonrpc: '2.0', id: 1, method: 'initialize' }]);
+  });
+
+  it('should decode messages split across chunks', () => {
+    const messages: Message[] = [];
+    const reader = new MessageReader(m => messages.push(m));
+    const encoded = encodeMessage({ jsonrpc: '2.0', method: 'initialized' });
+
+    reader.push(encoded.slice(0, 10));
+    expect(messages).toHaveLength(0);
+    reader.push(encoded.slice(10));
+    expect(messages).toHaveLength(1);
+  });
+
+  it('should decode multiple messages in one chunk', () => {
+    const messages: Message[] = [];
+    const reader = new MessageReader(m => messages.push(m));
+    reader.push(
+      encodeMessage({ jsonrpc: '2.0', method: 'a' }) +
+      encodeMessage({ jsonrpc: '2.0', method: 'b' })
+    );
+
+    expect(messages).toHaveLength(2);
+  });
+
+  it('should count Content-Length in bytes for non-ASCII content', () => {
+    const messages: Message[] = [];
+    const reader = new MessageReader(m => messages.push(m));
+    reader.push(encodeMessage({ jsonrpc: '2.0', method: 'héllo → wörld' }));
+
+    expect((messages[0] as NotificationMessage).method).toBe('héllo → wörld');
+  });
+
+  it('should report invalid JSON bodies', () => {
+    const errors: Error[] = [];
+    const reader = new MessageReader(() => {}, e => errors.push(e));
+    reader.push('Content-Length: 3\r\n\r\n{x}');
+
+    expect(errors).toHaveLength(1);
+  });
+
+  it('should report bodies that are not JSON objects', () => {
+    const errors: Error[] = [];
+    const reader = new MessageReader(() => {}, e => errors.push(e));
+    reader.push('Content-Length: 4\r\n\r\nnull');
+    reader.push('Content-Length: 1\r\n\r\n7');
+    reader.push('Content-Length: 2\r\n\r\n[]');
+
+    expect(errors).toHaveLength(3);
+    expect(errors.every(e => e instanceof MessageError && e.code === ErrorCodes.InvalidRequest)).toBe(true);
+  });
+
+  it('should reply to a null body and keep serving', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const replies: Message[] = [];
+    const reader = new MessageReader(m => replies.push(m));
+    output.on('data', (chunk: Buffer) => reader.push(chunk));
+    startLanguageServer(input, output);
+
+    input.write('Content-Length: 4\r\n\r\nnull');
+    input.write(encodeMessage({ jsonrpc: '2.0', id: 1, method: 'initialize', params: {} }));
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(replies).toHaveLength(2);
+    expect(replies[0]).toMatchObject({ id: null, error: { code: ErrorCodes.InvalidRequest } });
+    expect(replies[1]).toMatchObject({ id: 1, result: { capabilities: {} } });
+  });
+});
+
+describe('Position helpers', () => {
+  const text = 'line one\nline two\nthree';
+
+  it('should convert positions to offsets', () => {
+    expect(positionToOffset(text, { line: 0, character: 0 })).toBe(0);
+    expect(positionToOffset(text, { line: 1, character: 5 })).toBe(14);
+    expect(positionToOffset(text, { line: 1, character: 99 })).toBe(17);
+  });
+
+  it('should convert offsets to positions', () => {
+    expect(offsetToPosition(text, 14)).toEqual({ line: 1, character: 5 });
+    expect(offsetToPosition(text, text.length)).toEqual({ line: 2, character: 5 });
+  });
+
+  it('should apply incremental changes', () => {
+    const result = applyContentChanges(text, [
+      { range: { start: { line: 1, character: 0 }, end: { line: 1, character: 4 } }, text: 'LINE' },
+    ]);
+    expect(result).toBe('line one\nLINE two\nthree');
+  });
+});
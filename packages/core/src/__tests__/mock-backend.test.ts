@@ -0,0 +1,134 @@
+/**
+ * Unit tests for the mock backend
+ *
+ * Tests running programs against JSON fixtures: session rules, response
+ * sequences, conditions, choices and fixture checking.
+ */
+
+import { parse } from '../parser';
+import {
+  interpret,
+  MockBackend,
+  MockFixture,
+  ExecutionError,
+  FixtureError,
+  loadMockFixture,
+  parseMockFixture,
+  ExecutionResult,
+} from '../interpreter';
+import { lines } from './helpers';
+
+async function run(source: string, fixture: MockFixture): Promise<ExecutionResult & { backend: MockBackend }> {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  const backend = new MockBackend(fixture);
+  const result = await interpret(parseResult.program, { backend, sleep: async () => {} });
+  return { ...result, backend };
+}
+
+const reviewLoop = lines(
+  'agent critic:',
+  '  model: opus',
+  '  prompt: "You review drafts"',
+  '  permissions:',
+  '    read: ["*.md"]',
+  'let draft = session "Write a draft about {topic}"',
+  'loop until **the draft is approved** (max: 5):',
+  '  session: critic',
+  '    prompt: "Review the draft"',
+  '  draft = session "Revise the draft"',
+  'choice **which format fits**:',
+  '  option "post":',
+  '    session "Publish as a post"',
+  '  option "paper":',
+  '    session "Publish as a paper"',
+);
+
+describe('Mock Backend', () => {
+  it('should answer sessions, conditions and choices from a fixture', async () => {
+    const { output, bindings, backend } = await run('let topic = "AI"\n' + reviewLoop, {
+      sessions: [
+        { prompt: 'Write a draft about AI', output: 'Draft 1' },
+        { agent: 'critic', output: 'Needs work' },
+        { prompt: '/^Revise/', responses: [{ output: 'Draft 2' }, { output: 'Draft 3' }] },
+        { prompt: '/^publish as a (\\w+)$/i', output: 'Published' },
+      ],
+      conditions: { 'the draft is approved': [false, false, true] },
+      choices: { 'which format fits': 'paper' },
+    });
+
+    expect(output).toBe('Published');
+    expect(bindings.draft).toBe('Draft 3');
+    expect(backend.sessions.map(s => s.prompt)).toEqual([
+      'Write a draft about AI',
+      'Review the draft',
+      'Revise the draft',
+      'Review the draft',
+      'Revise the draft',
+      'Publish as a paper',
+    ]);
+    expect(backend.sessions[1]).toMatchObject({ model: 'opus', permissions: { read: ['*.md'] } });
+    expect(backend.conditions).toHaveLength(3);
+    expect(backend.choices[0].options).toEqual(['post', 'paper']);
+  });
+
+  it('should fail sessions from error responses and let retries take the next response', async () => {
+    const { output, backend } = await run(lines(
+      'session "Call the API"',
+      '  retry: 2',
+    ), {
+      sessions: [{ prompt: 'Call the API', responses: [{ error: 'rate limited' }, { output: 'data' }] }],
+    });
+
+    expect(output).toBe('data');
+    expect(backend.sessions.map(s => s.previousError)).toEqual([undefined, 'rate limited']);
+  });
+
+  it('should use the default output for unmatched sessions, or fail them', async () => {
+    expect((await run('session "Anything"\n', { defaultOutput: 'ok' })).output).toBe('ok');
+
+    const { output } = await run(lines(
+      'try:',
+      '  session "Unscripted"',
+      'catch as err:',
+      '  session "Recover from {err}"',
+    ), { sessions: [{ prompt: '/^Recover/', output: 'recovered' }] });
+    expect(output).toBe('recovered');
+  });
+
+  it('should fail at the condition that has no fixture result', async () => {
+    const error = await run('if **ready**:\n  session "Go"\n', {}).catch(e => e);
+
+    expect(error).toBeInstanceOf(ExecutionError);
+    expect(error.message).toBe('No fixture result for condition **ready**');
+    expect(error.span.start).toMatchObject({ line: 1, column: 4 });
+  });
+
+  describe('Fixture files', () => {
+    it('should accept a well-formed fixture', () => {
+      const fixture = parseMockFixture('f.json', JSON.stringify({
+        sessions: [{ prompt: '/^Draft/', responses: [{ error: 'busy' }, { output: { title: 'T' } }] }],
+        conditions: { done: true, approved: [false, true] },
+        choices: { approach: ['quick', 'thorough'] },
+      }));
+
+      expect(fixture.sessions).toHaveLength(1);
+    });
+
+    it('should reject malformed fixtures', () => {
+      expect(() => parseMockFixture('f.json', '[]')).toThrow('f.json: Fixture must be a JSON object');
+      expect(() => parseMockFixture('f.json', '{"sessions": [{"prompt": 3}]}'))
+        .toThrow('sessions[0]: "prompt" must be a string');
+      expect(() => parseMockFixture('f.json', '{"sessions": [{"prompt": "/(/"}]}'))
+        .toThrow('sessions[0]: invalid pattern /(/');
+      expect(() => parseMockFixture('f.json', '{"sessions": [{"responses": [{}]}]}'))
+        .toThrow('each response needs an "output" or an "error" message');
+      expect(() => parseMockFixture('f.json', '{"conditions": {"done": "yes"}}')).toThrow(FixtureError);
+      expect(() => parseMockFixture('f.json', '{"choices": {"pick": []}}')).toThrow(FixtureError);
+    });
+
+    it('should report fixture files that cannot be read', () => {
+      expect(() => loadMockFixture('/nonexistent/fixture.json')).toThrow(FixtureError);
+    });
+  });
+});
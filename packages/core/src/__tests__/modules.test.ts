@@ -0,0 +1,270 @@
+/**
+ * Unit tests for modules
+ *
+ * Tests `use` statements, linking the agents and blocks of other files into
+ * scope with and without a namespace, import cycles and other problems
+ * reported in the file they're in, and running a linked program.
+ */
+
+import { resolve } from 'path';
+import { parse, tokenize, UseStatementNode } from '../parser';
+import { TokenType } from '../parser/tokens';
+import { validate, DiagnosticCodes, ValidationError } from '../validator';
+import { linkProgram, LinkResult } from '../modules';
+import { formatSource } from '../formatter';
+import { interpret, MockBackend } from '../interpreter';
+import { lines } from './helpers';
+
+const review = lines(
+  'agent critic:',
+  '  model: opus',
+  '  prompt: "You review drafts"',
+  '',
+  'block critique(text):',
+  '  session: critic',
+  '    prompt: "Critique the draft"',
+  '    context: text',
+);
+
+/**
+ * Link a program against in-memory files, relative to /project
+ */
+function link(source: string, files: Record<string, string>): LinkResult {
+  const readFile = (path: string) => files[path.replace(resolve('/project') + '/', '')];
+  return linkProgram('/project/main.prose', source, { readFile });
+}
+
+function diagnosticsOf(result: LinkResult, file: string): ValidationError[] {
+  return result.modules.find(module => module.path === resolve('/project', file))!.diagnostics;
+}
+
+describe('Modules', () => {
+  describe('Parsing', () => {
+    it('should parse use statements with and without a namespace', () => {
+      const { program, errors } = parse(lines(
+        'use "./lib/review.prose" as review',
+        'use "./lib/research.prose"',
+      ));
+
+      expect(errors).toHaveLength(0);
+      expect(program.statements.map(statement => {
+        const use = statement as UseStatementNode;
+        return [use.type, use.source.value, use.alias?.name ?? null];
+      })).toEqual([
+        ['UseStatement', './lib/review.prose', 'review'],
+        ['UseStatement', './lib/research.prose', null],
+      ]);
+    });
+
+    it('should read namespaced names as one identifier', () => {
+      const tokens = tokenize('do review.critique(draft)').tokens;
+
+      expect(tokens.map(token => [token.type, token.value]).slice(0, 3)).toEqual([
+        [TokenType.DO, 'do'],
+        [TokenType.IDENTIFIER, 'review.critique'],
+        [TokenType.LPAREN, '('],
+      ]);
+    });
+
+    it('should keep use statements when formatting', () => {
+      const source = lines('use "./lib/review.prose" as review', '', 'do review.critique("x")');
+      expect(formatSource(source).code).toBe(source);
+    });
+  });
+
+  describe('Linking', () => {
+    it('should bring in agents and blocks under their own names', () => {
+      const result = link(lines('use "./lib/review.prose"', 'do critique("draft")'), { 'lib/review.prose': review });
+      const [main] = result.modules;
+
+      expect(main.definitions.map(definition => definition.name.name)).toEqual(['critic', 'critique']);
+      expect(main.diagnostics).toEqual([]);
+      expect(validate(main.program, undefined, { definitions: main.definitions }).errors).toEqual([]);
+    });
+
+    it('should rename a namespaced module and its references to itself', () => {
+      const result = link(lines('use "./lib/review.prose" as review'), { 'lib/review.prose': review });
+      const [critic, critique] = result.modules[0].definitions;
+
+      expect(critic.name.name).toBe('review.critic');
+      expect(critique.name.name).toBe('review.critique');
+      expect(critique.body[0]).toMatchObject({ type: 'SessionStatement', agent: { name: 'review.critic' } });
+      // The module's own program is untouched
+      expect(result.modules[1].program.statements[0]).toMatchObject({ name: { name: 'critic' } });
+    });
+
+    it('should pass on what a module gets from the modules it uses', () => {
+      const result = link(lines('use "./lib/research.prose" as research'), {
+        'lib/research.prose': lines(
+          'use "./review.prose" as review',
+          'block research(topic):',
+          '  let notes = session "Research {topic}"',
+          '  do review.critique(notes)',
+        ),
+        'lib/review.prose': review,
+      });
+
+      expect(result.modules[0].definitions.map(definition => definition.name.name)).toEqual([
+        'research.research',
+        'research.review.critic',
+        'research.review.critique',
+      ]);
+      expect(result.modules.map(module => module.path)).toEqual(
+        ['main.prose', 'lib/research.prose', 'lib/review.prose'].map(file => resolve('/project', file)));
+    });
+
+    it('should bring in a module reached along two paths once', () => {
+      const result = link(lines('use "./a.prose"', 'use "./b.prose"', 'do c.critique("draft")'), {
+        'a.prose': lines('use "./common.prose" as c'),
+        'b.prose': lines('use "./common.prose" as c'),
+        'common.prose': review,
+      });
+      const [main] = result.modules;
+
+      expect(main.diagnostics).toEqual([]);
+      expect(main.definitions.map(definition => definition.name.name)).toEqual(['c.critic', 'c.critique']);
+      expect(validate(main.program, undefined, { definitions: main.definitions }).errors).toEqual([]);
+    });
+
+    it('should put the definitions in front of the program it returns', () => {
+      const result = link(lines('use "./lib/review.prose" as review', 'session "Go"'), { 'lib/review.prose': review });
+
+      expect(result.program.statements.map(statement => statement.type)).toEqual([
+        'AgentDefinition',
+        'BlockDefinition',
+        'UseStatement',
+        'SessionStatement',
+      ]);
+    });
+  });
+
+  describe('Problems', () => {
+    it('should report a missing module at the use statement', () => {
+      const result = link(lines('', 'use "./lib/missing.prose"'), {});
+
+      expect(diagnosticsOf(result, 'main.prose')).toMatchObject([{
+        code: DiagnosticCodes.ModuleNotFound,
+        message: 'Module not found: "./lib/missing.prose"',
+        span: { start: { line: 2, column: 5 } },
+      }]);
+    });
+
+    it('should report an import cycle in the file that closes it', () => {
+      const result = link(lines('use "./a.prose"'), {
+        'a.prose': lines('use "./b.prose"'),
+        'b.prose': lines('use "./a.prose"'),
+      });
+
+      expect(diagnosticsOf(result, 'main.prose')).toEqual([]);
+      expect(diagnosticsOf(result, 'a.prose')).toEqual([]);
+      expect(diagnosticsOf(result, 'b.prose')).toMatchObject([{
+        code: DiagnosticCodes.ImportCycle,
+        message: 'Import cycle: a.prose -> b.prose -> a.prose',
+        span: { start: { line: 1 } },
+      }]);
+    });
+
+    it('should report syntax errors in the module, and that it has them where it is used', () => {
+      const result = link(lines('use "./lib/broken.prose"'), { 'lib/broken.prose': lines('block broken(:', '  session "B"') });
+
+      expect(diagnosticsOf(result, 'main.prose')).toMatchObject([{ code: DiagnosticCodes.ModuleHasErrors }]);
+      expect(diagnosticsOf(result, 'lib/broken.prose')[0]).toMatchObject({
+        code: DiagnosticCodes.ParseError,
+        span: { start: { line: 1 } },
+      });
+    });
+
+    it('should report names that clash with the program or another module', () => {
+      const result = link(lines(
+        'use "./lib/review.prose"',
+        'use "./lib/other.prose"',
+        'agent critic:',
+        '  model: sonnet',
+        '  prompt: "x"',
+      ), {
+        'lib/review.prose': review,
+        'lib/other.prose': lines('block critique(text):', '  session "Again"'),
+      });
+
+      expect(diagnosticsOf(result, 'main.prose')).toMatchObject([
+        {
+          code: DiagnosticCodes.ModuleNameConflict,
+          message: '"critic" from "./lib/review.prose" is already defined',
+          span: { start: { line: 1 } },
+          related: [{ message: 'Defined here', span: { start: { line: 3 } } }],
+        },
+        {
+          code: DiagnosticCodes.ModuleNameConflict,
+          message: '"critique" from "./lib/other.prose" is already defined',
+          span: { start: { line: 2 } },
+        },
+      ]);
+    });
+
+    it('should report different definitions under the same namespaced name', () => {
+      const result = link(lines('use "./a.prose"', 'use "./b.prose"'), {
+        'a.prose': lines('use "./review.prose" as c'),
+        'b.prose': lines('use "./other.prose" as c'),
+        'review.prose': review,
+        'other.prose': lines('block critique(text):', '  session "Again"'),
+      });
+
+      expect(diagnosticsOf(result, 'main.prose')).toMatchObject([{
+        code: DiagnosticCodes.ModuleNameConflict,
+        message: '"c.critique" from "./b.prose" is already defined',
+      }]);
+    });
+
+    it('should warn about statements in a module that will not run', () => {
+      const result = link(lines('use "./lib/review.prose"'), { 'lib/review.prose': review + 'session "Stray"\n' });
+
+      expect(diagnosticsOf(result, 'lib/review.prose')).toMatchObject([{
+        code: DiagnosticCodes.IgnoredModuleStatement,
+        severity: 'warning',
+        span: { start: { line: 9 } },
+      }]);
+    });
+  });
+
+  describe('Validation', () => {
+    it('should not know names from modules without their definitions', () => {
+      const source = lines('use "./lib/review.prose" as review', 'do review.critique("x")');
+      const { errors } = validate(parse(source).program, source);
+
+      expect(errors.map(error => error.code)).toEqual([DiagnosticCodes.UndefinedBlock]);
+    });
+
+    it('should check where use statements are and what they name', () => {
+      const source = lines(
+        'use "lib/review.prose" as review',
+        'use "./lib/other.prose" as review',
+        'session "Go"',
+        'use "./lib/late.prose"',
+      );
+      const { errors } = validate(parse(source).program, source);
+
+      expect(errors.map(error => [error.code, error.span.start.line])).toEqual([
+        [DiagnosticCodes.UnknownImportSource, 1],
+        [DiagnosticCodes.DuplicateImport, 2],
+        [DiagnosticCodes.ImportNotAtTop, 4],
+      ]);
+      expect(errors[2].fixes![0].title).toBe('Move use statement to the top of the file');
+    });
+  });
+
+  it('should run blocks from a module with its agents', async () => {
+    const result = link(lines(
+      'use "./lib/review.prose" as review',
+      'let draft = session "Write a draft"',
+      'do review.critique(draft)',
+    ), { 'lib/review.prose': review });
+    const backend = new MockBackend({ defaultOutput: 'ok' });
+
+    await interpret(result.program, { backend });
+
+    expect(backend.sessions.map(session => [session.prompt, session.model])).toEqual([
+      ['Write a draft', null],
+      ['Critique the draft', 'opus'],
+    ]);
+  });
+});
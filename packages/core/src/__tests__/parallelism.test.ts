@@ -0,0 +1,218 @@
+/**
+ * Unit tests for parallelism analysis
+ *
+ * Tests the critical path, maximum concurrency, runs of sessions that could
+ * run in parallel, and the validator hint that offers to wrap them.
+ */
+
+import { parse } from '../parser';
+import { validate, DiagnosticCodes, ValidationError } from '../validator';
+import { applyEdits, applyFixes } from '../refactor';
+import { analyzeParallelism, formatParallelism, ParallelismAnalysis } from '../planner';
+import { lines } from './helpers';
+
+function analyze(source: string): ParallelismAnalysis {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  return analyzeParallelism(parseResult.program);
+}
+
+function hints(source: string): ValidationError[] {
+  return validate(parse(source).program, source).warnings
+    .filter(warning => warning.code === DiagnosticCodes.ParallelizableSessions);
+}
+
+const independent = lines(
+  'let topic = session "Pick a topic"',
+  'let history = session "Research the history"',
+  '  context: topic',
+  'let market = session "Research the market"',
+  '  context: topic',
+  'session "Write the report"',
+  '  context: [history, market]',
+);
+
+describe('Parallelism Analysis', () => {
+  describe('Critical path', () => {
+    it('should follow the longest chain of dependent sessions', () => {
+      const analysis = analyze(lines(
+        'let a = session "A"',
+        'let b = session "B"',
+        '  context: []',
+        'let c = session "C"',
+        '  context: a',
+        'session "D"',
+        '  context: [b, c]',
+      ));
+
+      expect(analysis.criticalPath.map(node => node.label)).toEqual(['session "A"', 'session "C"', 'session "D"']);
+    });
+
+    it('should pass through parallel joins', () => {
+      const analysis = analyze(lines(
+        'parallel:',
+        '  a = session "A"',
+        '  b = session "B" -> session "B2"',
+        'session "Merge"',
+      ));
+
+      expect(analysis.criticalPath.map(node => node.label)).toEqual(['session "B"', 'session "B2"', 'session "Merge"']);
+    });
+  });
+
+  describe('Concurrency', () => {
+    it('should add up parallel branches and known list sizes', () => {
+      expect(analyze(lines(
+        'session "Plan"',
+        'parallel:',
+        '  session "A"',
+        '  parallel:',
+        '    session "B"',
+        '    session "C"',
+      )).maxConcurrency).toBe(3);
+
+      expect(analyze(lines(
+        'let topics = ["a", "b", "c", "d"]',
+        'parallel for topic in topics:',
+        '  session "Research {topic}"',
+        'let drafts = topics | pmap:',
+        '  parallel:',
+        '    session "Draft"',
+        '    session "Outline"',
+      )).maxConcurrency).toBe(8);
+    });
+
+    it('should be unbounded over lists only known at run time', () => {
+      const analysis = analyze(lines(
+        'let topics = session "List topics"',
+        'parallel for topic in topics:',
+        '  session "Research {topic}"',
+      ));
+
+      expect(analysis.maxConcurrency).toBeNull();
+    });
+  });
+
+  describe('Parallelizable sessions', () => {
+    it('should find sessions in a row that do not use each other', () => {
+      const [run] = analyze(independent).parallelizable;
+
+      expect(run.statements.map(span => span.start.line)).toEqual([2, 4]);
+      expect(run.span.start.line).toBe(2);
+    });
+
+    it('should split runs where a session needs an earlier one', () => {
+      const analysis = analyze(lines(
+        'let a = session "A"',
+        '  context: []',
+        'let b = session "B"',
+        '  context: []',
+        'let c = session "C"',
+        '  context: a',
+        'let d = session "D"',
+        '  context: []',
+        'session "Done"',
+        '  context: [b, c, d]',
+      ));
+
+      expect(analysis.parallelizable.map(run => run.statements.map(span => span.start.line))).toEqual([[1, 3], [5, 7]]);
+    });
+
+    it('should leave out a session whose output the next statement uses implicitly', () => {
+      expect(analyze(lines(
+        'let a = session "A"',
+        '  context: []',
+        'let b = session "B"',
+        '  context: []',
+        'session "Summarize"',
+      )).parallelizable).toEqual([]);
+
+      // Sessions without context need the one before them
+      expect(analyze(lines(
+        'session "A"',
+        'session "B"',
+        'session "C"',
+      )).parallelizable).toEqual([]);
+    });
+
+    it('should not look inside parallel blocks', () => {
+      const analysis = analyze(lines(
+        'parallel:',
+        '  a = session "A"',
+        '    context: []',
+        '  b = session "B"',
+        '    context: []',
+        'session "Merge"',
+        '  context: [a, b]',
+      ));
+
+      expect(analysis.parallelizable).toEqual([]);
+    });
+  });
+
+  describe('Validator hint', () => {
+    it('should report runs as info with a fix that wraps them', () => {
+      const [hint] = hints(independent);
+
+      expect(hint).toMatchObject({
+        severity: 'info',
+        message: "2 sessions in a row don't use each other's output and could run in parallel",
+        span: { start: { line: 2 } },
+      });
+      expect(hint.fixes![0].title).toBe('Wrap in a parallel block');
+      expect(applyEdits(independent, hint.fixes![0].edits)).toBe(lines(
+        'let topic = session "Pick a topic"',
+        'parallel:',
+        '  let history = session "Research the history"',
+        '    context: topic',
+        '  let market = session "Research the market"',
+        '    context: topic',
+        'session "Write the report"',
+        '  context: [history, market]',
+      ));
+    });
+
+    it('should keep the indentation of nested bodies', () => {
+      const source = lines(
+        'repeat 2:',
+        '  let a = session "A"',
+        '    context: []',
+        '',
+        '  # Independent of a',
+        '  let b = session "B"',
+        '    context: []',
+        '  session "Merge"',
+        '    context: [a, b]',
+      );
+
+      expect(applyEdits(source, hints(source)[0].fixes![0].edits)).toBe(lines(
+        'repeat 2:',
+        '  parallel:',
+        '    let a = session "A"',
+        '      context: []',
+        '',
+        '    # Independent of a',
+        '    let b = session "B"',
+        '      context: []',
+        '  session "Merge"',
+        '    context: [a, b]',
+      ));
+    });
+
+    it('should not apply the fix in validate --fix, and can be turned off', () => {
+      expect(applyFixes(independent).source).toBe(independent);
+
+      const result = validate(parse(independent).program, independent, { config: { rules: { 'parallelizable-sessions': 'off' } } });
+      expect(result.warnings).toEqual([]);
+    });
+  });
+
+  it('should render the analysis as text', () => {
+    expect(formatParallelism(analyze(independent))).toBe(lines(
+      'Parallelism:',
+      '  Critical path:    3 sessions (lines 1, 2, 6)',
+      '  Max concurrency:  1 session',
+      '  Could run in parallel: lines 2-5 (2 sessions)',
+    ));
+  });
+});
@@ -0,0 +1,230 @@
+/**
+ * Unit tests for the execution planner
+ *
+ * Tests best and worst case session counts, agent and model usage,
+ * parallel steps and discretion points.
+ */
+
+import { parse } from '../parser';
+import { planProgram, formatPlan, formatSessionCount, ExecutionPlan } from '../planner';
+import { lines } from './helpers';
+
+function planOf(source: string): ExecutionPlan {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  return planProgram(parseResult.program);
+}
+
+describe('Planner', () => {
+  describe('Session counts', () => {
+    it('should count retries as extra attempts', () => {
+      const plan = planOf(lines(
+        'session "Call the API"',
+        '  retry: 2',
+        'session "Summarize"',
+      ));
+
+      expect(plan.sessions).toEqual({ min: 2, max: 4 });
+    });
+
+    it('should multiply repeat counts and literal lists', () => {
+      const plan = planOf(lines(
+        'let topics = ["a", "b", "c"]',
+        'repeat 2:',
+        '  for topic in topics:',
+        '    session "Research {topic}"',
+        'parallel for x in ["one", "two"]:',
+        '  session "Check {x}"',
+      ));
+
+      expect(plan.sessions).toEqual({ min: 8, max: 8 });
+      expect(plan.steps.map(step => step.sessions)).toEqual([{ min: 6, max: 6 }, { min: 2, max: 2 }]);
+    });
+
+    it('should leave counts it cannot know unbounded', () => {
+      const plan = planOf(lines(
+        'let topics = session "List topics"',
+        'for topic in topics:',
+        '  session "Research {topic}"',
+        'loop until **done**:',
+        '  session "Work"',
+      ));
+
+      expect(plan.sessions).toEqual({ min: 1, max: null });
+      expect(formatSessionCount(plan.sessions)).toBe('1+');
+    });
+
+    it('should run conditional loops up to their max', () => {
+      const plan = planOf(lines(
+        'loop until **the draft is approved** (max: 3):',
+        '  session "Revise"',
+        'loop (max: 2):',
+        '  session "Polish"',
+      ));
+
+      expect(plan.steps.map(step => step.sessions)).toEqual([{ min: 0, max: 3 }, { min: 2, max: 2 }]);
+    });
+
+    it('should count one branch of if and choice', () => {
+      const plan = planOf(lines(
+        'if **the topic is broad**:',
+        '  session "Split it"',
+        '  session "Plan parts"',
+        'choice **which format**:',
+        '  option "post":',
+        '    session "Post"',
+        '  option "paper":',
+        '    repeat 3:',
+        '      session "Section"',
+      ));
+
+      expect(plan.steps.map(step => step.sessions)).toEqual([{ min: 0, max: 2 }, { min: 1, max: 3 }]);
+    });
+
+    it('should count catch blocks only in the worst case', () => {
+      const plan = planOf(lines(
+        'try:',
+        '  session "Risky"',
+        'catch:',
+        '  session "Recover"',
+        'finally:',
+        '  session "Clean up"',
+      ));
+
+      expect(plan.sessions).toEqual({ min: 2, max: 3 });
+    });
+
+    it('should need only the fastest branches of first and any', () => {
+      const plan = planOf(lines(
+        'parallel ("first"):',
+        '  session "A"',
+        '  session "B"',
+        'parallel ("any", count: 2):',
+        '  session "C"',
+        '  session "D"',
+        '  session "E"',
+      ));
+
+      expect(plan.steps.map(step => step.sessions)).toEqual([{ min: 1, max: 2 }, { min: 2, max: 3 }]);
+    });
+
+    it('should expand block calls and pipes', () => {
+      const plan = planOf(lines(
+        'block review(topic):',
+        '  session "Review {topic}"',
+        'let reviews = ["a", "b", "c"] | map:',
+        '  do review(item)',
+        'let summary = reviews | reduce(acc, item):',
+        '  session "Merge {acc} {item}"',
+      ));
+
+      expect(plan.sessions).toEqual({ min: 3, max: null });
+      expect(plan.steps[0].label).toBe('let reviews = [3 items] | map');
+      expect(plan.steps[0].children[0].label).toBe('do review');
+    });
+
+    it('should stop at recursive blocks', () => {
+      const plan = planOf(lines(
+        'block dig(depth):',
+        '  session "Dig {depth}"',
+        '  do dig(depth)',
+        'do dig(1)',
+      ));
+
+      expect(plan.sessions).toEqual({ min: 1, max: null });
+    });
+  });
+
+  describe('Agents and models', () => {
+    it('should count sessions per agent and model', () => {
+      const plan = planOf(lines(
+        'agent researcher:',
+        '  model: sonnet',
+        '  prompt: "You research"',
+        'agent writer:',
+        '  model: opus',
+        '  prompt: "You write"',
+        'session: researcher',
+        '  prompt: "Find sources"',
+        '  retry: 1',
+        'session: researcher',
+        '  prompt: "Quick check"',
+        '  model: haiku',
+        'session: writer',
+        '  prompt: "Write it up"',
+        'session "Proofread"',
+      ));
+
+      expect(plan.agents).toEqual([
+        { name: 'researcher', model: 'sonnet', sessions: { min: 2, max: 3 } },
+        { name: 'writer', model: 'opus', sessions: { min: 1, max: 1 } },
+      ]);
+      expect(plan.models).toEqual([
+        { model: 'sonnet', sessions: { min: 1, max: 2 } },
+        { model: 'haiku', sessions: { min: 1, max: 1 } },
+        { model: 'opus', sessions: { min: 1, max: 1 } },
+        { model: 'default', sessions: { min: 1, max: 1 } },
+      ]);
+    });
+  });
+
+  describe('Parallelism and discretion', () => {
+    it('should mark parallel steps and the steps discretion decides', () => {
+      const plan = planOf(lines(
+        'parallel:',
+        '  a = session "Research"',
+        '  b = session "Survey"',
+        'loop until **the answer is complete** (max: 2):',
+        '  session "Refine"',
+      ));
+
+      expect(plan.steps[0]).toMatchObject({ kind: 'parallel', parallel: true, discretion: false });
+      expect(plan.steps[0].children.map(child => child.label)).toEqual(['a = session "Research"', 'b = session "Survey"']);
+      expect(plan.steps[1]).toMatchObject({ kind: 'loop', discretion: true });
+      expect(plan.discretion).toEqual([expect.objectContaining({
+        condition: 'the answer is complete',
+        decides: 'when the loop at line 4 stops',
+      })]);
+    });
+  });
+
+  describe('formatPlan', () => {
+    it('should render the plan as text', () => {
+      const text = formatPlan(planOf(lines(
+        'agent researcher:',
+        '  model: sonnet',
+        '  prompt: "You research"',
+        'parallel:',
+        '  session: researcher',
+        '    prompt: "Find sources"',
+        '  session "Search the web"',
+        'if **more is needed**:',
+        '  session "Dig deeper"',
+      )), 'research.prose');
+
+      expect(text).toBe(lines(
+        'Execution plan for research.prose',
+        '',
+        'Sessions: 2 in the best case, 3 in the worst',
+        '',
+        'Models:',
+        '  sonnet       1 session',
+        '  default      1-2 sessions',
+        '',
+        'Agents:',
+        '  researcher (sonnet)      1 session',
+        '',
+        'Steps:',
+        '  parallel  [2 sessions, parallel]  (line 4)',
+        '    | session: researcher "Find sources"  [1 session]  (line 5)',
+        '    | session "Search the web"  [1 session]  (line 7)',
+        '  if  [0-1 sessions, discretion]  (line 8)',
+        '    if **more is needed**  [1 session]  (line 8)',
+        '      session "Dig deeper"  [1 session]  (line 9)',
+        '',
+        'Discretion:',
+        '  line 8: **more is needed** decides whether the if branch at line 8 runs',
+      ));
+    });
+  });
+});
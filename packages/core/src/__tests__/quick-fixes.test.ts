@@ -0,0 +1,230 @@
+/**
+ * Unit tests for diagnostic codes and quick fixes
+ *
+ * Tests the fixes the validator attaches to fixable diagnostics, applying
+ * every fix at once (validate --fix) and LSP code actions.
+ */
+
+import { parse } from '../parser';
+import { validate, DiagnosticCodes, ValidationError } from '../validator';
+import { applyEdits, applyFixes } from '../refactor';
+import { LanguageServer, Message, ResponseMessage } from '../lsp';
+import { lines } from './helpers';
+
+function diagnostics(source: string): ValidationError[] {
+  const result = validate(parse(source).program, source);
+  return [...result.errors, ...result.warnings];
+}
+
+function find(source: string, code: string): ValidationError {
+  const diagnostic = diagnostics(source).find(d => d.code === code);
+  expect(diagnostic).toBeDefined();
+  return diagnostic!;
+}
+
+function applyFix(source: string, code: string, index = 0): string {
+  return applyEdits(source, find(source, code).fixes![index].edits);
+}
+
+describe('Quick Fixes', () => {
+  describe('Diagnostic codes', () => {
+    it('should give every diagnostic a stable code', () => {
+      const source = lines('session: ghost', 'loop:', '  session "Again"');
+
+      expect(diagnostics(source).map(d => d.code)).toEqual([
+        DiagnosticCodes.UndefinedAgent,
+        DiagnosticCodes.UnboundedLoop,
+      ]);
+      expect(DiagnosticCodes.UndefinedAgent).toBe('OP1014');
+    });
+
+    it('should only attach fixes when validating with the source', () => {
+      const source = lines('session: ghost');
+      const [error] = validate(parse(source).program).errors;
+
+      expect(error.code).toBe(DiagnosticCodes.UndefinedAgent);
+      expect(error.fixes).toBeUndefined();
+    });
+  });
+
+  describe('Fixes', () => {
+    it('should correct a misspelled agent or define the missing one', () => {
+      const source = lines(
+        'agent writer:',
+        '  model: opus',
+        '  prompt: "Write"',
+        '',
+        '# Draft',
+        'session: writr',
+      );
+      const error = find(source, DiagnosticCodes.UndefinedAgent);
+
+      expect(error.fixes!.map(fix => fix.title)).toEqual(['Change to "writer"', 'Define agent "writr"']);
+      expect(applyFix(source, DiagnosticCodes.UndefinedAgent)).toContain('session: writer\n');
+      expect(applyFix(source, DiagnosticCodes.UndefinedAgent, 1)).toBe(lines(
+        'agent writer:',
+        '  model: opus',
+        '  prompt: "Write"',
+        '',
+        'agent writr:',
+        '  model: sonnet',
+        '  prompt: "You are writr"',
+        '',
+        '# Draft',
+        'session: writr',
+      ));
+    });
+
+    it('should offer every valid model, closest first', () => {
+      const source = lines('session "Go"', '  model: opuss');
+
+      expect(find(source, DiagnosticCodes.InvalidModel).fixes!.map(fix => fix.title))
+        .toEqual(['Change to "opus"', 'Change to "haiku"', 'Change to "sonnet"']);
+      expect(applyFix(lines('session "Go"', '  model: "haiku"'), DiagnosticCodes.InvalidModel))
+        .toBe(lines('session "Go"', '  model: haiku'));
+    });
+
+    it('should move a misplaced import after the leading imports', () => {
+      const source = lines(
+        'import "a" from "github:x/a"',
+        'session "Go"',
+        'import "b" from "github:x/b"',
+      );
+
+      expect(applyFix(source, DiagnosticCodes.ImportNotAtTop)).toBe(lines(
+        'import "a" from "github:x/a"',
+        'import "b" from "github:x/b"',
+        'session "Go"',
+      ));
+    });
+
+    it('should correct misspelled properties that are not already set', () => {
+      const source = lines('session "Go"', '  modle: opus', '  retyr: 2');
+
+      expect(applyFixes(source).source).toBe(lines('session "Go"', '  model: opus', '  retry: 2'));
+      expect(find(lines('session "Go"', '  model: opus', '  modle: haiku'), DiagnosticCodes.UnknownProperty).fixes)
+        .toBeUndefined();
+    });
+
+    it('should add a limit to an unbounded loop', () => {
+      const source = lines('loop as i:', '  session "Step {i}"');
+
+      expect(applyFix(source, DiagnosticCodes.UnboundedLoop)).toBe(lines('loop (max: 10) as i:', '  session "Step {i}"'));
+    });
+
+    it('should remove a duplicate property', () => {
+      const source = lines('session "Go"', '  model: opus', '  model: haiku  # faster', '  retry: 2');
+
+      expect(applyFix(source, DiagnosticCodes.DuplicateProperty)).toBe(lines('session "Go"', '  model: opus', '  retry: 2'));
+    });
+  });
+
+  describe('Fix all', () => {
+    it('should apply the preferred fix of every diagnostic', () => {
+      const source = lines(
+        'agent writer:',
+        '  model: sonet',
+        '  prompt: "Write"',
+        'session: writr',
+        'loop:',
+        '  session: writer',
+      );
+      const result = applyFixes(source);
+
+      expect(result.fixed.map(d => d.code)).toEqual([
+        DiagnosticCodes.InvalidModel,
+        DiagnosticCodes.UndefinedAgent,
+        DiagnosticCodes.UnboundedLoop,
+      ]);
+      expect(result.source).toBe(lines(
+        'agent writer:',
+        '  model: sonnet',
+        '  prompt: "Write"',
+        'session: writer',
+        'loop (max: 10):',
+        '  session: writer',
+      ));
+    });
+
+    it('should close the gap a moved import leaves', () => {
+      const source = lines(
+        'agent writer:',
+        '  model: sonnet',
+        '  prompt: "You write"',
+        '  skills: ["web"]',
+        '',
+        'session: writer',
+        '  prompt: "Draft"',
+        '',
+        'import "web" from "github:example/web"',
+        '',
+        'loop (max: 10):',
+        '  session "Again"',
+      );
+      const result = applyFixes(source);
+
+      expect(result.fixed.map(d => d.code)).toEqual([DiagnosticCodes.ImportNotAtTop]);
+      expect(result.source).toBe(lines(
+        'import "web" from "github:example/web"',
+        'agent writer:',
+        '  model: sonnet',
+        '  prompt: "You write"',
+        '  skills: ["web"]',
+        '',
+        'session: writer',
+        '  prompt: "Draft"',
+        '',
+        'loop (max: 10):',
+        '  session "Again"',
+      ));
+    });
+
+    it('should leave sources with parse errors alone', () => {
+      const source = 'session: writr\nloop (max:\n';
+
+      expect(applyFixes(source)).toEqual({ source, fixed: [] });
+    });
+  });
+
+  describe('LSP code actions', () => {
+    const uri = 'file:///test.prose';
+
+    it('should offer fixes for diagnostics in the requested range', () => {
+      const sent: Message[] = [];
+      const server = new LanguageServer({ send: message => sent.push(message) });
+      server.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+      server.handleMessage({
+        jsonrpc: '2.0',
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri, languageId: 'openprose', version: 1, text: 'session "Go"\n  model: opuss\n' } },
+      });
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'textDocument/codeAction',
+        params: {
+          textDocument: { uri },
+          range: { start: { line: 1, character: 10 }, end: { line: 1, character: 10 } },
+          context: { diagnostics: [] },
+        },
+      });
+
+      const init = (sent[0] as ResponseMessage).result as { capabilities: Record<string, any> };
+      expect(init.capabilities.codeActionProvider).toEqual({ codeActionKinds: ['quickfix'] });
+
+      const response = sent.find(m => 'id' in m && m.id === 1) as ResponseMessage;
+      const actions = response.result as any[];
+      expect(actions.map(action => action.title)).toEqual(['Change to "opus"', 'Change to "haiku"', 'Change to "sonnet"']);
+      expect(actions[0]).toMatchObject({
+        kind: 'quickfix',
+        isPreferred: true,
+        diagnostics: [{ code: 'OP4012' }],
+        edit: {
+          changes: {
+            [uri]: [{ range: { start: { line: 1, character: 9 }, end: { line: 1, character: 14 } }, newText: 'opus' }],
+          },
+        },
+      });
+    });
+  });
+});
@@ -0,0 +1,307 @@
+/**
+ * Unit tests for refactorings
+ *
+ * Tests rename (with the validator's shadowing rules), extract block (with
+ * inferred parameters), inline block (with argument substitution) and LSP
+ * rename.
+ */
+
+import {
+  applyEdits,
+  extractBlock,
+  inlineBlock,
+  prepareRename,
+  renameSymbol,
+  RefactorResult,
+} from '../refactor';
+import { LanguageServer, Message, ResponseMessage } from '../lsp';
+import { lines } from './helpers';
+
+function apply(source: string, result: RefactorResult): string {
+  expect(result.error).toBeNull();
+  return applyEdits(source, result.edits);
+}
+
+describe('Refactoring', () => {
+  describe('Rename', () => {
+    it('should rename an agent at its definition and every use', () => {
+      const source = lines(
+        'agent writer:',
+        '  model: opus',
+        'session: writer',
+        '  prompt: "Draft"',
+        'let x = session: writer',
+        '  prompt: "Edit"',
+      );
+
+      expect(apply(source, renameSymbol(source, { line: 3, column: 11 }, 'author'))).toBe(lines(
+        'agent author:',
+        '  model: opus',
+        'session: author',
+        '  prompt: "Draft"',
+        'let x = session: author',
+        '  prompt: "Edit"',
+      ));
+    });
+
+    it('should rename a variable in interpolations but not a shadowing variable', () => {
+      const source = lines(
+        'let draft = session "Draft"',
+        'session "Review {draft}"',
+        'block polish(draft):',
+        '  session "Polish {draft}"',
+        'do polish(draft)',
+      );
+
+      expect(apply(source, renameSymbol(source, { line: 1, column: 5 }, 'text'))).toBe(lines(
+        'let text = session "Draft"',
+        'session "Review {text}"',
+        'block polish(draft):',
+        '  session "Polish {draft}"',
+        'do polish(text)',
+      ));
+    });
+
+    it('should refuse a rename that changes what a reference resolves to', () => {
+      const source = lines(
+        'let topic = "AI"',
+        'block review(subject):',
+        '  session "Review {subject} in {topic}"',
+      );
+
+      expect(renameSymbol(source, { line: 2, column: 14 }, 'topic').error)
+        .toBe('Cannot rename: a reference to "topic" would resolve to a different declaration');
+    });
+
+    it('should refuse names that clash with definitions or are not valid', () => {
+      const source = lines(
+        'agent writer:',
+        '  model: opus',
+        'block review:',
+        '  session "Review"',
+      );
+
+      expect(renameSymbol(source, { line: 3, column: 8 }, 'writer').error)
+        .toBe('Cannot rename: agent "writer" already exists');
+      expect(renameSymbol(source, { line: 3, column: 8 }, 'session').error)
+        .toBe('"session" is not a valid name');
+      expect(renameSymbol(source, { line: 4, column: 4 }, 'x').error)
+        .toBe('No agent, block or variable to rename at this position');
+    });
+
+    it('should refuse to rename the implicit pipe item', () => {
+      const source = lines('let xs = ["a"]', 'let ys = xs | map:', '  session "Use {item}"');
+
+      expect(prepareRename(source, { line: 3, column: 18 })).toBeNull();
+      expect(renameSymbol(source, { line: 3, column: 18 }, 'entry').error)
+        .toBe('Cannot rename the implicit "item" variable');
+    });
+  });
+
+  describe('Extract block', () => {
+    it('should extract statements with parameters inferred from free variables', () => {
+      const source = lines(
+        'let topic = "AI"',
+        'for article in ["a", "b"]:',
+        '  let notes = session "Read {article} about {topic}"',
+        '  # Summarize',
+        '  session "Summarize {notes}"',
+        'session "Done"',
+      );
+      const result = extractBlock(source, { start: { line: 3, column: 1 }, end: { line: 6, column: 1 } }, 'digest');
+
+      expect(apply(source, result)).toBe(lines(
+        'let topic = "AI"',
+        '',
+        'block digest(article):',
+        '  let notes = session "Read {article} about {topic}"',
+        '  # Summarize',
+        '  session "Summarize {notes}"',
+        '',
+        'for article in ["a", "b"]:',
+        '  do digest(article)',
+        'session "Done"',
+      ));
+    });
+
+    it('should keep multi-line strings verbatim and define the block above leading comments', () => {
+      const source = lines(
+        '# Main flow',
+        'do:',
+        '    session """',
+        '  Keep this',
+        '"""',
+      );
+      const result = extractBlock(source, { start: { line: 3, column: 5 }, end: { line: 5, column: 4 } }, 'keep');
+
+      expect(apply(source, result)).toBe(lines(
+        'block keep:',
+        '  session """',
+        '  Keep this',
+        '"""',
+        '',
+        '# Main flow',
+        'do:',
+        '    do keep',
+      ));
+    });
+
+    it('should extract a run of top-level statements', () => {
+      const source = lines(
+        'session "a"',
+        'session "b"',
+        'session "c"',
+      );
+      const result = extractBlock(source, { start: { line: 1, column: 1 }, end: { line: 2, column: 12 } }, 'first');
+
+      expect(apply(source, result)).toBe(lines(
+        'block first:',
+        '  session "a"',
+        '  session "b"',
+        '',
+        'do first',
+        'session "c"',
+      ));
+    });
+
+    it('should refuse selections that are not whole statements', () => {
+      const source = lines('session "A"', 'session "B"');
+
+      expect(extractBlock(source, { start: { line: 1, column: 3 }, end: { line: 2, column: 1 } }, 'x').error)
+        .toBe('Cannot extract: the selection must cover whole statements');
+    });
+
+    it('should refuse to extract variables used after the selection', () => {
+      const source = lines('let a = session "A"', 'session "Use {a}"');
+
+      expect(extractBlock(source, { start: { line: 1, column: 1 }, end: { line: 2, column: 1 } }, 'x').error)
+        .toBe('Cannot extract: "a" is declared in the selection and used after it');
+    });
+
+    it('should refuse to extract assignments to outer variables', () => {
+      const source = lines('let a = session "A"', 'repeat 2:', '  a = session "Again"');
+
+      expect(extractBlock(source, { start: { line: 3, column: 1 }, end: { line: 4, column: 1 } }, 'x').error)
+        .toBe('Cannot extract: the selection assigns to "a", which is declared outside it');
+    });
+  });
+
+  describe('Inline block', () => {
+    const definition = [
+      'agent critic:',
+      '  model: opus',
+      'block review(subject, depth):',
+      '  let notes = session: critic',
+      '    prompt: "Review {subject}"',
+      '  repeat depth:',
+      '    session "Refine {notes}"',
+    ];
+
+    it('should substitute variable and literal arguments', () => {
+      const source = lines(...definition, 'let topic = "AI"', 'if **ready**:', '  do review(topic, 2)');
+
+      expect(apply(source, inlineBlock(source, { line: 10, column: 8 }))).toBe(lines(
+        ...definition,
+        'let topic = "AI"',
+        'if **ready**:',
+        '  let notes = session: critic',
+        '    prompt: "Review {topic}"',
+        '  repeat 2:',
+        '    session "Refine {notes}"',
+      ));
+    });
+
+    it('should splice string literals into interpolations', () => {
+      const source = lines(...definition, 'do review("safety", 1)');
+
+      expect(apply(source, inlineBlock(source, { line: 8, column: 1 }))).toContain('  prompt: "Review safety"\n');
+    });
+
+    it('should bind other arguments once ahead of the body', () => {
+      const source = lines(...definition, 'do review(session "Pick a subject", 1)');
+
+      expect(apply(source, inlineBlock(source, { line: 8, column: 1 }))).toBe(lines(
+        ...definition,
+        'const subject = session "Pick a subject"',
+        'let notes = session: critic',
+        '  prompt: "Review {subject}"',
+        'repeat 1:',
+        '  session "Refine {notes}"',
+      ));
+    });
+
+    it('should refuse when a block variable would clash at the call site', () => {
+      const source = lines(...definition, 'let notes = "x"', 'do review(notes, 1)');
+
+      expect(inlineBlock(source, { line: 9, column: 1 }).error)
+        .toBe('Cannot inline: "notes" is also declared inside the block');
+    });
+
+    it('should refuse calls used as values', () => {
+      const source = lines(...definition, 'let result = do review("x", 1)');
+
+      expect(inlineBlock(source, { line: 8, column: 18 }).error)
+        .toBe('Cannot inline a block call that is used as a value');
+    });
+  });
+
+  describe('LSP rename', () => {
+    const uri = 'file:///test.prose';
+
+    function startServer(text: string): { server: LanguageServer; sent: Message[] } {
+      const sent: Message[] = [];
+      const server = new LanguageServer({ send: message => sent.push(message) });
+      server.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+      server.handleMessage({
+        jsonrpc: '2.0',
+        method: 'textDocument/didOpen',
+        params: { textDocument: { uri, languageId: 'openprose', version: 1, text } },
+      });
+      return { server, sent };
+    }
+
+    it('should prepare and apply a rename', () => {
+      const { server, sent } = startServer('let a = "x"\nsession "Use {a}"\n');
+      const init = (sent[0] as ResponseMessage).result as { capabilities: Record<string, any> };
+      expect(init.capabilities.renameProvider).toEqual({ prepareProvider: true });
+
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'textDocument/prepareRename',
+        params: { textDocument: { uri }, position: { line: 1, character: 14 } },
+      });
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 2,
+        method: 'textDocument/rename',
+        params: { textDocument: { uri }, position: { line: 0, character: 4 }, newName: 'b' },
+      });
+
+      const prepare = sent.find(m => 'id' in m && m.id === 1) as ResponseMessage;
+      expect(prepare.result).toEqual({ start: { line: 1, character: 14 }, end: { line: 1, character: 15 } });
+      const rename = sent.find(m => 'id' in m && m.id === 2) as ResponseMessage;
+      expect(rename.result).toEqual({
+        changes: {
+          [uri]: [
+            { range: { start: { line: 0, character: 4 }, end: { line: 0, character: 5 } }, newText: 'b' },
+            { range: { start: { line: 1, character: 14 }, end: { line: 1, character: 15 } }, newText: 'b' },
+          ],
+        },
+      });
+    });
+
+    it('should report why a rename is refused', () => {
+      const { server, sent } = startServer('agent a:\n  model: opus\nagent b:\n  model: opus\n');
+      server.handleMessage({
+        jsonrpc: '2.0',
+        id: 1,
+        method: 'textDocument/rename',
+        params: { textDocument: { uri }, position: { line: 0, character: 6 }, newName: 'b' },
+      });
+
+      const response = sent.find(m => 'id' in m && m.id === 1) as ResponseMessage;
+      expect(response.error).toEqual({ code: -32803, message: 'Cannot rename: agent "b" already exists' });
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * Unit tests for replay
+ *
+ * Tests re-running programs against recorded traces and reporting the
+ * first divergence after prompt and flow edits.
+ */
+
+import { parse } from '../parser';
+import {
+  interpret,
+  MockBackend,
+  MockFixture,
+  TraceRecorder,
+  TraceEvent,
+  replay,
+  ReplayResult,
+} from '../interpreter';
+import { lines } from './helpers';
+
+async function record(source: string, fixture: MockFixture): Promise<TraceEvent[]> {
+  const trace = new TraceRecorder();
+  await interpret(parse(source).program, { backend: new MockBackend(fixture), sleep: async () => {}, trace })
+    .catch(() => undefined);
+  return trace.events;
+}
+
+function replayed(source: string, events: TraceEvent[]): Promise<ReplayResult> {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  return replay(parseResult.program, events);
+}
+
+const program = lines(
+  'let topic = session "Pick a topic"',
+  'loop until **the draft is approved** (max: 3):',
+  '  session "Revise the draft about {topic}"',
+  'choice **which format fits**:',
+  '  option "post":',
+  '    session "Publish as a post"',
+  '  option "paper":',
+  '    session "Publish as a paper"',
+);
+
+const fixture: MockFixture = {
+  sessions: [
+    { prompt: 'Pick a topic', output: 'AI' },
+    { prompt: '/^Revise/', responses: [{ output: 'Draft 1' }, { output: 'Draft 2' }] },
+    { prompt: '/^Publish/', output: 'Published' },
+  ],
+  conditions: { 'the draft is approved': [false, false, true] },
+  choices: { 'which format fits': 'paper' },
+};
+
+describe('Replay', () => {
+  it('should answer every call from the recording', async () => {
+    const { divergence, result, matched } = await replayed(program, await record(program, fixture));
+
+    expect(divergence).toBeNull();
+    expect(result?.output).toBe('Published');
+    expect(result?.bindings.topic).toBe('AI');
+    expect(matched).toBe(8);
+  });
+
+  it('should replay failed attempts and the errors programs handle', async () => {
+    const source = lines(
+      'try:',
+      '  session "Call the API"',
+      '    retry: 1',
+      'catch as err:',
+      '  session "Report {err}"',
+    );
+    const events = await record(source, {
+      sessions: [{ prompt: 'Call the API', error: 'down' }, { prompt: 'Report down', output: 'Reported' }],
+    });
+
+    const { divergence, result, matched } = await replayed(source, events);
+    expect(divergence).toBeNull();
+    expect(result?.output).toBe('Reported');
+    expect(matched).toBe(3);
+  });
+
+  it('should report the first call that differs from the recording', async () => {
+    const edited = program.replace('Revise the draft', 'Rewrite the draft');
+    const { divergence, result } = await replayed(edited, await record(program, fixture));
+
+    expect(result).toBeNull();
+    expect(divergence?.span.start).toMatchObject({ line: 3, column: 3 });
+    expect(divergence?.expected).toMatchObject({ kind: 'session', prompt: 'Revise the draft about AI' });
+    expect(divergence?.actual).toMatchObject({ kind: 'session', prompt: 'Rewrite the draft about AI' });
+    expect(divergence?.message).toBe(
+      'Expected session "Revise the draft about AI" at line 3, but the program made session "Rewrite the draft about AI" at line 3'
+    );
+  });
+
+  it('should report recorded calls a program no longer makes, and calls the recording lacks', async () => {
+    const events = await record(program, fixture);
+
+    const shorter = program.split('\n').slice(0, 3).join('\n') + '\n';
+    const missing = (await replayed(shorter, events)).divergence;
+    expect(missing?.actual).toBeNull();
+    expect(missing?.expected).toMatchObject({ kind: 'choice', criteria: 'which format fits' });
+    expect(missing?.message).toBe('The program finished without making the recorded choice **which format fits** at line 4');
+
+    const longer = program + 'session "Announce it"\n';
+    const extra = (await replayed(longer, events)).divergence;
+    expect(extra?.expected).toBeNull();
+    expect(extra?.span.start.line).toBe(9);
+  });
+
+  it('should report a recorded option the choice no longer has', async () => {
+    const edited = program.replace('option "paper"', 'option "article"').replace('as a paper', 'as an article');
+    const { divergence } = await replayed(edited, await record(program, fixture));
+
+    expect(divergence?.message).toBe('The recorded option "paper" is not an option of this choice any more');
+  });
+
+  it('should let parallel branches make their calls in any order, but not sequential statements', async () => {
+    const source = lines(
+      'parallel:',
+      '  session "Research"',
+      '  session "Survey"',
+      'session "Combine"',
+    );
+    const events = await record(source, { defaultOutput: 'ok' });
+    const branchOne = events.filter(event => event.branch === '1');
+    const reordered = [...branchOne, ...events.filter(event => event.branch !== '1')];
+    expect((await replayed(source, reordered)).divergence).toBeNull();
+
+    const sequential = source.replace('parallel:\n  session "Research"\n  session "Survey"', 'session "Survey"\nsession "Research"');
+    const { divergence } = await replayed(sequential, events);
+    expect(divergence?.expected).toMatchObject({ prompt: 'Research' });
+    expect(divergence?.actual).toMatchObject({ prompt: 'Survey' });
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Unit tests for diagnostic reports
+ *
+ * Tests related spans on validator diagnostics, and the text, JSON, SARIF
+ * and GitHub Actions report formats.
+ */
+
+import { parse } from '../parser';
+import {
+  validate,
+  formatDiagnostic,
+  formatReport,
+  parseErrorToValidationError,
+  DiagnosticCodes,
+  FileReport,
+  ValidationError,
+} from '../validator';
+import { getDiagnostics } from '../lsp';
+import { lines } from './helpers';
+
+function check(source: string): ValidationError[] {
+  const parseResult = parse(source);
+  if (parseResult.errors.length > 0) {
+    return parseResult.errors.map(parseErrorToValidationError);
+  }
+  const result = validate(parseResult.program, source);
+  return [...result.errors, ...result.warnings];
+}
+
+const duplicateAgent = lines(
+  'agent writer:',
+  '  model: opus',
+  '  prompt: "Write"',
+  'agent writer:',
+  '  model: haiku',
+  '  prompt: "Write faster"',
+);
+
+describe('Diagnostic Reports', () => {
+  describe('Related spans', () => {
+    it('should point duplicates at the original declaration', () => {
+      const [error] = check(duplicateAgent);
+
+      expect(error.code).toBe(DiagnosticCodes.DuplicateAgent);
+      expect(error.span.start).toMatchObject({ line: 4, column: 7 });
+      expect(error.related).toHaveLength(1);
+      expect(error.related![0].message).toBe('First defined here');
+      expect(error.related![0].span.start).toMatchObject({ line: 1, column: 7 });
+    });
+
+    it('should point shadowing and const reassignment at the declaration', () => {
+      const diagnostics = check(lines(
+        'const topic = "AI"',
+        'block review(topic):',
+        '  session "Review {topic}"',
+        'topic = "ML"',
+      ));
+
+      expect(diagnostics.map(d => [d.code, d.related?.[0].message, d.related?.[0].span.start.line])).toEqual([
+        [DiagnosticCodes.ConstReassignment, 'Declared as const here', 1],
+        [DiagnosticCodes.ShadowedVariable, 'Outer variable declared here', 1],
+      ]);
+    });
+
+    it('should include related spans as LSP related information', () => {
+      const [diagnostic] = getDiagnostics(duplicateAgent, 'file:///a.prose');
+
+      expect(diagnostic.code).toBe('OP1005');
+      expect(diagnostic.relatedInformation).toEqual([{
+        location: { uri: 'file:///a.prose', range: { start: { line: 0, character: 6 }, end: { line: 0, character: 12 } } },
+        message: 'First defined here',
+      }]);
+    });
+
+    it('should give parse errors a code', () => {
+      const [error] = check('agent:\n');
+
+      expect(error.code).toBe(DiagnosticCodes.ParseError);
+      expect(getDiagnostics('agent:\n')[0].code).toBe('OP0001');
+    });
+  });
+
+  describe('Formats', () => {
+    const reports: FileReport[] = [{ file: 'flows/draft.prose', diagnostics: check(duplicateAgent + 'loop:\n  session "Go"\n') }];
+
+    it('should format text with the code and location', () => {
+      expect(formatDiagnostic(reports[0].diagnostics[0])).toBe(
+        'Error OP1005 at line 4, column 7: Duplicate agent definition: "writer"\n' +
+        '  First defined here at line 1, column 7'
+      );
+      expect(formatReport(reports, 'text').split('\n')[2]).toBe(
+        'flows/draft.prose: Warning OP3010 at line 7, column 1: ' +
+        'Unbounded loop without max iterations. Consider adding (max: N) for safety.'
+      );
+    });
+
+    it('should format JSON', () => {
+      const [file] = JSON.parse(formatReport(reports, 'json'));
+
+      expect(file.file).toBe('flows/draft.prose');
+      expect(file.diagnostics[0]).toEqual({
+        code: 'OP1005',
+        severity: 'error',
+        message: 'Duplicate agent definition: "writer"',
+        startLine: 4,
+        startColumn: 7,
+        endLine: 4,
+        endColumn: 13,
+        related: [{ message: 'First defined here', startLine: 1, startColumn: 7, endLine: 1, endColumn: 13 }],
+        fixable: false,
+      });
+      expect(file.diagnostics[1].fixable).toBe(true);
+    });
+
+    it('should format SARIF with a rule per code', () => {
+      const sarif = JSON.parse(formatReport(reports, 'sarif', { toolVersion: '1.2.3' }));
+      const run = sarif.runs[0];
+
+      expect(sarif.version).toBe('2.1.0');
+      expect(run.tool.driver).toMatchObject({
+        name: 'open-prose',
+        version: '1.2.3',
+        rules: [{ id: 'OP1005', name: 'DuplicateAgent' }, { id: 'OP3010', name: 'UnboundedLoop' }],
+      });
+      expect(run.results.map((r: any) => [r.ruleId, r.ruleIndex, r.level])).toEqual([
+        ['OP1005', 0, 'error'],
+        ['OP3010', 1, 'warning'],
+      ]);
+      expect(run.results[0].locations[0].physicalLocation).toEqual({
+        artifactLocation: { uri: 'flows/draft.prose' },
+        region: { startLine: 4, startColumn: 7, endLine: 4, endColumn: 13 },
+      });
+      expect(run.results[0].relatedLocations[0].physicalLocation.region.startLine).toBe(1);
+    });
+
+    it('should format GitHub Actions annotations with escaping', () => {
+      const annotations = formatReport(reports, 'github').split('\n');
+
+      expect(annotations[0]).toBe(
+        '::error file=flows/draft.prose,line=4,col=7,endLine=4,endColumn=13,title=OP1005::' +
+        'Duplicate agent definition: "writer"%0AFirst defined here at line 1, column 7'
+      );
+      expect(annotations[1]).toMatch(/^::warning file=flows\/draft\.prose,line=7,col=1,/);
+      expect(formatReport([{ file: 'a,b:c.prose', diagnostics: [] }], 'github')).toBe('');
+      expect(formatReport([{ file: 'a,b:c.prose', diagnostics: [reports[0].diagnostics[0]] }], 'github'))
+        .toContain('file=a%2Cb%3Ac.prose,');
+    });
+  });
+});
@@ -0,0 +1,319 @@
+/**
+ * Unit tests for typed session outputs
+ *
+ * Tests `returns` types on sessions and blocks: parsing, formatting and
+ * compiling them, the validator's checks of field access and iteration
+ * against them, JSON Schema conversion, and checking outputs at run time.
+ */
+
+import { parse, SessionStatementNode, BlockDefinitionNode, LetBindingNode } from '../parser';
+import { validate, bind, DiagnosticCodes } from '../validator';
+import { formatSource } from '../formatter';
+import { compile } from '../compiler';
+import { formatType, toJsonSchema, checkValue } from '../schema';
+import { interpret, MockBackend, MockFixture } from '../interpreter';
+import { lines } from './helpers';
+
+function errorsOf(source: string): [string, string, number][] {
+  const { errors } = validate(parse(source).program, source);
+  return errors.map(error => [error.code, error.message, error.span.start.column]);
+}
+
+function run(source: string, fixture: MockFixture) {
+  const backend = new MockBackend(fixture);
+  return { backend, result: interpret(parse(source).program, { backend, sleep: async () => {} }) };
+}
+
+describe('Typed outputs', () => {
+  describe('Parsing', () => {
+    it('should record the type of a session', () => {
+      const { program, errors } = parse('let plan = session "Plan" returns { steps: string[], risk: number }\n');
+      const session = (program.statements[0] as LetBindingNode).value as SessionStatementNode;
+
+      expect(errors).toHaveLength(0);
+      expect(session.returns).toMatchObject({
+        type: 'ObjectType',
+        fields: [
+          { name: { name: 'steps' }, valueType: { type: 'ArrayType', element: { type: 'PrimitiveType', name: 'string' } } },
+          { name: { name: 'risk' }, valueType: { type: 'PrimitiveType', name: 'number' } },
+        ],
+      });
+    });
+
+    it('should record types on agent sessions and blocks', () => {
+      const { program, errors } = parse(lines(
+        'block triage(issue) returns { labels: string[], urgent: boolean }[]:',
+        '  session reviewer: critic returns string',
+        '    context: issue',
+      ));
+      const block = program.statements[0] as BlockDefinitionNode;
+
+      expect(errors).toHaveLength(0);
+      expect(formatType(block.returns!)).toBe('{ labels: string[], urgent: boolean }[]');
+      expect((block.body[0] as SessionStatementNode).returns).toMatchObject({ type: 'PrimitiveType', name: 'string' });
+      expect((block.body[0] as SessionStatementNode).properties).toHaveLength(1);
+    });
+
+    it('should leave sessions without a type as text', () => {
+      const { program } = parse('session "Plan"\n');
+      expect((program.statements[0] as SessionStatementNode).returns).toBeNull();
+    });
+
+    it('should report unknown types and malformed objects', () => {
+      expect(parse('session "A" returns text\n').errors[0].message)
+        .toBe('Unknown type "text"; expected string, number, boolean, an array or an object');
+      expect(parse('session "A" returns { steps string }\n').errors[0].message)
+        .toBe('Expected ":" after field name "steps"');
+      expect(parse('session "A" returns\n').errors[0].message).toBe('Expected a type after "returns"');
+    });
+  });
+
+  describe('Formatting and compiling', () => {
+    it('should print types in canonical form', () => {
+      const source = lines(
+        'block plan(topic) returns {steps:string[],risk:number}:',
+        '  session "Plan {topic}" returns {steps:string[],risk:number}',
+      );
+
+      expect(formatSource(source).code).toBe(lines(
+        'block plan(topic) returns { steps: string[], risk: number }:',
+        '  session "Plan {topic}" returns { steps: string[], risk: number }',
+      ));
+    });
+
+    it('should emit the output contract of sessions and blocks', () => {
+      const { program } = parse(lines(
+        'block plan(topic) returns { steps: string[] }:',
+        '  session "Plan {topic}" returns { steps: string[] }',
+        'let check = session: returns { ok: boolean }',
+        '  prompt: "Check"',
+      ));
+
+      expect(compile(program).code).toBe(lines(
+        'block plan(topic) returns { steps: string[] }:',
+        '  session "Plan {topic}" returns { steps: string[] }',
+        'let check = session: returns { ok: boolean }',
+        '  prompt: "Check"',
+      ));
+    });
+  });
+
+  describe('Validation', () => {
+    it('should accept fields the type declares', () => {
+      expect(errorsOf(lines(
+        'let plan = session "Plan" returns { steps: string[], meta: { owner: string } }',
+        'let owner = plan.meta.owner',
+        'for step in plan.steps:',
+        '  session "Do {step}"',
+        '    context: plan.meta',
+      ))).toEqual([]);
+    });
+
+    it('should report fields the type does not have, with a fix', () => {
+      const source = lines(
+        'let plan = session "Plan" returns { steps: string[], risk: number }',
+        'let next = plan.stpes',
+      );
+      const { errors } = validate(parse(source).program, source);
+
+      expect(errors).toMatchObject([{
+        code: DiagnosticCodes.UnknownField,
+        message: '"plan" has no field "stpes"; its fields are "steps", "risk"',
+        span: { start: { line: 2, column: 17 }, end: { column: 22 } },
+        related: [{ message: 'Output type declared here', span: { start: { line: 1, column: 35 } } }],
+      }]);
+      expect(errors[0].fixes![0].title).toBe('Change to "steps"');
+    });
+
+    it('should check the fields of interpolations', () => {
+      const source = lines(
+        'let plan = session "Plan" returns { steps: string[], risk: number }',
+        'session "Assess risk {plan.risk} of {plan.missing}"',
+      );
+      const { errors } = validate(parse(source).program, source);
+
+      expect(errors).toMatchObject([{
+        code: DiagnosticCodes.UnknownField,
+        message: '"plan" has no field "missing"; its fields are "steps", "risk"',
+        span: { start: { line: 2, column: 43 }, end: { column: 50 } },
+      }]);
+    });
+
+    it('should report field access on values that are not objects', () => {
+      expect(errorsOf(lines(
+        'let plan = session "Plan" returns { risk: number }',
+        'let level = plan.risk.level',
+      ))).toEqual([[DiagnosticCodes.UnknownField, '"plan.risk" is a number, so it has no field "level"', 23]]);
+    });
+
+    it('should report iterating over a value that is not an array', () => {
+      expect(errorsOf(lines(
+        'let plan = session "Plan" returns { steps: string[], risk: number }',
+        'for r in plan.risk:',
+        '  session "Handle {r}"',
+        'let summary = session "Sum up" returns string',
+        'summary | map:',
+        '  session "Go"',
+        '    context: item',
+      ))).toEqual([
+        [DiagnosticCodes.NotIterable, 'Cannot iterate over "plan.risk": its output type is a number, not an array', 10],
+        [DiagnosticCodes.NotIterable, 'Cannot iterate over "summary": its output type is a string, not an array', 1],
+      ]);
+    });
+
+    it('should give loop and pipeline items the type of the elements', () => {
+      expect(errorsOf(lines(
+        'let plan = session "Plan" returns { steps: { title: string }[] }',
+        'for step in plan.steps:',
+        '  let t = step.name',
+        'plan.steps | filter:',
+        '  session "Keep?"',
+        '    context: item.title',
+        '  | map:',
+        '    session "Go"',
+        '      context: item.name',
+        '  | pmap:',
+        '    session "Check"',
+        '      context: item.anything',
+      )).map(([code, message]) => [code, message])).toEqual([
+        [DiagnosticCodes.UnknownField, '"step" has no field "name"; its fields are "title"'],
+        [DiagnosticCodes.UnknownField, '"item" has no field "name"; its fields are "title"'],
+      ]);
+    });
+
+    it('should know the type of a block call', () => {
+      expect(errorsOf(lines(
+        'block plan(topic) returns { steps: string[] }:',
+        '  session "Plan {topic}" returns { steps: string[] }',
+        'let plan = do plan("x")',
+        'let risk = plan.risk',
+      )).map(([code]) => code)).toEqual([DiagnosticCodes.UnknownField]);
+    });
+
+    it('should forget the type when a variable gets output of another shape', () => {
+      expect(errorsOf(lines(
+        'let plan = session "Plan" returns { steps: string[] }',
+        'plan = session "Replan"',
+        'let risk = plan.risk',
+      ))).toEqual([]);
+    });
+
+    it('should not check variables without a type', () => {
+      expect(errorsOf(lines('let plan = session "Plan"', 'for step in plan.steps:', '  session "Do {step}"'))).toEqual([]);
+    });
+
+    it('should report a field declared twice', () => {
+      expect(errorsOf('session "Tag" returns { tags: string[], tags: number }\n'))
+        .toEqual([[DiagnosticCodes.DuplicateField, 'Duplicate field in output type: "tags"', 41]]);
+    });
+
+    it('should reference only the variable of a field access', () => {
+      const table = bind(parse('let plan = session "Plan" returns { steps: string[] }\nlet s = plan.steps\n').program);
+      const plan = table.symbols.find(symbol => symbol.name === 'plan')!;
+
+      expect(table.getReferences(plan).map(reference => [reference.span.start.column, reference.span.end.column]))
+        .toEqual([[9, 13]]);
+    });
+  });
+
+  describe('Schemas', () => {
+    const { program } = parse('session "Plan" returns { steps: { title: string, done: boolean }[], risk: number }\n');
+    const type = (program.statements[0] as SessionStatementNode).returns!;
+
+    it('should convert to JSON Schema', () => {
+      expect(toJsonSchema(type)).toEqual({
+        type: 'object',
+        properties: {
+          steps: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { title: { type: 'string' }, done: { type: 'boolean' } },
+              required: ['title', 'done'],
+              additionalProperties: false,
+            },
+          },
+          risk: { type: 'number' },
+        },
+        required: ['steps', 'risk'],
+        additionalProperties: false,
+      });
+    });
+
+    it('should say where a value does not match', () => {
+      expect(checkValue({ steps: [{ title: 'a', done: false }], risk: 1 }, type)).toBeNull();
+      expect(checkValue({ steps: [{ title: 'a', done: 'no' }], risk: 1 }, type))
+        .toBe('output.steps[0].done should be a boolean, not a string');
+      expect(checkValue({ steps: [] }, type)).toBe('output is missing "risk"');
+      expect(checkValue({ steps: [], risk: 1, extra: true }, type)).toBe('output has an unexpected field "extra"');
+      expect(checkValue([], type)).toBe('output should be an object, not an array');
+    });
+  });
+
+  describe('Running', () => {
+    const source = lines(
+      'let plan = session "Plan" returns { steps: string[], risk: number }',
+      '  retry: 1',
+      'for step in plan.steps:',
+      '  session "Do {step}"',
+      'let risk = plan.risk',
+    );
+
+    it('should parse JSON output and read its fields', async () => {
+      const { backend, result } = run(source, {
+        sessions: [{ prompt: 'Plan', output: '```json\n{"steps": ["a", "b"], "risk": 3}\n```' }],
+        defaultOutput: 'done',
+      });
+
+      expect((await result).bindings.risk).toBe(3);
+      expect(backend.sessions.map(session => session.prompt)).toEqual(['Plan', 'Do a', 'Do b']);
+      expect(backend.sessions[0].returns).toMatchObject({ type: 'object', required: ['steps', 'risk'] });
+      expect(backend.sessions[1].returns).toBeUndefined();
+    });
+
+    it('should retry output that does not match, telling the session why', async () => {
+      const { backend, result } = run(source, {
+        sessions: [{ prompt: 'Plan', responses: [{ output: '{"steps": "a"}' }, { output: { steps: ['a'], risk: 1 } }] }],
+        defaultOutput: 'done',
+      });
+
+      expect((await result).bindings.risk).toBe(1);
+      expect(backend.sessions[1].previousError).toBe('Output does not match its returns type: output.steps should be an array, not a string');
+    });
+
+    it('should fail once retries run out', async () => {
+      const { result } = run(source, { sessions: [{ prompt: 'Plan', output: 'Here is the plan' }] });
+
+      await expect(result).rejects.toThrow('Output is not JSON of type { steps: string[], risk: number }');
+    });
+
+    it('should fill in the fields of interpolations', async () => {
+      const { backend, result } = run(lines(
+        'let plan = session "Plan" returns { steps: string[], meta: { owner: string } }',
+        'session "Ask {plan.meta.owner} about {plan.steps}"',
+      ), { sessions: [{ prompt: 'Plan', output: { steps: ['a'], meta: { owner: 'Ada' } } }], defaultOutput: 'done' });
+
+      await result;
+      expect(backend.sessions[1].prompt).toBe('Ask Ada about ["a"]');
+    });
+
+    it('should fail on interpolated fields the output does not have', async () => {
+      const { result } = run(lines(
+        'let plan = session "Plan"',
+        'session "Assess {plan.risk}"',
+      ), { sessions: [{ prompt: 'Plan', output: { steps: [] } }] });
+
+      await expect(result).rejects.toThrow('"plan" has no field "risk"');
+    });
+
+    it('should check the result of a block', async () => {
+      const { result } = run(lines(
+        'block count() returns number:',
+        '  session "Count"',
+        'do count()',
+      ), { defaultOutput: 'many' });
+
+      await expect(result).rejects.toThrow('Block "count": Output is not JSON of type number');
+    });
+  });
+});
@@ -0,0 +1,228 @@
+/**
+ * Unit tests for skills
+ *
+ * Tests parsing import sources, resolving them against a local directory
+ * registry, the content-addressed cache, prose.lock and installing with and
+ * without a frozen lockfile.
+ */
+
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parse } from '../parser';
+import {
+  DirectoryRegistry,
+  SkillCache,
+  SkillError,
+  LockfileError,
+  Lockfile,
+  parseSkillSource,
+  formatSkillSource,
+  integrityOf,
+  emptyLockfile,
+  readLockfile,
+  writeLockfile,
+  skillSources,
+  installSkills,
+} from '../skills';
+import { lines } from './helpers';
+
+describe('Skills', () => {
+  let root: string;
+  let registry: DirectoryRegistry;
+  let cache: SkillCache;
+
+  /**
+   * Publish an archive to the test registry
+   */
+  function publish(path: string, content: string): void {
+    const file = join(root, 'registry', `${path}.tgz`);
+    mkdirSync(join(file, '..'), { recursive: true });
+    writeFileSync(file, content);
+  }
+
+  beforeEach(() => {
+    root = mkdtempSync(join(tmpdir(), 'prose-skills-'));
+    registry = new DirectoryRegistry(join(root, 'registry'));
+    cache = new SkillCache(join(root, 'cache'));
+    publish('npm/web-search/1.2.0', 'web-search 1.2.0');
+    publish('npm/web-search/1.10.0', 'web-search 1.10.0');
+    publish('npm/@acme/summarize/2.0.0', 'summarize 2.0.0');
+    publish('github/acme/skills/main', 'acme skills');
+  });
+
+  afterEach(() => {
+    rmSync(root, { recursive: true, force: true });
+  });
+
+  describe('Sources', () => {
+    it('should parse GitHub and npm sources', () => {
+      expect(parseSkillSource('github:acme/skills@v1')).toEqual({ kind: 'github', name: 'acme/skills', ref: 'v1' });
+      expect(parseSkillSource('npm:web-search')).toEqual({ kind: 'npm', name: 'web-search', ref: null });
+      expect(parseSkillSource('npm:@acme/summarize@2.0.0')).toEqual({ kind: 'npm', name: '@acme/summarize', ref: '2.0.0' });
+      expect(formatSkillSource(parseSkillSource('npm:@acme/summarize@2.0.0')!)).toBe('npm:@acme/summarize@2.0.0');
+    });
+
+    it('should not parse local paths or malformed sources', () => {
+      expect(parseSkillSource('./skills/research')).toBeNull();
+      expect(parseSkillSource('github:skills')).toBeNull();
+    });
+
+    it('should not parse names that would leave the registry', () => {
+      expect(parseSkillSource('npm:../../x')).toBeNull();
+      expect(parseSkillSource('npm:@acme/../../x')).toBeNull();
+      expect(parseSkillSource('npm:.hidden')).toBeNull();
+      expect(parseSkillSource('github:../..')).toBeNull();
+      expect(parseSkillSource('github:acme/..')).toBeNull();
+      expect(parseSkillSource('npm:@acme/web.search_2')).toEqual({ kind: 'npm', name: '@acme/web.search_2', ref: null });
+    });
+
+    it('should collect the sources a program imports', () => {
+      const { program } = parse(lines(
+        'import "web-search" from "npm:web-search"',
+        'import "local" from "./skills/local"',
+        'session "Go"',
+      ));
+
+      expect(skillSources(program)).toEqual(['npm:web-search', './skills/local']);
+    });
+  });
+
+  describe('Directory registry', () => {
+    it('should resolve the highest version without a ref', async () => {
+      expect(await registry.resolve(parseSkillSource('npm:web-search')!)).toBe('1.10.0');
+      expect(await registry.resolve(parseSkillSource('npm:web-search@1.2.0')!)).toBe('1.2.0');
+    });
+
+    it('should fail on a version it does not have', async () => {
+      await expect(registry.resolve(parseSkillSource('npm:web-search@3.0.0')!)).rejects.toThrow('No version "3.0.0"');
+      await expect(registry.resolve(parseSkillSource('npm:missing')!)).rejects.toThrow(SkillError);
+      await expect(registry.fetch(parseSkillSource('npm:web-search')!, '../web-search/1.2.0')).rejects.toThrow(SkillError);
+    });
+  });
+
+  describe('Cache', () => {
+    it('should store archives under their integrity', () => {
+      const data = Buffer.from('archive');
+      const integrity = cache.write(data);
+
+      expect(integrity).toBe(integrityOf(data));
+      expect(integrity).toMatch(/^sha512-/);
+      expect(cache.read(integrity)).toEqual(data);
+    });
+
+    it('should not read a corrupted archive', () => {
+      const integrity = cache.write(Buffer.from('archive'));
+      writeFileSync(cache.path(integrity), 'tampered');
+
+      expect(cache.read(integrity)).toBeNull();
+    });
+  });
+
+  describe('Installing', () => {
+    const sources = ['npm:web-search', 'github:acme/skills@main', 'npm:@acme/summarize', './skills/local'];
+
+    it('should pin new sources in the lockfile', async () => {
+      const result = await installSkills(sources, emptyLockfile(), { registry, cache });
+
+      expect(result.changed).toBe(true);
+      expect(result.skills.map(skill => [skill.source, skill.version, skill.status])).toEqual([
+        ['github:acme/skills@main', 'main', 'added'],
+        ['npm:@acme/summarize', '2.0.0', 'added'],
+        ['npm:web-search', '1.10.0', 'added'],
+      ]);
+      expect(result.lockfile.skills['npm:web-search'].integrity).toBe(integrityOf(Buffer.from('web-search 1.10.0')));
+    });
+
+    it('should install from the cache without the registry', async () => {
+      const { lockfile } = await installSkills(sources, emptyLockfile(), { registry, cache });
+      rmSync(join(root, 'registry'), { recursive: true });
+
+      const result = await installSkills(sources, lockfile, { registry, cache, frozen: true });
+
+      expect(result.changed).toBe(false);
+      expect(result.skills.every(skill => skill.status === 'cached')).toBe(true);
+    });
+
+    it('should keep the locked version when a newer one is published', async () => {
+      const { lockfile } = await installSkills(['npm:web-search'], emptyLockfile(), { registry, cache });
+      publish('npm/web-search/1.11.0', 'web-search 1.11.0');
+
+      const result = await installSkills(['npm:web-search'], lockfile, { registry, cache });
+
+      expect(result.skills[0]).toMatchObject({ version: '1.10.0', status: 'cached' });
+    });
+
+    it('should fetch a locked skill that is not cached and check its integrity', async () => {
+      const { lockfile } = await installSkills(['npm:web-search'], emptyLockfile(), { registry, cache });
+      const emptyCache = new SkillCache(join(root, 'other-cache'));
+
+      const result = await installSkills(['npm:web-search'], lockfile, { registry, cache: emptyCache });
+      expect(result.skills[0].status).toBe('fetched');
+      expect(emptyCache.read(lockfile.skills['npm:web-search'].integrity)).not.toBeNull();
+
+      publish('npm/web-search/1.10.0', 'republished');
+      await expect(installSkills(['npm:web-search'], lockfile, { registry, cache: new SkillCache(join(root, 'third-cache')) }))
+        .rejects.toThrow("Version 1.10.0 doesn't match prose.lock");
+    });
+
+    it('should drop sources nothing imports any more', async () => {
+      const { lockfile } = await installSkills(sources, emptyLockfile(), { registry, cache });
+
+      const result = await installSkills(['npm:web-search'], lockfile, { registry, cache });
+
+      expect(result.changed).toBe(true);
+      expect(Object.keys(result.lockfile.skills)).toEqual(['npm:web-search']);
+    });
+
+    it('should not change a frozen lockfile', async () => {
+      const { lockfile } = await installSkills(['npm:web-search'], emptyLockfile(), { registry, cache });
+
+      await expect(installSkills(['npm:web-search', 'npm:@acme/summarize'], lockfile, { registry, cache, frozen: true }))
+        .rejects.toThrow('npm:@acme/summarize: Not in prose.lock');
+      await expect(installSkills([], lockfile, { registry, cache, frozen: true }))
+        .rejects.toThrow('npm:web-search: Not imported any more');
+    });
+
+    it('should fail on a malformed source', async () => {
+      await expect(installSkills(['github:skills'], emptyLockfile(), { registry, cache })).rejects.toThrow(SkillError);
+    });
+  });
+
+  describe('Lockfile', () => {
+    it('should write skills sorted by source and read them back', () => {
+      const file = join(root, 'prose.lock');
+      const lockfile: Lockfile = {
+        lockfileVersion: 1,
+        skills: {
+          'npm:web-search': { version: '1.10.0', integrity: integrityOf(Buffer.from('b')) },
+          'github:acme/skills@main': { version: 'main', integrity: integrityOf(Buffer.from('a')) },
+        },
+      };
+
+      writeLockfile(file, lockfile);
+
+      const text = readFileSync(file, 'utf-8');
+      expect(text.indexOf('github:acme')).toBeLessThan(text.indexOf('npm:web-search'));
+      expect(text.endsWith('}\n')).toBe(true);
+      expect(readLockfile(file)).toEqual(lockfile);
+    });
+
+    it('should read a missing lockfile as empty', () => {
+      expect(readLockfile(join(root, 'prose.lock'))).toEqual(emptyLockfile());
+    });
+
+    it('should reject a malformed lockfile', () => {
+      const file = join(root, 'prose.lock');
+
+      writeFileSync(file, '{');
+      expect(() => readLockfile(file)).toThrow(LockfileError);
+
+      writeFileSync(file, JSON.stringify({ lockfileVersion: 2, skills: {} }));
+      expect(() => readLockfile(file)).toThrow('Expected lockfileVersion 1');
+
+      writeFileSync(file, JSON.stringify({ lockfileVersion: 1, skills: { 'npm:x': { version: '1.0.0', integrity: 'md5-abc' } } }));
+      expect(() => readLockfile(file)).toThrow('"npm:x" needs a version and a sha512 integrity');
+    });
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Unit tests for the OpenProse symbol table and navigation
+ *
+ * Tests declaration/reference binding (agents, blocks, variables, loop
+ * variables, catch errors, pipe variables), shadowing, and the LSP
+ * definition/references requests built on top of it.
+ */
+
+import { parse } from '../parser';
+import { bind, findInterpolationSpans, SymbolTable } from '../validator';
+import { StringLiteralNode, SessionStatementNode } from '../parser/ast';
+import {
+  LanguageServer,
+  Message,
+  ResponseMessage,
+  Position,
+  Location,
+  getDefinition,
+  getReferences,
+} from '../lsp';
+
+const URI = 'file:///test.prose';
+
+function bindSource(source: string): SymbolTable {
+  return bind(parse(source).program);
+}
+
+/**
+ * Position (0-based) of the nth occurrence of needle, plus an offset into it
+ */
+function positionOf(source: string, needle: string, occurrence: number = 0, delta: number = 0): Position {
+  let index = -1;
+  for (let i = 0; i <= occurrence; i++) {
+    index = source.indexOf(needle, index + 1);
+  }
+  if (index < 0) {
+    throw new Error(`"${needle}" not found`);
+  }
+  index += delta;
+  const before = source.slice(0, index);
+  const line = before.split('\n').length - 1;
+  return { line, character: index - (before.lastIndexOf('\n') + 1) };
+}
+
+function startsOf(locations: Location[]): Position[] {
+  return locations.map(location => location.range.start);
+}
+
+describe('Symbol Table', () => {
+  describe('Declarations', () => {
+    it('should declare agents and blocks', () => {
+      const table = bindSource(
+        'agent writer:\n  model: sonnet\n\nblock review(topic):\n  session "Review {topic}"\n'
+      );
+
+      expect(table.getSymbolsOfKind('agent').map(s => s.name)).toEqual(['writer']);
+      expect(table.getSymbolsOfKind('block').map(s => s.name)).toEqual(['review']);
+    });
+
+    it('should record the kind of each variable', () => {
+      const source = [
+        'let draft = session "Draft"',
+        'const items = session "List"',
+        'block review(topic):',
+        '  session "Review {topic}"',
+        'repeat 2 as i:',
+        '  session "Step {i}"',
+        'try:',
+        '  session "Risky"',
+        'catch as err:',
+        '  session "Handle {err}"',
+        'let total = items | reduce(acc, x):',
+        '  session "Add {x} to {acc}"',
+      ].join('\n');
+      const table = bindSource(source);
+
+      const kinds = Object.fromEntries(
+        table.getSymbolsOfKind('variable').map(s => [s.name, s.variableKind])
+      );
+      expect(kinds).toEqual({
+        draft: 'let',
+        items: 'const',
+        topic: 'parameter',
+        i: 'loop',
+        err: 'error',
+        acc: 'pipe',
+        x: 'pipe',
+        total: 'let',
+      });
+    });
+
+    it('should declare the implicit pipe item', () => {
+      const table = bindSource('let items = session "List"\nlet out = items | map:\n  session "Use {item}"');
+      const item = table.symbols.find(s => s.name === 'item');
+
+      expect(item?.isImplicit).toBe(true);
+      expect(table.getReferences(item!)).toHaveLength(1);
+    });
+  });
+
+  describe('References', () => {
+    it('should resolve session agent references', () => {
+      const table = bindSource('agent writer:\n  model: sonnet\n\nsession: writer\n  prompt: "Write"');
+      const writer = table.getSymbolsOfKind('agent')[0];
+
+      const references = table.getReferences(writer);
+      expect(references).toHaveLength(1);
+      expect(references[0].span.start.line).toBe(4);
+    });
+
+    it('should mark assignment targets as writes', () => {
+      const table = bindSource('let x = session "a"\nx = session "b"\nsession "Use {x}"');
+      const x = table.getSymbolsOfKind('variable')[0];
+
+      expect(table.getReferences(x).map(r => r.isWrite)).toEqual([true, false]);
+    });
+
+    it('should resolve context references', () => {
+      const table = bindSource(
+        'let a = session "A"\nlet b = session "B"\nsession "C"\n  context: [a, b]\nsession "D"\n  context: { a }'
+      );
+      const a = table.symbols.find(s => s.name === 'a')!;
+
+      expect(table.getReferences(a)).toHaveLength(2);
+    });
+
+    it('should respect shadowing in anonymous do blocks', () => {
+      const source = 'let x = session "outer"\ndo:\n  let x = session "inner"\n  session "Inner {x}"\nsession "Outer {x}"';
+      const table = bindSource(source);
+      const [outer, inner] = table.symbols.filter(s => s.name === 'x');
+
+      expect(table.getReferences(inner).map(r => r.span.start.line)).toEqual([4]);
+      expect(table.getReferences(outer).map(r => r.span.start.line)).toEqual([5]);
+    });
+
+    it('should find the symbol at a location', () => {
+      const table = bindSource('let draft = session "Draft"\nsession "Edit {draft}"');
+
+      // Inside the interpolation on line 2
+      expect(table.getSymbolAt({ line: 2, column: 17 })?.name).toBe('draft');
+      // The declaration itself
+      expect(table.getSymbolAt({ line: 1, column: 5 })?.name).toBe('draft');
+      // The session keyword
+      expect(table.getSymbolAt({ line: 2, column: 2 })).toBeNull();
+    });
+  });
+
+  describe('Interpolation spans', () => {
+    function promptOf(source: string): StringLiteralNode {
+      const session = parse(source).program.statements[0] as SessionStatementNode;
+      return session.prompt!;
+    }
+
+    it('should locate interpolations in single-quoted strings', () => {
+      const spans = findInterpolationSpans(promptOf('session "Use {a} and {b}"'));
+
+      expect(spans.map(s => s.name)).toEqual(['a', 'b']);
+      expect(spans[0].nameSpan.start.column).toBe(15);
+      expect(spans[1].nameSpan.start.column).toBe(23);
+    });
+
+    it('should skip escaped braces', () => {
+      const spans = findInterpolationSpans(promptOf('session "\\{a} {{b}} {c}"'));
+
+      expect(spans.map(s => s.name)).toEqual(['c']);
+    });
+
+    it('should track lines in triple-quoted strings', () => {
+      const spans = findInterpolationSpans(promptOf('session """\nFirst\n  use {topic}\n"""'));
+
+      expect(spans).toHaveLength(1);
+      expect(spans[0].nameSpan.start.line).toBe(3);
+      expect(spans[0].nameSpan.start.column).toBe(8);
+    });
+  });
+});
+
+describe('Navigation', () => {
+  const source = [
+    'agent writer:',
+    '  model: sonnet',
+    '',
+    'block review(topic):',
+    '  session: writer',
+    '    prompt: "Review {topic}"',
+    '',
+    'let draft = session: writer',
+    '  prompt: "Draft"',
+    'do review(draft)',
+  ].join('\n');
+
+  it('should go to an agent definition', () => {
+    const location = getDefinition(source, URI, positionOf(source, 'writer', 2, 1));
+
+    expect(location).toEqual({
+      uri: URI,
+      range: { start: { line: 0, character: 6 }, end: { line: 0, character: 12 } },
+    });
+  });
+
+  it('should go to a block definition', () => {
+    const location = getDefinition(source, URI, positionOf(source, 'do review', 0, 3));
+
+    expect(location?.range.start).toEqual({ line: 3, character: 6 });
+  });
+
+  it('should go to a block parameter from an interpolation', () => {
+    const location = getDefinition(source, URI, positionOf(source, '{topic}', 0, 1));
+
+    expect(location?.range.start).toEqual({ line: 3, character: 13 });
+  });
+
+  it('should return null when nothing is under the cursor', () => {
+    expect(getDefinition(source, URI, { line: 1, character: 3 })).toBeNull();
+  });
+
+  it('should find all references to an agent', () => {
+    const locations = getReferences(source, URI, positionOf(source, 'writer'), true);
+
+    expect(startsOf(locations)).toEqual([
+      { line: 0, character: 6 },
+      { line: 4, character: 11 },
+      { line: 7, character: 21 },
+    ]);
+  });
+
+  it('should exclude the declaration when requested', () => {
+    const locations = getReferences(source, URI, positionOf(source, 'draft'), false);
+
+    expect(startsOf(locations)).toEqual([{ line: 9, character: 10 }]);
+  });
+
+  it('should point the implicit pipe item at its operator', () => {
+    const pipeSource = 'let items = session "List"\nlet out = items | map:\n  session "Use {item}"';
+    const location = getDefinition(pipeSource, URI, positionOf(pipeSource, '{item}', 0, 1));
+
+    expect(location?.range).toEqual({
+      start: { line: 1, character: 18 },
+      end: { line: 1, character: 21 },
+    });
+  });
+
+  it('should serve definition and references over the protocol', () => {
+    const sent: Message[] = [];
+    const server = new LanguageServer({ send: message => sent.push(message) });
+    server.handleMessage({ jsonrpc: '2.0', id: 0, method: 'initialize', params: {} });
+
+    const capabilities = (sent[0] as ResponseMessage).result as { capabilities: Record<string, any> };
+    expect(capabilities.capabilities.definitionProvider).toBe(true);
+    expect(capabilities.capabilities.referencesProvider).toBe(true);
+
+    server.handleMessage({
+      jsonrpc: '2.0',
+      method: 'textDocument/didOpen',
+      params: { textDocument: { uri: URI, languageId: 'openprose', version: 1, text: source } },
+    });
+    const position = positionOf(source, 'draft', 1);
+
+    server.handleMessage({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'textDocument/definition',
+      params: { textDocument: { uri: URI }, position },
+    });
+    server.handleMessage({
+      jsonrpc: '2.0',
+      id: 2,
+      method: 'textDocument/references',
+      params: { textDocument: { uri: URI }, position, context: { includeDeclaration: true } },
+    });
+
+    const responses = sent.filter(m => 'id' in m) as ResponseMessage[];
+    const definition = responses.find(r => r.id === 1)!.result as Location;
+    const references = responses.find(r => r.id === 2)!.result as Location[];
+    expect(definition.range.start).toEqual({ line: 7, character: 4 });
+    expect(references).toHaveLength(2);
+  });
+});
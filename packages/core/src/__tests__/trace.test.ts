@@ -0,0 +1,201 @@
+/**
+ * Unit tests for execution traces
+ *
+ * Tests the events the interpreter records, branch tagging in parallel
+ * blocks, the JSONL format and its header, and linking events to the
+ * compiled output.
+ */
+
+import { mkdtempSync, readFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { parse } from '../parser';
+import { compile } from '../compiler';
+import {
+  interpret,
+  MockBackend,
+  MockFixture,
+  TraceRecorder,
+  TraceEvent,
+  TraceError,
+  TRACE_VERSION,
+  traceFileWriter,
+  parseTrace,
+  readTraceFile,
+  linkTrace,
+  SessionRequest,
+} from '../interpreter';
+import { lines } from './helpers';
+
+/**
+ * A clock that advances 5ms each time it's read
+ */
+function steppingClock(): () => number {
+  let now = 1_000_000;
+  return () => (now += 5);
+}
+
+async function traceOf(source: string, fixture: MockFixture, recorder?: TraceRecorder): Promise<TraceEvent[]> {
+  const parseResult = parse(source);
+  expect(parseResult.errors).toHaveLength(0);
+  const trace = recorder ?? new TraceRecorder({ runId: 'run-1', now: steppingClock() });
+  await interpret(parseResult.program, { backend: new MockBackend(fixture), sleep: async () => {}, trace })
+    .catch(() => undefined);
+  return trace.events;
+}
+
+function ofType<T extends TraceEvent['type']>(events: TraceEvent[], type: T): Extract<TraceEvent, { type: T }>[] {
+  return events.filter((event): event is Extract<TraceEvent, { type: T }> => event.type === type);
+}
+
+describe('Execution Traces', () => {
+  it('should record a run from header to end', async () => {
+    const events = await traceOf(lines(
+      'let topic = session "Pick a topic"',
+      'session "Write about {topic}"',
+    ), { sessions: [{ prompt: 'Pick a topic', output: 'AI' }, { prompt: '/^Write/', output: 'Essay' }] });
+
+    expect(events[0]).toMatchObject({ seq: 0, time: 0, type: 'run-start', version: TRACE_VERSION, runId: 'run-1' });
+    expect(events[events.length - 1]).toMatchObject({ type: 'run-end', status: 'completed', output: 'Essay' });
+    expect(events.map(event => event.seq)).toEqual(events.map((_, index) => index));
+    expect(events.every((event, index) => index === 0 || event.time > events[index - 1].time)).toBe(true);
+
+    expect(events.map(event => event.type)).toEqual([
+      'run-start',
+      'statement-enter', 'session-start', 'session-end', 'binding', 'statement-exit',
+      'statement-enter', 'session-start', 'session-end', 'statement-exit',
+      'run-end',
+    ]);
+    expect(ofType(events, 'binding')[0]).toMatchObject({ name: 'topic', value: 'AI' });
+    expect(ofType(events, 'session-start')[1]).toMatchObject({ prompt: 'Write about AI', previous: 'AI', attempt: 1 });
+    expect(ofType(events, 'statement-exit')[1]).toMatchObject({
+      statement: 'SessionStatement',
+      status: 'completed',
+      span: { start: { line: 2, column: 1 } },
+    });
+  });
+
+  it('should record retries, failures and the error that ended the run', async () => {
+    const events = await traceOf(lines(
+      'session "Call the API"',
+      '  retry: 1',
+      '  backoff: 250',
+    ), { sessions: [{ prompt: 'Call the API', responses: [{ error: 'busy' }, { error: 'down' }] }] });
+
+    expect(ofType(events, 'session-error').map(event => [event.attempt, event.error])).toEqual([[1, 'busy'], [2, 'down']]);
+    expect(ofType(events, 'retry')).toEqual([expect.objectContaining({ attempt: 2, delayMs: 250 })]);
+    expect(ofType(events, 'error')).toEqual([expect.objectContaining({ message: 'down' })]);
+    expect(events[events.length - 1]).toMatchObject({ type: 'run-end', status: 'failed', error: 'down' });
+  });
+
+  it('should record conditions, choices, loop iterations and caught errors', async () => {
+    const events = await traceOf(lines(
+      'loop until **done** (max: 5):',
+      '  session "Work"',
+      'choice **which way**:',
+      '  option "left":',
+      '    session "Go left"',
+      'try:',
+      '  throw "Oops"',
+      'catch:',
+      '  session "Recover"',
+    ), {
+      defaultOutput: 'ok',
+      conditions: { done: [false, false, true] },
+      choices: { 'which way': 'left' },
+    });
+
+    expect(ofType(events, 'condition').map(event => event.result)).toEqual([false, false, true]);
+    expect(ofType(events, 'loop-iteration').map(event => event.iteration)).toEqual([1, 2]);
+    expect(ofType(events, 'choice')).toEqual([expect.objectContaining({ option: 'left' })]);
+    expect(ofType(events, 'catch')).toEqual([expect.objectContaining({ message: 'Oops' })]);
+    expect(ofType(events, 'error')).toHaveLength(1);
+    expect(events[events.length - 1]).toMatchObject({ status: 'completed' });
+  });
+
+  it('should tag events inside parallel branches with their branch', async () => {
+    const events = await traceOf(lines(
+      'parallel (on-fail: "ignore"):',
+      '  a = session "First"',
+      '  b = session "Second"',
+      '  parallel:',
+      '    session "Nested"',
+    ), { sessions: [{ prompt: 'Second', error: 'no' }], defaultOutput: 'ok' });
+
+    expect(ofType(events, 'parallel-start')[0]).toMatchObject({ branches: 3, join: 'all', onFail: 'ignore' });
+    expect(ofType(events, 'session-start').map(event => [event.prompt, event.branch])).toEqual([
+      ['First', '0'],
+      ['Second', '1'],
+      ['Nested', '2.0'],
+    ]);
+    expect(ofType(events, 'branch-end').map(event => [event.branch, event.status])).toEqual(
+      expect.arrayContaining([['0', 'completed'], ['1', 'failed'], ['2', 'completed']])
+    );
+    const join = ofType(events, 'parallel-join');
+    expect(join[join.length - 1]).toMatchObject({ status: 'completed', completed: [0, 2], failed: [1] });
+    expect(ofType(events, 'run-end')[0].branch).toBeUndefined();
+  });
+
+  it('should record cancelled branches of a first-to-finish race', async () => {
+    class SlowBackend extends MockBackend {
+      public override async runSession(request: SessionRequest) {
+        if (request.prompt === 'Slow') {
+          await new Promise(resolve => setTimeout(resolve, 20));
+        }
+        return super.runSession(request);
+      }
+    }
+    const trace = new TraceRecorder();
+    await interpret(parse(lines(
+      'parallel ("first"):',
+      '  session "Fast"',
+      '  session "Slow"',
+    )).program, { backend: new SlowBackend({ defaultOutput: 'ok' }), trace });
+    await new Promise(resolve => setTimeout(resolve, 40));
+    const events = trace.events;
+
+    expect(ofType(events, 'parallel-join')[0]).toMatchObject({ status: 'completed', completed: [0] });
+    expect(ofType(events, 'branch-end')).toContainEqual(expect.objectContaining({ index: 1, status: 'cancelled' }));
+  });
+
+  describe('JSONL', () => {
+    it('should write each event as a line and read them back', async () => {
+      const file = join(mkdtempSync(join(tmpdir(), 'trace-')), 'run.jsonl');
+      const recorder = new TraceRecorder({ program: 'p.prose', write: traceFileWriter(file) });
+      const events = await traceOf('session "Hello"\n', { defaultOutput: 'hi' }, recorder);
+
+      const text = readFileSync(file, 'utf-8');
+      expect(text).toBe(recorder.toJSONL());
+      expect(text.trim().split('\n')).toHaveLength(events.length);
+      expect(readTraceFile(file)).toEqual(events);
+      expect(events[0]).toMatchObject({ program: 'p.prose', runId: recorder.runId });
+    });
+
+    it('should reject traces without a readable header', () => {
+      const header = (version: number) => JSON.stringify({ seq: 0, time: 0, type: 'run-start', version, runId: 'r' });
+
+      expect(parseTrace(header(TRACE_VERSION) + '\n')).toHaveLength(1);
+      expect(() => parseTrace('')).toThrow('A trace must start with a run-start event');
+      expect(() => parseTrace(header(TRACE_VERSION) + '\n{oops\n')).toThrow('Line 2 of the trace is not valid JSON');
+      expect(() => parseTrace(header(TRACE_VERSION + 1))).toThrow('Unsupported trace version');
+      expect(() => readTraceFile('/nonexistent/run.jsonl')).toThrow(TraceError);
+    });
+  });
+
+  it('should link events to the compiled output through the source map', async () => {
+    const source = lines(
+      '# Greeting',
+      'session "Hello"',
+      'parallel:',
+      '  session "Again"',
+    );
+    const events = await traceOf(source, { defaultOutput: 'ok' });
+    const { sourceMap } = compile(parse(source).program, { sourceMaps: true });
+
+    const linked = linkTrace(events, sourceMap!);
+    const sessions = linked.filter(event => event.type === 'session-start');
+    expect(sessions[0].generated).toEqual({ line: 1, column: 1 });
+    expect(sessions[1].generated?.line).toBeGreaterThan(1);
+    expect(linked[0].generated).toBeUndefined();
+  });
+});
@@ -0,0 +1,366 @@
+/**
+ * Unit tests for the TypeScript compile target
+ *
+ * Tests the generated module's shape, that it type-checks in strict mode,
+ * and that running it against a mock backend gives the same sessions,
+ * output and bindings as the interpreter.
+ */
+
+import * as ts from 'typescript';
+import { readFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { parse } from '../parser';
+import { compileToTypeScript, IRError } from '../compiler';
+import { interpret, MockBackend, MockFixture } from '../interpreter';
+import { lines } from './helpers';
+
+function generate(source: string): string {
+  const { program, errors } = parse(source);
+  expect(errors).toHaveLength(0);
+  return compileToTypeScript(program);
+}
+
+/**
+ * Type errors in a generated module, checked as a strict ES2022 module
+ */
+function typeErrors(code: string): string[] {
+  const file = '/virtual/program.ts';
+  const options: ts.CompilerOptions = {
+    strict: true,
+    noEmit: true,
+    target: ts.ScriptTarget.ES2022,
+    module: ts.ModuleKind.CommonJS,
+    lib: ['lib.es2022.d.ts'],
+    types: ['node'],
+    typeRoots: [`${dirname(require.resolve('@types/node/package.json'))}/..`],
+  };
+  const host = ts.createCompilerHost(options);
+  const getSourceFile = host.getSourceFile;
+  host.getSourceFile = (name, languageVersion, ...rest) => name === file
+    ? ts.createSourceFile(name, code, languageVersion)
+    : getSourceFile.call(host, name, languageVersion, ...rest);
+  const fileExists = host.fileExists;
+  host.fileExists = name => name === file || fileExists.call(host, name);
+
+  const program = ts.createProgram([file], options, host);
+  return ts.getPreEmitDiagnostics(program)
+    .map(diagnostic => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+}
+
+/**
+ * Load a generated module's exports
+ */
+function load(code: string): any {
+  const { outputText } = ts.transpileModule(code, {
+    compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022 },
+  });
+  const module = { exports: {} as any };
+  new Function('exports', 'module', outputText)(module.exports, module);
+  return module.exports;
+}
+
+/**
+ * Run a program through the interpreter and through its generated module
+ */
+async function both(source: string, fixture: MockFixture) {
+  const interpreted = new MockBackend(fixture);
+  const expected = await interpret(parse(source).program, { backend: interpreted, sleep: async () => {} });
+  const compiled = new MockBackend(fixture);
+  const actual = await load(generate(source)).run(compiled, { sleep: async () => {} });
+  return { expected, actual, interpreted, compiled };
+}
+
+function prompts(backend: MockBackend): string[] {
+  return backend.sessions.map(session => session.prompt);
+}
+
+const sample = lines(
+  'import "web-search" from "github:example/web-search"',
+  'agent writer:',
+  '  model: sonnet',
+  '  prompt: "You write clearly"',
+  '  skills: ["web-search"]',
+  'block review(draft) returns { ok: boolean, notes: string[] }:',
+  '  session "Review {draft}" returns { ok: boolean, notes: string[] }',
+  'let topic = "AI safety"',
+  'let draft = session: writer',
+  '  prompt: "Write about {topic}"',
+  '  retry: 2',
+  '  backoff: "exponential"',
+  'parallel ("first", on-fail: "ignore"):',
+  '  a = session "Angle A"',
+  '  b = session "Angle B"',
+  'loop until **the draft is good** (max: 3):',
+  '  draft = session "Improve it"',
+  '    context: { draft, a }',
+  'let verdict = do review(draft)',
+  'let titles = ["x", "y"] | map:',
+  '  session "Title for {item}"',
+  '| filter:',
+  '  session "Is {item} catchy?"',
+  'try:',
+  '  session "Publish"',
+  '    retry: 1',
+  'catch as err:',
+  '  session "Report {err}"',
+  'finally:',
+  '  session "Clean up"',
+  'if **it was published**:',
+  '  session "Announce"',
+  'else:',
+  '  throw "Not published"',
+);
+
+describe('TypeScript target', () => {
+  describe('Emitting', () => {
+    it('should export a run function with agents and skills as constants', () => {
+      const code = generate(sample);
+
+      expect(code).toContain('export async function run(client: ProseClient, options: RunOptions = {}): Promise<RunResult> {');
+      expect(code).toContain('const AGENTS: { [name: string]: Agent } = {');
+      expect(code).toContain('export const SKILLS');
+      expect(code).toContain('// ========== Runtime ==========');
+    });
+
+    it('should turn sessions into runtime calls with their properties', () => {
+      const code = generate(sample);
+
+      expect(code).toContain('let draft: Value = await prose.session(signal, previous, {');
+      expect(code).toMatch(/agent: 'writer',\n\s+model: 'sonnet',\n\s+prompt: `Write about \$\{prose\.text\(topic\)\}`,\n\s+retry: 2,\n\s+backoff: 'exponential',/);
+    });
+
+    it('should turn blocks into nested functions that check their output', () => {
+      const code = generate(sample);
+
+      expect(code).toContain('async function review(signal: AbortSignal, previous: Value | undefined, draft: Value): Promise<Value> {');
+      expect(code).toContain('let verdict: Value = await review(signal, previous, draft);');
+      expect(code).toContain('return prose.output(await prose.session(signal, previous, {');
+      expect(code).toContain("additionalProperties: false }, 'review');");
+    });
+
+    it('should use the join helpers for parallel blocks', () => {
+      const code = generate(sample);
+
+      expect(code).toContain("await prose.first(signal, previous, 'ignore', [");
+      expect(code).toContain('await prose.map(');
+      expect(code).toContain('await prose.filter(');
+    });
+
+    it('should bound loops by their maximum', () => {
+      const code = generate(sample);
+
+      expect(code).toContain('for (let iteration = 0; ; iteration++) {');
+      expect(code).toContain('if (iteration >= 3) {');
+      expect(code).toContain("if (await prose.condition(signal, previous, 'the draft is good'");
+    });
+
+    it('should only catch program errors', () => {
+      const code = generate(sample);
+
+      expect(code).toContain('if (!(error instanceof ProseError)) {');
+      expect(code).toContain('const err = error.message;');
+      expect(code).toContain("throw new ProseError('Not published');");
+    });
+
+    it('should rename variables that clash with reserved words', () => {
+      const code = generate(lines(
+        'let class = session "A"',
+        'let run = session "B"',
+        'session "C"',
+        '  context: { class, run }',
+      ));
+
+      expect(code).toContain("let class2: Value = await prose.session(signal, previous, { prompt: 'A' });");
+      expect(code).toContain('context: { class: class2, run: run2 },');
+      expect(code).toContain('bindings: { class: class2, run: run2 }');
+    });
+
+    it('should report undefined references', () => {
+      expect(() => generate('session: missing\n  prompt: "Hi"\n')).toThrow(IRError);
+    });
+  });
+
+  describe('Type checking', () => {
+    it('should produce a module that type-checks in strict mode', () => {
+      expect(typeErrors(generate(sample))).toEqual([]);
+    });
+  });
+
+  describe('Running', () => {
+    it('should run sessions in order with interpolated prompts and context', async () => {
+      const source = lines(
+        'let topic = "compilers"',
+        'let notes = session "Research {topic}"',
+        'const summary = session "Summarize"',
+        '  context: { notes, topic }',
+        'summary -> session "Polish it"',
+      );
+      const { expected, actual, interpreted, compiled } = await both(source, { defaultOutput: 'done' });
+
+      expect(actual).toEqual(expected);
+      expect(prompts(compiled)).toEqual(prompts(interpreted));
+      expect(compiled.sessions[1].context).toEqual(interpreted.sessions[1].context);
+    });
+
+    it('should retry failing sessions and catch errors', async () => {
+      const source = lines(
+        'try:',
+        '  session "Flaky"',
+        '    retry: 2',
+        '  session "Broken"',
+        'catch as err:',
+        '  let reason = session "Explain {err}"',
+        'finally:',
+        '  session "Clean up"',
+      );
+      const fixture: MockFixture = {
+        sessions: [
+          { prompt: 'Flaky', responses: [{ error: 'timeout' }, { output: 'fine' }] },
+          { prompt: 'Broken', error: 'down' },
+        ],
+        defaultOutput: 'ok',
+      };
+      const { expected, actual, interpreted, compiled } = await both(source, fixture);
+
+      expect(actual).toEqual(expected);
+      expect(prompts(compiled)).toEqual(['Flaky', 'Flaky', 'Broken', 'Explain down', 'Clean up']);
+      expect(prompts(compiled)).toEqual(prompts(interpreted));
+    });
+
+    it('should loop until a condition holds and repeat a fixed number of times', async () => {
+      const source = lines(
+        'let draft = session "Draft"',
+        'loop until **the draft is good** (max: 5):',
+        '  draft = session "Improve"',
+        'repeat 2 as i:',
+        '  session "Pass {i}"',
+        'for item in ["a", "b"]:',
+        '  session "Handle {item}"',
+      );
+      const fixture: MockFixture = { conditions: { 'the draft is good': [false, false, true] }, defaultOutput: 'text' };
+      const { expected, actual, interpreted, compiled } = await both(source, fixture);
+
+      expect(actual).toEqual(expected);
+      expect(prompts(compiled)).toEqual(prompts(interpreted));
+    });
+
+    it('should join parallel branches', async () => {
+      const source = lines(
+        'parallel:',
+        '  a = session "A"',
+        '  b = session "B"',
+        'parallel ("any", count: 2):',
+        '  c = session "C"',
+        '  d = session "D"',
+        'session "Merge"',
+        '  context: { a, b }',
+      );
+      const fixture: MockFixture = { sessions: [{ prompt: '/^[A-D]$/', output: 'part' }], defaultOutput: 'ok' };
+      const { expected, actual, interpreted, compiled } = await both(source, fixture);
+
+      expect(actual).toEqual(expected);
+      expect(compiled.sessions[4].context).toEqual(interpreted.sessions[4].context);
+    });
+
+    it('should map, filter and reduce pipes', async () => {
+      const source = lines(
+        'let kept = ["a", "b", "c"] | map:',
+        '  session "Upper {item}"',
+        '| filter:',
+        '  session "Keep {item}?"',
+        'let joined = kept | reduce(total, item):',
+        '  session "Join {total} and {item}"',
+      );
+      const fixture: MockFixture = {
+        sessions: [
+          { prompt: 'Keep B?', output: false },
+          { prompt: '/^Upper (.)/', responses: [{ output: 'A' }, { output: 'B' }, { output: 'C' }] },
+          { prompt: '/^Keep/', output: true },
+        ],
+        defaultOutput: 'AC',
+      };
+      const { expected, actual, interpreted, compiled } = await both(source, fixture);
+
+      expect(actual).toEqual(expected);
+      expect(actual.bindings.kept).toEqual(['A', 'C']);
+      expect(prompts(compiled)).toEqual(prompts(interpreted));
+    });
+
+    it('should call blocks, make choices and branch', async () => {
+      const source = lines(
+        'block greet(name) returns string:',
+        '  session "Greet {name}"',
+        'let hello = do greet("Ada")',
+        'choice **which tone fits**:',
+        '  option "formal":',
+        '    session "Write formally"',
+        '  option "casual":',
+        '    session "Write casually"',
+        'if **the greeting is short**:',
+        '  session "Expand"',
+        'elif **the greeting is long**:',
+        '  session "Trim"',
+        'else:',
+        '  session "Keep"',
+      );
+      const fixture: MockFixture = {
+        choices: { 'which tone fits': 'casual' },
+        conditions: { 'the greeting is short': false, 'the greeting is long': true },
+        defaultOutput: 'hi',
+      };
+      const { expected, actual, interpreted, compiled } = await both(source, fixture);
+
+      expect(actual).toEqual(expected);
+      expect(prompts(compiled)).toEqual(['Greet Ada', 'Write casually', 'Trim']);
+      expect(prompts(compiled)).toEqual(prompts(interpreted));
+    });
+
+    it('should fill in the fields of interpolations', async () => {
+      const source = lines(
+        'let plan = session "Plan" returns { steps: string[], meta: { owner: string } }',
+        'session "Ask {plan.meta.owner} about {plan.steps}"',
+      );
+      const fixture: MockFixture = { sessions: [{ prompt: 'Plan', output: { steps: ['a'], meta: { owner: 'Ada' } } }], defaultOutput: 'done' };
+      const { expected, actual, interpreted, compiled } = await both(source, fixture);
+
+      expect(actual).toEqual(expected);
+      expect(prompts(compiled)).toEqual(['Plan', 'Ask Ada about ["a"]']);
+      expect(prompts(compiled)).toEqual(prompts(interpreted));
+    });
+
+    it('should see anonymous do block variables after the block', async () => {
+      const source = readFileSync(
+        join(__dirname, '../../../../test-harness/permutation-tests/118-let-do-block-then-foreach.prose'),
+        'utf-8'
+      );
+      const fixture: MockFixture = { sessions: [{ prompt: 'Prepare items', output: ['a', 'b'] }], defaultOutput: 'done' };
+      const { expected, actual, interpreted, compiled } = await both(source, fixture);
+
+      expect(typeErrors(generate(source))).toEqual([]);
+      expect(actual).toEqual(expected);
+      expect(prompts(compiled)).toEqual(['Prepare items', 'Process a', 'Process b']);
+      expect(prompts(compiled)).toEqual(prompts(interpreted));
+    });
+
+    it('should reject a block output that does not match its type', async () => {
+      const source = lines(
+        'block count() returns number:',
+        '  session "Count"',
+        'do count()',
+      );
+      const run = load(generate(source)).run(new MockBackend({ defaultOutput: 'many' }), {});
+
+      await expect(run).rejects.toThrow(/count/);
+    });
+
+    it('should stop loops at the loop limit', async () => {
+      const source = lines(
+        'loop:',
+        '  session "Again"',
+      );
+      const run = load(generate(source)).run(new MockBackend({ defaultOutput: 'x' }), { loopLimit: 3 });
+
+      await expect(run).rejects.toThrow(/3/);
+    });
+  });
+});
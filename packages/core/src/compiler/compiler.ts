@@ -4,7 +4,7 @@
  * Compiles OpenProse programs to a canonical form for the Orchestrator.
  * Handles:
  * - Comments (stripped by default)
- * - Sessions (simple and with agents)
+ * - Sessions (simple and with agents), with their output types
  * - Agent definitions
  */
 
@@ -16,6 +16,7 @@ import {
   SessionStatementNode,
   AgentDefinitionNode,
   ImportStatementNode,
+  UseStatementNode,
   PropertyNode,
   StringLiteralNode,
   NumberLiteralNode,
@@ -43,8 +44,15 @@ import {
   IfStatementNode,
   ElseIfClauseNode,
   InterpolatedStringNode,
+  TypeNode,
 } from '../parser';
 import { SourceSpan } from '../parser/tokens';
+import { formatType } from '../schema';
+
+/** What `open-prose compile` produces: canonical prose, the JSON IR or a TypeScript module */
+export type CompileTarget = 'prose' | 'ir' | 'ts';
+
+export const COMPILE_TARGETS: readonly CompileTarget[] = ['prose', 'ir', 'ts'];
 
 export interface CompilerOptions {
   /** Whether to preserve comments in the output (default: false) */
@@ -136,6 +144,9 @@ export class Compiler {
       case 'ImportStatement':
         this.compileImportStatement(statement);
         break;
+      case 'UseStatement':
+        this.compileUseStatement(statement);
+        break;
       case 'SessionStatement':
         this.compileSessionStatement(statement);
         break;
@@ -204,6 +215,22 @@ export class Compiler {
     this.emitNewline();
   }
 
+  /**
+   * Compile a use statement
+   */
+  private compileUseStatement(statement: UseStatementNode): void {
+    this.addSourceMapping(statement.span.start.line, statement.span.start.column);
+
+    // Emit: use "path" [as name]
+    this.emit('use "');
+    this.emit(this.escapeString(statement.source.value));
+    this.emit('"');
+    if (statement.alias) {
+      this.emit(` as ${statement.alias.name}`);
+    }
+    this.emitNewline();
+  }
+
   /**
    * Compile a let binding
    * Syntax: let name = expression
@@ -259,34 +286,7 @@ export class Compiler {
    */
   private compileBindingValue(value: ExpressionNode): void {
     if (value.type === 'SessionStatement') {
-      // Handle session as value - inline or with properties
-      const session = value as SessionStatementNode;
-
-      if (session.prompt && !session.agent && session.properties.length === 0) {
-        // Simple session with inline prompt
-        this.emit('session "');
-        this.emit(this.escapeString(session.prompt.value));
-        this.emit('"');
-        this.emitNewline();
-      } else if (session.agent) {
-        // Session with agent
-        this.emit('session');
-        if (session.name) {
-          this.emit(' ');
-          this.emit(session.name.name);
-        }
-        this.emit(': ');
-        this.emit(session.agent.name);
-        this.emitNewline();
-
-        // Emit properties
-        for (const prop of session.properties) {
-          this.compileProperty(prop);
-        }
-      } else {
-        // Just emit newline for malformed sessions
-        this.emitNewline();
-      }
+      this.compileSessionStatement(value as SessionStatementNode);
     } else if (value.type === 'DoBlock') {
       // Do block as value
       const doBlock = value as DoBlockNode;
@@ -584,6 +584,7 @@ export class Compiler {
       this.emit(')');
     }
 
+    this.compileReturns(block.returns);
     this.emit(':');
     this.emitNewline();
 
@@ -1081,6 +1082,20 @@ export class Compiler {
       }
       this.emit(': ');
       this.emit(session.agent.name);
+    } else if (session.returns) {
+      this.emit(':');
+    }
+    this.compileReturns(session.returns);
+  }
+
+  /**
+   * Compile an output type: the contract the output of a session or block
+   * is held to
+   */
+  private compileReturns(returns: TypeNode | null): void {
+    if (returns) {
+      this.emit(' returns ');
+      this.emit(formatType(returns));
     }
   }
 
@@ -1263,7 +1278,10 @@ export class Compiler {
       }
       this.emit(': ');
       this.emit(statement.agent.name);
+    } else if (statement.returns) {
+      this.emit(':');
     }
+    this.compileReturns(statement.returns);
 
     // Note: inline comments are stripped by default
     if (statement.inlineComment) {
@@ -3,6 +3,7 @@
  */
 
 export type {
+  CompileTarget,
   CompilerOptions,
   CompiledOutput,
   CommentInfo,
@@ -10,9 +11,57 @@ export type {
   SourceMapping,
 } from './compiler';
 
+export type {
+  ProseIR,
+  IRImport,
+  IRAgent,
+  IRBlock,
+  IRVariableKind,
+  IRScope,
+  IRBody,
+  IRNode,
+  IRString,
+  IRTemplate,
+  IRNumber,
+  IRVariable,
+  IRCondition,
+  IRArray,
+  IRField,
+  IRObject,
+  IRSession,
+  IRBinding,
+  IRAssignment,
+  IRCall,
+  IRDo,
+  IRSequence,
+  IRParallel,
+  IRLoop,
+  IRRepeat,
+  IRFor,
+  IRFilter,
+  IRReduce,
+  IRTry,
+  IRThrow,
+  IRChoice,
+  IRIf,
+} from './ir';
+
+export type { TypeScriptOptions } from './typescript';
+
 export {
+  COMPILE_TARGETS,
   Compiler,
   compile,
   compileToString,
   stripComments,
 } from './compiler';
+
+export {
+  IR_VERSION,
+  IRError,
+  compileToIR,
+} from './ir';
+
+export { IR_SCHEMA } from './ir-schema';
+
+export { compileToTypeScript } from './typescript';
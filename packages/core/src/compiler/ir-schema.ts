@@ -0,0 +1,157 @@
+/**
+ * JSON Schema of the OpenProse IR
+ *
+ * Describes the output of compileToIR, for tools in other languages that
+ * read it. Every field is always present; absent values are null.
+ */
+
+import { IR_VERSION } from './ir';
+
+type Schema = { [keyword: string]: unknown };
+
+const ref = (name: string): Schema => ({ $ref: `#/$defs/${name}` });
+const nullable = (schema: Schema): Schema => ({ anyOf: [schema, { type: 'null' }] });
+const list = (items: Schema): Schema => ({ type: 'array', items });
+const string: Schema = { type: 'string' };
+const integer: Schema = { type: 'integer' };
+
+/**
+ * An object with exactly these properties
+ */
+function record(properties: Schema): Schema {
+  return { type: 'object', required: Object.keys(properties), properties, additionalProperties: false };
+}
+
+/**
+ * A node of the given kind, with its span
+ */
+function node(kind: string | string[], properties: Schema = {}): Schema {
+  return record({ kind: Array.isArray(kind) ? { enum: kind } : { const: kind }, ...properties, span: ref('span') });
+}
+
+/**
+ * A node with a body in its own scope
+ */
+function scoped(kind: string, properties: Schema): Schema {
+  return node(kind, { ...properties, scope: string, body: list(ref('node')) });
+}
+
+const body = record({ scope: string, body: list(ref('node')) });
+const onFail: Schema = { enum: ['fail-fast', 'continue', 'ignore'] };
+
+export const IR_SCHEMA = {
+  $schema: 'https://json-schema.org/draft/2020-12/schema',
+  title: 'OpenProse IR',
+  ...record({
+    version: { const: IR_VERSION },
+    imports: list(ref('import')),
+    agents: list(ref('agent')),
+    blocks: list(ref('block')),
+    scopes: list(ref('scope')),
+    scope: string,
+    body: list(ref('node')),
+  }),
+  $defs: {
+    position: record({ line: integer, column: integer, offset: integer }),
+    span: record({ start: ref('position'), end: ref('position') }),
+    import: record({ skill: string, source: string, span: ref('span') }),
+    agent: record({
+      name: string,
+      model: nullable(string),
+      prompt: nullable(string),
+      skills: list(string),
+      permissions: { type: 'object' },
+      span: ref('span'),
+    }),
+    block: record({
+      name: string,
+      parameters: list(string),
+      returns: nullable(ref('output')),
+      scope: string,
+      body: list(ref('node')),
+      span: ref('span'),
+    }),
+    scope: record({
+      id: string,
+      parent: nullable(string),
+      variables: list(record({
+        name: string,
+        kind: { enum: ['let', 'const', 'parameter', 'item', 'index', 'accumulator', 'error'] },
+      })),
+    }),
+    output: {
+      type: 'object',
+      required: ['type'],
+      properties: {
+        type: { enum: ['string', 'number', 'boolean', 'array', 'object'] },
+        items: ref('output'),
+        properties: { type: 'object', additionalProperties: ref('output') },
+        required: list(string),
+        additionalProperties: { type: 'boolean' },
+      },
+      additionalProperties: false,
+    },
+    field: record({ name: string, value: ref('node') }),
+    variable: node('variable', { name: string, scope: string, fields: list(string) }),
+    node: {
+      oneOf: [
+        node('string', { value: string }),
+        node('template', { parts: list({ anyOf: [string, ref('variable')] }) }),
+        node('number', { value: { type: 'number' } }),
+        ref('variable'),
+        node('condition', { text: string }),
+        node('array', { elements: list(ref('node')) }),
+        node('object', { fields: list(ref('field')) }),
+        node('session', {
+          name: nullable(string),
+          agent: nullable(string),
+          model: nullable(string),
+          prompt: nullable(ref('node')),
+          context: nullable(list(ref('field'))),
+          retry: integer,
+          backoff: string,
+          returns: nullable(ref('output')),
+        }),
+        node(['let', 'const'], { name: string, scope: string, value: ref('node') }),
+        node('assign', { name: string, scope: string, value: ref('node') }),
+        node('call', { block: string, arguments: list(ref('node')) }),
+        scoped('do', {}),
+        node('sequence', { steps: list(ref('node')) }),
+        node('parallel', {
+          join: { enum: ['all', 'first', 'any'] },
+          count: integer,
+          onFail,
+          branches: list(ref('node')),
+        }),
+        scoped('loop', {
+          condition: nullable(record({ test: { enum: ['until', 'while'] }, text: string })),
+          max: nullable(integer),
+          counter: nullable(string),
+        }),
+        scoped('repeat', { count: { anyOf: [integer, ref('variable')] }, index: nullable(string) }),
+        scoped('for', {
+          item: string,
+          index: nullable(string),
+          collection: ref('node'),
+          parallel: { type: 'boolean' },
+          onFail,
+        }),
+        scoped('filter', { item: string, collection: ref('node') }),
+        scoped('reduce', { accumulator: string, item: string, collection: ref('node') }),
+        scoped('try', {
+          catch: nullable(record({ error: nullable(string), scope: string, body: list(ref('node')) })),
+          finally: nullable(body),
+        }),
+        node('throw', { message: nullable(ref('node')) }),
+        node('choice', {
+          criteria: string,
+          options: list(record({ label: string, scope: string, body: list(ref('node')) })),
+        }),
+        node('if', {
+          branches: list(record({ condition: string, scope: string, body: list(ref('node')) })),
+          else: nullable(body),
+        }),
+      ],
+    },
+  },
+};
@@ -0,0 +1,786 @@
+/**
+ * OpenProse Intermediate Representation
+ *
+ * A versioned JSON form of a program, for runners and tools that don't parse
+ * .prose themselves. Compared with the syntax tree:
+ *
+ * - Agents and blocks are hoisted out of the body. A session names its
+ *   agent and a call names its block, and both must exist; a session's
+ *   model is resolved from its agent when it doesn't set one.
+ * - Every body with its own variables has a scope in `scopes`, and every
+ *   variable read names the scope that declares it. `{name}` in a string
+ *   becomes a template of text and variables.
+ * - `a -> b` is a `sequence`. A pipe is nested stages: `map` and `pmap` are
+ *   `for` loops, which collect their results; `filter` and `reduce` keep
+ *   their own kinds.
+ * - Session properties are fields, and `context:` is a list of named
+ *   entries.
+ *
+ * Every node has a `kind` and its source `span`. A body evaluates to the
+ * value of its last node, and a session without `context:` gets the value
+ * before it. IR_SCHEMA is the JSON Schema of this format.
+ */
+
+import {
+  ProgramNode,
+  StatementNode,
+  ExpressionNode,
+  IdentifierNode,
+  SessionStatementNode,
+  BlockDefinitionNode,
+  PipeExpressionNode,
+  PipeOperationNode,
+  CommentStatementNode,
+  ImportStatementNode,
+  UseStatementNode,
+  AgentDefinitionNode,
+  ForEachBlockNode,
+  TryBlockNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { JsonSchema, toJsonSchema } from '../schema';
+import { FailurePolicy, JoinStrategy, ResolvedAgent, propertyText, resolveAgent } from '../interpreter';
+
+export const IR_VERSION = 1;
+
+export interface ProseIR {
+  version: number;
+  imports: IRImport[];
+  agents: IRAgent[];
+  blocks: IRBlock[];
+  /** Every scope in the program, the program's own first */
+  scopes: IRScope[];
+  /** The program's scope, "s0" */
+  scope: string;
+  body: IRNode[];
+}
+
+export interface IRImport {
+  skill: string;
+  source: string;
+  span: SourceSpan;
+}
+
+export interface IRAgent extends ResolvedAgent {
+  span: SourceSpan;
+}
+
+export interface IRBlock {
+  name: string;
+  parameters: string[];
+  /** JSON Schema of the block's result, from `returns` */
+  returns: JsonSchema | null;
+  /** Declares the parameters; its parent is the program's scope */
+  scope: string;
+  body: IRNode[];
+  span: SourceSpan;
+}
+
+/** How a variable was declared */
+export type IRVariableKind = 'let' | 'const' | 'parameter' | 'item' | 'index' | 'accumulator' | 'error';
+
+export interface IRScope {
+  /** "s0", "s1", ... */
+  id: string;
+  parent: string | null;
+  variables: { name: string; kind: IRVariableKind }[];
+}
+
+/**
+ * A body with its own scope
+ */
+export interface IRBody {
+  scope: string;
+  body: IRNode[];
+}
+
+export type IRNode =
+  | IRString
+  | IRTemplate
+  | IRNumber
+  | IRVariable
+  | IRCondition
+  | IRArray
+  | IRObject
+  | IRSession
+  | IRBinding
+  | IRAssignment
+  | IRCall
+  | IRDo
+  | IRSequence
+  | IRParallel
+  | IRLoop
+  | IRRepeat
+  | IRFor
+  | IRFilter
+  | IRReduce
+  | IRTry
+  | IRThrow
+  | IRChoice
+  | IRIf;
+
+export interface IRString {
+  kind: 'string';
+  value: string;
+  span: SourceSpan;
+}
+
+/**
+ * A string with variables filled in: "Review {draft}"
+ */
+export interface IRTemplate {
+  kind: 'template';
+  parts: (string | IRVariable)[];
+  span: SourceSpan;
+}
+
+export interface IRNumber {
+  kind: 'number';
+  value: number;
+  span: SourceSpan;
+}
+
+/**
+ * A variable read; `plan.steps` is `plan` with fields ["steps"]
+ */
+export interface IRVariable {
+  kind: 'variable';
+  name: string;
+  /** The scope that declares the variable */
+  scope: string;
+  fields: string[];
+  span: SourceSpan;
+}
+
+/**
+ * A **discretion** condition used as a value, decided by the backend
+ */
+export interface IRCondition {
+  kind: 'condition';
+  text: string;
+  span: SourceSpan;
+}
+
+export interface IRArray {
+  kind: 'array';
+  elements: IRNode[];
+  span: SourceSpan;
+}
+
+export interface IRField {
+  name: string;
+  value: IRNode;
+}
+
+export interface IRObject {
+  kind: 'object';
+  fields: IRField[];
+  span: SourceSpan;
+}
+
+export interface IRSession {
+  kind: 'session';
+  /** From `session name: agent` */
+  name: string | null;
+  agent: string | null;
+  /** The session's model, or else its agent's */
+  model: string | null;
+  /** From `prompt:` or the session's string; null if it has neither */
+  prompt: IRNode | null;
+  /** Named context entries; null without `context:` */
+  context: IRField[] | null;
+  retry: number;
+  backoff: string;
+  /** JSON Schema of the output, from `returns` */
+  returns: JsonSchema | null;
+  span: SourceSpan;
+}
+
+export interface IRBinding {
+  kind: 'let' | 'const';
+  name: string;
+  scope: string;
+  value: IRNode;
+  span: SourceSpan;
+}
+
+/**
+ * An assignment; inside a parallel block, one to a new name declares it
+ */
+export interface IRAssignment {
+  kind: 'assign';
+  name: string;
+  scope: string;
+  value: IRNode;
+  span: SourceSpan;
+}
+
+/**
+ * A call of a named block: `do name(args)`
+ */
+export interface IRCall {
+  kind: 'call';
+  block: string;
+  arguments: IRNode[];
+  span: SourceSpan;
+}
+
+/**
+ * An anonymous `do:` block
+ */
+export interface IRDo extends IRBody {
+  kind: 'do';
+  span: SourceSpan;
+}
+
+/**
+ * Steps that each get the value of the one before, from `a -> b`
+ */
+export interface IRSequence {
+  kind: 'sequence';
+  steps: IRNode[];
+  span: SourceSpan;
+}
+
+/**
+ * Branches run concurrently in the enclosing scope
+ */
+export interface IRParallel {
+  kind: 'parallel';
+  join: JoinStrategy;
+  /** How many branches `any` waits for */
+  count: number;
+  onFail: FailurePolicy;
+  branches: IRNode[];
+  span: SourceSpan;
+}
+
+export interface IRLoop extends IRBody {
+  kind: 'loop';
+  /** Checked before each iteration; null for a bare `loop:` */
+  condition: { test: 'until' | 'while'; text: string } | null;
+  /** null when only the runner's own limit applies */
+  max: number | null;
+  counter: string | null;
+  span: SourceSpan;
+}
+
+export interface IRRepeat extends IRBody {
+  kind: 'repeat';
+  count: number | IRVariable;
+  index: string | null;
+  span: SourceSpan;
+}
+
+/**
+ * A loop over a collection, collecting each item's value. `map` and `pmap`
+ * stages are `for` loops over the item `item`.
+ */
+export interface IRFor extends IRBody {
+  kind: 'for';
+  item: string;
+  index: string | null;
+  collection: IRNode;
+  parallel: boolean;
+  /** For parallel loops */
+  onFail: FailurePolicy;
+  span: SourceSpan;
+}
+
+/**
+ * The items of a collection whose body's value is truthy
+ */
+export interface IRFilter extends IRBody {
+  kind: 'filter';
+  item: string;
+  collection: IRNode;
+  span: SourceSpan;
+}
+
+/**
+ * Folds a collection, starting from its first item
+ */
+export interface IRReduce extends IRBody {
+  kind: 'reduce';
+  accumulator: string;
+  item: string;
+  collection: IRNode;
+  span: SourceSpan;
+}
+
+export interface IRTry extends IRBody {
+  kind: 'try';
+  catch: (IRBody & { error: string | null }) | null;
+  finally: IRBody | null;
+  span: SourceSpan;
+}
+
+/**
+ * A `throw`; without a message, it rethrows the error being caught
+ */
+export interface IRThrow {
+  kind: 'throw';
+  message: IRNode | null;
+  span: SourceSpan;
+}
+
+export interface IRChoice {
+  kind: 'choice';
+  criteria: string;
+  options: (IRBody & { label: string })[];
+  span: SourceSpan;
+}
+
+export interface IRIf {
+  kind: 'if';
+  /** `if` and each `elif`, in order */
+  branches: (IRBody & { condition: string })[];
+  else: IRBody | null;
+  span: SourceSpan;
+}
+
+/**
+ * Error thrown for a reference the IR can't resolve
+ */
+export class IRError extends Error {
+  constructor(message: string, public span: SourceSpan) {
+    super(message);
+    this.name = 'IRError';
+  }
+}
+
+/** Statements that declare things rather than run */
+type Declaration = CommentStatementNode | ImportStatementNode | UseStatementNode | AgentDefinitionNode | BlockDefinitionNode;
+
+const DECLARATIONS = new Set(['CommentStatement', 'ImportStatement', 'UseStatement', 'AgentDefinition', 'BlockDefinition']);
+
+function isDeclaration(statement: StatementNode): statement is Declaration {
+  return DECLARATIONS.has(statement.type);
+}
+
+/**
+ * What a scope belongs to. As in the validator, an anonymous do block's
+ * variables escape through the bodies of if, try, choice and pipes to the
+ * nearest enclosing program, block or loop scope, unless they shadow one.
+ */
+type ScopeKind = 'scope' | 'body' | 'do';
+
+/** A `{name}` or `{name.field}` interpolation in a string */
+const INTERPOLATION = /\{([A-Za-z][A-Za-z0-9_-]*)((?:\.\w+)*)\}/g;
+
+class IRBuilder {
+  private readonly scopes: IRScope[] = [];
+  private readonly kinds: Map<string, ScopeKind> = new Map();
+  private readonly agents: Map<string, ResolvedAgent> = new Map();
+  private readonly blocks: Set<string> = new Set();
+  private current!: IRScope;
+
+  constructor(private readonly program: ProgramNode) {
+    for (const statement of program.statements) {
+      if (statement.type === 'AgentDefinition') {
+        this.agents.set(statement.name.name, resolveAgent(statement));
+      } else if (statement.type === 'BlockDefinition') {
+        this.blocks.add(statement.name.name);
+      }
+    }
+  }
+
+  public build(): ProseIR {
+    const { scope, body } = this.scoped(this.program.statements);
+    const root = this.current;
+    const statements = this.program.statements;
+
+    return {
+      version: IR_VERSION,
+      imports: statements.flatMap(statement => statement.type === 'ImportStatement'
+        ? [{ skill: statement.skillName.value, source: statement.source.value, span: statement.span }]
+        : []),
+      agents: statements.flatMap(statement => statement.type === 'AgentDefinition'
+        ? [{ ...this.agents.get(statement.name.name)!, span: statement.span }]
+        : []),
+      // Blocks see the program's variables, wherever they're called from
+      blocks: statements.flatMap(statement => statement.type === 'BlockDefinition' ? [this.block(statement, root)] : []),
+      scopes: this.scopes,
+      scope,
+      body,
+    };
+  }
+
+  private block(block: BlockDefinitionNode, root: IRScope): IRBlock {
+    this.current = root;
+    const parameters = block.parameters.map(parameter => parameter.name);
+    return {
+      name: block.name.name,
+      parameters,
+      returns: block.returns ? toJsonSchema(block.returns) : null,
+      ...this.scoped(block.body, parameters.map(name => [name, 'parameter'])),
+      span: block.span,
+    };
+  }
+
+  // ========== Scopes ==========
+
+  /**
+   * Build a body in a new scope that declares the given variables
+   */
+  private scoped(
+    statements: StatementNode[],
+    variables: [string, IRVariableKind][] = [],
+    kind: ScopeKind = 'scope'
+  ): IRBody {
+    const parent = this.scopes.length === 0 ? null : this.current;
+    const scope: IRScope = { id: `s${this.scopes.length}`, parent: parent?.id ?? null, variables: [] };
+    this.scopes.push(scope);
+    this.kinds.set(scope.id, kind);
+    this.current = scope;
+    for (const [name, kind] of variables) {
+      this.declare(name, kind);
+    }
+    const body = this.body(statements);
+    if (parent) {
+      this.current = parent;
+    }
+    return { scope: scope.id, body };
+  }
+
+  private declare(name: string, kind: IRVariableKind, scope: IRScope = this.current): string {
+    scope.variables.push({ name, kind });
+    return scope.id;
+  }
+
+  /**
+   * Declare a let or const variable, in the scope it escapes to if the
+   * current scope is an anonymous do block's
+   */
+  private bind(name: string, kind: 'let' | 'const'): string {
+    const parent = this.parentOf(this.current);
+    if (this.kinds.get(this.current.id) !== 'do' || !parent || this.lookup(name, parent) !== null) {
+      return this.declare(name, kind);
+    }
+    // The program's and blocks' scopes end the walk
+    let target = parent;
+    while (this.kinds.get(target.id) !== 'scope') {
+      target = this.parentOf(target)!;
+    }
+    return this.declare(name, kind, target);
+  }
+
+  private parentOf(scope: IRScope): IRScope | undefined {
+    return this.scopes.find(candidate => candidate.id === scope.parent);
+  }
+
+  /**
+   * The scope that declares a variable, or null if none in reach does
+   */
+  private lookup(name: string, from: IRScope = this.current): string | null {
+    for (let scope: IRScope | undefined = from; scope; scope = this.parentOf(scope)) {
+      if (scope.variables.some(variable => variable.name === name)) {
+        return scope.id;
+      }
+    }
+    return null;
+  }
+
+  private variable(identifier: IdentifierNode): IRVariable {
+    const [name, ...fields] = identifier.name.split('.');
+    const scope = this.lookup(name);
+    if (scope === null) {
+      throw new IRError(`Undefined variable: "${name}"`, identifier.span);
+    }
+    return { kind: 'variable', name, scope, fields, span: identifier.span };
+  }
+
+  /**
+   * A string with its `{name}` interpolations; names that aren't variables
+   * stay as text, as they do at run time
+   */
+  private template(text: string, span: SourceSpan): IRString | IRTemplate {
+    const parts: (string | IRVariable)[] = [];
+    let end = 0;
+    for (const match of text.matchAll(INTERPOLATION)) {
+      const scope = this.lookup(match[1]);
+      if (scope === null) {
+        continue;
+      }
+      if (match.index! > end) {
+        parts.push(text.slice(end, match.index));
+      }
+      parts.push({ kind: 'variable', name: match[1], scope, fields: match[2].split('.').slice(1), span });
+      end = match.index! + match[0].length;
+    }
+    if (parts.length === 0) {
+      return { kind: 'string', value: text, span };
+    }
+    if (end < text.length) {
+      parts.push(text.slice(end));
+    }
+    return { kind: 'template', parts, span };
+  }
+
+  // ========== Statements ==========
+
+  private body(statements: StatementNode[]): IRNode[] {
+    return statements.flatMap(statement => isDeclaration(statement) ? [] : [this.statement(statement)]);
+  }
+
+  private statement(statement: Exclude<StatementNode, Declaration>): IRNode {
+    switch (statement.type) {
+      case 'LetBinding':
+      case 'ConstBinding': {
+        const value = this.expression(statement.value);
+        const kind = statement.type === 'LetBinding' ? 'let' : 'const';
+        return { kind, name: statement.name.name, scope: this.bind(statement.name.name, kind), value, span: statement.span };
+      }
+      case 'Assignment': {
+        const value = this.expression(statement.value);
+        const name = statement.name.name;
+        const scope = this.lookup(name) ?? this.declare(name, 'let');
+        return { kind: 'assign', name, scope, value, span: statement.span };
+      }
+      case 'ThrowStatement':
+        return {
+          kind: 'throw',
+          message: statement.message ? this.template(statement.message.value, statement.message.span) : null,
+          span: statement.span,
+        };
+      default:
+        return this.expression(statement);
+    }
+  }
+
+  // ========== Expressions ==========
+
+  private expression(expr: ExpressionNode): IRNode {
+    switch (expr.type) {
+      case 'StringLiteral':
+        return this.template(expr.value, expr.span);
+      case 'InterpolatedString':
+        return {
+          kind: 'template',
+          parts: expr.parts.map(part => part.type === 'Identifier' ? this.variable(part) : part.value),
+          span: expr.span,
+        };
+      case 'NumberLiteral':
+        return { kind: 'number', value: expr.value, span: expr.span };
+      case 'Identifier':
+        return this.variable(expr);
+      case 'Discretion':
+        return { kind: 'condition', text: expr.expression, span: expr.span };
+      case 'ArrayExpression':
+        return { kind: 'array', elements: expr.elements.map(element => this.expression(element)), span: expr.span };
+      case 'ObjectExpression':
+        return {
+          kind: 'object',
+          fields: expr.properties.map(property => ({ name: property.name.name, value: this.expression(property.value) })),
+          span: expr.span,
+        };
+      case 'SessionStatement':
+        return this.session(expr);
+      case 'ArrowExpression':
+        return { kind: 'sequence', steps: this.steps(expr), span: expr.span };
+      case 'PipeExpression':
+        return this.pipe(expr);
+      case 'DoBlock':
+        if (expr.name) {
+          if (!this.blocks.has(expr.name.name)) {
+            throw new IRError(`Undefined block: "${expr.name.name}"`, expr.name.span);
+          }
+          return {
+            kind: 'call',
+            block: expr.name.name,
+            arguments: expr.arguments.map(argument => this.expression(argument)),
+            span: expr.span,
+          };
+        }
+        return { kind: 'do', ...this.scoped(expr.body, [], 'do'), span: expr.span };
+      case 'ParallelBlock':
+        return {
+          kind: 'parallel',
+          join: (expr.joinStrategy?.value ?? 'all') as JoinStrategy,
+          count: expr.anyCount?.value ?? 1,
+          onFail: (expr.onFail?.value ?? 'fail-fast') as FailurePolicy,
+          branches: this.body(expr.body),
+          span: expr.span,
+        };
+      case 'LoopBlock':
+        return {
+          kind: 'loop',
+          condition: expr.condition && expr.variant !== 'loop' ? { test: expr.variant, text: expr.condition.expression } : null,
+          max: expr.maxIterations?.value ?? null,
+          counter: expr.iterationVar?.name ?? null,
+          ...this.scoped(expr.body, expr.iterationVar ? [[expr.iterationVar.name, 'index']] : []),
+          span: expr.span,
+        };
+      case 'RepeatBlock':
+        return {
+          kind: 'repeat',
+          count: expr.count.type === 'NumberLiteral' ? expr.count.value : this.variable(expr.count),
+          index: expr.indexVar?.name ?? null,
+          ...this.scoped(expr.body, expr.indexVar ? [[expr.indexVar.name, 'index']] : []),
+          span: expr.span,
+        };
+      case 'ForEachBlock':
+        return this.forEach(expr);
+      case 'TryBlock':
+        return this.tryBlock(expr);
+      case 'ChoiceBlock':
+        return {
+          kind: 'choice',
+          criteria: expr.criteria.expression,
+          options: expr.options.map(option => ({ label: option.label.value, ...this.scoped(option.body, [], 'body') })),
+          span: expr.span,
+        };
+      case 'IfStatement':
+        return {
+          kind: 'if',
+          branches: [{ condition: expr.condition, body: expr.thenBody }, ...expr.elseIfClauses].map(clause => ({
+            condition: clause.condition.expression,
+            ...this.scoped(clause.body, [], 'body'),
+          })),
+          else: expr.elseBody ? this.scoped(expr.elseBody, [], 'body') : null,
+          span: expr.span,
+        };
+    }
+  }
+
+  private session(session: SessionStatementNode): IRSession {
+    const properties = session.properties;
+    let agent: ResolvedAgent | null = null;
+    if (session.agent) {
+      agent = this.agents.get(session.agent.name) ?? null;
+      if (!agent) {
+        throw new IRError(`Undefined agent: "${session.agent.name}"`, session.agent.span);
+      }
+    }
+
+    const promptProperty = properties.find(property => property.name.name === 'prompt');
+    const contextProperty = properties.find(property => property.name.name === 'context');
+    return {
+      kind: 'session',
+      name: session.name?.name ?? null,
+      agent: agent?.name ?? null,
+      model: propertyText(properties, 'model') ?? agent?.model ?? null,
+      prompt: promptProperty
+        ? this.expression(promptProperty.value)
+        : session.prompt ? this.template(session.prompt.value, session.prompt.span) : null,
+      context: contextProperty ? this.context(contextProperty.value) : null,
+      retry: Number(propertyText(properties, 'retry')) || 0,
+      backoff: propertyText(properties, 'backoff') ?? 'none',
+      returns: session.returns ? toJsonSchema(session.returns) : null,
+      span: session.span,
+    };
+  }
+
+  /**
+   * `context: a`, `[a, b]` and `{ a, b }` as named entries; any other value
+   * is named "context"
+   */
+  private context(expr: ExpressionNode): IRField[] {
+    switch (expr.type) {
+      case 'Identifier':
+        return [{ name: expr.name, value: this.variable(expr) }];
+      case 'ArrayExpression':
+        return expr.elements.map((element, index) => ({
+          name: element.type === 'Identifier' ? element.name : String(index),
+          value: this.expression(element),
+        }));
+      case 'ObjectExpression':
+        return expr.properties.map(property => ({ name: property.name.name, value: this.expression(property.value) }));
+      default:
+        return [{ name: 'context', value: this.expression(expr) }];
+    }
+  }
+
+  /**
+   * The steps of `a -> b -> c`, in order
+   */
+  private steps(expr: ExpressionNode): IRNode[] {
+    if (expr.type !== 'ArrowExpression') {
+      return [this.expression(expr)];
+    }
+    return [...this.steps(expr.left), ...this.steps(expr.right)];
+  }
+
+  private pipe(pipe: PipeExpressionNode): IRNode {
+    let collection = this.expression(pipe.input);
+    for (const operation of pipe.operations) {
+      collection = this.pipeStage(operation, collection);
+    }
+    return collection;
+  }
+
+  private pipeStage(operation: PipeOperationNode, collection: IRNode): IRNode {
+    const span = operation.span;
+    switch (operation.operator) {
+      case 'map':
+      case 'pmap':
+        return {
+          kind: 'for',
+          item: 'item',
+          index: null,
+          collection,
+          parallel: operation.operator === 'pmap',
+          onFail: 'fail-fast',
+          ...this.scoped(operation.body, [['item', 'item']], 'body'),
+          span,
+        };
+      case 'filter':
+        return { kind: 'filter', item: 'item', collection, ...this.scoped(operation.body, [['item', 'item']], 'body'), span };
+      case 'reduce': {
+        const accumulator = operation.accVar?.name ?? 'acc';
+        const item = operation.itemVar?.name ?? 'item';
+        return {
+          kind: 'reduce',
+          accumulator,
+          item,
+          collection,
+          ...this.scoped(operation.body, [[accumulator, 'accumulator'], [item, 'item']], 'body'),
+          span,
+        };
+      }
+    }
+  }
+
+  private forEach(forEach: ForEachBlockNode): IRFor {
+    const collection = this.expression(forEach.collection);
+    const variables: [string, IRVariableKind][] = [[forEach.itemVar.name, 'item']];
+    if (forEach.indexVar) {
+      variables.push([forEach.indexVar.name, 'index']);
+    }
+    return {
+      kind: 'for',
+      item: forEach.itemVar.name,
+      index: forEach.indexVar?.name ?? null,
+      collection,
+      parallel: forEach.isParallel,
+      onFail: (propertyText(forEach.modifiers, 'on-fail') ?? 'fail-fast') as FailurePolicy,
+      ...this.scoped(forEach.body, variables),
+      span: forEach.span,
+    };
+  }
+
+  private tryBlock(tryBlock: TryBlockNode): IRTry {
+    const tried = this.scoped(tryBlock.tryBody, [], 'body');
+    return {
+      kind: 'try',
+      ...tried,
+      catch: tryBlock.catchBody
+        ? {
+          error: tryBlock.errorVar?.name ?? null,
+          ...this.scoped(tryBlock.catchBody, tryBlock.errorVar ? [[tryBlock.errorVar.name, 'error']] : []),
+        }
+        : null,
+      finally: tryBlock.finallyBody ? this.scoped(tryBlock.finallyBody, [], 'body') : null,
+      span: tryBlock.span,
+    };
+  }
+}
+
+/**
+ * Compile a program to the IR. Run it on a linked program (see
+ * linkProgram) so the agents and blocks it uses are included. Throws an
+ * IRError for an agent, block or variable that isn't defined.
+ */
+export function compileToIR(program: ProgramNode): ProseIR {
+  return new IRBuilder(program).build();
+}
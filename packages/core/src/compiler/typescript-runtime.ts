@@ -0,0 +1,633 @@
+/**
+ * Runtime of the TypeScript target
+ *
+ * Appended to every module compileToTypeScript generates, so the module
+ * needs nothing but a client. It mirrors the reference interpreter: the
+ * same session requests, retries and backoff, join strategies and failure
+ * policies, and the same error messages.
+ */
+
+export const TS_RUNTIME = String.raw`// ========== Runtime ==========
+
+export type Value = string | number | boolean | null | Value[] | { [key: string]: Value };
+
+/**
+ * The JSON Schema of a returns type
+ */
+export interface JsonSchema {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  items?: JsonSchema;
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+export interface Agent {
+  name: string;
+  model: string | null;
+  /** The agent's system prompt */
+  prompt: string | null;
+  skills: string[];
+  permissions: { [key: string]: Value };
+}
+
+export interface SessionRequest {
+  /** The task prompt, with {var} interpolations filled in */
+  prompt: string;
+  /** Session name, from "session name: agent" */
+  name: string | null;
+  agent: Agent | null;
+  /** Model from the session, or else its agent */
+  model: string | null;
+  /** What the session may do: its agent's permissions */
+  permissions: { [key: string]: Value };
+  /** Explicit "context:" bindings, by name */
+  context: { [name: string]: Value };
+  /** The predecessor's output, passed implicitly when there is no "context:" */
+  previous?: Value;
+  /** JSON Schema of the output; text output is parsed as JSON */
+  returns?: JsonSchema;
+  /** 1 for the first attempt, then counting retries */
+  attempt: number;
+  /** Why the previous attempt failed, on a retry */
+  previousError?: string;
+  /** Aborted when the session's result is no longer needed */
+  signal: AbortSignal;
+}
+
+/**
+ * A **discretion** condition to decide
+ */
+export interface ConditionRequest {
+  condition: string;
+  /** Variables in scope */
+  bindings: { [name: string]: Value };
+  previous?: Value;
+  signal: AbortSignal;
+}
+
+/**
+ * A choice block to decide
+ */
+export interface ChoiceRequest {
+  criteria: string;
+  /** Option labels, in source order */
+  options: string[];
+  bindings: { [name: string]: Value };
+  previous?: Value;
+  signal: AbortSignal;
+}
+
+/**
+ * Runs the parts of the program that need a model. An OpenProse
+ * SessionBackend is a ProseClient.
+ */
+export interface ProseClient {
+  /** Run a session; a rejection is a session failure */
+  runSession(request: SessionRequest): Promise<{ output: Value }>;
+  /** Decide whether a condition holds */
+  evaluateCondition(request: ConditionRequest): Promise<boolean>;
+  /** Pick an option of a choice block, by label */
+  chooseOption(request: ChoiceRequest): Promise<string>;
+}
+
+export interface RunOptions {
+  /** Iterations a loop without (max: N) may run before failing (default: 100) */
+  loopLimit?: number;
+  /** Base delay in milliseconds for linear and exponential backoff (default: 1000) */
+  backoffDelay?: number;
+  /** Waits between retries; replace it to retry without real delays */
+  sleep?: (ms: number) => Promise<void>;
+  /** Aborts the run */
+  signal?: AbortSignal;
+}
+
+export interface RunResult {
+  /** Value of the last top-level statement */
+  output: Value;
+  /** Top-level variables when the program finished */
+  bindings: { [name: string]: Value };
+}
+
+/**
+ * An error raised while running the program: a failed session, a throw,
+ * or a runtime check such as iterating over a non-array. The program's
+ * try/catch handles these.
+ */
+export class ProseError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'ProseError';
+  }
+}
+
+/**
+ * Thrown when a parallel branch or the whole run is aborted. try/catch
+ * doesn't handle it, though finally blocks still run.
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Execution cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+type FailurePolicy = 'fail-fast' | 'continue' | 'ignore';
+
+/**
+ * A parallel branch, run with a signal of its own and the value before the
+ * parallel block
+ */
+type Branch = (signal: AbortSignal, previous: Value | undefined) => Promise<Value>;
+
+interface SessionSpec {
+  name?: string;
+  agent?: string;
+  model?: string;
+  prompt?: string;
+  context?: { [name: string]: Value };
+  retry?: number;
+  backoff?: string;
+  returns?: JsonSchema;
+}
+
+class Runtime {
+  public readonly signal: AbortSignal;
+  private readonly loopLimit: number;
+  private readonly backoffDelay: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+
+  constructor(
+    private readonly client: ProseClient,
+    private readonly agents: { [name: string]: Agent },
+    options: RunOptions
+  ) {
+    this.signal = options.signal ?? new AbortController().signal;
+    this.loopLimit = options.loopLimit ?? 100;
+    this.backoffDelay = options.backoffDelay ?? 1000;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+  }
+
+  // ========== Client calls ==========
+
+  /**
+   * Run a session, retrying failed attempts with backoff
+   */
+  public async session(signal: AbortSignal, previous: Value | undefined, spec: SessionSpec): Promise<Value> {
+    const agent = spec.agent === undefined ? null : this.agents[spec.agent];
+    const retries = spec.retry ?? 0;
+    let previousError: string | undefined;
+    for (let attempt = 1; ; attempt++) {
+      check(signal);
+      try {
+        const result = await this.client.runSession({
+          prompt: spec.prompt ?? '',
+          name: spec.name ?? null,
+          agent,
+          model: spec.model ?? null,
+          permissions: agent?.permissions ?? {},
+          context: spec.context ?? {},
+          ...(spec.context === undefined && previous !== undefined ? { previous } : {}),
+          ...(spec.returns === undefined ? {} : { returns: spec.returns }),
+          attempt,
+          ...(previousError === undefined ? {} : { previousError }),
+          signal,
+        });
+        check(signal);
+        // Output that doesn't match the session's type fails the attempt
+        return spec.returns ? structured(result.output, spec.returns) : result.output;
+      } catch (error) {
+        if (error instanceof CancelledError) {
+          throw error;
+        }
+        previousError = error instanceof Error ? error.message : String(error);
+        if (attempt > retries) {
+          throw new ProseError(previousError, error);
+        }
+      }
+      await this.sleep(this.backoff(spec.backoff ?? 'none', attempt));
+    }
+  }
+
+  /**
+   * Delay before a retry; attempt is 1 for the first retry
+   */
+  private backoff(backoff: string, attempt: number): number {
+    switch (backoff) {
+      case 'none':
+        return 0;
+      case 'linear':
+        return this.backoffDelay * attempt;
+      case 'exponential':
+        return this.backoffDelay * 2 ** (attempt - 1);
+      default:
+        return Number(backoff) || 0;
+    }
+  }
+
+  public condition(
+    signal: AbortSignal,
+    previous: Value | undefined,
+    condition: string,
+    bindings: { [name: string]: Value }
+  ): Promise<boolean> {
+    return this.ask(signal, () => this.client.evaluateCondition({
+      condition,
+      bindings,
+      ...(previous === undefined ? {} : { previous }),
+      signal,
+    }));
+  }
+
+  public async choose(
+    signal: AbortSignal,
+    previous: Value | undefined,
+    criteria: string,
+    options: string[],
+    bindings: { [name: string]: Value }
+  ): Promise<string> {
+    const label = await this.ask(signal, () => this.client.chooseOption({
+      criteria,
+      options,
+      bindings,
+      ...(previous === undefined ? {} : { previous }),
+      signal,
+    }));
+    if (!options.includes(label)) {
+      throw new ProseError('The backend chose "' + label + '", which is not an option');
+    }
+    return label;
+  }
+
+  /**
+   * Ask the client to decide something; a rejection fails the statement
+   * that asked
+   */
+  private async ask<T>(signal: AbortSignal, decide: () => Promise<T>): Promise<T> {
+    check(signal);
+    let answer: T;
+    try {
+      answer = await decide();
+    } catch (error) {
+      if (error instanceof CancelledError || error instanceof ProseError) {
+        throw error;
+      }
+      throw new ProseError(error instanceof Error ? error.message : String(error), error);
+    }
+    check(signal);
+    return answer;
+  }
+
+  // ========== Parallel blocks ==========
+
+  /**
+   * Every branch's value, in order. With fail-fast, the first failure fails
+   * the block; with continue, the block fails once every branch has
+   * finished; with ignore, failed branches yield null.
+   */
+  public all(signal: AbortSignal, previous: Value | undefined, onFail: FailurePolicy, branches: Branch[]): Promise<Value> {
+    return this.join(signal, previous, branches, async running => {
+      if (onFail === 'fail-fast') {
+        return Promise.all(running);
+      }
+      const settled = await Promise.allSettled(running);
+      const errors = settled.flatMap(result => result.status === 'rejected' ? [result.reason as unknown] : []);
+      const fatal = errors.find(error => !(error instanceof ProseError));
+      if (fatal !== undefined) {
+        throw fatal;
+      }
+      if (errors.length > 0 && onFail === 'continue') {
+        const failures = errors as ProseError[];
+        throw new ProseError(
+          failures.length + ' of ' + branches.length + ' parallel branches failed: ' +
+            failures.map(failure => failure.message).join('; '),
+          failures
+        );
+      }
+      return settled.map(result => result.status === 'fulfilled' ? result.value : null);
+    });
+  }
+
+  /**
+   * The value of the first branch to finish. A failure fails the block,
+   * or yields null with ignore.
+   */
+  public first(signal: AbortSignal, previous: Value | undefined, onFail: FailurePolicy, branches: Branch[]): Promise<Value> {
+    if (branches.length === 0) {
+      return Promise.resolve(null);
+    }
+    return this.join(signal, previous, branches, running => Promise.race(running.map(branch => branch.catch(error => {
+      if (onFail === 'ignore' && error instanceof ProseError) {
+        return null;
+      }
+      throw error;
+    }))));
+  }
+
+  /**
+   * The first count successes, or the first alone when count is 1. The
+   * block fails if too few branches succeed, unless failures are ignored.
+   */
+  public any(
+    signal: AbortSignal,
+    previous: Value | undefined,
+    count: number,
+    onFail: FailurePolicy,
+    branches: Branch[]
+  ): Promise<Value> {
+    if (branches.length === 0) {
+      return Promise.resolve(null);
+    }
+    return this.join(signal, previous, branches, running => new Promise<Value>((resolve, reject) => {
+      const winners: Value[] = [];
+      const failures: ProseError[] = [];
+      let settled = 0;
+      const settle = () => {
+        if (++settled < running.length) {
+          return;
+        }
+        if (winners.length < count && onFail !== 'ignore') {
+          reject(new ProseError('Only ' + winners.length + ' of ' + count + ' required parallel branches succeeded', failures));
+        } else {
+          resolve(count === 1 ? winners[0] ?? null : [...winners]);
+        }
+      };
+      for (const branch of running) {
+        branch.then(
+          value => {
+            winners.push(value);
+            if (winners.length === count) {
+              resolve(count === 1 ? value : [...winners]);
+            }
+            settle();
+          },
+          error => {
+            if (!(error instanceof ProseError)) {
+              reject(error);
+              return;
+            }
+            failures.push(error);
+            settle();
+          }
+        );
+      }
+    }));
+  }
+
+  /**
+   * A parallel for loop or pmap: the body's value for every item
+   */
+  public pmap(
+    signal: AbortSignal,
+    previous: Value | undefined,
+    onFail: FailurePolicy,
+    collection: Value,
+    body: (signal: AbortSignal, previous: Value | undefined, item: Value, index: number) => Promise<Value>
+  ): Promise<Value> {
+    const branches = this.items(collection).map((item, index): Branch =>
+      (signal, previous) => body(signal, previous, item, index)
+    );
+    return this.all(signal, previous, onFail, branches);
+  }
+
+  /**
+   * Start the branches and join them. Branches still running once the
+   * block is decided are aborted.
+   */
+  private async join(
+    signal: AbortSignal,
+    previous: Value | undefined,
+    branches: Branch[],
+    settle: (running: Promise<Value>[]) => Promise<Value>
+  ): Promise<Value> {
+    check(signal);
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    signal.addEventListener('abort', abort);
+    try {
+      return await settle(branches.map(branch => branch(controller.signal, previous)));
+    } finally {
+      signal.removeEventListener('abort', abort);
+      controller.abort();
+    }
+  }
+
+  // ========== Collections ==========
+
+  /**
+   * A for loop or map: the body's value for every item, in turn
+   */
+  public async map(
+    previous: Value | undefined,
+    collection: Value,
+    body: (previous: Value | undefined, item: Value, index: number) => Promise<Value>
+  ): Promise<Value> {
+    const results: Value[] = [];
+    for (const [index, item] of this.items(collection).entries()) {
+      results.push(await body(previous, item, index));
+    }
+    return results;
+  }
+
+  /**
+   * The items the body keeps. Text is true unless it is empty, "false", "no"
+   * or "0".
+   */
+  public async filter(
+    previous: Value | undefined,
+    collection: Value,
+    body: (previous: Value | undefined, item: Value) => Promise<Value>
+  ): Promise<Value> {
+    const kept: Value[] = [];
+    for (const item of this.items(collection)) {
+      if (truthy(await body(previous, item))) {
+        kept.push(item);
+      }
+    }
+    return kept;
+  }
+
+  /**
+   * Fold the items, starting from the first
+   */
+  public async reduce(
+    previous: Value | undefined,
+    collection: Value,
+    body: (previous: Value | undefined, accumulator: Value, item: Value) => Promise<Value>
+  ): Promise<Value> {
+    const items = this.items(collection);
+    if (items.length === 0) {
+      return null;
+    }
+    let accumulator = items[0];
+    for (const item of items.slice(1)) {
+      accumulator = await body(previous, accumulator, item);
+    }
+    return accumulator;
+  }
+
+  // ========== Values ==========
+
+  /**
+   * A value as text, for prompts and templates
+   */
+  public text(value: Value): string {
+    if (typeof value === 'string') {
+      return value;
+    }
+    return value === null ? '' : JSON.stringify(value);
+  }
+
+  /**
+   * A field of a variable: plan.steps is field(plan, 'plan', 'steps')
+   */
+  public field(value: Value, name: string, ...fields: string[]): Value {
+    for (const [index, field] of fields.entries()) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || !(field in value)) {
+        throw new ProseError('"' + [name, ...fields.slice(0, index)].join('.') + '" has no field "' + field + '"');
+      }
+      value = value[field];
+    }
+    return value;
+  }
+
+  public items(value: Value): Value[] {
+    if (!Array.isArray(value)) {
+      const kind = value === null ? 'null' : typeof value === 'object' ? 'an object' : 'a ' + typeof value;
+      throw new ProseError('Expected a list to iterate over, got ' + kind);
+    }
+    return value;
+  }
+
+  /**
+   * The count of a repeat block
+   */
+  public count(value: Value): number {
+    const count = Number(value);
+    if (!Number.isInteger(count) || count < 0) {
+      throw new ProseError('Repeat count must be a non-negative integer');
+    }
+    return count;
+  }
+
+  /**
+   * Fail a loop without (max: N) once it reaches the run's loop limit
+   */
+  public limit(iteration: number): void {
+    if (iteration >= this.loopLimit) {
+      throw new ProseError('Loop did not finish within ' + this.loopLimit + ' iterations. Add (max: N) to stop it earlier.');
+    }
+  }
+
+  /**
+   * The result of a block, checked against its returns type
+   */
+  public output(value: Value, schema: JsonSchema, block: string): Value {
+    try {
+      return structured(value, schema);
+    } catch (error) {
+      throw new ProseError('Block "' + block + '": ' + (error as Error).message, error);
+    }
+  }
+}
+
+function check(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Output checked against a returns type. Text is parsed as JSON first,
+ * unless the type is a string; a Markdown code fence around the JSON is
+ * allowed.
+ */
+function structured(output: Value, schema: JsonSchema): Value {
+  let value = output;
+  if (typeof output === 'string' && schema.type !== 'string') {
+    const json = /^\x60\x60\x60(?:json)?\s*([\s\S]*?)\s*\x60\x60\x60$/.exec(output.trim())?.[1] ?? output;
+    try {
+      value = JSON.parse(json) as Value;
+    } catch {
+      throw new Error('Output is not JSON of type ' + describe(schema));
+    }
+  }
+  const problem = mismatch(value, schema, 'output');
+  if (problem) {
+    throw new Error('Output does not match its returns type: ' + problem);
+  }
+  return value;
+}
+
+/**
+ * What's wrong with the first part of a value that doesn't match, or null
+ */
+function mismatch(value: unknown, schema: JsonSchema, path: string): string | null {
+  const actual = Array.isArray(value) ? 'an array' : value === null ? 'null' : article(typeof value);
+  const wrong = path + ' should be ' + article(schema.type) + ', not ' + actual;
+  switch (schema.type) {
+    case 'array': {
+      if (!Array.isArray(value)) {
+        return wrong;
+      }
+      for (const [index, element] of value.entries()) {
+        const problem = schema.items ? mismatch(element, schema.items, path + '[' + index + ']') : null;
+        if (problem) {
+          return problem;
+        }
+      }
+      return null;
+    }
+    case 'object': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return wrong;
+      }
+      const record = value as { [key: string]: unknown };
+      const properties = schema.properties ?? {};
+      for (const [name, property] of Object.entries(properties)) {
+        if (!(name in record)) {
+          return path + ' is missing "' + name + '"';
+        }
+        const problem = mismatch(record[name], property, path + '.' + name);
+        if (problem) {
+          return problem;
+        }
+      }
+      const extra = Object.keys(record).find(key => !(key in properties));
+      return extra === undefined ? null : path + ' has an unexpected field "' + extra + '"';
+    }
+    default:
+      return typeof value === schema.type && !(schema.type === 'number' && !Number.isFinite(value)) ? null : wrong;
+  }
+}
+
+/**
+ * A type as it's written in source: { steps: string[], risk: number }
+ */
+function describe(schema: JsonSchema): string {
+  switch (schema.type) {
+    case 'array':
+      return schema.items ? describe(schema.items) + '[]' : 'array';
+    case 'object': {
+      const fields = Object.entries(schema.properties ?? {});
+      return fields.length === 0 ? '{}' : '{ ' + fields.map(([name, field]) => name + ': ' + describe(field)).join(', ') + ' }';
+    }
+    default:
+      return schema.type;
+  }
+}
+
+function article(name: string): string {
+  return (/^[aeiou]/.test(name) ? 'an ' : 'a ') + name;
+}
+
+function truthy(value: Value): boolean {
+  if (typeof value === 'string') {
+    return !['', 'false', 'no', '0'].includes(value.trim().toLowerCase());
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return typeof value === 'number' ? value !== 0 : Boolean(value);
+}
+`;
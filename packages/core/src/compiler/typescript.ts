@@ -0,0 +1,817 @@
+/**
+ * OpenProse TypeScript Target
+ *
+ * Compiles a program to a standalone TypeScript module, for running it as
+ * an ordinary Node service. The module exports `run(client, options)`;
+ * sessions, **discretion** conditions and choices become calls on the
+ * client, and everything else is plain async code:
+ *
+ * - Blocks are async functions, and a body's statements run in order,
+ *   keeping the last value in `previous` for the sessions after it.
+ * - Parallel blocks join their branches with Promise.all or Promise.race,
+ *   and aborting the branches a join no longer needs.
+ * - Loops stop at their (max: N), or fail at the run's loop limit.
+ * - Sessions retry with backoff, and try/catch catches what the program
+ *   throws.
+ *
+ * The module ends with a small runtime (see TS_RUNTIME) that behaves like
+ * the reference interpreter.
+ */
+
+import { ProgramNode } from '../parser';
+import {
+  ProseIR,
+  IRNode,
+  IRBody,
+  IRScope,
+  IRBlock,
+  IRAgent,
+  IRVariable,
+  IRTemplate,
+  IRField,
+  IRSession,
+  IRBinding,
+  IRAssignment,
+  IRThrow,
+  IRParallel,
+  IRLoop,
+  IRRepeat,
+  IRFor,
+  IRFilter,
+  IRReduce,
+  IRTry,
+  IRChoice,
+  IRIf,
+  compileToIR,
+} from './ir';
+import { TS_RUNTIME } from './typescript-runtime';
+
+export interface TypeScriptOptions {
+  /** Path of the program, named in the module's header */
+  source?: string;
+}
+
+/** Names a variable can't have: keywords, and the names the module uses itself */
+const RESERVED = new Set([
+  'arguments', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete',
+  'do', 'else', 'enum', 'eval', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'implements',
+  'import', 'in', 'instanceof', 'interface', 'let', 'new', 'null', 'package', 'private', 'protected', 'public',
+  'return', 'static', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'undefined', 'var', 'void',
+  'while', 'with', 'yield', 'Infinity', 'NaN',
+  'AGENTS', 'SKILLS', 'CancelledError', 'ProseError', 'Runtime', 'client', 'options', 'previous', 'prose', 'run',
+  'signal',
+]);
+
+const INDENT = '  ';
+
+class TypeScriptEmitter {
+  private lines: string[] = [];
+  private depth = 0;
+  private readonly scopes: Map<string, IRScope>;
+  /** Generated name of each variable, by `scope:name` */
+  private readonly names: Map<string, string> = new Map();
+  /** Generated names in use, by scope */
+  private readonly taken: Map<string, Set<string>> = new Map();
+  /** Variables declared so far, by `scope:name` */
+  private readonly declared: Set<string> = new Set();
+  /** Variables bound more than once in their scope, which can't be const */
+  private readonly rebound: Set<string> = new Set();
+  /** Function name of each block */
+  private readonly blocks: Map<string, string> = new Map();
+  /** Every variable and block name in the program, which temporaries avoid */
+  private readonly programNames: Set<string>;
+  private current: string;
+  /** The outermost scope whose variables conditions see: the program's, or a block's */
+  private boundary: string;
+  /** The caught error a bare `throw` rethrows */
+  private caught: string | null = null;
+
+  constructor(private readonly ir: ProseIR, private readonly options: TypeScriptOptions) {
+    this.scopes = new Map(ir.scopes.map(scope => [scope.id, scope]));
+    this.current = ir.scope;
+    this.boundary = ir.scope;
+    this.programNames = new Set([
+      ...ir.scopes.flatMap(scope => scope.variables.map(variable => identifier(variable.name))),
+      ...ir.blocks.map(block => identifier(block.name)),
+    ]);
+    for (const block of ir.blocks) {
+      let name = identifier(block.name);
+      for (let suffix = 2; RESERVED.has(name) || [...this.blocks.values()].includes(name); suffix++) {
+        name = `${identifier(block.name)}${suffix}`;
+      }
+      this.blocks.set(block.name, name);
+    }
+  }
+
+  public emit(): string {
+    const source = this.options.source ? ` from ${this.options.source}` : '';
+    this.line('/**');
+    this.line(` * Generated${source} by \`open-prose compile --target ts\`.`);
+    this.line(' * Edit the program rather than this module.');
+    this.line(' *');
+    this.line(' * run(client) runs the program. The client runs its sessions and decides');
+    this.line(' * its conditions and choices; an OpenProse SessionBackend can be one.');
+    this.line(' */');
+    this.line('');
+    this.agents(this.ir.agents);
+    if (this.ir.imports.length > 0) {
+      this.line('');
+      this.line('/** Where the skills agents use come from, by skill name */');
+      this.line('export const SKILLS: { [skill: string]: string } = {');
+      for (const { skill, source: from } of this.ir.imports) {
+        this.line(`${INDENT}${property(skill)}: ${quote(from)},`);
+      }
+      this.line('};');
+    }
+    this.line('');
+    this.run();
+    this.line('');
+    return `${this.lines.join('\n')}\n${TS_RUNTIME}`;
+  }
+
+  private agents(agents: IRAgent[]): void {
+    if (agents.length === 0) {
+      this.line('const AGENTS: { [name: string]: Agent } = {};');
+      return;
+    }
+    this.line('const AGENTS: { [name: string]: Agent } = {');
+    for (const agent of agents) {
+      this.line(`${INDENT}${property(agent.name)}: {`);
+      this.line(`${INDENT}${INDENT}name: ${quote(agent.name)},`);
+      this.line(`${INDENT}${INDENT}model: ${literal(agent.model)},`);
+      this.line(`${INDENT}${INDENT}prompt: ${literal(agent.prompt)},`);
+      this.line(`${INDENT}${INDENT}skills: ${literal(agent.skills)},`);
+      this.line(`${INDENT}${INDENT}permissions: ${literal(agent.permissions)},`);
+      this.line(`${INDENT}},`);
+    }
+    this.line('};');
+  }
+
+  private run(): void {
+    this.line('export async function run(client: ProseClient, options: RunOptions = {}): Promise<RunResult> {');
+    this.depth++;
+    this.line('const prose = new Runtime(client, AGENTS, options);');
+    this.line('const signal = prose.signal;');
+    this.line('let previous: Value | undefined;');
+    this.scoped(this.ir.scope, () => {
+      this.predeclare(this.ir.scope, this.ir.body);
+      for (const block of this.ir.blocks) {
+        this.line('');
+        this.block(block);
+      }
+      if (this.ir.body.length > 0) {
+        this.line('');
+      }
+      this.statements(this.ir.body);
+      const globals = this.scopes.get(this.ir.scope)!.variables
+        .map(variable => entry(variable.name, this.names.get(key(this.ir.scope, variable.name))!));
+      this.line('');
+      this.line(`return { output: previous ?? null, bindings: ${object([...new Set(globals)])} };`);
+    });
+    this.depth--;
+    this.line('}');
+  }
+
+  private block(block: IRBlock): void {
+    const boundary = this.boundary;
+    const caught = this.caught;
+    this.boundary = block.scope;
+    this.caught = null;
+    this.scoped(block.scope, () => {
+      const parameters = block.parameters.map(parameter => `${this.names.get(key(block.scope, parameter))}: Value`);
+      const signature = ['signal: AbortSignal', 'previous: Value | undefined', ...parameters].join(', ');
+      this.line(`async function ${this.blocks.get(block.name)}(${signature}): Promise<Value> {`);
+      this.depth++;
+      this.predeclare(block.scope, block.body);
+      const returns = block.returns;
+      this.statements(block.body, returns
+        ? value => `prose.output(${value}, ${literal(returns)}, ${quote(block.name)})`
+        : unawaited);
+      this.depth--;
+      this.line('}');
+    });
+    this.boundary = boundary;
+    this.caught = caught;
+  }
+
+  // ========== Names ==========
+
+  /**
+   * Run `emit` in a scope, naming the scope's variables first
+   */
+  private scoped<T>(id: string, emit: () => T): T {
+    const outer = this.current;
+    this.current = id;
+    for (const variable of this.scopes.get(id)!.variables) {
+      const variableKey = key(id, variable.name);
+      if (this.names.has(variableKey)) {
+        this.rebound.add(variableKey);
+        continue;
+      }
+      // Parameters and loop variables are bound on entry, so they can safely
+      // shadow; a `let` could be read as the outer variable before it is bound
+      const bound = variable.kind !== 'let' && variable.kind !== 'const';
+      this.names.set(variableKey, this.allocate(identifier(variable.name), bound ? [id] : this.chain(id)));
+      if (bound) {
+        this.declared.add(variableKey);
+      }
+    }
+    try {
+      return emit();
+    } finally {
+      this.current = outer;
+    }
+  }
+
+  /**
+   * Declare up front the variables of a scope that aren't bound directly in
+   * its body, such as those a parallel block assigns
+   */
+  private predeclare(id: string, body: IRNode[]): void {
+    const bound = new Set(body.flatMap(node => node.kind === 'let' || node.kind === 'const' ? [node.name] : []));
+    for (const variable of this.scopes.get(id)!.variables) {
+      const variableKey = key(id, variable.name);
+      if ((variable.kind === 'let' || variable.kind === 'const') && !bound.has(variable.name) && !this.declared.has(variableKey)) {
+        this.declared.add(variableKey);
+        this.line(`let ${this.names.get(variableKey)}: Value = null;`);
+      }
+    }
+  }
+
+  /**
+   * A name for generated code, such as a loop counter, that no variable of
+   * the program has
+   */
+  private temporary(base: string): string {
+    return this.allocate(base, this.chain(this.current), this.programNames);
+  }
+
+  /**
+   * The first of `base`, `base2`, ... that isn't reserved or taken in the
+   * given scopes, taking it in the first
+   */
+  private allocate(base: string, scopes: string[], avoid: Set<string> = new Set()): string {
+    const clashes = (candidate: string) =>
+      RESERVED.has(candidate) ||
+      avoid.has(candidate) ||
+      [...this.blocks.values()].includes(candidate) ||
+      scopes.some(scope => this.taken.get(scope)?.has(candidate));
+    let name = base;
+    for (let suffix = 2; clashes(name); suffix++) {
+      name = `${base}${suffix}`;
+    }
+    const taken = this.taken.get(scopes[0]) ?? new Set<string>();
+    taken.add(name);
+    this.taken.set(scopes[0], taken);
+    return name;
+  }
+
+  /**
+   * A scope and its ancestors, innermost first
+   */
+  private chain(id: string): string[] {
+    const chain: string[] = [];
+    for (let scope = this.scopes.get(id); scope; scope = scope.parent === null ? undefined : this.scopes.get(scope.parent)) {
+      chain.push(scope.id);
+    }
+    return chain;
+  }
+
+  /**
+   * The variables declared so far that a condition or choice sees
+   */
+  private bindings(): string {
+    const entries: string[][] = [];
+    const seen = new Set<string>();
+    for (const id of this.chain(this.current)) {
+      const scopeEntries: string[] = [];
+      for (const variable of this.scopes.get(id)!.variables) {
+        const variableKey = key(id, variable.name);
+        if (!seen.has(variable.name) && this.declared.has(variableKey)) {
+          seen.add(variable.name);
+          scopeEntries.push(entry(variable.name, this.names.get(variableKey)!));
+        }
+      }
+      entries.unshift(scopeEntries);
+      if (id === this.boundary) {
+        break;
+      }
+    }
+    return object(entries.flat());
+  }
+
+  // ========== Statements ==========
+
+  /**
+   * Emit a body. With `returns`, the last statement returns the body's
+   * value, passed through `returns`; otherwise it's left in `previous`.
+   */
+  private statements(nodes: IRNode[], returns?: (value: string) => string): void {
+    if (nodes.length === 0) {
+      this.line(returns ? `return ${returns('null')};` : 'previous = null;');
+      return;
+    }
+    for (const [index, node] of nodes.entries()) {
+      if (returns && index === nodes.length - 1) {
+        this.returnStatement(node, returns);
+      } else {
+        this.statement(node);
+      }
+    }
+  }
+
+  /**
+   * Emit a node as statements that leave its value in `previous`
+   */
+  private statement(node: IRNode): void {
+    switch (node.kind) {
+      case 'let':
+      case 'const':
+      case 'assign':
+        this.line(`previous = ${this.bind(node)};`);
+        return;
+      case 'throw':
+        this.throwStatement(node);
+        return;
+      case 'sequence':
+        for (const step of node.steps) {
+          this.statement(step);
+        }
+        return;
+      case 'do':
+        this.line('{');
+        this.inside(node);
+        this.line('}');
+        return;
+      case 'loop':
+        this.loop(node);
+        return;
+      case 'repeat':
+        this.repeat(node);
+        return;
+      case 'try':
+        this.tryStatement(node);
+        return;
+      case 'choice':
+        this.choice(node);
+        return;
+      case 'if':
+        this.ifStatement(node);
+        return;
+      default:
+        this.line(`previous = ${this.value(node)};`);
+    }
+  }
+
+  private returnStatement(node: IRNode, returns: (value: string) => string): void {
+    switch (node.kind) {
+      case 'let':
+      case 'const':
+      case 'assign':
+        this.line(`return ${returns(this.bind(node))};`);
+        return;
+      case 'throw':
+        this.throwStatement(node);
+        return;
+      case 'sequence':
+        for (const step of node.steps.slice(0, -1)) {
+          this.statement(step);
+        }
+        this.returnStatement(node.steps[node.steps.length - 1], returns);
+        return;
+      case 'do':
+      case 'loop':
+      case 'repeat':
+      case 'try':
+      case 'choice':
+      case 'if':
+        this.statement(node);
+        this.line(`return ${returns('previous ?? null')};`);
+        return;
+      default:
+        this.line(`return ${returns(this.value(node))};`);
+    }
+  }
+
+  /**
+   * Emit a binding or assignment, returning the variable's name
+   */
+  private bind(node: IRBinding | IRAssignment): string {
+    const variableKey = key(node.scope, node.name);
+    const name = this.names.get(variableKey)!;
+    const value = this.value(node.value);
+    if (this.declared.has(variableKey)) {
+      this.line(`${name} = ${value};`);
+    } else {
+      this.declared.add(variableKey);
+      if (node.kind === 'const' && !this.rebound.has(variableKey)) {
+        this.line(`const ${name} = ${value};`);
+      } else {
+        this.line(`let ${name}: Value = ${value};`);
+      }
+    }
+    return name;
+  }
+
+  private throwStatement(node: IRThrow): void {
+    if (node.message) {
+      this.line(`throw new ProseError(${this.value(node.message)});`);
+    } else {
+      this.line(`throw ${this.caught ?? "new ProseError('Nothing to rethrow outside of a catch block')"};`);
+    }
+  }
+
+  /**
+   * The statements of a body with its own scope, indented
+   */
+  private inside(body: IRBody, before?: () => void): void {
+    this.depth++;
+    this.scoped(body.scope, () => {
+      before?.();
+      this.predeclare(body.scope, body.body);
+      this.statements(body.body);
+    });
+    this.depth--;
+  }
+
+  private loop(node: IRLoop): void {
+    // The condition sees the variables around the loop, not the counter
+    const condition = node.condition && this.condition(node.condition.text);
+    this.scoped(node.scope, () => {
+      const counter = node.counter === null ? this.temporary('iteration') : this.names.get(key(node.scope, node.counter))!;
+      this.line(`for (let ${counter} = 0; ; ${counter}++) {`);
+      this.depth++;
+      if (node.max === null) {
+        this.line(`prose.limit(${counter});`);
+      } else {
+        this.exit(`${counter} >= ${node.max}`);
+      }
+      if (node.condition && condition) {
+        this.exit(node.condition.test === 'until' ? condition : `!(${condition})`);
+      }
+      this.predeclare(node.scope, node.body);
+      this.statements(node.body);
+      this.depth--;
+      this.line('}');
+    });
+  }
+
+  private repeat(node: IRRepeat): void {
+    this.scoped(node.scope, () => {
+      const index = node.index === null ? this.temporary('iteration') : this.names.get(key(node.scope, node.index))!;
+      if (typeof node.count === 'number') {
+        this.line(`for (let ${index} = 0; ${index} < ${node.count}; ${index}++) {`);
+      } else {
+        const count = this.temporary('count');
+        this.line(`for (let ${index} = 0, ${count} = prose.count(${this.read(node.count)}); ${index} < ${count}; ${index}++) {`);
+      }
+      this.depth++;
+      this.predeclare(node.scope, node.body);
+      this.statements(node.body);
+      this.depth--;
+      this.line('}');
+    });
+  }
+
+  /**
+   * `if (test) { break; }`
+   */
+  private exit(test: string): void {
+    this.line(`if (${test}) {`);
+    this.line(`${INDENT}break;`);
+    this.line('}');
+  }
+
+  private tryStatement(node: IRTry): void {
+    this.line('try {');
+    this.inside(node);
+    const handler = node.catch;
+    if (handler) {
+      const error = this.temporary('error');
+      const caught = this.caught;
+      this.line(`} catch (${error}) {`);
+      this.inside(handler, () => {
+        // Cancellation and the program's own bugs aren't the program's to catch
+        this.line(`if (!(${error} instanceof ProseError)) {`);
+        this.line(`${INDENT}throw ${error};`);
+        this.line('}');
+        if (handler.error !== null) {
+          this.line(`const ${this.names.get(key(handler.scope, handler.error))} = ${error}.message;`);
+        }
+        this.caught = error;
+      });
+      this.caught = caught;
+    }
+    if (node.finally) {
+      // A finally block doesn't change the value of the try
+      const result = this.temporary('result');
+      this.line('} finally {');
+      this.line(`${INDENT}const ${result} = previous;`);
+      this.inside(node.finally);
+      this.line(`${INDENT}previous = ${result};`);
+    }
+    this.line('}');
+  }
+
+  private choice(node: IRChoice): void {
+    const labels = `[${node.options.map(option => quote(option.label)).join(', ')}]`;
+    this.line(`switch (await prose.choose(signal, previous, ${quote(node.criteria)}, ${labels}, ${this.bindings()})) {`);
+    this.depth++;
+    for (const option of node.options) {
+      this.line(`case ${quote(option.label)}: {`);
+      this.inside(option);
+      this.line(`${INDENT}break;`);
+      this.line('}');
+    }
+    this.depth--;
+    this.line('}');
+  }
+
+  private ifStatement(node: IRIf): void {
+    for (const [index, branch] of node.branches.entries()) {
+      this.line(`${index === 0 ? 'if' : '} else if'} (${this.condition(branch.condition)}) {`);
+      this.inside(branch);
+    }
+    this.line('} else {');
+    if (node.else) {
+      this.inside(node.else);
+    } else {
+      this.line(`${INDENT}previous = null;`);
+    }
+    this.line('}');
+  }
+
+  // ========== Values ==========
+
+  /**
+   * A node as an expression. Nodes that only run as statements are emitted
+   * first, and their value read from `previous`.
+   */
+  private value(node: IRNode): string {
+    switch (node.kind) {
+      case 'string':
+        return quote(node.value);
+      case 'template':
+        return this.template(node);
+      case 'number':
+        return String(node.value);
+      case 'variable':
+        return this.read(node);
+      case 'condition':
+        return this.condition(node.text);
+      case 'array':
+        return `[${node.elements.map(element => this.value(element)).join(', ')}]`;
+      case 'object':
+        return this.fields(node.fields);
+      case 'session':
+        return this.session(node);
+      case 'call': {
+        const block = this.ir.blocks.find(candidate => candidate.name === node.block)!;
+        // Missing arguments are null; extra ones are ignored
+        const values = block.parameters.map((_, index) => node.arguments[index] ? this.value(node.arguments[index]) : 'null');
+        return `await ${this.blocks.get(node.block)}(${['signal', 'previous', ...values].join(', ')})`;
+      }
+      case 'parallel':
+        return this.parallel(node);
+      case 'for':
+        return this.forEach(node);
+      case 'filter':
+        return this.filter(node);
+      case 'reduce':
+        return this.reduce(node);
+      case 'sequence':
+        for (const step of node.steps.slice(0, -1)) {
+          this.statement(step);
+        }
+        return this.value(node.steps[node.steps.length - 1]);
+      default:
+        this.statement(node);
+        return 'previous ?? null';
+    }
+  }
+
+  private read(variable: IRVariable): string {
+    const name = this.names.get(key(variable.scope, variable.name))!;
+    if (variable.fields.length === 0) {
+      return name;
+    }
+    return `prose.field(${[name, quote(variable.name), ...variable.fields.map(quote)].join(', ')})`;
+  }
+
+  private template(node: IRTemplate): string {
+    const parts = node.parts.map(part => typeof part === 'string'
+      ? part.replace(/[\\`]|\$\{/g, match => `\\${match}`).replace(/\n/g, '\\n').replace(/\r/g, '\\r').replace(/\t/g, '\\t')
+      : `\${prose.text(${this.read(part)})}`);
+    return `\`${parts.join('')}\``;
+  }
+
+  private fields(fields: IRField[]): string {
+    return object(fields.map(field => entry(field.name, this.value(field.value))));
+  }
+
+  private condition(text: string): string {
+    return `await prose.condition(signal, previous, ${quote(text)}, ${this.bindings()})`;
+  }
+
+  private session(node: IRSession): string {
+    const spec: string[] = [];
+    if (node.name !== null) {
+      spec.push(`name: ${quote(node.name)}`);
+    }
+    if (node.agent !== null) {
+      spec.push(`agent: ${quote(node.agent)}`);
+    }
+    if (node.model !== null) {
+      spec.push(`model: ${quote(node.model)}`);
+    }
+    if (node.prompt !== null) {
+      spec.push(`prompt: ${node.prompt.kind === 'string' || node.prompt.kind === 'template'
+        ? this.value(node.prompt)
+        : `prose.text(${this.value(node.prompt)})`}`);
+    }
+    if (node.context !== null) {
+      spec.push(`context: ${this.fields(node.context)}`);
+    }
+    if (node.retry > 0) {
+      spec.push(`retry: ${node.retry}`);
+    }
+    if (node.backoff !== 'none') {
+      spec.push(`backoff: ${quote(node.backoff)}`);
+    }
+    if (node.returns !== null) {
+      spec.push(`returns: ${literal(node.returns)}`);
+    }
+    const oneLine = `{ ${spec.join(', ')} }`;
+    const argument = spec.length <= 1 && oneLine.length <= 80
+      ? oneLine
+      : `{\n${spec.map(item => `${this.indent(1)}${item},`).join('\n')}\n${this.indent()}}`;
+    return `await prose.session(signal, previous, ${argument})`;
+  }
+
+  private parallel(node: IRParallel): string {
+    const branches = node.branches.map(branch => this.closure(null, () => 'signal, previous', [branch], this.depth + 1));
+    const list = branches.length === 0
+      ? '[]'
+      : `[\n${branches.map(branch => `${this.indent(1)}${branch},`).join('\n')}\n${this.indent()}]`;
+    const count = node.join === 'any' ? `${node.count}, ` : '';
+    return `await prose.${node.join}(signal, previous, ${count}${quote(node.onFail)}, ${list})`;
+  }
+
+  private forEach(node: IRFor): string {
+    const collection = this.collection(node.collection);
+    const parameters = () => [
+      ...(node.parallel ? ['signal'] : []),
+      'previous',
+      this.names.get(key(node.scope, node.item))!,
+      ...(node.index === null ? [] : [this.names.get(key(node.scope, node.index))!]),
+    ].join(', ');
+    const body = this.closure(node.scope, parameters, node.body, this.depth);
+    return node.parallel
+      ? `await prose.pmap(signal, previous, ${quote(node.onFail)}, ${collection}, ${body})`
+      : `await prose.map(previous, ${collection}, ${body})`;
+  }
+
+  private filter(node: IRFilter): string {
+    const collection = this.collection(node.collection);
+    const body = this.closure(node.scope, () => `previous, ${this.names.get(key(node.scope, node.item))}`, node.body, this.depth);
+    return `await prose.filter(previous, ${collection}, ${body})`;
+  }
+
+  private reduce(node: IRReduce): string {
+    const collection = this.collection(node.collection);
+    const parameters = () =>
+      `previous, ${this.names.get(key(node.scope, node.accumulator))}, ${this.names.get(key(node.scope, node.item))}`;
+    const body = this.closure(node.scope, parameters, node.body, this.depth);
+    return `await prose.reduce(previous, ${collection}, ${body})`;
+  }
+
+  /**
+   * The collection of a loop or pipe stage. An earlier stage of a pipe is
+   * kept in a constant of its own rather than nested.
+   */
+  private collection(node: IRNode): string {
+    const stages: { [kind: string]: string } = { for: 'mapped', filter: 'kept', reduce: 'reduced' };
+    if (!(node.kind in stages)) {
+      return this.value(node);
+    }
+    const value = this.value(node);
+    const name = this.temporary(stages[node.kind]);
+    this.line(`const ${name} = ${value};`);
+    return name;
+  }
+
+  /**
+   * An async arrow function running nodes and returning the last one's
+   * value, in a scope of its own if given. It starts on a line indented to
+   * `depth`.
+   */
+  private closure(scope: string | null, parameters: () => string, nodes: IRNode[], depth: number): string {
+    const lines = this.lines;
+    const outer = this.depth;
+    this.lines = [];
+    this.depth = depth + 1;
+    let head = '';
+    const emit = () => {
+      head = `async (${parameters()}) =>`;
+      if (scope !== null) {
+        this.predeclare(scope, nodes);
+      }
+      this.statements(nodes, unawaited);
+    };
+    if (scope === null) {
+      emit();
+    } else {
+      this.scoped(scope, emit);
+    }
+    const body = this.lines;
+    this.lines = lines;
+    this.depth = outer;
+
+    // A function that only returns a value is written as that value
+    const only = body.length === 1 ? /^\s*return ([^{\n][^\n]*);$/.exec(body[0]) : null;
+    if (only) {
+      return `${head} ${only[1]}`;
+    }
+    return `${head} {\n${body.join('\n')}\n${INDENT.repeat(depth)}}`;
+  }
+
+  // ========== Output ==========
+
+  private line(text: string): void {
+    this.lines.push(text === '' ? '' : `${this.indent()}${text}`);
+  }
+
+  private indent(extra: number = 0): string {
+    return INDENT.repeat(this.depth + extra);
+  }
+}
+
+function key(scope: string, name: string): string {
+  return `${scope}:${name}`;
+}
+
+/**
+ * A returned value that needs no `await`, since returning a promise from
+ * an async function waits for it
+ */
+function unawaited(value: string): string {
+  return value.replace(/^await /, '');
+}
+
+/**
+ * A variable name as an identifier: `my-draft` is `my_draft`
+ */
+function identifier(name: string): string {
+  const cleaned = name.replace(/[^A-Za-z0-9_$]/g, '_');
+  return /^[0-9]/.test(cleaned) ? `_${cleaned}` : cleaned;
+}
+
+/**
+ * A single-quoted string literal
+ */
+function quote(text: string): string {
+  return `'${JSON.stringify(text).slice(1, -1).replace(/\\"/g, '"').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * An object key, quoted when it isn't an identifier
+ */
+function property(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : quote(name);
+}
+
+/**
+ * An object entry, in shorthand when the value is a variable of the same name
+ */
+function entry(name: string, value: string): string {
+  return name === value && property(name) === name ? name : `${property(name)}: ${value}`;
+}
+
+function object(entries: string[]): string {
+  return entries.length === 0 ? '{}' : `{ ${entries.join(', ')} }`;
+}
+
+/**
+ * A JSON value as a TypeScript literal
+ */
+function literal(value: unknown): string {
+  if (typeof value === 'string') {
+    return quote(value);
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(literal).join(', ')}]`;
+  }
+  if (value !== null && typeof value === 'object') {
+    return object(Object.entries(value).map(([name, field]) => `${property(name)}: ${literal(field)}`));
+  }
+  return String(value);
+}
+
+/**
+ * Compile a program to a TypeScript module that runs it. Pass a linked
+ * program (see linkProgram), as for compileToIR; throws an IRError for an
+ * agent, block or variable that isn't defined.
+ */
+export function compileToTypeScript(program: ProgramNode, options: TypeScriptOptions = {}): string {
+  return new TypeScriptEmitter(compileToIR(program), options).emit();
+}
@@ -0,0 +1,841 @@
+/**
+ * OpenProse Formatter
+ *
+ * Prints programs in a canonical layout while keeping every comment:
+ * - One indentation unit per nesting level
+ * - Canonical spacing and property order for agents and sessions
+ * - One-line triple-quoted strings become double-quoted strings
+ * - Prompts that overflow the line width become triple-quoted strings
+ * - At most one blank line between statements
+ *
+ * Formatting is idempotent: formatting formatted source changes nothing.
+ */
+
+import {
+  parse,
+  tokenize,
+  getChildNodes,
+  ASTNode,
+  ProgramNode,
+  StatementNode,
+  CommentNode,
+  SessionStatementNode,
+  AgentDefinitionNode,
+  BlockDefinitionNode,
+  PropertyNode,
+  StringLiteralNode,
+  NumberLiteralNode,
+  IdentifierNode,
+  DiscretionNode,
+  ArrayExpressionNode,
+  ObjectExpressionNode,
+  ExpressionNode,
+  DoBlockNode,
+  ArrowExpressionNode,
+  ParallelBlockNode,
+  LoopBlockNode,
+  RepeatBlockNode,
+  ForEachBlockNode,
+  TryBlockNode,
+  ChoiceBlockNode,
+  IfStatementNode,
+  PipeExpressionNode,
+  ParseError,
+} from '../parser';
+import { Token, TokenType } from '../parser/tokens';
+import { VALID_PROPERTIES } from '../validator';
+import { formatType } from '../schema';
+
+export interface FormatterOptions {
+  /** Indentation string (default: two spaces) */
+  indent?: string;
+  /**
+   * Wrap prompts that would make their line longer than this into
+   * triple-quoted strings (default: no wrapping). Wrapping changes the
+   * prompt's whitespace, which is part of its value.
+   */
+  lineWidth?: number;
+}
+
+export interface FormattedOutput {
+  /** The formatted source code */
+  code: string;
+  /** Where each top-level statement came from and where it was printed */
+  regions: FormattedRegion[];
+}
+
+/**
+ * The lines of a top-level statement (with its leading comments) in the
+ * source and in the formatted output. Lines are 1-based and inclusive.
+ */
+export interface FormattedRegion {
+  sourceStart: number;
+  sourceEnd: number;
+  outputStart: number;
+  outputEnd: number;
+}
+
+export interface FormatResult {
+  /** The formatted source, or the original source if it has parse errors */
+  code: string;
+  /** Whether formatting changed the source */
+  changed: boolean;
+  /** Where each top-level statement came from and where it was printed */
+  regions: FormattedRegion[];
+  /** Parse errors that prevented formatting */
+  errors: ParseError[];
+}
+
+export class Formatter {
+  private lines: string[] = [];
+  private pending: CommentNode[] = [];
+  private regions: FormattedRegion[] = [];
+  private lastSourceLine = 0;
+  private atBodyStart = true;
+  private headerIndent = 0;
+  private sourceLines: string[];
+  private keywordTokens: Token[];
+  private options: { indent: string; lineWidth?: number };
+
+  constructor(private program: ProgramNode, private source: string, options: FormatterOptions = {}) {
+    this.options = {
+      indent: options.indent ?? '  ',
+      lineWidth: options.lineWidth,
+    };
+    this.sourceLines = source.split('\n');
+    this.keywordTokens = tokenize(source).tokens.filter(
+      t => t.type === TokenType.CATCH || t.type === TokenType.FINALLY || t.type === TokenType.ELSE ||
+        t.type === TokenType.ARROW
+    );
+  }
+
+  /**
+   * Format the program
+   */
+  public format(): FormattedOutput {
+    this.lines = [];
+    this.regions = [];
+    this.lastSourceLine = 0;
+    this.atBodyStart = true;
+    this.pending = [...this.program.comments].sort((a, b) => a.span.start.offset - b.span.start.offset);
+
+    const statements = this.program.statements.filter(s => s.type !== 'CommentStatement');
+    statements.forEach((statement, i) => {
+      const next = i + 1 < statements.length ? statements[i + 1].span.start.line : Infinity;
+      const sourceStart = Math.min(statement.span.start.line, ...this.commentLinesBefore(statement.span.start.line));
+      const outputStart = this.lines.length;
+
+      this.formatStatement(statement, 0, next);
+
+      this.regions.push({
+        sourceStart,
+        sourceEnd: this.lastSourceLine,
+        outputStart: outputStart + (this.lines[outputStart] === '' ? 2 : 1),
+        outputEnd: this.lines.length,
+      });
+    });
+
+    // Comments after the last statement
+    this.flushComments(Infinity, 0);
+
+    return {
+      code: this.lines.length > 0 ? this.lines.join('\n') + '\n' : '',
+      regions: this.regions,
+    };
+  }
+
+  // ========== Statements ==========
+
+  private formatBody(statements: StatementNode[], depth: number, next: number): void {
+    const body = statements.filter(s => s.type !== 'CommentStatement');
+    const column = body.length > 0 ? body[0].span.start.column : this.headerIndent + 2;
+    this.atBodyStart = true;
+
+    body.forEach((statement, i) => {
+      const following = i + 1 < body.length ? body[i + 1].span.start.line : next;
+      this.formatStatement(statement, depth, following);
+    });
+
+    // Comments at the end of the body, indented at least as deep as its statements
+    while (
+      this.pending.length > 0 &&
+      this.pending[0].span.start.line < next &&
+      this.pending[0].span.start.column >= column
+    ) {
+      this.emitComment(this.pending.shift()!, depth);
+    }
+  }
+
+  /**
+   * Format a statement. The prefix (e.g. "let x = ") goes before the
+   * statement's first line, for statements used as binding values.
+   */
+  private formatStatement(stmt: StatementNode | ExpressionNode, depth: number, next: number, prefix = ''): void {
+    const start = stmt.span.start.line;
+
+    switch (stmt.type) {
+      case 'ImportStatement':
+        this.emit(depth, `import ${this.string(stmt.skillName)} from ${this.string(stmt.source)}`, start, endLine(stmt));
+        break;
+
+      case 'UseStatement':
+        this.emit(depth, `use ${this.string(stmt.source)}${stmt.alias ? ` as ${stmt.alias.name}` : ''}`, start, endLine(stmt));
+        break;
+
+      case 'AgentDefinition':
+        this.formatAgent(stmt, depth, next);
+        break;
+
+      case 'BlockDefinition':
+        this.formatBlockDefinition(stmt, depth, next);
+        break;
+
+      case 'SessionStatement':
+        this.formatSession(stmt, depth, prefix, start);
+        break;
+
+      case 'LetBinding':
+      case 'ConstBinding':
+      case 'Assignment': {
+        const keyword = stmt.type === 'LetBinding' ? 'let ' : stmt.type === 'ConstBinding' ? 'const ' : '';
+        this.formatStatement(stmt.value, depth, next, `${prefix}${keyword}${stmt.name.name} = `);
+        break;
+      }
+
+      case 'DoBlock':
+        this.formatDoBlock(stmt, depth, next, prefix);
+        break;
+
+      case 'ParallelBlock':
+        this.formatParallel(stmt, depth, next, prefix);
+        break;
+
+      case 'RepeatBlock': {
+        const count = stmt.count.type === 'NumberLiteral' ? stmt.count.raw : stmt.count.name;
+        const index = stmt.indexVar ? ` as ${stmt.indexVar.name}` : '';
+        this.emitHeader(depth, `${prefix}repeat ${count}${index}:`, start, [stmt.count, stmt.indexVar]);
+        this.formatBody(stmt.body, depth + 1, next);
+        break;
+      }
+
+      case 'ForEachBlock':
+        this.formatForEach(stmt, depth, next, prefix);
+        break;
+
+      case 'LoopBlock':
+        this.formatLoop(stmt, depth, next, prefix);
+        break;
+
+      case 'TryBlock':
+        this.formatTry(stmt, depth, next, prefix);
+        break;
+
+      case 'ThrowStatement': {
+        const message = stmt.message ? ` ${this.string(stmt.message)}` : '';
+        this.emit(depth, `${prefix}throw${message}`, start, endLine(stmt));
+        break;
+      }
+
+      case 'ChoiceBlock':
+        this.formatChoice(stmt, depth, next, prefix);
+        break;
+
+      case 'IfStatement':
+        this.formatIf(stmt, depth, next, prefix);
+        break;
+
+      case 'ArrowExpression':
+        this.formatArrow(stmt, depth, prefix);
+        break;
+
+      case 'PipeExpression':
+        this.formatPipe(stmt, depth, next, prefix);
+        break;
+
+      case 'CommentStatement':
+        // Comments are printed from program.comments
+        break;
+
+      default:
+        this.emit(depth, `${prefix}${this.expression(stmt)}`, start, endLine(stmt));
+    }
+  }
+
+  private formatAgent(agent: AgentDefinitionNode, depth: number, next: number): void {
+    this.emitHeader(depth, `agent ${agent.name.name}:`, agent.span.start.line, [agent.name]);
+    this.formatProperties(agent.properties, VALID_PROPERTIES.agent, depth + 1);
+    if (agent.body.length > 0) {
+      this.formatBody(agent.body, depth + 1, next);
+    }
+  }
+
+  private formatBlockDefinition(block: BlockDefinitionNode, depth: number, next: number): void {
+    const params = block.parameters.length > 0
+      ? `(${block.parameters.map(p => p.name).join(', ')})`
+      : '';
+    const returns = block.returns ? ` returns ${formatType(block.returns)}` : '';
+    this.emitHeader(depth, `block ${block.name.name}${params}${returns}:`, block.span.start.line, [block.name, ...block.parameters, block.returns]);
+    this.formatBody(block.body, depth + 1, next);
+  }
+
+  private formatSession(session: SessionStatementNode, depth: number, prefix: string, start: number): void {
+    const header = this.sessionHeader(session, depth, prefix);
+    this.emit(depth, `${prefix}${header}`, start, lastLine(start, [session.name, session.agent, session.prompt, session.returns]));
+    this.formatProperties(session.properties, VALID_PROPERTIES.session, depth + 1);
+  }
+
+  private sessionHeader(session: SessionStatementNode, depth: number, prefix: string): string {
+    const returns = session.returns ? ` returns ${formatType(session.returns)}` : '';
+    if (session.agent) {
+      return `session${session.name ? ` ${session.name.name}` : ''}: ${session.agent.name}${returns}`;
+    }
+    if (session.prompt) {
+      return `session ${this.prompt(session.prompt, depth, `${prefix}session `)}${returns}`;
+    }
+    return `session:${returns}`;
+  }
+
+  private formatDoBlock(doBlock: DoBlockNode, depth: number, next: number, prefix: string): void {
+    const start = doBlock.span.start.line;
+    if (doBlock.name) {
+      const args = doBlock.arguments.length > 0
+        ? `(${doBlock.arguments.map(arg => this.expression(arg)).join(', ')})`
+        : '';
+      this.emit(depth, `${prefix}do ${doBlock.name.name}${args}`, start, endLine(doBlock));
+      return;
+    }
+    this.emitHeader(depth, `${prefix}do:`, start, []);
+    this.formatBody(doBlock.body, depth + 1, next);
+  }
+
+  private formatParallel(parallel: ParallelBlockNode, depth: number, next: number, prefix: string): void {
+    const modifiers: string[] = [];
+    if (parallel.joinStrategy) modifiers.push(this.string(parallel.joinStrategy));
+    if (parallel.anyCount) modifiers.push(`count: ${parallel.anyCount.raw}`);
+    if (parallel.onFail) modifiers.push(`on-fail: ${this.string(parallel.onFail)}`);
+
+    const header = `${prefix}parallel${modifiers.length > 0 ? ` (${modifiers.join(', ')})` : ''}:`;
+    this.emitHeader(depth, header, parallel.span.start.line, [parallel.joinStrategy, parallel.anyCount, parallel.onFail]);
+    this.formatBody(parallel.body, depth + 1, next);
+  }
+
+  private formatForEach(forEach: ForEachBlockNode, depth: number, next: number, prefix: string): void {
+    let header = `${prefix}${forEach.isParallel ? 'parallel ' : ''}for ${forEach.itemVar.name}`;
+    if (forEach.indexVar) {
+      header += `, ${forEach.indexVar.name}`;
+    }
+    header += ` in ${this.expression(forEach.collection)}`;
+    if (forEach.modifiers.length > 0) {
+      header += ` (${forEach.modifiers.map(m => `${m.name.name}: ${this.expression(m.value)}`).join(', ')})`;
+    }
+
+    this.emitHeader(depth, `${header}:`, forEach.span.start.line, [
+      forEach.itemVar, forEach.indexVar, forEach.collection, ...forEach.modifiers,
+    ]);
+    this.formatBody(forEach.body, depth + 1, next);
+  }
+
+  private formatLoop(loop: LoopBlockNode, depth: number, next: number, prefix: string): void {
+    let header = `${prefix}loop`;
+    if (loop.condition && loop.variant !== 'loop') {
+      header += ` ${loop.variant} ${this.discretion(loop.condition)}`;
+    }
+    if (loop.maxIterations) {
+      header += ` (max: ${loop.maxIterations.raw})`;
+    }
+    if (loop.iterationVar) {
+      header += ` as ${loop.iterationVar.name}`;
+    }
+
+    this.emitHeader(depth, `${header}:`, loop.span.start.line, [loop.condition, loop.maxIterations, loop.iterationVar]);
+    this.formatBody(loop.body, depth + 1, next);
+  }
+
+  private formatTry(tryBlock: TryBlockNode, depth: number, next: number, prefix: string): void {
+    const catchLine = tryBlock.catchBody ? this.clauseLine(TokenType.CATCH, tryBlock.tryBody) : null;
+    const finallyLine = tryBlock.finallyBody
+      ? this.clauseLine(TokenType.FINALLY, tryBlock.catchBody ?? tryBlock.tryBody)
+      : null;
+
+    this.emitHeader(depth, `${prefix}try:`, tryBlock.span.start.line, []);
+    this.formatBody(tryBlock.tryBody, depth + 1, catchLine ?? finallyLine ?? next);
+
+    if (tryBlock.catchBody && catchLine !== null) {
+      const errorVar = tryBlock.errorVar ? ` as ${tryBlock.errorVar.name}` : '';
+      this.emitHeader(depth, `catch${errorVar}:`, catchLine, [tryBlock.errorVar]);
+      this.formatBody(tryBlock.catchBody, depth + 1, finallyLine ?? next);
+    }
+
+    if (tryBlock.finallyBody && finallyLine !== null) {
+      this.emitHeader(depth, 'finally:', finallyLine, []);
+      this.formatBody(tryBlock.finallyBody, depth + 1, next);
+    }
+  }
+
+  private formatChoice(choice: ChoiceBlockNode, depth: number, next: number, prefix: string): void {
+    this.emitHeader(depth, `${prefix}choice ${this.discretion(choice.criteria)}:`, choice.span.start.line, [choice.criteria]);
+
+    choice.options.forEach((option, i) => {
+      const following = i + 1 < choice.options.length ? choice.options[i + 1].span.start.line : next;
+      this.emitHeader(depth + 1, `option ${this.string(option.label)}:`, option.span.start.line, [option.label]);
+      this.formatBody(option.body, depth + 2, following);
+    });
+  }
+
+  private formatIf(ifStmt: IfStatementNode, depth: number, next: number, prefix: string): void {
+    const elseLine = ifStmt.elseBody
+      ? this.clauseLine(TokenType.ELSE, ifStmt.elseIfClauses.length > 0
+          ? ifStmt.elseIfClauses[ifStmt.elseIfClauses.length - 1].body
+          : ifStmt.thenBody)
+      : null;
+    const clauseLines = [...ifStmt.elseIfClauses.map(clause => clause.span.start.line), elseLine ?? next];
+
+    this.emitHeader(depth, `${prefix}if ${this.discretion(ifStmt.condition)}:`, ifStmt.span.start.line, [ifStmt.condition]);
+    this.formatBody(ifStmt.thenBody, depth + 1, clauseLines[0]);
+
+    ifStmt.elseIfClauses.forEach((clause, i) => {
+      this.emitHeader(depth, `elif ${this.discretion(clause.condition)}:`, clause.span.start.line, [clause.condition]);
+      this.formatBody(clause.body, depth + 1, clauseLines[i + 1]);
+    });
+
+    if (ifStmt.elseBody && elseLine !== null) {
+      this.emitHeader(depth, 'else:', elseLine, []);
+      this.formatBody(ifStmt.elseBody, depth + 1, next);
+    }
+  }
+
+  /**
+   * Sequences print on one line unless a session before the last one has
+   * properties; then each step gets its own lines, separated by `->` lines.
+   */
+  private formatArrow(arrow: ArrowExpressionNode, depth: number, prefix: string): void {
+    const steps = flattenArrow(arrow);
+    const multiline = steps.slice(0, -1).some(step => step.type === 'SessionStatement' && step.properties.length > 0);
+
+    if (!multiline) {
+      const text = steps.map(step => this.arrowStep(step, depth)).join(' -> ');
+      this.emit(depth, `${prefix}${text}`, arrow.span.start.line, lastLine(arrow.span.start.line, steps.map(stepHeader).flat()));
+      this.formatStepProperties(steps[steps.length - 1], depth);
+      return;
+    }
+
+    steps.forEach((step, i) => {
+      if (i > 0) {
+        const after = endOffset(steps[i - 1]);
+        const arrowToken = this.keywordTokens.find(t => t.type === TokenType.ARROW && t.span.start.offset >= after);
+        const line = arrowToken ? arrowToken.span.start.line : step.span.start.line;
+        this.emit(depth, '->', line, line);
+      }
+      const start = step.span.start.line;
+      this.emit(depth, `${i === 0 ? prefix : ''}${this.arrowStep(step, depth)}`, start, lastLine(start, stepHeader(step)));
+      this.formatStepProperties(step, depth);
+    });
+  }
+
+  private formatStepProperties(step: ExpressionNode, depth: number): void {
+    if (step.type === 'SessionStatement') {
+      this.formatProperties(step.properties, VALID_PROPERTIES.session, depth + 1);
+    }
+  }
+
+  private arrowStep(step: ExpressionNode, depth: number): string {
+    if (step.type === 'SessionStatement') {
+      return this.sessionHeader(step, depth, '');
+    }
+    if (step.type === 'DoBlock' && step.name) {
+      const args = step.arguments.length > 0 ? `(${step.arguments.map(arg => this.expression(arg)).join(', ')})` : '';
+      return `do ${step.name.name}${args}`;
+    }
+    return this.expression(step);
+  }
+
+  /**
+   * Pipes print the first operation after the input and each further
+   * operation on its own line, one level deeper:
+   *
+   *   let out = items | filter:
+   *     session "Keep {item}?"
+   *     | map:
+   *       session "Transform {item}"
+   */
+  private formatPipe(pipe: PipeExpressionNode, depth: number, next: number, prefix: string): void {
+    const input = this.expression(pipe.input);
+
+    pipe.operations.forEach((operation, i) => {
+      const following = i + 1 < pipe.operations.length ? pipe.operations[i + 1].span.start.line : next;
+      const vars = operation.operator === 'reduce' && operation.accVar && operation.itemVar
+        ? `(${operation.accVar.name}, ${operation.itemVar.name})`
+        : '';
+      const header = `${operation.operator}${vars}:`;
+
+      if (i === 0) {
+        this.emitHeader(depth, `${prefix}${input} | ${header}`, pipe.span.start.line, [
+          pipe.input, operation.accVar, operation.itemVar,
+        ]);
+        this.formatBody(operation.body, depth + 1, following);
+      } else {
+        this.emitHeader(depth + 1, `| ${header}`, operation.span.start.line, [operation.accVar, operation.itemVar]);
+        this.formatBody(operation.body, depth + 2, following);
+      }
+    });
+  }
+
+  // ========== Properties ==========
+
+  /**
+   * Format properties in canonical order (known properties first, in their
+   * documented order, then any others in source order). Comments directly
+   * above a property move with it.
+   */
+  private formatProperties(properties: PropertyNode[], order: readonly string[], depth: number): void {
+    const leading = new Map<PropertyNode, CommentNode[]>();
+    let after = 0;
+    for (const prop of properties) {
+      leading.set(prop, this.takeLeadingComments(after, prop.span.start.line));
+      after = endLine(prop);
+    }
+
+    const rank = (prop: PropertyNode) => {
+      const index = order.indexOf(prop.name.name);
+      return index === -1 ? order.length : index;
+    };
+    const sorted = properties
+      .map((prop, index) => ({ prop, index }))
+      .sort((a, b) => rank(a.prop) - rank(b.prop) || a.index - b.index)
+      .map(entry => entry.prop);
+
+    for (const prop of sorted) {
+      for (const comment of leading.get(prop)!) {
+        this.atBodyStart = true;
+        this.emitComment(comment, depth);
+      }
+      this.atBodyStart = true;
+      this.formatProperty(prop, depth);
+    }
+  }
+
+  private formatProperty(prop: PropertyNode, depth: number): void {
+    const start = prop.span.start.line;
+    const value = prop.value;
+
+    // Non-shorthand objects outside braces are nested blocks (permissions)
+    if (value.type === 'ObjectExpression' && !this.isBraced(value)) {
+      this.emitHeader(depth, `${prop.name.name}:`, start, [prop.name]);
+      this.formatProperties(value.properties, [], depth + 1);
+      return;
+    }
+
+    const text = prop.name.name === 'prompt' && value.type === 'StringLiteral'
+      ? this.prompt(value, depth, `${prop.name.name}: `)
+      : this.expression(value);
+    this.emit(depth, `${prop.name.name}: ${text}`, start, endLine(prop));
+  }
+
+  // ========== Expressions ==========
+
+  private expression(expr: ExpressionNode): string {
+    switch (expr.type) {
+      case 'StringLiteral':
+        return this.string(expr);
+      case 'NumberLiteral':
+        return (expr as NumberLiteralNode).raw;
+      case 'Identifier':
+        return (expr as IdentifierNode).name;
+      case 'Discretion':
+        return this.discretion(expr);
+      case 'ArrayExpression':
+        return `[${(expr as ArrayExpressionNode).elements.map(e => this.expression(e)).join(', ')}]`;
+      case 'ObjectExpression':
+        return this.object(expr);
+      case 'SessionStatement':
+        return this.sessionHeader(expr, 0, '');
+      default:
+        // Block-valued expressions only appear as statements or binding values
+        return this.source.slice(expr.span.start.offset, expr.span.end.offset).trim();
+    }
+  }
+
+  private object(obj: ObjectExpressionNode): string {
+    if (obj.properties.length === 0) {
+      return '{}';
+    }
+    const props = obj.properties.map(prop =>
+      prop.value.type === 'Identifier' && prop.value.name === prop.name.name
+        ? prop.name.name
+        : `${prop.name.name}: ${this.expression(prop.value)}`
+    );
+    return `{ ${props.join(', ')} }`;
+  }
+
+  private isBraced(obj: ObjectExpressionNode): boolean {
+    return obj.properties.length === 0 || this.source[obj.span.start.offset] === '{';
+  }
+
+  private discretion(discretion: DiscretionNode): string {
+    return discretion.isMultiline ? `***${discretion.expression}***` : `**${discretion.expression}**`;
+  }
+
+  /**
+   * Print a string in double quotes. Multi-line triple-quoted strings are
+   * kept verbatim, since their content (including indentation) is the value.
+   */
+  private string(str: StringLiteralNode): string {
+    if (!str.isTripleQuoted) {
+      return str.raw;
+    }
+    if (str.value.includes('\n') || str.value.includes('\r')) {
+      return str.raw;
+    }
+    return `"${escapeString(str.value)}"`;
+  }
+
+  /**
+   * Print a prompt, wrapping it into a triple-quoted string when there is a
+   * line width and the line (indentation plus prefix) would exceed it
+   */
+  private prompt(str: StringLiteralNode, depth: number, prefix: string): string {
+    const text = this.string(str);
+    const indent = this.options.indent.repeat(depth);
+    const { lineWidth } = this.options;
+    if (lineWidth === undefined || text.startsWith('"""') || (indent + prefix + text).length <= lineWidth) {
+      return text;
+    }
+
+    // Only prompts whose raw text is their value can be re-quoted
+    const escaped = str.isTripleQuoted ? false : (str.escapeSequences ?? []).length > 0;
+    if (escaped || str.value.includes('"')) {
+      return text;
+    }
+
+    const width = Math.max(lineWidth - indent.length, 20);
+    const wrapped = wrapWords(str.value, width).map(line => indent + line);
+    return ['"""', ...wrapped, `${indent}"""`].join('\n');
+  }
+
+  // ========== Output ==========
+
+  /**
+   * Emit a line for source lines start..end, with any comments before it
+   * and the inline comments on those lines
+   */
+  private emit(depth: number, text: string, start: number, end: number): void {
+    this.flushComments(start, depth);
+    this.separate(start);
+
+    const inline = this.takeInlineComments(start, end);
+    const suffix = inline.map(comment => `  ${comment.value}`).join('');
+    const lines = (this.options.indent.repeat(depth) + text).split('\n');
+    lines[lines.length - 1] += suffix;
+    this.lines.push(...lines);
+    this.lastSourceLine = Math.max(this.lastSourceLine, end, ...inline.map(comment => comment.span.end.line));
+  }
+
+  /**
+   * Emit the header line of a construct whose body follows
+   */
+  private emitHeader(depth: number, text: string, start: number, parts: (ASTNode | null)[]): void {
+    this.emit(depth, text, start, lastLine(start, parts));
+    this.atBodyStart = true;
+    const line = this.sourceLines[start - 1] ?? '';
+    this.headerIndent = line.length - line.trimStart().length;
+  }
+
+  private emitComment(comment: CommentNode, depth: number): void {
+    this.separate(comment.span.start.line);
+    this.lines.push(this.options.indent.repeat(depth) + comment.value);
+    this.lastSourceLine = Math.max(this.lastSourceLine, comment.span.start.line);
+  }
+
+  /**
+   * Emit the comments that come before a source line
+   */
+  private flushComments(line: number, depth: number): void {
+    for (const comment of this.takeComments(line)) {
+      this.emitComment(comment, depth);
+    }
+  }
+
+  /**
+   * Keep a single blank line where the source had one or more, except at the
+   * start of a body
+   */
+  private separate(line: number): void {
+    if (!this.atBodyStart && this.lines.length > 0 && line > this.lastSourceLine + 1) {
+      this.lines.push('');
+    }
+    this.atBodyStart = false;
+  }
+
+  private takeComments(line: number): CommentNode[] {
+    const taken: CommentNode[] = [];
+    while (this.pending.length > 0 && this.pending[0].span.start.line < line) {
+      taken.push(this.pending.shift()!);
+    }
+    return taken;
+  }
+
+  /**
+   * Take the standalone comments between two source lines (exclusive)
+   */
+  private takeLeadingComments(after: number, before: number): CommentNode[] {
+    const taken = this.pending.filter(c => !c.isInline && c.span.start.line > after && c.span.start.line < before);
+    this.pending = this.pending.filter(c => !taken.includes(c));
+    return taken;
+  }
+
+  private takeInlineComments(start: number, end: number): CommentNode[] {
+    const taken = this.pending.filter(c => c.isInline && c.span.start.line >= start && c.span.start.line <= end);
+    this.pending = this.pending.filter(c => !taken.includes(c));
+    return taken;
+  }
+
+  private commentLinesBefore(line: number): number[] {
+    return this.pending.filter(c => c.span.start.line < line).map(c => c.span.start.line);
+  }
+
+  /**
+   * Find the source line of a catch/finally/else keyword following a body
+   */
+  private clauseLine(type: TokenType, body: StatementNode[]): number | null {
+    const after = body.length > 0 ? endOffset(body[body.length - 1]) : 0;
+    const token = this.keywordTokens.find(t => t.type === type && t.span.start.offset >= after);
+    return token ? token.span.start.line : null;
+  }
+}
+
+// ========== Helpers ==========
+
+/**
+ * The last source line of a node, from its innermost tokens (block spans can
+ * extend to the start of the next statement)
+ */
+function endLine(node: ASTNode): number {
+  const children = getChildNodes(node);
+  if (children.length === 0) {
+    return node.span.end.line;
+  }
+  return Math.max(node.span.start.line, ...children.map(endLine));
+}
+
+/**
+ * The last source line of a header made of the given parts
+ */
+function lastLine(start: number, parts: (ASTNode | null)[]): number {
+  return Math.max(start, ...parts.filter((p): p is ASTNode => p !== null).map(endLine));
+}
+
+function endOffset(node: ASTNode): number {
+  const children = getChildNodes(node);
+  if (children.length === 0) {
+    return node.span.end.offset;
+  }
+  return Math.max(node.span.start.offset, ...children.map(endOffset));
+}
+
+/**
+ * The parts of a sequence step printed on the step's first line
+ */
+function stepHeader(step: ExpressionNode): (ASTNode | null)[] {
+  return step.type === 'SessionStatement' ? [step.name, step.agent, step.prompt] : [step];
+}
+
+function flattenArrow(expr: ExpressionNode): ExpressionNode[] {
+  if (expr.type === 'ArrowExpression') {
+    return [...flattenArrow(expr.left), ...flattenArrow(expr.right)];
+  }
+  return [expr];
+}
+
+function wrapWords(text: string, width: number): string[] {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of text.split(/\s+/).filter(w => w.length > 0)) {
+    if (current.length > 0 && current.length + 1 + word.length > width) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current.length > 0 ? `${current} ${word}` : word;
+    }
+  }
+  if (current.length > 0) {
+    lines.push(current);
+  }
+  return lines;
+}
+
+/**
+ * Escape a string value for a double-quoted literal
+ */
+function escapeString(str: string): string {
+  let result = '';
+  for (const char of str) {
+    const code = char.charCodeAt(0);
+    switch (char) {
+      case '\\': result += '\\\\'; break;
+      case '"': result += '\\"'; break;
+      case '\t': result += '\\t'; break;
+      case '\0': result += '\\0'; break;
+      default:
+        result += code < 32 || code === 127 ? '\\u' + code.toString(16).padStart(4, '0') : char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Format a program parsed from source
+ */
+export function format(program: ProgramNode, source: string, options?: FormatterOptions): FormattedOutput {
+  return new Formatter(program, source, options).format();
+}
+
+/**
+ * Parse and format source code. Source with parse errors is returned unchanged.
+ */
+export function formatSource(source: string, options?: FormatterOptions): FormatResult {
+  const { program, errors } = parse(source);
+  if (errors.length > 0) {
+    return { code: source, changed: false, regions: [], errors };
+  }
+
+  const output = format(program, source, options);
+
+  // Refuse to format if source text the parser skipped would be lost
+  const dropped = findDroppedToken(source, output.code, options?.lineWidth !== undefined);
+  if (dropped) {
+    const message = `Cannot format: "${dropped.value}" is not part of any statement`;
+    return { code: source, changed: false, regions: [], errors: [{ message, span: dropped.span }] };
+  }
+
+  return { code: output.code, changed: output.code !== source, regions: output.regions, errors: [] };
+}
+
+/**
+ * Find a token of the source that is missing from the formatted code.
+ * Layout tokens are ignored. When prompts may have been re-wrapped, string
+ * values are compared with whitespace collapsed.
+ */
+function findDroppedToken(source: string, code: string, wrapped: boolean): Token | null {
+  const layout = new Set([TokenType.NEWLINE, TokenType.INDENT, TokenType.DEDENT, TokenType.EOF]);
+  const key = (token: Token) =>
+    `${token.type}:${wrapped && token.type === TokenType.STRING ? token.value.replace(/\s+/g, ' ').trim() : token.value}`;
+
+  const counts = new Map<string, number>();
+  for (const token of tokenize(code).tokens) {
+    if (!layout.has(token.type)) {
+      counts.set(key(token), (counts.get(key(token)) ?? 0) + 1);
+    }
+  }
+
+  for (const token of tokenize(source).tokens) {
+    if (layout.has(token.type)) {
+      continue;
+    }
+    const count = counts.get(key(token)) ?? 0;
+    if (count === 0) {
+      return token;
+    }
+    counts.set(key(token), count - 1);
+  }
+  return null;
+}
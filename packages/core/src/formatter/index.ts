@@ -0,0 +1,18 @@
+/**
+ * OpenProse Formatter
+ *
+ * Exports for the canonical source formatter
+ */
+
+export type {
+  FormatterOptions,
+  FormattedOutput,
+  FormattedRegion,
+  FormatResult,
+} from './formatter';
+
+export {
+  Formatter,
+  format,
+  formatSource,
+} from './formatter';
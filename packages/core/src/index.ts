@@ -32,6 +32,7 @@ export type {
   SessionStatementNode,
   PropertyNode,
   ImportStatementNode,
+  UseStatementNode,
   AgentDefinitionNode,
   BlockDefinitionNode,
   DoBlockNode,
@@ -44,9 +45,20 @@ export type {
   ArrayExpressionNode,
   ObjectExpressionNode,
   PipeExpressionNode,
+  TypeNode,
+  PrimitiveTypeNode,
+  ArrayTypeNode,
+  ObjectTypeNode,
+  TypeFieldNode,
   ASTVisitor,
   ParseResult,
   ParseError,
+  ParserOptions,
+  TriviaKind,
+  CSTTrivia,
+  CSTToken,
+  CSTNode,
+  CSTElement,
 } from './parser';
 
 // Parser value exports
@@ -61,15 +73,38 @@ export {
   createCommentNode,
   createProgramNode,
   walkAST,
+  getChildNodes,
   Parser,
   parse,
   parseComments,
+  buildCST,
+  printCST,
+  getCSTTokens,
+  findCSTNode,
 } from './parser';
 
 // Validator type exports
 export type {
   ValidationError,
   ValidationResult,
+  RelatedSpan,
+  ValidateOptions,
+  ValidationFix,
+  DiagnosticCode,
+  ReportFormat,
+  FileReport,
+  ReportOptions,
+  RuleSeverity,
+  RuleSetting,
+  LintConfig,
+  RuleContext,
+  LintRule,
+  LintOptions,
+  ConfigFile,
+  SymbolKind,
+  VariableKind,
+  SymbolInfo,
+  SymbolReference,
 } from './validator';
 
 // Validator value exports
@@ -77,25 +112,295 @@ export {
   Validator,
   validate,
   isValid,
+  bind,
+  SymbolTable,
+  DiagnosticCodes,
+  REPORT_FORMATS,
+  parseErrorToValidationError,
+  formatDiagnostic,
+  formatReport,
+  getRuleName,
+  ConfigError,
+  findConfigFile,
+  loadConfig,
 } from './validator';
 
+// Module type exports
+export type {
+  ModuleDefinition,
+  LinkOptions,
+  ProseModule,
+  LinkResult,
+} from './modules';
+
+// Module value exports
+export {
+  linkProgram,
+} from './modules';
+
+// Schema type exports
+export type {
+  JsonSchema,
+} from './schema';
+
+// Schema value exports
+export {
+  formatType,
+  toJsonSchema,
+  fieldType,
+  describeType,
+  checkValue,
+} from './schema';
+
+// Skill type exports
+export type {
+  SkillSourceKind,
+  SkillSource,
+  SkillRegistry,
+  LockedSkill,
+  Lockfile,
+  InstallOptions,
+  InstallStatus,
+  InstalledSkill,
+  InstallResult,
+} from './skills';
+
+// Skill value exports
+export {
+  SkillError,
+  DirectoryRegistry,
+  RemoteRegistry,
+  parseSkillSource,
+  formatSkillSource,
+  DEFAULT_SKILL_CACHE_DIR,
+  SkillCache,
+  integrityOf,
+  LOCKFILE_NAME,
+  LOCKFILE_VERSION,
+  LockfileError,
+  emptyLockfile,
+  readLockfile,
+  formatLockfile,
+  writeLockfile,
+  skillSources,
+  installSkills,
+} from './skills';
+
 // Compiler type exports
 export type {
+  CompileTarget,
   CompilerOptions,
   CompiledOutput,
   CommentInfo,
   SourceMap,
   SourceMapping,
+  ProseIR,
+  IRImport,
+  IRAgent,
+  IRBlock,
+  IRVariableKind,
+  IRScope,
+  IRBody,
+  IRNode,
+  IRString,
+  IRTemplate,
+  IRNumber,
+  IRVariable,
+  IRCondition,
+  IRArray,
+  IRField,
+  IRObject,
+  IRSession,
+  IRBinding,
+  IRAssignment,
+  IRCall,
+  IRDo,
+  IRSequence,
+  IRParallel,
+  IRLoop,
+  IRRepeat,
+  IRFor,
+  IRFilter,
+  IRReduce,
+  IRTry,
+  IRThrow,
+  IRChoice,
+  IRIf,
+  TypeScriptOptions,
 } from './compiler';
 
 // Compiler value exports
 export {
+  COMPILE_TARGETS,
   Compiler,
   compile,
   compileToString,
   stripComments,
+  IR_VERSION,
+  IRError,
+  compileToIR,
+  IR_SCHEMA,
+  compileToTypeScript,
 } from './compiler';
 
+// Formatter type exports
+export type {
+  FormatterOptions,
+  FormattedOutput,
+  FormattedRegion,
+  FormatResult,
+} from './formatter';
+
+// Formatter value exports
+export {
+  Formatter,
+  format,
+  formatSource,
+} from './formatter';
+
+// Refactoring type exports
+export type {
+  SourcePosition,
+  SourceEdit,
+  RefactorResult,
+  RenameTarget,
+  FixAllResult,
+} from './refactor';
+
+// Refactoring value exports
+export {
+  RefactorContext,
+  applyEdits,
+  prepareRename,
+  renameSymbol,
+  extractBlock,
+  inlineBlock,
+  applyFixes,
+} from './refactor';
+
+// Planner type exports
+export type {
+  SessionCount,
+  PlanStepKind,
+  PlanStep,
+  DiscretionPoint,
+  AgentUsage,
+  ModelUsage,
+  TokenUsage,
+  Estimate,
+  ExecutionPlan,
+  PlanOptions,
+  ModelPrice,
+  PriceTable,
+  Budget,
+  CostOptions,
+  ModelCost,
+  CostEstimate,
+  BudgetViolation,
+  GraphNodeKind,
+  GraphNode,
+  GraphGroupKind,
+  GraphGroup,
+  GraphEdgeKind,
+  GraphEdge,
+  DataflowGraph,
+  GraphFormat,
+  ParallelizableRun,
+  ParallelismAnalysis,
+} from './planner';
+
+// Planner value exports
+export {
+  Planner,
+  planProgram,
+  formatPlan,
+  formatSessionCount,
+  estimateTokens,
+  estimateCost,
+  checkBudget,
+  violationSpan,
+  formatCostEstimate,
+  DEFAULT_MODEL,
+  DEFAULT_OUTPUT_TOKENS,
+  CHARS_PER_TOKEN,
+  DEFAULT_PRICES,
+  BUDGET_LIMITS,
+  GraphBuilder,
+  buildGraph,
+  formatDot,
+  formatMermaid,
+  formatGraph,
+  GRAPH_FORMATS,
+  analyzeParallelism,
+  formatParallelism,
+} from './planner';
+
+// Interpreter type exports
+export type {
+  Value,
+  ResolvedAgent,
+  SessionRequest,
+  SessionResult,
+  ConditionRequest,
+  ChoiceRequest,
+  SessionBackend,
+  InterpreterOptions,
+  ExecutionResult,
+  JoinStrategy,
+  FailurePolicy,
+  RunLimits,
+  RunLimit,
+  Overrun,
+  MockResponse,
+  MockSessionRule,
+  MockFixture,
+  TraceEvent,
+  TraceTiming,
+  TraceEventData,
+  TraceRecorderOptions,
+  RunStatus,
+  CheckpointState,
+  CheckpointOptions,
+  ReplayCall,
+  Divergence,
+  ReplayResult,
+  ReplayOptions,
+} from './interpreter';
+
+// Interpreter value exports
+export {
+  Interpreter,
+  interpret,
+  ExecutionError,
+  CancelledError,
+  BudgetExceededError,
+  resolveAgent,
+  propertyText,
+  RunBudget,
+  MockBackend,
+  FixtureError,
+  loadMockFixture,
+  parseMockFixture,
+  TRACE_VERSION,
+  TraceRecorder,
+  TraceError,
+  traceFileWriter,
+  parseTrace,
+  readTraceFile,
+  linkTrace,
+  CHECKPOINT_VERSION,
+  DEFAULT_CHECKPOINT_DIR,
+  Checkpoint,
+  CheckpointError,
+  checkpointFile,
+  loadCheckpoint,
+  createRunId,
+  hashSource,
+  ReplayBackend,
+  replay,
+  describeCall,
+} from './interpreter';
+
 // LSP type exports
 export type {
   SemanticTokenType,
@@ -103,6 +408,18 @@ export type {
   SemanticToken,
   EncodedSemanticTokens,
   SemanticTokensLegend,
+  Position,
+  Range,
+  Location,
+  TextEdit,
+  WorkspaceEdit,
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  CodeAction,
+  CompletionItem,
+  Hover,
+  TextDocument,
+  LanguageServerOptions,
 } from './lsp';
 
 // LSP value exports
@@ -111,6 +428,20 @@ export {
   getSemanticTokensLegend,
   getSemanticTokens,
   getEncodedSemanticTokens,
+  DiagnosticSeverity,
+  getDiagnostics,
+  CompletionItemKind,
+  getCompletions,
+  getHover,
+  getDefinition,
+  getReferences,
+  getRenameRange,
+  getRenameEdit,
+  getCodeActions,
+  getFormattingEdits,
+  getRangeFormattingEdits,
+  LanguageServer,
+  startLanguageServer,
 } from './lsp';
 
 /**
@@ -0,0 +1,104 @@
+/**
+ * OpenProse Session Backend
+ *
+ * The interpreter runs control flow itself and hands the backend only what
+ * needs a model: running sessions, deciding **discretion** conditions and
+ * picking the option of a `choice` block. MockBackend answers from a
+ * fixture, for running programs offline.
+ */
+
+import { SourceSpan } from '../parser/tokens';
+import type { JsonSchema } from '../schema';
+
+/**
+ * A runtime value: session outputs, literals and collections of them
+ */
+export type Value = string | number | boolean | null | Value[] | { [key: string]: Value };
+
+/**
+ * An agent definition with its properties evaluated
+ */
+export interface ResolvedAgent {
+  name: string;
+  model: string | null;
+  /** The agent's system prompt */
+  prompt: string | null;
+  skills: string[];
+  permissions: { [key: string]: Value };
+}
+
+/**
+ * A session to run
+ */
+export interface SessionRequest {
+  /** The task prompt, with {var} interpolations filled in */
+  prompt: string;
+  /** Session name, from `session name: agent` */
+  name: string | null;
+  agent: ResolvedAgent | null;
+  /** Model from the session, or else its agent */
+  model: string | null;
+  /** What the session may do: its agent's permissions */
+  permissions: { [key: string]: Value };
+  /** Explicit `context:` bindings, by name */
+  context: { [name: string]: Value };
+  /** The predecessor's output, passed implicitly when there is no `context:` */
+  previous?: Value;
+  /** JSON Schema of the output, from `returns`; text output is parsed as JSON */
+  returns?: JsonSchema;
+  /** 1 for the first attempt, then counting retries */
+  attempt: number;
+  /** Why the previous attempt failed, on a retry */
+  previousError?: string;
+  span: SourceSpan;
+  /** Path of the parallel branch making the call, as in traces */
+  branch?: string;
+  /** Aborted when the session's result is no longer needed */
+  signal: AbortSignal;
+}
+
+export interface SessionResult {
+  output: Value;
+  /** Tokens the session used, if the backend knows; estimated otherwise */
+  usage?: { inputTokens: number; outputTokens: number };
+}
+
+/**
+ * A **discretion** condition to decide
+ */
+export interface ConditionRequest {
+  /** The text between the asterisks */
+  condition: string;
+  /** Variables in scope */
+  bindings: { [name: string]: Value };
+  previous?: Value;
+  span: SourceSpan;
+  branch?: string;
+  signal: AbortSignal;
+}
+
+/**
+ * A choice block to decide
+ */
+export interface ChoiceRequest {
+  criteria: string;
+  /** Option labels, in source order */
+  options: string[];
+  bindings: { [name: string]: Value };
+  previous?: Value;
+  span: SourceSpan;
+  branch?: string;
+  signal: AbortSignal;
+}
+
+/**
+ * Runs the parts of a program that need a model
+ */
+export interface SessionBackend {
+  /** Run a session; a rejection is a session failure */
+  runSession(request: SessionRequest): Promise<SessionResult>;
+  /** Decide whether a condition holds */
+  evaluateCondition(request: ConditionRequest): Promise<boolean>;
+  /** Pick an option of a choice block, by label */
+  chooseOption(request: ChoiceRequest): Promise<string>;
+}
@@ -0,0 +1,128 @@
+/**
+ * OpenProse Run Limits
+ *
+ * Hard caps on what a run may use: sessions started (retries included),
+ * tokens read and written, wall-clock time for the whole run, and
+ * wall-clock time for any one loop. The interpreter checks them before
+ * every statement, session and decision, and at the start of every loop
+ * iteration; going over fails the run with a BudgetExceededError, which a
+ * program's try/catch can handle. The budget stays spent, so any session
+ * the catch block starts fails the same way.
+ *
+ * Tokens are what the backend reports for each session, or else estimated
+ * from the text sent and received.
+ */
+
+export interface RunLimits {
+  sessions?: number;
+  tokens?: number;
+  durationMs?: number;
+  /** Wall-clock time any one loop, repeat or sequential for-each may run */
+  loopDurationMs?: number;
+}
+
+export type RunLimit = keyof RunLimits;
+
+/**
+ * A limit a run has gone over
+ */
+export interface Overrun {
+  limit: RunLimit;
+  allowed: number;
+  used: number;
+  message: string;
+}
+
+/**
+ * What a run has used, against its limits
+ */
+export class RunBudget {
+  public sessions = 0;
+  public tokens = 0;
+  private readonly started: number;
+
+  constructor(public readonly limits: RunLimits, private readonly now: () => number = Date.now) {
+    this.started = now();
+  }
+
+  /**
+   * Count a session about to start, unless the budget is spent
+   */
+  public startSession(): Overrun | null {
+    const { sessions, tokens } = this.limits;
+    const overrun = this.checkTime();
+    if (overrun) {
+      return overrun;
+    }
+    if (tokens !== undefined && this.tokens >= tokens) {
+      return this.tokenOverrun(tokens);
+    }
+    if (sessions !== undefined && this.sessions >= sessions) {
+      return {
+        limit: 'sessions',
+        allowed: sessions,
+        used: this.sessions,
+        message: `Budget exceeded: the run may start at most ${sessions} session${sessions === 1 ? '' : 's'}`,
+      };
+    }
+    this.sessions++;
+    return null;
+  }
+
+  /**
+   * Count the tokens of a session
+   */
+  public addTokens(count: number): Overrun | null {
+    this.tokens += count;
+    const { tokens } = this.limits;
+    return tokens !== undefined && this.tokens > tokens ? this.tokenOverrun(tokens) : null;
+  }
+
+  public checkTime(): Overrun | null {
+    const { durationMs } = this.limits;
+    const elapsed = this.now() - this.started;
+    if (durationMs === undefined || elapsed <= durationMs) {
+      return null;
+    }
+    return {
+      limit: 'durationMs',
+      allowed: durationMs,
+      used: elapsed,
+      message: `Budget exceeded: the run has taken ${formatDuration(elapsed)}, over its limit of ${formatDuration(durationMs)}`,
+    };
+  }
+
+  /**
+   * Start timing a loop; the returned check reports the loop running too
+   * long, or the whole run
+   */
+  public startLoop(): () => Overrun | null {
+    const started = this.now();
+    return () => {
+      const { loopDurationMs } = this.limits;
+      const elapsed = this.now() - started;
+      if (loopDurationMs === undefined || elapsed <= loopDurationMs) {
+        return this.checkTime();
+      }
+      return {
+        limit: 'loopDurationMs',
+        allowed: loopDurationMs,
+        used: elapsed,
+        message: `Budget exceeded: the loop has run for ${formatDuration(elapsed)}, over its limit of ${formatDuration(loopDurationMs)}`,
+      };
+    };
+  }
+
+  private tokenOverrun(allowed: number): Overrun {
+    return {
+      limit: 'tokens',
+      allowed,
+      used: this.tokens,
+      message: `Budget exceeded: the run has used ${this.tokens.toLocaleString('en-US')} of its ${allowed.toLocaleString('en-US')} tokens`,
+    };
+  }
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${Number((ms / 1000).toFixed(1))}s`;
+}
@@ -0,0 +1,247 @@
+/**
+ * OpenProse Checkpoints
+ *
+ * A checkpoint is the persisted state of a run, rewritten as the run goes:
+ * how many top-level statements have completed and the variables they left,
+ * the outputs of sessions, conditions and choices inside the statement in
+ * progress, and loop counters and completed branches for inspection. Runs
+ * are kept in `.prose/runs/<run-id>/checkpoint.json` by default.
+ *
+ * Resuming skips the completed top-level statements, then runs the one in
+ * progress again, answering every call the checkpoint has an output for
+ * without asking the backend. Calls are identified by their execution
+ * path: the statements, loop iterations, parallel branches and block calls
+ * that lead to them.
+ */
+
+import { createHash, randomBytes } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+import { SourceSpan } from '../parser/tokens';
+import { Value } from './backend';
+
+/** Version of the checkpoint format, bumped on incompatible changes */
+export const CHECKPOINT_VERSION = 1;
+
+/** Where runs are checkpointed, relative to the working directory */
+export const DEFAULT_CHECKPOINT_DIR = join('.prose', 'runs');
+
+export type RunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface CheckpointState {
+  version: number;
+  runId: string;
+  /** Path of the program */
+  program: string;
+  /** SHA-256 of the program source, to refuse resuming a changed program */
+  sourceHash: string;
+  status: RunStatus;
+  /** Why the run failed */
+  error?: string;
+  /** When the checkpoint was last written */
+  updatedAt: string;
+  /** Number of top-level statements completed */
+  completed: number;
+  /** Span of the last completed top-level statement */
+  position: SourceSpan | null;
+  /** Top-level variables after the last completed statement */
+  bindings: { [name: string]: Value };
+  /** Value of the last completed statement that produced one */
+  previous?: Value;
+  /** Output of a completed run */
+  output?: Value;
+  /** Current iteration of each loop in progress, by execution path */
+  loops: { [path: string]: number };
+  /** Completed branches of each parallel block in progress, by execution path */
+  branches: { [path: string]: number[] };
+  /** Outputs of sessions, conditions and choices, by execution path */
+  results: { [path: string]: Value };
+  /** What the caller needs to resume, such as the backend to use */
+  metadata: { [key: string]: string };
+}
+
+export interface CheckpointOptions {
+  runId: string;
+  program: string;
+  source: string;
+  /** File to save the checkpoint to; without one it's kept in memory */
+  file?: string;
+  metadata?: { [key: string]: string };
+}
+
+/**
+ * Error thrown for a run that can't be resumed
+ */
+export class CheckpointError extends Error {
+  constructor(public runId: string, message: string) {
+    super(`Run ${runId}: ${message}`);
+    this.name = 'CheckpointError';
+  }
+}
+
+export class Checkpoint {
+  constructor(public readonly state: CheckpointState, private readonly file?: string) {}
+
+  /**
+   * A checkpoint for a new run
+   */
+  public static create(options: CheckpointOptions): Checkpoint {
+    const checkpoint = new Checkpoint({
+      version: CHECKPOINT_VERSION,
+      runId: options.runId,
+      program: options.program,
+      sourceHash: hashSource(options.source),
+      status: 'running',
+      updatedAt: new Date().toISOString(),
+      completed: 0,
+      position: null,
+      bindings: {},
+      loops: {},
+      branches: {},
+      results: {},
+      metadata: options.metadata ?? {},
+    }, options.file);
+    checkpoint.save();
+    return checkpoint;
+  }
+
+  /**
+   * Mark the run as running again, when it starts or resumes
+   */
+  public begin(): void {
+    this.state.status = 'running';
+    delete this.state.error;
+    this.save();
+  }
+
+  /**
+   * The recorded output of a call, if the run has made it before
+   */
+  public recall(path: string): { value: Value } | undefined {
+    return Object.prototype.hasOwnProperty.call(this.state.results, path)
+      ? { value: this.state.results[path] }
+      : undefined;
+  }
+
+  public record(path: string, value: Value): void {
+    this.state.results[path] = value;
+    this.save();
+  }
+
+  /**
+   * Mark a top-level statement completed. What was recorded inside it is no
+   * longer needed, since resuming skips it.
+   */
+  public statementCompleted(
+    path: string,
+    span: SourceSpan,
+    bindings: { [name: string]: Value },
+    previous: Value | undefined
+  ): void {
+    this.state.completed++;
+    this.state.position = span;
+    this.state.bindings = bindings;
+    if (previous !== undefined) {
+      this.state.previous = previous;
+    }
+    for (const map of [this.state.results, this.state.loops, this.state.branches]) {
+      for (const key of Object.keys(map)) {
+        if (isWithin(key, path)) {
+          delete map[key];
+        }
+      }
+    }
+    this.save();
+  }
+
+  public loopIteration(path: string, iteration: number): void {
+    this.state.loops[path] = iteration;
+  }
+
+  public loopFinished(path: string): void {
+    delete this.state.loops[path];
+  }
+
+  public branchCompleted(path: string, index: number): void {
+    this.state.branches[path] = [...(this.state.branches[path] ?? []), index];
+    this.save();
+  }
+
+  public finish(status: Exclude<RunStatus, 'running'>, result: { output?: Value; error?: string }): void {
+    this.state.status = status;
+    this.state.output = result.output;
+    this.state.error = result.error;
+    this.save();
+  }
+
+  /**
+   * Check that the program hasn't changed since the run started
+   */
+  public checkSource(source: string): void {
+    if (hashSource(source) !== this.state.sourceHash) {
+      throw new CheckpointError(this.state.runId, `${this.state.program} has changed since the run started`);
+    }
+  }
+
+  /**
+   * Write the checkpoint, replacing the previous one in a single rename
+   */
+  public save(): void {
+    if (!this.file) {
+      return;
+    }
+    this.state.updatedAt = new Date().toISOString();
+    mkdirSync(dirname(this.file), { recursive: true });
+    const temporary = `${this.file}.tmp`;
+    writeFileSync(temporary, JSON.stringify(this.state, null, 2) + '\n');
+    renameSync(temporary, this.file);
+  }
+}
+
+/**
+ * The checkpoint file of a run
+ */
+export function checkpointFile(dir: string, runId: string): string {
+  return join(dir, runId, 'checkpoint.json');
+}
+
+/**
+ * Load the checkpoint of a run, which keeps saving to the same file
+ */
+export function loadCheckpoint(dir: string, runId: string): Checkpoint {
+  const file = checkpointFile(dir, runId);
+  if (!existsSync(file)) {
+    throw new CheckpointError(runId, `No checkpoint found in ${dir}`);
+  }
+
+  let state: CheckpointState;
+  try {
+    state = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new CheckpointError(runId, `Unreadable checkpoint: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (state.version !== CHECKPOINT_VERSION || state.runId !== runId) {
+    throw new CheckpointError(runId, `${file} is not a version ${CHECKPOINT_VERSION} checkpoint of this run`);
+  }
+  return new Checkpoint(state, file);
+}
+
+/**
+ * A new run ID: run-YYYYMMDD-HHMMSS-xxxxxx
+ */
+export function createRunId(date: Date = new Date()): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `run-${stamp}-${randomBytes(3).toString('hex')}`;
+}
+
+export function hashSource(source: string): string {
+  return createHash('sha256').update(source).digest('hex');
+}
+
+/**
+ * Whether an execution path is the given one or lies inside it. Path
+ * segments end at a separator, so "/12" doesn't contain "/120".
+ */
+function isWithin(path: string, prefix: string): boolean {
+  return path === prefix || (path.startsWith(prefix) && !/[0-9]/.test(path[prefix.length]));
+}
@@ -0,0 +1,98 @@
+/**
+ * OpenProse Interpreter Module
+ */
+
+export type {
+  Value,
+  ResolvedAgent,
+  SessionRequest,
+  SessionResult,
+  ConditionRequest,
+  ChoiceRequest,
+  SessionBackend,
+} from './backend';
+
+export type {
+  InterpreterOptions,
+  ExecutionResult,
+  JoinStrategy,
+  FailurePolicy,
+} from './interpreter';
+
+export {
+  Interpreter,
+  interpret,
+  ExecutionError,
+  CancelledError,
+  BudgetExceededError,
+  resolveAgent,
+  propertyText,
+} from './interpreter';
+
+export type {
+  RunLimits,
+  RunLimit,
+  Overrun,
+} from './budget';
+
+export { RunBudget } from './budget';
+
+export type {
+  MockResponse,
+  MockSessionRule,
+  MockFixture,
+} from './mock-backend';
+
+export {
+  MockBackend,
+  FixtureError,
+  loadMockFixture,
+  parseMockFixture,
+} from './mock-backend';
+
+export type {
+  TraceEvent,
+  TraceTiming,
+  TraceEventData,
+  TraceRecorderOptions,
+} from './trace';
+
+export {
+  TRACE_VERSION,
+  TraceRecorder,
+  TraceError,
+  traceFileWriter,
+  parseTrace,
+  readTraceFile,
+  linkTrace,
+} from './trace';
+
+export type {
+  RunStatus,
+  CheckpointState,
+  CheckpointOptions,
+} from './checkpoint';
+
+export {
+  CHECKPOINT_VERSION,
+  DEFAULT_CHECKPOINT_DIR,
+  Checkpoint,
+  CheckpointError,
+  checkpointFile,
+  loadCheckpoint,
+  createRunId,
+  hashSource,
+} from './checkpoint';
+
+export type {
+  ReplayCall,
+  Divergence,
+  ReplayResult,
+  ReplayOptions,
+} from './replay';
+
+export {
+  ReplayBackend,
+  replay,
+  describeCall,
+} from './replay';
@@ -0,0 +1,1209 @@
+/**
+ * OpenProse Reference Interpreter
+ *
+ * Executes a validated program deterministically. Control flow - sequences,
+ * blocks, loops, parallel join strategies, try/catch/finally, retries,
+ * pipes and arrows - is run here; sessions, **discretion** conditions and
+ * choices are delegated to a SessionBackend.
+ *
+ * Each call to the backend has an execution path, such as "/40@40#2/57@63":
+ * the session at offset 63, in the statement at offset 57 of the third
+ * iteration of the loop at offset 40. Checkpoints record outputs by path,
+ * so a resumed run can answer the calls it made before.
+ */
+
+import {
+  ProgramNode,
+  StatementNode,
+  ExpressionNode,
+  SessionStatementNode,
+  AgentDefinitionNode,
+  BlockDefinitionNode,
+  DoBlockNode,
+  ParallelBlockNode,
+  LoopBlockNode,
+  RepeatBlockNode,
+  ForEachBlockNode,
+  TryBlockNode,
+  ThrowStatementNode,
+  ChoiceBlockNode,
+  IfStatementNode,
+  PipeExpressionNode,
+  PipeOperationNode,
+  ArrowExpressionNode,
+  DiscretionNode,
+  IdentifierNode,
+  PropertyNode,
+  TypeNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { ResolvedAgent, SessionBackend, Value } from './backend';
+import { TraceEventData, TraceRecorder } from './trace';
+import { Checkpoint } from './checkpoint';
+import { Overrun, RunBudget, RunLimit, RunLimits } from './budget';
+import { estimateTokens } from '../planner';
+import { checkValue, formatType, toJsonSchema } from '../schema';
+
+export interface InterpreterOptions {
+  backend: SessionBackend;
+  /** Iterations a loop without (max: N) may run before failing (default: 100) */
+  loopLimit?: number;
+  /** Base delay in milliseconds for linear and exponential backoff (default: 1000) */
+  backoffDelay?: number;
+  /** Waits between retries; replace it to retry without real delays */
+  sleep?: (ms: number) => Promise<void>;
+  /** Aborts the run */
+  signal?: AbortSignal;
+  /** Records an execution trace of the run */
+  trace?: TraceRecorder;
+  /** Persists the run's progress; a checkpoint with progress resumes the run */
+  checkpoint?: Checkpoint;
+  /** Caps on sessions, tokens and time; going over fails with BudgetExceededError */
+  limits?: RunLimits;
+  /** Clock for time limits, in milliseconds */
+  now?: () => number;
+}
+
+export interface ExecutionResult {
+  /** Value of the last top-level statement that produced one */
+  output: Value;
+  /** Top-level variables when the program finished */
+  bindings: { [name: string]: Value };
+}
+
+/**
+ * An error raised while running a program: a failed session, a `throw`, or
+ * a runtime check such as iterating over a non-array. A program's
+ * try/catch handles these.
+ */
+export class ExecutionError extends Error {
+  constructor(message: string, public span: SourceSpan, public cause?: unknown) {
+    super(message);
+    this.name = 'ExecutionError';
+  }
+}
+
+/**
+ * Thrown when a branch or the whole run is aborted. try/catch doesn't
+ * handle it, though finally blocks still run.
+ */
+export class CancelledError extends Error {
+  constructor() {
+    super('Execution cancelled');
+    this.name = 'CancelledError';
+  }
+}
+
+/**
+ * Thrown when a run goes over one of its limits. A program's try/catch
+ * handles it like any other execution error.
+ */
+export class BudgetExceededError extends ExecutionError {
+  public limit: RunLimit;
+  public allowed: number;
+  public used: number;
+
+  constructor(overrun: Overrun, span: SourceSpan) {
+    super(overrun.message, span);
+    this.name = 'BudgetExceededError';
+    this.limit = overrun.limit;
+    this.allowed = overrun.allowed;
+    this.used = overrun.used;
+  }
+}
+
+const DEFAULT_LOOP_LIMIT = 100;
+const DEFAULT_BACKOFF_DELAY = 1000;
+const MAX_CALL_DEPTH = 100;
+
+/** How a parallel block joins its branches */
+export type JoinStrategy = 'all' | 'first' | 'any';
+/** What a parallel block does when a branch fails */
+export type FailurePolicy = 'fail-fast' | 'continue' | 'ignore';
+
+/**
+ * What a scope belongs to. Like the validator, an anonymous do block's
+ * variables escape through the bodies of if, try, choice and pipes to the
+ * nearest enclosing program, block or loop scope, unless they shadow one.
+ */
+type ScopeKind = 'scope' | 'body' | 'do';
+
+/**
+ * Variables visible at a point of execution
+ */
+class Scope {
+  private readonly variables: Map<string, Value> = new Map();
+
+  constructor(private readonly parent: Scope | null = null, private readonly kind: ScopeKind = 'scope') {}
+
+  public get(name: string): Value | undefined {
+    return this.variables.has(name) ? this.variables.get(name) : this.parent?.get(name);
+  }
+
+  public define(name: string, value: Value): void {
+    this.variables.set(name, value);
+  }
+
+  /**
+   * Define a let or const variable, in the scope it escapes to if this is
+   * an anonymous do block
+   */
+  public bind(name: string, value: Value): void {
+    if (this.kind === 'do' && this.parent && this.parent.get(name) === undefined) {
+      this.parent.escapeTarget().define(name, value);
+    } else {
+      this.define(name, value);
+    }
+  }
+
+  private escapeTarget(): Scope {
+    return this.kind !== 'scope' && this.parent ? this.parent.escapeTarget() : this;
+  }
+
+  /**
+   * Set an existing variable, returning false if there is none
+   */
+  public assign(name: string, value: Value): boolean {
+    if (this.variables.has(name)) {
+      this.variables.set(name, value);
+      return true;
+    }
+    return this.parent?.assign(name, value) ?? false;
+  }
+
+  /**
+   * Every visible variable, inner ones shadowing outer ones
+   */
+  public bindings(): { [name: string]: Value } {
+    return { ...this.parent?.bindings(), ...Object.fromEntries(this.variables) };
+  }
+}
+
+/**
+ * Where a statement runs
+ */
+interface Frame {
+  scope: Scope;
+  signal: AbortSignal;
+  /** Output of the previous statement, passed implicitly to sessions */
+  previous?: Value;
+  /** The error a catch block is handling, for a bare `throw` */
+  error: ExecutionError | null;
+  /** Block call depth */
+  depth: number;
+  /** Path of the parallel branch, such as "1.0", for traces */
+  branch?: string;
+  /** Execution path, identifying backend calls for checkpoints */
+  path: string;
+}
+
+/**
+ * What a parallel branch runs with, in place of its parent's frame
+ */
+type BranchFrame = Pick<Frame, 'signal' | 'branch' | 'path'>;
+
+/**
+ * Statements that do nothing when run, and aren't traced
+ */
+const DECLARATIONS = new Set(['CommentStatement', 'ImportStatement', 'UseStatement', 'AgentDefinition', 'BlockDefinition']);
+
+export class Interpreter {
+  private readonly backend: SessionBackend;
+  private readonly loopLimit: number;
+  private readonly backoffDelay: number;
+  private readonly sleep: (ms: number) => Promise<void>;
+  private readonly agents: Map<string, ResolvedAgent> = new Map();
+  private readonly blocks: Map<string, BlockDefinitionNode> = new Map();
+  private globals: Scope = new Scope();
+  private readonly trace: TraceRecorder | undefined;
+  private readonly checkpoint: Checkpoint | undefined;
+  /** Errors already recorded in the trace, so each is recorded once */
+  private readonly traced: WeakSet<ExecutionError> = new WeakSet();
+  /** What the current run has used, when it has limits */
+  private budget: RunBudget | undefined;
+
+  constructor(private program: ProgramNode, private options: InterpreterOptions) {
+    this.backend = options.backend;
+    this.loopLimit = options.loopLimit ?? DEFAULT_LOOP_LIMIT;
+    this.backoffDelay = options.backoffDelay ?? DEFAULT_BACKOFF_DELAY;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
+    this.trace = options.trace;
+    this.checkpoint = options.checkpoint;
+
+    for (const statement of program.statements) {
+      if (statement.type === 'AgentDefinition') {
+        this.agents.set(statement.name.name, resolveAgent(statement));
+      } else if (statement.type === 'BlockDefinition') {
+        this.blocks.set(statement.name.name, statement);
+      }
+    }
+  }
+
+  /**
+   * Run the program, or resume it from its checkpoint. Rejects with an
+   * ExecutionError for an error the program doesn't catch.
+   */
+  public async run(): Promise<ExecutionResult> {
+    this.globals = new Scope();
+    this.budget = this.options.limits ? new RunBudget(this.options.limits, this.options.now) : undefined;
+    const frame: Frame = {
+      scope: this.globals,
+      signal: this.options.signal ?? new AbortController().signal,
+      error: null,
+      depth: 0,
+      path: '',
+    };
+    this.trace?.begin();
+    this.checkpoint?.begin();
+    try {
+      const output = await this.executeProgram(frame);
+      this.trace?.record({ type: 'run-end', status: 'completed', output, durationMs: this.trace.elapsed() });
+      this.checkpoint?.finish('completed', { output });
+      return { output, bindings: this.globals.bindings() };
+    } catch (error) {
+      const status = error instanceof CancelledError ? 'cancelled' : 'failed';
+      const message = error instanceof Error ? error.message : String(error);
+      this.trace?.record({ type: 'run-end', status, error: message, durationMs: this.trace.elapsed() });
+      this.checkpoint?.finish(status, { error: message });
+      throw error;
+    }
+  }
+
+  /**
+   * Run the top-level statements, checkpointing after each one. A resumed
+   * run restores the variables and skips the statements already completed.
+   */
+  private async executeProgram(frame: Frame): Promise<Value> {
+    const checkpoint = this.checkpoint;
+    let last: Value = null;
+    if (checkpoint) {
+      for (const [name, value] of Object.entries(checkpoint.state.bindings)) {
+        this.globals.define(name, value);
+      }
+      if (checkpoint.state.previous !== undefined) {
+        last = checkpoint.state.previous;
+        frame.previous = last;
+      }
+    }
+
+    for (const statement of this.program.statements.slice(checkpoint?.state.completed ?? 0)) {
+      const path = `/${statement.span.start.offset}`;
+      const value = await this.executeStatement(statement, { ...frame, path });
+      if (value !== undefined) {
+        last = value;
+        frame.previous = value;
+      }
+      checkpoint?.statementCompleted(path, statement.span, this.globals.bindings(), frame.previous);
+    }
+    return last;
+  }
+
+  // ========== Statements ==========
+
+  /**
+   * Run statements in order, returning the value of the last one that
+   * produced a value
+   */
+  private async executeBody(statements: StatementNode[], frame: Frame): Promise<Value> {
+    let last: Value = null;
+    for (const statement of statements) {
+      const value = await this.executeStatement(statement, { ...frame, path: `${frame.path}/${statement.span.start.offset}` });
+      if (value !== undefined) {
+        last = value;
+        frame.previous = value;
+      }
+    }
+    return last;
+  }
+
+  /**
+   * Run a statement, tracing its start and end
+   */
+  private async executeStatement(statement: StatementNode, frame: Frame): Promise<Value | undefined> {
+    checkSignal(frame.signal);
+    this.enforce(this.budget?.checkTime(), statement.span, frame);
+    const trace = this.trace;
+    if (!trace || DECLARATIONS.has(statement.type)) {
+      return this.runStatement(statement, frame);
+    }
+
+    const started = trace.elapsed();
+    const exit = (status: 'completed' | 'failed' | 'cancelled') => this.emit(frame, {
+      type: 'statement-exit',
+      statement: statement.type,
+      span: statement.span,
+      status,
+      durationMs: trace.elapsed() - started,
+    });
+
+    this.emit(frame, { type: 'statement-enter', statement: statement.type, span: statement.span });
+    try {
+      const value = await this.runStatement(statement, frame);
+      exit('completed');
+      return value;
+    } catch (error) {
+      if (error instanceof ExecutionError && !this.traced.has(error)) {
+        this.traced.add(error);
+        this.emit(frame, { type: 'error', span: error.span, message: error.message });
+      }
+      exit(error instanceof CancelledError ? 'cancelled' : 'failed');
+      throw error;
+    }
+  }
+
+  /**
+   * Run a statement. Declarations and comments produce no value.
+   */
+  private async runStatement(statement: StatementNode, frame: Frame): Promise<Value | undefined> {
+    switch (statement.type) {
+      case 'CommentStatement':
+      case 'ImportStatement':
+      case 'UseStatement':
+      case 'AgentDefinition':
+      case 'BlockDefinition':
+        return undefined;
+      case 'LetBinding':
+      case 'ConstBinding': {
+        const value = await this.evaluate(statement.value, frame);
+        frame.scope.bind(statement.name.name, value);
+        this.emit(frame, { type: 'binding', span: statement.span, name: statement.name.name, value });
+        return value;
+      }
+      case 'Assignment': {
+        const value = await this.evaluate(statement.value, frame);
+        // Bindings made inside a parallel block are declared by their assignment
+        if (!frame.scope.assign(statement.name.name, value)) {
+          frame.scope.define(statement.name.name, value);
+        }
+        this.emit(frame, { type: 'binding', span: statement.span, name: statement.name.name, value });
+        return value;
+      }
+      case 'ThrowStatement':
+        throw this.throwError(statement, frame);
+      default:
+        return this.evaluate(statement, frame);
+    }
+  }
+
+  private throwError(throwStmt: ThrowStatementNode, frame: Frame): ExecutionError {
+    if (throwStmt.message) {
+      return new ExecutionError(interpolate(throwStmt.message.value, frame.scope, throwStmt.message.span), throwStmt.span);
+    }
+    return frame.error ?? new ExecutionError('Nothing to rethrow outside of a catch block', throwStmt.span);
+  }
+
+  private async callBlock(doBlock: DoBlockNode, name: IdentifierNode, frame: Frame): Promise<Value> {
+    const block = this.blocks.get(name.name);
+    if (!block) {
+      throw new ExecutionError(`Undefined block: "${name.name}"`, name.span);
+    }
+    if (frame.depth >= MAX_CALL_DEPTH) {
+      throw new ExecutionError(`Block calls nested deeper than ${MAX_CALL_DEPTH}`, doBlock.span);
+    }
+
+    // Blocks see the top-level variables, not the caller's
+    const scope = new Scope(this.globals);
+    for (const [index, parameter] of block.parameters.entries()) {
+      const argument = doBlock.arguments[index];
+      scope.define(parameter.name, argument ? await this.evaluate(argument, frame) : null);
+    }
+    const result = await this.executeBody(block.body, {
+      ...frame,
+      scope,
+      depth: frame.depth + 1,
+      path: `${frame.path}>${doBlock.span.start.offset}`,
+    });
+    if (!block.returns) {
+      return result;
+    }
+    try {
+      return structuredOutput(result, block.returns);
+    } catch (error) {
+      throw new ExecutionError(`Block "${name.name}": ${(error as Error).message}`, doBlock.span, error);
+    }
+  }
+
+  private async executeParallel(parallel: ParallelBlockNode, frame: Frame): Promise<Value> {
+    const join = (parallel.joinStrategy?.value ?? 'all') as JoinStrategy;
+    const onFail = (parallel.onFail?.value ?? 'fail-fast') as FailurePolicy;
+    const count = parallel.anyCount?.value ?? 1;
+
+    // Branches share the enclosing scope, so their bindings outlive the block
+    const branches = parallel.body
+      .filter(statement => statement.type !== 'CommentStatement')
+      .map(statement => (branch: BranchFrame) =>
+        this.executeStatement(statement, { ...frame, ...branch }).then(value => value ?? null)
+      );
+    return this.runConcurrently(branches, join, count, onFail, frame, parallel.span);
+  }
+
+  private async executeLoop(loop: LoopBlockNode, frame: Frame): Promise<Value> {
+    const max = loop.maxIterations?.value ?? null;
+    const limit = max ?? this.loopLimit;
+    const loopPath = `${frame.path}@${loop.span.start.offset}`;
+    const checkLoop = this.budget?.startLoop();
+    let last: Value = null;
+
+    for (let iteration = 0; ; iteration++) {
+      const iterationFrame = { ...frame, path: `${loopPath}#${iteration}` };
+      this.enforce(checkLoop?.(), loop.span, frame);
+      if (iteration >= limit) {
+        if (max === null) {
+          throw new ExecutionError(
+            `Loop did not finish within ${limit} iterations. Add (max: N) to stop it earlier.`,
+            loop.span
+          );
+        }
+        break;
+      }
+      if (loop.condition) {
+        const holds = await this.evaluateCondition(loop.condition, iterationFrame);
+        if (loop.variant === 'until' ? holds : !holds) {
+          break;
+        }
+      }
+      this.emit(frame, { type: 'loop-iteration', span: loop.span, iteration: iteration + 1 });
+      this.checkpoint?.loopIteration(loopPath, iteration + 1);
+
+      const scope = new Scope(frame.scope);
+      if (loop.iterationVar) {
+        scope.define(loop.iterationVar.name, iteration);
+      }
+      last = await this.executeBody(loop.body, { ...iterationFrame, scope });
+      frame.previous = last;
+    }
+
+    this.checkpoint?.loopFinished(loopPath);
+    return last;
+  }
+
+  private async executeRepeat(repeat: RepeatBlockNode, frame: Frame): Promise<Value> {
+    const count = repeat.count.type === 'NumberLiteral'
+      ? repeat.count.value
+      : Number(this.lookup(repeat.count, frame));
+    if (!Number.isInteger(count) || count < 0) {
+      throw new ExecutionError('Repeat count must be a non-negative integer', repeat.count.span);
+    }
+
+    const loopPath = `${frame.path}@${repeat.span.start.offset}`;
+    const checkLoop = this.budget?.startLoop();
+    let last: Value = null;
+    for (let index = 0; index < count; index++) {
+      this.enforce(checkLoop?.(), repeat.span, frame);
+      this.emit(frame, { type: 'loop-iteration', span: repeat.span, iteration: index + 1 });
+      this.checkpoint?.loopIteration(loopPath, index + 1);
+      const scope = new Scope(frame.scope);
+      if (repeat.indexVar) {
+        scope.define(repeat.indexVar.name, index);
+      }
+      last = await this.executeBody(repeat.body, { ...frame, scope, path: `${loopPath}#${index}` });
+      frame.previous = last;
+    }
+    this.checkpoint?.loopFinished(loopPath);
+    return last;
+  }
+
+  private async executeForEach(forEach: ForEachBlockNode, frame: Frame): Promise<Value> {
+    const items = toArray(await this.evaluate(forEach.collection, frame), forEach.collection.span);
+    const runItem = (item: Value, index: number, itemFrame: Frame) => {
+      const scope = new Scope(frame.scope);
+      scope.define(forEach.itemVar.name, item);
+      if (forEach.indexVar) {
+        scope.define(forEach.indexVar.name, index);
+      }
+      return this.executeBody(forEach.body, { ...itemFrame, scope });
+    };
+
+    if (forEach.isParallel) {
+      const onFail = propertyText(forEach.modifiers, 'on-fail') ?? 'fail-fast';
+      const branches = items.map((item, index) => (branch: BranchFrame) => runItem(item, index, { ...frame, ...branch }));
+      return this.runConcurrently(branches, 'all', 1, onFail as FailurePolicy, frame, forEach.span);
+    }
+
+    const loopPath = `${frame.path}@${forEach.span.start.offset}`;
+    const checkLoop = this.budget?.startLoop();
+    const results: Value[] = [];
+    for (const [index, item] of items.entries()) {
+      this.enforce(checkLoop?.(), forEach.span, frame);
+      this.emit(frame, { type: 'loop-iteration', span: forEach.span, iteration: index + 1 });
+      this.checkpoint?.loopIteration(loopPath, index + 1);
+      results.push(await runItem(item, index, { ...frame, path: `${loopPath}#${index}` }));
+    }
+    this.checkpoint?.loopFinished(loopPath);
+    return results;
+  }
+
+  private async executeTry(tryBlock: TryBlockNode, frame: Frame): Promise<Value> {
+    try {
+      return await this.executeBody(tryBlock.tryBody, { ...frame, scope: new Scope(frame.scope, 'body') });
+    } catch (error) {
+      if (!(error instanceof ExecutionError) || !tryBlock.catchBody) {
+        throw error;
+      }
+      this.emit(frame, { type: 'catch', span: tryBlock.span, message: error.message });
+      const scope = new Scope(frame.scope);
+      if (tryBlock.errorVar) {
+        scope.define(tryBlock.errorVar.name, error.message);
+      }
+      return await this.executeBody(tryBlock.catchBody, { ...frame, scope, error });
+    } finally {
+      if (tryBlock.finallyBody) {
+        await this.executeBody(tryBlock.finallyBody, { ...frame, scope: new Scope(frame.scope, 'body') });
+      }
+    }
+  }
+
+  private async executeChoice(choice: ChoiceBlockNode, frame: Frame): Promise<Value> {
+    const label = await this.ask(choice.criteria.span, frame, () => this.backend.chooseOption({
+      criteria: choice.criteria.expression,
+      options: choice.options.map(option => option.label.value),
+      bindings: frame.scope.bindings(),
+      previous: frame.previous,
+      span: choice.criteria.span,
+      ...(frame.branch === undefined ? {} : { branch: frame.branch }),
+      signal: frame.signal,
+    }));
+    this.emit(frame, { type: 'choice', span: choice.criteria.span, criteria: choice.criteria.expression, option: label });
+
+    const option = choice.options.find(candidate => candidate.label.value === label);
+    if (!option) {
+      throw new ExecutionError(`The backend chose "${label}", which is not an option`, choice.criteria.span);
+    }
+    return this.executeBody(option.body, { ...frame, scope: new Scope(frame.scope, 'body') });
+  }
+
+  private async executeIf(ifStmt: IfStatementNode, frame: Frame): Promise<Value> {
+    const clauses = [{ condition: ifStmt.condition, body: ifStmt.thenBody }, ...ifStmt.elseIfClauses];
+    for (const clause of clauses) {
+      if (await this.evaluateCondition(clause.condition, frame)) {
+        return this.executeBody(clause.body, { ...frame, scope: new Scope(frame.scope, 'body') });
+      }
+    }
+    if (ifStmt.elseBody) {
+      return this.executeBody(ifStmt.elseBody, { ...frame, scope: new Scope(frame.scope, 'body') });
+    }
+    return null;
+  }
+
+  // ========== Expressions ==========
+
+  private async evaluate(expr: ExpressionNode, frame: Frame): Promise<Value> {
+    switch (expr.type) {
+      case 'StringLiteral':
+        return interpolate(expr.value, frame.scope, expr.span);
+      case 'InterpolatedString':
+        return expr.parts
+          .map(part => part.type === 'Identifier' ? formatValue(this.lookup(part, frame)) : part.value)
+          .join('');
+      case 'NumberLiteral':
+        return expr.value;
+      case 'Identifier':
+        return this.lookup(expr, frame);
+      case 'Discretion':
+        return this.evaluateCondition(expr, frame);
+      case 'ArrayExpression': {
+        const values: Value[] = [];
+        for (const element of expr.elements) {
+          values.push(await this.evaluate(element, frame));
+        }
+        return values;
+      }
+      case 'ObjectExpression': {
+        const object: { [key: string]: Value } = {};
+        for (const property of expr.properties) {
+          object[property.name.name] = await this.evaluate(property.value, frame);
+        }
+        return object;
+      }
+      case 'SessionStatement':
+        return this.runSession(expr, frame);
+      case 'ArrowExpression':
+        return this.evaluateArrow(expr, frame);
+      case 'PipeExpression':
+        return this.evaluatePipe(expr, frame);
+      case 'DoBlock':
+        return expr.name
+          ? this.callBlock(expr, expr.name, frame)
+          : this.executeBody(expr.body, { ...frame, scope: new Scope(frame.scope, 'do') });
+      case 'ParallelBlock':
+        return this.executeParallel(expr, frame);
+      case 'LoopBlock':
+        return this.executeLoop(expr, frame);
+      case 'RepeatBlock':
+        return this.executeRepeat(expr, frame);
+      case 'ForEachBlock':
+        return this.executeForEach(expr, frame);
+      case 'TryBlock':
+        return this.executeTry(expr, frame);
+      case 'ChoiceBlock':
+        return this.executeChoice(expr, frame);
+      case 'IfStatement':
+        return this.executeIf(expr, frame);
+    }
+  }
+
+  private lookup(identifier: IdentifierNode, frame: Frame): Value {
+    // A field access such as plan.steps reads a field of the variable's value
+    const [name, ...fields] = identifier.name.split('.');
+    let value = frame.scope.get(name);
+    if (value === undefined) {
+      throw new ExecutionError(`Undefined variable: "${name}"`, identifier.span);
+    }
+    for (const [index, field] of fields.entries()) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || !(field in value)) {
+        const path = [name, ...fields.slice(0, index)].join('.');
+        throw new ExecutionError(`"${path}" has no field "${field}"`, identifier.span);
+      }
+      value = value[field];
+    }
+    return value;
+  }
+
+  /**
+   * `a -> b` runs a, then b with a's output as its predecessor
+   */
+  private async evaluateArrow(arrow: ArrowExpressionNode, frame: Frame): Promise<Value> {
+    const previous = await this.evaluate(arrow.left, frame);
+    return this.evaluate(arrow.right, { ...frame, previous });
+  }
+
+  private async evaluatePipe(pipe: PipeExpressionNode, frame: Frame): Promise<Value> {
+    let value = await this.evaluate(pipe.input, frame);
+    for (const operation of pipe.operations) {
+      value = await this.runPipeOperation(operation, toArray(value, operation.span), frame);
+    }
+    return value;
+  }
+
+  private async runPipeOperation(operation: PipeOperationNode, items: Value[], frame: Frame): Promise<Value> {
+    const runItem = (bindings: [string, Value][], index: number, itemFrame: Frame) => {
+      const scope = new Scope(frame.scope, 'body');
+      for (const [name, value] of bindings) {
+        scope.define(name, value);
+      }
+      const path = `${itemFrame.path}@${operation.span.start.offset}#${index}`;
+      return this.executeBody(operation.body, { ...itemFrame, scope, path });
+    };
+
+    switch (operation.operator) {
+      case 'map': {
+        const results: Value[] = [];
+        for (const [index, item] of items.entries()) {
+          results.push(await runItem([['item', item]], index, frame));
+        }
+        return results;
+      }
+      case 'pmap': {
+        const branches = items.map((item, index) => (branch: BranchFrame) =>
+          runItem([['item', item]], index, { ...frame, ...branch })
+        );
+        return this.runConcurrently(branches, 'all', 1, 'fail-fast', frame, operation.span);
+      }
+      case 'filter': {
+        const kept: Value[] = [];
+        for (const [index, item] of items.entries()) {
+          if (isTruthy(await runItem([['item', item]], index, frame))) {
+            kept.push(item);
+          }
+        }
+        return kept;
+      }
+      case 'reduce': {
+        if (items.length === 0) {
+          return null;
+        }
+        const accName = operation.accVar?.name ?? 'acc';
+        const itemName = operation.itemVar?.name ?? 'item';
+        let acc = items[0];
+        for (const [index, item] of items.entries()) {
+          if (index > 0) {
+            acc = await runItem([[accName, acc], [itemName, item]], index, frame);
+          }
+        }
+        return acc;
+      }
+    }
+  }
+
+  // ========== Backend calls ==========
+
+  private async runSession(session: SessionStatementNode, frame: Frame): Promise<Value> {
+    const path = `${frame.path}@${session.span.start.offset}`;
+    const recorded = this.checkpoint?.recall(path);
+    if (recorded) {
+      this.emit(frame, { type: 'session-replay', span: session.span, output: recorded.value });
+      return recorded.value;
+    }
+
+    const properties = session.properties;
+    let agent: ResolvedAgent | null = null;
+    if (session.agent) {
+      agent = this.agents.get(session.agent.name) ?? null;
+      if (!agent) {
+        throw new ExecutionError(`Undefined agent: "${session.agent.name}"`, session.agent.span);
+      }
+    }
+
+    const promptProperty = properties.find(prop => prop.name.name === 'prompt');
+    const prompt = promptProperty
+      ? formatValue(await this.evaluate(promptProperty.value, frame))
+      : session.prompt ? interpolate(session.prompt.value, frame.scope, session.prompt.span) : '';
+
+    const contextProperty = properties.find(prop => prop.name.name === 'context');
+    const context = contextProperty ? await this.contextBindings(contextProperty.value, frame) : {};
+    const model = propertyText(properties, 'model') ?? agent?.model ?? null;
+    const previous = contextProperty || frame.previous === undefined ? {} : { previous: frame.previous };
+    const retries = Number(propertyText(properties, 'retry')) || 0;
+    const backoff = propertyText(properties, 'backoff') ?? 'none';
+    const returns = session.returns ? { returns: toJsonSchema(session.returns) } : {};
+
+    // Tokens sent, for budgets when the backend doesn't report usage
+    const sent = estimateTokens([agent?.prompt ?? '', prompt, JSON.stringify(context), JSON.stringify(previous)].join('\n'));
+
+    let previousError: string | undefined;
+    for (let attempt = 1; ; attempt++) {
+      checkSignal(frame.signal);
+      this.enforce(this.budget?.startSession(), session.span, frame);
+      const started = this.trace?.elapsed() ?? 0;
+      this.emit(frame, {
+        type: 'session-start',
+        span: session.span,
+        prompt,
+        agent: agent?.name ?? null,
+        model,
+        context,
+        ...previous,
+        attempt,
+      });
+      try {
+        const result = await this.backend.runSession({
+          prompt,
+          name: session.name?.name ?? null,
+          agent,
+          model,
+          permissions: agent?.permissions ?? {},
+          context,
+          ...previous,
+          ...returns,
+          attempt,
+          ...(previousError === undefined ? {} : { previousError }),
+          span: session.span,
+          ...(frame.branch === undefined ? {} : { branch: frame.branch }),
+          signal: frame.signal,
+        });
+        checkSignal(frame.signal);
+        // Output that doesn't match the session's type fails the attempt
+        const output = session.returns ? structuredOutput(result.output, session.returns) : result.output;
+        this.checkpoint?.record(path, output);
+        this.emit(frame, {
+          type: 'session-end',
+          span: session.span,
+          output,
+          attempt,
+          durationMs: (this.trace?.elapsed() ?? 0) - started,
+        });
+        const usage = result.usage ?? { inputTokens: sent, outputTokens: estimateTokens(formatValue(result.output)) };
+        this.enforce(this.budget?.addTokens(usage.inputTokens + usage.outputTokens), session.span, frame);
+        return output;
+      } catch (error) {
+        if (error instanceof CancelledError || error instanceof BudgetExceededError) {
+          throw error;
+        }
+        previousError = error instanceof Error ? error.message : String(error);
+        this.emit(frame, {
+          type: 'session-error',
+          span: session.span,
+          error: previousError,
+          attempt,
+          durationMs: (this.trace?.elapsed() ?? 0) - started,
+        });
+        this.enforce(this.budget?.addTokens(sent), session.span, frame);
+        if (attempt > retries) {
+          throw new ExecutionError(previousError, session.span, error);
+        }
+      }
+      const delay = this.backoffFor(backoff, attempt);
+      this.emit(frame, { type: 'retry', span: session.span, attempt: attempt + 1, delayMs: delay });
+      await this.sleep(delay);
+    }
+  }
+
+  /**
+   * Delay before retry number `attempt` (1 for the first retry)
+   */
+  private backoffFor(backoff: string, attempt: number): number {
+    switch (backoff) {
+      case 'none':
+        return 0;
+      case 'linear':
+        return this.backoffDelay * attempt;
+      case 'exponential':
+        return this.backoffDelay * 2 ** (attempt - 1);
+      default:
+        return Number(backoff) || 0;
+    }
+  }
+
+  /**
+   * Named context for a session: `context: a`, `[a, b]` or `{ a, b }`
+   */
+  private async contextBindings(expr: ExpressionNode, frame: Frame): Promise<{ [name: string]: Value }> {
+    const context: { [name: string]: Value } = {};
+    switch (expr.type) {
+      case 'Identifier':
+        context[expr.name] = this.lookup(expr, frame);
+        break;
+      case 'ArrayExpression':
+        for (const [index, element] of expr.elements.entries()) {
+          context[element.type === 'Identifier' ? element.name : String(index)] = await this.evaluate(element, frame);
+        }
+        break;
+      case 'ObjectExpression':
+        for (const property of expr.properties) {
+          context[property.name.name] = await this.evaluate(property.value, frame);
+        }
+        break;
+      default:
+        context.context = await this.evaluate(expr, frame);
+    }
+    return context;
+  }
+
+  private async evaluateCondition(condition: DiscretionNode, frame: Frame): Promise<boolean> {
+    const result = await this.ask(condition.span, frame, () => this.backend.evaluateCondition({
+      condition: condition.expression,
+      bindings: frame.scope.bindings(),
+      previous: frame.previous,
+      span: condition.span,
+      ...(frame.branch === undefined ? {} : { branch: frame.branch }),
+      signal: frame.signal,
+    }));
+    this.emit(frame, { type: 'condition', span: condition.span, condition: condition.expression, result });
+    return result;
+  }
+
+  /**
+   * Make a backend decision, or recall it from the checkpoint; a rejection
+   * fails the statement that asked
+   */
+  private async ask<T extends Value>(span: SourceSpan, frame: Frame, decide: () => Promise<T>): Promise<T> {
+    const path = `${frame.path}@${span.start.offset}`;
+    const recorded = this.checkpoint?.recall(path);
+    if (recorded) {
+      return recorded.value as T;
+    }
+
+    checkSignal(frame.signal);
+    this.enforce(this.budget?.checkTime(), span, frame);
+    let answer: T;
+    try {
+      answer = await decide();
+    } catch (error) {
+      if (error instanceof CancelledError || error instanceof ExecutionError) {
+        throw error;
+      }
+      throw new ExecutionError(error instanceof Error ? error.message : String(error), span, error);
+    }
+    checkSignal(frame.signal);
+    this.checkpoint?.record(path, answer);
+    return answer;
+  }
+
+  /**
+   * Fail with a BudgetExceededError on an overrun, recording it in the trace
+   */
+  private enforce(overrun: Overrun | null | undefined, span: SourceSpan, frame: Frame): void {
+    if (overrun) {
+      const { limit, allowed, used } = overrun;
+      this.emit(frame, { type: 'budget-exceeded', span, limit, allowed, used });
+      throw new BudgetExceededError(overrun, span);
+    }
+  }
+
+  /**
+   * Record a trace event, tagged with the frame's branch
+   */
+  private emit(frame: Frame, event: TraceEventData): void {
+    this.trace?.record(frame.branch === undefined ? event : { ...event, branch: frame.branch });
+  }
+
+  // ========== Concurrency ==========
+
+  /**
+   * Run branches concurrently and join them:
+   * - all: every branch's value, in order
+   * - first: the value of the first branch to finish
+   * - any: the first `count` successes (a single value when count is 1)
+   *
+   * With fail-fast, the first failure fails the block. With continue, the
+   * block fails after every branch has finished; with ignore, failed
+   * branches yield null. Branches still running when the block is decided
+   * are aborted.
+   */
+  private runConcurrently(
+    branches: ((branch: BranchFrame) => Promise<Value>)[],
+    join: JoinStrategy,
+    count: number,
+    onFail: FailurePolicy,
+    frame: Frame,
+    span: SourceSpan
+  ): Promise<Value> {
+    checkSignal(frame.signal);
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    frame.signal.addEventListener('abort', abort);
+
+    this.emit(frame, { type: 'parallel-start', span, branches: branches.length, join, onFail });
+
+    return new Promise<Value>((resolveJoin, rejectJoin) => {
+      const results: Value[] = branches.map(() => null);
+      const winners: Value[] = [];
+      const failures: ExecutionError[] = [];
+      const completed: number[] = [];
+      const failed: number[] = [];
+      let settled = 0;
+      let decided = false;
+
+      const joined = (status: 'completed' | 'failed') =>
+        this.emit(frame, { type: 'parallel-join', span, status, completed: [...completed], failed: [...failed] });
+      const resolve = (value: Value) => {
+        joined('completed');
+        resolveJoin(value);
+      };
+      const reject = (error: unknown) => {
+        joined('failed');
+        rejectJoin(error);
+      };
+
+      const decide = (outcome: () => void) => {
+        if (!decided) {
+          decided = true;
+          frame.signal.removeEventListener('abort', abort);
+          controller.abort();
+          outcome();
+        }
+      };
+
+      const settle = () => {
+        settled++;
+        if (settled < branches.length) {
+          return;
+        }
+        decide(() => {
+          if (join === 'any') {
+            if (winners.length < count && onFail !== 'ignore') {
+              reject(new ExecutionError(
+                `Only ${winners.length} of ${count} required parallel branches succeeded`,
+                span,
+                failures
+              ));
+            } else {
+              resolve(count === 1 ? winners[0] ?? null : winners);
+            }
+          } else if (failures.length > 0 && onFail === 'continue') {
+            reject(new ExecutionError(
+              `${failures.length} of ${branches.length} parallel branches failed: ` +
+                failures.map(failure => failure.message).join('; '),
+              span,
+              failures
+            ));
+          } else {
+            resolve(results);
+          }
+        });
+      };
+
+      if (branches.length === 0) {
+        decide(() => resolve(join === 'all' ? [] : null));
+        return;
+      }
+
+      const blockPath = `${frame.path}@${span.start.offset}`;
+      branches.forEach((branch, index) => {
+        const branchFrame = {
+          signal: controller.signal,
+          branch: frame.branch === undefined ? String(index) : `${frame.branch}.${index}`,
+          path: `${blockPath}&${index}`,
+        };
+        const ended = (status: 'completed' | 'failed' | 'cancelled') =>
+          this.emit({ ...frame, ...branchFrame }, { type: 'branch-end', span, index, status });
+
+        this.emit({ ...frame, ...branchFrame }, { type: 'branch-start', span, index });
+        branch(branchFrame).then(
+          value => {
+            ended('completed');
+            completed.push(index);
+            this.checkpoint?.branchCompleted(blockPath, index);
+            results[index] = value;
+            if (join === 'first') {
+              decide(() => resolve(value));
+            } else if (join === 'any') {
+              winners.push(value);
+              if (winners.length === count) {
+                decide(() => resolve(count === 1 ? value : winners));
+              }
+            }
+            settle();
+          },
+          error => {
+            if (!(error instanceof ExecutionError)) {
+              ended(error instanceof CancelledError ? 'cancelled' : 'failed');
+              decide(() => reject(error));
+              return;
+            }
+            ended('failed');
+            failed.push(index);
+            failures.push(error);
+            if (join === 'first') {
+              decide(() => onFail === 'ignore' ? resolve(null) : reject(error));
+            } else if (join === 'all' && onFail === 'fail-fast') {
+              decide(() => reject(error));
+            }
+            settle();
+          }
+        );
+      });
+    });
+  }
+}
+
+/**
+ * Run a program with a backend
+ */
+export function interpret(program: ProgramNode, options: InterpreterOptions): Promise<ExecutionResult> {
+  const interpreter = new Interpreter(program, options);
+  return interpreter.run();
+}
+
+// ========== Helpers ==========
+
+function checkSignal(signal: AbortSignal): void {
+  if (signal.aborted) {
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Evaluate the properties of an agent definition
+ */
+export function resolveAgent(agent: AgentDefinitionNode): ResolvedAgent {
+  const value = (name: string) => {
+    const prop = agent.properties.find(candidate => candidate.name.name === name);
+    return prop ? staticValue(prop.value) : null;
+  };
+  const skills = value('skills');
+  const permissions = value('permissions');
+  return {
+    name: agent.name.name,
+    model: propertyText(agent.properties, 'model'),
+    prompt: propertyText(agent.properties, 'prompt'),
+    skills: Array.isArray(skills) ? skills.map(formatValue) : [],
+    permissions: permissions !== null && typeof permissions === 'object' && !Array.isArray(permissions) ? permissions : {},
+  };
+}
+
+/**
+ * A property whose value is a literal or a bare word, such as
+ * `model: sonnet` or `backoff: "exponential"`, as text
+ */
+export function propertyText(properties: PropertyNode[], name: string): string | null {
+  const prop = properties.find(candidate => candidate.name.name === name);
+  if (!prop) {
+    return null;
+  }
+  const value = staticValue(prop.value);
+  return value === null ? null : formatValue(value);
+}
+
+/**
+ * The value of a literal expression; bare words are their own text
+ */
+function staticValue(expr: ExpressionNode): Value {
+  switch (expr.type) {
+    case 'StringLiteral':
+    case 'NumberLiteral':
+      return expr.value;
+    case 'Identifier':
+      return expr.name;
+    case 'InterpolatedString':
+      return expr.parts.map(part => part.type === 'Identifier' ? `{${part.name}}` : part.value).join('');
+    case 'ArrayExpression':
+      return expr.elements.map(staticValue);
+    case 'ObjectExpression':
+      return Object.fromEntries(expr.properties.map(prop => [prop.name.name, staticValue(prop.value)]));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Fill in the {name} and {name.field} interpolations of a string; unknown
+ * names are left as they are
+ */
+function interpolate(text: string, scope: Scope, span: SourceSpan): string {
+  return text.replace(/\{([A-Za-z][A-Za-z0-9_-]*)((?:\.\w+)*)\}/g, (match, name: string, path: string) => {
+    let value = scope.get(name);
+    if (value === undefined) {
+      return match;
+    }
+    const fields = path.split('.').slice(1);
+    for (const [index, field] of fields.entries()) {
+      if (typeof value !== 'object' || value === null || Array.isArray(value) || !(field in value)) {
+        throw new ExecutionError(`"${[name, ...fields.slice(0, index)].join('.')}" has no field "${field}"`, span);
+      }
+      value = value[field];
+    }
+    return formatValue(value);
+  });
+}
+
+/**
+ * Output checked against a `returns` type. Text is parsed as JSON first,
+ * unless the type is a string, since models answer in text; a Markdown code
+ * fence around the JSON is allowed.
+ */
+function structuredOutput(output: Value, type: TypeNode): Value {
+  let value = output;
+  if (typeof output === 'string' && !(type.type === 'PrimitiveType' && type.name === 'string')) {
+    const json = /^```(?:json)?\s*([\s\S]*?)\s*```$/.exec(output.trim())?.[1] ?? output;
+    try {
+      value = JSON.parse(json) as Value;
+    } catch {
+      throw new Error(`Output is not JSON of type ${formatType(type)}`);
+    }
+  }
+  const problem = checkValue(value, type);
+  if (problem) {
+    throw new Error(`Output does not match its returns type: ${problem}`);
+  }
+  return value;
+}
+
+function formatValue(value: Value): string {
+  if (typeof value === 'string') {
+    return value;
+  }
+  return value === null ? '' : JSON.stringify(value);
+}
+
+function toArray(value: Value, span: SourceSpan): Value[] {
+  if (!Array.isArray(value)) {
+    const kind = value === null ? 'null' : typeof value === 'object' ? 'an object' : `a ${typeof value}`;
+    throw new ExecutionError(`Expected a list to iterate over, got ${kind}`, span);
+  }
+  return value;
+}
+
+/**
+ * Whether a filter keeps an item. Text is true unless it is empty, "false",
+ * "no" or "0".
+ */
+function isTruthy(value: Value): boolean {
+  if (typeof value === 'string') {
+    return !['', 'false', 'no', '0'].includes(value.trim().toLowerCase());
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return typeof value === 'number' ? value !== 0 : Boolean(value);
+}
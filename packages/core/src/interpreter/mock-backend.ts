@@ -0,0 +1,246 @@
+/**
+ * OpenProse Mock Backend
+ *
+ * Answers sessions, conditions and choices from a JSON fixture, so programs
+ * can be run and tested offline and deterministically:
+ *
+ *   {
+ *     "sessions": [
+ *       { "prompt": "Research quantum computing", "output": "Qubits..." },
+ *       { "prompt": "/^Review/", "agent": "critic", "responses": [
+ *         { "error": "rate limited" },
+ *         { "output": "Looks good" }
+ *       ] }
+ *     ],
+ *     "conditions": { "the draft is approved": [false, true] },
+ *     "choices": { "which approach is best": "thorough" },
+ *     "defaultOutput": "ok"
+ *   }
+ *
+ * A session uses the first rule that matches it. A prompt written as
+ * /pattern/flags is a regular expression. Successive calls take successive
+ * responses (or condition results, or choices), and the last one repeats.
+ * Without `defaultOutput`, a session no rule matches fails.
+ */
+
+import { readFileSync } from 'fs';
+import {
+  ChoiceRequest,
+  ConditionRequest,
+  SessionBackend,
+  SessionRequest,
+  SessionResult,
+  Value,
+} from './backend';
+
+export type MockResponse = { output: Value } | { error: string };
+
+/**
+ * Responses for the sessions a rule matches
+ */
+export interface MockSessionRule {
+  /** Exact prompt, or /pattern/flags */
+  prompt?: string;
+  /** Agent name */
+  agent?: string;
+  /** Session name */
+  name?: string;
+  /** Shorthand for a single successful response */
+  output?: Value;
+  /** Shorthand for a single failure */
+  error?: string;
+  /** Responses to successive matching sessions */
+  responses?: MockResponse[];
+}
+
+export interface MockFixture {
+  sessions?: MockSessionRule[];
+  /** Results by condition text */
+  conditions?: { [condition: string]: boolean | boolean[] };
+  /** Option labels by choice criteria */
+  choices?: { [criteria: string]: string | string[] };
+  /** Output of sessions no rule matches */
+  defaultOutput?: Value;
+}
+
+/**
+ * Error thrown for a fixture file that can't be read or is malformed
+ */
+export class FixtureError extends Error {
+  constructor(public file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'FixtureError';
+  }
+}
+
+export class MockBackend implements SessionBackend {
+  /** Sessions run, in order */
+  public readonly sessions: SessionRequest[] = [];
+  /** Conditions evaluated, in order */
+  public readonly conditions: ConditionRequest[] = [];
+  /** Choices made, in order */
+  public readonly choices: ChoiceRequest[] = [];
+
+  private readonly uses: Map<unknown, number> = new Map();
+
+  constructor(private fixture: MockFixture) {}
+
+  public async runSession(request: SessionRequest): Promise<SessionResult> {
+    this.sessions.push(request);
+    const rule = this.fixture.sessions?.find(candidate => matches(candidate, request));
+    if (!rule) {
+      if (this.fixture.defaultOutput !== undefined) {
+        return { output: this.fixture.defaultOutput };
+      }
+      throw new Error(`No fixture response for session "${request.prompt}"`);
+    }
+
+    const responses = rule.responses
+      ?? [rule.error !== undefined ? { error: rule.error } : { output: rule.output ?? null }];
+    const response = this.next(rule, responses);
+    if ('error' in response) {
+      throw new Error(response.error);
+    }
+    return { output: response.output };
+  }
+
+  public async evaluateCondition(request: ConditionRequest): Promise<boolean> {
+    this.conditions.push(request);
+    const condition = request.condition.trim();
+    const results = this.fixture.conditions?.[condition];
+    if (results === undefined) {
+      throw new Error(`No fixture result for condition **${condition}**`);
+    }
+    return this.next(`condition:${condition}`, Array.isArray(results) ? results : [results]);
+  }
+
+  public async chooseOption(request: ChoiceRequest): Promise<string> {
+    this.choices.push(request);
+    const criteria = request.criteria.trim();
+    const labels = this.fixture.choices?.[criteria];
+    if (labels === undefined) {
+      throw new Error(`No fixture choice for **${criteria}**`);
+    }
+    return this.next(`choice:${criteria}`, Array.isArray(labels) ? labels : [labels]);
+  }
+
+  /**
+   * The answer for the next use of a rule; the last answer repeats
+   */
+  private next<T>(key: unknown, answers: T[]): T {
+    const used = this.uses.get(key) ?? 0;
+    this.uses.set(key, used + 1);
+    return answers[Math.min(used, answers.length - 1)];
+  }
+}
+
+/**
+ * Load and check a fixture file
+ */
+export function loadMockFixture(file: string): MockFixture {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw new FixtureError(file, error instanceof Error ? error.message : String(error));
+  }
+  return parseMockFixture(file, text);
+}
+
+/**
+ * Parse and check the contents of a fixture file
+ */
+export function parseMockFixture(file: string, text: string): MockFixture {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new FixtureError(file, `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(value)) {
+    throw new FixtureError(file, 'Fixture must be a JSON object');
+  }
+
+  const sessions = value.sessions ?? [];
+  if (!Array.isArray(sessions)) {
+    throw new FixtureError(file, '"sessions" must be an array');
+  }
+  sessions.forEach((rule, index) => {
+    const problem = checkSessionRule(rule);
+    if (problem) {
+      throw new FixtureError(file, `sessions[${index}]: ${problem}`);
+    }
+  });
+
+  const conditions = value.conditions ?? {};
+  if (!isObject(conditions) || !Object.values(conditions).every(result => isListOf(result, 'boolean'))) {
+    throw new FixtureError(file, '"conditions" must map conditions to a boolean or a list of booleans');
+  }
+  const choices = value.choices ?? {};
+  if (!isObject(choices) || !Object.values(choices).every(labels => isListOf(labels, 'string'))) {
+    throw new FixtureError(file, '"choices" must map criteria to a label or a list of labels');
+  }
+
+  return value as MockFixture;
+}
+
+function checkSessionRule(rule: unknown): string | null {
+  if (!isObject(rule)) {
+    return 'a rule must be an object';
+  }
+  for (const key of ['prompt', 'agent', 'name', 'error']) {
+    if (rule[key] !== undefined && typeof rule[key] !== 'string') {
+      return `"${key}" must be a string`;
+    }
+  }
+  if (typeof rule.prompt === 'string' && isPattern(rule.prompt)) {
+    try {
+      toRegExp(rule.prompt);
+    } catch {
+      return `invalid pattern ${rule.prompt}`;
+    }
+  }
+  if (rule.responses !== undefined) {
+    if (!Array.isArray(rule.responses) || rule.responses.length === 0) {
+      return '"responses" must be a non-empty array';
+    }
+    const valid = rule.responses.every(response =>
+      isObject(response) && ('output' in response || typeof response.error === 'string')
+    );
+    if (!valid) {
+      return 'each response needs an "output" or an "error" message';
+    }
+  }
+  return null;
+}
+
+function matches(rule: MockSessionRule, request: SessionRequest): boolean {
+  if (rule.agent !== undefined && rule.agent !== request.agent?.name) {
+    return false;
+  }
+  if (rule.name !== undefined && rule.name !== request.name) {
+    return false;
+  }
+  if (rule.prompt === undefined) {
+    return true;
+  }
+  return isPattern(rule.prompt) ? toRegExp(rule.prompt).test(request.prompt) : rule.prompt === request.prompt;
+}
+
+function isPattern(prompt: string): boolean {
+  return /^\/.*\/[a-z]*$/s.test(prompt);
+}
+
+function toRegExp(pattern: string): RegExp {
+  const end = pattern.lastIndexOf('/');
+  return new RegExp(pattern.slice(1, end), pattern.slice(end + 1));
+}
+
+function isListOf(value: unknown, type: 'boolean' | 'string'): boolean {
+  const values = Array.isArray(value) ? value : [value];
+  return values.length > 0 && values.every(item => typeof item === type);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
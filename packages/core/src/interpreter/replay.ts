@@ -0,0 +1,275 @@
+/**
+ * OpenProse Replay
+ *
+ * Re-runs a program against a recorded execution trace: every session,
+ * condition and choice is answered with what the recording got, so flow
+ * and prompt edits can be checked without a model.
+ *
+ * Calls are matched to the recording in order. Calls recorded inside
+ * parallel branches may be matched in any order among themselves, since
+ * branches interleave differently from run to run. The first call that
+ * doesn't match - or a recorded call the program never makes - is the
+ * divergence, and ends the replay.
+ */
+
+import { ProgramNode } from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import {
+  ChoiceRequest,
+  ConditionRequest,
+  SessionBackend,
+  SessionRequest,
+  SessionResult,
+  Value,
+} from './backend';
+import { CancelledError, ExecutionResult, interpret, InterpreterOptions } from './interpreter';
+import { TraceEvent } from './trace';
+
+/**
+ * A backend call, as recorded or as made by the replayed program
+ */
+export type ReplayCall =
+  | { kind: 'session'; prompt: string; agent: string | null; span: SourceSpan }
+  | { kind: 'condition'; condition: string; span: SourceSpan }
+  | { kind: 'choice'; criteria: string; option?: string; span: SourceSpan };
+
+/**
+ * Where a replayed program stopped following its recording
+ */
+export interface Divergence {
+  /** The statement making the unexpected call, or the missing call's, as recorded */
+  span: SourceSpan;
+  /** The recorded call, or null when the recording has no calls left */
+  expected: ReplayCall | null;
+  /** The call the program made, or null when it finished without the expected one */
+  actual: ReplayCall | null;
+  message: string;
+}
+
+export interface ReplayResult {
+  /** The first divergence, or null when the program followed the recording */
+  divergence: Divergence | null;
+  /** How the replayed run ended, unless it diverged */
+  result: ExecutionResult | null;
+  /** The error that ended the replayed run, unless it diverged */
+  error: Error | null;
+  /** Number of recorded calls the program made */
+  matched: number;
+}
+
+export type ReplayOptions = Omit<InterpreterOptions, 'backend' | 'signal'>;
+
+/**
+ * A recorded call and how it was answered
+ */
+interface RecordedCall {
+  call: ReplayCall;
+  answer: { output: Value } | { error: string } | { result: boolean };
+  /** Parallel branch the call was made in */
+  branch?: string;
+}
+
+export class ReplayBackend implements SessionBackend {
+  /** The first divergence, once there is one */
+  public divergence: Divergence | null = null;
+  public matched = 0;
+  private readonly pending: RecordedCall[];
+
+  /**
+   * @param onDivergence called when the program diverges, to stop the run
+   */
+  constructor(events: TraceEvent[], private onDivergence: (divergence: Divergence) => void = () => {}) {
+    this.pending = recordedCalls(events);
+  }
+
+  public async runSession(request: SessionRequest): Promise<SessionResult> {
+    const recorded = this.take({
+      kind: 'session',
+      prompt: request.prompt,
+      agent: request.agent?.name ?? null,
+      span: request.span,
+    }, request.branch);
+    if ('error' in recorded.answer) {
+      throw new Error(recorded.answer.error);
+    }
+    return { output: 'output' in recorded.answer ? recorded.answer.output : null };
+  }
+
+  public async evaluateCondition(request: ConditionRequest): Promise<boolean> {
+    const recorded = this.take({ kind: 'condition', condition: request.condition.trim(), span: request.span }, request.branch);
+    return 'result' in recorded.answer && recorded.answer.result;
+  }
+
+  public async chooseOption(request: ChoiceRequest): Promise<string> {
+    const recorded = this.take({ kind: 'choice', criteria: request.criteria.trim(), span: request.span }, request.branch);
+    const option = recorded.call.kind === 'choice' ? recorded.call.option ?? '' : '';
+    if (!request.options.includes(option)) {
+      this.diverge({
+        span: request.span,
+        expected: recorded.call,
+        actual: { kind: 'choice', criteria: request.criteria.trim(), span: request.span },
+        message: `The recorded option "${option}" is not an option of this choice any more`,
+      });
+    }
+    return option;
+  }
+
+  /**
+   * The divergence of a finished run: the first recorded call it didn't make
+   */
+  public finish(): Divergence | null {
+    const missing = this.pending[0];
+    if (!this.divergence && missing) {
+      this.divergence = {
+        span: missing.call.span,
+        expected: missing.call,
+        actual: null,
+        message: `The program finished without making the recorded ${describeCall(missing.call)}`,
+      };
+    }
+    return this.divergence;
+  }
+
+  /**
+   * Match a call to the recording, or diverge
+   */
+  private take(actual: ReplayCall, branch: string | undefined): RecordedCall {
+    if (this.divergence) {
+      throw new CancelledError();
+    }
+
+    for (const [index, candidate] of this.pending.entries()) {
+      if (sameCall(candidate.call, actual)) {
+        this.pending.splice(index, 1);
+        this.matched++;
+        return candidate;
+      }
+      // Only calls from parallel branches may be made out of order
+      if (candidate.branch === undefined || branch === undefined) {
+        break;
+      }
+    }
+
+    const expected = this.pending[0]?.call ?? null;
+    return this.diverge({
+      span: actual.span,
+      expected,
+      actual,
+      message: expected
+        ? `Expected ${describeCall(expected)}, but the program made ${describeCall(actual)}`
+        : `The recording has no more calls, but the program made ${describeCall(actual)}`,
+    });
+  }
+
+  private diverge(divergence: Divergence): never {
+    this.divergence = divergence;
+    this.onDivergence(divergence);
+    throw new CancelledError();
+  }
+}
+
+/**
+ * Run a program against a recorded trace
+ */
+export async function replay(
+  program: ProgramNode,
+  events: TraceEvent[],
+  options: ReplayOptions = {}
+): Promise<ReplayResult> {
+  const controller = new AbortController();
+  const backend = new ReplayBackend(events, () => controller.abort());
+
+  let result: ExecutionResult | null = null;
+  let error: Error | null = null;
+  try {
+    result = await interpret(program, { sleep: async () => {}, ...options, backend, signal: controller.signal });
+  } catch (caught) {
+    if (!backend.divergence) {
+      error = caught instanceof Error ? caught : new Error(String(caught));
+    }
+  }
+
+  const divergence = backend.finish();
+  return divergence
+    ? { divergence, result: null, error: null, matched: backend.matched }
+    : { divergence: null, result, error, matched: backend.matched };
+}
+
+/**
+ * Describe a call for a divergence message
+ */
+export function describeCall(call: ReplayCall): string {
+  const where = `at line ${call.span.start.line}`;
+  switch (call.kind) {
+    case 'session':
+      return `session "${call.prompt}"${call.agent ? ` (agent ${call.agent})` : ''} ${where}`;
+    case 'condition':
+      return `condition **${call.condition}** ${where}`;
+    case 'choice':
+      return `choice **${call.criteria}** ${where}`;
+  }
+}
+
+/**
+ * The backend calls of a trace, with their answers, in the order they were
+ * made. A session attempt is answered by its session-end or session-error
+ * event in the same branch.
+ */
+function recordedCalls(events: TraceEvent[]): RecordedCall[] {
+  const calls: RecordedCall[] = [];
+  const open = new Map<string, RecordedCall>();
+
+  for (const event of events) {
+    const branch = event.branch === undefined ? {} : { branch: event.branch };
+    const key = `${event.branch ?? ''}:${'span' in event ? event.span.start.offset : ''}`;
+    switch (event.type) {
+      case 'session-start': {
+        const call: RecordedCall = {
+          call: { kind: 'session', prompt: event.prompt, agent: event.agent, span: event.span },
+          answer: { output: null },
+          ...branch,
+        };
+        calls.push(call);
+        open.set(key, call);
+        break;
+      }
+      case 'session-end':
+      case 'session-error': {
+        const call = open.get(key);
+        if (call) {
+          call.answer = event.type === 'session-end' ? { output: event.output } : { error: event.error };
+          open.delete(key);
+        }
+        break;
+      }
+      case 'condition':
+        calls.push({
+          call: { kind: 'condition', condition: event.condition.trim(), span: event.span },
+          answer: { result: event.result },
+          ...branch,
+        });
+        break;
+      case 'choice':
+        calls.push({
+          call: { kind: 'choice', criteria: event.criteria.trim(), option: event.option, span: event.span },
+          answer: { output: event.option },
+          ...branch,
+        });
+        break;
+    }
+  }
+
+  // Sessions still running when the recording stopped were never answered
+  return calls.filter(call => ![...open.values()].includes(call));
+}
+
+function sameCall(recorded: ReplayCall, actual: ReplayCall): boolean {
+  switch (recorded.kind) {
+    case 'session':
+      return actual.kind === 'session' && actual.prompt === recorded.prompt && actual.agent === recorded.agent;
+    case 'condition':
+      return actual.kind === 'condition' && actual.condition === recorded.condition;
+    case 'choice':
+      return actual.kind === 'choice' && actual.criteria === recorded.criteria;
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * OpenProse Execution Traces
+ *
+ * A trace is a JSONL file with one event per line, recorded while the
+ * interpreter runs a program. The first event is `run-start`, which carries
+ * the format version; the last is `run-end` unless the run was killed.
+ * Every event has a sequence number and the milliseconds since the run
+ * started; events raised inside parallel branches name their branch
+ * ("1", or "1.0" for a branch of a nested parallel block).
+ *
+ * Spans are positions in the program source. linkTrace maps them to the
+ * compiled output through the compiler's source map.
+ */
+
+import { randomUUID } from 'crypto';
+import { readFileSync, writeFileSync, appendFileSync } from 'fs';
+import { SourceSpan } from '../parser/tokens';
+import { SourceMap } from '../compiler';
+import { Value } from './backend';
+
+/** Version of the trace format, bumped on incompatible changes */
+export const TRACE_VERSION = 1;
+
+export type TraceEvent = TraceTiming & (
+  | { type: 'run-start'; version: number; runId: string; timestamp: string; program?: string }
+  | { type: 'run-end'; status: 'completed' | 'failed' | 'cancelled'; output?: Value; error?: string; durationMs: number }
+  | { type: 'statement-enter'; statement: string; span: SourceSpan }
+  | { type: 'statement-exit'; statement: string; span: SourceSpan; status: 'completed' | 'failed' | 'cancelled'; durationMs: number }
+  | {
+      type: 'session-start';
+      span: SourceSpan;
+      prompt: string;
+      agent: string | null;
+      model: string | null;
+      context: { [name: string]: Value };
+      previous?: Value;
+      attempt: number;
+    }
+  | { type: 'session-end'; span: SourceSpan; output: Value; attempt: number; durationMs: number }
+  | { type: 'session-error'; span: SourceSpan; error: string; attempt: number; durationMs: number }
+  | { type: 'session-replay'; span: SourceSpan; output: Value }
+  | { type: 'retry'; span: SourceSpan; attempt: number; delayMs: number }
+  | { type: 'binding'; span: SourceSpan; name: string; value: Value }
+  | { type: 'condition'; span: SourceSpan; condition: string; result: boolean }
+  | { type: 'choice'; span: SourceSpan; criteria: string; option: string }
+  | { type: 'loop-iteration'; span: SourceSpan; iteration: number }
+  | { type: 'parallel-start'; span: SourceSpan; branches: number; join: string; onFail: string }
+  | { type: 'branch-start'; span: SourceSpan; index: number }
+  | { type: 'branch-end'; span: SourceSpan; index: number; status: 'completed' | 'failed' | 'cancelled' }
+  | { type: 'parallel-join'; span: SourceSpan; status: 'completed' | 'failed'; completed: number[]; failed: number[] }
+  | { type: 'error'; span: SourceSpan; message: string }
+  | { type: 'budget-exceeded'; span: SourceSpan; limit: string; allowed: number; used: number }
+  | { type: 'catch'; span: SourceSpan; message: string }
+);
+
+export interface TraceTiming {
+  /** Position of the event in the trace, from 0 */
+  seq: number;
+  /** Milliseconds since the run started */
+  time: number;
+  /** The parallel branch the event happened in */
+  branch?: string;
+}
+
+/**
+ * An event as reported by the interpreter, before the recorder numbers and
+ * times it
+ */
+export type TraceEventData = TraceEvent extends infer E ? E extends TraceEvent ? Omit<E, 'seq' | 'time'> : never : never;
+
+export interface TraceRecorderOptions {
+  /** Run identifier (default: a random UUID) */
+  runId?: string;
+  /** Path of the program, recorded in the header */
+  program?: string;
+  /** Clock in milliseconds (default: Date.now) */
+  now?: () => number;
+  /** Called with each JSONL line as it's recorded */
+  write?: (line: string) => void;
+}
+
+/**
+ * Error thrown for a trace that can't be read or isn't a trace
+ */
+export class TraceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TraceError';
+  }
+}
+
+/**
+ * Collects the events of a run, numbering and timing them
+ */
+export class TraceRecorder {
+  public readonly runId: string;
+  public readonly events: TraceEvent[] = [];
+  private readonly now: () => number;
+  private start: number | null = null;
+
+  constructor(private options: TraceRecorderOptions = {}) {
+    this.runId = options.runId ?? randomUUID();
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Record the header event of a run
+   */
+  public begin(): void {
+    this.start = this.now();
+    this.push({
+      seq: this.events.length,
+      time: 0,
+      type: 'run-start',
+      version: TRACE_VERSION,
+      runId: this.runId,
+      timestamp: new Date(this.start).toISOString(),
+      ...(this.options.program ? { program: this.options.program } : {}),
+    });
+  }
+
+  public record(data: TraceEventData): void {
+    this.push({ seq: this.events.length, time: this.elapsed(), ...data } as TraceEvent);
+  }
+
+  /**
+   * Milliseconds since the run started
+   */
+  public elapsed(): number {
+    return this.now() - (this.start ?? this.now());
+  }
+
+  public toJSONL(): string {
+    return this.events.map(event => JSON.stringify(event) + '\n').join('');
+  }
+
+  private push(event: TraceEvent): void {
+    this.events.push(event);
+    this.options.write?.(JSON.stringify(event) + '\n');
+  }
+}
+
+/**
+ * A writer for TraceRecorderOptions.write that appends to a file, which it
+ * empties first
+ */
+export function traceFileWriter(file: string): (line: string) => void {
+  writeFileSync(file, '');
+  return line => appendFileSync(file, line);
+}
+
+/**
+ * Parse a JSONL trace, checking its header
+ */
+export function parseTrace(text: string): TraceEvent[] {
+  const events = text.split('\n').filter(line => line.trim() !== '').map((line, index) => {
+    try {
+      return JSON.parse(line) as TraceEvent;
+    } catch {
+      throw new TraceError(`Line ${index + 1} of the trace is not valid JSON`);
+    }
+  });
+
+  const header = events[0];
+  if (!header || header.type !== 'run-start') {
+    throw new TraceError('A trace must start with a run-start event');
+  }
+  if (typeof header.version !== 'number' || header.version > TRACE_VERSION) {
+    throw new TraceError(`Unsupported trace version: ${header.version} (this version reads up to ${TRACE_VERSION})`);
+  }
+  return events;
+}
+
+export function readTraceFile(file: string): TraceEvent[] {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw new TraceError(`${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  return parseTrace(text);
+}
+
+/**
+ * Where an event's span ended up in the compiled output: the mapping for the
+ * statement at the span, or the nearest one before it
+ */
+export function linkTrace(
+  events: TraceEvent[],
+  sourceMap: SourceMap
+): (TraceEvent & { generated?: { line: number; column: number } })[] {
+  const mappings = [...sourceMap.mappings].sort((a, b) =>
+    a.originalLine - b.originalLine || a.originalColumn - b.originalColumn
+  );
+
+  return events.map(event => {
+    if (!('span' in event)) {
+      return event;
+    }
+    const { line, column } = event.span.start;
+    let match = null;
+    for (const mapping of mappings) {
+      if (mapping.originalLine > line || (mapping.originalLine === line && mapping.originalColumn > column)) {
+        break;
+      }
+      match = mapping;
+    }
+    return match ? { ...event, generated: { line: match.generatedLine, column: match.generatedColumn } } : event;
+  });
+}
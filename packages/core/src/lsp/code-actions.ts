@@ -0,0 +1,55 @@
+/**
+ * OpenProse LSP Code Actions
+ *
+ * Offers the Validator's fixes as quick-fix code actions for the
+ * diagnostics that touch a range. The first fix of each diagnostic is
+ * marked as preferred, so editors can apply it with a single shortcut.
+ */
+
+import { parse } from '../parser';
+import { validate, ValidateOptions } from '../validator';
+import { validationErrorToDiagnostic } from './diagnostics';
+import { CodeAction, Position, Range, spanToRange } from './protocol';
+
+/**
+ * Get quick fixes for the diagnostics that intersect a range
+ */
+export function getCodeActions(text: string, uri: string, range: Range, lintOptions?: ValidateOptions): CodeAction[] {
+  const parseResult = parse(text);
+  if (parseResult.errors.length > 0) {
+    return [];
+  }
+
+  const result = validate(parseResult.program, text, lintOptions);
+  const actions: CodeAction[] = [];
+
+  for (const error of [...result.errors, ...result.warnings]) {
+    const diagnostic = validationErrorToDiagnostic(error, uri);
+    if (!error.fixes || !rangesIntersect(diagnostic.range, range)) {
+      continue;
+    }
+    error.fixes.forEach((fix, index) => {
+      actions.push({
+        title: fix.title,
+        kind: 'quickfix',
+        diagnostics: [diagnostic],
+        edit: {
+          changes: {
+            [uri]: fix.edits.map(edit => ({ range: spanToRange(edit.span), newText: edit.newText })),
+          },
+        },
+        isPreferred: index === 0,
+      });
+    });
+  }
+
+  return actions;
+}
+
+function rangesIntersect(a: Range, b: Range): boolean {
+  return !isBefore(a.end, b.start) && !isBefore(b.end, a.start);
+}
+
+function isBefore(a: Position, b: Position): boolean {
+  return a.line < b.line || (a.line === b.line && a.character < b.character);
+}
@@ -0,0 +1,284 @@
+/**
+ * OpenProse LSP Completion
+ *
+ * Context-aware completion: the text before the cursor decides what kind of
+ * suggestion applies (keyword, property, model, agent, block or variable),
+ * and the program's symbol table supplies the names that are in scope.
+ */
+
+import { ProgramNode } from '../parser';
+import { bind, SymbolTable, VALID_MODELS, VALID_PROPERTIES } from '../validator';
+import { CompletionItem, CompletionItemKind, Position } from './protocol';
+
+/** Keywords that start a statement anywhere */
+const STATEMENT_KEYWORDS = [
+  'session', 'let', 'const', 'do', 'parallel', 'repeat', 'for', 'loop',
+  'try', 'throw', 'choice', 'if',
+];
+
+/** Keywords that only start a statement at the top level */
+const TOP_LEVEL_KEYWORDS = ['agent', 'block'];
+
+/** Keywords that start an expression on the right of = */
+const EXPRESSION_KEYWORDS = [
+  'session', 'do', 'parallel', 'repeat', 'for', 'loop', 'try', 'choice', 'if',
+];
+
+/**
+ * Get completion items for a cursor position.
+ *
+ * The program supplies agents, blocks and scoped variables; the source text
+ * supplies the syntactic context, since the line being typed is usually
+ * incomplete and missing from the AST.
+ */
+export function getCompletions(program: ProgramNode, source: string, position: Position): CompletionItem[] {
+  const lines = source.split('\n');
+  const line = lines[position.line] ?? '';
+  const prefix = line.slice(0, position.character);
+  const textBefore = lines.slice(0, position.line).concat(prefix).join('\n');
+  const table = bind(program);
+
+  const stringState = getStringState(textBefore);
+  if (stringState === 'comment') {
+    return [];
+  }
+  if (stringState === 'string') {
+    return /\{\w*$/.test(prefix) ? variableItems(table, position) : [];
+  }
+
+  if (/\bcontext:\s*[[{]?\s*(\w+\s*,\s*)*\w*$/.test(prefix)) {
+    return variableItems(table, position);
+  }
+  if (/\bmodel:\s*\w*$/.test(prefix)) {
+    return VALID_MODELS.map(model => ({ label: model, kind: CompletionItemKind.EnumMember, detail: 'model' }));
+  }
+  if (/\bsession:\s*\w*$/.test(prefix)) {
+    return table.getSymbolsOfKind('agent').map(agent => ({
+      label: agent.name,
+      kind: CompletionItemKind.Class,
+      detail: 'agent',
+    }));
+  }
+  if (/\bdo\s+\w*$/.test(prefix)) {
+    return blockItems(program);
+  }
+  if (/\bloop\s+\w*$/.test(prefix)) {
+    return keywordItems(['until', 'while']);
+  }
+  if (/^\s*(?:(?:let|const)\s+)?\w+\s*=\s*\w*$/.test(prefix)) {
+    return [...keywordItems(EXPRESSION_KEYWORDS), ...variableItems(table, position)];
+  }
+
+  const statementMatch = /^(\s*)\w*$/.exec(prefix);
+  if (!statementMatch) {
+    return [];
+  }
+  return statementItems(lines, position.line, statementMatch[1].length);
+}
+
+/**
+ * Completions at the start of a line: properties inside agent/session
+ * headers, otherwise keywords valid after the preceding sibling.
+ */
+function statementItems(lines: string[], lineIndex: number, indent: number): CompletionItem[] {
+  const parent = findParentLine(lines, lineIndex, indent);
+
+  if (parent !== null && /^agent\s/.test(parent)) {
+    return propertyItems('agent', lines, lineIndex, indent);
+  }
+  if (parent !== null && /^(?:(?:let|const)\s+\w+\s*=\s*|\w+\s*=\s*)?session\b/.test(parent)) {
+    return propertyItems('session', lines, lineIndex, indent);
+  }
+  if (parent !== null && /^choice\b/.test(parent)) {
+    return keywordItems(['option']);
+  }
+
+  const keywords: string[] = [];
+  const sibling = findPreviousSibling(lines, lineIndex, indent);
+  if (sibling !== null && /^try\s*:/.test(sibling)) {
+    keywords.push('catch', 'finally');
+  } else if (sibling !== null && /^catch\b/.test(sibling)) {
+    keywords.push('finally');
+  } else if (sibling !== null && /^(if|elif)\b/.test(sibling)) {
+    keywords.push('elif', 'else');
+  }
+
+  keywords.push(...STATEMENT_KEYWORDS);
+  if (indent === 0) {
+    keywords.push(...TOP_LEVEL_KEYWORDS);
+    if (onlyImportsBefore(lines, lineIndex)) {
+      keywords.push('import', 'use');
+    }
+  }
+  return keywordItems(keywords);
+}
+
+function keywordItems(keywords: string[]): CompletionItem[] {
+  return keywords.map(keyword => ({ label: keyword, kind: CompletionItemKind.Keyword }));
+}
+
+/**
+ * Property names valid for the header, minus those already present
+ */
+function propertyItems(
+  context: 'agent' | 'session',
+  lines: string[],
+  lineIndex: number,
+  indent: number
+): CompletionItem[] {
+  const present = new Set<string>();
+  for (const sibling of getSiblingLines(lines, lineIndex, indent)) {
+    const match = /^(\w+)\s*:/.exec(sibling);
+    if (match) {
+      present.add(match[1]);
+    }
+  }
+
+  return VALID_PROPERTIES[context]
+    .filter(name => !present.has(name))
+    .map(name => ({ label: name, kind: CompletionItemKind.Property, detail: `${context} property` }));
+}
+
+function blockItems(program: ProgramNode): CompletionItem[] {
+  const items: CompletionItem[] = [];
+  for (const statement of program.statements) {
+    if (statement.type === 'BlockDefinition') {
+      const params = statement.parameters.map(param => param.name).join(', ');
+      items.push({
+        label: statement.name.name,
+        kind: CompletionItemKind.Function,
+        detail: params ? `block ${statement.name.name}(${params})` : `block ${statement.name.name}`,
+      });
+    }
+  }
+  return items;
+}
+
+function variableItems(table: SymbolTable, position: Position): CompletionItem[] {
+  return table
+    .getVisibleVariables({ line: position.line + 1, column: position.character + 1 })
+    .map(symbol => ({
+      label: symbol.name,
+      kind: symbol.isConst ? CompletionItemKind.Constant : CompletionItemKind.Variable,
+      detail: symbol.variableKind ?? undefined,
+    }));
+}
+
+// ========== Text Context Helpers ==========
+
+/**
+ * Determine whether the end of the text is inside a string or comment
+ */
+function getStringState(text: string): 'code' | 'string' | 'comment' {
+  let state: 'code' | 'string' | 'triple' | 'comment' = 'code';
+  let i = 0;
+
+  while (i < text.length) {
+    const c = text[i];
+    if (state === 'code') {
+      if (text.startsWith('"""', i)) {
+        state = 'triple';
+        i += 3;
+        continue;
+      }
+      if (c === '"') {
+        state = 'string';
+      } else if (c === '#') {
+        state = 'comment';
+      }
+    } else if (state === 'string') {
+      if (c === '\\') {
+        i += 2;
+        continue;
+      }
+      if (c === '"' || c === '\n') {
+        state = 'code';
+      }
+    } else if (state === 'triple') {
+      if (text.startsWith('"""', i)) {
+        state = 'code';
+        i += 3;
+        continue;
+      }
+    } else if (c === '\n') {
+      state = 'code';
+    }
+    i++;
+  }
+
+  return state === 'triple' ? 'string' : state;
+}
+
+function indentOf(line: string): number {
+  return line.length - line.trimStart().length;
+}
+
+function isBlankOrComment(line: string): boolean {
+  const trimmed = line.trim();
+  return trimmed.length === 0 || trimmed.startsWith('#');
+}
+
+/**
+ * Find the nearest preceding line with less indentation (the enclosing header)
+ */
+function findParentLine(lines: string[], lineIndex: number, indent: number): string | null {
+  for (let i = lineIndex - 1; i >= 0; i--) {
+    if (!isBlankOrComment(lines[i]) && indentOf(lines[i]) < indent) {
+      return lines[i].trim();
+    }
+  }
+  return null;
+}
+
+/**
+ * Find the nearest preceding line at the same indentation within the same parent
+ */
+function findPreviousSibling(lines: string[], lineIndex: number, indent: number): string | null {
+  for (let i = lineIndex - 1; i >= 0; i--) {
+    if (isBlankOrComment(lines[i])) {
+      continue;
+    }
+    const lineIndent = indentOf(lines[i]);
+    if (lineIndent === indent) {
+      return lines[i].trim();
+    }
+    if (lineIndent < indent) {
+      return null;
+    }
+  }
+  return null;
+}
+
+/**
+ * Get the other lines at the same indentation under the same parent
+ */
+function getSiblingLines(lines: string[], lineIndex: number, indent: number): string[] {
+  const siblings: string[] = [];
+  for (const step of [-1, 1]) {
+    for (let i = lineIndex + step; i >= 0 && i < lines.length; i += step) {
+      if (isBlankOrComment(lines[i])) {
+        continue;
+      }
+      const lineIndent = indentOf(lines[i]);
+      if (lineIndent < indent) {
+        break;
+      }
+      if (lineIndent === indent) {
+        siblings.push(lines[i].trim());
+      }
+    }
+  }
+  return siblings;
+}
+
+/**
+ * Imports must come first, so only offer `import` before any other statement
+ */
+function onlyImportsBefore(lines: string[], lineIndex: number): boolean {
+  for (let i = 0; i < lineIndex; i++) {
+    if (!isBlankOrComment(lines[i]) && !/^(import|use)\b/.test(lines[i])) {
+      return false;
+    }
+  }
+  return true;
+}
@@ -0,0 +1,80 @@
+/**
+ * OpenProse LSP Diagnostics
+ *
+ * Runs the parser and validator over a document and converts their errors
+ * and warnings into LSP diagnostics.
+ */
+
+import { parse, ParseError } from '../parser';
+import { validate, ValidationError, DiagnosticCodes, ValidateOptions } from '../validator';
+import { Diagnostic, DiagnosticSeverity, spanToRange } from './protocol';
+
+/** Source name reported on every diagnostic */
+export const DIAGNOSTIC_SOURCE = 'openprose';
+
+/**
+ * Get diagnostics for source code.
+ *
+ * Validation only runs when the source parses cleanly, matching the CLI:
+ * a partial AST would otherwise produce misleading semantic errors. With a
+ * document URI, related spans (such as the first of two duplicate
+ * definitions) are included as related information.
+ */
+export function getDiagnostics(source: string, uri?: string, lintOptions?: ValidateOptions): Diagnostic[] {
+  const parseResult = parse(source);
+
+  if (parseResult.errors.length > 0) {
+    return parseResult.errors.map(parseErrorToDiagnostic);
+  }
+
+  const validationResult = validate(parseResult.program, source, lintOptions);
+
+  return [
+    ...validationResult.errors.map(error => validationErrorToDiagnostic(error, uri)),
+    ...validationResult.warnings.map(warning => validationErrorToDiagnostic(warning, uri)),
+  ];
+}
+
+/**
+ * Convert a parse error to a diagnostic
+ */
+export function parseErrorToDiagnostic(error: ParseError): Diagnostic {
+  return {
+    range: spanToRange(error.span),
+    severity: DiagnosticSeverity.Error,
+    code: DiagnosticCodes.ParseError,
+    message: error.message,
+    source: DIAGNOSTIC_SOURCE,
+  };
+}
+
+/**
+ * Convert a validation error or warning to a diagnostic
+ */
+export function validationErrorToDiagnostic(error: ValidationError, uri?: string): Diagnostic {
+  const diagnostic: Diagnostic = {
+    range: spanToRange(error.span),
+    severity: toDiagnosticSeverity(error.severity),
+    code: error.code,
+    message: error.message,
+    source: DIAGNOSTIC_SOURCE,
+  };
+  if (uri !== undefined && error.related) {
+    diagnostic.relatedInformation = error.related.map(related => ({
+      location: { uri, range: spanToRange(related.span) },
+      message: related.message,
+    }));
+  }
+  return diagnostic;
+}
+
+function toDiagnosticSeverity(severity: ValidationError['severity']): DiagnosticSeverity {
+  switch (severity) {
+    case 'error':
+      return DiagnosticSeverity.Error;
+    case 'warning':
+      return DiagnosticSeverity.Warning;
+    case 'info':
+      return DiagnosticSeverity.Information;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * OpenProse LSP Formatting
+ *
+ * Document and range formatting backed by the canonical formatter. The
+ * layout is fixed (like `open-prose fmt`), so client tab settings are
+ * ignored. Documents with parse errors are left alone.
+ */
+
+import { formatSource, FormattedRegion } from '../formatter';
+import { Range, TextEdit, offsetToPosition, positionToOffset } from './protocol';
+
+/**
+ * Get the edits that format a whole document
+ */
+export function getFormattingEdits(text: string): TextEdit[] {
+  const result = formatSource(text);
+  if (result.errors.length > 0 || !result.changed) {
+    return [];
+  }
+
+  return [{
+    range: { start: { line: 0, character: 0 }, end: offsetToPosition(text, text.length) },
+    newText: result.code,
+  }];
+}
+
+/**
+ * Get the edits that format the top-level statements overlapping a range.
+ * Whole statements are reformatted, since indentation depends on nesting.
+ */
+export function getRangeFormattingEdits(text: string, range: Range): TextEdit[] {
+  const result = formatSource(text);
+  if (result.errors.length > 0 || !result.changed) {
+    return [];
+  }
+
+  // Lines are 1-based; a range ending at column 0 doesn't include that line
+  const first = range.start.line + 1;
+  const last = range.end.character === 0 && range.end.line > range.start.line
+    ? range.end.line
+    : range.end.line + 1;
+  const regions = result.regions.filter(region => region.sourceEnd >= first && region.sourceStart <= last);
+  if (regions.length === 0) {
+    return [];
+  }
+
+  const start = regions[0];
+  const end = regions[regions.length - 1];
+  const outputLines = result.code.split('\n');
+  const newText = outputLines.slice(start.outputStart - 1, end.outputEnd).join('\n') + '\n';
+
+  const startOffset = positionToOffset(text, { line: start.sourceStart - 1, character: 0 });
+  const endOffset = lineEndOffset(text, end);
+  if (text.slice(startOffset, endOffset) === newText) {
+    return [];
+  }
+
+  return [{
+    range: { start: offsetToPosition(text, startOffset), end: offsetToPosition(text, endOffset) },
+    newText,
+  }];
+}
+
+/**
+ * Offset just past the newline ending a region's last source line
+ */
+function lineEndOffset(text: string, region: FormattedRegion): number {
+  const lineStart = positionToOffset(text, { line: region.sourceEnd - 1, character: 0 });
+  const newline = text.indexOf('\n', lineStart);
+  return newline === -1 ? text.length : newline + 1;
+}
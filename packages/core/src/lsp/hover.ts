@@ -0,0 +1,266 @@
+/**
+ * OpenProse LSP Hover
+ *
+ * Hover documentation for symbols (agents, blocks, variables) resolved
+ * through the symbol table, and for keywords and property names.
+ */
+
+import {
+  parse,
+  tokenize,
+  isKeyword,
+  getChildNodes,
+  ASTNode,
+  AgentDefinitionNode,
+  BlockDefinitionNode,
+  ParallelBlockNode,
+  PipeOperationNode,
+  ExpressionNode,
+  StringLiteralNode,
+  ArrayExpressionNode,
+  ObjectExpressionNode,
+  IdentifierNode,
+  NumberLiteralNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { bind, SymbolInfo } from '../validator';
+import { Hover, Position, spanContainsPosition, spanToRange } from './protocol';
+
+/** Longest property value shown before truncating */
+const MAX_VALUE_LENGTH = 120;
+
+/** Short documentation for keywords and property names */
+const KEYWORD_DOCS: Record<string, string> = {
+  import: 'Import a skill: `import "name" from "source"`. Imports must come before other statements.',
+  from: 'Names the source of an imported skill.',
+  agent: 'Define a reusable agent template with a model, prompt, skills and permissions.',
+  session: 'Run an AI session with a prompt, optionally using an agent: `session: agent-name`.',
+  block: 'Define a reusable block of statements, optionally with parameters: `block name(param):`.',
+  do: 'Invoke a block (`do name(args)`) or group statements in an anonymous block (`do:`).',
+  parallel: 'Run the indented branches concurrently.',
+  choice: 'Let the orchestrator pick one option based on the **criteria**.',
+  option: 'A labelled branch of a `choice` block.',
+  let: 'Bind a mutable variable to the result of an expression.',
+  const: 'Bind an immutable variable to the result of an expression.',
+  loop: 'Repeat the body until a condition (`loop until **done**`), while a condition holds, or indefinitely. Use `(max: N)` as a safety limit.',
+  until: 'Loop until the **condition** is judged true.',
+  while: 'Loop while the **condition** is judged true.',
+  repeat: 'Run the body a fixed number of times: `repeat 3 as i:`.',
+  for: 'Iterate over a collection: `for item, i in items:`. Prefix with `parallel` to run iterations concurrently.',
+  in: 'Names the collection iterated by `for`.',
+  as: 'Names a loop index or the error caught by `catch`.',
+  if: 'Run the body if the **condition** is judged true.',
+  elif: 'Alternative condition of an `if` statement.',
+  else: 'Runs when no `if`/`elif` condition holds.',
+  try: 'Run the body and handle failures with `catch` and/or `finally`.',
+  catch: 'Runs when the `try` body fails. `catch as err:` binds the error.',
+  finally: 'Always runs after `try` (and `catch`), whether or not it failed.',
+  throw: 'Fail with an optional message, to be handled by an enclosing `catch`.',
+  retry: 'Session property: number of times to retry the session on failure.',
+  backoff: 'Session property: delay between retries - `"none"`, `"linear"`, `"exponential"` or milliseconds.',
+  map: 'Pipe operation: transform each `item` of the collection.',
+  filter: 'Pipe operation: keep the items for which the body judges `item` relevant.',
+  reduce: 'Pipe operation: fold the collection with `reduce(acc, item):`.',
+  pmap: 'Pipe operation: transform each `item` concurrently.',
+  model: 'Model used by the agent or session: `sonnet`, `opus` or `haiku`.',
+  prompt: 'The prompt (instructions) for an agent or session.',
+  skills: 'Agent property: imported skills available to the agent.',
+  permissions: 'Agent property: access rules such as `read`, `write`, `execute`, `bash` and `network`.',
+  context: 'Session property: variables passed to the session as context - `name`, `[a, b]`, `{ a, b }` or `[]`.',
+};
+
+/**
+ * Get hover documentation for a position
+ */
+export function getHover(source: string, position: Position): Hover | null {
+  const program = parse(source).program;
+  const table = bind(program);
+
+  const occurrence = table.getOccurrenceAt({ line: position.line + 1, column: position.character + 1 });
+  if (occurrence) {
+    return markdown(describeSymbol(occurrence.symbol), occurrence.span);
+  }
+
+  // Parallel modifiers describe the block's join/on-fail semantics
+  const parallel = findNodeAt(program, position, 'ParallelBlock') as ParallelBlockNode | null;
+  if (parallel) {
+    const modifiers = [parallel.joinStrategy, parallel.anyCount, parallel.onFail];
+    const modifier = modifiers.find(node => node && spanContainsPosition(node.span, position));
+    if (modifier) {
+      return markdown(describeParallel(parallel), modifier.span);
+    }
+  }
+
+  const token = tokenize(source).tokens.find(
+    t => isKeyword(t.type) && spanContainsPosition(t.span, position)
+  );
+  if (!token) {
+    return null;
+  }
+
+  if (token.value === 'parallel' && parallel && parallel.span.start.offset === token.span.start.offset) {
+    return markdown(describeParallel(parallel), token.span);
+  }
+
+  const doc = KEYWORD_DOCS[token.value];
+  return doc ? markdown(`\`${token.value}\`\n\n${doc}`, token.span) : null;
+}
+
+function markdown(value: string, span: SourceSpan): Hover {
+  return { contents: { kind: 'markdown', value }, range: spanToRange(span) };
+}
+
+/**
+ * Find the innermost node of a type containing a position
+ */
+function findNodeAt(node: ASTNode, position: Position, type: string): ASTNode | null {
+  for (const child of getChildNodes(node)) {
+    if (spanContainsPosition(child.span, position)) {
+      const found = findNodeAt(child, position, type);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return node.type === type ? node : null;
+}
+
+// ========== Symbol Descriptions ==========
+
+function describeSymbol(symbol: SymbolInfo): string {
+  switch (symbol.kind) {
+    case 'agent':
+      return describeAgent(symbol.node as AgentDefinitionNode);
+    case 'block':
+      return describeBlock(symbol.node as BlockDefinitionNode);
+    case 'variable':
+      return describeVariable(symbol);
+  }
+}
+
+function describeAgent(agent: AgentDefinitionNode): string {
+  const lines = [codeBlock(`agent ${agent.name.name}`)];
+
+  for (const name of ['model', 'prompt', 'skills', 'permissions']) {
+    const prop = agent.properties.find(p => p.name.name === name);
+    const value = prop ? `\`${formatExpression(prop.value)}\`` : '_not set_';
+    lines.push(`**${name}:** ${value}  `);
+  }
+
+  return lines.join('\n');
+}
+
+function describeBlock(block: BlockDefinitionNode): string {
+  const params = block.parameters.map(param => param.name);
+  const header = codeBlock(`block ${block.name.name}${params.length > 0 ? `(${params.join(', ')})` : ''}`);
+
+  if (params.length === 0) {
+    return `${header}\nTakes no parameters.`;
+  }
+  return `${header}\nParameters: ${params.map(name => `\`${name}\``).join(', ')}`;
+}
+
+function describeVariable(symbol: SymbolInfo): string {
+  const line = symbol.span.start.line;
+
+  switch (symbol.variableKind) {
+    case 'let':
+      return `${codeBlock(`let ${symbol.name}`)}\nMutable variable, bound on line ${line}.`;
+    case 'const':
+      return `${codeBlock(`const ${symbol.name}`)}\nImmutable variable, bound on line ${line}.`;
+    case 'parameter': {
+      const block = symbol.node as BlockDefinitionNode;
+      return `${codeBlock(`(parameter) ${symbol.name}`)}\nParameter of block \`${block.name.name}\`, bound on line ${line}.`;
+    }
+    case 'loop':
+      return `${codeBlock(`(loop variable) ${symbol.name}`)}\nImmutable within each iteration, bound on line ${line}.`;
+    case 'error':
+      return `${codeBlock(`(error) ${symbol.name}`)}\nThe error caught by \`catch\`, bound on line ${line}.`;
+    case 'pipe': {
+      const operator = (symbol.node as PipeOperationNode).operator;
+      const role = symbol.isImplicit ? 'Implicit item' : 'Variable';
+      return `${codeBlock(`(pipe variable) ${symbol.name}`)}\n${role} of \`${operator}\`, bound on line ${line}.`;
+    }
+    default:
+      return codeBlock(symbol.name);
+  }
+}
+
+/**
+ * Describe the join strategy and failure policy of a parallel block
+ */
+function describeParallel(parallel: ParallelBlockNode): string {
+  const modifiers: string[] = [];
+  if (parallel.joinStrategy) modifiers.push(parallel.joinStrategy.raw);
+  if (parallel.anyCount) modifiers.push(`count: ${parallel.anyCount.raw}`);
+  if (parallel.onFail) modifiers.push(`on-fail: ${parallel.onFail.raw}`);
+  const header = codeBlock(`parallel${modifiers.length > 0 ? ` (${modifiers.join(', ')})` : ''}`);
+
+  const strategy = parallel.joinStrategy?.value ?? 'all';
+  const count = parallel.anyCount?.value ?? 1;
+  const branches = `${count} branch${count === 1 ? '' : 'es'}`;
+  let join: string;
+  switch (strategy) {
+    case 'first':
+      join = 'Race: the first branch to complete wins and the others are cancelled.';
+      break;
+    case 'any':
+      join = `First success wins: completes once ${branches} succeed${count === 1 ? 's' : ''}, and the others are cancelled.`;
+      break;
+    default:
+      join = 'Waits for all branches to complete.';
+  }
+
+  // What a failure does depends on the join, as in the interpreter
+  const policy = parallel.onFail?.value ?? 'fail-fast';
+  let outcome: string;
+  if (strategy === 'first') {
+    outcome = policy === 'ignore'
+      ? 'a failure of the first branch to finish makes the block yield `null`.'
+      : 'a failure of the first branch to finish fails the block.';
+  } else if (strategy === 'any') {
+    const short = count === 1 ? 'every branch fails' : `fewer than ${branches} succeed`;
+    outcome = policy === 'ignore'
+      ? `failed branches are skipped; if ${short}, the block yields the successes it has.`
+      : `failed branches are skipped; the block fails only if ${short}.`;
+  } else if (policy === 'continue') {
+    outcome = 'all branches run to completion and errors are collected.';
+  } else if (policy === 'ignore') {
+    outcome = 'failed branches yield `null`.';
+  } else {
+    outcome = 'the first failure cancels the other branches.';
+  }
+  const onFail = `On failure (\`${policy}\`${parallel.onFail ? '' : ', default'}): ${outcome}`;
+
+  return `${header}\n${join}\n\n${onFail}`;
+}
+
+function codeBlock(code: string): string {
+  return '```prose\n' + code + '\n```';
+}
+
+/**
+ * Render a property value compactly for display
+ */
+function formatExpression(expr: ExpressionNode): string {
+  switch (expr.type) {
+    case 'StringLiteral': {
+      const value = (expr as StringLiteralNode).value.replace(/\s+/g, ' ').trim();
+      return value.length > MAX_VALUE_LENGTH
+        ? `"${value.slice(0, MAX_VALUE_LENGTH)}..."`
+        : `"${value}"`;
+    }
+    case 'Identifier':
+      return (expr as IdentifierNode).name;
+    case 'NumberLiteral':
+      return (expr as NumberLiteralNode).raw;
+    case 'ArrayExpression':
+      return `[${(expr as ArrayExpressionNode).elements.map(formatExpression).join(', ')}]`;
+    case 'ObjectExpression':
+      return (expr as ObjectExpressionNode).properties
+        .map(prop => `${prop.name.name}: ${formatExpression(prop.value)}`)
+        .join(', ');
+    default:
+      return expr.type;
+  }
+}
@@ -16,3 +16,97 @@ export {
   getSemanticTokens,
   getEncodedSemanticTokens,
 } from './semantic-tokens';
+
+export type {
+  RequestMessage,
+  NotificationMessage,
+  ResponseMessage,
+  ResponseError,
+  Message,
+  Position,
+  Range,
+  Location,
+  TextEdit,
+  WorkspaceEdit,
+  TextDocumentIdentifier,
+  VersionedTextDocumentIdentifier,
+  TextDocumentItem,
+  TextDocumentPositionParams,
+  TextDocumentContentChangeEvent,
+  Diagnostic,
+  DiagnosticRelatedInformation,
+  PublishDiagnosticsParams,
+  LogMessageParams,
+  CodeActionParams,
+  CodeAction,
+  CompletionItem,
+  MarkupContent,
+  Hover,
+} from './protocol';
+
+export {
+  ErrorCodes,
+  TextDocumentSyncKind,
+  DiagnosticSeverity,
+  MessageType,
+  CompletionItemKind,
+  spanToRange,
+  positionToOffset,
+  offsetToPosition,
+  spanContainsPosition,
+  applyContentChanges,
+} from './protocol';
+
+export {
+  DIAGNOSTIC_SOURCE,
+  getDiagnostics,
+  parseErrorToDiagnostic,
+  validationErrorToDiagnostic,
+} from './diagnostics';
+
+export {
+  getCompletions,
+} from './completion';
+
+export {
+  getHover,
+} from './hover';
+
+export {
+  getFormattingEdits,
+  getRangeFormattingEdits,
+} from './formatting';
+
+export {
+  getRenameRange,
+  getRenameEdit,
+} from './rename';
+
+export {
+  getCodeActions,
+} from './code-actions';
+
+export {
+  getSymbolTable,
+  getSymbolAtPosition,
+  getDefinition,
+  getReferences,
+  getDeclarationRange,
+} from './navigation';
+
+export {
+  MessageReader,
+  MessageError,
+  encodeMessage,
+} from './transport';
+
+export type {
+  TextDocument,
+  LanguageServerOptions,
+} from './server';
+
+export {
+  LanguageServer,
+  RequestError,
+  startLanguageServer,
+} from './server';
@@ -0,0 +1,73 @@
+/**
+ * OpenProse LSP Navigation
+ *
+ * Go-to-definition and find-references, answered from the validator's
+ * symbol table so that scoping and shadowing match validation exactly.
+ */
+
+import { parse, PipeOperationNode } from '../parser';
+import { bind, SymbolInfo, SymbolTable } from '../validator';
+import { Location, Position, Range, spanToRange } from './protocol';
+
+/**
+ * Build the symbol table for a document
+ */
+export function getSymbolTable(source: string): SymbolTable {
+  return bind(parse(source).program);
+}
+
+/**
+ * Find the symbol under a position
+ */
+export function getSymbolAtPosition(table: SymbolTable, position: Position): SymbolInfo | null {
+  return table.getSymbolAt({ line: position.line + 1, column: position.character + 1 });
+}
+
+/**
+ * Get the declaration location of the symbol at a position
+ */
+export function getDefinition(source: string, uri: string, position: Position): Location | null {
+  const symbol = getSymbolAtPosition(getSymbolTable(source), position);
+  if (!symbol) {
+    return null;
+  }
+  return { uri, range: getDeclarationRange(symbol) };
+}
+
+/**
+ * Get every reference to the symbol at a position, in source order
+ */
+export function getReferences(
+  source: string,
+  uri: string,
+  position: Position,
+  includeDeclaration: boolean
+): Location[] {
+  const table = getSymbolTable(source);
+  const symbol = getSymbolAtPosition(table, position);
+  if (!symbol) {
+    return [];
+  }
+
+  const locations: Location[] = [];
+  if (includeDeclaration && !symbol.isImplicit) {
+    locations.push({ uri, range: getDeclarationRange(symbol) });
+  }
+  for (const reference of table.getReferences(symbol)) {
+    locations.push({ uri, range: spanToRange(reference.span) });
+  }
+  return locations;
+}
+
+/**
+ * Get the range to highlight for a declaration. The implicit pipe "item"
+ * has no name in source, so it resolves to its operator keyword.
+ */
+export function getDeclarationRange(symbol: SymbolInfo): Range {
+  const range = spanToRange(symbol.span);
+  if (symbol.isImplicit && symbol.node.type === 'PipeOperation') {
+    const operator = (symbol.node as PipeOperationNode).operator;
+    range.end = { line: range.start.line, character: range.start.character + operator.length };
+  }
+  return range;
+}
@@ -0,0 +1,305 @@
+/**
+ * OpenProse LSP Protocol Types
+ *
+ * The subset of the Language Server Protocol and JSON-RPC 2.0 message
+ * shapes used by the OpenProse language server, plus helpers for converting
+ * between parser spans (1-based) and LSP positions (0-based).
+ */
+
+import { SourceSpan } from '../parser/tokens';
+
+// ========== JSON-RPC ==========
+
+export interface RequestMessage {
+  jsonrpc: '2.0';
+  id: number | string;
+  method: string;
+  params?: unknown;
+}
+
+export interface NotificationMessage {
+  jsonrpc: '2.0';
+  method: string;
+  params?: unknown;
+}
+
+export interface ResponseError {
+  code: number;
+  message: string;
+  data?: unknown;
+}
+
+export interface ResponseMessage {
+  jsonrpc: '2.0';
+  id: number | string | null;
+  result?: unknown;
+  error?: ResponseError;
+}
+
+export type Message = RequestMessage | NotificationMessage | ResponseMessage;
+
+/**
+ * Standard JSON-RPC / LSP error codes
+ */
+export const ErrorCodes = {
+  ParseError: -32700,
+  InvalidRequest: -32600,
+  MethodNotFound: -32601,
+  InvalidParams: -32602,
+  InternalError: -32603,
+  ServerNotInitialized: -32002,
+  RequestFailed: -32803,
+} as const;
+
+// ========== Basic Structures ==========
+
+/**
+ * A position in a text document (0-based line and character)
+ */
+export interface Position {
+  line: number;
+  character: number;
+}
+
+export interface Range {
+  start: Position;
+  end: Position;
+}
+
+export interface Location {
+  uri: string;
+  range: Range;
+}
+
+export interface TextEdit {
+  range: Range;
+  newText: string;
+}
+
+/**
+ * Edits to apply across documents, keyed by URI
+ */
+export interface WorkspaceEdit {
+  changes: Record<string, TextEdit[]>;
+}
+
+export interface TextDocumentIdentifier {
+  uri: string;
+}
+
+export interface VersionedTextDocumentIdentifier extends TextDocumentIdentifier {
+  version: number;
+}
+
+export interface TextDocumentItem {
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+export interface TextDocumentPositionParams {
+  textDocument: TextDocumentIdentifier;
+  position: Position;
+}
+
+/**
+ * A content change sent with textDocument/didChange.
+ * Without a range the text replaces the whole document.
+ */
+export interface TextDocumentContentChangeEvent {
+  range?: Range;
+  text: string;
+}
+
+export enum TextDocumentSyncKind {
+  None = 0,
+  Full = 1,
+  Incremental = 2,
+}
+
+// ========== Diagnostics ==========
+
+export enum DiagnosticSeverity {
+  Error = 1,
+  Warning = 2,
+  Information = 3,
+  Hint = 4,
+}
+
+export interface DiagnosticRelatedInformation {
+  location: Location;
+  message: string;
+}
+
+export interface Diagnostic {
+  range: Range;
+  severity: DiagnosticSeverity;
+  /** Stable diagnostic code */
+  code?: string;
+  message: string;
+  source: string;
+  relatedInformation?: DiagnosticRelatedInformation[];
+}
+
+export interface PublishDiagnosticsParams {
+  uri: string;
+  version?: number;
+  diagnostics: Diagnostic[];
+}
+
+// ========== Window ==========
+
+export enum MessageType {
+  Error = 1,
+  Warning = 2,
+  Info = 3,
+  Log = 4,
+}
+
+export interface LogMessageParams {
+  type: MessageType;
+  message: string;
+}
+
+// ========== Code Actions ==========
+
+export interface CodeActionParams {
+  textDocument: TextDocumentIdentifier;
+  range: Range;
+  context: { diagnostics: Diagnostic[]; only?: string[] };
+}
+
+export interface CodeAction {
+  title: string;
+  kind: 'quickfix';
+  diagnostics: Diagnostic[];
+  edit: WorkspaceEdit;
+  isPreferred?: boolean;
+}
+
+// ========== Completion ==========
+
+export enum CompletionItemKind {
+  Function = 3,
+  Variable = 6,
+  Class = 7,
+  Property = 10,
+  Keyword = 14,
+  EnumMember = 20,
+  Constant = 21,
+}
+
+export interface CompletionItem {
+  label: string;
+  kind: CompletionItemKind;
+  detail?: string;
+}
+
+// ========== Hover ==========
+
+export interface MarkupContent {
+  kind: 'plaintext' | 'markdown';
+  value: string;
+}
+
+export interface Hover {
+  contents: MarkupContent;
+  range?: Range;
+}
+
+// ========== Position Helpers ==========
+
+/**
+ * Convert a parser source span (1-based line/column) to an LSP range (0-based)
+ */
+export function spanToRange(span: SourceSpan): Range {
+  return {
+    start: { line: span.start.line - 1, character: span.start.column - 1 },
+    end: { line: span.end.line - 1, character: span.end.column - 1 },
+  };
+}
+
+/**
+ * Convert an LSP position to a character offset in the text.
+ * Positions past the end of a line are clamped to the line end.
+ */
+export function positionToOffset(text: string, position: Position): number {
+  let offset = 0;
+  let line = 0;
+
+  while (line < position.line) {
+    const newline = text.indexOf('\n', offset);
+    if (newline === -1) {
+      return text.length;
+    }
+    offset = newline + 1;
+    line++;
+  }
+
+  let lineEnd = text.indexOf('\n', offset);
+  if (lineEnd === -1) {
+    lineEnd = text.length;
+  }
+
+  return Math.min(offset + Math.max(position.character, 0), lineEnd);
+}
+
+/**
+ * Convert a character offset in the text to an LSP position
+ */
+export function offsetToPosition(text: string, offset: number): Position {
+  const clamped = Math.max(0, Math.min(offset, text.length));
+  let line = 0;
+  let lineStart = 0;
+
+  for (let i = 0; i < clamped; i++) {
+    if (text[i] === '\n') {
+      line++;
+      lineStart = i + 1;
+    }
+  }
+
+  return { line, character: clamped - lineStart };
+}
+
+/**
+ * Check whether a parser span contains an LSP position
+ */
+export function spanContainsPosition(span: SourceSpan, position: Position): boolean {
+  const line = position.line + 1;
+  const column = position.character + 1;
+
+  if (line < span.start.line || line > span.end.line) {
+    return false;
+  }
+  if (line === span.start.line && column < span.start.column) {
+    return false;
+  }
+  if (line === span.end.line && column > span.end.column) {
+    return false;
+  }
+  return true;
+}
+
+/**
+ * Apply content changes from textDocument/didChange to a document's text
+ */
+export function applyContentChanges(
+  text: string,
+  changes: TextDocumentContentChangeEvent[]
+): string {
+  let result = text;
+
+  for (const change of changes) {
+    if (!change.range) {
+      result = change.text;
+      continue;
+    }
+    const start = positionToOffset(result, change.range.start);
+    const end = positionToOffset(result, change.range.end);
+    result = result.slice(0, start) + change.text + result.slice(end);
+  }
+
+  return result;
+}
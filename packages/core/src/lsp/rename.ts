@@ -0,0 +1,36 @@
+/**
+ * OpenProse LSP Rename
+ *
+ * Rename for agents, blocks and variables, backed by the rename refactoring
+ * so that renames respect the validator's scoping and never change what a
+ * reference resolves to.
+ */
+
+import { prepareRename, renameSymbol } from '../refactor';
+import { Position, Range, WorkspaceEdit, spanToRange } from './protocol';
+
+/**
+ * Get the range of the name that would be renamed at a position
+ */
+export function getRenameRange(text: string, position: Position): Range | null {
+  const target = prepareRename(text, { line: position.line + 1, column: position.character + 1 });
+  return target ? spanToRange(target.span) : null;
+}
+
+/**
+ * Get the workspace edit renaming the symbol at a position, or the reason
+ * the rename isn't possible
+ */
+export function getRenameEdit(
+  text: string,
+  uri: string,
+  position: Position,
+  newName: string
+): { edit: WorkspaceEdit | null; error: string | null } {
+  const result = renameSymbol(text, { line: position.line + 1, column: position.character + 1 }, newName);
+  if (result.error) {
+    return { edit: null, error: result.error };
+  }
+  const edits = result.edits.map(edit => ({ range: spanToRange(edit.span), newText: edit.newText }));
+  return { edit: { changes: { [uri]: edits } }, error: null };
+}
@@ -197,6 +197,8 @@ export class SemanticTokensProvider {
       // Keywords
       case TokenType.IMPORT:
       case TokenType.FROM:
+      case TokenType.USE:
+      case TokenType.RETURNS:
       case TokenType.AGENT:
       case TokenType.SESSION:
       case TokenType.MODEL:
@@ -0,0 +1,440 @@
+/**
+ * OpenProse Language Server
+ *
+ * A Language Server Protocol implementation for OpenProse. The server keeps
+ * open documents in memory, publishes parse/validation diagnostics whenever
+ * a document opens or changes, and serves semantic tokens, completion, hover,
+ * navigation (go-to-definition, find-references), rename, quick fixes and
+ * formatting.
+ *
+ * The server itself is transport-agnostic: it consumes decoded messages via
+ * handleMessage() and emits messages through the send callback.
+ * startLanguageServer() wires it to stdio.
+ */
+
+import { dirname } from 'path';
+import { fileURLToPath } from 'url';
+import { parse } from '../parser';
+import { LintOptions, ValidateOptions, findConfigFile, loadConfig } from '../validator';
+import { linkProgram } from '../modules';
+import { getEncodedSemanticTokens, getSemanticTokensLegend } from './semantic-tokens';
+import { getCompletions } from './completion';
+import { getHover } from './hover';
+import { getDiagnostics } from './diagnostics';
+import { getDefinition, getReferences } from './navigation';
+import { getFormattingEdits, getRangeFormattingEdits } from './formatting';
+import { getRenameEdit, getRenameRange } from './rename';
+import { getCodeActions } from './code-actions';
+import {
+  Message,
+  RequestMessage,
+  NotificationMessage,
+  ResponseMessage,
+  ErrorCodes,
+  TextDocumentItem,
+  TextDocumentIdentifier,
+  VersionedTextDocumentIdentifier,
+  TextDocumentContentChangeEvent,
+  TextDocumentSyncKind,
+  TextDocumentPositionParams,
+  PublishDiagnosticsParams,
+  LogMessageParams,
+  MessageType,
+  CodeActionParams,
+  Range,
+  applyContentChanges,
+} from './protocol';
+import { MessageReader, MessageError, encodeMessage, isMessage } from './transport';
+
+/**
+ * An open text document tracked by the server
+ */
+export interface TextDocument {
+  uri: string;
+  languageId: string;
+  version: number;
+  text: string;
+}
+
+export interface LanguageServerOptions {
+  /** Send a message to the client */
+  send: (message: Message) => void;
+  /** Called when the client sends the exit notification */
+  onExit?: (code: number) => void;
+  /** Version reported in serverInfo */
+  version?: string;
+  /** Lint configuration and module definitions for a document (default: built-in rule settings) */
+  lintOptions?: (uri: string, text: string) => ValidateOptions | undefined;
+}
+
+/**
+ * Error thrown by request handlers to produce a JSON-RPC error response
+ */
+export class RequestError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+export class LanguageServer {
+  private documents: Map<string, TextDocument> = new Map();
+  private initialized: boolean = false;
+  private shutdownRequested: boolean = false;
+
+  constructor(private options: LanguageServerOptions) {}
+
+  /**
+   * Handle a decoded message from the client
+   */
+  public handleMessage(message: Message): void {
+    if (!isMessage(message)) {
+      this.send({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: ErrorCodes.InvalidRequest, message: 'Message must be a JSON object' },
+      });
+      return;
+    }
+    if ('method' in message && 'id' in message && message.id !== undefined) {
+      this.handleRequest(message as RequestMessage);
+    } else if ('method' in message) {
+      this.handleNotification(message as NotificationMessage);
+    }
+    // Responses from the client are ignored - the server sends no requests
+  }
+
+  /**
+   * Get an open document by URI
+   */
+  public getDocument(uri: string): TextDocument | undefined {
+    return this.documents.get(uri);
+  }
+
+  // ========== Requests ==========
+
+  private handleRequest(request: RequestMessage): void {
+    try {
+      const result = this.dispatchRequest(request.method, request.params);
+      this.send({ jsonrpc: '2.0', id: request.id, result: result ?? null });
+    } catch (error) {
+      const code = error instanceof RequestError ? error.code : ErrorCodes.InternalError;
+      const message = error instanceof Error ? error.message : String(error);
+      this.send({ jsonrpc: '2.0', id: request.id, error: { code, message } });
+    }
+  }
+
+  private dispatchRequest(method: string, params: unknown): unknown {
+    if (method === 'initialize') {
+      return this.initialize();
+    }
+
+    if (!this.initialized) {
+      throw new RequestError(ErrorCodes.ServerNotInitialized, 'Server not initialized');
+    }
+
+    switch (method) {
+      case 'shutdown':
+        this.shutdownRequested = true;
+        return null;
+      case 'textDocument/semanticTokens/full':
+        return this.semanticTokensFull(params as { textDocument: TextDocumentIdentifier });
+      case 'textDocument/completion':
+        return this.completion(params as TextDocumentPositionParams);
+      case 'textDocument/hover':
+        return this.hover(params as TextDocumentPositionParams);
+      case 'textDocument/definition':
+        return this.definition(params as TextDocumentPositionParams);
+      case 'textDocument/references':
+        return this.references(params as TextDocumentPositionParams & {
+          context?: { includeDeclaration: boolean };
+        });
+      case 'textDocument/prepareRename':
+        return this.prepareRename(params as TextDocumentPositionParams);
+      case 'textDocument/rename':
+        return this.rename(params as TextDocumentPositionParams & { newName: string });
+      case 'textDocument/codeAction':
+        return this.codeAction(params as CodeActionParams);
+      case 'textDocument/formatting':
+        return this.formatting(params as { textDocument: TextDocumentIdentifier });
+      case 'textDocument/rangeFormatting':
+        return this.rangeFormatting(params as { textDocument: TextDocumentIdentifier; range: Range });
+      default:
+        throw new RequestError(ErrorCodes.MethodNotFound, `Unhandled method: ${method}`);
+    }
+  }
+
+  /**
+   * Handle the initialize request and advertise server capabilities
+   */
+  private initialize(): unknown {
+    this.initialized = true;
+
+    return {
+      capabilities: {
+        textDocumentSync: {
+          openClose: true,
+          change: TextDocumentSyncKind.Full,
+        },
+        semanticTokensProvider: {
+          legend: getSemanticTokensLegend(),
+          full: true,
+        },
+        completionProvider: {
+          triggerCharacters: ['{', ':'],
+        },
+        hoverProvider: true,
+        definitionProvider: true,
+        referencesProvider: true,
+        renameProvider: { prepareProvider: true },
+        codeActionProvider: { codeActionKinds: ['quickfix'] },
+        documentFormattingProvider: true,
+        documentRangeFormattingProvider: true,
+      },
+      serverInfo: {
+        name: 'openprose-language-server',
+        version: this.options.version,
+      },
+    };
+  }
+
+  private semanticTokensFull(params: { textDocument: TextDocumentIdentifier }): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return { data: [] };
+    }
+    return getEncodedSemanticTokens(document.text);
+  }
+
+  private completion(params: TextDocumentPositionParams): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+    const program = parse(document.text).program;
+    return getCompletions(program, document.text, params.position);
+  }
+
+  private hover(params: TextDocumentPositionParams): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return null;
+    }
+    return getHover(document.text, params.position);
+  }
+
+  private definition(params: TextDocumentPositionParams): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return null;
+    }
+    return getDefinition(document.text, document.uri, params.position);
+  }
+
+  private references(params: TextDocumentPositionParams & {
+    context?: { includeDeclaration: boolean };
+  }): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+    const includeDeclaration = params.context?.includeDeclaration ?? false;
+    return getReferences(document.text, document.uri, params.position, includeDeclaration);
+  }
+
+  private prepareRename(params: TextDocumentPositionParams): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return null;
+    }
+    return getRenameRange(document.text, params.position);
+  }
+
+  private rename(params: TextDocumentPositionParams & { newName: string }): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return null;
+    }
+    const result = getRenameEdit(document.text, document.uri, params.position, params.newName);
+    if (result.error) {
+      throw new RequestError(ErrorCodes.RequestFailed, result.error);
+    }
+    return result.edit;
+  }
+
+  private codeAction(params: CodeActionParams): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+    return getCodeActions(document.text, document.uri, params.range, this.options.lintOptions?.(document.uri, document.text));
+  }
+
+  private formatting(params: { textDocument: TextDocumentIdentifier }): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+    return getFormattingEdits(document.text);
+  }
+
+  private rangeFormatting(params: { textDocument: TextDocumentIdentifier; range: Range }): unknown {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return [];
+    }
+    return getRangeFormattingEdits(document.text, params.range);
+  }
+
+  // ========== Notifications ==========
+
+  private handleNotification(notification: NotificationMessage): void {
+    // Notifications have no response to carry an error, so log it instead
+    // of letting it escape and stop the server
+    try {
+      this.dispatchNotification(notification.method, notification.params);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const params: LogMessageParams = {
+        type: MessageType.Error,
+        message: `Error handling ${notification.method}: ${message}`,
+      };
+      this.sendNotification('window/logMessage', params);
+    }
+  }
+
+  private dispatchNotification(method: string, params: unknown): void {
+    switch (method) {
+      case 'initialized':
+        break;
+      case 'exit':
+        this.options.onExit?.(this.shutdownRequested ? 0 : 1);
+        break;
+      case 'textDocument/didOpen':
+        this.didOpen(params as { textDocument: TextDocumentItem });
+        break;
+      case 'textDocument/didChange':
+        this.didChange(params as {
+          textDocument: VersionedTextDocumentIdentifier;
+          contentChanges: TextDocumentContentChangeEvent[];
+        });
+        break;
+      case 'textDocument/didClose':
+        this.didClose(params as { textDocument: TextDocumentIdentifier });
+        break;
+      // Unknown notifications are ignored, per the protocol
+    }
+  }
+
+  private didOpen(params: { textDocument: TextDocumentItem }): void {
+    const { uri, languageId, version, text } = params.textDocument;
+    this.documents.set(uri, { uri, languageId, version, text });
+    this.publishDiagnostics(uri);
+  }
+
+  private didChange(params: {
+    textDocument: VersionedTextDocumentIdentifier;
+    contentChanges: TextDocumentContentChangeEvent[];
+  }): void {
+    const document = this.documents.get(params.textDocument.uri);
+    if (!document) {
+      return;
+    }
+
+    document.text = applyContentChanges(document.text, params.contentChanges);
+    document.version = params.textDocument.version;
+    this.publishDiagnostics(document.uri);
+  }
+
+  private didClose(params: { textDocument: TextDocumentIdentifier }): void {
+    const uri = params.textDocument.uri;
+    this.documents.delete(uri);
+
+    // Clear diagnostics for the closed document
+    this.sendNotification('textDocument/publishDiagnostics', { uri, diagnostics: [] });
+  }
+
+  /**
+   * Publish diagnostics for an open document
+   */
+  private publishDiagnostics(uri: string): void {
+    const document = this.documents.get(uri);
+    if (!document) {
+      return;
+    }
+
+    const params: PublishDiagnosticsParams = {
+      uri,
+      version: document.version,
+      diagnostics: getDiagnostics(document.text, document.uri, this.options.lintOptions?.(document.uri, document.text)),
+    };
+    this.sendNotification('textDocument/publishDiagnostics', params);
+  }
+
+  // ========== Output ==========
+
+  private sendNotification(method: string, params: unknown): void {
+    this.send({ jsonrpc: '2.0', method, params });
+  }
+
+  private send(message: NotificationMessage | ResponseMessage): void {
+    this.options.send(message);
+  }
+}
+
+/**
+ * Load the config file that applies to a file: URI, and the agents and
+ * blocks the document gets from the modules it uses. A missing or broken
+ * config falls back to the built-in rule settings.
+ */
+function findLintOptions(uri: string, text: string): ValidateOptions | undefined {
+  if (!uri.startsWith('file:')) {
+    return undefined;
+  }
+  const file = fileURLToPath(uri);
+  let lintOptions: LintOptions = {};
+  try {
+    const configFile = findConfigFile(dirname(file));
+    lintOptions = configFile ? loadConfig(configFile) : {};
+  } catch {
+    // Built-in rule settings
+  }
+  const [document] = linkProgram(file, text).modules;
+  return { ...lintOptions, definitions: document.definitions };
+}
+
+/**
+ * Start a language server speaking JSON-RPC over the given streams
+ * (stdin/stdout by default).
+ */
+export function startLanguageServer(
+  input: NodeJS.ReadableStream = process.stdin,
+  output: NodeJS.WritableStream = process.stdout,
+  version?: string
+): LanguageServer {
+  const server = new LanguageServer({
+    version,
+    send: message => {
+      output.write(encodeMessage(message));
+    },
+    onExit: code => {
+      process.exit(code);
+    },
+    lintOptions: findLintOptions,
+  });
+
+  const reader = new MessageReader(
+    message => server.handleMessage(message),
+    error => {
+      output.write(encodeMessage({
+        jsonrpc: '2.0',
+        id: null,
+        error: { code: error instanceof MessageError ? error.code : ErrorCodes.ParseError, message: error.message },
+      }));
+    }
+  );
+
+  input.on('data', (chunk: Buffer | string) => reader.push(chunk));
+
+  return server;
+}
@@ -0,0 +1,120 @@
+/**
+ * OpenProse LSP Transport
+ *
+ * Base-protocol framing for JSON-RPC over a byte stream:
+ *
+ *   Content-Length: <bytes>\r\n
+ *   \r\n
+ *   <JSON payload>
+ */
+
+import { ErrorCodes, Message } from './protocol';
+
+const HEADER_DELIMITER = '\r\n\r\n';
+
+/**
+ * A framed body that isn't a message, with the JSON-RPC error code to reply with
+ */
+export class MessageError extends Error {
+  constructor(public code: number, message: string) {
+    super(message);
+    this.name = 'MessageError';
+  }
+}
+
+/**
+ * Check that a decoded body is a JSON object, as every message is
+ */
+export function isMessage(value: unknown): value is Message {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Incrementally decodes framed messages from stream chunks
+ */
+export class MessageReader {
+  private buffer: Buffer = Buffer.alloc(0);
+
+  constructor(
+    private onMessage: (message: Message) => void,
+    private onError: (error: Error) => void = () => {}
+  ) {}
+
+  /**
+   * Feed a chunk of data read from the stream
+   */
+  public push(chunk: Buffer | string): void {
+    const data = typeof chunk === 'string' ? Buffer.from(chunk, 'utf-8') : chunk;
+    this.buffer = Buffer.concat([this.buffer, data]);
+
+    while (this.readMessage()) {
+      // Keep reading until the buffer holds no complete message
+    }
+  }
+
+  /**
+   * Try to read one complete message from the buffer.
+   * Returns false when more data is needed.
+   */
+  private readMessage(): boolean {
+    const headerEnd = this.buffer.indexOf(HEADER_DELIMITER);
+    if (headerEnd === -1) {
+      return false;
+    }
+
+    const header = this.buffer.subarray(0, headerEnd).toString('ascii');
+    const contentLength = this.parseContentLength(header);
+    const bodyStart = headerEnd + HEADER_DELIMITER.length;
+
+    if (contentLength === null) {
+      // Drop the malformed header and resynchronize on the next one
+      this.buffer = this.buffer.subarray(bodyStart);
+      this.onError(new Error('Missing Content-Length header'));
+      return true;
+    }
+
+    if (this.buffer.length < bodyStart + contentLength) {
+      return false;
+    }
+
+    const body = this.buffer.subarray(bodyStart, bodyStart + contentLength).toString('utf-8');
+    this.buffer = this.buffer.subarray(bodyStart + contentLength);
+
+    let message: unknown;
+    try {
+      message = JSON.parse(body);
+    } catch {
+      this.onError(new MessageError(ErrorCodes.ParseError, 'Invalid JSON in message body'));
+      return true;
+    }
+    if (!isMessage(message)) {
+      this.onError(new MessageError(ErrorCodes.InvalidRequest, 'Message body must be a JSON object'));
+      return true;
+    }
+
+    this.onMessage(message);
+    return true;
+  }
+
+  private parseContentLength(header: string): number | null {
+    for (const line of header.split('\r\n')) {
+      const separator = line.indexOf(':');
+      if (separator === -1) continue;
+
+      const name = line.slice(0, separator).trim().toLowerCase();
+      if (name === 'content-length') {
+        const value = parseInt(line.slice(separator + 1).trim(), 10);
+        return Number.isNaN(value) ? null : value;
+      }
+    }
+    return null;
+  }
+}
+
+/**
+ * Frame a message for writing to the stream
+ */
+export function encodeMessage(message: Message): string {
+  const json = JSON.stringify(message);
+  return `Content-Length: ${Buffer.byteLength(json, 'utf-8')}${HEADER_DELIMITER}${json}`;
+}
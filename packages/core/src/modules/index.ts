@@ -0,0 +1,16 @@
+/**
+ * OpenProse Modules
+ *
+ * Exports for linking a program to the .prose files it uses
+ */
+
+export type {
+  ModuleDefinition,
+  LinkOptions,
+  ProseModule,
+  LinkResult,
+} from './modules';
+
+export {
+  linkProgram,
+} from './modules';
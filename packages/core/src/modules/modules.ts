@@ -0,0 +1,229 @@
+/**
+ * OpenProse Modules
+ *
+ * Links a program to the .prose files it names in `use` statements. Each
+ * file is parsed once. The agents and blocks a module defines, and those it
+ * gets from the modules it uses in turn, come into the user's scope, under
+ * `alias.` when the use statement has one. The definitions of a namespaced
+ * module are copied with their references to each other renamed, so a
+ * `do critique` inside the module becomes `do review.critique`.
+ *
+ * Problems are reported in the file they're in: a missing module, an import
+ * cycle or a name clash at the use statement, syntax errors in the module.
+ */
+
+import { readFileSync } from 'fs';
+import { dirname, relative, resolve } from 'path';
+import {
+  parse,
+  getChildNodes,
+  ASTNode,
+  ProgramNode,
+  AgentDefinitionNode,
+  BlockDefinitionNode,
+  SessionStatementNode,
+  DoBlockNode,
+  UseStatementNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { DiagnosticCode, DiagnosticCodes, ValidationError, parseErrorToValidationError } from '../validator';
+
+/** Top-level statements that mean something when a file is used as a module */
+const MODULE_STATEMENTS = ['CommentStatement', 'ImportStatement', 'UseStatement', 'AgentDefinition', 'BlockDefinition'];
+
+/**
+ * An agent or block that a module makes available
+ */
+export type ModuleDefinition = AgentDefinitionNode | BlockDefinitionNode;
+
+export interface LinkOptions {
+  /** Read a file; undefined when it can't be read (default: from disk) */
+  readFile?: (path: string) => string | undefined;
+}
+
+/**
+ * A parsed .prose file and what it gets from the modules it uses
+ */
+export interface ProseModule {
+  /** Absolute path of the file */
+  path: string;
+  source: string;
+  program: ProgramNode;
+  /** Agents and blocks from the modules it uses, named as this file calls them */
+  definitions: ModuleDefinition[];
+  /** Syntax errors, and problems with the modules it uses */
+  diagnostics: ValidationError[];
+}
+
+export interface LinkResult {
+  /** The entry program with the definitions it uses ahead of its own statements, to run or plan */
+  program: ProgramNode;
+  /** The entry file, then every module it uses directly or indirectly */
+  modules: ProseModule[];
+}
+
+/**
+ * Load the modules a program uses, and the modules they use
+ */
+export function linkProgram(file: string, source: string, options: LinkOptions = {}): LinkResult {
+  const linker = new ModuleLinker(options.readFile ?? readSource);
+  const entry = linker.load(resolve(file), source, false);
+  return {
+    program: { ...entry.program, statements: [...entry.definitions, ...entry.program.statements] },
+    modules: linker.modules,
+  };
+}
+
+class ModuleLinker {
+  private readonly loaded: Map<string, ProseModule> = new Map();
+  /** Files being loaded, outermost first, to find cycles */
+  private readonly loading: string[] = [];
+  /** The definition each namespaced copy was made from */
+  private readonly origins: Map<ModuleDefinition, ModuleDefinition> = new Map();
+
+  constructor(private readonly readFile: (path: string) => string | undefined) {}
+
+  public get modules(): ProseModule[] {
+    return [...this.loaded.values()];
+  }
+
+  public load(path: string, source: string, isModule: boolean): ProseModule {
+    const parseResult = parse(source);
+    const module: ProseModule = {
+      path,
+      source,
+      program: parseResult.program,
+      definitions: [],
+      diagnostics: parseResult.errors.map(parseErrorToValidationError),
+    };
+    this.loaded.set(path, module);
+
+    const ignored = parseResult.program.statements.find(statement => !MODULE_STATEMENTS.includes(statement.type));
+    if (isModule && ignored) {
+      module.diagnostics.push(diagnostic(
+        DiagnosticCodes.IgnoredModuleStatement,
+        "This file is used as a module, so its statements outside agents and blocks don't run",
+        ignored.span,
+        'warning'
+      ));
+    }
+
+    this.loading.push(path);
+    for (const statement of parseResult.program.statements) {
+      if (statement.type === 'UseStatement' && statement.source.value) {
+        this.use(module, statement);
+      }
+    }
+    this.loading.pop();
+    return module;
+  }
+
+  private use(module: ProseModule, use: UseStatementNode): void {
+    const path = resolve(dirname(module.path), use.source.value);
+    const cycleStart = this.loading.indexOf(path);
+    if (cycleStart >= 0) {
+      const cycle = [...this.loading.slice(cycleStart), path].map(file => relative(dirname(module.path), file));
+      module.diagnostics.push(diagnostic(DiagnosticCodes.ImportCycle, `Import cycle: ${cycle.join(' -> ')}`, use.source.span));
+      return;
+    }
+
+    let used = this.loaded.get(path);
+    if (!used) {
+      const source = this.readFile(path);
+      if (source === undefined) {
+        module.diagnostics.push(diagnostic(DiagnosticCodes.ModuleNotFound, `Module not found: "${use.source.value}"`, use.source.span));
+        return;
+      }
+      used = this.load(path, source, true);
+    }
+    if (used.diagnostics.some(d => d.code === DiagnosticCodes.ParseError)) {
+      module.diagnostics.push(diagnostic(DiagnosticCodes.ModuleHasErrors, `Module "${use.source.value}" has syntax errors`, use.source.span));
+      return;
+    }
+
+    let exported = [...definitionsOf(used.program), ...used.definitions];
+    if (use.alias) {
+      const namespace = use.alias.name;
+      const names = new Map(exported.map(definition => [definition.name.name, `${namespace}.${definition.name.name}`]));
+      exported = exported.map(definition => {
+        const copy = qualify(definition, names);
+        this.origins.set(copy, this.originOf(definition));
+        return copy;
+      });
+    }
+    for (const definition of exported) {
+      this.define(module, definition, use);
+    }
+  }
+
+  private define(module: ProseModule, definition: ModuleDefinition, use: UseStatementNode): void {
+    const name = definition.name.name;
+    const earlier = module.definitions.find(other => other.name.name === name);
+    // A module reached twice brings the same definitions, even through copies
+    if (earlier && this.originOf(earlier) === this.originOf(definition)) {
+      return;
+    }
+    const own = definitionsOf(module.program).find(other => other.name.name === name);
+    if (own || earlier) {
+      module.diagnostics.push(diagnostic(
+        DiagnosticCodes.ModuleNameConflict,
+        `"${name}" from "${use.source.value}" is already defined`,
+        use.span,
+        'error',
+        own ? [{ message: 'Defined here', span: own.name.span }] : undefined
+      ));
+      return;
+    }
+    module.definitions.push(definition);
+  }
+
+  private originOf(definition: ModuleDefinition): ModuleDefinition {
+    return this.origins.get(definition) ?? definition;
+  }
+}
+
+/**
+ * The agents and blocks a program defines itself
+ */
+function definitionsOf(program: ProgramNode): ModuleDefinition[] {
+  return program.statements.filter((statement): statement is ModuleDefinition =>
+    statement.type === 'AgentDefinition' || statement.type === 'BlockDefinition');
+}
+
+/**
+ * Copy a definition, renaming it and the agents and blocks it refers to
+ */
+function qualify(definition: ModuleDefinition, names: Map<string, string>): ModuleDefinition {
+  // AST nodes are plain data
+  const copy = JSON.parse(JSON.stringify(definition)) as ModuleDefinition;
+  const visit = (node: ASTNode): void => {
+    const reference = node.type === 'SessionStatement' ? (node as SessionStatementNode).agent
+      : node.type === 'DoBlock' ? (node as DoBlockNode).name
+      : null;
+    if (reference && names.has(reference.name)) {
+      reference.name = names.get(reference.name)!;
+    }
+    getChildNodes(node).forEach(visit);
+  };
+  visit(copy);
+  copy.name.name = names.get(copy.name.name)!;
+  return copy;
+}
+
+function diagnostic(
+  code: DiagnosticCode,
+  message: string,
+  span: SourceSpan,
+  severity: ValidationError['severity'] = 'error',
+  related?: ValidationError['related']
+): ValidationError {
+  return related ? { code, message, span, severity, related } : { code, message, span, severity };
+}
+
+function readSource(path: string): string | undefined {
+  try {
+    return readFileSync(path, 'utf-8');
+  } catch {
+    return undefined;
+  }
+}
@@ -85,6 +85,7 @@ export interface DiscretionNode extends ASTNode {
 export type StatementNode =
   | SessionStatementNode
   | ImportStatementNode
+  | UseStatementNode
   | AgentDefinitionNode
   | BlockDefinitionNode
   | DoBlockNode
@@ -119,6 +120,8 @@ export interface SessionStatementNode extends ASTNode {
   prompt: StringLiteralNode | null;
   agent: IdentifierNode | null;
   name: IdentifierNode | null;
+  /** Shape of the output, from `returns`; null for text */
+  returns: TypeNode | null;
   properties: PropertyNode[];
   inlineComment: CommentNode | null;
 }
@@ -141,6 +144,18 @@ export interface ImportStatementNode extends ASTNode {
   source: StringLiteralNode;
 }
 
+/**
+ * Use statement: brings the agents and blocks of another .prose file into
+ * scope, under `alias.` when it has one
+ *
+ * Syntax: use "./lib/review.prose" [as review]
+ */
+export interface UseStatementNode extends ASTNode {
+  type: 'UseStatement';
+  source: StringLiteralNode;
+  alias: IdentifierNode | null;
+}
+
 /**
  * Agent definition
  */
@@ -158,6 +173,8 @@ export interface BlockDefinitionNode extends ASTNode {
   type: 'BlockDefinition';
   name: IdentifierNode;
   parameters: IdentifierNode[];
+  /** Shape of the block's result, from `returns`; null if not declared */
+  returns: TypeNode | null;
   body: StatementNode[];
 }
 
@@ -368,6 +385,39 @@ export interface AssignmentNode extends ASTNode {
   value: ExpressionNode;
 }
 
+// Output types
+
+/**
+ * The shape of a session's or block's output, declared with `returns`
+ *
+ * Syntax: string, number, boolean, T[] or { name: T, other: T }
+ */
+export type TypeNode = PrimitiveTypeNode | ArrayTypeNode | ObjectTypeNode;
+
+export interface PrimitiveTypeNode extends ASTNode {
+  type: 'PrimitiveType';
+  name: 'string' | 'number' | 'boolean';
+}
+
+export interface ArrayTypeNode extends ASTNode {
+  type: 'ArrayType';
+  element: TypeNode;
+}
+
+export interface ObjectTypeNode extends ASTNode {
+  type: 'ObjectType';
+  fields: TypeFieldNode[];
+}
+
+/**
+ * A field of an object type (e.g., steps: string[])
+ */
+export interface TypeFieldNode extends ASTNode {
+  type: 'TypeField';
+  name: IdentifierNode;
+  valueType: TypeNode;
+}
+
 // Expression types
 
 export type ExpressionNode =
@@ -495,6 +545,7 @@ export interface ASTVisitor<T = void> {
   visitDiscretion?(node: DiscretionNode): T;
   visitSession?(node: SessionStatementNode): T;
   visitImport?(node: ImportStatementNode): T;
+  visitUse?(node: UseStatementNode): T;
   visitAgentDefinition?(node: AgentDefinitionNode): T;
   visitBlockDefinition?(node: BlockDefinitionNode): T;
   visitDoBlock?(node: DoBlockNode): T;
@@ -517,6 +568,10 @@ export interface ASTVisitor<T = void> {
   visitPipeOperation?(node: PipeOperationNode): T;
   visitArrowExpression?(node: ArrowExpressionNode): T;
   visitProperty?(node: PropertyNode): T;
+  visitPrimitiveType?(node: PrimitiveTypeNode): T;
+  visitArrayType?(node: ArrayTypeNode): T;
+  visitObjectType?(node: ObjectTypeNode): T;
+  visitTypeField?(node: TypeFieldNode): T;
 }
 
 /**
@@ -544,6 +599,8 @@ export function walkAST<T>(node: ASTNode, visitor: ASTVisitor<T>): T | undefined
       return visitor.visitSession?.(node as SessionStatementNode);
     case 'ImportStatement':
       return visitor.visitImport?.(node as ImportStatementNode);
+    case 'UseStatement':
+      return visitor.visitUse?.(node as UseStatementNode);
     case 'AgentDefinition':
       return visitor.visitAgentDefinition?.(node as AgentDefinitionNode);
     case 'BlockDefinition':
@@ -588,6 +645,175 @@ export function walkAST<T>(node: ASTNode, visitor: ASTVisitor<T>): T | undefined
       return visitor.visitArrowExpression?.(node as ArrowExpressionNode);
     case 'Property':
       return visitor.visitProperty?.(node as PropertyNode);
+    case 'PrimitiveType':
+      return visitor.visitPrimitiveType?.(node as PrimitiveTypeNode);
+    case 'ArrayType':
+      return visitor.visitArrayType?.(node as ArrayTypeNode);
+    case 'ObjectType':
+      return visitor.visitObjectType?.(node as ObjectTypeNode);
+    case 'TypeField':
+      return visitor.visitTypeField?.(node as TypeFieldNode);
   }
   return undefined;
 }
+
+/** Fields of AST nodes that hold statement lists */
+const BODY_FIELDS = ['statements', 'body', 'tryBody', 'catchBody', 'finallyBody', 'thenBody', 'elseBody'];
+
+/**
+ * Get the statement lists held directly by a node
+ */
+export function getStatementLists(node: ASTNode): StatementNode[][] {
+  const fields = node as unknown as Record<string, unknown>;
+  return BODY_FIELDS
+    .map(field => fields[field])
+    .filter((value): value is StatementNode[] => Array.isArray(value));
+}
+
+/**
+ * Get the direct child nodes of a node, in source order
+ */
+export function getChildNodes(node: ASTNode): ASTNode[] {
+  const children: (ASTNode | null | undefined)[] = [];
+
+  switch (node.type) {
+    case 'Program':
+      children.push(...(node as ProgramNode).statements);
+      break;
+    case 'CommentStatement':
+      children.push((node as CommentStatementNode).comment);
+      break;
+    case 'InterpolatedString':
+      children.push(...(node as InterpolatedStringNode).parts);
+      break;
+    case 'SessionStatement': {
+      const session = node as SessionStatementNode;
+      children.push(session.name, session.agent, session.prompt, session.returns, ...session.properties, session.inlineComment);
+      break;
+    }
+    case 'Property': {
+      const prop = node as PropertyNode;
+      children.push(prop.name, prop.value);
+      break;
+    }
+    case 'ImportStatement': {
+      const importStmt = node as ImportStatementNode;
+      children.push(importStmt.skillName, importStmt.source);
+      break;
+    }
+    case 'UseStatement': {
+      const use = node as UseStatementNode;
+      children.push(use.source, use.alias);
+      break;
+    }
+    case 'ArrayType':
+      children.push((node as ArrayTypeNode).element);
+      break;
+    case 'ObjectType':
+      children.push(...(node as ObjectTypeNode).fields);
+      break;
+    case 'TypeField': {
+      const field = node as TypeFieldNode;
+      children.push(field.name, field.valueType);
+      break;
+    }
+    case 'AgentDefinition': {
+      const agent = node as AgentDefinitionNode;
+      children.push(agent.name, ...agent.properties, ...agent.body);
+      break;
+    }
+    case 'BlockDefinition': {
+      const block = node as BlockDefinitionNode;
+      children.push(block.name, ...block.parameters, block.returns, ...block.body);
+      break;
+    }
+    case 'DoBlock': {
+      const doBlock = node as DoBlockNode;
+      children.push(doBlock.name, ...doBlock.arguments, ...doBlock.body);
+      break;
+    }
+    case 'ParallelBlock': {
+      const parallel = node as ParallelBlockNode;
+      children.push(parallel.joinStrategy, parallel.anyCount, parallel.onFail, ...parallel.body);
+      break;
+    }
+    case 'LoopBlock': {
+      const loop = node as LoopBlockNode;
+      children.push(loop.condition, loop.iterationVar, loop.maxIterations, ...loop.body);
+      break;
+    }
+    case 'RepeatBlock': {
+      const repeat = node as RepeatBlockNode;
+      children.push(repeat.count, repeat.indexVar, ...repeat.body);
+      break;
+    }
+    case 'ForEachBlock': {
+      const forEach = node as ForEachBlockNode;
+      children.push(forEach.itemVar, forEach.indexVar, forEach.collection, ...forEach.modifiers, ...forEach.body);
+      break;
+    }
+    case 'TryBlock': {
+      const tryBlock = node as TryBlockNode;
+      children.push(
+        ...tryBlock.tryBody,
+        tryBlock.errorVar,
+        ...(tryBlock.catchBody ?? []),
+        ...(tryBlock.finallyBody ?? [])
+      );
+      break;
+    }
+    case 'ThrowStatement':
+      children.push((node as ThrowStatementNode).message);
+      break;
+    case 'ChoiceBlock': {
+      const choice = node as ChoiceBlockNode;
+      children.push(choice.criteria, ...choice.options);
+      break;
+    }
+    case 'ChoiceOption': {
+      const option = node as ChoiceOptionNode;
+      children.push(option.label, ...option.body);
+      break;
+    }
+    case 'IfStatement': {
+      const ifStmt = node as IfStatementNode;
+      children.push(ifStmt.condition, ...ifStmt.thenBody, ...ifStmt.elseIfClauses, ...(ifStmt.elseBody ?? []));
+      break;
+    }
+    case 'ElseIfClause': {
+      const clause = node as ElseIfClauseNode;
+      children.push(clause.condition, ...clause.body);
+      break;
+    }
+    case 'LetBinding':
+    case 'ConstBinding':
+    case 'Assignment': {
+      const binding = node as LetBindingNode | ConstBindingNode | AssignmentNode;
+      children.push(binding.name, binding.value);
+      break;
+    }
+    case 'ArrayExpression':
+      children.push(...(node as ArrayExpressionNode).elements);
+      break;
+    case 'ObjectExpression':
+      children.push(...(node as ObjectExpressionNode).properties);
+      break;
+    case 'PipeExpression': {
+      const pipe = node as PipeExpressionNode;
+      children.push(pipe.input, ...pipe.operations);
+      break;
+    }
+    case 'PipeOperation': {
+      const operation = node as PipeOperationNode;
+      children.push(operation.accVar, operation.itemVar, ...operation.body);
+      break;
+    }
+    case 'ArrowExpression': {
+      const arrow = node as ArrowExpressionNode;
+      children.push(arrow.left, arrow.right);
+      break;
+    }
+  }
+
+  return children.filter((child): child is ASTNode => child !== null && child !== undefined);
+}
@@ -0,0 +1,240 @@
+/**
+ * OpenProse Concrete Syntax Tree
+ *
+ * A lossless view of a parsed program: every character of the source is held
+ * by exactly one token or trivia item, and tokens are attached to the
+ * innermost AST node whose span contains them. Printing the tree yields the
+ * original text, byte for byte, so tools can edit one node and leave the
+ * rest of a hand-formatted file untouched.
+ *
+ * Trivia (whitespace, newlines and comments) hangs off tokens:
+ * - Trailing trivia is everything after a token up to and including the end
+ *   of its line
+ * - Leading trivia is everything else before a token (indentation, blank
+ *   lines, comment lines)
+ * Trivia after the last token belongs to the EOF token of the program.
+ */
+
+import { TokenType, SourceSpan, SourceLocation } from './tokens';
+import { tokenize } from './lexer';
+import { ASTNode, ProgramNode, getChildNodes } from './ast';
+
+export type TriviaKind = 'whitespace' | 'newline' | 'comment' | 'skipped';
+
+export interface CSTTrivia {
+  kind: TriviaKind;
+  text: string;
+  span: SourceSpan;
+}
+
+export interface CSTToken {
+  type: 'Token';
+  kind: TokenType;
+  text: string;
+  span: SourceSpan;
+  leadingTrivia: CSTTrivia[];
+  trailingTrivia: CSTTrivia[];
+}
+
+export interface CSTNode {
+  type: 'Node';
+  node: ASTNode;
+  children: CSTElement[];
+}
+
+export type CSTElement = CSTNode | CSTToken;
+
+/**
+ * Build the concrete syntax tree for a parsed program.
+ * `source` must be the text the program was parsed from.
+ */
+export function buildCST(program: ProgramNode, source: string): CSTNode {
+  const tokens = attachTrivia(scanPieces(source));
+  // The EOF token holds the trailing trivia of the file, so it always belongs to the root
+  const eof = tokens.pop()!;
+  let next = 0;
+
+  const build = (node: ASTNode, isRoot: boolean): CSTNode => {
+    const children: CSTElement[] = [];
+    const end = node.span.end.offset;
+    const childNodes = getChildNodes(node)
+      .filter(child => child.type !== 'Comment' && child.type !== 'CommentStatement')
+      .sort((a, b) => a.span.start.offset - b.span.start.offset);
+
+    for (const child of childNodes) {
+      while (next < tokens.length && tokens[next].span.start.offset < child.span.start.offset
+        && (isRoot || tokens[next].span.end.offset <= end)) {
+        children.push(tokens[next++]);
+      }
+      children.push(build(child, false));
+    }
+
+    while (next < tokens.length && (isRoot || tokens[next].span.end.offset <= end)) {
+      children.push(tokens[next++]);
+    }
+
+    return { type: 'Node', node, children };
+  };
+
+  const root = build(program, true);
+  root.children.push(eof);
+  return root;
+}
+
+/**
+ * Print a CST element back to source text
+ */
+export function printCST(element: CSTElement): string {
+  if (element.type === 'Token') {
+    return printTrivia(element.leadingTrivia) + element.text + printTrivia(element.trailingTrivia);
+  }
+  return element.children.map(printCST).join('');
+}
+
+/**
+ * Get the tokens of a CST element in source order
+ */
+export function getCSTTokens(element: CSTElement): CSTToken[] {
+  if (element.type === 'Token') {
+    return [element];
+  }
+  return element.children.flatMap(getCSTTokens);
+}
+
+/**
+ * Find the CST node wrapping an AST node
+ */
+export function findCSTNode(root: CSTNode, node: ASTNode): CSTNode | undefined {
+  if (root.node === node) {
+    return root;
+  }
+  for (const child of root.children) {
+    if (child.type === 'Node') {
+      const found = findCSTNode(child, node);
+      if (found) {
+        return found;
+      }
+    }
+  }
+  return undefined;
+}
+
+function printTrivia(trivia: CSTTrivia[]): string {
+  return trivia.map(item => item.text).join('');
+}
+
+/**
+ * A token or trivia item, before trivia is attached to tokens
+ */
+type Piece =
+  | { trivia: false; kind: TokenType; span: SourceSpan; text: string }
+  | { trivia: true; kind: TriviaKind; span: SourceSpan; text: string };
+
+/**
+ * Split the source into tokens and trivia covering every character.
+ * Text the lexer skipped or rejected becomes 'skipped' trivia.
+ */
+function scanPieces(source: string): Piece[] {
+  const pieces: Piece[] = [];
+  const { tokens } = tokenize(source, { includeComments: true, includeTrivia: true });
+  let offset = 0;
+  let location: SourceLocation = { line: 1, column: 1, offset: 0 };
+
+  const push = (kind: TokenType | TriviaKind, trivia: boolean, start: number, end: number) => {
+    const text = source.slice(start, end);
+    const span = { start: location, end: advance(location, text) };
+    pieces.push({ trivia, kind, span, text } as Piece);
+    location = span.end;
+    offset = end;
+  };
+
+  for (const token of tokens) {
+    const start = token.span.start.offset;
+    const end = token.span.end.offset;
+    if (token.type === TokenType.EOF) {
+      break;
+    }
+    if (end <= start || start < offset) {
+      // Layout tokens are zero-width; overlapping tokens add no new text
+      continue;
+    }
+    if (start > offset) {
+      push('skipped', true, offset, start);
+    }
+    push(...classify(token.type), start, end);
+  }
+
+  if (offset < source.length) {
+    push('skipped', true, offset, source.length);
+  }
+  push(TokenType.EOF, false, offset, offset);
+
+  return pieces;
+}
+
+function classify(type: TokenType): [TokenType | TriviaKind, boolean] {
+  switch (type) {
+    case TokenType.WHITESPACE:
+      return ['whitespace', true];
+    case TokenType.NEWLINE:
+      return ['newline', true];
+    case TokenType.COMMENT:
+      return ['comment', true];
+    default:
+      return [type, false];
+  }
+}
+
+/**
+ * Attach trivia pieces to the tokens around them
+ */
+function attachTrivia(pieces: Piece[]): CSTToken[] {
+  const tokens: CSTToken[] = [];
+  let leading: CSTTrivia[] = [];
+  // Trailing trivia collects until the end of the line of the last token
+  let trailing: CSTTrivia[] | null = null;
+
+  for (const piece of pieces) {
+    if (!piece.trivia) {
+      tokens.push({
+        type: 'Token',
+        kind: piece.kind,
+        text: piece.text,
+        span: piece.span,
+        leadingTrivia: leading,
+        trailingTrivia: [],
+      });
+      leading = [];
+      trailing = tokens[tokens.length - 1].trailingTrivia;
+      continue;
+    }
+
+    const trivia: CSTTrivia = { kind: piece.kind, text: piece.text, span: piece.span };
+    if (trailing) {
+      trailing.push(trivia);
+      if (piece.kind === 'newline') {
+        trailing = null;
+      }
+    } else {
+      leading.push(trivia);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Location after a run of text starting at `start`
+ */
+function advance(start: SourceLocation, text: string): SourceLocation {
+  let { line, column } = start;
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+  return { line, column, offset: start.offset + text.length };
+}
@@ -6,6 +6,7 @@
  * - Token types
  * - AST node types
  * - Parser
+ * - Lossless concrete syntax tree
  */
 
 // Token types and utilities (types)
@@ -57,6 +58,7 @@ export type {
   SessionStatementNode,
   PropertyNode,
   ImportStatementNode,
+  UseStatementNode,
   AgentDefinitionNode,
   BlockDefinitionNode,
   DoBlockNode,
@@ -79,6 +81,11 @@ export type {
   PipeExpressionNode,
   PipeOperationNode,
   ArrowExpressionNode,
+  TypeNode,
+  PrimitiveTypeNode,
+  ArrayTypeNode,
+  ObjectTypeNode,
+  TypeFieldNode,
   ASTVisitor,
 } from './ast';
 
@@ -87,12 +94,15 @@ export {
   createCommentNode,
   createProgramNode,
   walkAST,
+  getChildNodes,
+  getStatementLists,
 } from './ast';
 
 // Parser types
 export type {
   ParseResult,
   ParseError,
+  ParserOptions,
 } from './parser';
 
 // Parser class and functions
@@ -101,3 +111,20 @@ export {
   parse,
   parseComments,
 } from './parser';
+
+// Concrete syntax tree types
+export type {
+  TriviaKind,
+  CSTTrivia,
+  CSTToken,
+  CSTNode,
+  CSTElement,
+} from './cst';
+
+// Concrete syntax tree functions
+export {
+  buildCST,
+  printCST,
+  getCSTTokens,
+  findCSTNode,
+} from './cst';
@@ -12,7 +12,7 @@ import { Token, TokenType, SourceLocation, SourceSpan, KEYWORDS, StringTokenMeta
 export interface LexerOptions {
   /** Whether to include comments in the token stream (default: true) */
   includeComments?: boolean;
-  /** Whether to include trivia tokens (default: false) */
+  /** Whether to include whitespace trivia tokens and full-width newlines (default: false) */
   includeTrivia?: boolean;
 }
 
@@ -85,7 +85,23 @@ export class Lexer {
 
     // Skip horizontal whitespace (not at start of line)
     if (c === ' ' || c === '\t') {
-      this.advance();
+      if (this.options.includeTrivia) {
+        this.scanWhitespace();
+      } else {
+        this.advance();
+      }
+      return;
+    }
+
+    // With trivia, newline tokens cover the line break characters
+    if ((c === '\n' || c === '\r') && this.options.includeTrivia) {
+      const start = this.currentLocation();
+      if (this.advance() === '\r' && this.peek() === '\n') {
+        this.advance();
+      }
+      this.addTokenAt(TokenType.NEWLINE, '\n', start);
+      this.line++;
+      this.column = 1;
       return;
     }
 
@@ -191,6 +207,7 @@ export class Lexer {
    */
   private handleIndentation(): void {
     let indent = 0;
+    const start = this.currentLocation();
     const startPos = this.pos;
 
     while (!this.isAtEnd() && (this.peek() === ' ' || this.peek() === '\t')) {
@@ -203,6 +220,10 @@ export class Lexer {
       this.advance();
     }
 
+    if (this.options.includeTrivia && this.pos > startPos) {
+      this.addTokenAt(TokenType.WHITESPACE, this.source.slice(startPos, this.pos), start, true);
+    }
+
     // Skip empty lines (but NOT comment-only lines - they need proper indentation)
     if (this.isAtEnd() || this.peek() === '\n' || this.peek() === '\r') {
       return;
@@ -225,6 +246,20 @@ export class Lexer {
     }
   }
 
+  /**
+   * Scan a run of spaces and tabs as a trivia token
+   */
+  private scanWhitespace(): void {
+    const start = this.currentLocation();
+    let value = '';
+
+    while (!this.isAtEnd() && (this.peek() === ' ' || this.peek() === '\t')) {
+      value += this.advance();
+    }
+
+    this.addTokenAt(TokenType.WHITESPACE, value, start, true);
+  }
+
   /**
    * Scan a comment (# to end of line)
    */
@@ -648,6 +683,12 @@ export class Lexer {
       }
       value += this.peek();
       this.advance();
+
+      // A name from a module used with a namespace: review.critic
+      if (this.peek() === '.' && this.isAlpha(this.peekNext() || '')) {
+        value += this.peek();
+        this.advance();
+      }
     }
 
     // Check if it's a keyword
@@ -11,6 +11,7 @@
 
 import { Token, TokenType, SourceSpan } from './tokens';
 import { Lexer, LexerResult } from './lexer';
+import { CSTNode, buildCST } from './cst';
 import {
   ASTNode,
   ProgramNode,
@@ -20,6 +21,7 @@ import {
   SessionStatementNode,
   AgentDefinitionNode,
   ImportStatementNode,
+  UseStatementNode,
   PropertyNode,
   StringLiteralNode,
   NumberLiteralNode,
@@ -48,6 +50,9 @@ import {
   ChoiceOptionNode,
   IfStatementNode,
   ElseIfClauseNode,
+  TypeNode,
+  PrimitiveTypeNode,
+  TypeFieldNode,
   createProgramNode,
   createCommentNode,
 } from './ast';
@@ -55,6 +60,13 @@ import {
 export interface ParseResult {
   program: ProgramNode;
   errors: ParseError[];
+  /** Lossless concrete syntax tree (only with the `lossless` option) */
+  cst?: CSTNode;
+}
+
+export interface ParserOptions {
+  /** Also build a concrete syntax tree that prints back to the exact source (default: false) */
+  lossless?: boolean;
 }
 
 export interface ParseError {
@@ -62,13 +74,16 @@ export interface ParseError {
   span: SourceSpan;
 }
 
+/** Names of the primitive output types */
+const PRIMITIVE_TYPES: readonly string[] = ['string', 'number', 'boolean'];
+
 export class Parser {
   private tokens: Token[] = [];
   private current: number = 0;
   private errors: ParseError[] = [];
   private comments: CommentNode[] = [];
 
-  constructor(private source: string) {}
+  constructor(private source: string, private options: ParserOptions = {}) {}
 
   /**
    * Parse the source code into an AST
@@ -107,6 +122,7 @@ export class Parser {
     return {
       program,
       errors: this.errors,
+      ...(this.options.lossless ? { cst: buildCST(program, this.source) } : {}),
     };
   }
 
@@ -153,6 +169,11 @@ export class Parser {
       return this.parseImportStatement();
     }
 
+    // Handle use keyword
+    if (this.check(TokenType.USE)) {
+      return this.parseUseStatement();
+    }
+
     // Handle agent keyword
     if (this.check(TokenType.AGENT)) {
       return this.parseAgentDefinition();
@@ -389,6 +410,49 @@ export class Parser {
     };
   }
 
+  /**
+   * Parse a use statement
+   * Syntax: use "./path.prose" [as name]
+   */
+  private parseUseStatement(): UseStatementNode {
+    const useToken = this.advance(); // consume 'use'
+    const start = useToken.span.start;
+
+    // Expect string literal (module path)
+    let source: StringLiteralNode;
+    if (this.check(TokenType.STRING)) {
+      source = this.createStringLiteralNode(this.advance());
+    } else {
+      this.addError('Expected module path string after "use"');
+      source = {
+        type: 'StringLiteral',
+        value: '',
+        raw: '""',
+        isTripleQuoted: false,
+        span: this.peek().span,
+      };
+    }
+
+    // Optional namespace
+    let alias: IdentifierNode | null = null;
+    if (this.match(TokenType.AS)) {
+      if (this.check(TokenType.IDENTIFIER) && !this.peek().value.includes('.')) {
+        alias = this.parseIdentifier();
+      } else {
+        this.addError('Expected namespace name after "as"');
+      }
+    }
+
+    const end = this.previous().span.end;
+
+    return {
+      type: 'UseStatement',
+      source,
+      alias,
+      span: { start, end },
+    };
+  }
+
   /**
    * Parse a let binding
    * Syntax: let name = expression
@@ -988,6 +1052,7 @@ export class Parser {
    * - session name: agent                 (named session with agent)
    * - session: agent                      (with indented properties)
    *     prompt: "..."
+   * Any of them may declare its output: session "prompt" returns <type>
    */
   private parseSessionStatement(): SessionStatementNode {
     const sessionToken = this.advance();
@@ -1011,7 +1076,7 @@ export class Parser {
 
       if (this.check(TokenType.IDENTIFIER)) {
         agent = this.parseIdentifier();
-      } else if (this.check(TokenType.NEWLINE) || this.check(TokenType.COMMENT)) {
+      } else if (this.check(TokenType.NEWLINE) || this.check(TokenType.COMMENT) || this.check(TokenType.RETURNS)) {
         // Properties-only session - no agent name, just properties block
         // Will be handled below in the property block parsing
       } else {
@@ -1037,6 +1102,8 @@ export class Parser {
       }
     }
 
+    const returns = this.parseReturns();
+
     // Check for inline comment
     if (this.check(TokenType.COMMENT)) {
       const commentToken = this.advance();
@@ -1088,12 +1155,74 @@ export class Parser {
       prompt,
       agent,
       name,
+      returns,
       properties,
       inlineComment,
       span: { start, end },
     };
   }
 
+  /**
+   * Parse an optional output type
+   * Syntax: returns <type>
+   */
+  private parseReturns(): TypeNode | null {
+    return this.match(TokenType.RETURNS) ? this.parseType() : null;
+  }
+
+  /**
+   * Parse an output type, on one line
+   * Syntax: string | number | boolean | <type>[] | { name: <type>, ... }
+   */
+  private parseType(): TypeNode {
+    const start = this.peek().span.start;
+    let type: TypeNode;
+
+    if (this.check(TokenType.LBRACE)) {
+      this.advance(); // consume '{'
+      const fields: TypeFieldNode[] = [];
+      while (!this.check(TokenType.RBRACE)) {
+        if (!(this.check(TokenType.IDENTIFIER) || this.isKeywordAsIdentifier()) || this.peek().value.includes('.')) {
+          this.addError('Expected field name in object type');
+          break;
+        }
+        const name = this.parseIdentifier();
+        if (!this.match(TokenType.COLON)) {
+          this.addError(`Expected ":" after field name "${name.name}"`);
+          break;
+        }
+        const valueType = this.parseType();
+        fields.push({ type: 'TypeField', name, valueType, span: { start: name.span.start, end: valueType.span.end } });
+        if (!this.match(TokenType.COMMA)) {
+          break;
+        }
+      }
+      if (!this.match(TokenType.RBRACE)) {
+        this.addError('Expected "}" after object type fields');
+      }
+      type = { type: 'ObjectType', fields, span: { start, end: this.previous().span.end } };
+    } else if (this.check(TokenType.IDENTIFIER) && PRIMITIVE_TYPES.includes(this.peek().value)) {
+      const token = this.advance();
+      type = { type: 'PrimitiveType', name: token.value as PrimitiveTypeNode['name'], span: token.span };
+    } else {
+      if (this.check(TokenType.IDENTIFIER)) {
+        this.addError(`Unknown type "${this.peek().value}"; expected string, number, boolean, an array or an object`);
+        this.advance();
+      } else {
+        this.addError('Expected a type after "returns"');
+      }
+      type = { type: 'PrimitiveType', name: 'string', span: this.previous().span };
+    }
+
+    // Array suffixes: string[], { ... }[][]
+    while (this.check(TokenType.LBRACKET) && this.peekNext().type === TokenType.RBRACKET) {
+      this.advance(); // consume '['
+      const close = this.advance(); // consume ']'
+      type = { type: 'ArrayType', element: type, span: { start, end: close.span.end } };
+    }
+    return type;
+  }
+
   /**
    * Parse a session statement that may be followed by -> for arrow sequences
    */
@@ -1208,7 +1337,7 @@ export class Parser {
 
   /**
    * Parse a block definition
-   * Syntax: block name:
+   * Syntax: block name[(params)] [returns <type>]:
    *           body...
    */
   private parseBlockDefinition(): BlockDefinitionNode {
@@ -1250,6 +1379,8 @@ export class Parser {
       }
     }
 
+    const returns = this.parseReturns();
+
     // Expect colon
     if (!this.match(TokenType.COLON)) {
       this.addError('Expected ":" after block name');
@@ -1305,6 +1436,7 @@ export class Parser {
       type: 'BlockDefinition',
       name,
       parameters,
+      returns,
       body,
       span: { start, end },
     };
@@ -3039,6 +3171,7 @@ export class Parser {
       TokenType.ERROR,
       TokenType.AGENT,
       TokenType.BLOCK,
+      TokenType.RETURNS,
     ];
     return keywordsAsIdentifiers.includes(this.peek().type);
   }
@@ -3078,8 +3211,8 @@ export class Parser {
 /**
  * Parse source code into an AST
  */
-export function parse(source: string): ParseResult {
-  const parser = new Parser(source);
+export function parse(source: string, options: ParserOptions = {}): ParseResult {
+  const parser = new Parser(source, options);
   return parser.parse();
 }
 
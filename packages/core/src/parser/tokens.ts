@@ -14,6 +14,8 @@ export enum TokenType {
   // Keywords
   IMPORT = 'IMPORT',
   FROM = 'FROM',
+  USE = 'USE',
+  RETURNS = 'RETURNS',
   AGENT = 'AGENT',
   SESSION = 'SESSION',
   MODEL = 'MODEL',
@@ -67,6 +69,7 @@ export enum TokenType {
   MULTILINE_DISCRETION = 'MULTILINE_DISCRETION',  // ***...***
 
   // Whitespace and structure
+  WHITESPACE = 'WHITESPACE',  // Spaces and tabs (only with includeTrivia)
   NEWLINE = 'NEWLINE',
   INDENT = 'INDENT',
   DEDENT = 'DEDENT',
@@ -139,6 +142,8 @@ export interface Token {
 export const KEYWORDS: Record<string, TokenType> = {
   'import': TokenType.IMPORT,
   'from': TokenType.FROM,
+  'use': TokenType.USE,
+  'returns': TokenType.RETURNS,
   'agent': TokenType.AGENT,
   'session': TokenType.SESSION,
   'model': TokenType.MODEL,
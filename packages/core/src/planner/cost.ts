@@ -0,0 +1,223 @@
+/**
+ * OpenProse Cost Estimation
+ *
+ * Prices the tokens of an execution plan per model, and checks the plan
+ * against a budget. Prices are in US dollars per million tokens, and can be
+ * overridden in a config file:
+ *
+ *   {
+ *     "prices": { "opus": { "input": 15, "output": 75 } },
+ *     "budget": { "cost": 2.5, "tokens": 500000, "sessions": 40 }
+ *   }
+ *
+ * A budget bounds the worst case, so a program whose worst case is
+ * unbounded - a loop without `max`, a list only known at run time - is
+ * over any budget.
+ */
+
+import { SourceSpan } from '../parser/tokens';
+import { DEFAULT_MODEL, Estimate, ExecutionPlan, PlanStep, SessionCount } from './planner';
+
+/**
+ * Price of a model, in dollars per million tokens
+ */
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+export const DEFAULT_PRICES: PriceTable = {
+  haiku: { input: 1, output: 5 },
+  sonnet: { input: 3, output: 15 },
+  opus: { input: 15, output: 75 },
+};
+
+/**
+ * Limits on what a run may use; all are optional
+ */
+export interface Budget {
+  /** Dollars */
+  cost?: number;
+  /** Input and output tokens */
+  tokens?: number;
+  sessions?: number;
+}
+
+export const BUDGET_LIMITS: readonly (keyof Budget)[] = ['cost', 'tokens', 'sessions'];
+
+export interface CostOptions {
+  /** Prices by model, over the defaults */
+  prices?: PriceTable;
+  /** Model sessions without one run on (default: sonnet) */
+  defaultModel?: string;
+}
+
+export interface ModelCost {
+  model: string;
+  sessions: SessionCount;
+  inputTokens: Estimate;
+  outputTokens: Estimate;
+  /** Dollars; zero for a model without a price */
+  cost: Estimate;
+}
+
+export interface CostEstimate {
+  models: ModelCost[];
+  tokens: Estimate;
+  cost: Estimate;
+}
+
+/**
+ * A budget limit the worst case exceeds
+ */
+export interface BudgetViolation {
+  limit: keyof Budget;
+  message: string;
+  /** The step whose worst case is unbounded, if that is why */
+  step?: PlanStep;
+}
+
+/**
+ * Price the tokens of a plan
+ */
+export function estimateCost(plan: ExecutionPlan, options: CostOptions = {}): CostEstimate {
+  const prices = { ...DEFAULT_PRICES, ...options.prices };
+  const defaultModel = options.defaultModel ?? 'sonnet';
+
+  const models = plan.tokens.map(({ model, input, output }): ModelCost => {
+    const price = prices[model === DEFAULT_MODEL ? defaultModel : model] ?? { input: 0, output: 0 };
+    const sessions = plan.models.find(usage => usage.model === model)?.sessions ?? { min: 0, max: 0 };
+    return {
+      model,
+      sessions,
+      inputTokens: input,
+      outputTokens: output,
+      cost: add(scale(input, price.input / 1e6), scale(output, price.output / 1e6)),
+    };
+  });
+
+  return {
+    models,
+    tokens: models.reduce((total, model) => add(total, add(model.inputTokens, model.outputTokens)), ZERO),
+    cost: models.reduce((total, model) => add(total, model.cost), ZERO),
+  };
+}
+
+/**
+ * The budget limits a plan's worst case exceeds
+ */
+export function checkBudget(plan: ExecutionPlan, estimate: CostEstimate, budget: Budget): BudgetViolation[] {
+  const worst: Record<keyof Budget, number | null> = {
+    cost: estimate.cost.max,
+    tokens: estimate.tokens.max,
+    sessions: plan.sessions.max,
+  };
+
+  const violations: BudgetViolation[] = [];
+  for (const limit of BUDGET_LIMITS) {
+    const allowed = budget[limit];
+    const value = worst[limit];
+    if (allowed === undefined) {
+      continue;
+    }
+    if (value === null) {
+      const step = unboundedStep(plan.steps);
+      const cause = step ? `: ${step.label} at line ${step.span.start.line} has no bound` : '';
+      violations.push({
+        limit,
+        message: `The worst case is unbounded, so it may exceed the budget of ${formatLimit(limit, allowed)}${cause}`,
+        step,
+      });
+    } else if (value > allowed) {
+      violations.push({
+        limit,
+        message: `The worst case uses ${formatLimit(limit, value)}, over the budget of ${formatLimit(limit, allowed)}`,
+      });
+    }
+  }
+  return violations;
+}
+
+/**
+ * Where a budget violation should be reported: the unbounded step, or the
+ * top-level step with the most sessions
+ */
+export function violationSpan(plan: ExecutionPlan, violation: BudgetViolation): SourceSpan | null {
+  if (violation.step) {
+    return violation.step.span;
+  }
+  const largest = [...plan.steps].sort((a, b) => (b.sessions.max ?? Infinity) - (a.sessions.max ?? Infinity))[0];
+  return largest?.span ?? null;
+}
+
+/**
+ * Render a cost estimate as text
+ */
+export function formatCostEstimate(estimate: CostEstimate): string {
+  const lines = ['Estimated cost (best / expected / worst):'];
+  const row = (name: string, cost: Estimate, tokens: string) =>
+    `  ${name.padEnd(12)} ${formatEstimate(cost, formatDollars).padEnd(28)} ${tokens}`;
+
+  for (const model of estimate.models) {
+    const input = formatEstimate(model.inputTokens, formatTokens);
+    const output = formatEstimate(model.outputTokens, formatTokens);
+    lines.push(row(model.model, model.cost, `input ${input}, output ${output} tokens`));
+  }
+  lines.push(row('total', estimate.cost, `${formatEstimate(estimate.tokens, formatTokens)} tokens`));
+  return lines.join('\n') + '\n';
+}
+
+const ZERO: Estimate = { min: 0, expected: 0, max: 0 };
+
+function add(a: Estimate, b: Estimate): Estimate {
+  return {
+    min: a.min + b.min,
+    expected: a.expected + b.expected,
+    max: a.max === null || b.max === null ? null : a.max + b.max,
+  };
+}
+
+function scale(estimate: Estimate, factor: number): Estimate {
+  return {
+    min: estimate.min * factor,
+    expected: estimate.expected * factor,
+    max: estimate.max === null ? null : estimate.max * factor,
+  };
+}
+
+/**
+ * The innermost step without an upper bound
+ */
+function unboundedStep(steps: PlanStep[]): PlanStep | undefined {
+  for (const step of steps) {
+    if (step.sessions.max === null) {
+      return unboundedStep(step.children) ?? step;
+    }
+  }
+  return undefined;
+}
+
+function formatEstimate(estimate: Estimate, format: (n: number) => string): string {
+  return `${format(estimate.min)} / ${format(estimate.expected)} / ${estimate.max === null ? 'unbounded' : format(estimate.max)}`;
+}
+
+function formatLimit(limit: keyof Budget, value: number): string {
+  switch (limit) {
+    case 'cost':
+      return formatDollars(value);
+    case 'tokens':
+      return `${formatTokens(value)} tokens`;
+    case 'sessions':
+      return `${value} session${value === 1 ? '' : 's'}`;
+  }
+}
+
+function formatDollars(value: number): string {
+  return `$${value.toFixed(2)}`;
+}
+
+function formatTokens(value: number): string {
+  return Math.round(value).toLocaleString('en-US');
+}
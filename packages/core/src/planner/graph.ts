@@ -0,0 +1,522 @@
+/**
+ * OpenProse Dataflow Graph
+ *
+ * Builds the graph of what feeds what in a program. Each session is a node,
+ * and each parallel block, `parallel for` and `pmap` adds a fork node that
+ * fans out to its branches and a join node they fan in to. Edges follow the
+ * data:
+ *
+ * - `context`: a variable named in `context:` or interpolated into a
+ *   prompt, from the sessions that produced it
+ * - `previous`: the previous output, which a session without `context:`
+ *   receives
+ * - `arrow`: the left side of `a -> b` into the right
+ * - `pipe`: the items of a pipe stage, from the stage before
+ * - `fan-out` and `fan-in`: from a fork to its branches, and from the
+ *   branches to the join
+ *
+ * Loops, conditionals, `try`, `do` and pipe stages group the nodes inside
+ * them. A loop body appears once, and what it assigns is not fed back to
+ * its start, so the graph has no cycles; nodes are in an order where every
+ * edge goes forwards.
+ */
+
+import {
+  ProgramNode,
+  StatementNode,
+  ExpressionNode,
+  SessionStatementNode,
+  ParallelBlockNode,
+  ForEachBlockNode,
+  PipeExpressionNode,
+  DoBlockNode,
+  BlockDefinitionNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { PlanStepKind, describeCollection, propertyWord, sessionLabel } from './planner';
+
+export type GraphNodeKind = 'session' | 'fork' | 'join';
+
+export interface GraphNode {
+  /** "n1", "n2", ... */
+  id: string;
+  kind: GraphNodeKind;
+  label: string;
+  span: SourceSpan;
+  /** Innermost group the node is in */
+  group: string | null;
+}
+
+export type GraphGroupKind = Exclude<PlanStepKind, 'session'>;
+
+/**
+ * A block, drawn around the nodes inside it
+ */
+export interface GraphGroup {
+  /** "g1", "g2", ... */
+  id: string;
+  kind: GraphGroupKind;
+  label: string;
+  span: SourceSpan;
+  parent: string | null;
+}
+
+export type GraphEdgeKind = 'context' | 'previous' | 'arrow' | 'pipe' | 'fan-out' | 'fan-in';
+
+export interface GraphEdge {
+  from: string;
+  to: string;
+  kind: GraphEdgeKind;
+  /** The variable the data flows through, for context and pipe edges */
+  variable?: string;
+}
+
+export interface DataflowGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  groups: GraphGroup[];
+}
+
+export type GraphFormat = 'dot' | 'mermaid' | 'json';
+
+export const GRAPH_FORMATS: readonly GraphFormat[] = ['dot', 'mermaid', 'json'];
+
+/**
+ * The nodes a variable's value came from
+ */
+interface Binding {
+  producers: string[];
+  /** Bound to the items of a pipe stage */
+  pipe: boolean;
+}
+
+interface Flow {
+  group: string | null;
+  /** Nodes the previous output came from, and how it is passed on */
+  previous: string[];
+  previousKind: 'previous' | 'arrow';
+}
+
+export class GraphBuilder {
+  private readonly nodes: GraphNode[] = [];
+  private readonly edges: GraphEdge[] = [];
+  private readonly groups: GraphGroup[] = [];
+  private readonly blocks: Map<string, BlockDefinitionNode> = new Map();
+  /** Blocks being expanded, to stop at recursion */
+  private readonly calling: string[] = [];
+  private bindings: Map<string, Binding> = new Map();
+
+  constructor(private program: ProgramNode) {
+    for (const statement of program.statements) {
+      if (statement.type === 'BlockDefinition') {
+        this.blocks.set(statement.name.name, statement);
+      }
+    }
+  }
+
+  public build(): DataflowGraph {
+    this.walkBody(this.program.statements, { group: null, previous: [], previousKind: 'previous' });
+    return { nodes: this.nodes, edges: this.edges, groups: this.groups };
+  }
+
+  // ========== Statements ==========
+
+  /**
+   * Walk statements in order, returning the producers of the last value
+   */
+  private walkBody(statements: StatementNode[], flow: Flow): string[] {
+    const body = { ...flow };
+    let last: string[] = [];
+    for (const statement of statements) {
+      const value = this.walkStatement(statement, body);
+      if (value) {
+        last = value;
+        body.previous = value;
+        body.previousKind = 'previous';
+      }
+    }
+    return last;
+  }
+
+  /**
+   * Walk a statement, returning the producers of its value, or undefined
+   * for statements without one
+   */
+  private walkStatement(statement: StatementNode, flow: Flow): string[] | undefined {
+    switch (statement.type) {
+      case 'LetBinding':
+      case 'ConstBinding':
+      case 'Assignment': {
+        const value = this.walkExpression(statement.value, flow);
+        this.bindings.set(statement.name.name, { producers: value, pipe: false });
+        return value;
+      }
+      case 'CommentStatement':
+      case 'ImportStatement':
+      case 'UseStatement':
+      case 'AgentDefinition':
+      case 'BlockDefinition':
+      case 'ThrowStatement':
+        return undefined;
+      default:
+        return this.walkExpression(statement, flow);
+    }
+  }
+
+  private walkExpression(expr: ExpressionNode, flow: Flow): string[] {
+    switch (expr.type) {
+      case 'SessionStatement':
+        return this.walkSession(expr, flow);
+      case 'Identifier':
+        return this.bindings.get(expr.name)?.producers ?? [];
+      case 'ArrayExpression':
+        return unique(expr.elements.flatMap(element => this.walkExpression(element, flow)));
+      case 'ObjectExpression':
+        return unique(expr.properties.flatMap(property => this.walkExpression(property.value, flow)));
+      case 'ArrowExpression': {
+        const left = this.walkExpression(expr.left, flow);
+        return this.walkExpression(expr.right, { ...flow, previous: left, previousKind: 'arrow' });
+      }
+      case 'PipeExpression':
+        return this.walkPipe(expr, flow);
+      case 'ParallelBlock':
+        return this.walkParallel(expr, flow);
+      case 'ForEachBlock':
+        return this.walkForEach(expr, flow);
+      case 'LoopBlock': {
+        const condition = expr.condition ? ` ${expr.variant} **${expr.condition.expression.trim()}**` : '';
+        const max = expr.maxIterations ? ` (max: ${expr.maxIterations.value})` : '';
+        return this.walkBody(expr.body, this.enter('loop', `loop${condition}${max}`, expr.span, flow));
+      }
+      case 'RepeatBlock': {
+        const count = expr.count.type === 'NumberLiteral' ? expr.count.value : expr.count.name;
+        return this.walkBody(expr.body, this.enter('repeat', `repeat ${count}`, expr.span, flow));
+      }
+      case 'IfStatement': {
+        const inner = this.enter('if', 'if', expr.span, flow);
+        const branches = [
+          { label: `if **${expr.condition.expression.trim()}**`, body: expr.thenBody, span: expr.span },
+          ...expr.elseIfClauses.map(clause => ({ label: `elif **${clause.condition.expression.trim()}**`, ...clause })),
+          ...(expr.elseBody ? [{ label: 'else', body: expr.elseBody, span: expr.span }] : []),
+        ];
+        return this.alternatives(branches, inner, expr.elseBody === null);
+      }
+      case 'ChoiceBlock': {
+        const inner = this.enter('choice', `choice **${expr.criteria.expression.trim()}**`, expr.span, flow);
+        const options = expr.options.map(option => ({ label: `option "${option.label.value}"`, body: option.body, span: option.span }));
+        return this.alternatives(options, inner, false);
+      }
+      case 'TryBlock': {
+        const inner = this.enter('try', 'try', expr.span, flow);
+        const value = this.alternatives([
+          { label: 'try', body: expr.tryBody, span: expr.span },
+          ...(expr.catchBody ? [{ label: 'catch', body: expr.catchBody, span: expr.span }] : []),
+        ], inner, false);
+        if (expr.finallyBody) {
+          this.walkBody(expr.finallyBody, this.enter('branch', 'finally', expr.span, inner));
+        }
+        return value;
+      }
+      case 'DoBlock':
+        return this.walkDo(expr, flow);
+      default:
+        return [];
+    }
+  }
+
+  private walkSession(session: SessionStatementNode, flow: Flow): string[] {
+    const id = this.addNode('session', sessionLabel(session), session.span, flow.group);
+
+    const contextProperty = session.properties.find(prop => prop.name.name === 'context');
+    if (contextProperty) {
+      for (const name of referencedNames(contextProperty.value)) {
+        this.link(name, id);
+      }
+    } else {
+      for (const producer of flow.previous) {
+        this.addEdge(producer, id, flow.previousKind);
+      }
+    }
+
+    const prompt = propertyWord(session.properties, 'prompt') ?? session.prompt?.value ?? '';
+    for (const [, name] of prompt.matchAll(/\{(\w+)(?:\.\w+)*\}/g)) {
+      this.link(name, id);
+    }
+    return [id];
+  }
+
+  private walkParallel(parallel: ParallelBlockNode, flow: Flow): string[] {
+    const modifiers = [
+      parallel.joinStrategy ? `"${parallel.joinStrategy.value}"` : null,
+      parallel.anyCount ? `count: ${parallel.anyCount.value}` : null,
+      parallel.onFail ? `on-fail: "${parallel.onFail.value}"` : null,
+    ].filter(Boolean);
+    const inner = this.enter('parallel', `parallel${modifiers.length > 0 ? ` (${modifiers.join(', ')})` : ''}`, parallel.span, flow);
+
+    const branches = parallel.body
+      .filter(statement => statement.type !== 'CommentStatement')
+      .map(statement => (branch: Flow) => this.walkStatement(statement, branch) ?? []);
+    return this.fork(parallel.span, branches, inner);
+  }
+
+  private walkForEach(forEach: ForEachBlockNode, flow: Flow): string[] {
+    const collection = this.walkExpression(forEach.collection, flow);
+    const label = `${forEach.isParallel ? 'parallel for' : 'for'} ${forEach.itemVar.name} in ${describeCollection(forEach.collection)}`;
+    const inner = this.enter('for-each', label, forEach.span, flow);
+
+    this.bindings.set(forEach.itemVar.name, { producers: collection, pipe: false });
+    if (forEach.indexVar) {
+      this.bindings.set(forEach.indexVar.name, { producers: [], pipe: false });
+    }
+    if (!forEach.isParallel) {
+      return this.walkBody(forEach.body, inner);
+    }
+    return this.fork(forEach.span, [branch => this.walkBody(forEach.body, branch)], inner);
+  }
+
+  private walkPipe(pipe: PipeExpressionNode, flow: Flow): string[] {
+    let items = this.walkExpression(pipe.input, flow);
+    let source = describeCollection(pipe.input);
+    for (const operation of pipe.operations) {
+      const inner = this.enter('pipe', `${source} | ${operation.operator}`, operation.span, flow);
+      this.bindings.set(operation.itemVar?.name ?? 'item', { producers: items, pipe: true });
+      if (operation.accVar) {
+        this.bindings.set(operation.accVar.name, { producers: items, pipe: true });
+      }
+      const value = operation.operator === 'pmap'
+        ? this.fork(operation.span, [branch => this.walkBody(operation.body, branch)], inner)
+        : this.walkBody(operation.body, inner);
+      items = operation.operator === 'filter' ? unique([...items, ...value]) : value;
+      source = '...';
+    }
+    return items;
+  }
+
+  private walkDo(doBlock: DoBlockNode, flow: Flow): string[] {
+    if (!doBlock.name) {
+      return this.walkBody(doBlock.body, this.enter('do', 'do', doBlock.span, flow));
+    }
+
+    const name = doBlock.name.name;
+    const block = this.blocks.get(name);
+    if (!block || this.calling.includes(name)) {
+      return [];
+    }
+    const inner = this.enter('do', `do ${name}`, doBlock.span, flow);
+    block.parameters.forEach((parameter, index) => {
+      const argument = doBlock.arguments[index];
+      this.bindings.set(parameter.name, { producers: argument ? this.walkExpression(argument, flow) : [], pipe: false });
+    });
+    this.calling.push(name);
+    const value = this.walkBody(block.body, inner);
+    this.calling.pop();
+    return value;
+  }
+
+  // ========== Helpers ==========
+
+  /**
+   * Walk branches between a fork node and a join node
+   */
+  private fork(span: SourceSpan, branches: ((flow: Flow) => string[])[], flow: Flow): string[] {
+    const fork = this.addNode('fork', 'fork', span, flow.group);
+    const values: string[] = [];
+    for (const branch of branches) {
+      const first = this.nodes.length;
+      values.push(...branch(flow));
+      for (const entry of this.entries(first)) {
+        this.addEdge(fork, entry, 'fan-out');
+      }
+    }
+    const join = this.addNode('join', 'join', span, flow.group);
+    for (const value of unique(values)) {
+      this.addEdge(value, join, 'fan-in');
+    }
+    return [join];
+  }
+
+  /**
+   * Walk bodies of which one runs, merging what each binds; `mayRunNone`
+   * keeps the bindings from before when no body may run
+   */
+  private alternatives(bodies: { label: string; body: StatementNode[]; span: SourceSpan }[], flow: Flow, mayRunNone: boolean): string[] {
+    const before = this.bindings;
+    const outcomes: Map<string, Binding>[] = mayRunNone ? [before] : [];
+    const values: string[] = [];
+    for (const { label, body, span } of bodies) {
+      this.bindings = new Map(before);
+      values.push(...this.walkBody(body, this.enter('branch', label, span, flow)));
+      outcomes.push(this.bindings);
+    }
+
+    this.bindings = new Map(before);
+    for (const outcome of outcomes) {
+      for (const [name, binding] of outcome) {
+        const merged = this.bindings.get(name);
+        this.bindings.set(name, merged && merged !== binding
+          ? { producers: unique([...merged.producers, ...binding.producers]), pipe: merged.pipe && binding.pipe }
+          : binding);
+      }
+    }
+    return unique(values);
+  }
+
+  /**
+   * Start a group, returning the flow inside it
+   */
+  private enter(kind: GraphGroupKind, label: string, span: SourceSpan, flow: Flow): Flow {
+    const id = `g${this.groups.length + 1}`;
+    this.groups.push({ id, kind, label, span, parent: flow.group });
+    return { ...flow, group: id };
+  }
+
+  /**
+   * Nodes added since `first` with no edge from another of them
+   */
+  private entries(first: number): string[] {
+    const added = new Set(this.nodes.slice(first).map(node => node.id));
+    return [...added].filter(id => !this.edges.some(edge => edge.to === id && added.has(edge.from)));
+  }
+
+  private link(name: string, to: string): void {
+    const binding = this.bindings.get(name);
+    for (const producer of binding?.producers ?? []) {
+      this.addEdge(producer, to, binding?.pipe ? 'pipe' : 'context', name);
+    }
+  }
+
+  private addNode(kind: GraphNodeKind, label: string, span: SourceSpan, group: string | null): string {
+    const id = `n${this.nodes.length + 1}`;
+    this.nodes.push({ id, kind, label, span, group });
+    return id;
+  }
+
+  private addEdge(from: string, to: string, kind: GraphEdgeKind, variable?: string): void {
+    const duplicate = this.edges.some(edge => edge.from === from && edge.to === to && edge.kind === kind && edge.variable === variable);
+    if (!duplicate) {
+      this.edges.push(variable === undefined ? { from, to, kind } : { from, to, kind, variable });
+    }
+  }
+}
+
+/**
+ * Build the dataflow graph of a program
+ */
+export function buildGraph(program: ProgramNode): DataflowGraph {
+  return new GraphBuilder(program).build();
+}
+
+/**
+ * Render a graph in Graphviz DOT
+ */
+export function formatDot(graph: DataflowGraph, title = 'program'): string {
+  const lines = [`digraph ${dotString(title)} {`, '  rankdir=TB;', '  node [shape=box];'];
+  const renderGroup = (group: string | null, indent: string) => {
+    for (const child of graph.groups.filter(candidate => candidate.parent === group)) {
+      lines.push(`${indent}subgraph cluster_${child.id} {`, `${indent}  label=${dotString(child.label)};`);
+      renderGroup(child.id, `${indent}  `);
+      lines.push(`${indent}}`);
+    }
+    for (const node of graph.nodes.filter(candidate => candidate.group === group)) {
+      const shape = node.kind === 'session' ? '' : ', shape=ellipse';
+      lines.push(`${indent}${node.id} [label=${dotString(node.label)}${shape}];`);
+    }
+  };
+  renderGroup(null, '  ');
+
+  for (const edge of graph.edges) {
+    const attributes = [
+      edge.variable !== undefined ? `label=${dotString(edge.variable)}` : null,
+      DOT_EDGE_STYLES[edge.kind],
+    ].filter(Boolean);
+    lines.push(`  ${edge.from} -> ${edge.to}${attributes.length > 0 ? ` [${attributes.join(', ')}]` : ''};`);
+  }
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a graph as a Mermaid flowchart
+ */
+export function formatMermaid(graph: DataflowGraph): string {
+  const lines = ['flowchart TD'];
+  const renderGroup = (group: string | null, indent: string) => {
+    for (const child of graph.groups.filter(candidate => candidate.parent === group)) {
+      lines.push(`${indent}subgraph ${child.id} [${mermaidString(child.label)}]`);
+      renderGroup(child.id, `${indent}  `);
+      lines.push(`${indent}end`);
+    }
+    for (const node of graph.nodes.filter(candidate => candidate.group === group)) {
+      const label = mermaidString(node.label);
+      lines.push(`${indent}${node.id}${node.kind === 'session' ? `[${label}]` : `([${label}])`}`);
+    }
+  };
+  renderGroup(null, '  ');
+
+  for (const edge of graph.edges) {
+    const arrow = MERMAID_ARROWS[edge.kind];
+    const label = edge.variable !== undefined ? `|${mermaidString(edge.variable)}|` : '';
+    lines.push(`  ${edge.from} ${arrow}${label} ${edge.to}`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+/**
+ * Render a graph in a format
+ */
+export function formatGraph(graph: DataflowGraph, format: GraphFormat, title?: string): string {
+  switch (format) {
+    case 'dot':
+      return formatDot(graph, title);
+    case 'mermaid':
+      return formatMermaid(graph);
+    case 'json':
+      return JSON.stringify(graph, null, 2) + '\n';
+  }
+}
+
+const DOT_EDGE_STYLES: Record<GraphEdgeKind, string | null> = {
+  context: null,
+  previous: 'style=dashed',
+  arrow: 'style=bold',
+  pipe: 'style=bold',
+  'fan-out': 'style=dotted',
+  'fan-in': 'style=dotted',
+};
+
+const MERMAID_ARROWS: Record<GraphEdgeKind, string> = {
+  context: '-->',
+  previous: '-.->',
+  arrow: '==>',
+  pipe: '==>',
+  'fan-out': '-->',
+  'fan-in': '-->',
+};
+
+/**
+ * Variables a context value names: `a`, `[a, b]` or `{ a, b }`
+ */
+function referencedNames(expr: ExpressionNode): string[] {
+  switch (expr.type) {
+    case 'Identifier':
+      return [expr.name];
+    case 'ArrayExpression':
+      return expr.elements.flatMap(referencedNames);
+    case 'ObjectExpression':
+      return expr.properties.flatMap(property => referencedNames(property.value));
+    default:
+      return [];
+  }
+}
+
+function unique(ids: string[]): string[] {
+  return [...new Set(ids)];
+}
+
+function dotString(text: string): string {
+  return `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n')}"`;
+}
+
+function mermaidString(text: string): string {
+  return `"${text.replace(/"/g, '#quot;').replace(/\n/g, ' ')}"`;
+}
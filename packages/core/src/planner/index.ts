@@ -0,0 +1,79 @@
+/**
+ * OpenProse Planner
+ *
+ * Exports for static execution plans, dataflow graphs and parallelism
+ * analysis
+ */
+
+export type {
+  SessionCount,
+  PlanStepKind,
+  PlanStep,
+  DiscretionPoint,
+  AgentUsage,
+  ModelUsage,
+  TokenUsage,
+  Estimate,
+  ExecutionPlan,
+  PlanOptions,
+} from './planner';
+
+export {
+  Planner,
+  planProgram,
+  formatPlan,
+  formatSessionCount,
+  estimateTokens,
+  DEFAULT_MODEL,
+  DEFAULT_OUTPUT_TOKENS,
+  CHARS_PER_TOKEN,
+} from './planner';
+
+export type {
+  ModelPrice,
+  PriceTable,
+  Budget,
+  CostOptions,
+  ModelCost,
+  CostEstimate,
+  BudgetViolation,
+} from './cost';
+
+export {
+  estimateCost,
+  checkBudget,
+  violationSpan,
+  formatCostEstimate,
+  DEFAULT_PRICES,
+  BUDGET_LIMITS,
+} from './cost';
+
+export type {
+  GraphNodeKind,
+  GraphNode,
+  GraphGroupKind,
+  GraphGroup,
+  GraphEdgeKind,
+  GraphEdge,
+  DataflowGraph,
+  GraphFormat,
+} from './graph';
+
+export {
+  GraphBuilder,
+  buildGraph,
+  formatDot,
+  formatMermaid,
+  formatGraph,
+  GRAPH_FORMATS,
+} from './graph';
+
+export type {
+  ParallelizableRun,
+  ParallelismAnalysis,
+} from './parallelism';
+
+export {
+  analyzeParallelism,
+  formatParallelism,
+} from './parallelism';
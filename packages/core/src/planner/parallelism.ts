@@ -0,0 +1,332 @@
+/**
+ * OpenProse Parallelism Analysis
+ *
+ * Reads a program's dataflow graph for how much of it can run at once:
+ *
+ * - The critical path: the longest chain of sessions that each need the
+ *   output of the one before, counting each session once. No amount of
+ *   parallelism makes a run shorter than this chain.
+ * - The maximum concurrency: the most sessions the program's parallel
+ *   blocks, `parallel for` and `pmap` run at the same time.
+ * - Parallelizable runs: consecutive sessions where none needs another's
+ *   output, which could be wrapped in `parallel:`. A session without
+ *   `context:` needs the one before it, and the last session of a run is
+ *   left out when what follows uses its output implicitly, so wrapping a
+ *   run never changes what a session receives.
+ */
+
+import {
+  getChildNodes,
+  getStatementLists,
+  ASTNode,
+  ProgramNode,
+  StatementNode,
+  ExpressionNode,
+  BlockDefinitionNode,
+  SessionStatementNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { DataflowGraph, GraphNode, buildGraph } from './graph';
+import { collectAssignments } from './planner';
+
+/**
+ * Consecutive statements whose sessions could run in parallel
+ */
+export interface ParallelizableRun {
+  /** From the start of the first statement to the end of the last */
+  span: SourceSpan;
+  statements: SourceSpan[];
+}
+
+export interface ParallelismAnalysis {
+  /** Sessions on the critical path, first to last */
+  criticalPath: GraphNode[];
+  /** Most sessions running at once; null when it depends on a list only known at run time */
+  maxConcurrency: number | null;
+  parallelizable: ParallelizableRun[];
+}
+
+/**
+ * Analyze the parallelism of a program
+ */
+export function analyzeParallelism(program: ProgramNode, graph: DataflowGraph = buildGraph(program)): ParallelismAnalysis {
+  return {
+    criticalPath: criticalPath(graph),
+    maxConcurrency: new Concurrency(program).of(program.statements),
+    parallelizable: findParallelizable(program, graph),
+  };
+}
+
+/**
+ * Render a parallelism analysis as text
+ */
+export function formatParallelism(analysis: ParallelismAnalysis): string {
+  const { criticalPath: path, maxConcurrency, parallelizable } = analysis;
+  const lines = ['Parallelism:'];
+  const pathLines = path.map(node => node.span.start.line).join(', ');
+  lines.push(`  Critical path:    ${sessionsText(path.length)}${path.length > 0 ? ` (lines ${pathLines})` : ''}`);
+  lines.push(`  Max concurrency:  ${maxConcurrency === null ? 'unbounded' : sessionsText(maxConcurrency)}`);
+  for (const run of parallelizable) {
+    lines.push(`  Could run in parallel: lines ${run.span.start.line}-${run.span.end.line} (${sessionsText(run.statements.length)})`);
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ========== Critical path ==========
+
+/**
+ * The longest chain of sessions in the graph. Nodes are in an order where
+ * every edge goes forwards, so one pass finds the longest chain ending at
+ * each node.
+ */
+function criticalPath(graph: DataflowGraph): GraphNode[] {
+  const incoming = new Map<string, string[]>();
+  for (const edge of graph.edges) {
+    incoming.set(edge.to, [...incoming.get(edge.to) ?? [], edge.from]);
+  }
+
+  const length = new Map<string, number>();
+  const via = new Map<string, string>();
+  let end: GraphNode | null = null;
+  for (const node of graph.nodes) {
+    let longest = 0;
+    for (const from of incoming.get(node.id) ?? []) {
+      const candidate = length.get(from) ?? 0;
+      if (candidate > longest) {
+        longest = candidate;
+        via.set(node.id, from);
+      }
+    }
+    length.set(node.id, longest + (node.kind === 'session' ? 1 : 0));
+    if (!end || length.get(node.id)! > length.get(end.id)!) {
+      end = node;
+    }
+  }
+
+  const byId = new Map(graph.nodes.map(node => [node.id, node]));
+  const path: GraphNode[] = [];
+  for (let id = end?.id; id !== undefined; id = via.get(id)) {
+    const node = byId.get(id)!;
+    if (node.kind === 'session') {
+      path.unshift(node);
+    }
+  }
+  return path;
+}
+
+// ========== Concurrency ==========
+
+class Concurrency {
+  private readonly blocks: Map<string, BlockDefinitionNode> = new Map();
+  /** Top-level variables bound once to a literal array */
+  private readonly lists: Map<string, number> = new Map();
+  /** Blocks being expanded, to stop at recursion */
+  private readonly calling: string[] = [];
+
+  constructor(program: ProgramNode) {
+    const assigned = new Set<string>();
+    collectAssignments(program.statements, assigned);
+    for (const statement of program.statements) {
+      if (statement.type === 'BlockDefinition') {
+        this.blocks.set(statement.name.name, statement);
+      } else if ((statement.type === 'LetBinding' || statement.type === 'ConstBinding')
+        && statement.value.type === 'ArrayExpression' && !assigned.has(statement.name.name)) {
+        this.lists.set(statement.name.name, statement.value.elements.length);
+      }
+    }
+  }
+
+  /**
+   * The most sessions statements run at once, one after another
+   */
+  public of(statements: StatementNode[]): number | null {
+    return most(statements.map(statement => this.statement(statement)));
+  }
+
+  private statement(statement: StatementNode): number | null {
+    switch (statement.type) {
+      case 'LetBinding':
+      case 'ConstBinding':
+      case 'Assignment':
+        return this.expression(statement.value);
+      case 'CommentStatement':
+      case 'ImportStatement':
+      case 'UseStatement':
+      case 'AgentDefinition':
+      case 'BlockDefinition':
+      case 'ThrowStatement':
+        return 0;
+      default:
+        return this.expression(statement);
+    }
+  }
+
+  private expression(expr: ExpressionNode): number | null {
+    switch (expr.type) {
+      case 'SessionStatement':
+        return 1;
+      case 'ArrowExpression':
+        return most([this.expression(expr.left), this.expression(expr.right)]);
+      case 'ArrayExpression':
+        return most(expr.elements.map(element => this.expression(element)));
+      case 'ParallelBlock': {
+        const branches = expr.body.map(statement => this.statement(statement));
+        return branches.includes(null) ? null : (branches as number[]).reduce((a, b) => a + b, 0);
+      }
+      case 'ForEachBlock': {
+        const body = this.of(expr.body);
+        return expr.isParallel ? times(this.itemCount(expr.collection), body) : most([this.expression(expr.collection), body]);
+      }
+      case 'PipeExpression': {
+        let items = this.itemCount(expr.input);
+        const stages = [this.expression(expr.input)];
+        for (const operation of expr.operations) {
+          const body = this.of(operation.body);
+          stages.push(operation.operator === 'pmap' ? times(items, body) : body);
+          if (operation.operator !== 'map') {
+            items = operation.operator === 'pmap' ? items : null;
+          }
+        }
+        return most(stages);
+      }
+      case 'LoopBlock':
+      case 'RepeatBlock':
+        return this.of(expr.body);
+      case 'IfStatement':
+        return most([expr.thenBody, ...expr.elseIfClauses.map(clause => clause.body), expr.elseBody ?? []].map(body => this.of(body)));
+      case 'ChoiceBlock':
+        return most(expr.options.map(option => this.of(option.body)));
+      case 'TryBlock':
+        return most([expr.tryBody, expr.catchBody ?? [], expr.finallyBody ?? []].map(body => this.of(body)));
+      case 'DoBlock': {
+        if (!expr.name) {
+          return this.of(expr.body);
+        }
+        const block = this.blocks.get(expr.name.name);
+        if (!block || this.calling.includes(block.name.name)) {
+          return 0;
+        }
+        this.calling.push(block.name.name);
+        const body = this.of(block.body);
+        this.calling.pop();
+        return body;
+      }
+      default:
+        return 0;
+    }
+  }
+
+  /**
+   * How many items a collection has, when known before the run
+   */
+  private itemCount(expr: ExpressionNode): number | null {
+    if (expr.type === 'ArrayExpression') {
+      return expr.elements.length;
+    }
+    return expr.type === 'Identifier' ? this.lists.get(expr.name) ?? null : null;
+  }
+}
+
+/**
+ * The largest of several counts; unknown if any is
+ */
+function most(counts: (number | null)[]): number | null {
+  return counts.includes(null) ? null : Math.max(0, ...(counts as number[]));
+}
+
+function times(count: number | null, each: number | null): number | null {
+  if (each === 0) {
+    return 0;
+  }
+  return count === null || each === null ? null : count * each;
+}
+
+// ========== Parallelizable runs ==========
+
+function findParallelizable(program: ProgramNode, graph: DataflowGraph): ParallelizableRun[] {
+  // A block's sessions get a node for each call of the block
+  const sessionsAt = new Map<number, string[]>();
+  for (const node of graph.nodes) {
+    if (node.kind === 'session') {
+      sessionsAt.set(node.span.start.offset, [...sessionsAt.get(node.span.start.offset) ?? [], node.id]);
+    }
+  }
+
+  const runs: ParallelizableRun[] = [];
+  forEachBody(program, body => runs.push(...findRuns(body, graph, sessionsAt)));
+  return runs.sort((a, b) => a.span.start.offset - b.span.start.offset);
+}
+
+/**
+ * Split a body into runs of sessions that don't use each other's output
+ */
+function findRuns(body: StatementNode[], graph: DataflowGraph, sessionsAt: Map<number, string[]>): ParallelizableRun[] {
+  const statements = body.filter(statement => statement.type !== 'CommentStatement');
+  const runs: ParallelizableRun[] = [];
+  let run: SourceSpan[] = [];
+  let nodes = new Set<string>();
+  let lastNodes: string[] = [];
+  let lastStatement: StatementNode | null = null;
+
+  const close = () => {
+    // What follows the last session may get its output as the previous one
+    const usedImplicitly = lastStatement === statements[statements.length - 1]
+      || graph.edges.some(edge => lastNodes.includes(edge.from) && (edge.kind === 'previous' || edge.kind === 'arrow'));
+    const parallel = usedImplicitly ? run.slice(0, -1) : run;
+    if (parallel.length >= 2) {
+      runs.push({ span: { start: parallel[0].start, end: parallel[parallel.length - 1].end }, statements: parallel });
+    }
+    run = [];
+    nodes = new Set();
+  };
+
+  for (const statement of statements) {
+    const session = sessionOf(statement);
+    const ids = session ? sessionsAt.get(session.span.start.offset) ?? [] : [];
+    if (!session || ids.length === 0) {
+      close();
+      continue;
+    }
+    if (graph.edges.some(edge => nodes.has(edge.from) && ids.includes(edge.to))) {
+      close();
+    }
+    // Spans of statements with properties run on to the next statement
+    const lastProperty = session.properties[session.properties.length - 1];
+    run.push({ start: statement.span.start, end: lastProperty?.span.end ?? statement.span.end });
+    ids.forEach(id => nodes.add(id));
+    lastNodes = ids;
+    lastStatement = statement;
+  }
+  close();
+  return runs;
+}
+
+/**
+ * The session a statement runs directly: `session ...` or
+ * `let name = session ...`
+ */
+function sessionOf(statement: StatementNode): SessionStatementNode | null {
+  if (statement.type === 'SessionStatement') {
+    return statement;
+  }
+  if ((statement.type === 'LetBinding' || statement.type === 'ConstBinding' || statement.type === 'Assignment')
+    && statement.value.type === 'SessionStatement') {
+    return statement.value;
+  }
+  return null;
+}
+
+/**
+ * Visit every list of statements that runs in sequence; the statements of
+ * a parallel block are its branches
+ */
+function forEachBody(node: ASTNode, visit: (body: StatementNode[]) => void): void {
+  if (node.type !== 'ParallelBlock') {
+    getStatementLists(node).forEach(visit);
+  }
+  getChildNodes(node).forEach(child => forEachBody(child, visit));
+}
+
+function sessionsText(count: number): string {
+  return `${count} session${count === 1 ? '' : 's'}`;
+}
@@ -0,0 +1,812 @@
+/**
+ * OpenProse Execution Planner
+ *
+ * Expands a program statically into the plan of what it will run: the
+ * sessions of each step, the agents and models they use, which steps run in
+ * parallel and which depend on **discretion** conditions. Session counts are
+ * ranges from the best case to the worst case:
+ *
+ * - `retry: N` makes a session 1 to N+1 attempts.
+ * - `repeat N`, `for` over a literal array (or a variable bound to one) and
+ *   pipes over them multiply their bodies.
+ * - A loop runs between 0 times (its condition may hold at once) and its
+ *   `max`; without a `max` its worst case is unbounded.
+ * - `if` and `choice` run one of their branches; `first` and `any` parallel
+ *   blocks need only their fastest branches, though all of them start.
+ *
+ * The plan also estimates the tokens each model reads and writes. A
+ * session reads its prompt, its agent's prompt and its context - the
+ * variables named in `context:` and interpolated into the prompt, or the
+ * previous output - and writes an assumed number of tokens. The expected
+ * case assumes no retries, loops stopping halfway to their `max`, and an
+ * average branch.
+ */
+
+import {
+  ProgramNode,
+  StatementNode,
+  ExpressionNode,
+  SessionStatementNode,
+  ParallelBlockNode,
+  LoopBlockNode,
+  RepeatBlockNode,
+  ForEachBlockNode,
+  PipeExpressionNode,
+  TryBlockNode,
+  ChoiceBlockNode,
+  IfStatementNode,
+  DoBlockNode,
+  BlockDefinitionNode,
+  DiscretionNode,
+  PropertyNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+
+/**
+ * A number of sessions, from the best case to the worst; a null maximum is
+ * unbounded
+ */
+export interface SessionCount {
+  min: number;
+  max: number | null;
+}
+
+/**
+ * A quantity in the best, expected and worst case; a null maximum is
+ * unbounded
+ */
+export interface Estimate {
+  min: number;
+  expected: number;
+  max: number | null;
+}
+
+export type PlanStepKind =
+  | 'session'
+  | 'parallel'
+  | 'loop'
+  | 'repeat'
+  | 'for-each'
+  | 'pipe'
+  | 'if'
+  | 'choice'
+  | 'try'
+  | 'do'
+  | 'branch';
+
+export interface PlanStep {
+  kind: PlanStepKind;
+  /** What the step is, as in the source: `session "Research"`, `loop until **done** (max: 5)` */
+  label: string;
+  span: SourceSpan;
+  /** Sessions the step runs, children included */
+  sessions: SessionCount;
+  /** Whether the children run concurrently */
+  parallel: boolean;
+  /** Whether a discretion condition decides what the step runs */
+  discretion: boolean;
+  children: PlanStep[];
+}
+
+/**
+ * A point where a model's judgement steers the program
+ */
+export interface DiscretionPoint {
+  condition: string;
+  span: SourceSpan;
+  /** What the judgement decides */
+  decides: string;
+}
+
+export interface AgentUsage {
+  name: string;
+  model: string | null;
+  sessions: SessionCount;
+}
+
+export interface ModelUsage {
+  /** Model name, or "default" for sessions that don't choose one */
+  model: string;
+  sessions: SessionCount;
+}
+
+/**
+ * Tokens sessions of a model read and write
+ */
+export interface TokenUsage {
+  model: string;
+  input: Estimate;
+  output: Estimate;
+}
+
+export interface ExecutionPlan {
+  sessions: SessionCount;
+  /** Agents used by at least one session, in definition order */
+  agents: AgentUsage[];
+  models: ModelUsage[];
+  tokens: TokenUsage[];
+  steps: PlanStep[];
+  discretion: DiscretionPoint[];
+}
+
+export interface PlanOptions {
+  /** Tokens a session is assumed to write (default: DEFAULT_OUTPUT_TOKENS) */
+  outputTokens?: { min: number; expected: number; max: number };
+  /** Iterations or items the expected case assumes when there is no static count (default: 3) */
+  expectedCount?: number;
+}
+
+/** Model key for sessions without a model */
+export const DEFAULT_MODEL = 'default';
+
+/** Tokens a session is assumed to write */
+export const DEFAULT_OUTPUT_TOKENS = { min: 100, expected: 500, max: 2000 };
+
+/** Characters per token when estimating the tokens of text */
+export const CHARS_PER_TOKEN = 4;
+
+const NONE: Estimate = { min: 0, expected: 0, max: 0 };
+const ONE: Estimate = { min: 1, expected: 1, max: 1 };
+
+/**
+ * What a part of the program uses, by key: "sessions", "model:sonnet",
+ * "agent:researcher", "input:sonnet" and "output:sonnet"
+ */
+type Usage = Map<string, Estimate>;
+
+interface Planned {
+  steps: PlanStep[];
+  usage: Usage;
+  /** Tokens of the value the statement or expression results in */
+  value: Estimate;
+}
+
+export class Planner {
+  private readonly agents: Map<string, { model: string | null; prompt: string | null }> = new Map();
+  private readonly blocks: Map<string, BlockDefinitionNode> = new Map();
+  /** Top-level variables bound once to a literal number or array */
+  private readonly constants: Map<string, number | number[] | unknown[]> = new Map();
+  /** Tokens of the values variables hold, as last bound */
+  private readonly bindings: Map<string, Estimate> = new Map();
+  private readonly discretion: DiscretionPoint[] = [];
+  /** Blocks being expanded, to stop at recursion */
+  private readonly calling: string[] = [];
+  private readonly outputTokens: Estimate;
+  private readonly expectedCount: number;
+  /** Tokens of the previous statement's output, the context of sessions without one */
+  private previous: Estimate = NONE;
+
+  constructor(private program: ProgramNode, options: PlanOptions = {}) {
+    this.outputTokens = options.outputTokens ?? DEFAULT_OUTPUT_TOKENS;
+    this.expectedCount = options.expectedCount ?? 3;
+
+    const assigned = new Set<string>();
+    collectAssignments(program.statements, assigned);
+
+    for (const statement of program.statements) {
+      if (statement.type === 'AgentDefinition') {
+        this.agents.set(statement.name.name, {
+          model: propertyWord(statement.properties, 'model'),
+          prompt: propertyWord(statement.properties, 'prompt'),
+        });
+      } else if (statement.type === 'BlockDefinition') {
+        this.blocks.set(statement.name.name, statement);
+      } else if ((statement.type === 'LetBinding' || statement.type === 'ConstBinding') && !assigned.has(statement.name.name)) {
+        if (statement.value.type === 'NumberLiteral') {
+          this.constants.set(statement.name.name, statement.value.value);
+        } else if (statement.value.type === 'ArrayExpression') {
+          this.constants.set(statement.name.name, statement.value.elements);
+        }
+      }
+    }
+  }
+
+  public plan(): ExecutionPlan {
+    const { steps, usage } = this.planBody(this.program.statements);
+    const byPrefix = (prefix: string) => [...usage]
+      .filter(([key]) => key.startsWith(prefix))
+      .map(([key, estimate]) => [key.slice(prefix.length), estimate] as const);
+
+    const agentSessions = new Map(byPrefix('agent:'));
+    const agents: AgentUsage[] = [];
+    for (const [name, agent] of this.agents) {
+      const sessions = agentSessions.get(name);
+      if (sessions) {
+        agents.push({ name, model: agent.model, sessions: toCount(sessions) });
+      }
+    }
+    return {
+      sessions: toCount(usage.get('sessions') ?? NONE),
+      agents,
+      models: byPrefix('model:').map(([model, sessions]) => ({ model, sessions: toCount(sessions) })),
+      tokens: byPrefix('model:').map(([model]) => ({
+        model,
+        input: usage.get(`input:${model}`) ?? NONE,
+        output: usage.get(`output:${model}`) ?? NONE,
+      })),
+      steps,
+      discretion: this.discretion,
+    };
+  }
+
+  // ========== Statements ==========
+
+  private planBody(statements: StatementNode[]): Planned {
+    const planned = statements.map(statement => this.planStatement(statement));
+    return {
+      steps: planned.flatMap(p => p.steps),
+      usage: sumUsage(planned.map(p => p.usage)),
+      value: planned.length > 0 ? planned[planned.length - 1].value : NONE,
+    };
+  }
+
+  private planStatement(statement: StatementNode): Planned {
+    switch (statement.type) {
+      case 'LetBinding':
+      case 'ConstBinding':
+      case 'Assignment': {
+        const planned = this.planExpression(statement.value);
+        this.bindings.set(statement.name.name, planned.value);
+        this.previous = planned.value;
+        const [first, ...rest] = planned.steps;
+        const prefix = statement.type === 'Assignment' ? '' : `${statement.type === 'LetBinding' ? 'let' : 'const'} `;
+        return first
+          ? { ...planned, steps: [{ ...first, label: `${prefix}${statement.name.name} = ${first.label}` }, ...rest] }
+          : planned;
+      }
+      case 'CommentStatement':
+      case 'ImportStatement':
+      case 'UseStatement':
+      case 'AgentDefinition':
+      case 'BlockDefinition':
+      case 'ThrowStatement':
+        return { steps: [], usage: new Map(), value: NONE };
+      default: {
+        const planned = this.planExpression(statement);
+        this.previous = planned.value;
+        return planned;
+      }
+    }
+  }
+
+  private planExpression(expr: ExpressionNode): Planned {
+    switch (expr.type) {
+      case 'SessionStatement':
+        return this.planSession(expr);
+      case 'ParallelBlock':
+        return this.planParallel(expr);
+      case 'LoopBlock':
+        return this.planLoop(expr);
+      case 'RepeatBlock':
+        return this.planRepeat(expr);
+      case 'ForEachBlock':
+        return this.planForEach(expr);
+      case 'PipeExpression':
+        return this.planPipe(expr);
+      case 'TryBlock':
+        return this.planTry(expr);
+      case 'ChoiceBlock':
+        return this.planChoice(expr);
+      case 'IfStatement':
+        return this.planIf(expr);
+      case 'DoBlock':
+        return this.planDo(expr);
+      case 'ArrowExpression': {
+        const left = this.planExpression(expr.left);
+        const right = this.planExpression(expr.right);
+        return { steps: [...left.steps, ...right.steps], usage: sumUsage([left.usage, right.usage]), value: right.value };
+      }
+      case 'Discretion':
+        this.addDiscretion(expr, 'a value');
+        return { steps: [], usage: new Map(), value: NONE };
+      default:
+        return { steps: [], usage: new Map(), value: this.valueTokens(expr) };
+    }
+  }
+
+  private planSession(session: SessionStatementNode): Planned {
+    const retries = propertyNumber(session.properties, 'retry') ?? 0;
+    const attempts: Estimate = { min: 1, expected: 1, max: 1 + retries };
+    const agentName = session.agent?.name ?? null;
+    const agent = agentName ? this.agents.get(agentName) : undefined;
+    const model = propertyWord(session.properties, 'model') ?? agent?.model ?? DEFAULT_MODEL;
+    const prompt = propertyWord(session.properties, 'prompt') ?? session.prompt?.value ?? null;
+
+    const contextProperty = session.properties.find(prop => prop.name.name === 'context');
+    const input = sum([
+      fixed(estimateTokens(agent?.prompt ?? '')),
+      this.promptTokens(prompt ?? ''),
+      contextProperty ? this.valueTokens(contextProperty.value) : this.previous,
+    ]);
+
+    const usage: Usage = new Map([
+      ['sessions', attempts],
+      [`model:${model}`, attempts],
+      [`input:${model}`, times(input, attempts)],
+      [`output:${model}`, times(this.outputTokens, attempts)],
+    ]);
+    if (agentName) {
+      usage.set(`agent:${agentName}`, attempts);
+    }
+
+    return { steps: [this.step('session', sessionLabel(session), session.span, usage, [])], usage, value: this.outputTokens };
+  }
+
+  private planParallel(parallel: ParallelBlockNode): Planned {
+    const join = parallel.joinStrategy?.value ?? 'all';
+    const count = parallel.anyCount?.value ?? 1;
+    const branches = parallel.body
+      .filter(statement => statement.type !== 'CommentStatement')
+      .map(statement => this.planStatement(statement));
+    const usages = branches.map(branch => branch.usage);
+
+    let usage: Usage;
+    if (join === 'first') {
+      usage = combine(usages, counts => ({ ...fastest(counts, 1), max: sum(counts).max }));
+    } else if (join === 'any') {
+      usage = combine(usages, counts => ({ ...fastest(counts, count), max: sum(counts).max }));
+    } else {
+      usage = sumUsage(usages);
+    }
+
+    const modifiers = [
+      parallel.joinStrategy ? `"${join}"` : null,
+      parallel.anyCount ? `count: ${count}` : null,
+      parallel.onFail ? `on-fail: "${parallel.onFail.value}"` : null,
+    ].filter(Boolean);
+    const label = `parallel${modifiers.length > 0 ? ` (${modifiers.join(', ')})` : ''}`;
+    const step = this.step('parallel', label, parallel.span, usage, branches.flatMap(branch => branch.steps));
+    return { steps: [{ ...step, parallel: true }], usage, value: sum(branches.map(branch => branch.value)) };
+  }
+
+  private planLoop(loop: LoopBlockNode): Planned {
+    const max = loop.maxIterations?.value ?? null;
+    let iterations: Estimate;
+    if (max === null) {
+      iterations = { min: 0, expected: this.expectedCount, max: null };
+    } else {
+      iterations = loop.condition ? { min: 0, expected: Math.ceil(max / 2), max } : { min: max, expected: max, max };
+    }
+    if (loop.condition) {
+      this.addDiscretion(loop.condition, `when the loop at line ${loop.span.start.line} stops`);
+    }
+
+    const body = this.planBody(loop.body);
+    const usage = scaleUsage(body.usage, iterations);
+    const condition = loop.condition ? ` ${loop.variant} **${loop.condition.expression.trim()}**` : '';
+    const label = `loop${condition}${max !== null ? ` (max: ${max})` : ''}`;
+    const step = this.step('loop', label, loop.span, usage, body.steps);
+    return { steps: [{ ...step, discretion: loop.condition !== null }], usage, value: body.value };
+  }
+
+  private planRepeat(repeat: RepeatBlockNode): Planned {
+    const count = repeat.count.type === 'NumberLiteral' ? repeat.count.value : this.constants.get(repeat.count.name);
+    const repetitions = typeof count === 'number' ? fixed(count) : this.unknownCount();
+    const body = this.planBody(repeat.body);
+    const usage = scaleUsage(body.usage, repetitions);
+    const label = `repeat ${repeat.count.type === 'NumberLiteral' ? repeat.count.value : repeat.count.name}`;
+    return { steps: [this.step('repeat', label, repeat.span, usage, body.steps)], usage, value: body.value };
+  }
+
+  private planForEach(forEach: ForEachBlockNode): Planned {
+    this.bindings.set(forEach.itemVar.name, this.itemTokens(forEach.collection));
+    const body = this.planBody(forEach.body);
+    const usage = scaleUsage(body.usage, this.itemCount(forEach.collection));
+    const label = `${forEach.isParallel ? 'parallel for' : 'for'} ${forEach.itemVar.name} in ${describeCollection(forEach.collection)}`;
+    const step = this.step('for-each', label, forEach.span, usage, body.steps);
+    return { steps: [{ ...step, parallel: forEach.isParallel }], usage, value: body.value };
+  }
+
+  private planPipe(pipe: PipeExpressionNode): Planned {
+    const input = this.planExpression(pipe.input);
+    const steps = [...input.steps];
+    const usages = [input.usage];
+    let items = this.itemCount(pipe.input);
+    let item = this.itemTokens(pipe.input);
+    let value = input.value;
+    let source = describeCollection(pipe.input);
+
+    for (const operation of pipe.operations) {
+      this.bindings.set(operation.itemVar?.name ?? 'item', item);
+      if (operation.accVar) {
+        this.bindings.set(operation.accVar.name, this.outputTokens);
+      }
+      const body = this.planBody(operation.body);
+      const runs = operation.operator === 'reduce'
+        ? { min: Math.max(items.min - 1, 0), expected: Math.max(items.expected - 1, 0), max: items.max === null ? null : Math.max(items.max - 1, 0) }
+        : items;
+      const usage = scaleUsage(body.usage, runs);
+      const step = this.step('pipe', `${source} | ${operation.operator}`, operation.span, usage, body.steps);
+      source = '...';
+      steps.push({ ...step, parallel: operation.operator === 'pmap' });
+      usages.push(usage);
+
+      if (operation.operator === 'filter') {
+        items = { ...items, min: 0 };
+        value = { ...value, min: 0 };
+      } else if (operation.operator === 'reduce') {
+        items = this.unknownCount();
+        item = body.value;
+        value = body.value;
+      } else {
+        item = body.value;
+        value = times(body.value, items);
+      }
+    }
+    return { steps, usage: sumUsage(usages), value };
+  }
+
+  private planTry(tryBlock: TryBlockNode): Planned {
+    const sections: [string, StatementNode[] | null][] = [
+      ['try', tryBlock.tryBody],
+      ['catch', tryBlock.catchBody],
+      ['finally', tryBlock.finallyBody],
+    ];
+    if (tryBlock.errorVar) {
+      this.bindings.set(tryBlock.errorVar.name, fixed(estimateTokens('error message')));
+    }
+    const planned = sections
+      .filter((section): section is [string, StatementNode[]] => section[1] !== null)
+      .map(([name, body]) => {
+        const section = this.planBody(body);
+        // The catch block runs only when something fails
+        const usage = name === 'catch' ? combine([section.usage], ([c]) => ({ min: 0, expected: 0, max: c.max })) : section.usage;
+        return { step: this.step('branch', name, tryBlock.span, usage, section.steps), usage, value: section.value };
+      });
+
+    const usage = sumUsage(planned.map(p => p.usage));
+    const step = this.step('try', 'try', tryBlock.span, usage, planned.map(p => p.step));
+    return { steps: [step], usage, value: planned[0]?.value ?? NONE };
+  }
+
+  private planChoice(choice: ChoiceBlockNode): Planned {
+    this.addDiscretion(choice.criteria, `which option of the choice at line ${choice.span.start.line} runs`);
+    const options = choice.options.map(option => {
+      const body = this.planBody(option.body);
+      const step = this.step('branch', `option "${option.label.value}"`, option.span, body.usage, body.steps);
+      return { step, usage: body.usage, value: body.value };
+    });
+
+    const usage = eitherUsage(options.map(option => option.usage));
+    const step = this.step('choice', `choice **${choice.criteria.expression.trim()}**`, choice.span, usage, options.map(o => o.step));
+    return { steps: [{ ...step, discretion: true }], usage, value: either(options.map(option => option.value)) };
+  }
+
+  private planIf(ifStmt: IfStatementNode): Planned {
+    const clauses = [
+      { keyword: 'if', condition: ifStmt.condition, body: ifStmt.thenBody, span: ifStmt.span },
+      ...ifStmt.elseIfClauses.map(clause => ({ keyword: 'elif', ...clause })),
+    ];
+    const branches = clauses.map(clause => {
+      this.addDiscretion(clause.condition, `whether the ${clause.keyword} branch at line ${clause.span.start.line} runs`);
+      const body = this.planBody(clause.body);
+      const label = `${clause.keyword} **${clause.condition.expression.trim()}**`;
+      return { step: this.step('branch', label, clause.span, body.usage, body.steps), usage: body.usage, value: body.value };
+    });
+    const elseBody = this.planBody(ifStmt.elseBody ?? []);
+    branches.push({ step: this.step('branch', 'else', ifStmt.span, elseBody.usage, elseBody.steps), usage: elseBody.usage, value: elseBody.value });
+
+    const usage = eitherUsage(branches.map(branch => branch.usage));
+    const children = branches.map(branch => branch.step).filter(step => step.label !== 'else' || step.children.length > 0);
+    const step = this.step('if', 'if', ifStmt.span, usage, children);
+    return { steps: [{ ...step, discretion: true }], usage, value: either(branches.map(branch => branch.value)) };
+  }
+
+  private planDo(doBlock: DoBlockNode): Planned {
+    if (!doBlock.name) {
+      const body = this.planBody(doBlock.body);
+      return { steps: [this.step('do', 'do', doBlock.span, body.usage, body.steps)], usage: body.usage, value: body.value };
+    }
+
+    const name = doBlock.name.name;
+    const block = this.blocks.get(name);
+    const label = `do ${name}`;
+    if (!block) {
+      return { steps: [], usage: new Map(), value: NONE };
+    }
+    if (this.calling.includes(name)) {
+      // A recursive call may go on any number of times
+      const usage: Usage = new Map([['sessions', { min: 0, expected: 0, max: null }]]);
+      return { steps: [this.step('do', `${label} (recursive)`, doBlock.span, usage, [])], usage, value: this.outputTokens };
+    }
+
+    block.parameters.forEach((parameter, index) => {
+      const argument = doBlock.arguments[index];
+      this.bindings.set(parameter.name, argument ? this.valueTokens(argument) : NONE);
+    });
+    this.calling.push(name);
+    const body = this.planBody(block.body);
+    this.calling.pop();
+    return { steps: [this.step('do', label, doBlock.span, body.usage, body.steps)], usage: body.usage, value: body.value };
+  }
+
+  // ========== Helpers ==========
+
+  /**
+   * How many items a collection has: known for literal arrays and variables
+   * bound to one
+   */
+  private itemCount(expr: ExpressionNode): Estimate {
+    const elements = this.elements(expr);
+    return elements ? fixed(elements.length) : this.unknownCount();
+  }
+
+  /**
+   * Tokens of the largest item of a collection
+   */
+  private itemTokens(expr: ExpressionNode): Estimate {
+    const elements = this.elements(expr);
+    if (!elements) {
+      return this.outputTokens;
+    }
+    const sizes = elements.map(element => this.valueTokens(element as ExpressionNode));
+    return sizes.length > 0 ? either(sizes) : NONE;
+  }
+
+  private elements(expr: ExpressionNode): unknown[] | null {
+    if (expr.type === 'ArrayExpression') {
+      return expr.elements;
+    }
+    const value = expr.type === 'Identifier' ? this.constants.get(expr.name) : undefined;
+    return Array.isArray(value) ? value : null;
+  }
+
+  /**
+   * Tokens of a value: literals are measured, variables have the size of
+   * what they were bound to, and anything else is assumed to be a session's
+   * output
+   */
+  private valueTokens(expr: ExpressionNode): Estimate {
+    switch (expr.type) {
+      case 'StringLiteral':
+        return this.promptTokens(expr.value);
+      case 'NumberLiteral':
+        return ONE;
+      case 'Identifier':
+        return this.bindings.get(expr.name) ?? this.outputTokens;
+      case 'ArrayExpression':
+        return sum(expr.elements.map(element => this.valueTokens(element)));
+      case 'ObjectExpression':
+        return sum(expr.properties.map(property => this.valueTokens(property.value)));
+      default:
+        return this.outputTokens;
+    }
+  }
+
+  /**
+   * Tokens of a prompt, with the variables interpolated into it
+   */
+  private promptTokens(prompt: string): Estimate {
+    const interpolated: Estimate[] = [];
+    const text = prompt.replace(/\{(\w+)(?:\.\w+)*\}/g, (_, name: string) => {
+      interpolated.push(this.bindings.get(name) ?? this.outputTokens);
+      return '';
+    });
+    return sum([fixed(estimateTokens(text)), ...interpolated]);
+  }
+
+  private unknownCount(): Estimate {
+    return { min: 0, expected: this.expectedCount, max: null };
+  }
+
+  private addDiscretion(condition: DiscretionNode, decides: string): void {
+    this.discretion.push({ condition: condition.expression.trim(), span: condition.span, decides });
+  }
+
+  private step(kind: PlanStepKind, label: string, span: SourceSpan, usage: Usage, children: PlanStep[]): PlanStep {
+    const sessions = toCount(usage.get('sessions') ?? NONE);
+    return { kind, label, span, sessions, parallel: false, discretion: false, children };
+  }
+}
+
+/**
+ * Expand a program into its execution plan
+ */
+export function planProgram(program: ProgramNode, options?: PlanOptions): ExecutionPlan {
+  return new Planner(program, options).plan();
+}
+
+/**
+ * Estimate the tokens of a text
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/**
+ * A session count as text: "3", "0-5" or "2+" when unbounded
+ */
+export function formatSessionCount(count: SessionCount): string {
+  if (count.max === null) {
+    return `${count.min}+`;
+  }
+  return count.min === count.max ? String(count.min) : `${count.min}-${count.max}`;
+}
+
+/**
+ * Render a plan as text
+ */
+export function formatPlan(executionPlan: ExecutionPlan, title?: string): string {
+  const lines: string[] = [];
+  const { sessions } = executionPlan;
+  lines.push(title ? `Execution plan for ${title}` : 'Execution plan');
+  lines.push('');
+  lines.push(sessions.max === null
+    ? `Sessions: at least ${sessions.min} (no upper bound)`
+    : `Sessions: ${sessions.min} in the best case, ${sessions.max} in the worst`);
+
+  if (executionPlan.models.length > 0) {
+    lines.push('', 'Models:');
+    for (const usage of executionPlan.models) {
+      lines.push(`  ${usage.model.padEnd(12)} ${sessionsText(usage.sessions)}`);
+    }
+  }
+  if (executionPlan.agents.length > 0) {
+    lines.push('', 'Agents:');
+    for (const agent of executionPlan.agents) {
+      const name = `${agent.name}${agent.model ? ` (${agent.model})` : ''}`;
+      lines.push(`  ${name.padEnd(24)} ${sessionsText(agent.sessions)}`);
+    }
+  }
+
+  lines.push('', 'Steps:');
+  const renderSteps = (steps: PlanStep[], indent: string) => {
+    for (const step of steps) {
+      const notes = [
+        sessionsText(step.sessions),
+        step.parallel ? 'parallel' : null,
+        step.discretion ? 'discretion' : null,
+      ].filter(Boolean);
+      lines.push(`${indent}${step.label}  [${notes.join(', ')}]  (line ${step.span.start.line})`);
+      renderSteps(step.children, step.parallel ? `${indent}  | ` : `${indent}  `);
+    }
+  };
+  renderSteps(executionPlan.steps, '  ');
+
+  if (executionPlan.discretion.length > 0) {
+    lines.push('', 'Discretion:');
+    for (const point of executionPlan.discretion) {
+      lines.push(`  line ${point.span.start.line}: **${point.condition}** decides ${point.decides}`);
+    }
+  }
+  return lines.join('\n') + '\n';
+}
+
+// ========== Estimates ==========
+
+function sessionsText(count: SessionCount): string {
+  return `${formatSessionCount(count)} session${count.min === 1 && count.max === 1 ? '' : 's'}`;
+}
+
+function toCount(estimate: Estimate): SessionCount {
+  return { min: estimate.min, max: estimate.max };
+}
+
+function fixed(n: number): Estimate {
+  return { min: n, expected: n, max: n };
+}
+
+function sum(estimates: Estimate[]): Estimate {
+  return estimates.reduce((a, b) => ({
+    min: a.min + b.min,
+    expected: a.expected + b.expected,
+    max: a.max === null || b.max === null ? null : a.max + b.max,
+  }), NONE);
+}
+
+function times(estimate: Estimate, n: Estimate): Estimate {
+  const max = estimate.max === 0 || n.max === 0 ? 0 : estimate.max === null || n.max === null ? null : estimate.max * n.max;
+  return { min: estimate.min * n.min, expected: estimate.expected * n.expected, max };
+}
+
+/**
+ * One of several alternatives, each as likely
+ */
+function either(estimates: Estimate[]): Estimate {
+  return {
+    min: Math.min(...estimates.map(e => e.min)),
+    expected: estimates.reduce((total, e) => total + e.expected, 0) / estimates.length,
+    max: estimates.some(e => e.max === null) ? null : Math.max(...estimates.map(e => e.max as number)),
+  };
+}
+
+/**
+ * The best and expected case of waiting for the fastest `count` alternatives
+ */
+function fastest(estimates: Estimate[], count: number): Omit<Estimate, 'max'> {
+  const smallest = (values: number[]) => values.sort((a, b) => a - b).slice(0, count).reduce((a, b) => a + b, 0);
+  return { min: smallest(estimates.map(e => e.min)), expected: smallest(estimates.map(e => e.expected)) };
+}
+
+/**
+ * Combine usages key by key; a key missing from a usage counts as none
+ */
+function combine(usages: Usage[], merge: (estimates: Estimate[]) => Estimate): Usage {
+  const keys = new Set(usages.flatMap(usage => [...usage.keys()]));
+  return new Map([...keys].map(key => [key, merge(usages.map(usage => usage.get(key) ?? NONE))]));
+}
+
+function sumUsage(usages: Usage[]): Usage {
+  return combine(usages, sum);
+}
+
+function eitherUsage(usages: Usage[]): Usage {
+  return combine(usages, either);
+}
+
+function scaleUsage(usage: Usage, n: Estimate): Usage {
+  return combine([usage], ([estimate]) => times(estimate, n));
+}
+
+// ========== AST helpers ==========
+
+/**
+ * Collect the names assigned with `name = ...` anywhere in statements
+ */
+export function collectAssignments(statements: StatementNode[], names: Set<string>): void {
+  const visit = (node: unknown): void => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (node && typeof node === 'object') {
+      const record = node as { type?: string; name?: { name: string } };
+      if (record.type === 'Assignment' && record.name) {
+        names.add(record.name.name);
+      }
+      for (const [key, value] of Object.entries(node)) {
+        if (key !== 'span') {
+          visit(value);
+        }
+      }
+    }
+  };
+  visit(statements);
+}
+
+function propertyNumber(properties: PropertyNode[], name: string): number | null {
+  const prop = properties.find(candidate => candidate.name.name === name);
+  return prop?.value.type === 'NumberLiteral' ? prop.value.value : null;
+}
+
+/**
+ * A session as the plan shows it: `session: writer "Draft the post" (retry: 2)`
+ */
+export function sessionLabel(session: SessionStatementNode): string {
+  const agentName = session.agent?.name ?? null;
+  const target = session.name && agentName ? `${session.name.name}: ${agentName}` : agentName;
+  const prompt = propertyWord(session.properties, 'prompt') ?? session.prompt?.value ?? null;
+  const retries = propertyNumber(session.properties, 'retry') ?? 0;
+  return [
+    target ? `session: ${target}` : 'session',
+    prompt !== null ? `"${truncate(prompt)}"` : null,
+    retries > 0 ? `(retry: ${retries})` : null,
+  ].filter(Boolean).join(' ');
+}
+
+/**
+ * A property given as a string or a bare word
+ */
+export function propertyWord(properties: PropertyNode[], name: string): string | null {
+  const prop = properties.find(candidate => candidate.name.name === name);
+  if (prop?.value.type === 'StringLiteral') {
+    return prop.value.value;
+  }
+  return prop?.value.type === 'Identifier' ? prop.value.name : null;
+}
+
+/**
+ * A collection as the plan shows it: a variable name or the list's size
+ */
+export function describeCollection(expr: ExpressionNode): string {
+  if (expr.type === 'Identifier') {
+    return expr.name;
+  }
+  if (expr.type === 'ArrayExpression') {
+    return `[${expr.elements.length} item${expr.elements.length === 1 ? '' : 's'}]`;
+  }
+  return 'the result';
+}
+
+export function truncate(text: string, length = 60): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  return line.length > length ? `${line.slice(0, length - 3)}...` : line;
+}
@@ -0,0 +1,256 @@
+/**
+ * OpenProse Refactoring Context
+ *
+ * Shared machinery for refactorings. A RefactorContext holds a parsed
+ * document together with its lossless CST (for exact statement extents and
+ * string boundaries) and its symbol table (for scoping that matches the
+ * Validator). Refactorings compute edits against the original text, so
+ * everything they don't touch keeps its hand-written layout.
+ */
+
+import {
+  parse,
+  getChildNodes,
+  getStatementLists,
+  getCSTTokens,
+  ASTNode,
+  ProgramNode,
+  StatementNode,
+  CSTNode,
+  CSTToken,
+  ParseError,
+} from '../parser';
+import { SourceLocation, SourceSpan, TokenType, KEYWORDS } from '../parser/tokens';
+import { bind, validate, SymbolTable } from '../validator';
+
+/**
+ * A 1-based line/column position in source
+ */
+export type SourcePosition = Pick<SourceLocation, 'line' | 'column'>;
+
+/**
+ * Replace the text of a span with new text
+ */
+export interface SourceEdit {
+  span: SourceSpan;
+  newText: string;
+}
+
+export interface RefactorResult {
+  /** Edits to apply to the original source, in source order */
+  edits: SourceEdit[];
+  /** Why the refactoring can't be applied (edits are then empty) */
+  error: string | null;
+}
+
+export class RefactorContext {
+  public readonly program: ProgramNode;
+  public readonly cst: CSTNode;
+  public readonly parseErrors: ParseError[];
+  public readonly table: SymbolTable;
+  private readonly cstNodes: Map<ASTNode, CSTNode> = new Map();
+  private readonly lineStarts: number[] = [0];
+
+  constructor(public readonly source: string) {
+    const result = parse(source, { lossless: true });
+    this.program = result.program;
+    this.cst = result.cst!;
+    this.parseErrors = result.errors;
+    this.table = bind(result.program);
+
+    const index = (node: CSTNode) => {
+      this.cstNodes.set(node.node, node);
+      for (const child of node.children) {
+        if (child.type === 'Node') {
+          index(child);
+        }
+      }
+    };
+    index(this.cst);
+
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * Convert a position to an offset, clamped to the source
+   */
+  public offsetAt(position: SourcePosition): number {
+    const lineStart = this.lineStarts[Math.min(Math.max(position.line, 1), this.lineStarts.length) - 1];
+    return Math.min(lineStart + Math.max(position.column - 1, 0), this.source.length);
+  }
+
+  /**
+   * Convert an offset to a source location
+   */
+  public locationAt(offset: number): SourceLocation {
+    let line = 0;
+    while (line + 1 < this.lineStarts.length && this.lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { line: line + 1, column: offset - this.lineStarts[line] + 1, offset };
+  }
+
+  /**
+   * Make an edit replacing the text between two offsets
+   */
+  public edit(start: number, end: number, newText: string): SourceEdit {
+    return { span: { start: this.locationAt(start), end: this.locationAt(end) }, newText };
+  }
+
+  /**
+   * Offsets from the first to just past the last token of a node. Unlike
+   * node spans, this never reaches into the line after an indented body.
+   */
+  public extent(node: ASTNode): { start: number; end: number } {
+    const cstNode = this.cstNodes.get(node);
+    const tokens = cstNode ? getCSTTokens(cstNode) : [];
+    if (tokens.length === 0) {
+      return { start: node.span.start.offset, end: node.span.end.offset };
+    }
+    return { start: tokens[0].span.start.offset, end: tokens[tokens.length - 1].span.end.offset };
+  }
+
+  /**
+   * Offset of the start of the line containing an offset
+   */
+  public lineStart(offset: number): number {
+    return this.source.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  /**
+   * Offset just past the newline ending the line containing an offset
+   */
+  public lineEnd(offset: number): number {
+    const newline = this.source.indexOf('\n', offset);
+    return newline === -1 ? this.source.length : newline + 1;
+  }
+
+  /**
+   * The whitespace before a node on its line, or null if other text precedes it
+   */
+  public indentation(node: ASTNode): string | null {
+    const start = this.extent(node).start;
+    const indent = this.source.slice(this.lineStart(start), start);
+    return /^[ \t]*$/.test(indent) ? indent : null;
+  }
+
+  /**
+   * The string token containing a span, if any
+   */
+  public stringTokenAt(span: SourceSpan): CSTToken | null {
+    const token = getCSTTokens(this.cst).find(t =>
+      t.kind === TokenType.STRING
+      && t.span.start.offset < span.start.offset
+      && t.span.end.offset > span.end.offset
+    );
+    return token ?? null;
+  }
+
+  /**
+   * Indexes of the lines from `start` to `end` that begin inside a
+   * multi-line string, relative to the line containing `start`. Their
+   * indentation is part of the string and must not change.
+   */
+  public stringLines(start: number, end: number): Set<number> {
+    const lines = new Set<number>();
+    let index = 0;
+    for (let i = this.lineStart(start); i < end; i++) {
+      if (this.source[i] !== '\n') {
+        continue;
+      }
+      index++;
+      if (this.stringTokenAt(this.edit(i, i + 1, '').span)) {
+        lines.add(index);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Find the statement list that directly contains a statement
+   */
+  public findStatementList(statement: ASTNode): StatementNode[] | null {
+    const search = (node: ASTNode): StatementNode[] | null => {
+      for (const list of getStatementLists(node)) {
+        if (list.includes(statement as StatementNode)) {
+          return list;
+        }
+      }
+      for (const child of getChildNodes(node)) {
+        const found = search(child);
+        if (found) {
+          return found;
+        }
+      }
+      return null;
+    };
+    return search(this.program);
+  }
+
+  /**
+   * Check that edited source still parses and validates no worse than the
+   * original. Returns a description of the first new problem, or null.
+   */
+  public checkEdits(edits: SourceEdit[]): string | null {
+    const edited = applyEdits(this.source, edits);
+    const result = parse(edited);
+    if (result.errors.length > 0) {
+      return `the result would not parse (${result.errors[0].message})`;
+    }
+
+    const before = validate(this.program).errors.map(error => error.message);
+    const after = validate(result.program).errors.map(error => error.message);
+    if (after.length > before.length) {
+      const added = after.find(message => !before.includes(message)) ?? after[after.length - 1];
+      return `the result would not validate (${added})`;
+    }
+    return null;
+  }
+}
+
+/**
+ * Apply edits to source text. Edits must not overlap.
+ */
+export function applyEdits(source: string, edits: SourceEdit[]): string {
+  const sorted = [...edits].sort((a, b) => b.span.start.offset - a.span.start.offset);
+  let result = source;
+  for (const edit of sorted) {
+    result = result.slice(0, edit.span.start.offset) + edit.newText + result.slice(edit.span.end.offset);
+  }
+  return result;
+}
+
+/**
+ * Check that a name can be used for an agent, block or variable
+ */
+export function isValidName(name: string): boolean {
+  return /^[A-Za-z_][A-Za-z0-9_-]*$/.test(name) && !Object.prototype.hasOwnProperty.call(KEYWORDS, name);
+}
+
+/**
+ * Move lines of text from one indentation to another. Lines whose index is
+ * in `keep` (inside multi-line strings) are left alone.
+ */
+export function reindent(text: string, from: string, to: string, keep: Set<number>): string {
+  return text.split('\n').map((line, index) => {
+    if (keep.has(index)) {
+      return line;
+    }
+    if (line.trim() === '') {
+      return '';
+    }
+    const stripped = line.startsWith(from) ? line.slice(from.length) : line.replace(/^[ \t]*/, '');
+    return to + stripped;
+  }).join('\n');
+}
+
+/**
+ * A refactoring that could not be applied
+ */
+export function refactorError(error: string): RefactorResult {
+  return { edits: [], error };
+}
@@ -0,0 +1,185 @@
+/**
+ * OpenProse Extract Block Refactoring
+ *
+ * Moves a run of sibling statements into a new top-level
+ * `block name(params):` definition and replaces them with `do name(args)`.
+ * Parameters are the free variables of the statements: variables they read
+ * that are declared outside the selection, except globals that are already
+ * visible where the block is defined. The extraction is refused if the
+ * statements assign to an outer variable or declare a variable that is used
+ * after them, since blocks can do neither.
+ */
+
+import { ASTNode, StatementNode, getChildNodes, getStatementLists } from '../parser';
+import { SymbolInfo } from '../validator';
+import { commentBlockStart } from '../validator/fixes';
+import {
+  RefactorContext,
+  RefactorResult,
+  SourceEdit,
+  SourcePosition,
+  isValidName,
+  reindent,
+  refactorError,
+} from './context';
+
+/** Statements that may only appear at the top level */
+const TOP_LEVEL_ONLY = ['ImportStatement', 'UseStatement', 'AgentDefinition', 'BlockDefinition'];
+
+/**
+ * Extract the statements covered by a selection into a new block
+ */
+export function extractBlock(
+  source: string,
+  selection: { start: SourcePosition; end: SourcePosition },
+  name: string
+): RefactorResult {
+  const context = new RefactorContext(source);
+  if (context.parseErrors.length > 0) {
+    return refactorError('Cannot extract: the file has parse errors');
+  }
+  if (!isValidName(name)) {
+    return refactorError(`"${name}" is not a valid name`);
+  }
+  const existing = context.table.symbols.find(symbol => symbol.name === name && symbol.kind !== 'variable');
+  if (existing) {
+    return refactorError(`Cannot extract: ${existing.kind} "${name}" already exists`);
+  }
+
+  const run = findStatementRun(context, context.offsetAt(selection.start), context.offsetAt(selection.end));
+  if (typeof run === 'string') {
+    return refactorError(`Cannot extract: ${run}`);
+  }
+  const topLevelOnly = run.find(stmt => TOP_LEVEL_ONLY.includes(stmt.type));
+  if (topLevelOnly) {
+    return refactorError('Cannot extract: imports, agents and blocks can only be defined at the top level');
+  }
+
+  const indent = context.indentation(run[0]);
+  if (indent === null) {
+    return refactorError('Cannot extract: the selection must start its line');
+  }
+  const start = context.extent(run[0]).start;
+  const end = context.extent(run[run.length - 1]).end;
+  // A run of top-level statements gets its block above the first of them
+  const topLevel = context.program.statements.includes(run[0])
+    ? run[0]
+    : context.program.statements.find(stmt => {
+      const extent = context.extent(stmt);
+      return extent.start <= start && extent.end >= end;
+    });
+  if (!topLevel) {
+    return refactorError('Cannot extract: the selection must be inside one top-level statement');
+  }
+
+  const parameters = findParameters(context, start, end, context.extent(topLevel).start);
+  if (typeof parameters === 'string') {
+    return refactorError(`Cannot extract: ${parameters}`);
+  }
+
+  // Move the statements, with their trailing comments, one level below a top-level block
+  const lineStart = context.lineStart(start);
+  const lineEnd = context.lineEnd(end);
+  const moved = context.source.slice(lineStart, lineEnd);
+  const body = reindent(moved, indent, '  ', context.stringLines(start, lineEnd));
+  const newline = moved.endsWith('\n') ? '' : '\n';
+  const argumentList = parameters.length > 0 ? `(${parameters.join(', ')})` : '';
+  const definition = `block ${name}${argumentList}:\n${body}${newline}\n`;
+  const call = `${indent}do ${name}${argumentList}${moved.endsWith('\n') ? '\n' : ''}`;
+
+  // Define the block above the top-level statement, and above the comments that lead into it
+  const insertAt = commentBlockStart(context.source, context.lineStart(context.extent(topLevel).start));
+  const separator = insertAt > 0 && context.source.slice(context.lineStart(insertAt - 1), insertAt).trim() !== '' ? '\n' : '';
+  const edits: SourceEdit[] = insertAt === lineStart
+    ? [context.edit(lineStart, lineEnd, separator + definition + call)]
+    : [context.edit(insertAt, insertAt, separator + definition), context.edit(lineStart, lineEnd, call)];
+
+  const problem = context.checkEdits(edits);
+  if (problem) {
+    return refactorError(`Cannot extract: ${problem}`);
+  }
+  return { edits, error: null };
+}
+
+/**
+ * Find the sibling statements covered by a selection, descending into the
+ * innermost statement list. Returns a reason if the selection doesn't cover
+ * whole statements.
+ */
+function findStatementRun(context: RefactorContext, start: number, end: number): StatementNode[] | string {
+  const search = (node: ASTNode): StatementNode[] | string | null => {
+    for (const list of getStatementLists(node)) {
+      const touched = list.filter(stmt => {
+        const extent = context.extent(stmt);
+        return stmt.type !== 'CommentStatement' && extent.end > start && extent.start < end;
+      });
+      if (touched.length === 0) {
+        continue;
+      }
+      const covered = touched.filter(stmt => {
+        const extent = context.extent(stmt);
+        return extent.start >= start && extent.end <= end;
+      });
+      if (covered.length === touched.length) {
+        return covered;
+      }
+      if (touched.length > 1) {
+        return 'the selection must cover whole statements';
+      }
+      return search(touched[0]) ?? 'the selection must cover whole statements';
+    }
+    for (const child of getChildNodes(node)) {
+      const extent = context.extent(child);
+      if (extent.start < end && extent.end > start) {
+        const found = search(child);
+        if (found) {
+          return found;
+        }
+      }
+    }
+    return null;
+  };
+
+  return search(context.program) ?? 'the selection contains no statements';
+}
+
+/**
+ * Infer the parameters of the extracted block: outer variables read in the
+ * selection, in order of first use
+ */
+function findParameters(context: RefactorContext, start: number, end: number, blockStart: number): string[] | string {
+  const inside = (offset: number) => offset >= start && offset < end;
+  const globals = context.table.scopes.find(scope => scope.span === null)?.symbols ?? [];
+  const parameters: SymbolInfo[] = [];
+
+  for (const reference of [...context.table.references].sort((a, b) => a.span.start.offset - b.span.start.offset)) {
+    const symbol = reference.symbol;
+    if (symbol.kind !== 'variable') {
+      continue;
+    }
+    const declaredInside = inside(symbol.span.start.offset);
+    const usedInside = inside(reference.span.start.offset);
+
+    if (declaredInside && !usedInside && reference.span.start.offset >= end) {
+      return `"${symbol.name}" is declared in the selection and used after it`;
+    }
+    if (!usedInside || declaredInside) {
+      continue;
+    }
+    if (reference.isWrite) {
+      return `the selection assigns to "${symbol.name}", which is declared outside it`;
+    }
+    // Globals declared before the new block are visible in its body
+    if (globals.includes(symbol) && symbol.node.span.end.offset <= blockStart) {
+      continue;
+    }
+    if (!parameters.includes(symbol)) {
+      if (parameters.some(other => other.name === symbol.name)) {
+        return `"${symbol.name}" refers to different variables in the selection`;
+      }
+      parameters.push(symbol);
+    }
+  }
+
+  return parameters.map(symbol => symbol.name);
+}
@@ -0,0 +1,80 @@
+/**
+ * OpenProse Fix-All
+ *
+ * Applies the preferred fix of every fixable diagnostic in a document, as
+ * `open-prose validate --fix` does. Fixes are computed against the text they
+ * edit, so after applying a round of non-overlapping fixes the document is
+ * validated again; a fix that overlapped an earlier one gets its turn in
+ * the next round.
+ */
+
+import { parse } from '../parser';
+import { validate, ValidateOptions, ValidationError } from '../validator';
+import { SourceEdit, applyEdits } from './context';
+
+/** Rounds of fixing before giving up on fixes that keep overlapping */
+const MAX_FIX_ROUNDS = 5;
+
+export interface FixAllResult {
+  /** The fixed source */
+  source: string;
+  /** Diagnostics that were fixed, in the order their fixes were applied */
+  fixed: ValidationError[];
+}
+
+/**
+ * Apply the first fix of every fixable diagnostic. A source with parse
+ * errors is returned unchanged. Rules turned off in the lint options are
+ * not fixed, and neither are info diagnostics: their fixes are suggestions,
+ * such as running sessions in parallel, that change what a program does.
+ */
+export function applyFixes(source: string, options?: ValidateOptions): FixAllResult {
+  const fixed: ValidationError[] = [];
+
+  for (let round = 0; round < MAX_FIX_ROUNDS; round++) {
+    const parseResult = parse(source);
+    if (parseResult.errors.length > 0) {
+      break;
+    }
+    const result = validate(parseResult.program, source, options);
+    const edits: SourceEdit[] = [];
+    let deferred = false;
+
+    for (const diagnostic of [...result.errors, ...result.warnings]) {
+      const fix = diagnostic.fixes?.[0];
+      if (!fix || diagnostic.severity === 'info') {
+        continue;
+      }
+      if (fix.edits.some(edit => edits.some(other => overlaps(edit, other)))) {
+        deferred = true;
+        continue;
+      }
+      edits.push(...fix.edits);
+      fixed.push(diagnostic);
+    }
+
+    if (edits.length > 0) {
+      source = applyEdits(source, edits);
+    }
+    if (!deferred) {
+      break;
+    }
+  }
+
+  return { source, fixed };
+}
+
+/**
+ * Two edits conflict if their ranges overlap, or if both insert at the same
+ * place (the order of the insertions would be arbitrary)
+ */
+function overlaps(a: SourceEdit, b: SourceEdit): boolean {
+  const aStart = a.span.start.offset;
+  const aEnd = a.span.end.offset;
+  const bStart = b.span.start.offset;
+  const bEnd = b.span.end.offset;
+  if (aStart === aEnd || bStart === bEnd) {
+    return aStart === bStart || (aStart > bStart && aStart < bEnd) || (bStart > aStart && bStart < aEnd);
+  }
+  return aStart < bEnd && bStart < aEnd;
+}
@@ -0,0 +1,41 @@
+/**
+ * OpenProse Refactoring
+ *
+ * Exports for refactorings that produce source edits
+ */
+
+export type {
+  SourcePosition,
+  SourceEdit,
+  RefactorResult,
+} from './context';
+
+export {
+  RefactorContext,
+  applyEdits,
+} from './context';
+
+export type {
+  RenameTarget,
+} from './rename';
+
+export {
+  prepareRename,
+  renameSymbol,
+} from './rename';
+
+export {
+  extractBlock,
+} from './extract-block';
+
+export {
+  inlineBlock,
+} from './inline-block';
+
+export type {
+  FixAllResult,
+} from './fixes';
+
+export {
+  applyFixes,
+} from './fixes';
@@ -0,0 +1,232 @@
+/**
+ * OpenProse Inline Block Refactoring
+ *
+ * Replaces a `do name(args)` statement with the body of the block,
+ * substituting each argument for its parameter:
+ * - Variable and literal arguments replace the parameter directly, including
+ *   in {param} interpolations where the literal's text can be spliced in
+ * - Other arguments (sessions, arrays, ...) are bound once with
+ *   `const param = arg` ahead of the body, so they are still evaluated once
+ * The block definition itself is kept. Inlining is refused if a variable
+ * declared in the block, or a global it reads, would clash with a variable
+ * visible at the call site.
+ */
+
+import {
+  getChildNodes,
+  ASTNode,
+  DoBlockNode,
+  BlockDefinitionNode,
+  ExpressionNode,
+  StringLiteralNode,
+} from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { SymbolInfo } from '../validator';
+import {
+  RefactorContext,
+  RefactorResult,
+  SourceEdit,
+  SourcePosition,
+  applyEdits,
+  reindent,
+  refactorError,
+} from './context';
+
+/**
+ * Inline the block call at a position
+ */
+export function inlineBlock(source: string, position: SourcePosition): RefactorResult {
+  const context = new RefactorContext(source);
+  if (context.parseErrors.length > 0) {
+    return refactorError('Cannot inline: the file has parse errors');
+  }
+
+  const offset = context.offsetAt(position);
+  const call = findCall(context, offset);
+  if (!call) {
+    return refactorError('No block call to inline at this position');
+  }
+  const callList = context.findStatementList(call);
+  const indent = context.indentation(call);
+  if (!callList || indent === null) {
+    return refactorError('Cannot inline a block call that is used as a value');
+  }
+
+  const symbol = context.table.getSymbolAt(call.name!.span.start);
+  const block = symbol?.kind === 'block' ? symbol.node as BlockDefinitionNode : null;
+  if (!block) {
+    return refactorError(`Cannot inline: block "${call.name!.name}" is not defined`);
+  }
+  if (block.parameters.length !== call.arguments.length) {
+    return refactorError(`Cannot inline: block "${block.name.name}" expects ${block.parameters.length} argument(s)`);
+  }
+  const body = block.body.filter(stmt => stmt.type !== 'CommentStatement');
+  if (body.length === 0) {
+    return refactorError(`Cannot inline: block "${block.name.name}" has an empty body`);
+  }
+  const bodyIndent = context.indentation(body[0]);
+  if (bodyIndent === null) {
+    return refactorError(`Cannot inline: block "${block.name.name}" has its body on the header line`);
+  }
+
+  const bodyStart = context.lineStart(context.extent(body[0]).start);
+  const bodyEnd = context.lineEnd(context.extent(body[body.length - 1]).end);
+  const inBody = (offset: number) => offset >= bodyStart && offset < bodyEnd;
+  const parameters = context.table.symbols.filter(s => s.variableKind === 'parameter' && s.node === block);
+  const locals = context.table.symbols.filter(s =>
+    s.kind === 'variable' && s.variableKind !== 'parameter' && inBody(s.span.start.offset)
+  );
+  // A block's scope span reaches the first token after it, so drop its own variables
+  const blockExtent = context.extent(block);
+  const visible = context.table.getVisibleVariables(context.locationAt(context.extent(call).start))
+    .filter(s => s.span.start.offset < blockExtent.start || s.span.start.offset >= blockExtent.end);
+
+  // Substitute arguments into the body, or bind them ahead of it
+  const substitutions: SourceEdit[] = [];
+  const bindings: string[] = [];
+  for (let i = 0; i < parameters.length; i++) {
+    const parameter = parameters[i];
+    const argument = call.arguments[i];
+    const argumentText = context.source.slice(context.extent(argument).start, context.extent(argument).end);
+    const references = context.table.getReferences(parameter).filter(ref => inBody(ref.span.start.offset));
+    const edits = substituteArgument(context, references.map(ref => ref.span), argument, argumentText);
+
+    if (edits) {
+      substitutions.push(...edits);
+      if (argument.type === 'Identifier' && locals.some(local => local.name === argument.name)) {
+        return refactorError(`Cannot inline: "${argument.name}" is also declared inside the block`);
+      }
+    } else {
+      if (visible.some(variable => variable.name === parameter.name)) {
+        return refactorError(`Cannot inline: "${parameter.name}" would clash with a variable at the call site`);
+      }
+      bindings.push(`const ${parameter.name} = ${argumentText}`);
+    }
+  }
+
+  const clash = findClash(context, block, locals, visible, inBody);
+  if (clash) {
+    return refactorError(`Cannot inline: ${clash}`);
+  }
+
+  const substituted = applyEdits(context.source.slice(0, bodyEnd), substitutions).slice(bodyStart);
+  const bodyText = reindent(substituted, bodyIndent, indent, context.stringLines(bodyStart, bodyEnd));
+  const bindingText = bindings.map(binding => `${indent}${binding}\n`).join('');
+  const newline = bodyText.endsWith('\n') ? '' : '\n';
+
+  const callStart = context.lineStart(context.extent(call).start);
+  const callEnd = context.lineEnd(context.extent(call).end);
+  const replacement = bindingText + bodyText + (context.source.slice(callStart, callEnd).endsWith('\n') ? newline : '');
+  const edits = [context.edit(callStart, callEnd, replacement)];
+
+  const problem = context.checkEdits(edits);
+  if (problem) {
+    return refactorError(`Cannot inline: ${problem}`);
+  }
+  return { edits, error: null };
+}
+
+/**
+ * Find the named `do` call whose header contains an offset
+ */
+function findCall(context: RefactorContext, offset: number): DoBlockNode | null {
+  const search = (node: ASTNode): DoBlockNode | null => {
+    if (node.type === 'DoBlock' && (node as DoBlockNode).name) {
+      const extent = context.extent(node);
+      if (offset >= extent.start && offset <= extent.end) {
+        return node as DoBlockNode;
+      }
+    }
+    for (const child of getChildNodes(node)) {
+      const found = search(child);
+      if (found) {
+        return found;
+      }
+    }
+    return null;
+  };
+  return search(context.program);
+}
+
+/**
+ * Make the edits that replace parameter references with an argument, or
+ * return null if the argument has to be bound to a variable instead
+ */
+function substituteArgument(
+  context: RefactorContext,
+  references: SourceSpan[],
+  argument: ExpressionNode,
+  argumentText: string
+): SourceEdit[] | null {
+  const simple = argument.type === 'Identifier' || argument.type === 'NumberLiteral'
+    || (argument.type === 'StringLiteral' && !argumentText.includes('\n'));
+  if (!simple) {
+    return null;
+  }
+
+  const edits: SourceEdit[] = [];
+  for (const span of references) {
+    const start = span.start.offset;
+    const end = span.end.offset;
+    const stringToken = context.stringTokenAt(span);
+    if (!stringToken || argument.type === 'Identifier') {
+      edits.push(context.edit(start, end, argument.type === 'Identifier' ? argument.name : argumentText));
+      continue;
+    }
+
+    // Splice a literal into the string around the {param} interpolation
+    const text = interpolationText(argument, argumentText, stringToken.text.startsWith('"""'));
+    if (text === null) {
+      return null;
+    }
+    edits.push(context.edit(start - 1, end + 1, text));
+  }
+  return edits;
+}
+
+/**
+ * The text that spells a literal's value inside another string, or null
+ */
+function interpolationText(argument: ExpressionNode, argumentText: string, tripleQuoted: boolean): string | null {
+  if (argument.type === 'NumberLiteral') {
+    return argumentText;
+  }
+  const literal = argument as StringLiteralNode;
+  if (tripleQuoted) {
+    // Triple-quoted strings process no escapes, so the value goes in as-is if it has nothing to escape
+    return /"""|\\|\{/.test(literal.value) ? null : literal.value;
+  }
+  return literal.isTripleQuoted ? null : argumentText.slice(1, -1);
+}
+
+/**
+ * Check that the inlined body means the same at the call site: its own
+ * variables must not clash with visible ones, and the globals it reads
+ * must not be shadowed there
+ */
+function findClash(
+  context: RefactorContext,
+  block: BlockDefinitionNode,
+  locals: SymbolInfo[],
+  visible: SymbolInfo[],
+  inBody: (offset: number) => boolean
+): string | null {
+  for (const local of locals) {
+    if (visible.some(variable => variable.name === local.name)) {
+      return `"${local.name}" in block "${block.name.name}" would clash with a variable at the call site`;
+    }
+  }
+
+  for (const reference of context.table.references) {
+    const symbol = reference.symbol;
+    if (!inBody(reference.span.start.offset) || symbol.kind !== 'variable'
+      || symbol.node === block || locals.includes(symbol)) {
+      continue;
+    }
+    const atCall = visible.find(variable => variable.name === symbol.name);
+    if (atCall && atCall !== symbol) {
+      return `"${symbol.name}" would refer to a different variable at the call site`;
+    }
+  }
+  return null;
+}
@@ -0,0 +1,127 @@
+/**
+ * OpenProse Rename Refactoring
+ *
+ * Renames an agent, block or variable at its declaration and every
+ * reference, including {name} interpolations. References are resolved with
+ * the Validator's scope rules, so a shadowed variable of the same name is
+ * left alone. A rename is refused if it would make any reference resolve
+ * to a different declaration, or introduce a validation error such as a
+ * duplicate definition.
+ */
+
+import { SourceSpan } from '../parser/tokens';
+import { parse } from '../parser';
+import { bind, SymbolInfo } from '../validator';
+import {
+  RefactorContext,
+  RefactorResult,
+  SourcePosition,
+  applyEdits,
+  isValidName,
+  refactorError,
+} from './context';
+
+/**
+ * The symbol a rename at a position would apply to
+ */
+export interface RenameTarget {
+  symbol: SymbolInfo;
+  /** Span of the name under the position */
+  span: SourceSpan;
+}
+
+/**
+ * Find what a rename at a position would rename, or null if nothing can be
+ */
+export function prepareRename(source: string, position: SourcePosition): RenameTarget | null {
+  const context = new RefactorContext(source);
+  const occurrence = context.table.getOccurrenceAt(position);
+  if (!occurrence || occurrence.symbol.isImplicit) {
+    return null;
+  }
+  return occurrence;
+}
+
+/**
+ * Rename the agent, block or variable at a position
+ */
+export function renameSymbol(source: string, position: SourcePosition, newName: string): RefactorResult {
+  const context = new RefactorContext(source);
+  if (context.parseErrors.length > 0) {
+    return refactorError('Cannot rename: the file has parse errors');
+  }
+
+  const occurrence = context.table.getOccurrenceAt(position);
+  if (!occurrence) {
+    return refactorError('No agent, block or variable to rename at this position');
+  }
+  const symbol = occurrence.symbol;
+  if (symbol.isImplicit) {
+    return refactorError(`Cannot rename the implicit "${symbol.name}" variable`);
+  }
+  if (!isValidName(newName)) {
+    return refactorError(`"${newName}" is not a valid name`);
+  }
+  if (newName === symbol.name) {
+    return { edits: [], error: null };
+  }
+
+  const conflict = findDefinitionConflict(context, symbol, newName);
+  if (conflict) {
+    return refactorError(`Cannot rename: ${conflict}`);
+  }
+
+  // Assignments record the declared name as a write reference too
+  const spans = new Map<number, SourceSpan>();
+  for (const span of [symbol.span, ...context.table.getReferences(symbol).map(reference => reference.span)]) {
+    spans.set(span.start.offset, span);
+  }
+  const edits = Array.from(spans.values())
+    .sort((a, b) => a.start.offset - b.start.offset)
+    .map(span => ({ span, newText: newName }));
+
+  const captured = findChangedReference(context, applyEdits(source, edits), symbol);
+  if (captured) {
+    return refactorError(`Cannot rename: ${captured}`);
+  }
+  const problem = context.checkEdits(edits);
+  if (problem) {
+    return refactorError(`Cannot rename: ${problem}`);
+  }
+
+  return { edits, error: null };
+}
+
+/**
+ * Agents and blocks share one namespace; variables may not reuse agent names
+ */
+function findDefinitionConflict(context: RefactorContext, symbol: SymbolInfo, newName: string): string | null {
+  const existing = context.table.symbols.find(other =>
+    other.name === newName
+    && (other.kind === 'agent' || (other.kind === 'block' && symbol.kind !== 'variable'))
+  );
+  return existing ? `${existing.kind} "${newName}" already exists` : null;
+}
+
+/**
+ * Check that every reference in the renamed source resolves to the same
+ * declaration as before. Symbols and references are recorded in traversal
+ * order, which a rename doesn't change.
+ */
+function findChangedReference(context: RefactorContext, edited: string, renamed: SymbolInfo): string | null {
+  const before = context.table;
+  const after = bind(parse(edited).program);
+
+  if (after.symbols.length !== before.symbols.length) {
+    return `"${renamed.name}" would collide with another declaration`;
+  }
+  for (let i = 0; i < Math.max(before.references.length, after.references.length); i++) {
+    const old = before.references[i];
+    const renamedRef = after.references[i];
+    if (!old || !renamedRef || old.symbol.id !== renamedRef.symbol.id) {
+      const name = (old ?? renamedRef).symbol.name;
+      return `a reference to "${name}" would resolve to a different declaration`;
+    }
+  }
+  return null;
+}
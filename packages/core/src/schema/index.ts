@@ -0,0 +1,17 @@
+/**
+ * OpenProse Output Schemas
+ *
+ * Exports for printing, converting and checking `returns` types
+ */
+
+export type {
+  JsonSchema,
+} from './schema';
+
+export {
+  formatType,
+  toJsonSchema,
+  fieldType,
+  describeType,
+  checkValue,
+} from './schema';
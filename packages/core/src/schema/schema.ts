@@ -0,0 +1,116 @@
+/**
+ * OpenProse Output Schemas
+ *
+ * A session or block that declares `returns <type>` promises output of that
+ * shape. These helpers print a type as source, convert it to the JSON
+ * Schema a backend can ask a model to follow, and check a value against it.
+ */
+
+import { TypeNode } from '../parser';
+
+/**
+ * The subset of JSON Schema that output types convert to
+ */
+export interface JsonSchema {
+  type: 'string' | 'number' | 'boolean' | 'array' | 'object';
+  items?: JsonSchema;
+  properties?: { [name: string]: JsonSchema };
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+/**
+ * Print a type as it's written in source: `{ steps: string[], risk: number }`
+ */
+export function formatType(type: TypeNode): string {
+  switch (type.type) {
+    case 'PrimitiveType':
+      return type.name;
+    case 'ArrayType':
+      return `${formatType(type.element)}[]`;
+    case 'ObjectType':
+      return type.fields.length === 0
+        ? '{}'
+        : `{ ${type.fields.map(field => `${field.name.name}: ${formatType(field.valueType)}`).join(', ')} }`;
+  }
+}
+
+/**
+ * Convert a type to JSON Schema. Every field of an object is required, and
+ * no others are allowed.
+ */
+export function toJsonSchema(type: TypeNode): JsonSchema {
+  switch (type.type) {
+    case 'PrimitiveType':
+      return { type: type.name };
+    case 'ArrayType':
+      return { type: 'array', items: toJsonSchema(type.element) };
+    case 'ObjectType':
+      return {
+        type: 'object',
+        properties: Object.fromEntries(type.fields.map(field => [field.name.name, toJsonSchema(field.valueType)])),
+        required: type.fields.map(field => field.name.name),
+        additionalProperties: false,
+      };
+  }
+}
+
+/**
+ * The type of a field of an object type; undefined if the type has no such
+ * field or isn't an object
+ */
+export function fieldType(type: TypeNode, name: string): TypeNode | undefined {
+  return type.type === 'ObjectType' ? type.fields.find(field => field.name.name === name)?.valueType : undefined;
+}
+
+/**
+ * Describe what a type is, with an article: "a string", "an array"
+ */
+export function describeType(type: TypeNode): string {
+  const name = type.type === 'PrimitiveType' ? type.name : type.type === 'ArrayType' ? 'array' : 'object';
+  return /^[aeiou]/.test(name) ? `an ${name}` : `a ${name}`;
+}
+
+/**
+ * Check a value against a type. Returns what's wrong with the first part
+ * that doesn't match, such as `output.steps[1] should be a string, not a
+ * number`, or null if the value matches.
+ */
+export function checkValue(value: unknown, type: TypeNode, path: string = 'output'): string | null {
+  const actual = Array.isArray(value) ? 'an array' : value === null ? 'null' : `${/^[aeiou]/.test(typeof value) ? 'an' : 'a'} ${typeof value}`;
+  const mismatch = `${path} should be ${describeType(type)}, not ${actual}`;
+
+  switch (type.type) {
+    case 'PrimitiveType':
+      return typeof value === type.name && !(type.name === 'number' && !Number.isFinite(value)) ? null : mismatch;
+    case 'ArrayType': {
+      if (!Array.isArray(value)) {
+        return mismatch;
+      }
+      for (const [index, element] of value.entries()) {
+        const problem = checkValue(element, type.element, `${path}[${index}]`);
+        if (problem) {
+          return problem;
+        }
+      }
+      return null;
+    }
+    case 'ObjectType': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return mismatch;
+      }
+      const record = value as { [key: string]: unknown };
+      for (const field of type.fields) {
+        if (!(field.name.name in record)) {
+          return `${path} is missing "${field.name.name}"`;
+        }
+        const problem = checkValue(record[field.name.name], field.valueType, `${path}.${field.name.name}`);
+        if (problem) {
+          return problem;
+        }
+      }
+      const extra = Object.keys(record).find(key => !type.fields.some(field => field.name.name === key));
+      return extra === undefined ? null : `${path} has an unexpected field "${extra}"`;
+    }
+  }
+}
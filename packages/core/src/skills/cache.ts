@@ -0,0 +1,61 @@
+/**
+ * OpenProse Skill Cache
+ *
+ * Archives are stored under the hash of their content, in
+ * `.prose/cache/sha512/<hash>` by default. The same archive is stored once
+ * however many sources name it, and reading one checks it against the
+ * integrity a lockfile records, so installs can run offline once the cache
+ * is filled.
+ */
+
+import { createHash } from 'crypto';
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'fs';
+import { dirname, join } from 'path';
+
+/** Where archives are cached, relative to the working directory */
+export const DEFAULT_SKILL_CACHE_DIR = join('.prose', 'cache');
+
+/**
+ * The Subresource Integrity string of an archive: `sha512-<base64 digest>`
+ */
+export function integrityOf(data: Buffer): string {
+  return `sha512-${createHash('sha512').update(data).digest('base64')}`;
+}
+
+export class SkillCache {
+  constructor(private readonly directory: string = DEFAULT_SKILL_CACHE_DIR) {}
+
+  /**
+   * Where the archive with an integrity is, or would be, cached
+   */
+  public path(integrity: string): string {
+    const digest = Buffer.from(integrity.replace(/^sha512-/, ''), 'base64').toString('hex');
+    return join(this.directory, 'sha512', digest);
+  }
+
+  /**
+   * The archive with an integrity, if it's cached and intact
+   */
+  public read(integrity: string): Buffer | null {
+    const file = this.path(integrity);
+    if (!existsSync(file)) {
+      return null;
+    }
+    const data = readFileSync(file);
+    return integrityOf(data) === integrity ? data : null;
+  }
+
+  /**
+   * Cache an archive, returning its integrity
+   */
+  public write(data: Buffer): string {
+    const integrity = integrityOf(data);
+    const file = this.path(integrity);
+    mkdirSync(dirname(file), { recursive: true });
+    // Write then rename, so a crash never leaves a partial archive
+    const temporary = `${file}.tmp`;
+    writeFileSync(temporary, data);
+    renameSync(temporary, file);
+    return integrity;
+  }
+}
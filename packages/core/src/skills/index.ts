@@ -0,0 +1,53 @@
+/**
+ * OpenProse Skills
+ *
+ * Exports for resolving skill imports, the prose.lock lockfile and the
+ * content-addressed skill cache
+ */
+
+export type {
+  SkillSourceKind,
+  SkillSource,
+  SkillRegistry,
+} from './registry';
+
+export {
+  SkillError,
+  DirectoryRegistry,
+  RemoteRegistry,
+  parseSkillSource,
+  formatSkillSource,
+} from './registry';
+
+export {
+  DEFAULT_SKILL_CACHE_DIR,
+  SkillCache,
+  integrityOf,
+} from './cache';
+
+export type {
+  LockedSkill,
+  Lockfile,
+} from './lockfile';
+
+export {
+  LOCKFILE_NAME,
+  LOCKFILE_VERSION,
+  LockfileError,
+  emptyLockfile,
+  readLockfile,
+  formatLockfile,
+  writeLockfile,
+} from './lockfile';
+
+export type {
+  InstallOptions,
+  InstallStatus,
+  InstalledSkill,
+  InstallResult,
+} from './install';
+
+export {
+  skillSources,
+  installSkills,
+} from './install';
@@ -0,0 +1,107 @@
+/**
+ * OpenProse Skill Installer
+ *
+ * Makes sure the archive of every skill a program imports is in the cache:
+ * - A source in the lockfile is fetched at its locked version when it isn't
+ *   cached, and must match the locked integrity.
+ * - A new source is resolved to a version, fetched and added to the
+ *   lockfile; with `frozen`, a new source is an error instead.
+ * - Sources no program imports any more are dropped from the lockfile, or
+ *   are an error with `frozen`.
+ * Local sources (`./skills/...`) are read from disk and not installed.
+ */
+
+import { ProgramNode } from '../parser';
+import { SkillCache, integrityOf } from './cache';
+import { LOCKFILE_NAME, Lockfile } from './lockfile';
+import { RemoteRegistry, SkillError, SkillRegistry, parseSkillSource } from './registry';
+
+export interface InstallOptions {
+  /** Where to resolve and fetch skills (default: GitHub and npm) */
+  registry?: SkillRegistry;
+  cache?: SkillCache;
+  /** Fail instead of adding to the lockfile, as `--frozen-lockfile` does */
+  frozen?: boolean;
+}
+
+/** How a skill was installed: already cached, fetched at its locked version, or newly locked */
+export type InstallStatus = 'cached' | 'fetched' | 'added';
+
+export interface InstalledSkill {
+  source: string;
+  version: string;
+  integrity: string;
+  status: InstallStatus;
+}
+
+export interface InstallResult {
+  /** The lockfile with any new sources added */
+  lockfile: Lockfile;
+  skills: InstalledSkill[];
+  /** Whether the lockfile gained or lost sources */
+  changed: boolean;
+}
+
+/**
+ * The sources a program imports skills from
+ */
+export function skillSources(program: ProgramNode): string[] {
+  return program.statements.flatMap(statement => statement.type === 'ImportStatement' ? [statement.source.value] : []);
+}
+
+/**
+ * Install the skills of a set of import sources against a lockfile
+ */
+export async function installSkills(sources: string[], lockfile: Lockfile, options: InstallOptions = {}): Promise<InstallResult> {
+  const registry = options.registry ?? new RemoteRegistry();
+  const cache = options.cache ?? new SkillCache();
+  const skills: InstalledSkill[] = [];
+  const locked: Lockfile['skills'] = {};
+  const wanted = [...new Set(sources)].sort();
+
+  const unused = Object.keys(lockfile.skills).filter(text => !wanted.includes(text));
+  if (options.frozen && unused.length > 0) {
+    throw new SkillError(unused[0], `Not imported any more, but ${LOCKFILE_NAME} can't change with --frozen-lockfile`);
+  }
+
+  for (const text of wanted) {
+    const source = parseSkillSource(text);
+    if (!source) {
+      if (/^(github|npm):/.test(text)) {
+        throw new SkillError(text, 'Expected github:owner/repo[@ref] or npm:package[@version]');
+      }
+      continue;
+    }
+
+    const entry = lockfile.skills[text];
+    if (entry) {
+      locked[text] = entry;
+      if (cache.read(entry.integrity)) {
+        skills.push({ source: text, ...entry, status: 'cached' });
+        continue;
+      }
+      const data = await registry.fetch(source, entry.version);
+      const integrity = integrityOf(data);
+      if (integrity !== entry.integrity) {
+        throw new SkillError(text, `Version ${entry.version} doesn't match ${LOCKFILE_NAME}: expected ${entry.integrity}, got ${integrity}`);
+      }
+      cache.write(data);
+      skills.push({ source: text, ...entry, status: 'fetched' });
+      continue;
+    }
+
+    if (options.frozen) {
+      throw new SkillError(text, `Not in ${LOCKFILE_NAME}, which can't change with --frozen-lockfile`);
+    }
+    const version = await registry.resolve(source);
+    const integrity = cache.write(await registry.fetch(source, version));
+    locked[text] = { version, integrity };
+    skills.push({ source: text, version, integrity, status: 'added' });
+  }
+
+  return {
+    lockfile: { ...lockfile, skills: locked },
+    skills,
+    changed: unused.length > 0 || skills.some(skill => skill.status === 'added'),
+  };
+}
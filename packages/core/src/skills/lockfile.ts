@@ -0,0 +1,92 @@
+/**
+ * OpenProse Lockfile
+ *
+ * `prose.lock` pins every skill a directory's programs import to the
+ * version it resolved to and the integrity of that version's archive:
+ *
+ *   {
+ *     "lockfileVersion": 1,
+ *     "skills": {
+ *       "github:acme/skills@main": { "version": "3f2a...", "integrity": "sha512-..." }
+ *     }
+ *   }
+ *
+ * Skills are keyed by their import source, sorted, so the file diffs well.
+ */
+
+import { existsSync, readFileSync, writeFileSync } from 'fs';
+
+export const LOCKFILE_NAME = 'prose.lock';
+
+/** Version of the lockfile format, bumped on incompatible changes */
+export const LOCKFILE_VERSION = 1;
+
+export interface LockedSkill {
+  version: string;
+  /** Subresource Integrity of the version's archive */
+  integrity: string;
+}
+
+export interface Lockfile {
+  lockfileVersion: number;
+  skills: { [source: string]: LockedSkill };
+}
+
+/**
+ * Error thrown for a lockfile that can't be read or is malformed
+ */
+export class LockfileError extends Error {
+  constructor(public file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'LockfileError';
+  }
+}
+
+export function emptyLockfile(): Lockfile {
+  return { lockfileVersion: LOCKFILE_VERSION, skills: {} };
+}
+
+/**
+ * Read a lockfile; a missing one is empty
+ */
+export function readLockfile(file: string): Lockfile {
+  if (!existsSync(file)) {
+    return emptyLockfile();
+  }
+  let value: unknown;
+  try {
+    value = JSON.parse(readFileSync(file, 'utf-8'));
+  } catch (error) {
+    throw new LockfileError(file, `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const lockfile = value as Partial<Lockfile> | null;
+  if (!lockfile || typeof lockfile !== 'object' || lockfile.lockfileVersion !== LOCKFILE_VERSION) {
+    throw new LockfileError(file, `Expected lockfileVersion ${LOCKFILE_VERSION}`);
+  }
+  if (!lockfile.skills || typeof lockfile.skills !== 'object') {
+    throw new LockfileError(file, '"skills" must be an object');
+  }
+  for (const [source, skill] of Object.entries(lockfile.skills)) {
+    if (typeof skill?.version !== 'string' || !/^sha512-[A-Za-z0-9+/]+=*$/.test(skill?.integrity ?? '')) {
+      throw new LockfileError(file, `"${source}" needs a version and a sha512 integrity`);
+    }
+  }
+  return lockfile as Lockfile;
+}
+
+/**
+ * Render a lockfile with its skills sorted by source
+ */
+export function formatLockfile(lockfile: Lockfile): string {
+  const skills: Lockfile['skills'] = {};
+  for (const source of Object.keys(lockfile.skills).sort()) {
+    const { version, integrity } = lockfile.skills[source];
+    skills[source] = { version, integrity };
+  }
+  return JSON.stringify({ lockfileVersion: lockfile.lockfileVersion, skills }, null, 2) + '\n';
+}
+
+export function writeLockfile(file: string, lockfile: Lockfile): void {
+  writeFileSync(file, formatLockfile(lockfile));
+}
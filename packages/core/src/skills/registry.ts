@@ -0,0 +1,189 @@
+/**
+ * OpenProse Skill Registries
+ *
+ * A registry pins an import source to a version and fetches that version's
+ * archive. Sources name where a skill comes from:
+ *
+ *   github:owner/repo[@ref]    a repository at a branch, tag or commit
+ *   npm:package[@version|tag]  a published package
+ *
+ * GitHub versions are commit SHAs, so a branch pins to where it is now.
+ * Archives are opaque bytes (tarballs for GitHub and npm); the installer
+ * only hashes and caches them.
+ */
+
+import { existsSync, readFileSync, readdirSync } from 'fs';
+import { join } from 'path';
+
+export type SkillSourceKind = 'github' | 'npm';
+
+/** owner/repo, where neither is . or .. */
+const GITHUB_NAME = /^(?!\.\.?\/)[\w.-]+\/(?!\.\.?$)[\w.-]+$/;
+
+/** An npm package name, unscoped or @scope/name */
+const NPM_NAME = /^(@[a-z0-9~-][a-z0-9._~-]*\/)?[a-z0-9~-][a-z0-9._~-]*$/;
+
+/**
+ * A parsed import source
+ */
+export interface SkillSource {
+  kind: SkillSourceKind;
+  /** owner/repo for GitHub, the package name for npm */
+  name: string;
+  /** Requested branch, tag, commit or version; null for the latest */
+  ref: string | null;
+}
+
+export interface SkillRegistry {
+  /** Pin a source to a version */
+  resolve(source: SkillSource): Promise<string>;
+  /** Fetch the archive of a pinned version */
+  fetch(source: SkillSource, version: string): Promise<Buffer>;
+}
+
+/**
+ * Error thrown for a skill that can't be resolved, fetched or verified
+ */
+export class SkillError extends Error {
+  constructor(public source: string, message: string) {
+    super(`${source}: ${message}`);
+    this.name = 'SkillError';
+  }
+}
+
+/**
+ * Parse a `github:` or `npm:` import source. Other sources, such as local
+ * paths, aren't installed and give null.
+ */
+export function parseSkillSource(source: string): SkillSource | null {
+  const match = /^(github|npm):(.+)$/.exec(source);
+  if (!match) {
+    return null;
+  }
+  const [, kind, spec] = match;
+  // Scoped npm packages start with @
+  const at = spec.indexOf('@', 1);
+  const name = at < 0 ? spec : spec.slice(0, at);
+  const ref = at < 0 ? null : spec.slice(at + 1) || null;
+  // Names become registry paths, so they must not climb out of it
+  if (!(kind === 'github' ? GITHUB_NAME : NPM_NAME).test(name)) {
+    return null;
+  }
+  return { kind: kind as SkillSourceKind, name, ref };
+}
+
+/**
+ * Format a parsed source back into an import source
+ */
+export function formatSkillSource(source: SkillSource): string {
+  return `${source.kind}:${source.name}${source.ref ? `@${source.ref}` : ''}`;
+}
+
+/**
+ * A registry in a local directory, laid out as
+ * `<root>/<kind>/<name>/<version>.tgz`: `npm/web-search/1.2.0.tgz`,
+ * `github/acme/skills/main.tgz`. Without a ref, the highest version wins.
+ */
+export class DirectoryRegistry implements SkillRegistry {
+  constructor(private readonly root: string) {}
+
+  public async resolve(source: SkillSource): Promise<string> {
+    const versions = this.versions(source);
+    if (source.ref === null) {
+      const latest = versions.sort(compareVersions)[versions.length - 1];
+      if (latest === undefined) {
+        throw new SkillError(formatSkillSource(source), `No versions in ${this.directory(source)}`);
+      }
+      return latest;
+    }
+    if (!versions.includes(source.ref)) {
+      throw new SkillError(formatSkillSource(source), `No version "${source.ref}" in ${this.directory(source)}`);
+    }
+    return source.ref;
+  }
+
+  public async fetch(source: SkillSource, version: string): Promise<Buffer> {
+    // Only versions in the directory, so a version from prose.lock can't name another file
+    if (!this.versions(source).includes(version)) {
+      throw new SkillError(formatSkillSource(source), `No version "${version}" in ${this.directory(source)}`);
+    }
+    return readFileSync(join(this.directory(source), `${version}.tgz`));
+  }
+
+  private directory(source: SkillSource): string {
+    return join(this.root, source.kind, source.name);
+  }
+
+  private versions(source: SkillSource): string[] {
+    const directory = this.directory(source);
+    if (!existsSync(directory)) {
+      return [];
+    }
+    return readdirSync(directory)
+      .filter(file => file.endsWith('.tgz'))
+      .map(file => file.slice(0, -'.tgz'.length));
+  }
+}
+
+/**
+ * The GitHub and npm registries, over HTTPS
+ */
+export class RemoteRegistry implements SkillRegistry {
+  public async resolve(source: SkillSource): Promise<string> {
+    if (source.kind === 'github') {
+      const sha = await request(source, `https://api.github.com/repos/${source.name}/commits/${source.ref ?? 'HEAD'}`, {
+        accept: 'application/vnd.github.sha',
+      });
+      return sha.toString('utf-8').trim();
+    }
+    const metadata = await this.packageMetadata(source);
+    const tag = metadata['dist-tags']?.[source.ref ?? 'latest'];
+    const version = tag ?? source.ref;
+    if (!version || !metadata.versions?.[version]) {
+      throw new SkillError(formatSkillSource(source), `No version "${source.ref ?? 'latest'}" on npm`);
+    }
+    return version;
+  }
+
+  public async fetch(source: SkillSource, version: string): Promise<Buffer> {
+    if (source.kind === 'github') {
+      return request(source, `https://codeload.github.com/${source.name}/tar.gz/${version}`);
+    }
+    const tarball = (await this.packageMetadata(source)).versions?.[version]?.dist?.tarball;
+    if (!tarball) {
+      throw new SkillError(formatSkillSource(source), `No version "${version}" on npm`);
+    }
+    return request(source, tarball);
+  }
+
+  private async packageMetadata(source: SkillSource): Promise<NpmMetadata> {
+    const body = await request(source, `https://registry.npmjs.org/${source.name.replace('/', '%2f')}`);
+    return JSON.parse(body.toString('utf-8')) as NpmMetadata;
+  }
+}
+
+/** The parts of npm package metadata the registry reads */
+interface NpmMetadata {
+  'dist-tags'?: { [tag: string]: string };
+  versions?: { [version: string]: { dist?: { tarball?: string } } };
+}
+
+async function request(source: SkillSource, url: string, headers: { [name: string]: string } = {}): Promise<Buffer> {
+  let response: Response;
+  try {
+    response = await fetch(url, { headers });
+  } catch (error) {
+    throw new SkillError(formatSkillSource(source), `Can't reach ${url}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!response.ok) {
+    throw new SkillError(formatSkillSource(source), `${url} answered ${response.status} ${response.statusText}`);
+  }
+  return Buffer.from(await response.arrayBuffer());
+}
+
+/**
+ * Order versions like 1.2.0 < 1.10.0, comparing runs of digits as numbers
+ */
+function compareVersions(a: string, b: string): number {
+  return a.localeCompare(b, 'en', { numeric: true });
+}
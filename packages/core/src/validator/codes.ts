@@ -0,0 +1,115 @@
+/**
+ * OpenProse Diagnostic Codes
+ *
+ * Every validator diagnostic carries a stable code, so tools can match on
+ * the kind of problem rather than on message text. Codes keep their meaning
+ * once published; a retired check keeps its number reserved.
+ *
+ * - OP0xxx: syntax errors from the parser
+ * - OP1xxx: declarations and references
+ * - OP2xxx: program structure (imports, definitions, sessions)
+ * - OP3xxx: control flow (parallel, loops, try, choice, if, pipelines)
+ * - OP4xxx: properties
+ * - OP5xxx: strings, prompts and comments
+ */
+
+export const DiagnosticCodes = {
+  // Syntax
+  ParseError: 'OP0001',
+
+  // Declarations and references
+  DuplicateVariable: 'OP1001',
+  VariableConflictsWithAgent: 'OP1002',
+  ShadowedVariable: 'OP1003',
+  DuplicateImport: 'OP1004',
+  DuplicateAgent: 'OP1005',
+  DuplicateBlock: 'OP1006',
+  BlockConflictsWithAgent: 'OP1007',
+  DuplicateParameter: 'OP1008',
+  UndefinedBlock: 'OP1009',
+  ArgumentCountMismatch: 'OP1010',
+  UndefinedVariable: 'OP1011',
+  UndefinedCollection: 'OP1012',
+  ConstReassignment: 'OP1013',
+  UndefinedAgent: 'OP1014',
+  UndefinedContextVariable: 'OP1015',
+  UndefinedInterpolationVariable: 'OP1016',
+  SkillNotImported: 'OP1017',
+  ModuleNameConflict: 'OP1018',
+  UnknownField: 'OP1019',
+  DuplicateField: 'OP1020',
+
+  // Program structure
+  ImportNotAtTop: 'OP2001',
+  EmptyImportName: 'OP2002',
+  EmptyImportSource: 'OP2003',
+  UnknownImportSource: 'OP2004',
+  NestedAgentDefinition: 'OP2005',
+  MissingAgentName: 'OP2006',
+  MissingAgentModel: 'OP2007',
+  MissingAgentPrompt: 'OP2008',
+  NestedBlockDefinition: 'OP2009',
+  MissingBlockName: 'OP2010',
+  EmptyBlockBody: 'OP2011',
+  MissingSessionPrompt: 'OP2012',
+  BudgetExceeded: 'OP2013',
+  ModuleNotFound: 'OP2014',
+  ImportCycle: 'OP2015',
+  ModuleHasErrors: 'OP2016',
+  IgnoredModuleStatement: 'OP2017',
+
+  // Control flow
+  EmptyParallel: 'OP3001',
+  InvalidJoinStrategy: 'OP3002',
+  TooFewParallelBranches: 'OP3003',
+  MissingAnyCount: 'OP3004',
+  InvalidOnFail: 'OP3005',
+  CountWithoutAny: 'OP3006',
+  InvalidCount: 'OP3007',
+  CountExceedsBranches: 'OP3008',
+  InvalidRepeatCount: 'OP3009',
+  UnboundedLoop: 'OP3010',
+  InvalidMaxIterations: 'OP3011',
+  TryWithoutHandler: 'OP3012',
+  EmptyThrowMessage: 'OP3013',
+  EmptyChoice: 'OP3014',
+  DuplicateOptionLabel: 'OP3015',
+  EmptyIfBody: 'OP3016',
+  EmptyPipeline: 'OP3017',
+  EmptyPipeOperation: 'OP3018',
+  InvalidReduceParameters: 'OP3019',
+  EmptyCondition: 'OP3020',
+  AmbiguousCondition: 'OP3021',
+  MaxNestingDepth: 'OP3022',
+  ParallelizableSessions: 'OP3023',
+  NotIterable: 'OP3024',
+
+  // Properties
+  DuplicateProperty: 'OP4001',
+  MisplacedProperty: 'OP4002',
+  UnknownProperty: 'OP4003',
+  InvalidSkills: 'OP4004',
+  EmptySkills: 'OP4005',
+  InvalidPermissions: 'OP4006',
+  UnknownPermission: 'OP4007',
+  InvalidContext: 'OP4008',
+  InvalidRetry: 'OP4009',
+  HighRetry: 'OP4010',
+  InvalidBackoff: 'OP4011',
+  InvalidModel: 'OP4012',
+  InvalidPrompt: 'OP4013',
+  EmptyPromptProperty: 'OP4014',
+  PromptOverridden: 'OP4015',
+
+  // Strings, prompts and comments
+  InvalidComment: 'OP5001',
+  TaskComment: 'OP5002',
+  EmptyPrompt: 'OP5003',
+  BlankPrompt: 'OP5004',
+  LongPrompt: 'OP5005',
+  UnclosedInterpolation: 'OP5006',
+  UnknownEscape: 'OP5007',
+  LongString: 'OP5008',
+} as const;
+
+export type DiagnosticCode = typeof DiagnosticCodes[keyof typeof DiagnosticCodes];
@@ -0,0 +1,194 @@
+/**
+ * OpenProse Lint Configuration Files
+ *
+ * Projects configure lint rules in a `.openproserc` (JSON) or
+ * `prose.config.json` file, found by searching up from the program's
+ * directory:
+ *
+ *   {
+ *     "rules": {
+ *       "unknown-property": "off",
+ *       "long-prompt": ["warning", { "max": 4000 }],
+ *       "max-nesting-depth": ["error", { "max": 4 }],
+ *       "unbounded-loop": ["error", { "conditional": true }]
+ *     },
+ *     "customRules": ["./lint/no-opus.js"],
+ *     "budget": { "cost": 2.5, "tokens": 500000, "sessions": 40 },
+ *     "prices": { "opus": { "input": 15, "output": 75 } }
+ *   }
+ *
+ * Custom rule modules, resolved relative to the config file, export a
+ * LintRule, an array of them, or `{ rules: [...] }`. A budget makes
+ * validation fail when a program's worst case exceeds it (see
+ * planner/cost.ts).
+ */
+
+import { existsSync, readFileSync } from 'fs';
+import { dirname, join, resolve } from 'path';
+import { BUDGET_LIMITS, Budget, PriceTable } from '../planner';
+import { LintConfig, LintOptions, LintRule, RuleSetting } from './rules';
+
+/** Config file names, in order of precedence within a directory */
+export const CONFIG_FILE_NAMES = ['.openproserc', '.openproserc.json', 'prose.config.json'];
+
+const SEVERITIES = ['off', 'info', 'warning', 'error'];
+
+/**
+ * A config file's contents
+ */
+export interface ConfigFile extends LintConfig {
+  /** Modules exporting custom rules, relative to the config file */
+  customRules?: string[];
+}
+
+/**
+ * Error thrown for a config file that can't be read or is malformed
+ */
+export class ConfigError extends Error {
+  constructor(public file: string, message: string) {
+    super(`${file}: ${message}`);
+    this.name = 'ConfigError';
+  }
+}
+
+/**
+ * Find the config file that applies to a directory, searching upwards
+ */
+export function findConfigFile(startDir: string): string | null {
+  let dir = resolve(startDir);
+  for (;;) {
+    for (const name of CONFIG_FILE_NAMES) {
+      const candidate = join(dir, name);
+      if (existsSync(candidate)) {
+        return candidate;
+      }
+    }
+    const parent = dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+/**
+ * Load a config file and the custom rules it names
+ */
+export function loadConfig(file: string): LintOptions {
+  let text: string;
+  try {
+    text = readFileSync(file, 'utf-8');
+  } catch (error) {
+    throw new ConfigError(file, error instanceof Error ? error.message : String(error));
+  }
+
+  const { customRules = [], ...config } = parseConfig(file, text);
+  const rules = customRules.flatMap(modulePath => loadRules(file, modulePath));
+  return { config, rules };
+}
+
+/**
+ * Parse and check the contents of a config file
+ */
+export function parseConfig(file: string, text: string): ConfigFile {
+  let value: unknown;
+  try {
+    value = JSON.parse(text);
+  } catch (error) {
+    throw new ConfigError(file, `Invalid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!isObject(value)) {
+    throw new ConfigError(file, 'Config must be a JSON object');
+  }
+
+  const rules = value.rules ?? {};
+  if (!isObject(rules)) {
+    throw new ConfigError(file, '"rules" must be an object');
+  }
+  for (const [rule, setting] of Object.entries(rules)) {
+    if (!isRuleSetting(setting)) {
+      throw new ConfigError(
+        file,
+        `Invalid setting for rule "${rule}": expected one of ${SEVERITIES.join(', ')}, or [severity, options]`
+      );
+    }
+  }
+
+  const customRules = value.customRules ?? [];
+  if (!Array.isArray(customRules) || !customRules.every(path => typeof path === 'string')) {
+    throw new ConfigError(file, '"customRules" must be an array of module paths');
+  }
+
+  const config: ConfigFile = { rules: rules as Record<string, RuleSetting>, customRules };
+  if (value.budget !== undefined) {
+    config.budget = parseBudget(file, value.budget);
+  }
+  if (value.prices !== undefined) {
+    config.prices = parsePrices(file, value.prices);
+  }
+  return config;
+}
+
+function parseBudget(file: string, budget: unknown): Budget {
+  if (!isObject(budget)) {
+    throw new ConfigError(file, `"budget" must be an object with any of ${BUDGET_LIMITS.join(', ')}`);
+  }
+  for (const [limit, value] of Object.entries(budget)) {
+    if (!BUDGET_LIMITS.includes(limit as keyof Budget)) {
+      throw new ConfigError(file, `Unknown budget limit "${limit}": expected one of ${BUDGET_LIMITS.join(', ')}`);
+    }
+    if (typeof value !== 'number' || value < 0) {
+      throw new ConfigError(file, `Budget limit "${limit}" must be a non-negative number`);
+    }
+  }
+  return budget as Budget;
+}
+
+function parsePrices(file: string, prices: unknown): PriceTable {
+  if (!isObject(prices)) {
+    throw new ConfigError(file, '"prices" must be an object of model prices');
+  }
+  for (const [model, price] of Object.entries(prices)) {
+    if (!isObject(price) || typeof price.input !== 'number' || typeof price.output !== 'number') {
+      throw new ConfigError(file, `Invalid price for model "${model}": expected { "input": number, "output": number } in dollars per million tokens`);
+    }
+  }
+  return prices as PriceTable;
+}
+
+function loadRules(file: string, modulePath: string): LintRule[] {
+  let exported: unknown;
+  try {
+    exported = require(resolve(dirname(file), modulePath));
+  } catch (error) {
+    throw new ConfigError(file, `Cannot load custom rules "${modulePath}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (isObject(exported) && 'default' in exported) {
+    exported = exported.default;
+  }
+  if (isObject(exported) && Array.isArray(exported.rules)) {
+    exported = exported.rules;
+  }
+  const rules = Array.isArray(exported) ? exported : [exported];
+  for (const rule of rules) {
+    if (!isObject(rule) || typeof rule.name !== 'string' || typeof rule.create !== 'function') {
+      throw new ConfigError(file, `"${modulePath}" must export rules with a name and a create() function`);
+    }
+  }
+  return rules as LintRule[];
+}
+
+function isRuleSetting(setting: unknown): boolean {
+  if (typeof setting === 'string') {
+    return SEVERITIES.includes(setting);
+  }
+  return Array.isArray(setting)
+    && (setting.length === 1 || setting.length === 2)
+    && SEVERITIES.includes(setting[0])
+    && (setting.length === 1 || isObject(setting[1]));
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,230 @@
+/**
+ * OpenProse Quick Fixes
+ *
+ * Builds the fixes the Validator attaches to mechanically fixable
+ * diagnostics. A fix is a titled set of edits against the original source;
+ * a diagnostic may offer several alternatives, best first.
+ */
+
+import { ASTNode, ImportStatementNode, UseStatementNode, LoopBlockNode, PropertyNode } from '../parser';
+import { SourceLocation, SourceSpan } from '../parser/tokens';
+import type { SourceEdit } from '../refactor/context';
+
+/**
+ * One way to fix a diagnostic
+ */
+export interface ValidationFix {
+  title: string;
+  edits: SourceEdit[];
+}
+
+/** Iteration limit suggested for unbounded loops */
+const DEFAULT_MAX_ITERATIONS = 10;
+
+/** Model used for suggested agent definitions */
+const DEFAULT_AGENT_MODEL = 'sonnet';
+
+export class QuickFixes {
+  private readonly lineStarts: number[] = [0];
+
+  constructor(private source: string) {
+    for (let i = 0; i < source.length; i++) {
+      if (source[i] === '\n') {
+        this.lineStarts.push(i + 1);
+      }
+    }
+  }
+
+  /**
+   * Replace a misspelled name with the closest candidates, or with any
+   * candidate when the name must be one of a fixed set
+   */
+  public suggestNames(name: string, candidates: Iterable<string>, span: SourceSpan, anyCandidate = false): ValidationFix[] {
+    return rankNames(name, candidates, anyCandidate ? Infinity : typoLimit(name)).map(candidate => ({
+      title: `Change to "${candidate}"`,
+      edits: [this.edit(span.start.offset, span.end.offset, candidate)],
+    }));
+  }
+
+  /**
+   * Define a missing agent above the top-level statement that uses it
+   */
+  public defineAgent(name: string, topLevel: ASTNode): ValidationFix {
+    const insertAt = commentBlockStart(this.source, this.lineStart(topLevel.span.start.offset));
+    const separator = insertAt > 0 && this.source.slice(this.lineStart(insertAt - 1), insertAt).trim() !== '' ? '\n' : '';
+    const definition = `${separator}agent ${name}:\n  model: ${DEFAULT_AGENT_MODEL}\n  prompt: "You are ${name}"\n\n`;
+    return {
+      title: `Define agent "${name}"`,
+      edits: [this.edit(insertAt, insertAt, definition)],
+    };
+  }
+
+  /**
+   * Move an import up to the end of the leading imports, or to the line of
+   * the first other statement if there are none (below any header comment)
+   */
+  public moveImport(
+    importStmt: ImportStatementNode | UseStatementNode,
+    lastLeadingImport: ImportStatementNode | UseStatementNode | null,
+    firstStatement: SourceSpan
+  ): ValidationFix | null {
+    const range = this.ownLines(importStmt.span);
+    if (!range) {
+      return null;
+    }
+    const text = this.source.slice(range.start, range.end);
+    const insertAt = lastLeadingImport
+      ? this.lineEnd(lastLeadingImport.span.end.offset)
+      : this.lineStart(firstStatement.start.offset);
+    const lead = insertAt > 0 && this.source[insertAt - 1] !== '\n' ? '\n' : '';
+
+    // Take a blank line along when the import sat between two, so the gap closes
+    let removeEnd = range.end;
+    const blankBefore = range.start === 0 || this.source.slice(this.lineStart(range.start - 1), range.start).trim() === '';
+    const nextLineEnd = this.lineEnd(range.end);
+    if (blankBefore && range.end < this.source.length && this.source.slice(range.end, nextLineEnd).trim() === '') {
+      removeEnd = nextLineEnd;
+    }
+    return {
+      title: `Move ${importStmt.type === 'UseStatement' ? 'use statement' : 'import'} to the top of the file`,
+      edits: [
+        this.edit(insertAt, insertAt, lead + text + (text.endsWith('\n') ? '' : '\n')),
+        this.edit(range.start, removeEnd, ''),
+      ],
+    };
+  }
+
+  /**
+   * Remove a duplicate property
+   */
+  public removeProperty(prop: PropertyNode): ValidationFix | null {
+    // Nested blocks (permissions) end at the next statement, so leave them alone
+    const range = prop.value.type === 'ObjectExpression' ? null : this.ownLines(prop.span);
+    if (!range) {
+      return null;
+    }
+    return {
+      title: `Remove duplicate "${prop.name.name}" property`,
+      edits: [this.edit(range.start, range.end, '')],
+    };
+  }
+
+  /**
+   * Add an iteration limit to an unbounded loop
+   */
+  public addMaxIterations(loop: LoopBlockNode): ValidationFix {
+    const afterKeyword = loop.span.start.offset + 'loop'.length;
+    return {
+      title: `Add (max: ${DEFAULT_MAX_ITERATIONS})`,
+      edits: [this.edit(afterKeyword, afterKeyword, ` (max: ${DEFAULT_MAX_ITERATIONS})`)],
+    };
+  }
+
+  /**
+   * Wrap consecutive statements in a parallel block. Statements holding a
+   * multi-line string are left alone, since indenting would change it.
+   */
+  public wrapInParallel(statements: SourceSpan[]): ValidationFix | null {
+    const first = this.ownLines(statements[0]);
+    const last = this.ownLines(statements[statements.length - 1]);
+    if (!first || !last || this.source.slice(first.start, last.end).includes('"""')) {
+      return null;
+    }
+    const indent = this.source.slice(first.start, statements[0].start.offset);
+    const edits: SourceEdit[] = [];
+    for (let line = first.start; line < last.end; line = this.lineEnd(line)) {
+      if (this.source.slice(line, this.lineEnd(line)).trim() !== '') {
+        edits.push(this.edit(line, line, line === first.start ? `${indent}parallel:\n  ` : '  '));
+      }
+    }
+    return { title: 'Wrap in a parallel block', edits };
+  }
+
+  private edit(start: number, end: number, newText: string): SourceEdit {
+    return { span: { start: this.locationAt(start), end: this.locationAt(end) }, newText };
+  }
+
+  private locationAt(offset: number): SourceLocation {
+    let line = 0;
+    while (line + 1 < this.lineStarts.length && this.lineStarts[line + 1] <= offset) {
+      line++;
+    }
+    return { line: line + 1, column: offset - this.lineStarts[line] + 1, offset };
+  }
+
+  private lineStart(offset: number): number {
+    return this.source.lastIndexOf('\n', offset - 1) + 1;
+  }
+
+  private lineEnd(offset: number): number {
+    const newline = this.source.indexOf('\n', offset);
+    return newline === -1 ? this.source.length : newline + 1;
+  }
+
+  /**
+   * The whole lines of a span, if nothing but whitespace or a comment
+   * shares them
+   */
+  private ownLines(span: SourceSpan): { start: number; end: number } | null {
+    const start = this.lineStart(span.start.offset);
+    const end = this.lineEnd(span.end.offset);
+    const before = this.source.slice(start, span.start.offset);
+    const after = this.source.slice(span.end.offset, end).trim();
+    if (before.trim() !== '' || (after !== '' && !after.startsWith('#'))) {
+      return null;
+    }
+    return { start, end };
+  }
+}
+
+/**
+ * Move an offset at a line start up over the comment lines directly above it
+ */
+export function commentBlockStart(source: string, offset: number): number {
+  while (offset > 0) {
+    const previous = source.lastIndexOf('\n', offset - 2) + 1;
+    if (!source.slice(previous, offset).trim().startsWith('#')) {
+      break;
+    }
+    offset = previous;
+  }
+  return offset;
+}
+
+/**
+ * Candidates within an edit distance of a name, closest first
+ */
+function rankNames(name: string, candidates: Iterable<string>, limit: number): string[] {
+  return Array.from(new Set(candidates))
+    .map(candidate => ({ candidate, distance: editDistance(name, candidate) }))
+    .filter(({ distance }) => distance <= limit)
+    .sort((a, b) => a.distance - b.distance || a.candidate.localeCompare(b.candidate))
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * How many edits a misspelling may be from what was meant
+ */
+function typoLimit(name: string): number {
+  return Math.min(2, Math.max(1, Math.floor(name.length / 3)));
+}
+
+/**
+ * Edit distance between two strings, counting a swap of adjacent
+ * characters as one edit
+ */
+function editDistance(a: string, b: string): number {
+  const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+    Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+  );
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[a.length][b.length];
+}
@@ -5,10 +5,72 @@
 export type {
   ValidationError,
   ValidationResult,
+  RelatedSpan,
+  ValidateOptions,
 } from './validator';
 
 export {
   Validator,
   validate,
   isValid,
+  bind,
+  VALID_MODELS,
+  VALID_PROPERTIES,
 } from './validator';
+
+export type {
+  SymbolKind,
+  VariableKind,
+  SymbolInfo,
+  SymbolReference,
+  InterpolationSpan,
+  ScopeInfo,
+} from './symbols';
+
+export {
+  SymbolTable,
+  findInterpolationSpans,
+} from './symbols';
+
+export type {
+  RuleSeverity,
+  RuleSetting,
+  LintConfig,
+  RuleContext,
+  LintRule,
+  LintOptions,
+} from './rules';
+
+export {
+  RuleSet,
+  getRuleName,
+} from './rules';
+
+export type { ConfigFile } from './config';
+
+export {
+  CONFIG_FILE_NAMES,
+  ConfigError,
+  findConfigFile,
+  loadConfig,
+  parseConfig,
+} from './config';
+
+export type { DiagnosticCode } from './codes';
+
+export { DiagnosticCodes } from './codes';
+
+export type { ValidationFix } from './fixes';
+
+export type {
+  ReportFormat,
+  FileReport,
+  ReportOptions,
+} from './report';
+
+export {
+  REPORT_FORMATS,
+  parseErrorToValidationError,
+  formatDiagnostic,
+  formatReport,
+} from './report';
@@ -0,0 +1,200 @@
+/**
+ * OpenProse Diagnostic Reports
+ *
+ * Formats the diagnostics of one or more files for people and for tools:
+ * - text: one line per diagnostic, as printed by the CLI
+ * - json: a plain array of files and their diagnostics
+ * - sarif: SARIF 2.1.0, for code-scanning dashboards
+ * - github: GitHub Actions workflow commands, which annotate pull requests
+ */
+
+import { ParseError } from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import { DiagnosticCodes } from './codes';
+import { ValidationError } from './validator';
+
+export type ReportFormat = 'text' | 'json' | 'sarif' | 'github';
+
+/** Every supported report format */
+export const REPORT_FORMATS: readonly ReportFormat[] = ['text', 'json', 'sarif', 'github'];
+
+/**
+ * The diagnostics found in one file
+ */
+export interface FileReport {
+  file: string;
+  diagnostics: ValidationError[];
+}
+
+export interface ReportOptions {
+  /** Tool version recorded in SARIF output */
+  toolVersion?: string;
+}
+
+const TOOL_NAME = 'open-prose';
+const TOOL_URI = 'https://github.com/irl-dan/open-prose';
+
+/** Diagnostic names by code, for SARIF rule descriptions */
+const CODE_NAMES: Record<string, string> = Object.fromEntries(
+  Object.entries(DiagnosticCodes).map(([name, code]) => [code, name])
+);
+
+/**
+ * Treat a parse error as a diagnostic, so it can be reported alongside
+ * validation results
+ */
+export function parseErrorToValidationError(error: ParseError): ValidationError {
+  return {
+    code: DiagnosticCodes.ParseError,
+    message: error.message,
+    span: error.span,
+    severity: 'error',
+  };
+}
+
+/**
+ * Format a diagnostic as a line of text, with its related spans indented
+ * below it
+ */
+export function formatDiagnostic(diagnostic: ValidationError): string {
+  const label = diagnostic.severity === 'error' ? 'Error' : diagnostic.severity === 'warning' ? 'Warning' : 'Info';
+  const lines = [`${label} ${diagnostic.code} at ${formatLocation(diagnostic.span)}: ${diagnostic.message}`];
+  for (const related of diagnostic.related ?? []) {
+    lines.push(`  ${related.message} at ${formatLocation(related.span)}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Format the diagnostics of a set of files
+ */
+export function formatReport(reports: FileReport[], format: ReportFormat, options: ReportOptions = {}): string {
+  switch (format) {
+    case 'text':
+      return reports
+        .flatMap(report => report.diagnostics.map(d => `${report.file}: ${formatDiagnostic(d)}`))
+        .join('\n');
+    case 'json':
+      return JSON.stringify(reports.map(toJson), null, 2);
+    case 'sarif':
+      return JSON.stringify(toSarif(reports, options), null, 2);
+    case 'github':
+      return reports.flatMap(report => report.diagnostics.map(d => toGitHubCommand(report.file, d))).join('\n');
+  }
+}
+
+function formatLocation(span: SourceSpan): string {
+  return `line ${span.start.line}, column ${span.start.column}`;
+}
+
+function toRegion(span: SourceSpan) {
+  return {
+    startLine: span.start.line,
+    startColumn: span.start.column,
+    endLine: span.end.line,
+    endColumn: span.end.column,
+  };
+}
+
+// ========== JSON ==========
+
+function toJson(report: FileReport) {
+  return {
+    file: report.file,
+    diagnostics: report.diagnostics.map(diagnostic => ({
+      code: diagnostic.code,
+      severity: diagnostic.severity,
+      message: diagnostic.message,
+      ...toRegion(diagnostic.span),
+      related: (diagnostic.related ?? []).map(related => ({
+        message: related.message,
+        ...toRegion(related.span),
+      })),
+      fixable: (diagnostic.fixes?.length ?? 0) > 0,
+    })),
+  };
+}
+
+// ========== SARIF ==========
+
+function toSarif(reports: FileReport[], options: ReportOptions) {
+  const codes = Array.from(new Set(reports.flatMap(report => report.diagnostics.map(d => d.code)))).sort();
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            informationUri: TOOL_URI,
+            ...(options.toolVersion ? { version: options.toolVersion } : {}),
+            rules: codes.map(code => ({ id: code, name: CODE_NAMES[code] ?? code })),
+          },
+        },
+        results: reports.flatMap(report => report.diagnostics.map(diagnostic => ({
+          ruleId: diagnostic.code,
+          ruleIndex: codes.indexOf(diagnostic.code),
+          level: toSarifLevel(diagnostic.severity),
+          message: { text: diagnostic.message },
+          locations: [toSarifLocation(report.file, diagnostic.span)],
+          ...(diagnostic.related ? {
+            relatedLocations: diagnostic.related.map((related, index) => ({
+              id: index,
+              message: { text: related.message },
+              ...toSarifLocation(report.file, related.span),
+            })),
+          } : {}),
+        }))),
+      },
+    ],
+  };
+}
+
+function toSarifLocation(file: string, span: SourceSpan) {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: file.split('\\').join('/') },
+      region: toRegion(span),
+    },
+  };
+}
+
+function toSarifLevel(severity: ValidationError['severity']): string {
+  switch (severity) {
+    case 'error':
+      return 'error';
+    case 'warning':
+      return 'warning';
+    case 'info':
+      return 'note';
+  }
+}
+
+// ========== GitHub Actions ==========
+
+function toGitHubCommand(file: string, diagnostic: ValidationError): string {
+  const command = diagnostic.severity === 'error' ? 'error' : diagnostic.severity === 'warning' ? 'warning' : 'notice';
+  const properties = [
+    `file=${escapeProperty(file)}`,
+    `line=${diagnostic.span.start.line}`,
+    `col=${diagnostic.span.start.column}`,
+    `endLine=${diagnostic.span.end.line}`,
+    `endColumn=${diagnostic.span.end.column}`,
+    `title=${escapeProperty(diagnostic.code)}`,
+  ];
+  const message = [
+    diagnostic.message,
+    ...(diagnostic.related ?? []).map(related => `${related.message} at ${formatLocation(related.span)}`),
+  ].join('\n');
+  return `::${command} ${properties.join(',')}::${escapeData(message)}`;
+}
+
+function escapeData(value: string): string {
+  return value.replace(/%/g, '%25').replace(/\r/g, '%0D').replace(/\n/g, '%0A');
+}
+
+function escapeProperty(value: string): string {
+  return escapeData(value).replace(/:/g, '%3A').replace(/,/g, '%2C');
+}
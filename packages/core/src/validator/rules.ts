@@ -0,0 +1,178 @@
+/**
+ * OpenProse Lint Rules
+ *
+ * Every validator diagnostic belongs to a rule named after its code
+ * (DiagnosticCodes.UnknownProperty is the "unknown-property" rule, OP4003).
+ * A LintConfig turns rules off, changes their severity and sets their
+ * thresholds; rules can be referred to by name or by code. Teams can add
+ * their own rules, which visit every node of the program with an
+ * ASTVisitor through walkAST.
+ *
+ * A comment of the form `# prose-disable-next-line rule, other-rule`
+ * silences those rules on the line below it (all rules if none are named).
+ */
+
+import { ASTNode, ASTVisitor, CommentNode, ProgramNode, getChildNodes, walkAST } from '../parser';
+import { SourceSpan } from '../parser/tokens';
+import type { Budget, PriceTable } from '../planner';
+import { DiagnosticCode, DiagnosticCodes } from './codes';
+import type { ValidationError } from './validator';
+
+export type RuleSeverity = 'off' | 'info' | 'warning' | 'error';
+
+/**
+ * A rule's severity, optionally with options such as thresholds:
+ * `"off"`, `"error"` or `["warning", { "max": 5000 }]`
+ */
+export type RuleSetting = RuleSeverity | [RuleSeverity] | [RuleSeverity, Record<string, unknown>];
+
+export interface LintConfig {
+  /** Settings by rule name or code */
+  rules?: Record<string, RuleSetting>;
+  /** Limits the worst case of a program may not exceed */
+  budget?: Budget;
+  /** Model prices for the budget's cost limit, over the defaults */
+  prices?: PriceTable;
+}
+
+/**
+ * What a custom rule can see and do while it runs
+ */
+export interface RuleContext {
+  program: ProgramNode;
+  /** Source text, when validated with it */
+  source?: string;
+  /** Options from the rule's setting */
+  options: Record<string, unknown>;
+  /** Report a problem at a span */
+  report(message: string, span: SourceSpan, details?: Pick<ValidationError, 'related' | 'fixes'>): void;
+}
+
+/**
+ * A custom rule. Its diagnostics use the rule name as their code.
+ */
+export interface LintRule {
+  /** Rule name, such as "team/no-opus" */
+  name: string;
+  /** Severity when the config doesn't set one (default: warning) */
+  defaultSeverity?: Exclude<RuleSeverity, 'off'>;
+  /** Create a visitor; walkAST calls it for every node of the program */
+  create(context: RuleContext): ASTVisitor;
+}
+
+export interface LintOptions {
+  config?: LintConfig;
+  rules?: LintRule[];
+}
+
+/** Rules that only run when a config enables them */
+const OFF_BY_DEFAULT: readonly string[] = [DiagnosticCodes.MaxNestingDepth];
+
+const DISABLE_NEXT_LINE = /^#\s*prose-disable-next-line\b(.*)$/;
+
+/**
+ * The rule name for a diagnostic code: OP4003 is "unknown-property"
+ */
+export function getRuleName(code: string): string {
+  const entry = Object.entries(DiagnosticCodes).find(([, value]) => value === code);
+  return entry ? entry[0].replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase() : code;
+}
+
+/**
+ * Resolves rule settings from a config. Settings given by code and by name
+ * are both honoured; a name wins over a code.
+ */
+export class RuleSet {
+  private readonly settings: Map<string, [RuleSeverity, Record<string, unknown>]> = new Map();
+
+  constructor(config: LintConfig = {}) {
+    for (const [rule, setting] of Object.entries(config.rules ?? {})) {
+      const [severity, options = {}] = Array.isArray(setting) ? setting : [setting];
+      this.settings.set(rule, [severity, options]);
+    }
+  }
+
+  /**
+   * The severity of a rule, given the severity it reports with by default
+   */
+  public severity(code: string, defaultSeverity: Exclude<RuleSeverity, 'off'>): RuleSeverity {
+    const setting = this.lookup(code);
+    if (setting) {
+      return setting[0];
+    }
+    return OFF_BY_DEFAULT.includes(code) ? 'off' : defaultSeverity;
+  }
+
+  /**
+   * A numeric option of a rule, such as a threshold
+   */
+  public number(code: DiagnosticCode, option: string, defaultValue: number): number {
+    const value = this.lookup(code)?.[1][option];
+    return typeof value === 'number' ? value : defaultValue;
+  }
+
+  /**
+   * A boolean option of a rule
+   */
+  public flag(code: DiagnosticCode, option: string): boolean {
+    return this.lookup(code)?.[1][option] === true;
+  }
+
+  /**
+   * All options of a rule
+   */
+  public options(code: string): Record<string, unknown> {
+    return this.lookup(code)?.[1] ?? {};
+  }
+
+  private lookup(code: string): [RuleSeverity, Record<string, unknown>] | undefined {
+    return this.settings.get(getRuleName(code)) ?? this.settings.get(code);
+  }
+}
+
+/**
+ * Run custom rules over every node of a program
+ */
+export function runCustomRules(
+  program: ProgramNode,
+  rules: LintRule[],
+  makeContext: (rule: LintRule) => RuleContext
+): void {
+  const visitors = rules.map(rule => rule.create(makeContext(rule)));
+  const visit = (node: ASTNode) => {
+    for (const visitor of visitors) {
+      walkAST(node, visitor);
+    }
+    for (const child of getChildNodes(node)) {
+      visit(child);
+    }
+  };
+  visit(program);
+}
+
+/**
+ * Drop diagnostics silenced by `# prose-disable-next-line` comments
+ */
+export function applyDisableComments(comments: CommentNode[], diagnostics: ValidationError[]): ValidationError[] {
+  const disabled = new Map<number, string[]>();
+  for (const comment of comments) {
+    const match = DISABLE_NEXT_LINE.exec(comment.value.trim());
+    if (match) {
+      const rules = match[1].split(/[\s,]+/).filter(rule => rule !== '');
+      disabled.set(comment.span.start.line + 1, rules);
+    }
+  }
+  if (disabled.size === 0) {
+    return diagnostics;
+  }
+
+  return diagnostics.filter(diagnostic => {
+    const rules = disabled.get(diagnostic.span.start.line);
+    if (!rules) {
+      return true;
+    }
+    return rules.length > 0
+      && !rules.includes(diagnostic.code)
+      && !rules.includes(getRuleName(diagnostic.code));
+  });
+}
@@ -0,0 +1,254 @@
+/**
+ * OpenProse Symbol Table
+ *
+ * Records every declaration (agents, blocks, variables) and every reference
+ * to it, as resolved by the Validator's scope rules. Editor features such as
+ * go-to-definition, find-references and rename are built on top of this.
+ */
+
+import { ASTNode, StringLiteralNode } from '../parser/ast';
+import { SourceLocation, SourceSpan } from '../parser/tokens';
+
+export type SymbolKind = 'agent' | 'block' | 'variable';
+
+/**
+ * How a variable was introduced
+ */
+export type VariableKind =
+  | 'let'        // let x = ...
+  | 'const'      // const x = ...
+  | 'parameter'  // block name(x):
+  | 'loop'       // repeat N as x, for x in ..., loop as x
+  | 'error'      // catch as x
+  | 'pipe';      // reduce(acc, x) or the implicit item in map/filter/pmap
+
+export interface SymbolInfo {
+  id: number;
+  name: string;
+  kind: SymbolKind;
+  variableKind: VariableKind | null;  // null for agents and blocks
+  isConst: boolean;
+  isImplicit: boolean;  // True for the implicit pipe "item"
+  span: SourceSpan;     // Span of the declared name
+  node: ASTNode;        // The declaring node
+}
+
+export interface SymbolReference {
+  symbol: SymbolInfo;
+  span: SourceSpan;
+  isWrite: boolean;  // True for assignment targets
+}
+
+/**
+ * A variable scope and the variables entered into it
+ */
+export interface ScopeInfo {
+  span: SourceSpan | null;  // null for the global scope
+  symbols: SymbolInfo[];
+}
+
+/**
+ * Symbol declarations and resolved references for a program
+ */
+export class SymbolTable {
+  public readonly symbols: SymbolInfo[] = [];
+  public readonly references: SymbolReference[] = [];
+  public readonly scopes: ScopeInfo[] = [];
+
+  /**
+   * Record a new scope
+   */
+  public addScope(span: SourceSpan | null): ScopeInfo {
+    const scope: ScopeInfo = { span, symbols: [] };
+    this.scopes.push(scope);
+    return scope;
+  }
+
+  /**
+   * Record a new declaration
+   */
+  public declare(
+    name: string,
+    kind: SymbolKind,
+    span: SourceSpan,
+    node: ASTNode,
+    options: { variableKind?: VariableKind; isConst?: boolean; isImplicit?: boolean } = {}
+  ): SymbolInfo {
+    const symbol: SymbolInfo = {
+      id: this.symbols.length,
+      name,
+      kind,
+      variableKind: options.variableKind ?? null,
+      isConst: options.isConst ?? kind !== 'variable',
+      isImplicit: options.isImplicit ?? false,
+      span,
+      node,
+    };
+    this.symbols.push(symbol);
+    return symbol;
+  }
+
+  /**
+   * Record a reference to a declared symbol
+   */
+  public addReference(symbol: SymbolInfo, span: SourceSpan, isWrite: boolean = false): void {
+    this.references.push({ symbol, span, isWrite });
+  }
+
+  /**
+   * Find the symbol declared or referenced at a location (1-based line/column)
+   */
+  public getSymbolAt(location: Pick<SourceLocation, 'line' | 'column'>): SymbolInfo | null {
+    return this.getOccurrenceAt(location)?.symbol ?? null;
+  }
+
+  /**
+   * Find the declaration or reference at a location, with its span
+   */
+  public getOccurrenceAt(
+    location: Pick<SourceLocation, 'line' | 'column'>
+  ): { symbol: SymbolInfo; span: SourceSpan } | null {
+    for (const reference of this.references) {
+      if (spanContains(reference.span, location)) {
+        return { symbol: reference.symbol, span: reference.span };
+      }
+    }
+    for (const symbol of this.symbols) {
+      if (!symbol.isImplicit && spanContains(symbol.span, location)) {
+        return { symbol, span: symbol.span };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Get all references to a symbol, in source order
+   */
+  public getReferences(symbol: SymbolInfo): SymbolReference[] {
+    return this.references
+      .filter(reference => reference.symbol === symbol)
+      .sort((a, b) => a.span.start.offset - b.span.start.offset);
+  }
+
+  /**
+   * Get the variables in scope at a location, innermost first. A let/const
+   * is only visible once its whole binding statement has ended.
+   */
+  public getVisibleVariables(location: Pick<SourceLocation, 'line' | 'column'>): SymbolInfo[] {
+    const enclosing = this.scopes
+      .filter(scope => scope.span === null || spanContains(scope.span, location))
+      .sort((a, b) => scopeSize(a) - scopeSize(b));
+
+    const visible = new Map<string, SymbolInfo>();
+    for (const scope of enclosing) {
+      for (const symbol of scope.symbols) {
+        if (visible.has(symbol.name) || !isDeclaredBefore(symbol, location)) {
+          continue;
+        }
+        visible.set(symbol.name, symbol);
+      }
+    }
+    return Array.from(visible.values());
+  }
+
+  /**
+   * Get all top-level symbols of a kind, in declaration order
+   */
+  public getSymbolsOfKind(kind: SymbolKind): SymbolInfo[] {
+    return this.symbols.filter(symbol => symbol.kind === kind);
+  }
+}
+
+/**
+ * Check whether a span contains a location (end inclusive, so a cursor
+ * placed just after an identifier still resolves it)
+ */
+function spanContains(span: SourceSpan, location: Pick<SourceLocation, 'line' | 'column'>): boolean {
+  if (location.line < span.start.line || location.line > span.end.line) {
+    return false;
+  }
+  if (location.line === span.start.line && location.column < span.start.column) {
+    return false;
+  }
+  if (location.line === span.end.line && location.column > span.end.column) {
+    return false;
+  }
+  return true;
+}
+
+function scopeSize(scope: ScopeInfo): number {
+  return scope.span ? scope.span.end.offset - scope.span.start.offset : Infinity;
+}
+
+function isBefore(a: Pick<SourceLocation, 'line' | 'column'>, b: Pick<SourceLocation, 'line' | 'column'>): boolean {
+  return a.line < b.line || (a.line === b.line && a.column <= b.column);
+}
+
+function isDeclaredBefore(symbol: SymbolInfo, location: Pick<SourceLocation, 'line' | 'column'>): boolean {
+  if (symbol.variableKind === 'let' || symbol.variableKind === 'const') {
+    return isBefore(symbol.node.span.end, location);
+  }
+  return isBefore(symbol.span.start, location);
+}
+
+/**
+ * An interpolation {name} or {name.field} found in a string literal, with
+ * its source span
+ */
+export interface InterpolationSpan {
+  name: string;
+  span: SourceSpan;      // Span of the whole {name}
+  nameSpan: SourceSpan;  // Span of just the name, fields included
+}
+
+/**
+ * Locate the {name} and {name.field} interpolations in a string literal's
+ * source text. Escaped braces (\{ and {{) are skipped.
+ */
+export function findInterpolationSpans(str: StringLiteralNode): InterpolationSpan[] {
+  const raw = str.raw;
+  const results: InterpolationSpan[] = [];
+
+  // Precompute the source location of every raw character
+  const locations: SourceLocation[] = [];
+  let line = str.span.start.line;
+  let column = str.span.start.column;
+  for (let i = 0; i <= raw.length; i++) {
+    locations.push({ line, column, offset: str.span.start.offset + i });
+    if (raw[i] === '\n') {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+  }
+
+  let i = 0;
+  while (i < raw.length) {
+    const c = raw[i];
+    if (c === '\\' && !str.isTripleQuoted) {
+      i += 2;
+      continue;
+    }
+    if (c === '{' && raw[i + 1] === '{') {
+      i += 2;
+      continue;
+    }
+    if (c === '{') {
+      const match = /^\{(\w+(?:\.\w+)*)\}/.exec(raw.slice(i));
+      if (match) {
+        const name = match[1];
+        results.push({
+          name,
+          span: { start: locations[i], end: locations[i + match[0].length] },
+          nameSpan: { start: locations[i + 1], end: locations[i + 1 + name.length] },
+        });
+        i += match[0].length;
+        continue;
+      }
+    }
+    i++;
+  }
+
+  return results;
+}
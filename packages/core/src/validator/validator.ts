@@ -15,6 +15,7 @@ import {
   SessionStatementNode,
   AgentDefinitionNode,
   ImportStatementNode,
+  UseStatementNode,
   PropertyNode,
   StringLiteralNode,
   NumberLiteralNode,
@@ -42,15 +43,51 @@ import {
   IfStatementNode,
   ElseIfClauseNode,
   InterpolatedStringNode,
+  TypeNode,
   walkAST,
   ASTVisitor,
+  ASTNode,
+  getChildNodes,
 } from '../parser';
 import { SourceSpan } from '../parser/tokens';
+import { SymbolTable, SymbolInfo, ScopeInfo, VariableKind, findInterpolationSpans } from './symbols';
+import { DiagnosticCode, DiagnosticCodes } from './codes';
+import { QuickFixes, ValidationFix } from './fixes';
+import { LintConfig, LintOptions, LintRule, RuleSet, applyDisableComments, runCustomRules } from './rules';
+import { planProgram, estimateCost, checkBudget, violationSpan, analyzeParallelism } from '../planner';
+import { describeType, fieldType, formatType } from '../schema';
+
+/**
+ * Another place in the source that explains a diagnostic, such as the
+ * original declaration of a duplicate
+ */
+export interface RelatedSpan {
+  message: string;
+  span: SourceSpan;
+}
 
 export interface ValidationError {
+  /** Stable diagnostic code (see DiagnosticCodes), or a custom rule's name */
+  code: string;
   message: string;
   span: SourceSpan;
   severity: 'error' | 'warning' | 'info';
+  /** Related places in the source */
+  related?: RelatedSpan[];
+  /** Ways to fix the problem, best first (only when validated with source) */
+  fixes?: ValidationFix[];
+}
+
+/** Optional parts of a diagnostic */
+type DiagnosticDetails = Pick<ValidationError, 'related' | 'fixes'>;
+
+/**
+ * Options for validating a program: lint rules, and what it gets from the
+ * modules it uses
+ */
+export interface ValidateOptions extends LintOptions {
+  /** Agents and blocks from used modules, named as the program calls them (see linkProgram) */
+  definitions?: (AgentDefinitionNode | BlockDefinitionNode)[];
 }
 
 export interface ValidationResult {
@@ -60,7 +97,13 @@ export interface ValidationResult {
 }
 
 /** Valid model values */
-const VALID_MODELS = ['sonnet', 'opus', 'haiku'];
+export const VALID_MODELS = ['sonnet', 'opus', 'haiku'];
+
+/** Properties accepted in each context (see validateProperty) */
+export const VALID_PROPERTIES: Record<'agent' | 'session', readonly string[]> = {
+  agent: ['model', 'prompt', 'skills', 'permissions'],
+  session: ['model', 'prompt', 'context', 'retry', 'backoff'],
+};
 
 /** Valid parallel join strategies */
 const VALID_JOIN_STRATEGIES = ['all', 'first', 'any'];
@@ -68,18 +111,30 @@ const VALID_JOIN_STRATEGIES = ['all', 'first', 'any'];
 /** Valid on-fail policies */
 const VALID_ON_FAIL_POLICIES = ['fail-fast', 'continue', 'ignore'];
 
+/** Statements that nest a body, for the nesting-depth rule */
+const NESTING_STATEMENTS = [
+  'BlockDefinition', 'DoBlock', 'ParallelBlock', 'LoopBlock', 'RepeatBlock',
+  'ForEachBlock', 'TryBlock', 'ChoiceBlock', 'IfStatement', 'PipeOperation',
+];
+
 /** Variable binding info */
 interface VariableBinding {
   name: string;
   isConst: boolean;
   span: SourceSpan;
   declarationLine: number;  // Track declaration order for use-before-declare checks
+  kind: VariableKind;
+  node: ASTNode;            // Declaring node
+  isImplicit?: boolean;     // The implicit pipe "item" has no name in source
+  symbol?: SymbolInfo;      // Set once the binding is entered into a scope
+  valueType?: TypeNode;     // Shape of the value, when a `returns` declares it
 }
 
 /** Scope for tracking variables in nested contexts */
 interface Scope {
   variables: Map<string, VariableBinding>;
   type: 'global' | 'block' | 'loop' | 'function' | 'try' | 'catch';
+  info: ScopeInfo;  // Symbol table entry, for editor tooling
 }
 
 export class Validator {
@@ -88,6 +143,7 @@ export class Validator {
   private definedAgents: Map<string, AgentDefinitionNode> = new Map();
   private importedSkills: Map<string, ImportStatementNode> = new Map();
   private definedBlocks: Map<string, BlockDefinitionNode> = new Map();
+  private usedNamespaces: Map<string, UseStatementNode> = new Map();
 
   // Scope chain for proper variable tracking
   private scopeStack: Scope[] = [];
@@ -95,21 +151,46 @@ export class Validator {
   // Track whether we've seen non-import statements (for import ordering)
   private seenNonImportStatement: boolean = false;
   private firstNonImportSpan: SourceSpan | null = null;
+  private lastLeadingImport: ImportStatementNode | UseStatementNode | null = null;
+
+  // Top-level statement being validated, for fixes that add definitions
+  private currentTopLevel: StatementNode | null = null;
 
   // Track nesting depth to detect nested definitions
   private nestingDepth: number = 0;
 
-  constructor(private program: ProgramNode) {}
+  // Declarations and resolved references, for editor tooling
+  private symbols: SymbolTable = new SymbolTable();
+
+  // Fix builder, when the source text is available
+  private quickFixes: QuickFixes | null;
+
+  // Rule severities and thresholds, custom rules and the budget
+  private rules: RuleSet;
+  private customRules: LintRule[];
+  private config: LintConfig;
+
+  // Agents and blocks from used modules
+  private definitions: (AgentDefinitionNode | BlockDefinitionNode)[];
+
+  constructor(private program: ProgramNode, private source?: string, options: ValidateOptions = {}) {
+    this.quickFixes = source !== undefined ? new QuickFixes(source) : null;
+    this.config = options.config ?? {};
+    this.rules = new RuleSet(options.config);
+    this.customRules = options.rules ?? [];
+    this.definitions = options.definitions ?? [];
+  }
 
   // ========== Scope Chain Methods ==========
 
   /**
    * Push a new scope onto the stack
    */
-  private pushScope(type: Scope['type']): void {
+  private pushScope(type: Scope['type'], span: SourceSpan | null): void {
     this.scopeStack.push({
       variables: new Map(),
       type,
+      info: this.symbols.addScope(span),
     });
   }
 
@@ -131,27 +212,57 @@ export class Validator {
     const currentScope = this.scopeStack[this.scopeStack.length - 1];
 
     // Check for duplicate in current scope ONLY
-    if (currentScope.variables.has(name)) {
-      this.addError(`Duplicate variable definition: "${name}"`, binding.span);
+    const existing = currentScope.variables.get(name);
+    if (existing) {
+      this.addError(
+        DiagnosticCodes.DuplicateVariable,
+        `Duplicate variable definition: "${name}"`,
+        binding.span,
+        this.seeAlso('First declared here', existing.span)
+      );
       return;
     }
 
     // Check for conflict with agents
     if (this.definedAgents.has(name)) {
-      this.addError(`Variable "${name}" conflicts with agent name`, binding.span);
+      this.addError(
+        DiagnosticCodes.VariableConflictsWithAgent,
+        `Variable "${name}" conflicts with agent name`,
+        binding.span,
+        this.seeAlso('Agent defined here', this.definedAgents.get(name)!.name.span)
+      );
       return;
     }
 
     // Check for shadowing in OUTER scopes only (warning only)
     // Skip the current scope when checking for shadowing
     for (let i = this.scopeStack.length - 2; i >= 0; i--) {
-      if (this.scopeStack[i].variables.has(name)) {
-        this.addWarning(`Variable "${name}" shadows outer variable`, binding.span);
+      const outer = this.scopeStack[i].variables.get(name);
+      if (outer) {
+        this.addWarning(
+          DiagnosticCodes.ShadowedVariable,
+          `Variable "${name}" shadows outer variable`,
+          binding.span,
+          this.seeAlso('Outer variable declared here', outer.span)
+        );
         break;
       }
     }
 
-    currentScope.variables.set(name, binding);
+    this.enterBinding(currentScope, binding);
+  }
+
+  /**
+   * Add a binding to a scope and record its declaration in the symbol table
+   */
+  private enterBinding(scope: Scope, binding: VariableBinding): void {
+    scope.variables.set(binding.name, binding);
+    binding.symbol = this.symbols.declare(binding.name, 'variable', binding.span, binding.node, {
+      variableKind: binding.kind,
+      isConst: binding.isConst,
+      isImplicit: binding.isImplicit,
+    });
+    scope.info.symbols.push(binding.symbol);
   }
 
   /**
@@ -165,6 +276,161 @@ export class Validator {
     return null;
   }
 
+  /**
+   * Look up a variable and record a reference to it at the given span. For
+   * a field access such as `plan.steps`, the variable is `plan` and the
+   * fields are checked against its output type.
+   */
+  private resolveVariable(name: string, span: SourceSpan, isWrite: boolean = false): VariableBinding | null {
+    const [base, ...fields] = name.split('.');
+    const binding = this.lookupVariable(base);
+    if (binding?.symbol) {
+      this.symbols.addReference(binding.symbol, fields.length > 0 ? partOf(span, 0, base.length) : span, isWrite);
+    }
+    if (binding && fields.length > 0) {
+      this.checkFields(binding, name, span);
+    }
+    return binding;
+  }
+
+  /**
+   * Report the first field of a field access that the variable's output
+   * type doesn't have. Variables without a declared type aren't checked.
+   */
+  private checkFields(binding: VariableBinding, name: string, span: SourceSpan): void {
+    const [base, ...fields] = name.split('.');
+    let type = binding.valueType;
+    let path = base;
+    for (const field of fields) {
+      if (!type) {
+        return;
+      }
+      const fieldStart = path.length + 1;
+      const fieldSpan = partOf(span, fieldStart, fieldStart + field.length);
+      const declared = this.seeAlso('Output type declared here', type.span);
+      if (type.type !== 'ObjectType') {
+        this.addError(DiagnosticCodes.UnknownField, `"${path}" is ${describeType(type)}, so it has no field "${field}"`, fieldSpan, declared);
+        return;
+      }
+      const next = fieldType(type, field);
+      if (!next) {
+        const names = type.fields.map(f => f.name.name);
+        const fixes = this.quickFixes?.suggestNames(field, names, fieldSpan);
+        this.addError(
+          DiagnosticCodes.UnknownField,
+          `"${path}" has no field "${field}"; its fields are ${names.map(n => `"${n}"`).join(', ') || 'none'}`,
+          fieldSpan,
+          { ...declared, fixes }
+        );
+        return;
+      }
+      type = next;
+      path = `${path}.${field}`;
+    }
+  }
+
+  /**
+   * The output type of a variable or field access, if declared
+   */
+  private referenceType(name: string): TypeNode | undefined {
+    const [base, ...fields] = name.split('.');
+    let type = this.lookupVariable(base)?.valueType;
+    for (const field of fields) {
+      type = type && fieldType(type, field);
+    }
+    return type;
+  }
+
+  /**
+   * The output type of an expression: a session or block call that declares
+   * one, or a variable holding such output
+   */
+  private typeOf(expr: ExpressionNode): TypeNode | undefined {
+    switch (expr.type) {
+      case 'SessionStatement':
+        return expr.returns ?? undefined;
+      case 'DoBlock': {
+        if (!expr.name) {
+          return undefined;
+        }
+        const name = expr.name.name;
+        const block = this.definedBlocks.get(name)
+          ?? this.definitions.find((d): d is BlockDefinitionNode => d.type === 'BlockDefinition' && d.name.name === name);
+        return block?.returns ?? undefined;
+      }
+      case 'Identifier':
+        return this.referenceType(expr.name);
+      case 'ArrowExpression':
+        return this.typeOf(expr.right);
+      default:
+        return undefined;
+    }
+  }
+
+  /**
+   * Check that a collection a loop or pipeline goes through is an array,
+   * when its type is declared, and return the type of its items
+   */
+  private checkIterable(collection: ExpressionNode): TypeNode | undefined {
+    const type = this.typeOf(collection);
+    if (!type) {
+      return undefined;
+    }
+    if (type.type !== 'ArrayType') {
+      const name = collection.type === 'Identifier' ? `"${collection.name}"` : 'this output';
+      this.addError(
+        DiagnosticCodes.NotIterable,
+        `Cannot iterate over ${name}: its output type is ${describeType(type)}, not an array`,
+        collection.span,
+        this.seeAlso('Output type declared here', type.span)
+      );
+      return undefined;
+    }
+    return type.element;
+  }
+
+  /**
+   * Report object types that name a field twice
+   */
+  private validateType(type: TypeNode): void {
+    if (type.type === 'ArrayType') {
+      this.validateType(type.element);
+      return;
+    }
+    if (type.type !== 'ObjectType') {
+      return;
+    }
+    const seen = new Map<string, IdentifierNode>();
+    for (const field of type.fields) {
+      const first = seen.get(field.name.name);
+      if (first) {
+        this.addError(
+          DiagnosticCodes.DuplicateField,
+          `Duplicate field in output type: "${field.name.name}"`,
+          field.name.span,
+          this.seeAlso('First declared here', first.span)
+        );
+      } else {
+        seen.set(field.name.name, field.name);
+      }
+      this.validateType(field.valueType);
+    }
+  }
+
+  /**
+   * Record a reference to an agent or block definition, if it exists
+   */
+  private resolveDefinition(kind: 'agent' | 'block', name: string, span: SourceSpan): boolean {
+    const symbol = this.symbols.symbols.find(s => s.kind === kind && s.name === name);
+    if (symbol) {
+      this.symbols.addReference(symbol, span);
+      return true;
+    }
+    // Definitions from modules live in other files, so they aren't symbols here
+    return this.definitions.some(definition =>
+      definition.type === (kind === 'agent' ? 'AgentDefinition' : 'BlockDefinition') && definition.name.name === name);
+  }
+
   /**
    * Check if a variable is defined in any scope
    */
@@ -183,13 +449,16 @@ export class Validator {
     this.definedAgents = new Map();
     this.importedSkills = new Map();
     this.definedBlocks = new Map();
+    this.usedNamespaces = new Map();
     this.scopeStack = [];
     this.seenNonImportStatement = false;
     this.firstNonImportSpan = null;
+    this.lastLeadingImport = null;
     this.nestingDepth = 0;
+    this.symbols = new SymbolTable();
 
     // Push global scope
-    this.pushScope('global');
+    this.pushScope('global', null);
 
     // First pass: collect imports, agent definitions, and block definitions
     // (Variables are collected during validation for proper scope tracking)
@@ -202,9 +471,17 @@ export class Validator {
         this.collectBlockDefinition(statement);
       }
     }
+    // The linker reports module definitions that clash with the program's own
+    for (const definition of this.definitions) {
+      const defined = definition.type === 'AgentDefinition' ? this.definedAgents : this.definedBlocks;
+      if (!defined.has(definition.name.name)) {
+        (defined as Map<string, typeof definition>).set(definition.name.name, definition);
+      }
+    }
 
     // Second pass: validate all statements (variables collected during traversal)
     for (const statement of this.program.statements) {
+      this.currentTopLevel = statement;
       this.validateStatement(statement);
     }
 
@@ -216,6 +493,15 @@ export class Validator {
     // Pop global scope
     this.popScope();
 
+    this.checkNestingDepth(this.program, 0);
+    this.runCustomRules();
+    this.checkBudget();
+    this.checkParallelism();
+
+    // Drop what # prose-disable-next-line comments silence
+    this.errors = applyDisableComments(this.program.comments, this.errors);
+    this.warnings = applyDisableComments(this.program.comments, this.warnings);
+
     return {
       valid: this.errors.length === 0,
       errors: this.errors,
@@ -223,6 +509,13 @@ export class Validator {
     };
   }
 
+  /**
+   * Get the symbol table built by the last validate() call
+   */
+  public getSymbolTable(): SymbolTable {
+    return this.symbols;
+  }
+
   /**
    * Collect import statement (first pass)
    */
@@ -230,7 +523,12 @@ export class Validator {
     const skillName = importStmt.skillName.value;
 
     if (this.importedSkills.has(skillName)) {
-      this.addError(`Duplicate import: "${skillName}"`, importStmt.skillName.span);
+      this.addError(
+        DiagnosticCodes.DuplicateImport,
+        `Duplicate import: "${skillName}"`,
+        importStmt.skillName.span,
+        this.seeAlso('First imported here', this.importedSkills.get(skillName)!.skillName.span)
+      );
     } else {
       this.importedSkills.set(skillName, importStmt);
     }
@@ -243,9 +541,15 @@ export class Validator {
     const name = agent.name.name;
 
     if (this.definedAgents.has(name)) {
-      this.addError(`Duplicate agent definition: "${name}"`, agent.name.span);
+      this.addError(
+        DiagnosticCodes.DuplicateAgent,
+        `Duplicate agent definition: "${name}"`,
+        agent.name.span,
+        this.seeAlso('First defined here', this.definedAgents.get(name)!.name.span)
+      );
     } else {
       this.definedAgents.set(name, agent);
+      this.symbols.declare(name, 'agent', agent.name.span, agent);
     }
   }
 
@@ -256,11 +560,22 @@ export class Validator {
     const name = block.name.name;
 
     if (this.definedBlocks.has(name)) {
-      this.addError(`Duplicate block definition: "${name}"`, block.name.span);
+      this.addError(
+        DiagnosticCodes.DuplicateBlock,
+        `Duplicate block definition: "${name}"`,
+        block.name.span,
+        this.seeAlso('First defined here', this.definedBlocks.get(name)!.name.span)
+      );
     } else if (this.definedAgents.has(name)) {
-      this.addError(`Block "${name}" conflicts with agent name`, block.name.span);
+      this.addError(
+        DiagnosticCodes.BlockConflictsWithAgent,
+        `Block "${name}" conflicts with agent name`,
+        block.name.span,
+        this.seeAlso('Agent defined here', this.definedAgents.get(name)!.name.span)
+      );
     } else {
       this.definedBlocks.set(name, block);
+      this.symbols.declare(name, 'block', block.name.span, block);
     }
   }
 
@@ -270,7 +585,7 @@ export class Validator {
    */
   private validateStatement(statement: StatementNode): void {
     // Track first non-import statement for import ordering validation
-    if (statement.type !== 'ImportStatement' && statement.type !== 'CommentStatement') {
+    if (statement.type !== 'ImportStatement' && statement.type !== 'UseStatement' && statement.type !== 'CommentStatement') {
       if (!this.seenNonImportStatement) {
         this.seenNonImportStatement = true;
         this.firstNonImportSpan = statement.span;
@@ -284,6 +599,9 @@ export class Validator {
       case 'ImportStatement':
         this.validateImportStatement(statement);
         break;
+      case 'UseStatement':
+        this.validateUseStatement(statement);
+        break;
       case 'SessionStatement':
         this.validateSessionStatement(statement);
         break;
@@ -345,29 +663,81 @@ export class Validator {
   private validateImportStatement(importStmt: ImportStatementNode): void {
     // Check import ordering - imports must come before other statements
     if (this.seenNonImportStatement) {
-      this.addError('Import statements must appear at the top of the file', importStmt.span);
+      const fix = this.quickFixes?.moveImport(importStmt, this.lastLeadingImport, this.firstNonImportSpan!);
+      this.addError(
+        DiagnosticCodes.ImportNotAtTop,
+        'Import statements must appear at the top of the file',
+        importStmt.span,
+        {
+          ...this.seeAlso('First non-import statement', this.firstNonImportSpan!),
+          fixes: fix ? [fix] : undefined,
+        }
+      );
+    } else {
+      this.lastLeadingImport = importStmt;
     }
 
     // Validate skill name is not empty
     if (!importStmt.skillName.value) {
-      this.addError('Import skill name cannot be empty', importStmt.skillName.span);
+      this.addError(DiagnosticCodes.EmptyImportName, 'Import skill name cannot be empty', importStmt.skillName.span);
     }
 
     // Validate source is not empty
     if (!importStmt.source.value) {
-      this.addError('Import source cannot be empty', importStmt.source.span);
+      this.addError(DiagnosticCodes.EmptyImportSource, 'Import source cannot be empty', importStmt.source.span);
     }
 
     // Validate source format (github:, npm:, or local path)
     const source = importStmt.source.value;
     if (source && !this.isValidImportSource(source)) {
       this.addWarning(
+        DiagnosticCodes.UnknownImportSource,
         `Import source "${source}" should start with "github:", "npm:", or "./" for local paths`,
         importStmt.source.span
       );
     }
   }
 
+  /**
+   * Validate a use statement. Loading the module is the linker's job.
+   */
+  private validateUseStatement(use: UseStatementNode): void {
+    if (this.seenNonImportStatement) {
+      const fix = this.quickFixes?.moveImport(use, this.lastLeadingImport, this.firstNonImportSpan!);
+      this.addError(DiagnosticCodes.ImportNotAtTop, 'Use statements must appear at the top of the file', use.span, {
+        ...this.seeAlso('First non-import statement', this.firstNonImportSpan!),
+        fixes: fix ? [fix] : undefined,
+      });
+    } else {
+      this.lastLeadingImport = use;
+    }
+
+    const source = use.source.value;
+    if (!source) {
+      this.addError(DiagnosticCodes.EmptyImportSource, 'Module path cannot be empty', use.source.span);
+    } else if (!source.startsWith('./') && !source.startsWith('../') && !source.startsWith('/')) {
+      this.addError(
+        DiagnosticCodes.UnknownImportSource,
+        `Module path "${source}" should start with "./", "../" or "/"`,
+        use.source.span
+      );
+    }
+
+    if (use.alias) {
+      const namespace = use.alias.name;
+      if (this.usedNamespaces.has(namespace)) {
+        this.addError(
+          DiagnosticCodes.DuplicateImport,
+          `Duplicate namespace: "${namespace}"`,
+          use.alias.span,
+          this.seeAlso('First used here', this.usedNamespaces.get(namespace)!.alias!.span)
+        );
+      } else {
+        this.usedNamespaces.set(namespace, use);
+      }
+    }
+  }
+
   /**
    * Check if an import source is valid
    */
@@ -390,13 +760,13 @@ export class Validator {
 
     // Check for common comment patterns that might warrant warnings
     if (commentValue.toLowerCase().includes('todo')) {
-      this.addWarning('TODO comment found', statement.span);
+      this.addWarning(DiagnosticCodes.TaskComment, 'TODO comment found', statement.span);
     }
     if (commentValue.toLowerCase().includes('fixme')) {
-      this.addWarning('FIXME comment found', statement.span);
+      this.addWarning(DiagnosticCodes.TaskComment, 'FIXME comment found', statement.span);
     }
     if (commentValue.toLowerCase().includes('hack')) {
-      this.addWarning('HACK comment found', statement.span);
+      this.addWarning(DiagnosticCodes.TaskComment, 'HACK comment found', statement.span);
     }
   }
 
@@ -406,7 +776,7 @@ export class Validator {
   private validateComment(comment: CommentNode): void {
     // Validate that comment starts with #
     if (!comment.value.startsWith('#')) {
-      this.addError('Invalid comment format: must start with #', comment.span);
+      this.addError(DiagnosticCodes.InvalidComment, 'Invalid comment format: must start with #', comment.span);
     }
   }
 
@@ -416,26 +786,26 @@ export class Validator {
   private validateAgentDefinition(agent: AgentDefinitionNode): void {
     // Agent definitions must be at top level
     if (this.nestingDepth > 0) {
-      this.addError('Agent definitions must be at top level', agent.span);
+      this.addError(DiagnosticCodes.NestedAgentDefinition, 'Agent definitions must be at top level', agent.span);
     }
 
     // Validate agent name
     if (!agent.name.name) {
-      this.addError('Agent definition must have a name', agent.span);
+      this.addError(DiagnosticCodes.MissingAgentName, 'Agent definition must have a name', agent.span);
     }
 
     // Validate properties
-    const seenProps = new Set<string>();
+    const seenProps = new Map<string, PropertyNode>();
     for (const prop of agent.properties) {
       this.validateProperty(prop, 'agent', seenProps);
     }
 
     // Check for required properties
     if (!seenProps.has('model')) {
-      this.addError('Agent definition requires "model" property', agent.span);
+      this.addError(DiagnosticCodes.MissingAgentModel, 'Agent definition requires "model" property', agent.span);
     }
     if (!seenProps.has('prompt')) {
-      this.addError('Agent definition requires "prompt" property', agent.span);
+      this.addError(DiagnosticCodes.MissingAgentPrompt, 'Agent definition requires "prompt" property', agent.span);
     }
   }
 
@@ -445,31 +815,41 @@ export class Validator {
   private validateBlockDefinition(block: BlockDefinitionNode): void {
     // Block definitions must be at top level
     if (this.nestingDepth > 0) {
-      this.addError('Block definitions must be at top level', block.span);
+      this.addError(DiagnosticCodes.NestedBlockDefinition, 'Block definitions must be at top level', block.span);
     }
 
     // Validate block name
     if (!block.name.name) {
-      this.addError('Block definition must have a name', block.span);
+      this.addError(DiagnosticCodes.MissingBlockName, 'Block definition must have a name', block.span);
     }
 
     // Validate body is not empty
     if (block.body.length === 0) {
-      this.addError('Block body cannot be empty', block.span);
+      this.addError(DiagnosticCodes.EmptyBlockBody, 'Block body cannot be empty', block.span);
     }
 
     // Check for duplicate parameter names
-    const paramNames = new Set<string>();
+    const paramNames = new Map<string, IdentifierNode>();
     for (const param of block.parameters) {
-      if (paramNames.has(param.name)) {
-        this.addError(`Duplicate parameter name: "${param.name}"`, param.span);
+      const first = paramNames.get(param.name);
+      if (first) {
+        this.addError(
+          DiagnosticCodes.DuplicateParameter,
+          `Duplicate parameter name: "${param.name}"`,
+          param.span,
+          this.seeAlso('First declared here', first.span)
+        );
       } else {
-        paramNames.add(param.name);
+        paramNames.set(param.name, param);
       }
     }
 
+    if (block.returns) {
+      this.validateType(block.returns);
+    }
+
     // Push new scope for block body
-    this.pushScope('function');
+    this.pushScope('function', block.span);
     this.nestingDepth++;
 
     // Add parameters to scope
@@ -479,6 +859,8 @@ export class Validator {
         isConst: true,  // Block parameters are implicitly const
         span: param.span,
         declarationLine: param.span.start.line,
+        kind: 'parameter',
+        node: block,
       });
     }
 
@@ -500,8 +882,8 @@ export class Validator {
     if (doBlock.name) {
       // Block invocation: do blockname or do blockname(args)
       const blockName = doBlock.name.name;
-      if (!this.definedBlocks.has(blockName)) {
-        this.addError(`Undefined block: "${blockName}"`, doBlock.name.span);
+      if (!this.resolveDefinition('block', blockName, doBlock.name.span)) {
+        this.addError(DiagnosticCodes.UndefinedBlock, `Undefined block: "${blockName}"`, doBlock.name.span);
       } else {
         // Check argument count matches parameter count
         const blockDef = this.definedBlocks.get(blockName)!;
@@ -510,6 +892,7 @@ export class Validator {
 
         if (expectedParams !== providedArgs) {
           this.addError(
+            DiagnosticCodes.ArgumentCountMismatch,
             `Block "${blockName}" expects ${expectedParams} argument(s), but ${providedArgs} provided`,
             doBlock.span
           );
@@ -523,7 +906,7 @@ export class Validator {
     } else {
       // Anonymous do block: push a scope for shadowing support,
       // but non-shadowed variables will be hoisted to parent scope
-      this.pushScope('block');
+      this.pushScope('block', doBlock.span);
       for (const stmt of doBlock.body) {
         this.validateDoBlockStatement(stmt);
       }
@@ -541,19 +924,26 @@ export class Validator {
       const name = binding.name.name;
 
       // Check if this name exists in outer scopes (for shadowing)
-      const isShadowing = this.lookupVariableInOuterScopes(name);
+      const shadowed = this.lookupVariableInOuterScopes(name);
 
       // Validate the value expression first (in current scope)
       this.validateBindingExpression(binding.value);
 
-      if (isShadowing) {
+      if (shadowed) {
         // Variable shadows outer scope - define in CURRENT scope only
-        this.addWarning(`Variable "${name}" shadows outer variable`, binding.name.span);
+        this.addWarning(
+          DiagnosticCodes.ShadowedVariable,
+          `Variable "${name}" shadows outer variable`,
+          binding.name.span,
+          this.seeAlso('Outer variable declared here', shadowed.span)
+        );
         this.defineVariableInCurrentScope(name, {
           name,
           isConst: false,
           span: binding.name.span,
           declarationLine: binding.span.start.line,
+          kind: 'let',
+          node: binding,
         });
       } else {
         // No shadowing - define in the outermost block scope (escape through nested do blocks)
@@ -561,19 +951,31 @@ export class Validator {
         if (targetScope) {
           // Check for duplicate in target scope
           if (targetScope.variables.has(name)) {
-            this.addError(`Duplicate variable definition: "${name}"`, binding.name.span);
+            this.addError(
+              DiagnosticCodes.DuplicateVariable,
+              `Duplicate variable definition: "${name}"`,
+              binding.name.span,
+              this.seeAlso('First declared here', targetScope.variables.get(name)!.span)
+            );
             return;
           }
           // Check for conflict with agents
           if (this.definedAgents.has(name)) {
-            this.addError(`Variable "${name}" conflicts with agent name`, binding.name.span);
+            this.addError(
+              DiagnosticCodes.VariableConflictsWithAgent,
+              `Variable "${name}" conflicts with agent name`,
+              binding.name.span,
+              this.seeAlso('Agent defined here', this.definedAgents.get(name)!.name.span)
+            );
             return;
           }
-          targetScope.variables.set(name, {
+          this.enterBinding(targetScope, {
             name,
             isConst: false,
             span: binding.name.span,
             declarationLine: binding.span.start.line,
+            kind: 'let',
+            node: binding,
           });
         }
       }
@@ -582,19 +984,26 @@ export class Validator {
       const name = binding.name.name;
 
       // Check if this name exists in outer scopes (for shadowing)
-      const isShadowing = this.lookupVariableInOuterScopes(name);
+      const shadowed = this.lookupVariableInOuterScopes(name);
 
       // Validate the value expression first (in current scope)
       this.validateBindingExpression(binding.value);
 
-      if (isShadowing) {
+      if (shadowed) {
         // Variable shadows outer scope - define in CURRENT scope only
-        this.addWarning(`Variable "${name}" shadows outer variable`, binding.name.span);
+        this.addWarning(
+          DiagnosticCodes.ShadowedVariable,
+          `Variable "${name}" shadows outer variable`,
+          binding.name.span,
+          this.seeAlso('Outer variable declared here', shadowed.span)
+        );
         this.defineVariableInCurrentScope(name, {
           name,
           isConst: true,
           span: binding.name.span,
           declarationLine: binding.span.start.line,
+          kind: 'const',
+          node: binding,
         });
       } else {
         // No shadowing - define in the outermost block scope (escape through nested do blocks)
@@ -602,19 +1011,31 @@ export class Validator {
         if (targetScope) {
           // Check for duplicate in target scope
           if (targetScope.variables.has(name)) {
-            this.addError(`Duplicate variable definition: "${name}"`, binding.name.span);
+            this.addError(
+              DiagnosticCodes.DuplicateVariable,
+              `Duplicate variable definition: "${name}"`,
+              binding.name.span,
+              this.seeAlso('First declared here', targetScope.variables.get(name)!.span)
+            );
             return;
           }
           // Check for conflict with agents
           if (this.definedAgents.has(name)) {
-            this.addError(`Variable "${name}" conflicts with agent name`, binding.name.span);
+            this.addError(
+              DiagnosticCodes.VariableConflictsWithAgent,
+              `Variable "${name}" conflicts with agent name`,
+              binding.name.span,
+              this.seeAlso('Agent defined here', this.definedAgents.get(name)!.name.span)
+            );
             return;
           }
-          targetScope.variables.set(name, {
+          this.enterBinding(targetScope, {
             name,
             isConst: true,
             span: binding.name.span,
             declarationLine: binding.span.start.line,
+            kind: 'const',
+            node: binding,
           });
         }
       }
@@ -647,13 +1068,14 @@ export class Validator {
   /**
    * Look up a variable in outer scopes only (excluding current scope)
    */
-  private lookupVariableInOuterScopes(name: string): boolean {
+  private lookupVariableInOuterScopes(name: string): VariableBinding | null {
     for (let i = this.scopeStack.length - 2; i >= 0; i--) {
-      if (this.scopeStack[i].variables.has(name)) {
-        return true;
+      const binding = this.scopeStack[i].variables.get(name);
+      if (binding) {
+        return binding;
       }
     }
-    return false;
+    return null;
   }
 
   /**
@@ -664,7 +1086,7 @@ export class Validator {
       return;
     }
     const currentScope = this.scopeStack[this.scopeStack.length - 1];
-    currentScope.variables.set(name, binding);
+    this.enterBinding(currentScope, binding);
   }
 
   /**
@@ -673,7 +1095,7 @@ export class Validator {
   private validateParallelBlock(parallel: ParallelBlockNode): void {
     // Validate body is not empty
     if (parallel.body.length === 0) {
-      this.addError('Parallel block body cannot be empty', parallel.span);
+      this.addError(DiagnosticCodes.EmptyParallel, 'Parallel block body cannot be empty', parallel.span);
     }
 
     // Validate join strategy if specified
@@ -681,6 +1103,7 @@ export class Validator {
       const strategy = parallel.joinStrategy.value;
       if (!VALID_JOIN_STRATEGIES.includes(strategy)) {
         this.addError(
+          DiagnosticCodes.InvalidJoinStrategy,
           `Invalid join strategy: "${strategy}". Must be one of: ${VALID_JOIN_STRATEGIES.join(', ')}`,
           parallel.joinStrategy.span
         );
@@ -689,6 +1112,7 @@ export class Validator {
       // Validate branch count for strategies
       if ((strategy === 'first' || strategy === 'any') && parallel.body.length < 2) {
         this.addError(
+          DiagnosticCodes.TooFewParallelBranches,
           `Parallel with "${strategy}" strategy needs at least 2 branches`,
           parallel.span
         );
@@ -697,6 +1121,7 @@ export class Validator {
       // "any" strategy should have count
       if (strategy === 'any' && !parallel.anyCount) {
         this.addWarning(
+          DiagnosticCodes.MissingAnyCount,
           'Parallel "any" strategy should specify count parameter',
           parallel.span
         );
@@ -708,6 +1133,7 @@ export class Validator {
       const onFailValue = parallel.onFail.value;
       if (!VALID_ON_FAIL_POLICIES.includes(onFailValue)) {
         this.addError(
+          DiagnosticCodes.InvalidOnFail,
           `Invalid on-fail policy: "${onFailValue}". Must be one of: ${VALID_ON_FAIL_POLICIES.join(', ')}`,
           parallel.onFail.span
         );
@@ -719,6 +1145,7 @@ export class Validator {
       // count is only valid with "any" strategy
       if (!parallel.joinStrategy || parallel.joinStrategy.value !== 'any') {
         this.addError(
+          DiagnosticCodes.CountWithoutAny,
           'The "count" modifier is only valid with the "any" join strategy',
           parallel.anyCount.span
         );
@@ -728,6 +1155,7 @@ export class Validator {
       const countValue = parallel.anyCount.value;
       if (countValue < 1) {
         this.addError(
+          DiagnosticCodes.InvalidCount,
           `Invalid count: ${countValue}. Count must be at least 1`,
           parallel.anyCount.span
         );
@@ -736,6 +1164,7 @@ export class Validator {
       // count should not exceed the number of branches
       if (parallel.body.length > 0 && countValue > parallel.body.length) {
         this.addWarning(
+          DiagnosticCodes.CountExceedsBranches,
           `Count (${countValue}) exceeds number of parallel branches (${parallel.body.length})`,
           parallel.anyCount.span
         );
@@ -752,6 +1181,8 @@ export class Validator {
           isConst: false,
           span: binding.name.span,
           declarationLine: binding.span.start.line,
+          kind: 'let',
+          node: binding,
         });
       } else if (stmt.type === 'ConstBinding') {
         const binding = stmt as ConstBindingNode;
@@ -760,6 +1191,8 @@ export class Validator {
           isConst: true,
           span: binding.name.span,
           declarationLine: binding.span.start.line,
+          kind: 'const',
+          node: binding,
         });
       } else if (stmt.type === 'Assignment') {
         const assignment = stmt as AssignmentNode;
@@ -771,6 +1204,8 @@ export class Validator {
             isConst: false,
             span: assignment.name.span,
             declarationLine: assignment.span.start.line,
+            kind: 'let',
+            node: assignment,
           });
         }
       }
@@ -778,7 +1213,7 @@ export class Validator {
 
     // Push new scope for parallel block body validation
     // (inner scope for any temporary variables, but main bindings are in parent scope)
-    this.pushScope('block');
+    this.pushScope('block', parallel.span);
     this.nestingDepth++;
 
     // Validate statements in parallel block
@@ -808,6 +1243,7 @@ export class Validator {
       // Validate count is positive
       if (repeat.count.value <= 0) {
         this.addError(
+          DiagnosticCodes.InvalidRepeatCount,
           `Repeat count must be positive, got ${repeat.count.value}`,
           repeat.count.span
         );
@@ -816,6 +1252,7 @@ export class Validator {
       // Validate count is an integer
       if (!Number.isInteger(repeat.count.value)) {
         this.addError(
+          DiagnosticCodes.InvalidRepeatCount,
           `Repeat count must be an integer, got ${repeat.count.value}`,
           repeat.count.span
         );
@@ -823,8 +1260,9 @@ export class Validator {
     } else if (repeat.count.type === 'Identifier') {
       // Variable count - check if the variable is defined
       const varName = repeat.count.name;
-      if (!this.isVariableDefined(varName)) {
+      if (!this.resolveVariable(varName, repeat.count.span)) {
         this.addError(
+          DiagnosticCodes.UndefinedVariable,
           `Undefined variable: "${varName}"`,
           repeat.count.span
         );
@@ -833,7 +1271,7 @@ export class Validator {
     }
 
     // Push new scope for repeat body
-    this.pushScope('loop');
+    this.pushScope('loop', repeat.span);
     this.nestingDepth++;
 
     // If there's an index variable, add it to scope
@@ -843,6 +1281,8 @@ export class Validator {
         isConst: true,  // Loop variables are implicitly const within each iteration
         span: repeat.indexVar.span,
         declarationLine: repeat.indexVar.span.start.line,
+        kind: 'loop',
+        node: repeat,
       });
     }
 
@@ -863,16 +1303,18 @@ export class Validator {
     // Validate collection reference if it's an identifier
     if (forEach.collection.type === 'Identifier') {
       const collectionName = (forEach.collection as IdentifierNode).name;
-      if (!this.isVariableDefined(collectionName)) {
+      if (!this.resolveVariable(collectionName, forEach.collection.span)) {
         this.addError(
+          DiagnosticCodes.UndefinedCollection,
           `Undefined collection variable: "${collectionName}"`,
           forEach.collection.span
         );
       }
     }
+    const itemType = this.checkIterable(forEach.collection);
 
     // Push new scope for loop body
-    this.pushScope('loop');
+    this.pushScope('loop', forEach.span);
     this.nestingDepth++;
 
     // Add item variable
@@ -881,6 +1323,9 @@ export class Validator {
       isConst: true,  // Loop variables are implicitly const within each iteration
       span: forEach.itemVar.span,
       declarationLine: forEach.itemVar.span.start.line,
+      kind: 'loop',
+      node: forEach,
+      valueType: itemType,
     });
 
     // Add index variable if present
@@ -890,6 +1335,8 @@ export class Validator {
         isConst: true,
         span: forEach.indexVar.span,
         declarationLine: forEach.indexVar.span.start.line,
+        kind: 'loop',
+        node: forEach,
       });
     }
 
@@ -907,11 +1354,15 @@ export class Validator {
    * Validate a loop block (unbounded - Tier 9)
    */
   private validateLoopBlock(loop: LoopBlockNode): void {
-    // Warn about infinite loops without safety limits
-    if (loop.variant === 'loop' && !loop.maxIterations) {
+    // Warn about infinite loops without safety limits (and about until/while
+    // loops too if the rule asks for it)
+    const requireMax = loop.variant === 'loop' || this.rules.flag(DiagnosticCodes.UnboundedLoop, 'conditional');
+    if (requireMax && !loop.maxIterations) {
       this.addWarning(
+        DiagnosticCodes.UnboundedLoop,
         'Unbounded loop without max iterations. Consider adding (max: N) for safety.',
-        loop.span
+        loop.span,
+        { fixes: this.quickFixes ? [this.quickFixes.addMaxIterations(loop)] : undefined }
       );
     }
 
@@ -919,12 +1370,14 @@ export class Validator {
     if (loop.maxIterations) {
       if (loop.maxIterations.value <= 0) {
         this.addError(
+          DiagnosticCodes.InvalidMaxIterations,
           `Max iterations must be positive, got ${loop.maxIterations.value}`,
           loop.maxIterations.span
         );
       }
       if (!Number.isInteger(loop.maxIterations.value)) {
         this.addError(
+          DiagnosticCodes.InvalidMaxIterations,
           `Max iterations must be an integer, got ${loop.maxIterations.value}`,
           loop.maxIterations.span
         );
@@ -937,7 +1390,7 @@ export class Validator {
     }
 
     // Push new scope for loop body
-    this.pushScope('loop');
+    this.pushScope('loop', loop.span);
     this.nestingDepth++;
 
     // If there's an iteration variable, add it to scope
@@ -947,6 +1400,8 @@ export class Validator {
         isConst: true,  // Loop variables are implicitly const within each iteration
         span: loop.iterationVar.span,
         declarationLine: loop.iterationVar.span.start.line,
+        kind: 'loop',
+        node: loop,
       });
     }
 
@@ -969,6 +1424,7 @@ export class Validator {
     // Must have at least catch or finally
     if (!tryBlock.catchBody && !tryBlock.finallyBody) {
       this.addError(
+        DiagnosticCodes.TryWithoutHandler,
         'Try block must have at least "catch:" or "finally:"',
         tryBlock.span
       );
@@ -983,7 +1439,7 @@ export class Validator {
     if (tryBlock.catchBody) {
       // Push a scope ONLY for the error variable
       // let/const bindings should go to the parent scope
-      this.pushScope('catch');
+      this.pushScope('catch', this.getCatchSpan(tryBlock));
 
       // If there's an error variable, add it to the catch scope
       if (tryBlock.errorVar) {
@@ -992,6 +1448,8 @@ export class Validator {
           isConst: true,  // Error variables are implicitly const
           span: tryBlock.errorVar.span,
           declarationLine: tryBlock.errorVar.span.start.line,
+          kind: 'error',
+          node: tryBlock,
         });
       }
 
@@ -1011,6 +1469,19 @@ export class Validator {
     }
   }
 
+  /**
+   * Approximate the source range of a catch clause (the AST has no node for it):
+   * from the error variable or first catch statement up to the finally clause.
+   */
+  private getCatchSpan(tryBlock: TryBlockNode): SourceSpan {
+    const first = tryBlock.errorVar ?? tryBlock.catchBody?.[0];
+    const finallyStart = tryBlock.finallyBody?.[0];
+    return {
+      start: first ? first.span.start : tryBlock.span.start,
+      end: finallyStart ? finallyStart.span.start : tryBlock.span.end,
+    };
+  }
+
   /**
    * Validate a statement inside a catch block.
    * let/const bindings are defined in the parent scope (before the catch scope).
@@ -1028,20 +1499,32 @@ export class Validator {
 
         // Check for duplicate in parent scope
         if (parentScope.variables.has(name)) {
-          this.addError(`Duplicate variable definition: "${name}"`, binding.name.span);
+          this.addError(
+            DiagnosticCodes.DuplicateVariable,
+            `Duplicate variable definition: "${name}"`,
+            binding.name.span,
+            this.seeAlso('First declared here', parentScope.variables.get(name)!.span)
+          );
           return;
         }
         // Check for conflict with agents
         if (this.definedAgents.has(name)) {
-          this.addError(`Variable "${name}" conflicts with agent name`, binding.name.span);
+          this.addError(
+            DiagnosticCodes.VariableConflictsWithAgent,
+            `Variable "${name}" conflicts with agent name`,
+            binding.name.span,
+            this.seeAlso('Agent defined here', this.definedAgents.get(name)!.name.span)
+          );
           return;
         }
 
-        parentScope.variables.set(name, {
+        this.enterBinding(parentScope, {
           name,
           isConst: false,
           span: binding.name.span,
           declarationLine: binding.span.start.line,
+          kind: 'let',
+          node: binding,
         });
       }
     } else if (statement.type === 'ConstBinding') {
@@ -1056,20 +1539,32 @@ export class Validator {
 
         // Check for duplicate in parent scope
         if (parentScope.variables.has(name)) {
-          this.addError(`Duplicate variable definition: "${name}"`, binding.name.span);
+          this.addError(
+            DiagnosticCodes.DuplicateVariable,
+            `Duplicate variable definition: "${name}"`,
+            binding.name.span,
+            this.seeAlso('First declared here', parentScope.variables.get(name)!.span)
+          );
           return;
         }
         // Check for conflict with agents
         if (this.definedAgents.has(name)) {
-          this.addError(`Variable "${name}" conflicts with agent name`, binding.name.span);
+          this.addError(
+            DiagnosticCodes.VariableConflictsWithAgent,
+            `Variable "${name}" conflicts with agent name`,
+            binding.name.span,
+            this.seeAlso('Agent defined here', this.definedAgents.get(name)!.name.span)
+          );
           return;
         }
 
-        parentScope.variables.set(name, {
+        this.enterBinding(parentScope, {
           name,
           isConst: true,
           span: binding.name.span,
           declarationLine: binding.span.start.line,
+          kind: 'const',
+          node: binding,
         });
       }
     } else {
@@ -1086,6 +1581,7 @@ export class Validator {
     if (throwStmt.message) {
       if (!throwStmt.message.value.trim()) {
         this.addWarning(
+          DiagnosticCodes.EmptyThrowMessage,
           'Throw message is empty',
           throwStmt.message.span
         );
@@ -1105,24 +1601,28 @@ export class Validator {
 
     // Must have at least one option
     if (choice.options.length === 0) {
-      this.addError('Choice block must have at least one option', choice.span);
+      this.addError(DiagnosticCodes.EmptyChoice, 'Choice block must have at least one option', choice.span);
     }
 
     // Validate each option
-    const seenLabels = new Set<string>();
+    const seenLabels = new Map<string, SourceSpan>();
     for (const option of choice.options) {
       // Check for duplicate option labels
-      if (seenLabels.has(option.label.value)) {
+      const first = seenLabels.get(option.label.value);
+      if (first) {
         this.addWarning(
+          DiagnosticCodes.DuplicateOptionLabel,
           `Duplicate option label: "${option.label.value}"`,
-          option.label.span
+          option.label.span,
+          this.seeAlso('First used here', first)
         );
+      } else {
+        seenLabels.set(option.label.value, option.label.span);
       }
-      seenLabels.add(option.label.value);
 
       // Each option has its own isolated scope
       // Variables don't escape because only one option executes
-      this.pushScope('block');
+      this.pushScope('block', option.span);
       for (const stmt of option.body) {
         this.validateStatement(stmt);
       }
@@ -1138,7 +1638,7 @@ export class Validator {
   private validateIfStatement(ifStmt: IfStatementNode): void {
     // Validate body is not empty
     if (ifStmt.thenBody.length === 0) {
-      this.addError('If body cannot be empty', ifStmt.span);
+      this.addError(DiagnosticCodes.EmptyIfBody, 'If body cannot be empty', ifStmt.span);
     }
 
     // Validate the main if condition
@@ -1172,8 +1672,9 @@ export class Validator {
     // Validate input expression
     if (pipe.input.type === 'Identifier') {
       const inputName = (pipe.input as IdentifierNode).name;
-      if (!this.isVariableDefined(inputName)) {
+      if (!this.resolveVariable(inputName, pipe.input.span)) {
         this.addError(
+          DiagnosticCodes.UndefinedCollection,
           `Undefined collection variable: "${inputName}"`,
           pipe.input.span
         );
@@ -1182,28 +1683,31 @@ export class Validator {
 
     // Must have at least one operation
     if (pipe.operations.length === 0) {
-      this.addError('Pipeline must have at least one operation', pipe.span);
+      this.addError(DiagnosticCodes.EmptyPipeline, 'Pipeline must have at least one operation', pipe.span);
     }
 
-    // Validate each operation in the chain
+    // Validate each operation in the chain; filter keeps the items' type
+    let itemType = this.checkIterable(pipe.input);
     for (const operation of pipe.operations) {
-      this.validatePipeOperation(operation);
+      this.validatePipeOperation(operation, itemType);
+      itemType = operation.operator === 'filter' ? itemType : undefined;
     }
   }
 
   /**
    * Validate a single pipe operation (map, filter, reduce, pmap)
    */
-  private validatePipeOperation(operation: PipeOperationNode): void {
+  private validatePipeOperation(operation: PipeOperationNode, itemType?: TypeNode): void {
     // Validate that the operation has a body
     if (operation.body.length === 0) {
-      this.addError('Pipeline operation body cannot be empty', operation.span);
+      this.addError(DiagnosticCodes.EmptyPipeOperation, 'Pipeline operation body cannot be empty', operation.span);
     }
 
     // Validate that reduce has required parameters
     if (operation.operator === 'reduce') {
       if (!operation.accVar || !operation.itemVar) {
         this.addError(
+          DiagnosticCodes.InvalidReduceParameters,
           'Reduce operation requires (accumulator, item) parameters',
           operation.span
         );
@@ -1211,7 +1715,7 @@ export class Validator {
     }
 
     // Push new scope for operation body
-    this.pushScope('block');
+    this.pushScope('block', operation.span);
 
     // Add implicit/explicit variables to scope based on operator type
     if (operation.operator === 'reduce') {
@@ -1222,6 +1726,8 @@ export class Validator {
           isConst: true,
           span: operation.accVar.span,
           declarationLine: operation.accVar.span.start.line,
+          kind: 'pipe',
+          node: operation,
         });
       }
       if (operation.itemVar) {
@@ -1230,6 +1736,9 @@ export class Validator {
           isConst: true,
           span: operation.itemVar.span,
           declarationLine: operation.itemVar.span.start.line,
+          kind: 'pipe',
+          node: operation,
+          valueType: itemType,
         });
       }
     } else {
@@ -1239,6 +1748,10 @@ export class Validator {
         isConst: true,
         span: operation.span,
         declarationLine: operation.span.start.line,
+        kind: 'pipe',
+        node: operation,
+        isImplicit: true,
+        valueType: itemType,
       });
     }
 
@@ -1257,12 +1770,13 @@ export class Validator {
   private validateDiscretion(discretion: DiscretionNode): void {
     // Validate that the expression is not empty
     if (!discretion.expression || discretion.expression.trim().length === 0) {
-      this.addError('Discretion condition cannot be empty', discretion.span);
+      this.addError(DiagnosticCodes.EmptyCondition, 'Discretion condition cannot be empty', discretion.span);
     }
 
     // Warn on very short conditions that might be ambiguous
     if (discretion.expression && discretion.expression.trim().length < 3) {
       this.addWarning(
+        DiagnosticCodes.AmbiguousCondition,
         'Discretion condition is very short and may be ambiguous',
         discretion.span
       );
@@ -1312,6 +1826,9 @@ export class Validator {
       isConst: false,
       span: binding.name.span,
       declarationLine: binding.span.start.line,
+      kind: 'let',
+      node: binding,
+      valueType: this.typeOf(binding.value),
     });
   }
 
@@ -1328,6 +1845,9 @@ export class Validator {
       isConst: true,
       span: binding.name.span,
       declarationLine: binding.span.start.line,
+      kind: 'const',
+      node: binding,
+      valueType: this.typeOf(binding.value),
     });
   }
 
@@ -1338,20 +1858,31 @@ export class Validator {
     const name = assignment.name.name;
 
     // Check if the variable exists
-    const binding = this.lookupVariable(name);
+    const binding = this.resolveVariable(name, assignment.name.span, true);
     if (!binding) {
-      this.addError(`Undefined variable: "${name}"`, assignment.name.span);
+      this.addError(DiagnosticCodes.UndefinedVariable, `Undefined variable: "${name}"`, assignment.name.span);
       return;
     }
 
     // Check if trying to assign to a const
     if (binding.isConst) {
-      this.addError(`Cannot reassign const variable: "${name}"`, assignment.name.span);
+      this.addError(
+        DiagnosticCodes.ConstReassignment,
+        `Cannot reassign const variable: "${name}"`,
+        assignment.name.span,
+        this.seeAlso('Declared as const here', binding.span)
+      );
       return;
     }
 
     // Validate the value expression
     this.validateBindingExpression(assignment.value);
+
+    // A value of another shape makes the variable's shape unknown
+    const valueType = this.typeOf(assignment.value);
+    if (!binding.valueType || !valueType || formatType(binding.valueType) !== formatType(valueType)) {
+      binding.valueType = undefined;
+    }
   }
 
   /**
@@ -1383,8 +1914,8 @@ export class Validator {
     } else if (expr.type === 'Identifier') {
       // Variable reference - check if it exists
       const name = (expr as IdentifierNode).name;
-      if (!this.isVariableDefined(name) && !this.definedAgents.has(name)) {
-        this.addError(`Undefined variable: "${name}"`, expr.span);
+      if (!this.resolveVariable(name, expr.span) && !this.resolveDefinition('agent', name, expr.span)) {
+        this.addError(DiagnosticCodes.UndefinedVariable, `Undefined variable: "${name}"`, expr.span);
       }
     } else if (expr.type === 'StringLiteral') {
       // Validate interpolations in string literals
@@ -1402,7 +1933,7 @@ export class Validator {
 
     // Session must have either a prompt (inline or property), or an agent reference
     if (!statement.prompt && !statement.agent && !hasPromptProperty) {
-      this.addError('Session statement requires a prompt or agent reference', statement.span);
+      this.addError(DiagnosticCodes.MissingSessionPrompt, 'Session statement requires a prompt or agent reference', statement.span);
       return;
     }
 
@@ -1414,13 +1945,21 @@ export class Validator {
     // Validate agent reference if present
     if (statement.agent) {
       const agentName = statement.agent.name;
-      if (!this.definedAgents.has(agentName)) {
-        this.addError(`Undefined agent: "${agentName}"`, statement.agent.span);
+      if (!this.resolveDefinition('agent', agentName, statement.agent.span)) {
+        const fixes = this.quickFixes ? [
+          ...this.quickFixes.suggestNames(agentName, this.definedAgents.keys(), statement.agent.span),
+          this.quickFixes.defineAgent(agentName, this.currentTopLevel!),
+        ] : undefined;
+        this.addError(DiagnosticCodes.UndefinedAgent, `Undefined agent: "${agentName}"`, statement.agent.span, { fixes });
       }
     }
 
+    if (statement.returns) {
+      this.validateType(statement.returns);
+    }
+
     // Validate properties
-    const seenProps = new Set<string>();
+    const seenProps = new Map<string, PropertyNode>();
     for (const prop of statement.properties) {
       this.validateProperty(prop, 'session', seenProps);
     }
@@ -1431,6 +1970,7 @@ export class Validator {
     // If session has both inline prompt and properties, warn
     if (statement.prompt && statement.properties.some(p => p.name.name === 'prompt')) {
       this.addWarning(
+        DiagnosticCodes.PromptOverridden,
         'Session has both inline prompt and prompt property; prompt property will override',
         statement.span
       );
@@ -1440,15 +1980,20 @@ export class Validator {
   /**
    * Validate a property
    */
-  private validateProperty(prop: PropertyNode, context: 'agent' | 'session', seenProps: Set<string>): void {
+  private validateProperty(prop: PropertyNode, context: 'agent' | 'session', seenProps: Map<string, PropertyNode>): void {
     const propName = prop.name.name;
 
     // Check for duplicate properties
-    if (seenProps.has(propName)) {
-      this.addError(`Duplicate property: "${propName}"`, prop.name.span);
+    const first = seenProps.get(propName);
+    if (first) {
+      const fix = this.quickFixes?.removeProperty(prop);
+      this.addError(DiagnosticCodes.DuplicateProperty, `Duplicate property: "${propName}"`, prop.name.span, {
+        ...this.seeAlso('First set here', first.name.span),
+        fixes: fix ? [fix] : undefined,
+      });
       return;
     }
-    seenProps.add(propName);
+    seenProps.set(propName, prop);
 
     // Validate specific properties
     switch (propName) {
@@ -1460,42 +2005,49 @@ export class Validator {
         break;
       case 'skills':
         if (context !== 'agent') {
-          this.addWarning('Skills property is only valid in agent definitions', prop.name.span);
+          this.addWarning(DiagnosticCodes.MisplacedProperty, 'Skills property is only valid in agent definitions', prop.name.span);
         } else {
           this.validateSkillsProperty(prop);
         }
         break;
       case 'permissions':
         if (context !== 'agent') {
-          this.addWarning('Permissions property is only valid in agent definitions', prop.name.span);
+          this.addWarning(DiagnosticCodes.MisplacedProperty, 'Permissions property is only valid in agent definitions', prop.name.span);
         } else {
           this.validatePermissionsProperty(prop);
         }
         break;
       case 'context':
         if (context !== 'session') {
-          this.addWarning('Context property is only valid in session statements', prop.name.span);
+          this.addWarning(DiagnosticCodes.MisplacedProperty, 'Context property is only valid in session statements', prop.name.span);
         } else {
           this.validateContextProperty(prop);
         }
         break;
       case 'retry':
         if (context !== 'session') {
-          this.addWarning('Retry property is only valid in session statements', prop.name.span);
+          this.addWarning(DiagnosticCodes.MisplacedProperty, 'Retry property is only valid in session statements', prop.name.span);
         } else {
           this.validateRetryProperty(prop);
         }
         break;
       case 'backoff':
         if (context !== 'session') {
-          this.addWarning('Backoff property is only valid in session statements', prop.name.span);
+          this.addWarning(DiagnosticCodes.MisplacedProperty, 'Backoff property is only valid in session statements', prop.name.span);
         } else {
           this.validateBackoffProperty(prop);
         }
         break;
-      default:
+      default: {
         // Unknown properties - warn for now (could be future features)
-        this.addWarning(`Unknown property: "${propName}"`, prop.name.span);
+        const unused = VALID_PROPERTIES[context].filter(name => !seenProps.has(name));
+        this.addWarning(
+          DiagnosticCodes.UnknownProperty,
+          `Unknown property: "${propName}"`,
+          prop.name.span,
+          { fixes: this.quickFixes?.suggestNames(propName, unused, prop.name.span) }
+        );
+      }
     }
   }
 
@@ -1504,7 +2056,7 @@ export class Validator {
    */
   private validateSkillsProperty(prop: PropertyNode): void {
     if (prop.value.type !== 'ArrayExpression') {
-      this.addError('Skills must be an array of skill names', prop.value.span);
+      this.addError(DiagnosticCodes.InvalidSkills, 'Skills must be an array of skill names', prop.value.span);
       return;
     }
 
@@ -1513,7 +2065,7 @@ export class Validator {
     // Validate each skill reference
     for (const element of arrayValue.elements) {
       if (element.type !== 'StringLiteral') {
-        this.addError('Skill name must be a string', element.span);
+        this.addError(DiagnosticCodes.InvalidSkills, 'Skill name must be a string', element.span);
         continue;
       }
 
@@ -1521,13 +2073,13 @@ export class Validator {
 
       // Check if skill is imported
       if (!this.importedSkills.has(skillName)) {
-        this.addWarning(`Skill "${skillName}" is not imported`, element.span);
+        this.addWarning(DiagnosticCodes.SkillNotImported, `Skill "${skillName}" is not imported`, element.span);
       }
     }
 
     // Warn on empty skills array
     if (arrayValue.elements.length === 0) {
-      this.addWarning('Skills array is empty', prop.value.span);
+      this.addWarning(DiagnosticCodes.EmptySkills, 'Skills array is empty', prop.value.span);
     }
   }
 
@@ -1536,7 +2088,7 @@ export class Validator {
    */
   private validatePermissionsProperty(prop: PropertyNode): void {
     if (prop.value.type !== 'ObjectExpression') {
-      this.addError('Permissions must be a block of permission rules', prop.value.span);
+      this.addError(DiagnosticCodes.InvalidPermissions, 'Permissions must be a block of permission rules', prop.value.span);
       return;
     }
 
@@ -1548,7 +2100,7 @@ export class Validator {
 
       // Check for known permission types
       if (!validPermissionTypes.includes(permType)) {
-        this.addWarning(`Unknown permission type: "${permType}"`, permProp.name.span);
+        this.addWarning(DiagnosticCodes.UnknownPermission, `Unknown permission type: "${permType}"`, permProp.name.span);
       }
 
       // Validate permission value (array or identifier like 'deny'/'allow')
@@ -1557,7 +2109,7 @@ export class Validator {
         const arrayValue = permProp.value as ArrayExpressionNode;
         for (const element of arrayValue.elements) {
           if (element.type !== 'StringLiteral') {
-            this.addError('Permission pattern must be a string', element.span);
+            this.addError(DiagnosticCodes.InvalidPermissions, 'Permission pattern must be a string', element.span);
           }
         }
       } else if (permProp.value.type === 'Identifier') {
@@ -1565,12 +2117,13 @@ export class Validator {
         const identValue = (permProp.value as IdentifierNode).name;
         if (!['deny', 'allow', 'prompt'].includes(identValue)) {
           this.addWarning(
+            DiagnosticCodes.UnknownPermission,
             `Unknown permission value: "${identValue}". Expected 'deny', 'allow', or 'prompt'`,
             permProp.value.span
           );
         }
       } else {
-        this.addError('Permission value must be an array of patterns or an identifier', permProp.value.span);
+        this.addError(DiagnosticCodes.InvalidPermissions, 'Permission value must be an array of patterns or an identifier', permProp.value.span);
       }
     }
   }
@@ -1589,20 +2142,20 @@ export class Validator {
     if (value.type === 'Identifier') {
       // Single variable reference
       const name = (value as IdentifierNode).name;
-      if (!this.isVariableDefined(name)) {
-        this.addError(`Undefined variable in context: "${name}"`, value.span);
+      if (!this.resolveVariable(name, value.span)) {
+        this.addError(DiagnosticCodes.UndefinedContextVariable, `Undefined variable in context: "${name}"`, value.span);
       }
     } else if (value.type === 'ArrayExpression') {
       // Array of variable references (can be empty)
       const arrayValue = value as ArrayExpressionNode;
       for (const element of arrayValue.elements) {
         if (element.type !== 'Identifier') {
-          this.addError('Context array elements must be variable references', element.span);
+          this.addError(DiagnosticCodes.InvalidContext, 'Context array elements must be variable references', element.span);
           continue;
         }
         const name = (element as IdentifierNode).name;
-        if (!this.isVariableDefined(name)) {
-          this.addError(`Undefined variable in context: "${name}"`, element.span);
+        if (!this.resolveVariable(name, element.span)) {
+          this.addError(DiagnosticCodes.UndefinedContextVariable, `Undefined variable in context: "${name}"`, element.span);
         }
       }
     } else if (value.type === 'ObjectExpression') {
@@ -1611,12 +2164,12 @@ export class Validator {
       for (const propItem of objValue.properties) {
         // For shorthand properties, the name is also the variable reference
         const varName = propItem.name.name;
-        if (!this.isVariableDefined(varName)) {
-          this.addError(`Undefined variable in context: "${varName}"`, propItem.name.span);
+        if (!this.resolveVariable(varName, propItem.name.span)) {
+          this.addError(DiagnosticCodes.UndefinedContextVariable, `Undefined variable in context: "${varName}"`, propItem.name.span);
         }
       }
     } else {
-      this.addError('Context must be a variable reference, an array of variable references, or an object { a, b, c }', value.span);
+      this.addError(DiagnosticCodes.InvalidContext, 'Context must be a variable reference, an array of variable references, or an object { a, b, c }', value.span);
     }
   }
 
@@ -1626,7 +2179,7 @@ export class Validator {
    */
   private validateRetryProperty(prop: PropertyNode): void {
     if (prop.value.type !== 'NumberLiteral') {
-      this.addError('Retry must be a number', prop.value.span);
+      this.addError(DiagnosticCodes.InvalidRetry, 'Retry must be a number', prop.value.span);
       return;
     }
 
@@ -1635,6 +2188,7 @@ export class Validator {
     // Must be positive integer
     if (retryValue <= 0) {
       this.addError(
+        DiagnosticCodes.InvalidRetry,
         `Retry count must be positive, got ${retryValue}`,
         prop.value.span
       );
@@ -1642,14 +2196,16 @@ export class Validator {
 
     if (!Number.isInteger(retryValue)) {
       this.addError(
+        DiagnosticCodes.InvalidRetry,
         `Retry count must be an integer, got ${retryValue}`,
         prop.value.span
       );
     }
 
     // Warn if retry count seems excessive
-    if (retryValue > 10) {
+    if (retryValue > this.rules.number(DiagnosticCodes.HighRetry, 'max', 10)) {
       this.addWarning(
+        DiagnosticCodes.HighRetry,
         `Retry count ${retryValue} is unusually high. Consider a lower value.`,
         prop.value.span
       );
@@ -1668,6 +2224,7 @@ export class Validator {
 
       if (!validBackoffStrategies.includes(backoffValue)) {
         this.addError(
+          DiagnosticCodes.InvalidBackoff,
           `Invalid backoff strategy: "${backoffValue}". Must be one of: ${validBackoffStrategies.join(', ')}`,
           prop.value.span
         );
@@ -1678,12 +2235,13 @@ export class Validator {
       // Must be non-negative
       if (backoffValue < 0) {
         this.addError(
+          DiagnosticCodes.InvalidBackoff,
           `Backoff delay must be non-negative, got ${backoffValue}`,
           prop.value.span
         );
       }
     } else {
-      this.addError('Backoff must be a string ("none", "linear", or "exponential") or a number (delay in ms)', prop.value.span);
+      this.addError(DiagnosticCodes.InvalidBackoff, 'Backoff must be a string ("none", "linear", or "exponential") or a number (delay in ms)', prop.value.span);
     }
   }
 
@@ -1692,15 +2250,23 @@ export class Validator {
    */
   private validateModelProperty(prop: PropertyNode): void {
     if (prop.value.type !== 'Identifier') {
-      this.addError('Model must be an identifier (sonnet, opus, or haiku)', prop.value.span);
+      const quoted = prop.value.type === 'StringLiteral' ? (prop.value as StringLiteralNode).value : null;
+      this.addError(
+        DiagnosticCodes.InvalidModel,
+        'Model must be an identifier (sonnet, opus, or haiku)',
+        prop.value.span,
+        { fixes: quoted !== null ? this.quickFixes?.suggestNames(quoted, VALID_MODELS, prop.value.span, true) : undefined }
+      );
       return;
     }
 
     const modelValue = (prop.value as IdentifierNode).name;
     if (!VALID_MODELS.includes(modelValue)) {
       this.addError(
+        DiagnosticCodes.InvalidModel,
         `Invalid model: "${modelValue}". Must be one of: ${VALID_MODELS.join(', ')}`,
-        prop.value.span
+        prop.value.span,
+        { fixes: this.quickFixes?.suggestNames(modelValue, VALID_MODELS, prop.value.span, true) }
       );
     }
   }
@@ -1710,7 +2276,7 @@ export class Validator {
    */
   private validatePromptProperty(prop: PropertyNode): void {
     if (prop.value.type !== 'StringLiteral') {
-      this.addError('Prompt must be a string literal', prop.value.span);
+      this.addError(DiagnosticCodes.InvalidPrompt, 'Prompt must be a string literal', prop.value.span);
       return;
     }
 
@@ -1719,12 +2285,17 @@ export class Validator {
 
     // Warn on empty prompt
     if (stringValue.value.length === 0) {
-      this.addWarning('Prompt property has an empty value', prop.value.span);
+      this.addWarning(DiagnosticCodes.EmptyPromptProperty, 'Prompt property has an empty value', prop.value.span);
     }
 
     // Warn on whitespace-only prompt
     if (stringValue.value.length > 0 && stringValue.value.trim().length === 0) {
-      this.addWarning('Prompt property contains only whitespace', prop.value.span);
+      this.addWarning(DiagnosticCodes.EmptyPromptProperty, 'Prompt property contains only whitespace', prop.value.span);
+    }
+
+    // Record references for interpolations that resolve (not reported when undefined)
+    for (const interpolation of findInterpolationSpans(stringValue)) {
+      this.resolveVariable(interpolation.name, interpolation.nameSpan);
     }
   }
 
@@ -1740,14 +2311,14 @@ export class Validator {
 
     // Error on empty prompt
     if (prompt.value.length === 0) {
-      this.addError('Session prompt cannot be empty', prompt.span);
+      this.addError(DiagnosticCodes.EmptyPrompt, 'Session prompt cannot be empty', prompt.span);
       return;
     }
 
-    // Warn on very long prompts (over 10,000 characters)
-    const MAX_PROMPT_LENGTH = 10000;
-    if (prompt.value.length > MAX_PROMPT_LENGTH) {
+    // Warn on very long prompts (over 10,000 characters by default)
+    if (prompt.value.length > this.rules.number(DiagnosticCodes.LongPrompt, 'max', 10000)) {
       this.addWarning(
+        DiagnosticCodes.LongPrompt,
         `Session prompt is very long (${prompt.value.length} characters). Consider breaking into smaller tasks.`,
         prompt.span
       );
@@ -1755,7 +2326,7 @@ export class Validator {
 
     // Warn on prompts that are just whitespace
     if (prompt.value.length > 0 && prompt.value.trim().length === 0) {
-      this.addWarning('Session prompt contains only whitespace', prompt.span);
+      this.addWarning(DiagnosticCodes.BlankPrompt, 'Session prompt contains only whitespace', prompt.span);
     }
   }
 
@@ -1773,19 +2344,25 @@ export class Validator {
     // Pattern: { followed by chars (not { or }) with no matching }
     const unclosedMatch = normalizedValue.match(/\{[^{}\x00\x01]*$/);
     if (unclosedMatch) {
-      this.addError('Unclosed interpolation brace', str.span);
+      this.addError(DiagnosticCodes.UnclosedInterpolation, 'Unclosed interpolation brace', str.span);
       return;
     }
 
-    // Validate each interpolated variable (on normalized value)
-    const interpolationRegex = /\{(\w+)\}/g;
+    // Validate each interpolated variable (on normalized value); the fields
+    // of {name.field} are checked against its type when it is resolved below
+    const interpolationRegex = /\{(\w+)(?:\.\w+)*\}/g;
     let match;
     while ((match = interpolationRegex.exec(normalizedValue)) !== null) {
       const varName = match[1];
       if (!this.isVariableDefined(varName)) {
-        this.addError(`Undefined variable in interpolation: "${varName}"`, str.span);
+        this.addError(DiagnosticCodes.UndefinedInterpolationVariable, `Undefined variable in interpolation: "${varName}"`, str.span);
       }
     }
+
+    // Record references at the exact source position of each interpolation
+    for (const interpolation of findInterpolationSpans(str)) {
+      this.resolveVariable(interpolation.name, interpolation.nameSpan);
+    }
   }
 
   /**
@@ -1797,6 +2374,7 @@ export class Validator {
       for (const escape of node.escapeSequences) {
         if (escape.type === 'invalid') {
           this.addWarning(
+            DiagnosticCodes.UnknownEscape,
             `Unrecognized escape sequence: ${escape.sequence}`,
             node.span
           );
@@ -1805,37 +2383,161 @@ export class Validator {
     }
 
     // Validate string is not too long (arbitrary limit for now)
-    const MAX_STRING_LENGTH = 1000000; // 1MB
-    if (node.value.length > MAX_STRING_LENGTH) {
+    const maxStringLength = this.rules.number(DiagnosticCodes.LongString, 'max', 1000000); // 1MB
+    if (node.value.length > maxStringLength) {
       this.addWarning(
+        DiagnosticCodes.LongString,
         `String literal is very long (${node.value.length} characters)`,
         node.span
       );
     }
   }
 
-  private addError(message: string, span: SourceSpan): void {
-    this.errors.push({
-      message,
-      span,
-      severity: 'error',
-    });
+  // ========== Rules ==========
+
+  /**
+   * Report statements nested deeper than the nesting-depth rule allows,
+   * once per offending chain
+   */
+  private checkNestingDepth(node: ASTNode, depth: number): void {
+    const nests = NESTING_STATEMENTS.includes(node.type);
+    const max = this.rules.number(DiagnosticCodes.MaxNestingDepth, 'max', 5);
+    if (nests && depth + 1 > max) {
+      this.addWarning(
+        DiagnosticCodes.MaxNestingDepth,
+        `Nesting depth ${depth + 1} exceeds the maximum of ${max}. Consider extracting a block.`,
+        node.span
+      );
+      return;
+    }
+    for (const child of getChildNodes(node)) {
+      this.checkNestingDepth(child, nests ? depth + 1 : depth);
+    }
   }
 
-  private addWarning(message: string, span: SourceSpan): void {
-    this.warnings.push({
-      message,
-      span,
-      severity: 'warning',
-    });
+  /**
+   * Report the budget limits the program's worst case exceeds. Only valid
+   * programs are planned.
+   */
+  private checkBudget(): void {
+    const { budget, prices } = this.config;
+    if (!budget || this.errors.length > 0) {
+      return;
+    }
+    // Count what blocks from modules run, too
+    const plan = planProgram({ ...this.program, statements: [...this.definitions, ...this.program.statements] });
+    const estimate = estimateCost(plan, { prices });
+    for (const violation of checkBudget(plan, estimate, budget)) {
+      this.addError(DiagnosticCodes.BudgetExceeded, violation.message, violationSpan(plan, violation) ?? this.program.span);
+    }
+  }
+
+  /**
+   * Point out sessions in a row that could run in parallel, offering to
+   * wrap them in a parallel block
+   */
+  private checkParallelism(): void {
+    const code = DiagnosticCodes.ParallelizableSessions;
+    if (this.errors.length > 0 || this.rules.severity(code, 'info') === 'off') {
+      return;
+    }
+    for (const run of analyzeParallelism(this.program).parallelizable) {
+      const fix = this.quickFixes?.wrapInParallel(run.statements);
+      this.addInfo(
+        code,
+        `${run.statements.length} sessions in a row don't use each other's output and could run in parallel`,
+        run.span,
+        { fixes: fix ? [fix] : undefined }
+      );
+    }
+  }
+
+  /**
+   * Run custom rules; their diagnostics use the rule name as the code
+   */
+  private runCustomRules(): void {
+    runCustomRules(this.program, this.customRules, rule => ({
+      program: this.program,
+      source: this.source,
+      options: this.rules.options(rule.name),
+      report: (message, span, details = {}) => {
+        this.report(rule.name, rule.defaultSeverity ?? 'warning', message, span, details);
+      },
+    }));
+  }
+
+  private addError(code: DiagnosticCode, message: string, span: SourceSpan, details: DiagnosticDetails = {}): void {
+    this.report(code, 'error', message, span, details);
+  }
+
+  private addWarning(code: DiagnosticCode, message: string, span: SourceSpan, details: DiagnosticDetails = {}): void {
+    this.report(code, 'warning', message, span, details);
+  }
+
+  private addInfo(code: DiagnosticCode, message: string, span: SourceSpan, details: DiagnosticDetails = {}): void {
+    this.report(code, 'info', message, span, details);
+  }
+
+  /**
+   * Record a diagnostic with the severity its rule is configured with
+   */
+  private report(
+    code: string,
+    defaultSeverity: ValidationError['severity'],
+    message: string,
+    span: SourceSpan,
+    details: DiagnosticDetails
+  ): void {
+    const severity = this.rules.severity(code, defaultSeverity);
+    if (severity === 'off') {
+      return;
+    }
+    const diagnostic: ValidationError = { code, message, span, severity, ...withoutEmpty(details) };
+    if (severity === 'error') {
+      this.errors.push(diagnostic);
+    } else {
+      this.warnings.push(diagnostic);
+    }
+  }
+
+  /**
+   * Point a diagnostic at a related place in the source
+   */
+  private seeAlso(message: string, span: SourceSpan): DiagnosticDetails {
+    return { related: [{ message, span }] };
   }
 }
 
 /**
- * Validate an OpenProse program
+ * The part of a one-line span from one character to another
  */
-export function validate(program: ProgramNode): ValidationResult {
-  const validator = new Validator(program);
+function partOf(span: SourceSpan, from: number, to: number): SourceSpan {
+  return {
+    start: { ...span.start, column: span.start.column + from, offset: span.start.offset + from },
+    end: { ...span.start, column: span.start.column + to, offset: span.start.offset + to },
+  };
+}
+
+/**
+ * Drop empty related/fix lists, so diagnostics without them stay plain
+ */
+function withoutEmpty(details: DiagnosticDetails): DiagnosticDetails {
+  const result: DiagnosticDetails = {};
+  if (details.related && details.related.length > 0) {
+    result.related = details.related;
+  }
+  if (details.fixes && details.fixes.length > 0) {
+    result.fixes = details.fixes;
+  }
+  return result;
+}
+
+/**
+ * Validate an OpenProse program. Pass the source text to get fixes for
+ * the diagnostics that have them, and lint options to configure rules.
+ */
+export function validate(program: ProgramNode, source?: string, options?: ValidateOptions): ValidationResult {
+  const validator = new Validator(program, source, options);
   return validator.validate();
 }
 
@@ -1846,3 +2548,12 @@ export function isValid(program: ProgramNode): boolean {
   const result = validate(program);
   return result.valid;
 }
+
+/**
+ * Build the symbol table for a program (declarations and resolved references)
+ */
+export function bind(program: ProgramNode): SymbolTable {
+  const validator = new Validator(program);
+  validator.validate();
+  return validator.getSymbolTable();
+}
@@ -18,12 +18,14 @@ import * as path from 'path';
 import * as fs from 'fs';
 import {
   runProseProgram,
+  readProseProgram,
   findTestPrograms,
   findTestProgramByName,
   RunnerResult,
 } from './runner';
 import {
   collectExecutionLogs,
+  collectTraceLogs,
   filterLogsAfterTime,
   ExecutionLog,
 } from './log-collector';
@@ -52,6 +54,7 @@ interface HarnessOptions {
   verbose?: boolean;
   skipJudge?: boolean;
   timeout?: number;
+  traceDir?: string;
 }
 
 /**
@@ -72,11 +75,14 @@ Options:
   --verbose                                Show detailed output
   --skip-judge                             Skip the LLM judge evaluation
   --timeout <ms>                           Set execution timeout (default: 120000)
+  --traces <dir>                           Judge the traces in <dir>/<test-name>.jsonl instead of
+                                           running the programs; a missing trace fails the test
 
 Examples:
   npx ts-node index.ts tier-00-comments
   npx ts-node index.ts tier-00-strings
   npx ts-node index.ts --all --verbose
+  npx ts-node index.ts --all --traces traces/
 `);
 }
 
@@ -102,6 +108,27 @@ function listTests(): void {
   console.log('');
 }
 
+/**
+ * Describes the run a trace records, as the runner would describe a run
+ */
+function traceRunnerResult(programPath: string, logs: ExecutionLog): RunnerResult {
+  const end = logs.entries.find(entry => entry.type === 'run-end')?.content as
+    { status?: string; output?: unknown; error?: string; durationMs?: number } | undefined;
+  const output = end?.output;
+
+  return {
+    success: end?.status === 'completed',
+    sessionId: null,
+    output: output === undefined ? '' : typeof output === 'string' ? output : JSON.stringify(output, null, 2),
+    jsonOutput: end?.output ?? null,
+    error: !end ? 'The trace has no run-end event' : end.error ?? null,
+    duration: end?.durationMs ?? 0,
+    programPath,
+    programContent: readProseProgram(programPath),
+    timestamp: logs.startTime ?? new Date(),
+  };
+}
+
 /**
  * Runs a single test
  */
@@ -109,7 +136,7 @@ async function runTest(
   testName: string,
   options: HarnessOptions = {}
 ): Promise<TestResult | null> {
-  const { verbose = false, skipJudge = false, timeout = 120000 } = options;
+  const { verbose = false, skipJudge = false, timeout = 120000, traceDir } = options;
 
   console.log(`\n${'='.repeat(60)}`);
   console.log(`TEST: ${testName}`);
@@ -126,10 +153,26 @@ async function runTest(
   console.log(`Program: ${programPath}`);
   console.log('');
 
-  // Step 1: Run the program
-  console.log('Step 1: Executing program via Claude Code...');
+  let runnerResult: RunnerResult;
+  let traceLogs: ExecutionLog | null = null;
   const startTime = new Date();
-  const runnerResult = await runProseProgram(programPath, { timeout });
+
+  if (traceDir) {
+    // Step 1: Judge the run the trace records instead of running the program
+    const tracePath = path.join(traceDir, testName + '.jsonl');
+    console.log('Step 1: Reading execution trace...');
+    console.log(`  Trace: ${tracePath}`);
+    if (!fs.existsSync(tracePath)) {
+      console.error(`ERROR: Trace not found: ${tracePath}`);
+      console.error(`       Record it with: open-prose run --mock <fixture.json> --trace ${tracePath} ${programPath}`);
+      return null;
+    }
+    traceLogs = collectTraceLogs(tracePath);
+    runnerResult = traceRunnerResult(programPath, traceLogs);
+  } else {
+    console.log('Step 1: Executing program via Claude Code...');
+    runnerResult = await runProseProgram(programPath, { timeout });
+  }
 
   console.log(`  Duration: ${runnerResult.duration}ms`);
   console.log(`  Success: ${runnerResult.success}`);
@@ -149,13 +192,18 @@ async function runTest(
 
   // Step 2: Collect logs
   console.log('\nStep 2: Collecting execution logs...');
-  let executionLogs = collectExecutionLogs({
-    maxAge: 300000, // 5 minutes
-    sessionId: runnerResult.sessionId,
-  });
+  let executionLogs: ExecutionLog;
+  if (traceLogs) {
+    executionLogs = traceLogs;
+  } else {
+    executionLogs = collectExecutionLogs({
+      maxAge: 300000, // 5 minutes
+      sessionId: runnerResult.sessionId,
+    });
 
-  // Filter to only logs after our test started
-  executionLogs = filterLogsAfterTime(executionLogs, startTime);
+    // Filter to only logs after our test started
+    executionLogs = filterLogsAfterTime(executionLogs, startTime);
+  }
 
   console.log(`  Log entries found: ${executionLogs.entries.length}`);
   console.log(`  Tool calls: ${executionLogs.toolCalls.length}`);
@@ -328,10 +376,16 @@ async function main(): Promise<void> {
     options.timeout = parseInt(args[timeoutIndex + 1], 10);
   }
 
-  // Filter out option flags
+  // Parse trace directory
+  const traceIndex = args.indexOf('--traces');
+  if (traceIndex !== -1 && args[traceIndex + 1]) {
+    options.traceDir = args[traceIndex + 1];
+  }
+
+  // Filter out option flags and their values
+  const optionValues = [timeoutIndex, traceIndex].filter(index => index !== -1).map(index => index + 1);
   const positionalArgs = args.filter(
-    arg => !arg.startsWith('--') &&
-           (args.indexOf('--timeout') === -1 || args.indexOf(arg) !== args.indexOf('--timeout') + 1)
+    (arg, index) => !arg.startsWith('--') && !optionValues.includes(index)
   );
 
   // Handle commands
@@ -359,7 +413,9 @@ async function main(): Promise<void> {
 
   // Run specified test(s)
   for (const testName of positionalArgs) {
-    await runTest(testName, options);
+    if (!await runTest(testName, options)) {
+      process.exitCode = 1;
+    }
   }
 }
 
@@ -4,6 +4,7 @@
  * This module handles:
  * - Finding session logs from ~/.claude/ directory
  * - Parsing JSONL format log files
+ * - Reading OpenProse execution traces (open-prose run --trace)
  * - Extracting relevant execution events
  * - Correlating logs with specific test runs
  */
@@ -261,6 +262,13 @@ function extractAgentSpawns(entries: LogEntry[]): AgentSpawnEntry[] {
         agentType: String(content.agent_type || content.type || 'unknown'),
         taskDescription: String(content.task || content.description || ''),
       });
+    } else if (entry.type === 'session-start') {
+      // Execution trace: every session attempt spawns a subagent
+      spawns.push({
+        timestamp: entry.timestamp,
+        agentType: String(content.agent || 'session'),
+        taskDescription: String(content.prompt || ''),
+      });
     }
   }
 
@@ -282,6 +290,13 @@ function extractResponses(entries: LogEntry[]): ResponseEntry[] {
         role: String(content.role || 'assistant'),
         content: String(content.content || content.text || content.message || ''),
       });
+    } else if (entry.type === 'session-end') {
+      const output = content.output;
+      responses.push({
+        timestamp: entry.timestamp,
+        role: 'session',
+        content: typeof output === 'string' ? output : JSON.stringify(output),
+      });
     }
   }
 
@@ -353,6 +368,54 @@ export function collectExecutionLogs(options: CollectorOptions = {}): ExecutionL
   };
 }
 
+/**
+ * Collects execution logs from an OpenProse execution trace. Trace events
+ * carry milliseconds since the run started; entries get absolute
+ * timestamps from the run-start header.
+ */
+export function collectTraceLogs(tracePath: string, sessionId: string | null = null): ExecutionLog {
+  const entries: LogEntry[] = [];
+  let runStart = 0;
+
+  if (fs.existsSync(tracePath)) {
+    for (const line of fs.readFileSync(tracePath, 'utf-8').split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed) {
+        continue;
+      }
+
+      let event: Record<string, unknown>;
+      try {
+        event = JSON.parse(trimmed);
+      } catch {
+        // Not valid JSON, skip
+        continue;
+      }
+
+      if (event.type === 'run-start' && typeof event.timestamp === 'string') {
+        runStart = new Date(event.timestamp).getTime();
+      }
+      entries.push({
+        timestamp: new Date(runStart + (Number(event.time) || 0)).toISOString(),
+        type: String(event.type || 'unknown'),
+        content: event,
+        raw: trimmed,
+      });
+    }
+  }
+
+  return {
+    sessionId,
+    entries,
+    toolCalls: extractToolCalls(entries),
+    agentSpawns: extractAgentSpawns(entries),
+    responses: extractResponses(entries),
+    errors: extractErrors(entries),
+    startTime: entries.length > 0 ? new Date(entries[0].timestamp) : null,
+    endTime: entries.length > 0 ? new Date(entries[entries.length - 1].timestamp) : null,
+  };
+}
+
 /**
  * Filters logs to entries after a specific timestamp
  */